@@ -0,0 +1,64 @@
+// Copies the gaze analytics core into supabase/functions/_shared/vendor so
+// edge functions deploy on their own, without the rest of the repository.
+// Run `npm run sync:edge-analytics` after changing src/lib/analytics;
+// `--check` only reports files that are out of date.
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const SOURCE = join(ROOT, "src");
+export const VENDOR = join(ROOT, "supabase/functions/_shared/vendor");
+
+const HEADER = "// Generated by scripts/sync-edge-analytics.mjs from src/; do not edit.\n";
+
+// The analytics core and the two modules it imports from outside its folder,
+// kept at the same paths relative to each other
+export function vendoredFiles() {
+  const analytics = readdirSync(join(SOURCE, "lib/analytics"))
+    .filter(name => name.endsWith(".ts") && !name.endsWith(".test.ts"))
+    .map(name => `lib/analytics/${name}`);
+  return [...analytics, "lib/normativeEngine.ts", "types/diagnostic.ts"];
+}
+
+export const vendoredSource = path => HEADER + readFileSync(join(SOURCE, path), "utf8");
+
+const listVendor = (dir = VENDOR) =>
+  existsSync(dir)
+    ? readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? listVendor(join(dir, entry.name)) : [relative(VENDOR, join(dir, entry.name))]
+      )
+    : [];
+
+// Paths under the vendor folder that are missing, stale or no longer vendored
+export function staleFiles() {
+  const files = vendoredFiles();
+  const stale = files.filter(path => {
+    const target = join(VENDOR, path);
+    return !existsSync(target) || readFileSync(target, "utf8") !== vendoredSource(path);
+  });
+  const extra = listVendor().filter(path => !files.includes(path.split("\\").join("/")));
+  return [...stale, ...extra];
+}
+
+function sync() {
+  rmSync(VENDOR, { recursive: true, force: true });
+  for (const path of vendoredFiles()) {
+    const target = join(VENDOR, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, vendoredSource(path));
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  if (process.argv.includes("--check")) {
+    const stale = staleFiles();
+    if (stale.length > 0) {
+      console.error(`Edge analytics are out of date (${stale.join(", ")}); run npm run sync:edge-analytics`);
+      process.exit(1);
+    }
+  } else {
+    sync();
+  }
+}
@@ -21,6 +21,10 @@ import Profile from "./pages/Profile";
 import DatasetUpload from "./pages/DatasetUpload";
 import AdminAnalytics from "./pages/AdminAnalytics";
 import ResearchDashboard from "./pages/ResearchDashboard";
+import SessionReplay from "./pages/SessionReplay";
+import ParentPortal from "./pages/ParentPortal";
+import ScreeningCampaigns from "./pages/ScreeningCampaigns";
+import PassageLibrary from "./pages/PassageLibrary";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -39,6 +43,7 @@ const App = () => (
                 <Route path="/" element={<Index />} />
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/parent-portal" element={<ParentPortal />} />
                 <Route path="/assessment" element={
                   <ProtectedRoute>
                     <Assessment />
@@ -64,6 +69,26 @@ const App = () => (
                     <StudentProfile />
                   </ProtectedRoute>
                 } />
+                <Route path="/campaigns" element={
+                  <ProtectedRoute>
+                    <ScreeningCampaigns />
+                  </ProtectedRoute>
+                } />
+                <Route path="/campaigns/:campaignId" element={
+                  <ProtectedRoute>
+                    <ScreeningCampaigns />
+                  </ProtectedRoute>
+                } />
+                <Route path="/passages" element={
+                  <ProtectedRoute>
+                    <PassageLibrary />
+                  </ProtectedRoute>
+                } />
+                <Route path="/replay/:diagnosticResultId" element={
+                  <ProtectedRoute>
+                    <SessionReplay />
+                  </ProtectedRoute>
+                } />
                 <Route path="/dataset-upload" element={
                   <AdminRoute>
                     <DatasetUpload />
@@ -58,7 +58,7 @@ export function BrowserCompatibilityAlert({ feature }: BrowserCompatibilityAlert
         return {
           title: 'Speech Recognition Not Supported',
           description: 'Firefox does not support the Web Speech API. For the best experience with voice assessment, please use Chrome or Edge.',
-          suggestion: 'The voice analysis feature will be limited. You can still complete the assessment, but voice metrics won\'t be recorded.'
+          suggestion: 'Live voice feedback is unavailable. Your reading is still recorded, and voice metrics are computed from the audio after the assessment is saved.'
         };
       }
       if (browserInfo.isSafari && browserInfo.isMobile) {
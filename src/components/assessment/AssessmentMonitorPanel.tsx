@@ -0,0 +1,61 @@
+/**
+ * Assessment Monitor Panel
+ * Feeds the live gaze stream into a movement classifier for the clinician's
+ * LiveAssessmentMonitor; notes are stored with the session recording
+ */
+
+import { useEffect, useState } from 'react';
+import { LiveAssessmentMonitor } from '@/components/dashboard/LiveAssessmentMonitor';
+import { useREMoDNaVClassifier, type REMoDNaVMetrics } from '@/hooks/useREMoDNaVClassifier';
+import type { RawGazeSample, SessionAnnotationType } from '@/lib/analytics';
+
+const METRICS_REFRESH_MS = 1000;
+
+interface AssessmentMonitorPanelProps {
+  studentName: string;
+  studentGrade?: string;
+  assessmentStep: string;
+  startedAt: number | null;
+  subscribe: (listener: (sample: RawGazeSample) => void) => () => void;
+  onAddNote: (content: string, type: SessionAnnotationType) => void;
+}
+
+export function AssessmentMonitorPanel({
+  studentName,
+  studentGrade,
+  assessmentStep,
+  startedAt,
+  subscribe,
+  onAddNote,
+}: AssessmentMonitorPanelProps) {
+  const { processSample, getMetrics, currentMovement } = useREMoDNaVClassifier();
+  const [metrics, setMetrics] = useState<REMoDNaVMetrics | null>(null);
+  const [elapsedTime, setElapsedTime] = useState(0);
+
+  useEffect(() => {
+    return subscribe(sample => {
+      if (sample.gazeValid) processSample(sample.x, sample.y, sample.timestamp);
+    });
+  }, [subscribe, processSample]);
+
+  // Metrics are recomputed on a timer rather than per sample
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setMetrics(getMetrics());
+      if (startedAt) setElapsedTime(Date.now() - startedAt);
+    }, METRICS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [getMetrics, startedAt]);
+
+  return (
+    <LiveAssessmentMonitor
+      studentName={studentName}
+      studentGrade={studentGrade}
+      assessmentStep={assessmentStep}
+      elapsedTime={elapsedTime}
+      remoDNavMetrics={metrics}
+      currentMovement={currentMovement}
+      onAddNote={onAddNote}
+    />
+  );
+}
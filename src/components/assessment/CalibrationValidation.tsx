@@ -0,0 +1,267 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Crosshair, CheckCircle2, AlertTriangle, XCircle, RotateCcw } from 'lucide-react';
+import {
+  validateCalibration,
+  type CalibrationValidationConfig,
+  type CalibrationValidationResult,
+  type RawGazeSample,
+  type ValidationTargetRecording,
+} from '@/lib/analytics';
+import type { GazePoint } from '@/types/diagnostic';
+
+interface CalibrationValidationProps {
+  // Raw gaze samples from the active tracker; returns an unsubscribe
+  subscribe: (listener: (sample: RawGazeSample) => void) => () => void;
+  // Start the tracker; resolves false when no tracker could be started
+  onStart: () => Promise<boolean>;
+  onComplete: (result: CalibrationValidationResult | null) => void;
+  onRecalibrate: () => void;
+  config?: Partial<CalibrationValidationConfig>;
+  // Failed validation can only be recalibrated, not continued
+  blockOnFail?: boolean;
+}
+
+// Fresh targets, away from the calibration grid (percent of viewport)
+const VALIDATION_POSITIONS = [
+  { x: 30, y: 30 },
+  { x: 70, y: 30 },
+  { x: 50, y: 50 },
+  { x: 30, y: 70 },
+  { x: 70, y: 70 },
+];
+
+const TARGET_MS = 1500;
+
+type Phase = 'starting' | 'measuring' | 'result' | 'unavailable';
+
+const VERDICT_STYLE = {
+  pass: { icon: CheckCircle2, className: 'text-success', title: 'Calibration looks good' },
+  warn: { icon: AlertTriangle, className: 'text-warning', title: 'Calibration is usable but imprecise' },
+  fail: { icon: XCircle, className: 'text-destructive', title: 'Calibration is not accurate enough' },
+} as const;
+
+const formatDegrees = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}°`);
+
+export function CalibrationValidation({
+  subscribe,
+  onStart,
+  onComplete,
+  onRecalibrate,
+  config,
+  blockOnFail = true,
+}: CalibrationValidationProps) {
+  const [phase, setPhase] = useState<Phase>('starting');
+  const [currentTarget, setCurrentTarget] = useState(0);
+  const [result, setResult] = useState<CalibrationValidationResult | null>(null);
+  const recordingsRef = useRef<ValidationTargetRecording[]>([]);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const onStartRef = useRef(onStart);
+  onStartRef.current = onStart;
+
+  // Start the tracker once, then step through the targets
+  useEffect(() => {
+    let cancelled = false;
+    onStartRef.current().then(started => {
+      if (cancelled) return;
+      setPhase(started ? 'measuring' : 'unavailable');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (phase !== 'measuring') return;
+
+    const position = VALIDATION_POSITIONS[currentTarget];
+    const samples: GazePoint[] = [];
+    const recording: ValidationTargetRecording = {
+      x: (position.x / 100) * window.innerWidth,
+      y: (position.y / 100) * window.innerHeight,
+      // Set from the first sample, so provider clocks don't have to match Date.now()
+      shownAt: Number.NaN,
+      samples,
+    };
+
+    const unsubscribe = subscribe(sample => {
+      if (Number.isNaN(recording.shownAt)) recording.shownAt = sample.timestamp;
+      if (sample.gazeValid === false) return;
+      samples.push({ x: sample.x, y: sample.y, timestamp: sample.timestamp });
+    });
+
+    const timer = setTimeout(() => {
+      unsubscribe();
+      if (Number.isNaN(recording.shownAt)) recording.shownAt = 0;
+      recordingsRef.current[currentTarget] = recording;
+
+      if (currentTarget + 1 < VALIDATION_POSITIONS.length) {
+        setCurrentTarget(currentTarget + 1);
+      } else {
+        setResult(validateCalibration(recordingsRef.current, configRef.current));
+        setPhase('result');
+      }
+    }, TARGET_MS);
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [phase, currentTarget, subscribe]);
+
+  const progress = (currentTarget / VALIDATION_POSITIONS.length) * 100;
+  const target = VALIDATION_POSITIONS[currentTarget];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-gradient-hero flex flex-col"
+    >
+      {/* Header */}
+      <div className="absolute top-4 left-4 right-4 flex items-center justify-between z-10">
+        <div className="flex items-center gap-3">
+          <Crosshair className="w-6 h-6 text-primary" />
+          <h2 className="text-xl font-bold">Checking Calibration</h2>
+        </div>
+        {phase === 'measuring' && (
+          <div className="flex items-center gap-4">
+            <div className="w-48">
+              <Progress value={progress} />
+            </div>
+            <span className="text-sm text-muted-foreground">
+              {currentTarget + 1}/{VALIDATION_POSITIONS.length}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {phase === 'starting' && (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-muted-foreground">Starting the eye tracker…</p>
+        </div>
+      )}
+
+      {phase === 'unavailable' && (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center max-w-md p-8 space-y-4">
+            <p className="text-muted-foreground">
+              The eye tracker could not be started, so calibration could not be checked.
+            </p>
+            <div className="flex gap-2 justify-center">
+              <Button variant="outline" onClick={onRecalibrate}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Recalibrate
+              </Button>
+              <Button onClick={() => onComplete(null)}>Continue without checking</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Target: a dot to fixate, with a shrinking ring to draw the eyes in */}
+      {phase === 'measuring' && (
+        <div className="flex-1 relative">
+          <p className="absolute bottom-8 left-0 right-0 text-center text-muted-foreground">
+            Look at the centre of each dot until it moves
+          </p>
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={currentTarget}
+              initial={{ scale: 0, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0, opacity: 0 }}
+              className="absolute -translate-x-1/2 -translate-y-1/2"
+              style={{ left: `${target.x}%`, top: `${target.y}%` }}
+            >
+              <motion.div
+                className="w-10 h-10 rounded-full border-2 border-primary flex items-center justify-center"
+                animate={{ scale: [1.6, 0.8] }}
+                transition={{ duration: TARGET_MS / 1000, ease: 'easeOut' }}
+              >
+                <div className="w-2 h-2 rounded-full bg-primary" />
+              </motion.div>
+            </motion.div>
+          </AnimatePresence>
+        </div>
+      )}
+
+      {phase === 'result' && result && (
+        <div className="flex-1 flex items-center justify-center p-4">
+          <div className="bg-card rounded-xl border shadow-lg max-w-lg w-full p-6 space-y-4">
+            {(() => {
+              const style = VERDICT_STYLE[result.verdict];
+              const Icon = style.icon;
+              return (
+                <div className="flex items-center gap-3">
+                  <Icon className={`w-8 h-8 ${style.className}`} />
+                  <div>
+                    <h3 className="text-lg font-bold">{style.title}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Accuracy {formatDegrees(result.accuracy)} · Precision {formatDegrees(result.precision)} RMS
+                    </p>
+                  </div>
+                </div>
+              );
+            })()}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-medium py-1">Target</th>
+                  <th className="font-medium py-1">Samples</th>
+                  <th className="font-medium py-1">Accuracy</th>
+                  <th className="font-medium py-1">Precision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.points.map((point, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="py-1">{index + 1}</td>
+                    <td className="py-1">{point.sampleCount}</td>
+                    <td className="py-1">{point.valid ? formatDegrees(point.accuracy) : 'Not tracked'}</td>
+                    <td className="py-1">{point.valid ? formatDegrees(point.precision) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {result.reasons.length > 0 && (
+              <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                {result.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            )}
+
+            {result.verdict === 'fail' && !blockOnFail && (
+              <p className="text-sm text-warning">
+                If you continue, this session will be marked as screening only and not scored as a clinical result.
+              </p>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              {result.verdict !== 'pass' && (
+                <Button variant={result.verdict === 'fail' ? 'default' : 'outline'} onClick={onRecalibrate}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Recalibrate
+                </Button>
+              )}
+              {result.verdict === 'pass' && (
+                <Button onClick={() => onComplete(result)}>Continue</Button>
+              )}
+              {result.verdict === 'warn' && (
+                <Button onClick={() => onComplete(result)}>Continue anyway</Button>
+              )}
+              {result.verdict === 'fail' && !blockOnFail && (
+                <Button variant="outline" onClick={() => onComplete(result)}>Continue as screening</Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
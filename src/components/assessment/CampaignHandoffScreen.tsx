@@ -0,0 +1,101 @@
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import type { CampaignEntry, CampaignSummary } from '@/lib/screeningCampaigns';
+import { ArrowRight, CheckCircle, LayoutGrid, RotateCcw, UserX, Users } from 'lucide-react';
+
+interface CampaignHandoffScreenProps {
+  campaignName: string;
+  summary: CampaignSummary;
+  // Null once every student in the queue has been seen
+  nextEntry: CampaignEntry | null;
+  boardPath: string;
+  isUpdating?: boolean;
+  onStart: (entry: CampaignEntry) => void;
+  onMarkAbsent: (entry: CampaignEntry) => void;
+}
+
+/**
+ * Kiosk screen shown between students while a class is screened on one device.
+ * It names the next reader only, so results from the previous student are never
+ * on screen when the device changes hands.
+ */
+export function CampaignHandoffScreen({
+  campaignName,
+  summary,
+  nextEntry,
+  boardPath,
+  isUpdating = false,
+  onStart,
+  onMarkAbsent,
+}: CampaignHandoffScreenProps) {
+  const seen = summary.completed + summary.absent;
+
+  return (
+    <motion.div
+      key="campaign-handoff"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-xl mx-auto text-center"
+    >
+      <p className="text-sm text-muted-foreground mb-2 flex items-center justify-center gap-2">
+        <Users className="w-4 h-4" />
+        {campaignName}
+      </p>
+      <Progress value={summary.total > 0 ? (seen / summary.total) * 100 : 0} className="mb-2" />
+      <p className="text-sm text-muted-foreground mb-8">
+        {seen} of {summary.total} students done
+        {summary.retest > 0 && ` · ${summary.retest} waiting for a retest`}
+      </p>
+
+      {nextEntry ? (
+        <Card>
+          <CardContent className="p-8 space-y-6">
+            <div>
+              <p className="text-muted-foreground mb-2">Please pass the device to</p>
+              <h1 className="text-4xl font-bold">{nextEntry.student.name}</h1>
+              <div className="flex justify-center gap-2 mt-3">
+                <Badge variant="outline">{nextEntry.student.grade}</Badge>
+                {nextEntry.status === 'retest' && (
+                  <Badge variant="secondary" className="gap-1">
+                    <RotateCcw className="w-3 h-3" />
+                    Retest
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <Button variant="hero" size="xl" onClick={() => onStart(nextEntry)} disabled={isUpdating}>
+              I'm ready
+              <ArrowRight className="w-5 h-5" />
+            </Button>
+            <div>
+              <Button variant="ghost" size="sm" onClick={() => onMarkAbsent(nextEntry)} disabled={isUpdating}>
+                <UserX className="w-4 h-4" />
+                Not here today
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-8 space-y-4">
+            <CheckCircle className="w-12 h-12 text-success mx-auto" />
+            <h1 className="text-2xl font-bold">Everyone has been screened</h1>
+            <p className="text-muted-foreground">Hand the device back to the teacher to review the class.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Button variant="outline" className="mt-6" asChild>
+        <Link to={boardPath}>
+          <LayoutGrid className="w-4 h-4" />
+          Progress board
+        </Link>
+      </Button>
+    </motion.div>
+  );
+}
@@ -44,6 +44,8 @@ export function EyeTrackingDebugOverlay({
         return 'bg-warning';
       case 'none':
         return 'bg-destructive';
+      default:
+        return 'bg-primary';
     }
   };
 
@@ -111,7 +113,8 @@ export function EyeTrackingDebugOverlay({
                 </span>
                 <span className={`font-medium capitalize ${
                   debugInfo.backend === 'mediapipe' ? 'text-success' :
-                  debugInfo.backend === 'webgazer' ? 'text-warning' : 'text-destructive'
+                  debugInfo.backend === 'webgazer' ? 'text-warning' :
+                  debugInfo.backend === 'none' ? 'text-destructive' : 'text-primary'
                 }`}>
                   {debugInfo.backend}
                 </span>
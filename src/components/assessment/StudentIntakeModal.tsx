@@ -5,13 +5,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { User, GraduationCap, Calendar, ArrowRight, X, Languages } from 'lucide-react';
-import { availableLanguages } from '@/data/regionalPassages';
+import { User, GraduationCap, Calendar, ArrowRight, X, Languages, BookOpen } from 'lucide-react';
+import { LANGUAGES, getAssessmentLanguage, isAssessmentReady } from '@/data/languages';
+import { getPassageChoices, type AuthoredPassage } from '@/lib/passageLibrary';
 
 interface StudentIntakeModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: StudentIntakeData) => void;
+  // Approved library passages the clinician may pick instead of the built-in one
+  library?: AuthoredPassage[];
 }
 
 export interface StudentIntakeData {
@@ -19,8 +22,12 @@ export interface StudentIntakeData {
   age: number;
   grade: string;
   language?: string;
+  // Library passage version picked for the session; unset reads the built-in passage
+  passageVersionId?: string;
 }
 
+const BUILT_IN_PASSAGE = 'built-in';
+
 const GRADES = [
   { value: 'K', label: 'Kindergarten' },
   { value: '1st', label: '1st Grade' },
@@ -32,11 +39,12 @@ const GRADES = [
 
 const AGES = [5, 6, 7, 8, 9, 10, 11];
 
-export function StudentIntakeModal({ isOpen, onClose, onSubmit }: StudentIntakeModalProps) {
+export function StudentIntakeModal({ isOpen, onClose, onSubmit, library = [] }: StudentIntakeModalProps) {
   const [name, setName] = useState('');
   const [age, setAge] = useState<number | undefined>();
   const [grade, setGrade] = useState<string | undefined>();
   const [language, setLanguage] = useState<string>('en');
+  const [passageChoice, setPassageChoice] = useState<string>(BUILT_IN_PASSAGE);
   const [errors, setErrors] = useState<{ name?: string; age?: string; grade?: string }>({});
 
   const validate = () => {
@@ -60,11 +68,15 @@ export function StudentIntakeModal({ isOpen, onClose, onSubmit }: StudentIntakeM
     return Object.keys(newErrors).length === 0;
   };
 
+  // Only passages in the language and grade band the student will actually read
+  const passageChoices = grade ? getPassageChoices(library, getAssessmentLanguage(language), grade) : [];
+  const passageVersionId = passageChoices.find(p => p.versionId === passageChoice)?.versionId;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (validate() && age && grade) {
-      onSubmit({ name: name.trim(), age, grade, language });
+      onSubmit({ name: name.trim(), age, grade, language, passageVersionId });
     }
   };
 
@@ -73,6 +85,7 @@ export function StudentIntakeModal({ isOpen, onClose, onSubmit }: StudentIntakeM
     setAge(undefined);
     setGrade(undefined);
     setLanguage('en');
+    setPassageChoice(BUILT_IN_PASSAGE);
     setErrors({});
     onClose();
   };
@@ -191,9 +204,10 @@ export function StudentIntakeModal({ isOpen, onClose, onSubmit }: StudentIntakeM
                         <SelectValue placeholder="Select language" />
                       </SelectTrigger>
                       <SelectContent>
-                        {availableLanguages.map(lang => (
-                          <SelectItem key={lang.code} value={lang.code}>
+                        {LANGUAGES.map(lang => (
+                          <SelectItem key={lang.code} value={lang.code} disabled={!isAssessmentReady(lang.code)}>
                             {lang.nativeName} ({lang.name})
+                            {!isAssessmentReady(lang.code) && ' · not assessment-ready yet'}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -202,6 +216,32 @@ export function StudentIntakeModal({ isOpen, onClose, onSubmit }: StudentIntakeM
                       Reading passages will be in the selected language
                     </p>
                   </div>
+
+                  {/* Passage Select */}
+                  {passageChoices.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="student-passage" className="flex items-center gap-2">
+                        <BookOpen className="w-4 h-4" />
+                        Reading Passage
+                      </Label>
+                      <Select value={passageVersionId ?? BUILT_IN_PASSAGE} onValueChange={setPassageChoice}>
+                        <SelectTrigger id="student-passage">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BUILT_IN_PASSAGE}>Standard passage</SelectItem>
+                          {passageChoices.map(p => (
+                            <SelectItem key={p.versionId} value={p.versionId}>
+                              {p.title} · library
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Use the same passage as the student's earlier assessments to keep scores comparable
+                      </p>
+                    </div>
+                  )}
                   
                   <div className="pt-4">
                     <Button type="submit" variant="hero" className="w-full">
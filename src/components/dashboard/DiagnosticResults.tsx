@@ -17,8 +17,10 @@ import {
   Radar
 } from 'recharts';
 import type { DiagnosticResult } from '@/types/diagnostic';
+import { isClinicalGrade } from '@/lib/analytics';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { MiscueReport } from './MiscueReport';
 import { AlertTriangle, CheckCircle, Info } from 'lucide-react';
 
 interface DiagnosticResultsProps {
@@ -55,8 +57,40 @@ export function DiagnosticResults({ result }: DiagnosticResultsProps) {
     { range: '600ms+', count: Math.floor(result.eyeTracking.prolongedFixations * 0.2) },
   ];
 
+  const validation = result.calibrationValidation;
+  const formatDegrees = (value: number | null) => (value === null ? 'n/a' : `${value.toFixed(2)}°`);
+
   return (
     <div className="space-y-6">
+      {/* Calibration quality: failed or unchecked sessions are not clinical results */}
+      {(validation?.verdict !== 'pass' || !isClinicalGrade(validation)) && (
+        <div
+          className={`flex items-start gap-3 p-4 rounded-xl border ${
+            isClinicalGrade(validation)
+              ? 'border-warning/40 bg-warning/10'
+              : 'border-destructive/40 bg-destructive/10'
+          }`}
+        >
+          <AlertTriangle
+            className={`w-5 h-5 mt-0.5 ${isClinicalGrade(validation) ? 'text-warning' : 'text-destructive'}`}
+          />
+          <div className="text-sm">
+            <p className="font-medium">
+              {isClinicalGrade(validation)
+                ? 'Eye tracking calibration was imprecise'
+                : 'Screening only - not a clinical result'}
+            </p>
+            <p className="text-muted-foreground">
+              {validation
+                ? `Calibration accuracy ${formatDegrees(validation.accuracy)}${
+                    validation.precision === null ? '' : `, precision ${formatDegrees(validation.precision)} RMS`
+                  }. ${validation.reasons.join('. ')}`
+                : 'Eye tracking calibration was not checked for this session.'}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Overall Risk Assessment */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -160,6 +194,9 @@ export function DiagnosticResults({ result }: DiagnosticResultsProps) {
         </Card>
       </div>
 
+      {/* Oral reading aligned to the passage */}
+      {result.miscueAnalysis && <MiscueReport analysis={result.miscueAnalysis} />}
+
       {/* Detailed Metrics */}
       <div className="grid md:grid-cols-3 gap-6">
         {/* Eye Tracking Metrics */}
@@ -195,6 +232,18 @@ export function DiagnosticResults({ result }: DiagnosticResultsProps) {
             <MetricRow label="Phonemic Errors" value={result.voice.phonemicErrors} />
             <MetricRow label="Fluency Score" value={`${result.voice.fluencyScore}%`} />
             <MetricRow label="Prosody Score" value={`${result.voice.prosodyScore}%`} />
+            {/* Prosody sub-scores measured from the audio */}
+            {result.acousticProsody && (
+              <div className="pl-3 border-l-2 border-secondary/40 space-y-2">
+                <MetricRow label="Phrasing" value={`${result.acousticProsody.scores.phrasing}%`} />
+                <MetricRow label="Expression" value={`${result.acousticProsody.scores.expression}%`} />
+                <MetricRow label="Smoothness" value={`${result.acousticProsody.scores.smoothness}%`} />
+                <MetricRow
+                  label="Syllables/Second"
+                  value={result.acousticProsody.summary.articulationRate}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -1,6 +1,8 @@
 import { useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Eye, AlertTriangle, TrendingDown, ArrowRight } from 'lucide-react';
+import { WordReadingTable } from './WordReadingTable';
+import type { WordReadingAnalysis } from '@/lib/analytics';
 
 interface FixationPoint {
   x: number;
@@ -13,6 +15,7 @@ interface GazeHeatmapReportProps {
   fixations: FixationPoint[];
   saccades?: Array<{ startX: number; startY: number; endX: number; endY: number }>;
   textBounds?: { left: number; top: number; width: number; height: number };
+  wordReading?: WordReadingAnalysis | null;
   className?: string;
 }
 
@@ -20,6 +23,7 @@ export function GazeHeatmapReport({
   fixations, 
   saccades = [], 
   textBounds,
+  wordReading,
   className = '' 
 }: GazeHeatmapReportProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -269,6 +273,14 @@ export function GazeHeatmapReport({
             </div>
           </div>
         </div>
+
+        {/* Word-level areas of interest */}
+        {wordReading && (
+          <div className="mt-6 pt-6 border-t">
+            <p className="text-sm font-medium mb-3">Words That Held the Eyes Longest</p>
+            <WordReadingTable analysis={wordReading} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
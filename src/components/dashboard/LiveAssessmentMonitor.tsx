@@ -38,7 +38,7 @@ interface LiveAssessmentMonitorProps {
   onPause?: () => void;
   onResume?: () => void;
   isPaused?: boolean;
-  onAddNote?: (note: string) => void;
+  onAddNote?: (note: string, type: ClinicalNote['type']) => void;
   onFlagMoment?: (timestamp: number, reason: string) => void;
 }
 
@@ -85,7 +85,7 @@ export function LiveAssessmentMonitor({
     };
     
     setNotes(prev => [...prev, note]);
-    onAddNote?.(currentNote);
+    onAddNote?.(currentNote, type);
     
     if (type === 'flag') {
       onFlagMoment?.(elapsedTime, currentNote);
@@ -0,0 +1,99 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Mic } from 'lucide-react';
+import { MISCUE_TYPE_LABELS, type AlignedWord, type MiscueAnalysis, type MiscueType } from '@/lib/analytics';
+
+interface MiscueReportProps {
+  analysis: MiscueAnalysis;
+  className?: string;
+}
+
+const MISCUE_STYLES: Record<MiscueType, string> = {
+  correct: '',
+  substitution: 'bg-destructive/15 text-destructive',
+  omission: 'line-through decoration-destructive text-muted-foreground',
+  insertion: 'bg-warning/15 text-warning italic',
+  repetition: 'bg-primary/10 text-primary italic',
+  self_correction: 'bg-success/15 text-success',
+};
+
+// What the reader said, shown next to the passage word when it differs
+function describeWord(word: AlignedWord): string {
+  switch (word.type) {
+    case 'substitution':
+      return `Read "${word.spoken}" for "${word.expected}"`;
+    case 'omission':
+      return `Skipped "${word.expected}"`;
+    case 'self_correction':
+      return `Tried ${word.attempts?.map(a => `"${a}"`).join(', ')} before "${word.expected}"`;
+    case 'insertion':
+    case 'repetition':
+      return `${MISCUE_TYPE_LABELS[word.type]}: "${word.spoken}"`;
+    default:
+      return word.expected ?? '';
+  }
+}
+
+export function MiscueReport({ analysis, className = '' }: MiscueReportProps) {
+  const notReached = analysis.passageWordCount - analysis.wordsAttempted;
+  const miscueTypes = (Object.keys(MISCUE_TYPE_LABELS) as MiscueType[]).filter(type => type !== 'correct');
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mic className="w-5 h-5 text-primary" />
+          Oral Reading Miscues
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          {[
+            { label: 'Words correct / min', value: analysis.wordsCorrectPerMinute },
+            { label: 'Accuracy', value: `${analysis.accuracy}%` },
+            { label: 'Words attempted', value: `${analysis.wordsAttempted} / ${analysis.passageWordCount}` },
+          ].map(stat => (
+            <div key={stat.label} className="p-3 rounded-lg bg-muted/50">
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+              <div className="text-xl font-semibold">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Passage in reading order with miscues highlighted */}
+        <p className="leading-8 text-sm">
+          {analysis.words.map((word, i) => (
+            <span key={i}>
+              <span
+                className={`rounded px-0.5 ${MISCUE_STYLES[word.type]}`}
+                title={word.type === 'correct' ? undefined : describeWord(word)}
+              >
+                {word.type === 'insertion' || word.type === 'repetition' ? `[${word.spoken}]` : word.expected}
+              </span>
+              {word.type === 'substitution' && (
+                <sup className="ml-0.5 text-xs text-destructive">{word.spoken}</sup>
+              )}
+              {word.type === 'self_correction' && (
+                <sup className="ml-0.5 text-xs text-success">SC</sup>
+              )}{' '}
+            </span>
+          ))}
+          {notReached > 0 && (
+            <span className="text-muted-foreground">… {notReached} words not reached</span>
+          )}
+        </p>
+
+        <div className="flex flex-wrap gap-3 text-xs">
+          {miscueTypes.map(type => (
+            <span key={type} className="flex items-center gap-1.5">
+              <span className={`rounded px-1 ${MISCUE_STYLES[type]}`}>{MISCUE_TYPE_LABELS[type]}</span>
+              <span className="text-muted-foreground">{analysis.counts[type]}</span>
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Self-corrections and repetitions count as correct; insertions are shown but not scored.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useProgressAnnotations } from '@/hooks/useProgressAnnotations';
+import { downloadProgressReport } from '@/components/reports/progressReportPdf';
+import {
+  analyzeProgress,
+  formatMetricValue,
+  PROGRESS_METRICS,
+  PROGRESS_VERDICT_LABELS,
+  type ProgressMetricKey,
+  type ProgressResultRow,
+  type ProgressVerdict,
+} from '@/lib/progressAnalytics';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Download, Flag, Minus, Plus, TrendingDown, TrendingUp, X } from 'lucide-react';
+
+interface ProgressAnalysisPanelProps {
+  student: { id: string; name: string; grade: string; age: number };
+  results: ProgressResultRow[];
+}
+
+const FIRST_ASSESSMENT = 'first';
+
+function getVerdictBadge(verdict: ProgressVerdict) {
+  if (verdict === 'improved') {
+    return <Badge className="gap-1 bg-success/10 text-success hover:bg-success/10"><TrendingUp className="w-3 h-3" />{PROGRESS_VERDICT_LABELS[verdict]}</Badge>;
+  }
+  if (verdict === 'worsened') {
+    return <Badge variant="destructive" className="gap-1"><TrendingDown className="w-3 h-3" />{PROGRESS_VERDICT_LABELS[verdict]}</Badge>;
+  }
+  if (verdict === 'unchanged') {
+    return <Badge variant="secondary" className="gap-1"><Minus className="w-3 h-3" />{PROGRESS_VERDICT_LABELS[verdict]}</Badge>;
+  }
+  return <Badge variant="outline">{PROGRESS_VERDICT_LABELS[verdict]}</Badge>;
+}
+
+export function ProgressAnalysisPanel({ student, results }: ProgressAnalysisPanelProps) {
+  const { annotations, addAnnotation, removeAnnotation } = useProgressAnnotations(student.id);
+  const [baselineId, setBaselineId] = useState(FIRST_ASSESSMENT);
+  const [chartMetric, setChartMetric] = useState<ProgressMetricKey>('wordsPerMinute');
+  const [draft, setDraft] = useState({ label: '', startedOn: '', endedOn: '' });
+
+  const baselineAnnotation = annotations.find(a => a.id === baselineId) ?? null;
+  const baselineLabel = baselineAnnotation
+    ? `the last assessment before "${baselineAnnotation.label}" started`
+    : 'the first assessment';
+
+  const progress = useMemo(
+    () => analyzeProgress(results, { grade: student.grade, age: student.age, since: baselineAnnotation?.started_on }),
+    [results, student.grade, student.age, baselineAnnotation]
+  );
+  const selected = progress.find(p => p.metric.key === chartMetric)!;
+
+  const chartData = useMemo(() => {
+    const metric = PROGRESS_METRICS.find(m => m.key === chartMetric)!;
+    return [...results]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .flatMap(row => {
+        const value = metric.read(row);
+        return value === null ? [] : [{ time: Date.parse(row.created_at), value }];
+      });
+  }, [results, chartMetric]);
+
+  const handleAdd = async () => {
+    const added = await addAnnotation
+      .mutateAsync({ label: draft.label, startedOn: draft.startedOn, endedOn: draft.endedOn || null })
+      .then(() => true, () => false);
+    if (added) setDraft({ label: '', startedOn: '', endedOn: '' });
+  };
+
+  if (results.length < 2) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <TrendingUp className="w-12 h-12 mx-auto mb-4 opacity-50" />
+        <p>Need at least 2 assessments to show progress</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <CardTitle>Reliable Change</CardTitle>
+              <CardDescription>
+                Compared with {baselineLabel}. A change counts only when it is larger than the minimal detectable
+                change (MDC) for that measure.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Select value={baselineId} onValueChange={setBaselineId}>
+                <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FIRST_ASSESSMENT}>Since first assessment</SelectItem>
+                  {annotations.map(annotation => (
+                    <SelectItem key={annotation.id} value={annotation.id}>Since {annotation.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Download progress report"
+                onClick={() => downloadProgressReport({ studentName: student.name, progress, annotations, baselineLabel })}
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Measure</TableHead>
+                <TableHead className="text-right">Baseline</TableHead>
+                <TableHead className="text-right">Latest</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">MDC</TableHead>
+                <TableHead className="text-right">Trend / month</TableHead>
+                <TableHead>Verdict</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {progress.map(p => (
+                <TableRow key={p.metric.key}>
+                  <TableCell className="font-medium">{p.metric.label}</TableCell>
+                  <TableCell className="text-right">{p.baseline ? formatMetricValue(p.metric, p.baseline.value) : '—'}</TableCell>
+                  <TableCell className="text-right">{p.latest ? formatMetricValue(p.metric, p.latest.value) : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {p.change !== null ? `${p.change > 0 ? '+' : ''}${p.change.toFixed(p.metric.decimals)}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">±{p.mdc.toFixed(p.metric.decimals)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {p.slopePerMonth !== null
+                      ? `${p.slopePerMonth > 0 ? '+' : ''}${p.slopePerMonth.toFixed(p.metric.decimals + 1)}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell>{getVerdictBadge(p.verdict)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Trend</CardTitle>
+              <CardDescription>The shaded band is the baseline ± MDC; results inside it are within noise.</CardDescription>
+            </div>
+            <Select value={chartMetric} onValueChange={value => setChartMetric(value as ProgressMetricKey)}>
+              <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PROGRESS_METRICS.map(metric => (
+                  <SelectItem key={metric.key} value={metric.key}>{metric.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={time => format(new Date(time), 'MMM d')}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              />
+              <YAxis tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+              <Tooltip
+                labelFormatter={time => format(new Date(time as number), 'PP')}
+                formatter={(value: number) => [formatMetricValue(selected.metric, value), selected.metric.label]}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+              />
+              {selected.baseline && (
+                <ReferenceArea
+                  y1={selected.baseline.value - selected.mdc}
+                  y2={selected.baseline.value + selected.mdc}
+                  fill="hsl(var(--muted-foreground))"
+                  fillOpacity={0.08}
+                />
+              )}
+              {annotations.map(annotation => (
+                <ReferenceArea
+                  key={annotation.id}
+                  x1={parseISO(annotation.started_on).getTime()}
+                  x2={annotation.ended_on ? parseISO(annotation.ended_on).getTime() : chartData[chartData.length - 1]?.time}
+                  fill="hsl(var(--primary))"
+                  fillOpacity={0.08}
+                  label={{ value: annotation.label, position: 'insideTopLeft', fontSize: 11 }}
+                  ifOverflow="extendDomain"
+                />
+              ))}
+              <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5 text-primary" />
+            Interventions
+          </CardTitle>
+          <CardDescription>Mark when support started so change can be measured from that point.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {annotations.length > 0 && (
+            <ul className="divide-y">
+              {annotations.map(annotation => (
+                <li key={annotation.id} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{annotation.label}</span>
+                    <span className="text-muted-foreground">
+                      {' · '}{format(parseISO(annotation.started_on), 'PP')} to{' '}
+                      {annotation.ended_on ? format(parseISO(annotation.ended_on), 'PP') : 'ongoing'}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove intervention"
+                    onClick={() => removeAnnotation.mutate(annotation.id)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="grid gap-3 md:grid-cols-[1fr_160px_160px_auto] items-end">
+            <div className="space-y-1">
+              <Label htmlFor="intervention-label" className="text-xs">Intervention</Label>
+              <Input
+                id="intervention-label"
+                value={draft.label}
+                onChange={e => setDraft({ ...draft, label: e.target.value })}
+                placeholder="e.g. Structured phonics, 3x weekly"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="intervention-start" className="text-xs">Started</Label>
+              <Input
+                id="intervention-start"
+                type="date"
+                value={draft.startedOn}
+                onChange={e => setDraft({ ...draft, startedOn: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="intervention-end" className="text-xs">Ended (optional)</Label>
+              <Input
+                id="intervention-end"
+                type="date"
+                value={draft.endedOn}
+                onChange={e => setDraft({ ...draft, endedOn: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleAdd}
+              disabled={!draft.label.trim() || !draft.startedOn || addAnnotation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
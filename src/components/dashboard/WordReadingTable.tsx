@@ -0,0 +1,60 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { rankDifficultWords, type WordReadingAnalysis } from '@/lib/analytics';
+
+interface WordReadingTableProps {
+  analysis: WordReadingAnalysis;
+  limit?: number;
+}
+
+export function WordReadingTable({ analysis, limit = 5 }: WordReadingTableProps) {
+  const words = rankDifficultWords(analysis, limit);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span>
+          <span className="font-medium">{(analysis.skipRate * 100).toFixed(0)}%</span>{' '}
+          <span className="text-muted-foreground">words skipped</span>
+        </span>
+        <span>
+          <span className="font-medium">{analysis.wordsReached}</span>{' '}
+          <span className="text-muted-foreground">of {analysis.words.length} words reached</span>
+        </span>
+        <span>
+          <span className="font-medium">{(analysis.mappedFixationRate * 100).toFixed(0)}%</span>{' '}
+          <span className="text-muted-foreground">fixations on text</span>
+        </span>
+      </div>
+
+      {words.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No fixations landed on the passage words.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Word</TableHead>
+              <TableHead className="text-right">First fix.</TableHead>
+              <TableHead className="text-right">Gaze</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Regr. in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {words.map(w => (
+              <TableRow key={w.index}>
+                <TableCell className="font-medium">
+                  {w.text}
+                  <span className="ml-2 text-xs text-muted-foreground">line {w.line + 1}</span>
+                </TableCell>
+                <TableCell className="text-right">{Math.round(w.firstFixationDuration)}ms</TableCell>
+                <TableCell className="text-right">{Math.round(w.gazeDuration)}ms</TableCell>
+                <TableCell className="text-right">{Math.round(w.totalReadingTime)}ms</TableCell>
+                <TableCell className="text-right">{w.regressionsIn}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useInterventionPlans } from '@/hooks/useInterventionPlans';
+import { draftPlanFromStrategies, type InterventionStrategy } from '@/lib/interventionPlans';
+import { ClipboardList } from 'lucide-react';
+
+interface InterventionPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  studentName?: string;
+  // Recommendations the plan is built from; empty for a plan written by hand
+  strategies?: InterventionStrategy[];
+}
+
+function initialForm(strategies: InterventionStrategy[]) {
+  const draft = draftPlanFromStrategies(strategies);
+  return {
+    ...draft,
+    goals: '',
+    responsibleStaff: '',
+    sessionsPerWeek: String(draft.sessionsPerWeek),
+    minutesPerSession: String(draft.minutesPerSession),
+  };
+}
+
+export function InterventionPlanDialog({
+  open,
+  onOpenChange,
+  studentId,
+  studentName,
+  strategies = [],
+}: InterventionPlanDialogProps) {
+  const { createPlan } = useInterventionPlans(studentId);
+  const [form, setForm] = useState(() => initialForm(strategies));
+
+  useEffect(() => {
+    if (open) setForm(initialForm(strategies));
+    // Only re-draft when the dialog opens, not while the form is being edited
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await createPlan
+      .mutateAsync({
+        title: form.title,
+        goals: form.goals.split('\n').map(goal => goal.trim()).filter(Boolean),
+        sessionsPerWeek: Number(form.sessionsPerWeek),
+        minutesPerSession: Number(form.minutesPerSession),
+        responsibleStaff: form.responsibleStaff,
+        startedOn: form.startedOn,
+        followUpOn: form.followUpOn,
+        strategies,
+      })
+      .then(() => true, () => false);
+    if (created) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            New Intervention Plan
+          </DialogTitle>
+          <DialogDescription>
+            {studentName ? `For ${studentName}. ` : ''}Outcomes will be compared against the last assessment before the
+            start date.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {strategies.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {strategies.map(strategy => (
+                <Badge key={strategy.title} variant="secondary">{strategy.title}</Badge>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="plan-title">Title</Label>
+            <Input
+              id="plan-title"
+              value={form.title}
+              onChange={e => setForm({ ...form, title: e.target.value })}
+              placeholder="e.g. Structured phonics"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-goals">Goals (one per line)</Label>
+            <Textarea
+              id="plan-goals"
+              value={form.goals}
+              onChange={e => setForm({ ...form, goals: e.target.value })}
+              placeholder={'Read 80 words per minute on a grade-level passage\nFewer than 4 regressions per line'}
+              rows={3}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-frequency">Sessions per week</Label>
+              <Input
+                id="plan-frequency"
+                type="number"
+                min={1}
+                max={14}
+                value={form.sessionsPerWeek}
+                onChange={e => setForm({ ...form, sessionsPerWeek: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-minutes">Minutes per session</Label>
+              <Input
+                id="plan-minutes"
+                type="number"
+                min={5}
+                max={240}
+                value={form.minutesPerSession}
+                onChange={e => setForm({ ...form, minutesPerSession: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-staff">Responsible staff</Label>
+            <Input
+              id="plan-staff"
+              value={form.responsibleStaff}
+              onChange={e => setForm({ ...form, responsibleStaff: e.target.value })}
+              placeholder="e.g. Ms. Rao (reading specialist)"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-start">Starts</Label>
+              <Input
+                id="plan-start"
+                type="date"
+                value={form.startedOn}
+                onChange={e => setForm({ ...form, startedOn: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-follow-up">Follow-up reassessment</Label>
+              <Input
+                id="plan-follow-up"
+                type="date"
+                value={form.followUpOn}
+                onChange={e => setForm({ ...form, followUpOn: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createPlan.isPending}>
+              {createPlan.isPending ? 'Creating...' : 'Create Plan'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
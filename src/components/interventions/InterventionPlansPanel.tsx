@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InterventionPlanDialog } from '@/components/interventions/InterventionPlanDialog';
+import { useInterventionPlans } from '@/hooks/useInterventionPlans';
+import {
+  getFollowUpStatus,
+  getPlanOutcome,
+  INTERVENTION_STATUS_LABELS,
+  summarizeAdherence,
+  type FollowUpState,
+  type InterventionPlan,
+  type InterventionPlanStatus,
+} from '@/lib/interventionPlans';
+import { formatMetricValue, PROGRESS_VERDICT_LABELS, type ProgressResultRow } from '@/lib/progressAnalytics';
+import { CalendarClock, ClipboardList, PlayCircle, Plus, Trash2, X } from 'lucide-react';
+
+interface InterventionPlansPanelProps {
+  student: { id: string; name: string; grade: string; age: number };
+  results: ProgressResultRow[];
+}
+
+const FOLLOW_UP_VARIANTS: Record<FollowUpState, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  scheduled: 'outline',
+  due: 'default',
+  overdue: 'destructive',
+  done: 'secondary',
+};
+
+function describeFollowUp(state: FollowUpState, daysUntil: number): string {
+  if (state === 'done') return 'Follow-up done';
+  if (state === 'overdue') return `Follow-up overdue by ${-daysUntil} days`;
+  if (daysUntil > 0) return `Follow-up in ${daysUntil} days`;
+  return daysUntil === 0 ? 'Follow-up due today' : `Follow-up due (${-daysUntil} days ago)`;
+}
+
+function PlanCard({
+  plan,
+  student,
+  results,
+}: {
+  plan: InterventionPlan;
+  student: InterventionPlansPanelProps['student'];
+  results: ProgressResultRow[];
+}) {
+  const navigate = useNavigate();
+  const { updatePlan, deletePlan, logSession, removeSession } = useInterventionPlans(student.id);
+  const [session, setSession] = useState({
+    heldOn: format(new Date(), 'yyyy-MM-dd'),
+    durationMinutes: String(plan.minutes_per_session),
+    attended: true,
+    notes: '',
+  });
+
+  const adherence = summarizeAdherence(plan, plan.sessions);
+  const followUp = getFollowUpStatus(plan, results.filter(r => r.created_at.slice(0, 10) > plan.started_on));
+  const outcome = getPlanOutcome(plan, results, student)?.filter(p => p.verdict !== 'insufficient') ?? null;
+
+  const handleLog = async () => {
+    const logged = await logSession
+      .mutateAsync({
+        planId: plan.id,
+        heldOn: session.heldOn,
+        durationMinutes: Number(session.durationMinutes),
+        attended: session.attended,
+        deliveredBy: plan.responsible_staff,
+        notes: session.notes,
+      })
+      .then(() => true, () => false);
+    if (logged) setSession({ ...session, notes: '' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{plan.title}</CardTitle>
+            <CardDescription>
+              {plan.sessions_per_week}× {plan.minutes_per_session} min per week with {plan.responsible_staff} · since{' '}
+              {format(parseISO(plan.started_on), 'PP')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Select
+              value={plan.status}
+              onValueChange={value => updatePlan.mutate({ planId: plan.id, status: value as InterventionPlanStatus })}
+            >
+              <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INTERVENTION_STATUS_LABELS) as InterventionPlanStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{INTERVENTION_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Delete plan"
+              onClick={() => {
+                if (confirm(`Delete "${plan.title}" and its session log?`)) deletePlan.mutate(plan.id);
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(plan.goals.length > 0 || plan.strategies.length > 0) && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {plan.goals.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Goals</h4>
+                <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+                  {plan.goals.map(goal => <li key={goal}>{goal}</li>)}
+                </ul>
+              </div>
+            )}
+            {plan.strategies.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Recommended strategies</h4>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {plan.strategies.map(strategy => (
+                    <li key={strategy.title}>
+                      <span className="text-foreground">{strategy.title}</span> · {strategy.frequency}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="p-4 rounded-lg bg-muted/50 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Sessions held</span>
+              <span className="text-muted-foreground">
+                {adherence.held} of {adherence.expected} planned · {adherence.minutes} min
+              </span>
+            </div>
+            <Progress value={(adherence.rate ?? 0) * 100} />
+            {adherence.missed > 0 && (
+              <p className="text-xs text-muted-foreground">{adherence.missed} missed</p>
+            )}
+          </div>
+          <div className="p-4 rounded-lg bg-muted/50 flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              <Badge variant={FOLLOW_UP_VARIANTS[followUp.state]} className="gap-1">
+                <CalendarClock className="w-3 h-3" />
+                {describeFollowUp(followUp.state, followUp.daysUntil)}
+              </Badge>
+              <p className="text-xs text-muted-foreground">
+                Reassessment on {format(parseISO(plan.follow_up_on), 'PP')}
+              </p>
+            </div>
+            {followUp.state !== 'done' && (
+              <Button size="sm" variant="outline" onClick={() => navigate(`/assessment?studentId=${student.id}`)}>
+                <PlayCircle className="w-4 h-4 mr-2" />
+                Reassess
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Outcome against baseline</h4>
+          {outcome === null ? (
+            <p className="text-sm text-muted-foreground">
+              No assessment before the plan started, so there is no baseline to compare against.
+            </p>
+          ) : outcome.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Available after the first assessment since the plan started.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {outcome.map(p => (
+                <li key={p.metric.key} className="flex items-center justify-between py-2">
+                  <span>
+                    {p.metric.label}: {formatMetricValue(p.metric, p.baseline!.value)} →{' '}
+                    {formatMetricValue(p.metric, p.latest!.value)}
+                  </span>
+                  <Badge
+                    variant={p.verdict === 'worsened' ? 'destructive' : p.verdict === 'improved' ? 'default' : 'secondary'}
+                  >
+                    {PROGRESS_VERDICT_LABELS[p.verdict]}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Session log</h4>
+          {plan.status === 'active' && (
+            <div className="grid gap-3 md:grid-cols-[150px_110px_auto_1fr_auto] items-end">
+              <div className="space-y-1">
+                <Label htmlFor={`session-date-${plan.id}`} className="text-xs">Date</Label>
+                <Input
+                  id={`session-date-${plan.id}`}
+                  type="date"
+                  value={session.heldOn}
+                  onChange={e => setSession({ ...session, heldOn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`session-minutes-${plan.id}`} className="text-xs">Minutes</Label>
+                <Input
+                  id={`session-minutes-${plan.id}`}
+                  type="number"
+                  min={0}
+                  value={session.durationMinutes}
+                  disabled={!session.attended}
+                  onChange={e => setSession({ ...session, durationMinutes: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id={`session-attended-${plan.id}`}
+                  checked={session.attended}
+                  onCheckedChange={attended => setSession({ ...session, attended })}
+                />
+                <Label htmlFor={`session-attended-${plan.id}`} className="text-xs">Attended</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`session-notes-${plan.id}`} className="text-xs">Notes</Label>
+                <Input
+                  id={`session-notes-${plan.id}`}
+                  value={session.notes}
+                  onChange={e => setSession({ ...session, notes: e.target.value })}
+                  placeholder="What was covered"
+                />
+              </div>
+              <Button variant="outline" onClick={handleLog} disabled={!session.heldOn || logSession.isPending}>
+                <Plus className="w-4 h-4 mr-2" />
+                Log
+              </Button>
+            </div>
+          )}
+          {plan.sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sessions logged yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {plan.sessions.map(s => (
+                <li key={s.id} className="flex items-center justify-between py-2 gap-4">
+                  <span>
+                    <span className="font-medium">{format(parseISO(s.held_on), 'PP')}</span>
+                    <span className="text-muted-foreground">
+                      {' · '}{s.attended ? `${s.duration_minutes} min` : 'Missed'}
+                      {s.notes ? ` · ${s.notes}` : ''}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove session"
+                    onClick={() => removeSession.mutate(s.id)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function InterventionPlansPanel({ student, results }: InterventionPlansPanelProps) {
+  const { plans, isLoading } = useInterventionPlans(student.id);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Intervention Plans</h3>
+          <p className="text-sm text-muted-foreground">
+            Plans can also be created from AI recommendations in the dashboard reports.
+          </p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Plan
+        </Button>
+      </div>
+
+      {!isLoading && plans.length === 0 && (
+        <div className="text-center py-12 text-muted-foreground">
+          <ClipboardList className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No intervention plans yet</p>
+        </div>
+      )}
+
+      {plans.map(plan => (
+        <PlanCard key={plan.id} plan={plan} student={student} results={results} />
+      ))}
+
+      <InterventionPlanDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        studentId={student.id}
+        studentName={student.name}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizationMembers, useOrganizations } from '@/hooks/useOrganizations';
+import { ORGANIZATION_ROLE_LABELS, type OrganizationRole } from '@/lib/organizations';
+import { Building2, GraduationCap, Plus, School as SchoolIcon, UserPlus, X } from 'lucide-react';
+
+interface OrganizationManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GRADES = ['K-1', '2-3', '4-5', '6-8'];
+
+export function OrganizationManagerDialog({ open, onOpenChange }: OrganizationManagerDialogProps) {
+  const { user } = useAuth();
+  const {
+    organizations,
+    roles,
+    schools,
+    classrooms,
+    classroomTeachers,
+    createOrganization,
+    createSchool,
+    createClassroom,
+    addMember,
+    removeMember,
+    setClassroomTeacher,
+  } = useOrganizations();
+
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [newSchoolName, setNewSchoolName] = useState('');
+  const [newClassroom, setNewClassroom] = useState<Record<string, { name: string; grade: string }>>({});
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<OrganizationRole>('teacher');
+  const { members } = useOrganizationMembers(organizationId);
+
+  useEffect(() => {
+    if (!organizationId || !organizations.some(o => o.id === organizationId)) {
+      setOrganizationId(organizations[0]?.id ?? null);
+    }
+  }, [organizations, organizationId]);
+
+  const isAdmin = organizationId !== null && roles[organizationId] === 'admin';
+  const orgSchools = schools.filter(s => s.organization_id === organizationId);
+  const teachers = members.filter(m => m.role === 'teacher');
+  const memberLabel = (userId: string) => {
+    const member = members.find(m => m.user_id === userId);
+    return member?.display_name || member?.email || 'Unknown member';
+  };
+
+  const handleCreateOrganization = async () => {
+    const id = await createOrganization.mutateAsync(newOrganizationName).catch(() => null);
+    if (id) {
+      setNewOrganizationName('');
+      setOrganizationId(id);
+    }
+  };
+
+  const handleAddSchool = async () => {
+    if (!organizationId) return;
+    await createSchool.mutateAsync({ organizationId, name: newSchoolName }).catch(() => null);
+    setNewSchoolName('');
+  };
+
+  const handleAddClassroom = async (schoolId: string) => {
+    const draft = newClassroom[schoolId];
+    if (!draft?.name) return;
+    await createClassroom.mutateAsync({ schoolId, name: draft.name, grade: draft.grade }).catch(() => null);
+    setNewClassroom(prev => ({ ...prev, [schoolId]: { name: '', grade: '' } }));
+  };
+
+  const handleAddMember = async () => {
+    if (!organizationId) return;
+    const added = await addMember.mutateAsync({ organizationId, email: memberEmail, role: memberRole }).catch(() => null);
+    if (added) setMemberEmail('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-primary" />
+            Organizations
+          </DialogTitle>
+          <DialogDescription>
+            Share caseloads with your school team. Admins and specialists see every student placed in the
+            organization's classrooms; teachers see the classrooms they are assigned to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-end gap-2">
+            {organizations.length > 0 && (
+              <div className="space-y-2 flex-1 min-w-[200px]">
+                <Label>Organization</Label>
+                <Select value={organizationId ?? undefined} onValueChange={setOrganizationId}>
+                  <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                  <SelectContent>
+                    {organizations.map(org => (
+                      <SelectItem key={org.id} value={org.id}>
+                        {org.name} ({ORGANIZATION_ROLE_LABELS[roles[org.id]] ?? 'Member'})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2 flex-1 min-w-[200px]">
+              <Label htmlFor="new-organization">New organization</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-organization"
+                  value={newOrganizationName}
+                  onChange={e => setNewOrganizationName(e.target.value)}
+                  placeholder="e.g. Riverside School District"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleCreateOrganization}
+                  disabled={!newOrganizationName.trim() || createOrganization.isPending}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {organizationId && (
+            <>
+              <Separator />
+
+              {/* Schools and classrooms */}
+              <div className="space-y-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <SchoolIcon className="w-4 h-4" />
+                  Schools and classrooms
+                </h3>
+                {orgSchools.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No schools yet.</p>
+                )}
+                {orgSchools.map(school => (
+                  <div key={school.id} className="rounded-lg border p-4 space-y-3">
+                    <p className="font-medium">{school.name}</p>
+                    <ul className="space-y-2">
+                      {classrooms.filter(c => c.school_id === school.id).map(classroom => {
+                        const assigned = classroomTeachers.filter(t => t.classroom_id === classroom.id);
+                        const unassigned = teachers.filter(t => !assigned.some(a => a.user_id === t.user_id));
+                        return (
+                          <li key={classroom.id} className="flex flex-wrap items-center gap-2 text-sm">
+                            <GraduationCap className="w-4 h-4 text-muted-foreground" />
+                            <span>{classroom.name}</span>
+                            {classroom.grade && <Badge variant="outline">{classroom.grade}</Badge>}
+                            {assigned.map(teacher => (
+                              <Badge key={teacher.user_id} variant="secondary" className="gap-1">
+                                {memberLabel(teacher.user_id)}
+                                {isAdmin && (
+                                  <button
+                                    type="button"
+                                    aria-label="Unassign teacher"
+                                    onClick={() => setClassroomTeacher.mutate({ classroomId: classroom.id, userId: teacher.user_id, assigned: false })}
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </button>
+                                )}
+                              </Badge>
+                            ))}
+                            {isAdmin && unassigned.length > 0 && (
+                              <Select
+                                value=""
+                                onValueChange={userId => setClassroomTeacher.mutate({ classroomId: classroom.id, userId, assigned: true })}
+                              >
+                                <SelectTrigger className="h-8 w-[160px]">
+                                  <SelectValue placeholder="Assign teacher" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {unassigned.map(teacher => (
+                                    <SelectItem key={teacher.user_id} value={teacher.user_id}>
+                                      {teacher.display_name || teacher.email}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {isAdmin && (
+                      <div className="flex gap-2">
+                        <Input
+                          className="h-8"
+                          placeholder="Classroom name"
+                          value={newClassroom[school.id]?.name ?? ''}
+                          onChange={e => setNewClassroom(prev => ({
+                            ...prev,
+                            [school.id]: { grade: prev[school.id]?.grade ?? '', name: e.target.value },
+                          }))}
+                        />
+                        <Select
+                          value={newClassroom[school.id]?.grade || undefined}
+                          onValueChange={grade => setNewClassroom(prev => ({
+                            ...prev,
+                            [school.id]: { name: prev[school.id]?.name ?? '', grade },
+                          }))}
+                        >
+                          <SelectTrigger className="h-8 w-[110px]"><SelectValue placeholder="Grade" /></SelectTrigger>
+                          <SelectContent>
+                            {GRADES.map(grade => <SelectItem key={grade} value={grade}>{grade}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleAddClassroom(school.id)}
+                          disabled={!newClassroom[school.id]?.name?.trim() || createClassroom.isPending}
+                        >
+                          Add
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {isAdmin && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="School name"
+                      value={newSchoolName}
+                      onChange={e => setNewSchoolName(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleAddSchool}
+                      disabled={!newSchoolName.trim() || createSchool.isPending}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      School
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              {/* Members */}
+              <div className="space-y-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <UserPlus className="w-4 h-4" />
+                  Members
+                </h3>
+                <ul className="divide-y">
+                  {members.map(member => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                      <span className="truncate">
+                        {member.display_name || member.email}
+                        {member.display_name && member.email && (
+                          <span className="text-muted-foreground"> · {member.email}</span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <Badge variant={member.role === 'admin' ? 'default' : 'secondary'}>
+                          {ORGANIZATION_ROLE_LABELS[member.role]}
+                        </Badge>
+                        {isAdmin && member.user_id !== user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Remove member"
+                            onClick={() => removeMember.mutate({ organizationId, userId: member.user_id })}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {isAdmin && (
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      placeholder="colleague@school.org"
+                      value={memberEmail}
+                      onChange={e => setMemberEmail(e.target.value)}
+                    />
+                    <Select value={memberRole} onValueChange={value => setMemberRole(value as OrganizationRole)}>
+                      <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ORGANIZATION_ROLE_LABELS) as OrganizationRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={handleAddMember}
+                      disabled={!memberEmail.trim() || addMember.isPending}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface AccessCodeFormProps {
+  initialCode?: string;
+  isLoading?: boolean;
+  error?: string | null;
+  onSubmit: (code: string) => void;
+}
+
+// Same alphabet the codes are generated from: no 0/O or 1/I
+const CODE_PATTERN = /^[ABCDEFGHJKLMNPQRSTUVWXYZ23456789]{8}$/;
+
+export function AccessCodeForm({ initialCode = '', isLoading = false, error, onSubmit }: AccessCodeFormProps) {
+  const [code, setCode] = useState(initialCode);
+  const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+  const isValidFormat = CODE_PATTERN.test(normalized);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (isValidFormat) onSubmit(normalized);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="access-code">Access code</Label>
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            id="access-code"
+            value={code}
+            onChange={event => setCode(event.target.value)}
+            placeholder="e.g. ABCD2345"
+            autoComplete="one-time-code"
+            autoCapitalize="characters"
+            maxLength={10}
+            className="pl-9 font-mono tracking-widest uppercase text-lg h-12"
+            disabled={isLoading}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The 8-character code from your child's teacher or clinician
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full h-12" disabled={!isValidFormat || isLoading}>
+        {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        View progress
+      </Button>
+    </form>
+  );
+}
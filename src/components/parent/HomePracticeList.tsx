@@ -0,0 +1,40 @@
+import { BookOpen, Mic, Timer, PenTool, Clock } from 'lucide-react';
+import type { HomePracticeSuggestion, PracticeFocus } from '@/lib/parentPortal';
+
+interface HomePracticeListProps {
+  suggestions: HomePracticeSuggestion[];
+}
+
+const FOCUS_ICON: Record<PracticeFocus, typeof BookOpen> = {
+  reading: BookOpen,
+  fluency: Mic,
+  attention: Timer,
+  writing: PenTool,
+};
+
+export function HomePracticeList({ suggestions }: HomePracticeListProps) {
+  return (
+    <ul className="space-y-3">
+      {suggestions.map(suggestion => {
+        const Icon = FOCUS_ICON[suggestion.focus];
+        return (
+          <li key={suggestion.id} className="flex gap-3 p-3 rounded-xl border bg-muted/30">
+            <div className="w-10 h-10 shrink-0 rounded-full bg-primary/10 flex items-center justify-center">
+              <Icon className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">{suggestion.title}</p>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                  <Clock className="w-3 h-3" />
+                  {suggestion.minutesPerDay} min/day
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-0.5">{suggestion.description}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useParentAccess, type ParentStudentLink } from '@/hooks/useParentAccess';
+import { getParentLinkStatus, type ParentLinkStatus } from '@/lib/parentPortal';
+import { Copy, Link2, Loader2, Plus, UserX } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ParentAccessCardProps {
+  studentId: string;
+  studentName: string;
+}
+
+const STATUS_BADGE: Record<ParentLinkStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  pending: { label: 'Not yet used', variant: 'secondary' },
+  claimed: { label: 'Parent account', variant: 'default' },
+  expired: { label: 'Expired', variant: 'outline' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+};
+
+export function ParentAccessCard({ studentId, studentName }: ParentAccessCardProps) {
+  const { links, isLoading, createLink, fetchLinksForStudent, revokeLink, getShareableUrl } = useParentAccess();
+  const [linkToRevoke, setLinkToRevoke] = useState<ParentStudentLink | null>(null);
+
+  useEffect(() => {
+    fetchLinksForStudent(studentId);
+  }, [studentId, fetchLinksForStudent]);
+
+  const handleCreate = async () => {
+    const link = await createLink({ studentId });
+    if (link) fetchLinksForStudent(studentId);
+  };
+
+  const handleCopy = async (accessCode: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareableUrl(accessCode));
+      toast.success('Parent link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!linkToRevoke) return;
+    await revokeLink(linkToRevoke.id);
+    setLinkToRevoke(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-primary" />
+            Parent Access
+          </CardTitle>
+          <CardDescription>
+            Codes let parents follow {studentName}'s progress. Once claimed into a parent account,
+            access lasts until you revoke it.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={handleCreate} disabled={isLoading}>
+          {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          New code
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No parent access codes yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {links.map(link => {
+              const status = getParentLinkStatus(link);
+              const badge = STATUS_BADGE[status];
+              return (
+                <li key={link.id} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono tracking-widest">{link.access_code}</span>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {format(new Date(link.linked_at), 'PP')}
+                      {status === 'pending' && ` · expires ${format(new Date(link.expires_at), 'PP')}`}
+                      {status === 'claimed' && link.claimed_at && ` · claimed ${format(new Date(link.claimed_at), 'PP')}`}
+                      {status === 'revoked' && link.revoked_at && ` · revoked ${format(new Date(link.revoked_at), 'PP')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {status === 'pending' && (
+                      <Button variant="outline" size="sm" onClick={() => handleCopy(link.access_code)}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy link
+                      </Button>
+                    )}
+                    {(status === 'pending' || status === 'claimed') && (
+                      <Button variant="ghost" size="sm" onClick={() => setLinkToRevoke(link)}>
+                        <UserX className="w-4 h-4 mr-2" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={linkToRevoke !== null} onOpenChange={open => !open && setLinkToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke parent access?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {linkToRevoke?.parent_id
+                ? `The parent will no longer see ${studentName} in their account.`
+                : 'The code will stop working immediately.'}
+              {' '}You can create a new code at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke access</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { TrendingUp, TrendingDown, Minus, Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ProgressTimelineEntry, ProgressTrend } from '@/lib/parentPortal';
+
+interface ProgressTimelineProps {
+  entries: ProgressTimelineEntry[];
+}
+
+const TREND_ICON: Record<ProgressTrend, typeof Flag> = {
+  first: Flag,
+  improving: TrendingUp,
+  steady: Minus,
+  needs_attention: TrendingDown,
+};
+
+const LEVEL_STYLE = {
+  low: { dot: 'bg-success', badge: 'bg-success/15 text-success', label: 'On track' },
+  moderate: { dot: 'bg-warning', badge: 'bg-warning/15 text-warning', label: 'Extra practice' },
+  high: { dot: 'bg-destructive', badge: 'bg-destructive/15 text-destructive', label: 'Extra support' },
+} as const;
+
+export function ProgressTimeline({ entries }: ProgressTimelineProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No reading checks have been completed yet. They will appear here after the first one.
+      </p>
+    );
+  }
+
+  // Most recent first, each entry already compared with the one before it
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {[...entries].reverse().map((entry, index) => {
+        const style = LEVEL_STYLE[entry.riskLevel];
+        const TrendIcon = TREND_ICON[entry.trend];
+        return (
+          <motion.li
+            key={entry.id}
+            initial={{ opacity: 0, x: -10 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="ml-5"
+          >
+            <span className={cn('absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-4 ring-background', style.dot)} />
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <time className="text-sm font-medium">{format(new Date(entry.date), 'PPP')}</time>
+              <Badge variant="outline" className={cn('border-0', style.badge)}>{style.label}</Badge>
+            </div>
+            <p className="font-medium">{entry.headline}</p>
+            <ul className="mt-1 space-y-0.5 text-sm text-muted-foreground">
+              {entry.details.map((detail, i) => (
+                <li key={detail} className="flex items-center gap-1.5">
+                  {i === 0 && <TrendIcon className="w-3.5 h-3.5" />}
+                  {detail}
+                </li>
+              ))}
+            </ul>
+          </motion.li>
+        );
+      })}
+    </ol>
+  );
+}
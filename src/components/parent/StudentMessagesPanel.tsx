@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStudentMessages } from '@/hooks/useStudentMessages';
+import { getReadReceipt, type MessageAttachment } from '@/lib/studentMessages';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, Check, CheckCheck, FileText, Loader2, MessageSquare, Plus, Send, X } from 'lucide-react';
+
+export interface AttachableReport {
+  id: string;
+  created_at: string;
+  overall_risk_level: string | null;
+}
+
+interface StudentMessagesPanelProps {
+  studentId: string;
+  studentName: string;
+  /** Results the sender may attach; omit to hide attaching */
+  reports?: AttachableReport[];
+  onOpenReport?: (diagnosticResultId: string) => void;
+}
+
+function reportLabel(attachment: Pick<MessageAttachment, 'createdAt' | 'riskLevel'>): string {
+  const date = attachment.createdAt ? format(new Date(attachment.createdAt), 'PP') : 'Assessment';
+  return attachment.riskLevel ? `${date} report · ${attachment.riskLevel} risk` : `${date} report`;
+}
+
+export function StudentMessagesPanel({ studentId, studentName, reports, onOpenReport }: StudentMessagesPanelProps) {
+  const { user } = useAuth();
+  const {
+    threads,
+    clinicianId,
+    unreadByThread,
+    activeThreadId,
+    messages,
+    reads,
+    isLoading,
+    isSending,
+    openThread,
+    sendMessage,
+    startThread,
+  } = useStudentMessages(studentId);
+
+  const [isComposingThread, setIsComposingThread] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null;
+  const showThreadList = !activeThread && !isComposingThread;
+
+  const resetComposer = () => {
+    setSubject('');
+    setBody('');
+    setAttachments([]);
+  };
+
+  const handleAttach = (reportId: string) => {
+    const report = reports?.find(r => r.id === reportId);
+    if (!report || attachments.some(a => a.diagnosticResultId === reportId)) return;
+    setAttachments(prev => [...prev, {
+      kind: 'assessment_report',
+      diagnosticResultId: report.id,
+      createdAt: report.created_at,
+      riskLevel: report.overall_risk_level,
+    }]);
+  };
+
+  const handleSend = async () => {
+    if (isComposingThread) {
+      const threadId = await startThread(subject, body, attachments);
+      if (threadId) {
+        setIsComposingThread(false);
+        resetComposer();
+      }
+    } else if (activeThreadId) {
+      const message = await sendMessage(activeThreadId, body, attachments);
+      if (message) resetComposer();
+    }
+  };
+
+  const senderLabel = (senderId: string) => {
+    if (senderId === user?.id) return 'You';
+    return senderId === clinicianId ? 'Teacher / clinician' : 'Parent';
+  };
+
+  const composer = (
+    <div className="space-y-3 border-t pt-4">
+      {isComposingThread && (
+        <Input
+          placeholder="Subject"
+          value={subject}
+          maxLength={200}
+          onChange={e => setSubject(e.target.value)}
+        />
+      )}
+      <Textarea
+        placeholder="Write a message…"
+        value={body}
+        maxLength={5000}
+        rows={3}
+        onChange={e => setBody(e.target.value)}
+      />
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map(attachment => (
+            <Badge key={attachment.diagnosticResultId} variant="secondary" className="gap-1">
+              <FileText className="w-3 h-3" />
+              {reportLabel(attachment)}
+              <button
+                type="button"
+                aria-label="Remove attachment"
+                onClick={() => setAttachments(prev => prev.filter(a => a.diagnosticResultId !== attachment.diagnosticResultId))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        {reports && reports.length > 0 ? (
+          <Select value="" onValueChange={handleAttach}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Attach a report" />
+            </SelectTrigger>
+            <SelectContent>
+              {reports.map(report => (
+                <SelectItem key={report.id} value={report.id}>
+                  {reportLabel({ createdAt: report.created_at, riskLevel: report.overall_risk_level })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : <span />}
+        <Button
+          onClick={handleSend}
+          disabled={isSending || !body.trim() || (isComposingThread && !subject.trim())}
+        >
+          {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-primary" />
+            {activeThread ? activeThread.subject : isComposingThread ? 'New conversation' : 'Messages'}
+          </CardTitle>
+          <CardDescription>
+            {showThreadList
+              ? `Conversations about ${studentName} between home and school or clinic`
+              : `About ${studentName}`}
+          </CardDescription>
+        </div>
+        {showThreadList ? (
+          <Button size="sm" onClick={() => setIsComposingThread(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsComposingThread(false);
+              resetComposer();
+              openThread(null);
+            }}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All conversations
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {showThreadList && (
+          isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No conversations yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {threads.map(thread => (
+                <li key={thread.id}>
+                  <button
+                    type="button"
+                    className="w-full flex items-center justify-between gap-2 py-3 text-left hover:bg-muted/50 rounded-md px-2"
+                    onClick={() => openThread(thread.id)}
+                  >
+                    <span className={cn('truncate', unreadByThread[thread.id] > 0 && 'font-semibold')}>
+                      {thread.subject}
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      {unreadByThread[thread.id] > 0 && <Badge>{unreadByThread[thread.id]} new</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(thread.last_message_at), 'PP')}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        {activeThread && (
+          <ScrollArea className="h-80 pr-3">
+            <div className="space-y-3 pb-2">
+              {messages.map(message => {
+                const isOwn = message.sender_id === user?.id;
+                return (
+                  <div key={message.id} className={cn('flex flex-col', isOwn ? 'items-end' : 'items-start')}>
+                    <div
+                      className={cn(
+                        'max-w-[85%] rounded-2xl px-4 py-2 space-y-2',
+                        isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      )}
+                    >
+                      <p className="whitespace-pre-wrap text-sm">{message.body}</p>
+                      {message.attachments.map(attachment => (
+                        <button
+                          key={attachment.diagnosticResultId}
+                          type="button"
+                          disabled={!onOpenReport}
+                          className="flex items-center gap-1 text-xs underline disabled:no-underline"
+                          onClick={() => onOpenReport?.(attachment.diagnosticResultId)}
+                        >
+                          <FileText className="w-3 h-3" />
+                          {reportLabel(attachment)}
+                        </button>
+                      ))}
+                    </div>
+                    <span className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                      {senderLabel(message.sender_id)} · {format(new Date(message.created_at), 'PP p')}
+                      {isOwn && (getReadReceipt(message, reads) === 'read'
+                        ? <><CheckCheck className="w-3 h-3" /> Read</>
+                        : <><Check className="w-3 h-3" /> Sent</>)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        {!showThreadList && composer}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ interface EmailPreferences {
   weekly_summary: boolean;
   password_change: boolean;
   welcome_email: boolean;
+  message_notifications: boolean;
 }
 
 interface EmailPreferencesCardProps {
@@ -24,6 +25,7 @@ export function EmailPreferencesCard({ userId }: EmailPreferencesCardProps) {
     weekly_summary: true,
     password_change: true,
     welcome_email: true,
+    message_notifications: true,
   });
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -46,6 +48,7 @@ export function EmailPreferencesCard({ userId }: EmailPreferencesCardProps) {
             weekly_summary: prefs.weekly_summary !== false,
             password_change: prefs.password_change !== false,
             welcome_email: prefs.welcome_email !== false,
+            message_notifications: prefs.message_notifications !== false,
           });
         }
       } catch (error) {
@@ -73,6 +76,7 @@ export function EmailPreferencesCard({ userId }: EmailPreferencesCardProps) {
         weekly_summary: preferences.weekly_summary,
         password_change: preferences.password_change,
         welcome_email: preferences.welcome_email,
+        message_notifications: preferences.message_notifications,
       };
       
       const { error } = await supabase
@@ -170,6 +174,20 @@ export function EmailPreferencesCard({ userId }: EmailPreferencesCardProps) {
               onCheckedChange={() => handleToggle('welcome_email')}
             />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="message_notifications">New Messages</Label>
+              <p className="text-sm text-muted-foreground">
+                Get an email when someone replies about a student
+              </p>
+            </div>
+            <Switch
+              id="message_notifications"
+              checked={preferences.message_notifications}
+              onCheckedChange={() => handleToggle('message_notifications')}
+            />
+          </div>
         </div>
 
         <Button onClick={handleSave} disabled={isSaving} className="w-full">
@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Eye, Activity, Camera, Sparkles, Loader2 } from 'lucide-react';
 import { useEyeTrackingSettings, EyeTrackingProvider } from '@/hooks/useEyeTrackingSettings';
+import { eyeTrackerRegistry } from '@/lib/eyeTrackers';
 
 export function EyeTrackingSettingsCard() {
   const { 
@@ -13,9 +14,15 @@ export function EyeTrackingSettingsCard() {
     isLoading, 
     isSaving,
     setPreferredProvider,
-    setCalibrationPoints 
+    setCalibrationPoints,
+    setValidationPolicy
   } = useEyeTrackingSettings();
 
+  const providers = eyeTrackerRegistry.list().filter(p => !p.explicitOnly);
+  const webcamProviders = providers.filter(p => p.kind === 'webcam');
+  const otherProviders = providers.filter(p => p.kind !== 'webcam');
+  const autoOrder = eyeTrackerRegistry.candidates('auto').map(p => p.label).join(' → ');
+
   if (isLoading) {
     return (
       <Card>
@@ -58,7 +65,7 @@ export function EyeTrackingSettingsCard() {
                   <Badge variant="secondary" className="text-xs">Recommended</Badge>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Automatically selects the best available tracker (Tobii → MediaPipe → WebGazer)
+                  Automatically selects the best available tracker ({autoOrder})
                 </p>
               </div>
             </div>
@@ -73,26 +80,31 @@ export function EyeTrackingSettingsCard() {
                   </Label>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Use MediaPipe FaceMesh or WebGazer (no external hardware required)
+                  Use {webcamProviders.map(p => p.label).join(' or ')} (no external hardware required)
                 </p>
               </div>
             </div>
 
-            <div className="flex items-center space-x-3 p-3 rounded-lg border hover:bg-muted/50 transition-colors cursor-pointer">
-              <RadioGroupItem value="tobii" id="tobii" />
-              <div className="flex-1">
-                <div className="flex items-center gap-2">
-                  <Activity className="w-4 h-4 text-muted-foreground" />
-                  <Label htmlFor="tobii" className="font-medium cursor-pointer">
-                    Tobii Pro SDK
-                  </Label>
-                  <Badge variant="outline" className="text-xs">Clinical</Badge>
+            {otherProviders.map(provider => (
+              <div
+                key={provider.id}
+                className="flex items-center space-x-3 p-3 rounded-lg border hover:bg-muted/50 transition-colors cursor-pointer"
+              >
+                <RadioGroupItem value={provider.id} id={provider.id} />
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <Activity className="w-4 h-4 text-muted-foreground" />
+                    <Label htmlFor={provider.id} className="font-medium cursor-pointer">
+                      {provider.label}
+                    </Label>
+                    {provider.kind === 'hardware' && (
+                      <Badge variant="outline" className="text-xs">Clinical</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{provider.description}</p>
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Professional-grade eye tracking with sub-degree precision (requires Tobii hardware)
-                </p>
               </div>
-            </div>
+            ))}
           </RadioGroup>
         </div>
 
@@ -123,6 +135,43 @@ export function EyeTrackingSettingsCard() {
           </p>
         </div>
 
+        {/* Calibration Validation */}
+        <div className="space-y-3 pt-4 border-t">
+          <Label className="text-sm font-medium">Calibration Validation</Label>
+          <p className="text-xs text-muted-foreground">
+            After calibration the reader looks at a few fresh targets to measure gaze accuracy.
+            Sessions worse than the threshold are not reported as clinical results.
+          </p>
+          <div className="flex gap-2">
+            {[2.5, 3.5, 5].map((degrees) => (
+              <Button
+                key={degrees}
+                variant={settings.validation_max_accuracy === degrees ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => setValidationPolicy(degrees, settings.block_failed_validation)}
+                disabled={isSaving}
+              >
+                {degrees}°
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="block-failed-validation" className="text-sm">Block failed sessions</Label>
+              <p className="text-xs text-muted-foreground">
+                When off, failed sessions continue and are marked as screening only
+              </p>
+            </div>
+            <Switch
+              id="block-failed-validation"
+              checked={settings.block_failed_validation}
+              onCheckedChange={(checked) => setValidationPolicy(settings.validation_max_accuracy, checked)}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
         {/* Tobii Info */}
         {settings.preferred_provider === 'tobii' && (
           <div className="p-3 rounded-lg bg-primary/10 text-sm">
@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Volume2, VolumeX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { buildLineBoxes, type PassageLayout, type WordBox } from '@/lib/analytics';
 
 interface AdaptiveTextDisplayProps {
   text: string;
@@ -12,6 +13,7 @@ interface AdaptiveTextDisplayProps {
   currentWord?: string;
   onWordHover?: (word: string) => void;
   gazePosition?: { x: number; y: number } | null;
+  onLayout?: (layout: PassageLayout) => void;
 }
 
 // Simple syllable splitting (basic implementation)
@@ -46,6 +48,39 @@ function splitIntoSyllables(word: string): string[] {
   return syllables.length > 0 ? syllables : [word];
 }
 
+// Measure rendered word boxes in viewport pixels, grouping them into lines by vertical position
+function measurePassageLayout(container: HTMLElement, text: string): PassageLayout {
+  const elements = Array.from(container.querySelectorAll<HTMLElement>('[data-word-index]'));
+  const words: WordBox[] = [];
+  let line = -1;
+  let lineTop = -Infinity;
+
+  for (const el of elements) {
+    const rect = el.getBoundingClientRect();
+    if (rect.top > lineTop + rect.height / 2) {
+      line++;
+      lineTop = rect.top;
+    }
+    words.push({
+      index: Number(el.dataset.wordIndex),
+      text: el.dataset.word || '',
+      line,
+      x: rect.left,
+      y: rect.top,
+      width: rect.width,
+      height: rect.height,
+    });
+  }
+
+  return {
+    text,
+    words,
+    lines: buildLineBoxes(words),
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    measuredAt: Date.now(),
+  };
+}
+
 export function AdaptiveTextDisplay({
   text,
   dyslexiaMode = false,
@@ -55,6 +90,7 @@ export function AdaptiveTextDisplay({
   currentWord,
   onWordHover,
   gazePosition,
+  onLayout,
 }: AdaptiveTextDisplayProps) {
   const [hoveredWord, setHoveredWord] = useState<string | null>(null);
   const [stuckWord, setStuckWord] = useState<string | null>(null);
@@ -64,6 +100,25 @@ export function AdaptiveTextDisplay({
   const stuckTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const words = text.split(/(\s+)/);
+  let wordIndex = 0;
+
+  // Report the on-screen layout once the enter animation has settled, and again on resize/scroll
+  useEffect(() => {
+    if (!onLayout || !containerRef.current) return;
+
+    const report = () => {
+      if (containerRef.current) onLayout(measurePassageLayout(containerRef.current, text));
+    };
+    const timer = setTimeout(report, 500);
+    window.addEventListener('resize', report);
+    window.addEventListener('scroll', report, { passive: true });
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('resize', report);
+      window.removeEventListener('scroll', report);
+    };
+  }, [onLayout, text, dyslexiaMode, syllableHighlight]);
 
   // Detect if gaze is stuck on a word
   useEffect(() => {
@@ -149,10 +204,13 @@ export function AdaptiveTextDisplay({
           const isStuck = stuckWord === trimmedWord;
           const isHovered = hoveredWord === trimmedWord;
           const isCurrent = currentWord === trimmedWord;
+          const currentIndex = wordIndex++;
 
           return (
             <motion.span
               key={index}
+              data-word-index={currentIndex}
+              data-word={trimmedWord}
               ref={(el) => {
                 if (el) wordRefs.current.set(trimmedWord, el);
               }}
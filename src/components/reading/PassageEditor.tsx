@@ -0,0 +1,309 @@
+/**
+ * Passage Editor
+ * Authoring form for library passages with live readability metrics,
+ * difficulty tagging and comprehension questions, plus the version history
+ * with approval for clinicians
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, History, Plus, Save, Trash2 } from 'lucide-react';
+import { LANGUAGES, resolveLanguage, type LanguageCode } from '@/data/languages';
+import { GRADE_BANDS, type GradeBand } from '@/data/readingPassages';
+import type { PassageDraft } from '@/hooks/usePassageLibrary';
+import {
+  PASSAGE_STATUS_LABELS,
+  QUESTION_KIND_LABELS,
+  computeReadability,
+  getCurrentVersion,
+  suggestDifficulty,
+  type ComprehensionQuestion,
+  type LibraryPassage,
+  type PassageDifficulty,
+  type QuestionKind,
+  type ReadingPassageVersion,
+} from '@/lib/passageLibrary';
+
+const DIFFICULTY_LABELS: Record<PassageDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  advanced: 'Advanced',
+};
+
+const EMPTY_DRAFT: PassageDraft = {
+  title: '',
+  text: '',
+  gradeBand: 'K-1',
+  difficulty: 'easy',
+  questions: [],
+  changeNote: '',
+};
+
+const draftFromVersion = (version: ReadingPassageVersion): PassageDraft => ({
+  title: version.title,
+  text: version.text,
+  gradeBand: version.grade_band,
+  difficulty: version.difficulty,
+  questions: version.questions,
+  changeNote: '',
+});
+
+// Keyed by passage id by the caller, so switching passages starts a fresh draft
+interface PassageEditorProps {
+  // Null while writing a new passage
+  passage: LibraryPassage | null;
+  canApprove: boolean;
+  isSaving: boolean;
+  onCreate: (language: LanguageCode, draft: PassageDraft) => void;
+  onSaveVersion: (passage: LibraryPassage, draft: PassageDraft) => void;
+  onApprove: (versionId: string) => void;
+}
+
+export function PassageEditor({ passage, canApprove, isSaving, onCreate, onSaveVersion, onApprove }: PassageEditorProps) {
+  const [language, setLanguage] = useState<LanguageCode>(passage?.language ?? 'en');
+  // Start from the version everyone sees
+  const [draft, setDraft] = useState<PassageDraft>(() => {
+    const current = passage ? getCurrentVersion(passage.versions) : null;
+    return current ? draftFromVersion(current) : EMPTY_DRAFT;
+  });
+
+  const readability = useMemo(() => computeReadability(draft.text, language), [draft.text, language]);
+  const suggested = suggestDifficulty(readability.gradeLevel, draft.gradeBand as GradeBand);
+
+  const update = (changes: Partial<PassageDraft>) => setDraft(d => ({ ...d, ...changes }));
+  const updateQuestion = (id: string, changes: Partial<ComprehensionQuestion>) =>
+    update({ questions: draft.questions.map(q => (q.id === id ? { ...q, ...changes } : q)) });
+
+  const addQuestion = () =>
+    update({ questions: [...draft.questions, { id: crypto.randomUUID(), kind: 'literal', prompt: '', answer: '' }] });
+
+  const handleSave = () => {
+    if (passage) {
+      onSaveVersion(passage, draft);
+    } else {
+      onCreate(language, draft);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{passage ? 'Edit passage' : 'New passage'}</CardTitle>
+          <CardDescription>
+            {passage
+              ? 'Saving adds a new draft version; the approved version stays in use until another is approved.'
+              : 'New passages start as drafts and can be picked for assessments once a clinician approves them.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-[1fr_160px_160px_160px]">
+            <div className="space-y-2">
+              <Label htmlFor="passage-title">Title</Label>
+              <Input id="passage-title" value={draft.title} onChange={e => update({ title: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select
+                value={language}
+                onValueChange={value => setLanguage(value as LanguageCode)}
+                disabled={!!passage}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LANGUAGES.map(lang => (
+                    <SelectItem key={lang.code} value={lang.code}>{lang.nativeName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Grade band</Label>
+              <Select value={draft.gradeBand} onValueChange={value => update({ gradeBand: value as GradeBand })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {GRADE_BANDS.map(band => (
+                    <SelectItem key={band} value={band}>Grades {band}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={draft.difficulty}
+                onValueChange={value => update({ difficulty: value as PassageDifficulty })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="passage-text">Passage</Label>
+            <Textarea
+              id="passage-text"
+              rows={10}
+              value={draft.text}
+              onChange={e => update({ text: e.target.value })}
+              lang={language}
+            />
+          </div>
+
+          {/* Readability */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-4 rounded-lg bg-muted/50 text-sm">
+            <div>
+              <p className="text-muted-foreground">Words</p>
+              <p className="text-lg font-semibold">{readability.wordCount}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Sentences</p>
+              <p className="text-lg font-semibold">{readability.sentenceCount}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Syllables / word</p>
+              <p className="text-lg font-semibold">{readability.syllablesPerWord.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Grade estimate</p>
+              <p className="text-lg font-semibold">
+                {readability.gradeLevel === null ? '—' : readability.gradeLevel.toFixed(1)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Suggested difficulty</p>
+              <div className="flex items-center gap-2">
+                <p className="text-lg font-semibold">{DIFFICULTY_LABELS[suggested]}</p>
+                {readability.wordCount > 0 && suggested !== draft.difficulty && (
+                  <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => update({ difficulty: suggested })}>
+                    Use
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+          {readability.gradeLevel === null && readability.wordCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              No grade estimate for {resolveLanguage(language).name}: it has no built-in passages to calibrate against.
+            </p>
+          )}
+
+          {/* Comprehension questions */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Comprehension questions</Label>
+              <Button variant="outline" size="sm" onClick={addQuestion}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add question
+              </Button>
+            </div>
+            {draft.questions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No questions yet</p>
+            )}
+            {draft.questions.map((question, i) => (
+              <div key={question.id} className="grid gap-2 md:grid-cols-[140px_1fr_1fr_auto] items-start">
+                <Select
+                  value={question.kind}
+                  onValueChange={value => updateQuestion(question.id, { kind: value as QuestionKind })}
+                >
+                  <SelectTrigger aria-label={`Question ${i + 1} type`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(QUESTION_KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder={`Question ${i + 1}`}
+                  value={question.prompt}
+                  onChange={e => updateQuestion(question.id, { prompt: e.target.value })}
+                />
+                <Input
+                  placeholder="Expected answer"
+                  value={question.answer}
+                  onChange={e => updateQuestion(question.id, { answer: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove question"
+                  onClick={() => update({ questions: draft.questions.filter(q => q.id !== question.id) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            {passage && (
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="passage-change-note">What changed</Label>
+                <Input
+                  id="passage-change-note"
+                  value={draft.changeNote ?? ''}
+                  onChange={e => update({ changeNote: e.target.value })}
+                  placeholder="e.g. Simplified the second paragraph"
+                />
+              </div>
+            )}
+            <Button onClick={handleSave} disabled={isSaving || !draft.title.trim() || !draft.text.trim()}>
+              <Save className="w-4 h-4 mr-2" />
+              {passage ? 'Save new version' : 'Save draft'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {passage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Versions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {passage.versions.map(version => (
+              <div key={version.id} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-border text-sm">
+                <span className="font-medium">v{version.version}</span>
+                <Badge variant={version.status === 'approved' ? 'default' : 'secondary'}>
+                  {PASSAGE_STATUS_LABELS[version.status]}
+                </Badge>
+                <span>{version.title}</span>
+                <span className="text-muted-foreground">
+                  {version.word_count} words · grades {version.grade_band} · {DIFFICULTY_LABELS[version.difficulty]}
+                  {version.grade_level !== null && ` · grade ${Number(version.grade_level).toFixed(1)}`}
+                  {` · ${version.questions.length} questions`}
+                </span>
+                {version.change_note && <span className="italic text-muted-foreground">“{version.change_note}”</span>}
+                <span className="ml-auto text-muted-foreground">{format(new Date(version.created_at), 'MMM d, yyyy')}</span>
+                <Button variant="outline" size="sm" onClick={() => setDraft(draftFromVersion(version))}>
+                  Edit from this
+                </Button>
+                {canApprove && version.status !== 'approved' && (
+                  <Button size="sm" onClick={() => onApprove(version.id)}>
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Approve
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
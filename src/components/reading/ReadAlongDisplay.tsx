@@ -22,12 +22,13 @@ import {
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { findLanguage } from '@/data/languages';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 
 interface ReadAlongDisplayProps {
   text: string;
   title?: string;
-  language?: string;
+  language?: string; // Language code, English name or locale
   onWordFocus?: (wordIndex: number, word: string) => void;
   onComplete?: () => void;
   gazeWordIndex?: number; // From eye tracking
@@ -37,7 +38,7 @@ interface ReadAlongDisplayProps {
 export function ReadAlongDisplay({
   text,
   title,
-  language = 'english',
+  language = 'en',
   onWordFocus,
   onComplete,
   gazeWordIndex,
@@ -49,9 +50,7 @@ export function ReadAlongDisplay({
 
   const tts = useTextToSpeech({
     rate,
-    language: language === 'hindi' ? 'hi-IN' : 
-              language === 'tamil' ? 'ta-IN' :
-              language === 'telugu' ? 'te-IN' : 'en-US',
+    language: findLanguage(language)?.ttsLocales[0] || 'en-US',
   });
 
   const words = text.split(/\s+/);
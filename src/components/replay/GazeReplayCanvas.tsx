@@ -0,0 +1,118 @@
+/**
+ * Gaze Replay Canvas
+ * Draws the recorded passage layout and the gaze path up to the playhead
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { findSampleIndexAt, type PassageLayout, type RawGazeSample } from '@/lib/analytics';
+
+interface GazeReplayCanvasProps {
+  track: RawGazeSample[];
+  layout: PassageLayout | null;
+  viewport: { width: number; height: number } | null;
+  currentTime: number;
+  trailMs?: number;
+  className?: string;
+}
+
+const LAYOUT_PADDING = 120;
+
+export function GazeReplayCanvas({
+  track,
+  layout,
+  viewport,
+  currentTime,
+  trailMs = 1500,
+  className,
+}: GazeReplayCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Region of the reader's screen to show: the passage plus some margin, else the full viewport
+  const bounds = useMemo(() => {
+    const screen = layout?.viewport ?? viewport ?? { width: 1280, height: 720 };
+    if (!layout || layout.words.length === 0) {
+      return { x: 0, y: 0, width: screen.width, height: screen.height };
+    }
+    const left = Math.min(...layout.words.map(w => w.x));
+    const top = Math.min(...layout.words.map(w => w.y));
+    const right = Math.max(...layout.words.map(w => w.x + w.width));
+    const bottom = Math.max(...layout.words.map(w => w.y + w.height));
+    const x = Math.max(0, left - LAYOUT_PADDING);
+    const y = Math.max(0, top - LAYOUT_PADDING);
+    return {
+      x,
+      y,
+      width: Math.min(screen.width, right + LAYOUT_PADDING) - x,
+      height: Math.min(screen.height, bottom + LAYOUT_PADDING) - y,
+    };
+  }, [layout, viewport]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    ctx.translate(-bounds.x, -bounds.y);
+
+    const index = findSampleIndexAt(track, currentTime);
+    const current = index >= 0 ? track[index] : null;
+
+    // Passage words, highlighting the one under the gaze
+    if (layout) {
+      ctx.font = '16px sans-serif';
+      ctx.textBaseline = 'middle';
+      for (const word of layout.words) {
+        const isGazed = current !== null &&
+          current.x >= word.x && current.x <= word.x + word.width &&
+          current.y >= word.y && current.y <= word.y + word.height;
+        ctx.fillStyle = isGazed ? 'hsla(45, 95%, 55%, 0.45)' : 'hsla(220, 15%, 60%, 0.12)';
+        ctx.fillRect(word.x, word.y, word.width, word.height);
+        ctx.fillStyle = 'hsla(220, 15%, 25%, 0.9)';
+        ctx.fillText(word.text, word.x + 4, word.y + word.height / 2, word.width - 8);
+      }
+    }
+
+    // Fading gaze trail
+    if (index > 0) {
+      ctx.lineWidth = 2;
+      for (let i = index; i > 0 && currentTime - track[i].timestamp <= trailMs; i--) {
+        const a = track[i - 1];
+        const b = track[i];
+        const age = (currentTime - b.timestamp) / trailMs;
+        ctx.strokeStyle = b.x < a.x - 40
+          ? `hsla(0, 80%, 55%, ${0.9 * (1 - age)})`
+          : `hsla(217, 90%, 55%, ${0.9 * (1 - age)})`;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+      }
+    }
+
+    if (current) {
+      ctx.fillStyle = 'hsla(217, 90%, 55%, 0.35)';
+      ctx.beginPath();
+      ctx.arc(current.x, current.y, 18, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = 'hsl(217, 90%, 45%)';
+      ctx.beginPath();
+      ctx.arc(current.x, current.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }, [track, layout, bounds, currentTime, trailMs]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={bounds.width}
+      height={bounds.height}
+      className={className}
+      style={{ width: '100%', height: 'auto' }}
+    />
+  );
+}
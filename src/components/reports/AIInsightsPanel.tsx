@@ -1,6 +1,7 @@
 /**
  * AI Insights Panel
- * Displays AI-generated recommendations and intervention strategies
+ * Displays AI-generated recommendations and intervention strategies, or the
+ * rule-based narrative when chosen or when the AI service can't be reached
  */
 
 import { useState } from 'react';
@@ -9,6 +10,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InterventionPlanDialog } from '@/components/interventions/InterventionPlanDialog';
 import { 
   Brain, 
   RefreshCw, 
@@ -20,20 +25,44 @@ import {
   TrendingUp,
   Clipboard,
   Sparkles,
-  AlertCircle
+  AlertCircle,
+  ClipboardList,
+  GitCompare,
+  Pencil,
+  ShieldCheck,
+  WifiOff
 } from 'lucide-react';
+import { format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAIInsights, type AIInsights } from '@/hooks/useAIInsights';
+import { useAIInsights, type AIInsights, type InsightEngine } from '@/hooks/useAIInsights';
+import { useAIInsightVersions } from '@/hooks/useAIInsightVersions';
+import { useUserRole } from '@/hooks/useUserRole';
+import {
+  diffInsights,
+  getDisplayedVersion,
+  getEffectiveInsights,
+  INSIGHT_STATUS_LABELS,
+} from '@/lib/aiInsightVersions';
+import { NARRATIVE_LANGUAGES, type NarrativeLanguage } from '@/lib/analytics';
+import { LANGUAGES } from '@/data/languages';
 import type { DiagnosticResult } from '@/types/diagnostic';
 import type { DyslexiaBiomarkers } from '@/hooks/useDyslexiaClassifier';
 import type { REMoDNaVMetrics } from '@/hooks/useREMoDNaVClassifier';
 import { useToast } from '@/hooks/use-toast';
 
+const NARRATIVE_LANGUAGE_OPTIONS = LANGUAGES.filter(l =>
+  (NARRATIVE_LANGUAGES as readonly string[]).includes(l.code)
+);
+
 interface AIInsightsPanelProps {
   diagnosticResult: DiagnosticResult;
   biomarkers?: DyslexiaBiomarkers;
   remoDNavMetrics?: REMoDNaVMetrics;
   studentInfo?: { name: string; grade: string; age?: number };
+  // Lets recommendations be turned into an intervention plan for this student
+  studentId?: string;
+  // Stored result the insights belong to; keeps a versioned, reviewable history
+  diagnosticResultId?: string;
   onIncludeInReport?: (insights: AIInsights) => void;
 }
 
@@ -42,15 +71,103 @@ export function AIInsightsPanel({
   biomarkers,
   remoDNavMetrics,
   studentInfo,
+  studentId,
+  diagnosticResultId,
   onIncludeInReport,
 }: AIInsightsPanelProps) {
   const { toast } = useToast();
-  const { insights, isLoading, error, generateInsights, regenerate, clearInsights } = useAIInsights();
+  const {
+    insights: generatedInsights,
+    source: generatedSource,
+    isLoading: isGenerating,
+    error,
+    generateInsights,
+  } = useAIInsights();
+  const history = useAIInsightVersions(diagnosticResultId);
+  const { isClinician } = useUserRole();
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<{
+    summary: string;
+    keyFindings: string;
+    progressForecast: string;
+    clinicalNotes: string;
+  } | null>(null);
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState('findings');
+  const [selectedStrategies, setSelectedStrategies] = useState<string[]>([]);
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
+  const [engine, setEngine] = useState<InsightEngine>('model');
+  const [language, setLanguage] = useState<NarrativeLanguage>('en');
+
+  const toggleStrategy = (title: string, checked: boolean) => {
+    setSelectedStrategies(prev => checked ? [...prev, title] : prev.filter(t => t !== title));
+  };
+
+  // With a stored result the panel shows the history; otherwise the last generation
+  const persisted = !!diagnosticResultId;
+  const versions = history.versions;
+  const selectedVersion = versions.find(v => v.id === selectedVersionId) ?? getDisplayedVersion(versions);
+  const newestVersion = versions[0] ?? null;
+  const compareVersion = versions.find(v => v.id === compareVersionId) ?? null;
+  // Insights built in the browser aren't in the history, so show them over it
+  const showingLocal = generatedSource === 'local' && !!generatedInsights;
+  const insights = persisted && !showingLocal
+    ? selectedVersion ? getEffectiveInsights(selectedVersion) : null
+    : generatedInsights;
+  const isLoading = isGenerating || (persisted && history.isLoading);
+  const changes = insights && compareVersion ? diffInsights(insights, getEffectiveInsights(compareVersion)) : [];
 
   const handleGenerate = async () => {
-    await generateInsights(diagnosticResult, biomarkers, remoDNavMetrics, studentInfo);
+    await generateInsights(diagnosticResult, biomarkers, remoDNavMetrics, studentInfo, {
+      diagnosticResultId,
+      engine,
+      language,
+    });
+    if (persisted) await history.refetch();
+  };
+
+  const handleRegenerate = async () => {
+    await generateInsights(diagnosticResult, biomarkers, remoDNavMetrics, studentInfo, {
+      diagnosticResultId,
+      regenerate: true,
+      engine,
+      language,
+    });
+    if (!persisted) return;
+    await history.refetch();
+    // Keep showing the approved version and line the new one up against it
+    setCompareVersionId(null);
+  };
+
+  const startEditing = () => {
+    if (!insights) return;
+    setEditDraft({
+      summary: insights.summary,
+      keyFindings: insights.keyFindings.join('\n'),
+      progressForecast: insights.progressForecast,
+      clinicalNotes: insights.clinicalNotes,
+    });
+  };
+
+  const handleSaveEdits = async () => {
+    if (!insights || !selectedVersion || !editDraft) return;
+    const saved = await history.saveEdits
+      .mutateAsync({
+        versionId: selectedVersion.id,
+        insights: {
+          ...insights,
+          summary: editDraft.summary.trim(),
+          keyFindings: editDraft.keyFindings.split('\n').map(f => f.trim()).filter(Boolean),
+          progressForecast: editDraft.progressForecast.trim(),
+          clinicalNotes: editDraft.clinicalNotes.trim(),
+          // The edited findings replace the rule-based strengths/concerns split
+          strengths: undefined,
+          concerns: undefined,
+        },
+      })
+      .then(() => true, () => false);
+    if (saved) setEditDraft(null);
   };
 
   const handleCopy = async () => {
@@ -101,6 +218,28 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
     }
   };
 
+  const engineControls = (
+    <div className="flex items-center gap-2">
+      <Select value={engine} onValueChange={value => setEngine(value as InsightEngine)}>
+        <SelectTrigger className="h-8 w-[150px] text-xs" aria-label="Insight engine"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="model">AI model</SelectItem>
+          <SelectItem value="rules">Rule-based</SelectItem>
+        </SelectContent>
+      </Select>
+      {engine === 'rules' && (
+        <Select value={language} onValueChange={value => setLanguage(value as NarrativeLanguage)}>
+          <SelectTrigger className="h-8 w-[120px] text-xs" aria-label="Narrative language"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {NARRATIVE_LANGUAGE_OPTIONS.map(l => (
+              <SelectItem key={l.code} value={l.code}>{l.nativeName}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+
   if (!insights && !isLoading) {
     return (
       <Card className="border-primary/20 border-dashed">
@@ -108,12 +247,16 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
           <Brain className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
           <h3 className="text-lg font-medium mb-2">AI-Powered Insights</h3>
           <p className="text-muted-foreground mb-4 max-w-md mx-auto">
-            Generate personalized intervention strategies and recommendations based on the diagnostic results using advanced AI analysis.
+            Generate personalized intervention strategies and recommendations based on the diagnostic results using advanced AI analysis,
+            or with the rule-based narrative, which also works offline.
           </p>
-          <Button onClick={handleGenerate} className="gap-2">
-            <Sparkles className="h-4 w-4" />
-            Generate AI Insights
-          </Button>
+          <div className="flex items-center justify-center gap-2">
+            {engineControls}
+            <Button onClick={handleGenerate} className="gap-2">
+              <Sparkles className="h-4 w-4" />
+              Generate Insights
+            </Button>
+          </div>
         </CardContent>
       </Card>
     );
@@ -138,7 +281,7 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
     );
   }
 
-  if (error) {
+  if (error && !insights) {
     return (
       <Card className="border-destructive/50">
         <CardContent className="py-8 text-center">
@@ -167,7 +310,8 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
             </Badge>
           </CardTitle>
           <div className="flex items-center gap-2">
-            <Button size="sm" variant="ghost" onClick={regenerate}>
+            {engineControls}
+            <Button size="sm" variant="ghost" onClick={handleRegenerate}>
               <RefreshCw className="h-4 w-4 mr-1" />
               Regenerate
             </Button>
@@ -186,10 +330,171 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* Summary */}
-        <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
-          <p className="text-sm leading-relaxed">{insights.summary}</p>
-        </div>
+        {showingLocal && (
+          <div className="flex items-center gap-2 p-3 rounded-lg border border-dashed text-sm text-muted-foreground">
+            <WifiOff className="h-4 w-4 shrink-0" />
+            <span>
+              Rule-based narrative generated on this device{error ? ` (${error})` : ''}.
+              {persisted && ' It is not saved to the history; regenerate when back online to keep a version.'}
+            </span>
+            <Badge variant="outline" className="ml-auto shrink-0">Not saved</Badge>
+          </div>
+        )}
+
+        {persisted && selectedVersion && !showingLocal && (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border bg-muted/30">
+            <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+              <Select
+                value={selectedVersion.id}
+                onValueChange={id => {
+                  setSelectedVersionId(id);
+                  setEditDraft(null);
+                }}
+              >
+                <SelectTrigger className="h-8 w-[170px] text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {versions.map(v => (
+                    <SelectItem key={v.id} value={v.id}>
+                      Version {v.version} · {INSIGHT_STATUS_LABELS[v.status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Badge variant={selectedVersion.status === 'approved' ? 'default' : 'outline'}>
+                {INSIGHT_STATUS_LABELS[selectedVersion.status]}
+              </Badge>
+              {selectedVersion.edited_insights && <Badge variant="secondary">Edited</Badge>}
+              <span>
+                {selectedVersion.source === 'fallback' ? 'Rule-based narrative' : selectedVersion.model}
+                {' · prompt '}{selectedVersion.prompt_version}
+                {' · '}{format(new Date(selectedVersion.created_at), 'PP p')}
+                {' · inputs '}<code>{selectedVersion.input_hash.slice(0, 8)}</code>
+              </span>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {versions.length > 1 && (
+                <Select
+                  value={compareVersion?.id ?? 'none'}
+                  onValueChange={id => setCompareVersionId(id === 'none' ? null : id)}
+                >
+                  <SelectTrigger className="h-8 w-[150px] text-xs">
+                    <GitCompare className="h-3 w-3 mr-1" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No comparison</SelectItem>
+                    {versions.filter(v => v.id !== selectedVersion.id).map(v => (
+                      <SelectItem key={v.id} value={v.id}>Compare v{v.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button size="sm" variant="ghost" onClick={startEditing} disabled={!!editDraft}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              {isClinician && selectedVersion.status !== 'approved' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => history.approveVersion.mutate(selectedVersion.id)}
+                  disabled={history.approveVersion.isPending}
+                >
+                  <ShieldCheck className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {persisted && !showingLocal && selectedVersion?.status === 'approved' && newestVersion && newestVersion.version > selectedVersion.version
+          && compareVersion?.id !== newestVersion.id && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-primary/30 text-sm">
+            <span>Version {newestVersion.version} was generated after the approved version.</span>
+            <Button size="sm" variant="outline" onClick={() => setCompareVersionId(newestVersion.id)}>
+              <GitCompare className="h-4 w-4 mr-1" />
+              Compare
+            </Button>
+          </div>
+        )}
+
+        {compareVersion && !showingLocal && (
+          <div className="p-3 rounded-lg border space-y-2">
+            <h4 className="text-sm font-medium">
+              Changes from version {selectedVersion?.version} to version {compareVersion.version}
+            </h4>
+            {changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The two versions say the same thing.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {changes.map((change, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{change.section}</span>
+                    {change.before && (
+                      <p className="text-destructive line-through decoration-destructive/50">− {change.before}</p>
+                    )}
+                    {change.after && <p className="text-success">+ {change.after}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {editDraft ? (
+          <div className="space-y-3 p-4 rounded-lg border">
+            <div className="space-y-1">
+              <label htmlFor="insight-summary" className="text-sm font-medium">Summary</label>
+              <Textarea
+                id="insight-summary"
+                value={editDraft.summary}
+                onChange={e => setEditDraft({ ...editDraft, summary: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="insight-findings" className="text-sm font-medium">Key findings (one per line)</label>
+              <Textarea
+                id="insight-findings"
+                value={editDraft.keyFindings}
+                onChange={e => setEditDraft({ ...editDraft, keyFindings: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="insight-forecast" className="text-sm font-medium">Progress forecast</label>
+              <Textarea
+                id="insight-forecast"
+                value={editDraft.progressForecast}
+                onChange={e => setEditDraft({ ...editDraft, progressForecast: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="insight-notes" className="text-sm font-medium">Clinical notes</label>
+              <Textarea
+                id="insight-notes"
+                value={editDraft.clinicalNotes}
+                onChange={e => setEditDraft({ ...editDraft, clinicalNotes: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setEditDraft(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveEdits} disabled={history.saveEdits.isPending}>
+                Save Edits
+              </Button>
+            </div>
+          </div>
+        ) : (
+          /* Summary */
+          <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+            <p className="text-sm leading-relaxed">{insights.summary}</p>
+          </div>
+        )}
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -220,17 +525,44 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
                 exit={{ opacity: 0, y: -10 }}
                 className="space-y-3"
               >
-                <h4 className="font-medium">Key Findings</h4>
-                <ul className="space-y-2">
-                  {insights.keyFindings.map((finding, i) => (
-                    <li key={i} className="flex items-start gap-2">
-                      <div className="w-6 h-6 rounded-full bg-primary/10 text-primary flex items-center justify-center flex-shrink-0 text-sm font-medium">
-                        {i + 1}
-                      </div>
-                      <p className="text-sm">{finding}</p>
-                    </li>
-                  ))}
-                </ul>
+                {insights.strengths && insights.concerns ? (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Concerns</h4>
+                      {insights.concerns.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">None identified.</p>
+                      ) : (
+                        <ul className="list-disc list-inside space-y-1 text-sm">
+                          {insights.concerns.map((concern, i) => <li key={i}>{concern}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Strengths</h4>
+                      {insights.strengths.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">None identified.</p>
+                      ) : (
+                        <ul className="list-disc list-inside space-y-1 text-sm">
+                          {insights.strengths.map((strength, i) => <li key={i}>{strength}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <h4 className="font-medium">Key Findings</h4>
+                    <ul className="space-y-2">
+                      {insights.keyFindings.map((finding, i) => (
+                        <li key={i} className="flex items-start gap-2">
+                          <div className="w-6 h-6 rounded-full bg-primary/10 text-primary flex items-center justify-center flex-shrink-0 text-sm font-medium">
+                            {i + 1}
+                          </div>
+                          <p className="text-sm">{finding}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
               </motion.div>
             </TabsContent>
 
@@ -241,12 +573,34 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
                 exit={{ opacity: 0, y: -10 }}
                 className="space-y-4"
               >
-                <h4 className="font-medium">Intervention Strategies</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Intervention Strategies</h4>
+                  {studentId && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={selectedStrategies.length === 0}
+                      onClick={() => setPlanDialogOpen(true)}
+                    >
+                      <ClipboardList className="h-4 w-4 mr-1" />
+                      Create Plan ({selectedStrategies.length})
+                    </Button>
+                  )}
+                </div>
                 <div className="space-y-3">
                   {insights.interventionStrategies.map((strategy, i) => (
                     <div key={i} className="p-3 rounded-lg border bg-card">
                       <div className="flex items-center justify-between mb-2">
-                        <h5 className="font-medium">{strategy.title}</h5>
+                        <div className="flex items-center gap-2">
+                          {studentId && (
+                            <Checkbox
+                              aria-label={`Include ${strategy.title} in a plan`}
+                              checked={selectedStrategies.includes(strategy.title)}
+                              onCheckedChange={checked => toggleStrategy(strategy.title, checked === true)}
+                            />
+                          )}
+                          <h5 className="font-medium">{strategy.title}</h5>
+                        </div>
                         <Badge className={`${getPriorityColor(strategy.priority)} text-white`}>
                           {strategy.priority}
                         </Badge>
@@ -331,6 +685,16 @@ Confidence: ${(insights.confidence * 100).toFixed(0)}%
           </AnimatePresence>
         </Tabs>
       </CardContent>
+
+      {studentId && (
+        <InterventionPlanDialog
+          open={planDialogOpen}
+          onOpenChange={setPlanDialogOpen}
+          studentId={studentId}
+          studentName={studentInfo?.name}
+          strategies={insights.interventionStrategies.filter(s => selectedStrategies.includes(s.title))}
+        />
+      )}
     </Card>
   );
 }
@@ -7,6 +7,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import type { DiagnosticResult, EyeTrackingMetrics, VoiceMetrics, HandwritingMetrics } from '@/types/diagnostic';
 import logger from '@/lib/logger';
+import type { MetricProgress } from '@/lib/progressAnalytics';
+import { drawProgressSection } from '@/components/reports/progressReportPdf';
+import { drawMiscueSection } from '@/components/reports/miscueReportPdf';
+import type { MiscueAnalysis } from '@/lib/analytics';
 import { 
   FileText, 
   Download, 
@@ -31,6 +35,10 @@ interface PDFReportGeneratorProps {
   dysgraphiaIndex: number;
   overallRisk: 'low' | 'moderate' | 'high';
   gazeHeatmapRef?: React.RefObject<HTMLCanvasElement>;
+  // Change since earlier assessments, when the student has a history
+  progressSummary?: { items: MetricProgress[]; baselineLabel: string };
+  // Passage words as read aloud, when the transcript was aligned
+  miscueAnalysis?: MiscueAnalysis | null;
 }
 
 export function PDFReportGenerator({
@@ -44,7 +52,9 @@ export function PDFReportGenerator({
   adhdIndex,
   dysgraphiaIndex,
   overallRisk,
-  gazeHeatmapRef
+  gazeHeatmapRef,
+  progressSummary,
+  miscueAnalysis
 }: PDFReportGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -182,6 +192,10 @@ export function PDFReportGenerator({
       }
       yPos += 10;
 
+      if (miscueAnalysis) {
+        yPos = drawMiscueSection(pdf, miscueAnalysis, { margin, yPos });
+      }
+
       setProgress(70);
 
       // Check if we need a new page
@@ -248,6 +262,14 @@ export function PDFReportGenerator({
 
       setProgress(95);
 
+      if (progressSummary) {
+        yPos = drawProgressSection(pdf, progressSummary.items, {
+          margin,
+          yPos,
+          baselineLabel: progressSummary.baselineLabel,
+        });
+      }
+
       // Clinical Notes Section
       if (yPos > pageHeight - 50) {
         pdf.addPage();
@@ -0,0 +1,114 @@
+import { jsPDF } from 'jspdf';
+import { MISCUE_TYPE_LABELS, type AlignedWord, type MiscueAnalysis, type MiscueType } from '@/lib/analytics';
+
+const MISCUE_COLORS: Record<MiscueType, [number, number, number]> = {
+  correct: [0, 0, 0],
+  substitution: [239, 68, 68],
+  omission: [148, 163, 184],
+  insertion: [234, 88, 12],
+  repetition: [59, 130, 246],
+  self_correction: [34, 197, 94],
+};
+
+// The built-in PDF fonts only cover Latin-1; other scripts stay in the app view
+const PRINTABLE = /^[\x20-\xFF]*$/;
+
+function wordLabel(word: AlignedWord): string {
+  switch (word.type) {
+    case 'substitution':
+      return `${word.expected} (${word.spoken})`;
+    case 'self_correction':
+      return `${word.expected} SC`;
+    case 'insertion':
+    case 'repetition':
+      return `[${word.spoken}]`;
+    default:
+      return word.expected ?? '';
+  }
+}
+
+/**
+ * "Oral Reading Miscues" section: scores, counts and the passage with each
+ * miscue coloured. Returns the y position after the section.
+ */
+export function drawMiscueSection(
+  pdf: jsPDF,
+  analysis: MiscueAnalysis,
+  { margin, yPos }: { margin: number; yPos: number }
+): number {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  if (yPos > pageHeight - 60) {
+    pdf.addPage();
+    yPos = margin;
+  }
+
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(14);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Oral Reading Miscues', margin, yPos);
+  yPos += 8;
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(
+    `Words correct per minute: ${analysis.wordsCorrectPerMinute}  |  Accuracy: ${analysis.accuracy}%  |  ` +
+      `Words attempted: ${analysis.wordsAttempted} of ${analysis.passageWordCount}`,
+    margin + 5,
+    yPos
+  );
+  yPos += 6;
+
+  // Legend doubles as the count of each miscue type
+  let x = margin + 5;
+  for (const type of Object.keys(MISCUE_TYPE_LABELS) as MiscueType[]) {
+    if (type === 'correct') continue;
+    const label = `${MISCUE_TYPE_LABELS[type]}: ${analysis.counts[type]}`;
+    pdf.setTextColor(...MISCUE_COLORS[type]);
+    pdf.text(label, x, yPos);
+    x += pdf.getTextWidth(label) + 6;
+  }
+  yPos += 8;
+
+  const words = analysis.words.filter(w => PRINTABLE.test(wordLabel(w)));
+  if (words.length < analysis.words.length) {
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFont('helvetica', 'italic');
+    pdf.text('The highlighted passage is available in the app for this script.', margin + 5, yPos);
+    pdf.setFont('helvetica', 'normal');
+    return yPos + 10;
+  }
+
+  const lineHeight = 5.5;
+  const right = pageWidth - margin;
+  const space = pdf.getTextWidth(' ');
+  x = margin + 5;
+  for (const word of words) {
+    const label = wordLabel(word);
+    const width = pdf.getTextWidth(label);
+    if (x + width > right) {
+      x = margin + 5;
+      yPos += lineHeight;
+      if (yPos > pageHeight - margin) {
+        pdf.addPage();
+        yPos = margin;
+      }
+    }
+    pdf.setTextColor(...MISCUE_COLORS[word.type]);
+    pdf.text(label, x, yPos);
+    if (word.type === 'omission') {
+      pdf.setDrawColor(...MISCUE_COLORS.substitution);
+      pdf.line(x, yPos - 1.2, x + width, yPos - 1.2);
+    }
+    x += width + space;
+  }
+
+  const notReached = analysis.passageWordCount - analysis.wordsAttempted;
+  if (notReached > 0) {
+    yPos += lineHeight;
+    pdf.setTextColor(...MISCUE_COLORS.omission);
+    pdf.text(`${notReached} words not reached`, margin + 5, yPos);
+  }
+  pdf.setTextColor(0, 0, 0);
+  return yPos + 10;
+}
@@ -0,0 +1,110 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import {
+  formatMetricValue,
+  PROGRESS_VERDICT_LABELS,
+  type MetricProgress,
+  type ProgressAnnotation,
+  type ProgressVerdict,
+} from '@/lib/progressAnalytics';
+
+const VERDICT_COLORS: Record<ProgressVerdict, [number, number, number]> = {
+  improved: [34, 197, 94],
+  unchanged: [100, 116, 139],
+  worsened: [239, 68, 68],
+  insufficient: [148, 163, 184],
+};
+
+/**
+ * "Progress Since Baseline" section shared by the assessment report and the
+ * standalone progress report. Returns the y position after the section.
+ */
+export function drawProgressSection(
+  pdf: jsPDF,
+  progress: MetricProgress[],
+  { margin, yPos, baselineLabel }: { margin: number; yPos: number; baselineLabel: string }
+): number {
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const rows = progress.filter(p => p.verdict !== 'insufficient');
+  if (yPos > pageHeight - 30 - rows.length * 6) {
+    pdf.addPage();
+    yPos = margin;
+  }
+
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(14);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Progress Since Baseline', margin, yPos);
+  yPos += 6;
+
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'italic');
+  pdf.text(`Compared with ${baselineLabel}. Changes smaller than the minimal detectable change are reported as unchanged.`, margin, yPos);
+  yPos += 8;
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  if (rows.length === 0) {
+    pdf.text('At least two assessments are needed to measure change.', margin + 5, yPos);
+    return yPos + 10;
+  }
+
+  for (const p of rows) {
+    const { metric } = p;
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(
+      `• ${metric.label}: ${formatMetricValue(metric, p.baseline!.value)} -> ${formatMetricValue(metric, p.latest!.value)}` +
+        ` (MDC ${formatMetricValue(metric, p.mdc)})`,
+      margin + 5,
+      yPos
+    );
+    pdf.setTextColor(...VERDICT_COLORS[p.verdict]);
+    pdf.text(PROGRESS_VERDICT_LABELS[p.verdict], margin + 130, yPos);
+    yPos += 6;
+  }
+  pdf.setTextColor(0, 0, 0);
+  return yPos + 6;
+}
+
+export function downloadProgressReport({
+  studentName,
+  progress,
+  annotations,
+  baselineLabel,
+}: {
+  studentName: string;
+  progress: MetricProgress[];
+  annotations: ProgressAnnotation[];
+  baselineLabel: string;
+}) {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const margin = 15;
+  let yPos = margin + 5;
+
+  pdf.setFontSize(18);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(`Progress Report: ${studentName}`, margin, yPos);
+  yPos += 7;
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`Generated ${format(new Date(), 'PPP')}`, margin, yPos);
+  yPos += 12;
+
+  yPos = drawProgressSection(pdf, progress, { margin, yPos, baselineLabel });
+
+  if (annotations.length > 0) {
+    pdf.setFontSize(14);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Interventions', margin, yPos);
+    yPos += 8;
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'normal');
+    for (const annotation of annotations) {
+      const ended = annotation.ended_on ? format(parseISO(annotation.ended_on), 'PP') : 'ongoing';
+      pdf.text(`• ${annotation.label}: ${format(parseISO(annotation.started_on), 'PP')} to ${ended}`, margin + 5, yPos);
+      yPos += 6;
+    }
+  }
+
+  pdf.save(`NeuroRead_Progress_${studentName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`);
+}
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { readRosterFile, useStudentRoster } from '@/hooks/useStudentRoster';
+import type { ClassroomOption } from '@/lib/organizations';
+import {
+  guessColumnMapping,
+  ROSTER_FIELD_LABELS,
+  ROSTER_FIELDS,
+  validateRoster,
+  type ColumnMapping,
+  type DateFormat,
+  type ExistingStudent,
+  type RosterAction,
+} from '@/lib/studentRoster';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+
+interface RosterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  students: ExistingStudent[];
+  classroomOptions: ClassroomOption[];
+}
+
+const ACTION_LABELS: Record<RosterAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error',
+};
+
+const ACTION_VARIANTS: Record<RosterAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  unchanged: 'outline',
+  error: 'destructive',
+};
+
+const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'ymd', label: 'YYYY-MM-DD' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+];
+
+export function RosterImportDialog({ open, onOpenChange, students, classroomOptions }: RosterImportDialogProps) {
+  const { importRoster } = useStudentRoster();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('ymd');
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => mapping ? validateRoster(rows, mapping, { existing: students, classrooms: classroomOptions, dateFormat }) : null,
+    [rows, mapping, students, classroomOptions, dateFormat]
+  );
+  const toApply = preview ? preview.counts.create + preview.counts.update : 0;
+
+  const reset = () => {
+    setFileName(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setReadError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    try {
+      const [header, ...data] = await readRosterFile(file);
+      if (!header || data.length === 0) {
+        setReadError('The file has no student rows.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(header);
+      setRows(data);
+      setMapping(guessColumnMapping(header));
+    } catch {
+      setReadError('The file could not be read. Use a .csv or .xlsx file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const result = await importRoster.mutateAsync(preview.rows).catch(() => null);
+    if (result) {
+      reset();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary" />
+            Import roster
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with one student per row. Students already on your list are matched by
+            name and date of birth and updated instead of added again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="roster-file">File</Label>
+            <Input
+              id="roster-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+            {readError && <p className="text-sm text-destructive">{readError}</p>}
+          </div>
+
+          {mapping && (
+            <div className="space-y-3">
+              <h3 className="font-semibold">Columns in {fileName}</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {ROSTER_FIELDS.map(field => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs">{ROSTER_FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={mapping[field] === null ? 'none' : String(mapping[field])}
+                      onValueChange={value => setMapping({ ...mapping, [field]: value === 'none' ? null : Number(value) })}
+                    >
+                      <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not in file</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs">Date format</Label>
+                  <Select value={dateFormat} onValueChange={value => setDateFormat(value as DateFormat)}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-semibold mr-2">Preview</h3>
+                {(Object.keys(ACTION_LABELS) as RosterAction[]).map(action => (
+                  <Badge key={action} variant={ACTION_VARIANTS[action]}>
+                    {preview.counts[action]} {ACTION_LABELS[action].toLowerCase()}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Dry run: nothing has been saved yet. Rows with errors are skipped.
+              </p>
+              <div className="max-h-[320px] overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Line</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="w-28">Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.name || '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs space-y-0.5">
+                          {row.errors.map(e => <p key={e} className="text-destructive">{e}</p>)}
+                          {row.warnings.map(w => <p key={w} className="text-warning">{w}</p>)}
+                          {row.action === 'update' && (
+                            <p className="text-muted-foreground">
+                              Changes {row.changes.map(c => ROSTER_FIELD_LABELS[c].toLowerCase()).join(', ')}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }}>Cancel</Button>
+          <Button onClick={handleImport} disabled={toApply === 0 || importRoster.isPending}>
+            <Upload className="w-4 h-4 mr-2" />
+            {toApply > 0 ? `Import ${toApply} student${toApply === 1 ? '' : 's'}` : 'Nothing to import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,7 @@ interface Profile {
     password_change: boolean;
     welcome_email: boolean;
     confirmation_email: boolean;
+    message_notifications?: boolean;
   } | null;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ASSESSMENT_LANGUAGES,
+  findLanguage,
+  getAssessmentLanguage,
+  getLanguageReadiness,
+  getPassageForLanguage,
+} from './languages';
+import { getReadingSpeedNorm, getSpeechLocale, getTesseractLanguage } from './phoneticPatterns';
+
+describe('language registry', () => {
+  it('marks only fully declared languages as assessment-ready', () => {
+    expect(ASSESSMENT_LANGUAGES.map(l => l.code)).toEqual(['en', 'hi', 'ta', 'te']);
+
+    const kannada = getLanguageReadiness('kn');
+    expect(kannada.ready).toBe(false);
+    expect(kannada.missing.map(m => m.key)).toEqual([
+      'hesitationPattern', 'readingSpeedNorms', 'scriptCalibration', 'confusables',
+    ]);
+    expect(getLanguageReadiness('xx').missing).toHaveLength(8);
+    expect(getAssessmentLanguage('kn')).toBe('en');
+    expect(getAssessmentLanguage('ta')).toBe('ta');
+  });
+
+  it('finds languages by code, name or locale', () => {
+    expect(findLanguage('hi')?.name).toBe('Hindi');
+    expect(findLanguage('Telugu')?.code).toBe('te');
+    expect(findLanguage('ml-IN')?.ttsLocales).toEqual(['ml-IN']);
+    expect(findLanguage('fr')).toBeUndefined();
+  });
+
+  it('serves passages and per-piece lookups with English fallback', () => {
+    expect(getPassageForLanguage('hi', '1st').id).toBe('hindi-k-1');
+    expect(getPassageForLanguage('ml', '1st').id).toBe('passage-k-1');
+    expect(getSpeechLocale('kn')).toBe('kn-IN');
+    expect(getTesseractLanguage('bn')).toBe('ben');
+    expect(getReadingSpeedNorm('mr', '3')).toEqual(getReadingSpeedNorm('en', '3'));
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Language registry
+ * One entry per language declaring everything an assessment needs in it:
+ * speech recognition locale, Tesseract OCR code, text-to-speech voices,
+ * hesitation and confusable patterns, reading-speed norms, script calibration
+ * and reading passages. A language is assessment-ready only when every piece
+ * is declared; hooks fall back to English for pieces a language lacks.
+ */
+
+import { readingPassages, getPassageForGrade, type ReadingPassage } from './readingPassages';
+import { regionalPassages, getRegionalPassageForGrade } from './regionalPassages';
+
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'te' | 'kn' | 'bn' | 'mr' | 'ml';
+
+export interface ReadingSpeedNorm {
+  min: number;
+  average: number;
+  max: number;
+}
+
+export interface ConfusablePattern {
+  pattern: RegExp;
+  expected: string;
+  description: string;
+}
+
+export interface ScriptCalibration {
+  avgCharacterWidth: number; // in pixels at standard font size
+  fixationThreshold: number; // ms - threshold for detecting prolonged fixation
+  regressionSensitivity: number; // multiplier for regression detection
+}
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  // Speech recognition locale (Web Speech API and server-side transcription)
+  speechLocale: string | null;
+  // Tesseract traineddata code for handwriting OCR
+  tesseractCode: string | null;
+  // Text-to-speech voice locales, preferred first
+  ttsLocales: string[];
+  // Hesitation/filler words
+  hesitationPattern: RegExp | null;
+  // Common letter/character confusions in the script
+  confusables: ConfusablePattern[];
+  // Reading speed norms (WPM) by grade '1'-'8', plus 'default'
+  readingSpeedNorms: Record<string, ReadingSpeedNorm> | null;
+  // Eye tracking calibration - scripts differ in character density
+  scriptCalibration: ScriptCalibration | null;
+  passages: ReadingPassage[];
+}
+
+const passagesFor = (code: LanguageCode): ReadingPassage[] =>
+  regionalPassages.filter(p => p.language === code);
+
+// Reading speed norms are approximate - adjust based on regional standards
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    speechLocale: 'en-US',
+    tesseractCode: 'eng',
+    ttsLocales: ['en-US', 'en-GB', 'en-IN', 'en-AU'],
+    hesitationPattern: /\b(um|uh|er|ah|hmm|like|you know)\b/gi,
+    confusables: [
+      { pattern: /\bdoy\b/i, expected: 'boy', description: 'b/d reversal' },
+      { pattern: /\bdag\b/i, expected: 'bag', description: 'b/d reversal' },
+      { pattern: /\bded\b/i, expected: 'bed', description: 'b/d reversal' },
+      { pattern: /\bdig\b/i, expected: 'big', description: 'b/d reversal' },
+      { pattern: /\bbown\b/i, expected: 'down', description: 'b/d reversal' },
+      { pattern: /\bsaw\b/i, expected: 'was', description: 'visual reversal' },
+      { pattern: /\bno\b/i, expected: 'on', description: 'visual reversal' },
+      { pattern: /\bpat\b/i, expected: 'tap', description: 'visual reversal' },
+    ],
+    readingSpeedNorms: {
+      '1': { min: 30, average: 60, max: 90 },
+      '2': { min: 50, average: 90, max: 130 },
+      '3': { min: 70, average: 110, max: 150 },
+      '4': { min: 90, average: 130, max: 170 },
+      '5': { min: 100, average: 140, max: 180 },
+      '6': { min: 110, average: 150, max: 190 },
+      '7': { min: 120, average: 160, max: 200 },
+      '8': { min: 130, average: 170, max: 210 },
+      default: { min: 100, average: 150, max: 200 }
+    },
+    scriptCalibration: {
+      avgCharacterWidth: 8,
+      fixationThreshold: 250,
+      regressionSensitivity: 1.0
+    },
+    passages: readingPassages,
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    speechLocale: 'hi-IN',
+    tesseractCode: 'hin',
+    ttsLocales: ['hi-IN'],
+    hesitationPattern: /\b(अम्|हम्म|ये|वो|मतलब|तो|ऐसा)\b/gi,
+    confusables: [
+      // Devanagari confusable pairs
+      { pattern: /म(?=\s|$)/g, expected: 'भ', description: 'म/भ confusion' },
+      { pattern: /व(?=\s|$)/g, expected: 'ब', description: 'व/ब confusion' },
+      { pattern: /श(?=\s|$)/g, expected: 'ष', description: 'श/ष confusion' },
+      { pattern: /ध(?=\s|$)/g, expected: 'घ', description: 'ध/घ confusion' },
+      { pattern: /न(?=\s|$)/g, expected: 'ण', description: 'न/ण confusion' },
+      { pattern: /द(?=\s|$)/g, expected: 'ढ', description: 'द/ढ confusion' },
+    ],
+    readingSpeedNorms: {
+      // Hindi reading speeds are typically slower due to script complexity
+      '1': { min: 20, average: 40, max: 60 },
+      '2': { min: 35, average: 60, max: 90 },
+      '3': { min: 50, average: 80, max: 110 },
+      '4': { min: 65, average: 95, max: 130 },
+      '5': { min: 75, average: 110, max: 145 },
+      '6': { min: 85, average: 120, max: 155 },
+      '7': { min: 95, average: 130, max: 165 },
+      '8': { min: 100, average: 140, max: 180 },
+      default: { min: 70, average: 110, max: 150 }
+    },
+    scriptCalibration: {
+      avgCharacterWidth: 12, // Devanagari is wider
+      fixationThreshold: 300, // Allow more time for complex characters
+      regressionSensitivity: 0.9 // Slightly less sensitive
+    },
+    passages: passagesFor('hi'),
+  },
+  {
+    code: 'ta',
+    name: 'Tamil',
+    nativeName: 'தமிழ்',
+    speechLocale: 'ta-IN',
+    tesseractCode: 'tam',
+    ttsLocales: ['ta-IN'],
+    hesitationPattern: /\b(அம்|ஹம்|அதாவது|என்னா|அது)\b/gi,
+    confusables: [
+      // Tamil confusable pairs
+      { pattern: /ண(?=\s|$)/g, expected: 'ன', description: 'ண/ன confusion' },
+      { pattern: /ல(?=\s|$)/g, expected: 'ள', description: 'ல/ள confusion' },
+      { pattern: /ர(?=\s|$)/g, expected: 'ற', description: 'ர/ற confusion' },
+      { pattern: /ந(?=\s|$)/g, expected: 'ன', description: 'ந/ன confusion' },
+    ],
+    readingSpeedNorms: {
+      '1': { min: 18, average: 35, max: 55 },
+      '2': { min: 30, average: 55, max: 85 },
+      '3': { min: 45, average: 75, max: 105 },
+      '4': { min: 60, average: 90, max: 125 },
+      '5': { min: 70, average: 105, max: 140 },
+      '6': { min: 80, average: 115, max: 150 },
+      '7': { min: 90, average: 125, max: 160 },
+      '8': { min: 95, average: 135, max: 175 },
+      default: { min: 65, average: 100, max: 140 }
+    },
+    scriptCalibration: {
+      avgCharacterWidth: 14, // Tamil script is quite wide
+      fixationThreshold: 320,
+      regressionSensitivity: 0.85
+    },
+    passages: passagesFor('ta'),
+  },
+  {
+    code: 'te',
+    name: 'Telugu',
+    nativeName: 'తెలుగు',
+    speechLocale: 'te-IN',
+    tesseractCode: 'tel',
+    ttsLocales: ['te-IN'],
+    hesitationPattern: /\b(అమ్|హమ్|అంటే|ఏమిటి|అది)\b/gi,
+    confusables: [
+      // Telugu confusable pairs
+      { pattern: /బ(?=\s|$)/g, expected: 'వ', description: 'బ/వ confusion' },
+      { pattern: /డ(?=\s|$)/g, expected: 'ఢ', description: 'డ/ఢ confusion' },
+      { pattern: /ణ(?=\s|$)/g, expected: 'న', description: 'ణ/న confusion' },
+      { pattern: /ల(?=\s|$)/g, expected: 'ళ', description: 'ల/ళ confusion' },
+    ],
+    readingSpeedNorms: {
+      '1': { min: 18, average: 35, max: 55 },
+      '2': { min: 32, average: 58, max: 88 },
+      '3': { min: 48, average: 78, max: 108 },
+      '4': { min: 62, average: 92, max: 128 },
+      '5': { min: 72, average: 108, max: 142 },
+      '6': { min: 82, average: 118, max: 152 },
+      '7': { min: 92, average: 128, max: 162 },
+      '8': { min: 98, average: 138, max: 178 },
+      default: { min: 68, average: 105, max: 145 }
+    },
+    scriptCalibration: {
+      avgCharacterWidth: 13, // Telugu script
+      fixationThreshold: 310,
+      regressionSensitivity: 0.87
+    },
+    passages: passagesFor('te'),
+  },
+  // Passages exist but patterns, norms and calibration have not been validated yet
+  {
+    code: 'kn',
+    name: 'Kannada',
+    nativeName: 'ಕನ್ನಡ',
+    speechLocale: 'kn-IN',
+    tesseractCode: 'kan',
+    ttsLocales: ['kn-IN'],
+    hesitationPattern: null,
+    confusables: [],
+    readingSpeedNorms: null,
+    scriptCalibration: null,
+    passages: passagesFor('kn'),
+  },
+  {
+    code: 'bn',
+    name: 'Bengali',
+    nativeName: 'বাংলা',
+    speechLocale: 'bn-IN',
+    tesseractCode: 'ben',
+    ttsLocales: ['bn-IN'],
+    hesitationPattern: null,
+    confusables: [],
+    readingSpeedNorms: null,
+    scriptCalibration: null,
+    passages: passagesFor('bn'),
+  },
+  {
+    code: 'mr',
+    name: 'Marathi',
+    nativeName: 'मराठी',
+    speechLocale: 'mr-IN',
+    tesseractCode: 'mar',
+    ttsLocales: ['mr-IN'],
+    hesitationPattern: null,
+    confusables: [],
+    readingSpeedNorms: null,
+    scriptCalibration: null,
+    passages: passagesFor('mr'),
+  },
+  // Read-along only for now
+  {
+    code: 'ml',
+    name: 'Malayalam',
+    nativeName: 'മലയാളം',
+    speechLocale: 'ml-IN',
+    tesseractCode: 'mal',
+    ttsLocales: ['ml-IN'],
+    hesitationPattern: null,
+    confusables: [],
+    readingSpeedNorms: null,
+    scriptCalibration: null,
+    passages: [],
+  },
+];
+
+const ENGLISH = LANGUAGES[0];
+
+// Everything an assessment reads per language, in the order it's used
+export const LANGUAGE_REQUIREMENTS = [
+  { key: 'passages', label: 'Reading passages', isDeclared: (l: LanguageDefinition) => l.passages.length > 0 },
+  { key: 'speechLocale', label: 'Speech recognition', isDeclared: (l: LanguageDefinition) => !!l.speechLocale },
+  { key: 'hesitationPattern', label: 'Hesitation patterns', isDeclared: (l: LanguageDefinition) => !!l.hesitationPattern },
+  { key: 'readingSpeedNorms', label: 'Reading-speed norms', isDeclared: (l: LanguageDefinition) => !!l.readingSpeedNorms },
+  { key: 'scriptCalibration', label: 'Script calibration', isDeclared: (l: LanguageDefinition) => !!l.scriptCalibration },
+  { key: 'tesseractCode', label: 'Handwriting OCR', isDeclared: (l: LanguageDefinition) => !!l.tesseractCode },
+  { key: 'confusables', label: 'Confusable characters', isDeclared: (l: LanguageDefinition) => l.confusables.length > 0 },
+  { key: 'ttsLocales', label: 'Text-to-speech voices', isDeclared: (l: LanguageDefinition) => l.ttsLocales.length > 0 },
+] as const;
+
+export type LanguageRequirement = typeof LANGUAGE_REQUIREMENTS[number]['key'];
+
+export interface LanguageReadiness {
+  ready: boolean;
+  missing: Array<{ key: LanguageRequirement; label: string }>;
+}
+
+export function getLanguage(code: string | null | undefined): LanguageDefinition | undefined {
+  return LANGUAGES.find(l => l.code === code);
+}
+
+// Look a language up by code, English name or locale ('hi', 'Hindi', 'hi-IN')
+export function findLanguage(query: string | null | undefined): LanguageDefinition | undefined {
+  if (!query) return undefined;
+  const q = query.toLowerCase();
+  return LANGUAGES.find(l => l.code === q || l.name.toLowerCase() === q)
+    || LANGUAGES.find(l => l.code === q.split(/[-_]/)[0]);
+}
+
+// The registered language, or English for unknown codes
+export function resolveLanguage(code: string | null | undefined): LanguageDefinition {
+  return getLanguage(code) ?? ENGLISH;
+}
+
+export function getLanguageReadiness(code: string): LanguageReadiness {
+  const language = getLanguage(code);
+  const missing = LANGUAGE_REQUIREMENTS
+    .filter(req => !language || !req.isDeclared(language))
+    .map(({ key, label }) => ({ key, label }));
+  return { ready: missing.length === 0, missing };
+}
+
+export function isAssessmentReady(code: string | null | undefined): boolean {
+  return !!code && getLanguageReadiness(code).ready;
+}
+
+export const ASSESSMENT_LANGUAGES = LANGUAGES.filter(l => isAssessmentReady(l.code));
+
+// The language an assessment actually runs in: the requested one if ready, else English
+export function getAssessmentLanguage(code: string | null | undefined): LanguageCode {
+  return isAssessmentReady(code) ? (code as LanguageCode) : 'en';
+}
+
+// Built-in grade-appropriate passage in the language, falling back to English when it has none.
+// Library passages are only read when the clinician picks one for the session.
+export function getPassageForLanguage(code: string | null | undefined, grade: string): ReadingPassage {
+  const { code: resolved, passages } = resolveLanguage(code);
+  if (resolved === 'en' || passages.length === 0) {
+    return getPassageForGrade(grade);
+  }
+  return getRegionalPassageForGrade(resolved, grade);
+}
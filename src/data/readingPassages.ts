@@ -58,19 +58,29 @@ Her team documented seventeen previously unknown species during the expedition.
   },
 ];
 
-// Get passage by grade level
-export function getPassageForGrade(grade: string): ReadingPassage {
+export const GRADE_BANDS = ['K-1', '2-3', '4-5'] as const;
+export type GradeBand = typeof GRADE_BANDS[number];
+
+// Grade band a student's grade reads at
+export function getGradeBand(grade: string): GradeBand {
   const gradeLevel = grade.toLowerCase();
   
   if (gradeLevel === 'k' || gradeLevel === 'kindergarten' || gradeLevel === '1st') {
-    return readingPassages[0];
+    return 'K-1';
   } else if (gradeLevel === '2nd' || gradeLevel === '3rd') {
-    return readingPassages[1];
+    return '2-3';
   } else {
-    return readingPassages[2];
+    return '4-5';
   }
 }
 
+// Get passage by grade level
+export function getPassageForGrade(grade: string): ReadingPassage {
+  const band = getGradeBand(grade);
+  return readingPassages.find(p => p.grade === band)
+    || readingPassages[2];
+}
+
 // Get all passages
 export function getAllPassages(): ReadingPassage[] {
   return readingPassages;
@@ -1,12 +1,12 @@
 // Regional language reading passages for India
 // Hindi, Tamil, Telugu, Kannada, Bengali, and Marathi passages for clinical assessment
 
-import type { ReadingPassage } from './readingPassages';
+import { GRADE_BANDS, getGradeBand, type ReadingPassage } from './readingPassages';
+import type { LanguageCode } from './languages';
 
+// Language names, locales and readiness live in the language registry (./languages)
 export interface RegionalPassage extends ReadingPassage {
-  language: 'hi' | 'ta' | 'te' | 'kn' | 'bn' | 'mr';
-  languageName: string;
-  speechRecognitionLocale: string;
+  language: Exclude<LanguageCode, 'en'>;
 }
 
 export const regionalPassages: RegionalPassage[] = [
@@ -16,8 +16,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'छोटी चिड़िया',
     language: 'hi',
-    languageName: 'Hindi',
-    speechRecognitionLocale: 'hi-IN',
     text: `एक बार की बात है, एक छोटी लाल चिड़िया थी। वह चिड़िया एक बड़े पेड़ पर रहती थी। हर सुबह वह एक मीठा गाना गाती थी। उसका गाना इतना सुंदर था कि सभी जानवर रुककर सुनते थे।
 
 एक दिन चिड़िया ने एक छोटे खरगोश को अकेला बैठे देखा। खरगोश उदास लग रहा था। दयालु चिड़िया नीचे उड़कर आई और पूछा, "तुम उदास क्यों हो?" खरगोश ने कहा, "मैं अपने घर का रास्ता भूल गया।"
@@ -31,8 +29,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'जादुई बगीचा',
     language: 'hi',
-    languageName: 'Hindi',
-    speechRecognitionLocale: 'hi-IN',
     text: `माया को अपनी दादी के घर के पीछे कुछ अद्भुत मिला। पुरानी लकड़ी की बाड़ के पीछे एक ऐसा बगीचा छिपा था जैसा उसने पहले कभी नहीं देखा था। वहाँ के फूल नरम, रंगीन रोशनी से चमकते थे, और चाँदी के पंखों वाली छोटी तितलियाँ हवा में नाचती थीं।
 
 जब माया ने दादी को इस खोज के बारे में बताया तो वे मुस्कुराईं। "यह बगीचा पीढ़ियों से हमारे परिवार में है," उन्होंने समझाया। "यह एक विशेष जगह है जहाँ प्रकृति अपना असली जादू दिखाती है।"
@@ -46,8 +42,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'समुद्र अन्वेषक',
     language: 'hi',
-    languageName: 'Hindi',
-    speechRecognitionLocale: 'hi-IN',
     text: `डॉ. प्रिया शर्मा ने अपने डाइविंग उपकरण को समायोजित किया जब अनुसंधान पनडुब्बी हिंद महासागर की अनखोजी गहराइयों में उतरी। चेन्नई की एक समुद्री जीवविज्ञानी के रूप में, उन्होंने पंद्रह साल समुद्री पारिस्थितिक तंत्र का अध्ययन करने में बिताए थे, लेकिन नीचे जो इंतजार कर रहा था उसके लिए कुछ भी तैयार नहीं किया था।
 
 पनडुब्बी की रोशनी ने किलोमीटर तक फैली एक शानदार पानी के नीचे की घाटी को रोशन किया। हर कल्पनीय रंग के जैव प्रकाशीय जीव अंधेरे में धड़कते और चमकते थे, रात के आकाश में बिखरे तारों जैसा एक मंत्रमुग्ध करने वाला दृश्य बनाते हुए।
@@ -63,8 +57,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'சிறிய பறவை',
     language: 'ta',
-    languageName: 'Tamil',
-    speechRecognitionLocale: 'ta-IN',
     text: `ஒரு காலத்தில், ஒரு சிறிய சிவப்பு பறவை இருந்தது. அந்த பறவை குளத்தின் அருகில் ஒரு பெரிய மரத்தில் வாழ்ந்தது. ஒவ்வொரு காலையும், பறவை ஒரு இனிமையான பாடல் பாடும். அந்த பாடல் மிகவும் அழகாக இருந்தது, எல்லா விலங்குகளும் நிறுத்தி கேட்கும்.
 
 ஒரு நாள், பறவை ஒரு சிறிய முயலை தனியாக உட்கார்ந்திருக்க கண்டது. முயல் சோகமாக தெரிந்தது. அன்பான பறவை கீழே பறந்து வந்து கேட்டது, "நீ ஏன் சோகமாக இருக்கிறாய்?" முயல் சொன்னது, "எனக்கு வீட்டுக்கு வழி தெரியவில்லை."
@@ -78,8 +70,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'மாய தோட்டம்',
     language: 'ta',
-    languageName: 'Tamil',
-    speechRecognitionLocale: 'ta-IN',
     text: `மாயா தன் பாட்டியின் வீட்டின் பின்புறத்தில் அசாதாரணமான ஒன்றை கண்டுபிடித்தாள். பழைய மர வேலியின் பின்னால் அவள் இதுவரை பார்த்திராத ஒரு தோட்டம் மறைந்திருந்தது. அங்குள்ள மலர்கள் மென்மையான, வண்ணமயமான ஒளியில் ஜொலித்தன, வெள்ளி இறக்கைகளுடன் சிறிய வண்ணத்துப்பூச்சிகள் காற்றில் நடனமாடின.
 
 மாயா இந்த கண்டுபிடிப்பை பாட்டியிடம் சொன்னபோது அவள் புன்னகைத்தாள். "இந்த தோட்டம் தலைமுறைகளாக நம் குடும்பத்தில் உள்ளது," அவள் விளக்கினாள். "இது இயற்கை தன் உண்மையான மாயத்தை காட்டும் சிறப்பு இடம்."
@@ -93,8 +83,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'கடல் ஆராய்ச்சியாளர்',
     language: 'ta',
-    languageName: 'Tamil',
-    speechRecognitionLocale: 'ta-IN',
     text: `டாக்டர் பிரியா சர்மா ஆராய்ச்சி நீர்மூழ்கி கப்பல் இந்திய பெருங்கடலின் ஆராயப்படாத ஆழங்களுக்கு இறங்கியபோது தன் டைவிங் உபகரணங்களை சரிசெய்தார். சென்னையை சேர்ந்த கடல் உயிரியலாளராக, அவர் பதினைந்து ஆண்டுகள் கடல் சூழல் அமைப்புகளை படிப்பதில் செலவழித்தார், ஆனால் கீழே என்ன காத்திருந்தது என்பதற்கு எதுவும் அவரை தயார்படுத்தவில்லை.
 
 நீர்மூழ்கி கப்பலின் விளக்குகள் கிலோமீட்டர்கள் நீண்ட ஒரு அற்புதமான நீருக்கடியில் பள்ளத்தாக்கை ஒளிரச் செய்தன. ஒவ்வொரு கற்பனைக்கும் அப்பாற்பட்ட வண்ணங்களில் உயிர் ஒளிர் உயிரினங்கள் இருளில் துடித்து ஒளிர்ந்தன, இரவு வானத்தில் சிதறிய நட்சத்திரங்களை போன்ற ஒரு மயக்கும் காட்சியை உருவாக்கின.
@@ -110,8 +98,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'చిన్న పక్షి',
     language: 'te',
-    languageName: 'Telugu',
-    speechRecognitionLocale: 'te-IN',
     text: `ఒకప్పుడు ఒక చిన్న ఎర్ర పక్షి ఉండేది. ఆ పక్షి చెరువు దగ్గర పెద్ద చెట్టులో నివసించేది. ప్రతి ఉదయం ఆ పక్షి ఒక మధురమైన పాట పాడేది. ఆ పాట చాలా అందంగా ఉండేది, అన్ని జంతువులు ఆగి వినేవి.
 
 ఒక రోజు పక్షి ఒక చిన్న కుందేలు ఒంటరిగా కూర్చోని ఉండటం చూసింది. కుందేలు బాధగా కనిపించింది. దయగల పక్షి కిందకు ఎగిరి వచ్చి అడిగింది, "నీకు బాధ ఎందుకు?" కుందేలు చెప్పింది, "నాకు ఇంటికి దారి తెలియడం లేదు."
@@ -125,8 +111,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'మాయా తోట',
     language: 'te',
-    languageName: 'Telugu',
-    speechRecognitionLocale: 'te-IN',
     text: `మాయ తన నానమ్మ ఇంటి వెనుక అసాధారణమైనది ఏదో కనుగొన్నది. పాత చెక్క కంచె వెనుక ఆమె ఇంతకు ముందెప్పుడూ చూడని ఒక తోట దాగి ఉంది. అక్కడి పూలు మృదువైన, రంగుల కాంతితో మెరుస్తున్నాయి, వెండి రెక్కలతో చిన్న సీతాకోకచిలుకలు గాలిలో నాట్యం చేస్తున్నాయి.
 
 మాయ ఈ ఆవిష్కరణ గురించి నానమ్మకు చెప్పినప్పుడు ఆమె నవ్వింది. "ఈ తోట తరతరాలుగా మన కుటుంబంలో ఉంది," ఆమె వివరించింది. "ఇది ప్రకృతి తన నిజమైన మాయాజాలాన్ని చూపించే ప్రత్యేక స్థలం."
@@ -140,8 +124,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'సముద్ర అన్వేషకుడు',
     language: 'te',
-    languageName: 'Telugu',
-    speechRecognitionLocale: 'te-IN',
     text: `డాక్టర్ ప్రియ శర్మ పరిశోధన జలాంతర్గామి హిందూ మహాసముద్రం యొక్క అన్వేషించని లోతుల్లోకి దిగినప్పుడు తన డైవింగ్ పరికరాలను సర్దుకున్నారు. చెన్నై నుండి వచ్చిన సముద్ర జీవశాస్త్రవేత్తగా, ఆమె సముద్ర పర్యావరణ వ్యవస్థలను అధ్యయనం చేయడంలో పదిహేను సంవత్సరాలు గడిపారు, కానీ క్రింద ఏమి వేచి ఉందో దానికి ఏదీ ఆమెను సిద్ధం చేయలేదు.
 
 జలాంతర్గామి లైట్లు కిలోమీటర్ల దూరం విస్తరించి ఉన్న అద్భుతమైన నీటి అడుగు లోయను ప్రకాశవంతం చేశాయి. ప్రతి ఊహించగల రంగు యొక్క జీవప్రకాశ జీవులు చీకటిలో కంపించి మెరిసాయి, రాత్రి ఆకాశంలో చెల్లాచెదరుగా ఉన్న నక్షత్రాలను పోలి ఒక మంత్రముగ్ధ ప్రదర్శనను సృష్టించాయి.
@@ -157,8 +139,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'ಸಣ್ಣ ಹಕ್ಕಿ',
     language: 'kn',
-    languageName: 'Kannada',
-    speechRecognitionLocale: 'kn-IN',
     text: `ಒಂದು ಕಾಲದಲ್ಲಿ ಒಂದು ಸಣ್ಣ ಕೆಂಪು ಹಕ್ಕಿ ಇತ್ತು. ಆ ಹಕ್ಕಿ ಕೆರೆಯ ಬಳಿ ದೊಡ್ಡ ಮರದಲ್ಲಿ ವಾಸಿಸುತ್ತಿತ್ತು. ಪ್ರತಿ ಬೆಳಿಗ್ಗೆ ಹಕ್ಕಿ ಒಂದು ಸಿಹಿಯಾದ ಹಾಡು ಹಾಡುತ್ತಿತ್ತು. ಆ ಹಾಡು ತುಂಬಾ ಚೆನ್ನಾಗಿತ್ತು, ಎಲ್ಲಾ ಪ್ರಾಣಿಗಳು ನಿಲ್ಲಿಸಿ ಕೇಳುತ್ತಿದ್ದವು.
 
 ಒಂದು ದಿನ ಹಕ್ಕಿ ಒಂದು ಸಣ್ಣ ಮೊಲವನ್ನು ಒಬ್ಬಂಟಿಯಾಗಿ ಕುಳಿತಿರುವುದನ್ನು ನೋಡಿತು. ಮೊಲ ದುಃಖವಾಗಿ ಕಾಣುತ್ತಿತ್ತು. ದಯಾಳು ಹಕ್ಕಿ ಕೆಳಗೆ ಹಾರಿ ಬಂದು ಕೇಳಿತು, "ನೀನು ಏಕೆ ದುಃಖವಾಗಿದ್ದೀಯಾ?" ಮೊಲ ಹೇಳಿತು, "ನನಗೆ ಮನೆಗೆ ದಾರಿ ತಿಳಿಯುತ್ತಿಲ್ಲ."
@@ -172,8 +152,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'ಮಾಯಾ ತೋಟ',
     language: 'kn',
-    languageName: 'Kannada',
-    speechRecognitionLocale: 'kn-IN',
     text: `ಮಾಯಾ ತನ್ನ ಅಜ್ಜಿಯ ಮನೆಯ ಹಿಂಭಾಗದಲ್ಲಿ ಅಸಾಧಾರಣವಾದ ಏನನ್ನೋ ಕಂಡುಹಿಡಿದಳು. ಹಳೆಯ ಮರದ ಬೇಲಿಯ ಹಿಂದೆ ಅವಳು ಈ ಹಿಂದೆಂದೂ ನೋಡದಿದ್ದ ಒಂದು ತೋಟ ಮರೆಯಾಗಿತ್ತು. ಅಲ್ಲಿನ ಹೂವುಗಳು ಮೃದುವಾದ, ಬಣ್ಣದ ಬೆಳಕಿನಿಂದ ಹೊಳೆಯುತ್ತಿದ್ದವು, ಬೆಳ್ಳಿ ರೆಕ್ಕೆಗಳೊಂದಿಗೆ ಸಣ್ಣ ಚಿಟ್ಟೆಗಳು ಗಾಳಿಯಲ್ಲಿ ನೃತ್ಯ ಮಾಡುತ್ತಿದ್ದವು.
 
 ಮಾಯಾ ಈ ಅನ್ವೇಷಣೆಯ ಬಗ್ಗೆ ಅಜ್ಜಿಗೆ ಹೇಳಿದಾಗ ಅವಳು ನಗುತ್ತಿದ್ದಳು. "ಈ ತೋಟ ತಲೆಮಾರುಗಳಿಂದ ನಮ್ಮ ಕುಟುಂಬದಲ್ಲಿದೆ," ಅವಳು ವಿವರಿಸಿದಳು. "ಇದು ಪ್ರಕೃತಿ ತನ್ನ ನಿಜವಾದ ಮಾಯಾಜಾಲವನ್ನು ತೋರಿಸುವ ವಿಶೇಷ ಸ್ಥಳ."
@@ -187,8 +165,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'ಸಮುದ್ರ ಅನ್ವೇಷಕ',
     language: 'kn',
-    languageName: 'Kannada',
-    speechRecognitionLocale: 'kn-IN',
     text: `ಡಾ. ಪ್ರಿಯಾ ಶರ್ಮಾ ಸಂಶೋಧನಾ ಜಲಾಂತರ್ಗಾಮಿ ಹಿಂದೂ ಮಹಾಸಾಗರದ ಅನ್ವೇಷಿಸದ ಆಳಕ್ಕೆ ಇಳಿದಾಗ ತನ್ನ ಡೈವಿಂಗ್ ಸಲಕರಣೆಗಳನ್ನು ಸರಿಹೊಂದಿಸಿದರು. ಚೆನ್ನೈನಿಂದ ಬಂದ ಸಮುದ್ರ ಜೀವಶಾಸ್ತ್ರಜ್ಞರಾಗಿ, ಅವರು ಸಮುದ್ರ ಪರಿಸರ ವ್ಯವಸ್ಥೆಗಳನ್ನು ಅಧ್ಯಯನ ಮಾಡಲು ಹದಿನೈದು ವರ್ಷಗಳನ್ನು ಕಳೆದರು, ಆದರೆ ಕೆಳಗೆ ಏನು ಕಾಯುತ್ತಿದೆಯೋ ಅದಕ್ಕೆ ಏನೂ ಅವರನ್ನು ಸಿದ್ಧಪಡಿಸಲಿಲ್ಲ.
 
 ಜಲಾಂತರ್ಗಾಮಿಯ ದೀಪಗಳು ಕಿಲೋಮೀಟರ್‌ಗಳ ದೂರ ವ್ಯಾಪಿಸಿದ ಅದ್ಭುತವಾದ ನೀರೊಳಗಿನ ಕಣಿವೆಯನ್ನು ಬೆಳಗಿಸಿದವು. ಪ್ರತಿ ಊಹಿಸಬಹುದಾದ ಬಣ್ಣದ ಜೀವಪ್ರಕಾಶ ಜೀವಿಗಳು ಕತ್ತಲೆಯಲ್ಲಿ ತುಡಿತ ಮತ್ತು ಹೊಳೆಯುತ್ತಿದ್ದವು, ರಾತ್ರಿ ಆಕಾಶದಲ್ಲಿ ಚೆಲ್ಲಾಪಿಲ್ಲಿಯಾಗಿರುವ ನಕ್ಷತ್ರಗಳನ್ನು ಹೋಲುವ ಮಂತ್ರಮುಗ್ಧ ಪ್ರದರ್ಶನವನ್ನು ಸೃಷ್ಟಿಸಿದವು.
@@ -204,8 +180,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'ছোট পাখি',
     language: 'bn',
-    languageName: 'Bengali',
-    speechRecognitionLocale: 'bn-IN',
     text: `একসময় একটা ছোট লাল পাখি ছিল। সেই পাখিটা পুকুরের কাছে একটা বড় গাছে থাকত। প্রতিদিন সকালে পাখিটা একটা মিষ্টি গান গাইত। সেই গান এত সুন্দর ছিল যে সব জন্তুরা থেমে শুনত।
 
 একদিন পাখিটা দেখল একটা ছোট খরগোশ একা বসে আছে। খরগোশটা দুঃখী দেখাচ্ছিল। দয়ালু পাখি নিচে উড়ে এসে জিজ্ঞেস করল, "তুমি কেন দুঃখী?" খরগোশ বলল, "আমি বাড়ির পথ ভুলে গেছি।"
@@ -219,8 +193,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'মায়া বাগান',
     language: 'bn',
-    languageName: 'Bengali',
-    speechRecognitionLocale: 'bn-IN',
     text: `মায়া তার ঠাকুমার বাড়ির পিছনে অসাধারণ কিছু খুঁজে পেল। পুরনো কাঠের বেড়ার পিছনে লুকিয়ে ছিল এমন একটা বাগান যা সে আগে কখনো দেখেনি। সেখানকার ফুলগুলো নরম, রঙিন আলোতে জ্বলজ্বল করছিল, রুপোলি ডানাওয়ালা ছোট প্রজাপতিরা বাতাসে নাচছিল।
 
 যখন মায়া ঠাকুমাকে এই আবিষ্কারের কথা বলল তখন তিনি হাসলেন। "এই বাগান বহু প্রজন্ম ধরে আমাদের পরিবারে আছে," তিনি বোঝালেন। "এটা একটা বিশেষ জায়গা যেখানে প্রকৃতি তার আসল জাদু দেখায়।"
@@ -234,8 +206,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'সমুদ্র অন্বেষক',
     language: 'bn',
-    languageName: 'Bengali',
-    speechRecognitionLocale: 'bn-IN',
     text: `ডঃ প্রিয়া শর্মা তাঁর ডাইভিং সরঞ্জাম ঠিক করলেন যখন গবেষণা সাবমেরিন ভারত মহাসাগরের অনাবিষ্কৃত গভীরতায় নামল। চেন্নাইয়ের একজন সামুদ্রিক জীববিজ্ঞানী হিসেবে, তিনি পনেরো বছর সামুদ্রিক পরিবেশ অধ্যয়নে কাটিয়েছেন, কিন্তু নিচে যা অপেক্ষা করছিল তার জন্য কিছুই তাঁকে প্রস্তুত করেনি।
 
 সাবমেরিনের আলো কিলোমিটার জুড়ে বিস্তৃত একটি অসাধারণ জলের নিচের উপত্যকা আলোকিত করল। প্রতিটি কল্পনাযোগ্য রঙের জীবপ্রভা জীবেরা অন্ধকারে স্পন্দিত হচ্ছিল এবং জ্বলছিল, রাতের আকাশে ছড়িয়ে থাকা তারার মতো এক মন্ত্রমুগ্ধ দৃশ্য তৈরি করছিল।
@@ -251,8 +221,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: 'K-1',
     title: 'लहान पक्षी',
     language: 'mr',
-    languageName: 'Marathi',
-    speechRecognitionLocale: 'mr-IN',
     text: `एकदा एक लहान लाल पक्षी होता. तो पक्षी तलावाजवळ एका मोठ्या झाडावर राहायचा. प्रत्येक सकाळी पक्षी एक गोड गाणे गायचा. ते गाणे इतके सुंदर होते की सगळे प्राणी थांबून ऐकायचे.
 
 एक दिवस पक्ष्याने एक लहान ससा एकटा बसलेला पाहिला. ससा दुःखी दिसत होता. दयाळू पक्षी खाली उडून आला आणि विचारले, "तू दुःखी का आहेस?" सशाने सांगितले, "मला घरी जाण्याचा रस्ता माहीत नाही."
@@ -266,8 +234,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '2-3',
     title: 'जादूची बाग',
     language: 'mr',
-    languageName: 'Marathi',
-    speechRecognitionLocale: 'mr-IN',
     text: `मायाला तिच्या आजीच्या घराच्या मागे काहीतरी असामान्य सापडले. जुन्या लाकडी कुंपणाच्या मागे एक बाग लपलेली होती जी तिने आधी कधीच पाहिली नव्हती. तिथली फुले मऊ, रंगीत प्रकाशाने चमकत होती, चांदीच्या पंखांची लहान फुलपाखरे हवेत नाचत होती.
 
 जेव्हा मायाने आजीला या शोधाबद्दल सांगितले तेव्हा त्या हसल्या. "ही बाग पिढ्यानपिढ्या आपल्या कुटुंबात आहे," त्यांनी समजावून सांगितले. "ही एक खास जागा आहे जिथे निसर्ग आपली खरी जादू दाखवतो."
@@ -281,8 +247,6 @@ export const regionalPassages: RegionalPassage[] = [
     grade: '4-5',
     title: 'समुद्र संशोधक',
     language: 'mr',
-    languageName: 'Marathi',
-    speechRecognitionLocale: 'mr-IN',
     text: `डॉ. प्रिया शर्मा यांनी त्यांची डायव्हिंग उपकरणे समायोजित केली जेव्हा संशोधन पाणबुडी हिंद महासागराच्या अनपेक्षित खोलीत उतरली. चेन्नईच्या सागरी जीवशास्त्रज्ञ म्हणून, त्यांनी पंधरा वर्षे सागरी परिसंस्थांचा अभ्यास करण्यात घालवली होती, पण खाली जे वाट पाहत होते त्यासाठी काहीही त्यांना तयार करू शकले नाही.
 
 पाणबुडीच्या दिव्यांनी किलोमीटरपर्यंत पसरलेली एक अद्भुत पाण्याखालील दरी प्रकाशित केली. प्रत्येक कल्पनीय रंगाचे जैवप्रकाशी जीव अंधारात स्पंदित होत आणि चमकत होते, रात्रीच्या आकाशात विखुरलेल्या ताऱ्यांसारखे मंत्रमुग्ध करणारे दृश्य तयार करत होते.
@@ -294,45 +258,14 @@ export const regionalPassages: RegionalPassage[] = [
 ];
 
 // Get regional passage by language and grade
-export function getRegionalPassageForGrade(language: 'hi' | 'ta' | 'te' | 'kn' | 'bn' | 'mr', grade: string): RegionalPassage {
-  const gradeLevel = grade.toLowerCase();
+export function getRegionalPassageForGrade(language: RegionalPassage['language'], grade: string): ReadingPassage {
+  const band = getGradeBand(grade);
   const languagePassages = regionalPassages.filter(p => p.language === language);
-  
-  if (gradeLevel === 'k' || gradeLevel === 'kindergarten' || gradeLevel === '1st') {
-    return languagePassages.find(p => p.grade === 'K-1') || languagePassages[0];
-  } else if (gradeLevel === '2nd' || gradeLevel === '3rd') {
-    return languagePassages.find(p => p.grade === '2-3') || languagePassages[1];
-  } else {
-    return languagePassages.find(p => p.grade === '4-5') || languagePassages[2];
-  }
+  return languagePassages.find(p => p.grade === band)
+    || languagePassages[GRADE_BANDS.indexOf(band)];
 }
 
 // Get all passages for a language
-export function getPassagesForLanguage(language: 'hi' | 'ta' | 'te' | 'kn' | 'bn' | 'mr'): RegionalPassage[] {
+export function getPassagesForLanguage(language: RegionalPassage['language']): RegionalPassage[] {
   return regionalPassages.filter(p => p.language === language);
 }
-
-// Get speech recognition locale for language
-export function getSpeechLocale(language: 'en' | 'hi' | 'ta' | 'te' | 'kn' | 'bn' | 'mr'): string {
-  const locales: Record<string, string> = {
-    en: 'en-US',
-    hi: 'hi-IN',
-    ta: 'ta-IN',
-    te: 'te-IN',
-    kn: 'kn-IN',
-    bn: 'bn-IN',
-    mr: 'mr-IN'
-  };
-  return locales[language] || 'en-US';
-}
-
-// Available languages
-export const availableLanguages = [
-  { code: 'en', name: 'English', nativeName: 'English' },
-  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
-  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
-  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
-  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
-  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
-  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' }
-] as const;
\ No newline at end of file
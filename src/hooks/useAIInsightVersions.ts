@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type { AIInsights } from '@/hooks/useAIInsights';
+import type { AIInsightVersion } from '@/lib/aiInsightVersions';
+
+export function useAIInsightVersions(diagnosticResultId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const versionsQuery = useQuery({
+    queryKey: ['ai-insight-versions', diagnosticResultId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ai_insight_versions')
+        .select('*')
+        .eq('diagnostic_result_id', diagnosticResultId!)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as AIInsightVersion[];
+    },
+    enabled: !!user && !!diagnosticResultId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['ai-insight-versions', diagnosticResultId] });
+
+  const saveEdits = useMutation({
+    mutationFn: async ({ versionId, insights }: { versionId: string; insights: AIInsights }) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('ai_insight_versions')
+        .update({
+          edited_insights: insights as unknown as Json,
+          // edited_at is stamped by the database
+          edited_by: user.id,
+        })
+        .eq('id', versionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Edits saved');
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to save edits: ' + error.message);
+    },
+  });
+
+  const approveVersion = useMutation({
+    mutationFn: async (versionId: string) => {
+      const { error } = await supabase.rpc('approve_ai_insight_version', { _version_id: versionId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Version approved');
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to approve version: ' + error.message);
+    },
+  });
+
+  return {
+    versions: versionsQuery.data ?? [],
+    isLoading: versionsQuery.isLoading,
+    refetch: invalidate,
+    saveEdits,
+    approveVersion,
+  };
+}
@@ -1,17 +1,25 @@
 /**
  * AI Insights Hook
- * Calls the AI insights edge function to generate personalized recommendations
+ * Calls the AI insights edge function to generate personalized recommendations.
+ * When the function can't be reached or fails on the server the rule-based
+ * narrative is generated in the browser instead; those insights are not
+ * stored in the history. Rejected requests (4xx) are shown as errors.
  */
 
 import { useState, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import type { DiagnosticResult } from '@/types/diagnostic';
 import type { DyslexiaBiomarkers } from '@/hooks/useDyslexiaClassifier';
 import type { REMoDNaVMetrics } from '@/hooks/useREMoDNaVClassifier';
+import { generateRuleBasedInsights, type NarrativeLanguage } from '@/lib/analytics';
 import { logger } from '@/lib/logger';
 
 export interface AIInsights {
   summary: string;
+  // Only the rule-based engine splits findings this way; the model gives keyFindings alone
+  strengths?: string[];
+  concerns?: string[];
   keyFindings: string[];
   interventionStrategies: {
     title: string;
@@ -35,22 +43,55 @@ export interface AIInsights {
   confidence: number;
 }
 
+export interface GenerateInsightsOptions {
+  // Stores the result as a new version in the diagnostic result's history
+  diagnosticResultId?: string;
+  // Bypass the stored version and ask the model again
+  regenerate?: boolean;
+  // 'rules' uses the rule-based narrative templates instead of the model
+  engine?: InsightEngine;
+  // Language of the rule-based narrative
+  language?: NarrativeLanguage;
+}
+
+export type InsightEngine = 'model' | 'rules';
+
+// Where the shown insights came from; 'local' ones were built in the browser and not saved
+export type InsightSource = 'model' | 'fallback' | 'local';
+
 interface UseAIInsightsReturn {
   insights: AIInsights | null;
+  source: InsightSource | null;
   isLoading: boolean;
   error: string | null;
   generateInsights: (
     diagnosticResult: DiagnosticResult,
     biomarkers?: DyslexiaBiomarkers,
     remoDNavMetrics?: REMoDNaVMetrics,
-    studentInfo?: { name: string; grade: string; age?: number }
+    studentInfo?: { name: string; grade: string; age?: number },
+    options?: GenerateInsightsOptions
   ) => Promise<AIInsights | null>;
   regenerate: () => Promise<void>;
   clearInsights: () => void;
 }
 
+// The function's own error message for a rejected request, else null
+async function rejectionMessage(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  const response = error.context as Response;
+  if (response.status < 400 || response.status >= 500) return null;
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON; fall through to the status
+  }
+  return `Request rejected (${response.status})`;
+}
+
 export function useAIInsights(): UseAIInsightsReturn {
   const [insights, setInsights] = useState<AIInsights | null>(null);
+  const [source, setSource] = useState<InsightSource | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastParams, setLastParams] = useState<Parameters<UseAIInsightsReturn['generateInsights']> | null>(null);
@@ -59,11 +100,31 @@ export function useAIInsights(): UseAIInsightsReturn {
     diagnosticResult: DiagnosticResult,
     biomarkers?: DyslexiaBiomarkers,
     remoDNavMetrics?: REMoDNaVMetrics,
-    studentInfo?: { name: string; grade: string; age?: number }
+    studentInfo?: { name: string; grade: string; age?: number },
+    options?: GenerateInsightsOptions
   ): Promise<AIInsights | null> => {
     setIsLoading(true);
     setError(null);
-    setLastParams([diagnosticResult, biomarkers, remoDNavMetrics, studentInfo]);
+    setLastParams([diagnosticResult, biomarkers, remoDNavMetrics, studentInfo, options]);
+
+    const generateLocally = () => {
+      const local = generateRuleBasedInsights({
+        diagnosticResult,
+        biomarkers,
+        remoDNavMetrics,
+        student: studentInfo,
+        language: options?.language,
+      });
+      setInsights(local);
+      setSource('local');
+      return local;
+    };
+
+    if (!navigator.onLine) {
+      setError('You are offline');
+      setIsLoading(false);
+      return generateLocally();
+    }
 
     try {
       const { data, error: fnError } = await supabase.functions.invoke('ai-insights', {
@@ -72,10 +133,22 @@ export function useAIInsights(): UseAIInsightsReturn {
           biomarkers,
           remoDNavMetrics,
           studentInfo,
+          diagnosticResultId: options?.diagnosticResultId,
+          regenerate: options?.regenerate,
+          engine: options?.engine,
+          language: options?.language,
         },
       });
 
       if (fnError) {
+        const rejected = await rejectionMessage(fnError);
+        if (rejected) {
+          logger.error('AI Insights request rejected', fnError);
+          setError(rejected);
+          setInsights(null);
+          setSource(null);
+          return null;
+        }
         throw new Error(fnError.message || 'Failed to generate AI insights');
       }
 
@@ -84,12 +157,13 @@ export function useAIInsights(): UseAIInsightsReturn {
       }
 
       setInsights(data.insights);
+      setSource(data.version?.source ?? data.source ?? 'model');
       return data.insights;
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(message);
-      logger.error('AI Insights generation failed', err);
-      return null;
+      // Kept alongside the local insights so the panel can say why they are shown
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      logger.error('AI Insights generation failed, using rule-based narrative', err);
+      return generateLocally();
     } finally {
       setIsLoading(false);
     }
@@ -97,17 +171,20 @@ export function useAIInsights(): UseAIInsightsReturn {
 
   const regenerate = useCallback(async () => {
     if (lastParams) {
-      await generateInsights(...lastParams);
+      const [diagnosticResult, biomarkers, remoDNavMetrics, studentInfo, options] = lastParams;
+      await generateInsights(diagnosticResult, biomarkers, remoDNavMetrics, studentInfo, { ...options, regenerate: true });
     }
   }, [lastParams, generateInsights]);
 
   const clearInsights = useCallback(() => {
     setInsights(null);
+    setSource(null);
     setError(null);
   }, []);
 
   return {
     insights,
+    source,
     isLoading,
     error,
     generateInsights,
@@ -4,7 +4,8 @@ import { useAdvancedEyeTracking } from './useAdvancedEyeTracking';
 import { useUnifiedEyeTracking } from './useUnifiedEyeTracking';
 import { logger } from '@/lib/logger';
 
-type TrackingMethod = 'tensorflow' | 'mediapipe' | 'manual' | 'none';
+// 'provider' is whichever registered eye tracker useUnifiedEyeTracking connected
+type TrackingMethod = 'tensorflow' | 'provider' | 'manual' | 'none';
 
 interface AdaptiveTrackingState {
   activeMethod: TrackingMethod;
@@ -28,9 +29,9 @@ export function useAdaptiveTracking() {
   });
 
   const selectBestMethod = useCallback((): TrackingMethod => {
-    // On mobile or low-performance devices, use MediaPipe directly
+    // On mobile or low-performance devices, use the registered providers directly
     if (device.isMobile || !device.isHighPerformance) {
-      return 'mediapipe';
+      return 'provider';
     }
 
     // Desktop with good GPU: try TensorFlow.js first
@@ -39,7 +40,7 @@ export function useAdaptiveTracking() {
     }
 
     // Tablet or medium devices
-    return 'mediapipe';
+    return 'provider';
   }, [device]);
 
   const initialize = useCallback(async () => {
@@ -59,27 +60,28 @@ export function useAdaptiveTracking() {
         logger.info('Using TensorFlow.js eye tracking');
         return;
       } catch (error) {
-        logger.warn('TensorFlow.js failed, falling back to MediaPipe');
+        logger.warn('TensorFlow.js failed, falling back to the eye-tracker registry');
         setState(prev => ({ 
           ...prev, 
-          fallbackReason: 'TensorFlow.js initialization failed, using MediaPipe' 
+          fallbackReason: 'TensorFlow.js initialization failed, using the best available tracker' 
         }));
       }
     }
 
-    // Fallback to MediaPipe
+    // Fallback to the registered providers (Tobii, MediaPipe, WebGazer, ...)
     try {
-      await unifiedTracking.initialize();
+      const started = await unifiedTracking.initialize();
+      if (!started) throw new Error('No eye tracker could be started');
       setState({
-        activeMethod: 'mediapipe',
+        activeMethod: 'provider',
         isInitialized: true,
         isTracking: false,
         error: null,
         fallbackReason: method === 'tensorflow' ? 'Fallback from TensorFlow.js' : null,
       });
-      logger.info('Using MediaPipe eye tracking');
+      logger.info('Using registered eye tracker');
     } catch (error) {
-      logger.warn('MediaPipe failed, no eye tracking available');
+      logger.warn('No registered eye tracker started, no eye tracking available');
       setState({
         activeMethod: 'manual',
         isInitialized: false,
@@ -93,7 +95,7 @@ export function useAdaptiveTracking() {
   const startTracking = useCallback(() => {
     if (state.activeMethod === 'tensorflow') {
       advancedTracking.startTracking();
-    } else if (state.activeMethod === 'mediapipe') {
+    } else if (state.activeMethod === 'provider') {
       unifiedTracking.startTracking();
     }
     setState(prev => ({ ...prev, isTracking: true }));
@@ -102,7 +104,7 @@ export function useAdaptiveTracking() {
   const stopTracking = useCallback(() => {
     if (state.activeMethod === 'tensorflow') {
       advancedTracking.stopTracking();
-    } else if (state.activeMethod === 'mediapipe') {
+    } else if (state.activeMethod === 'provider') {
       unifiedTracking.stop();
     }
     setState(prev => ({ ...prev, isTracking: false }));
@@ -111,7 +113,7 @@ export function useAdaptiveTracking() {
   const reset = useCallback(() => {
     if (state.activeMethod === 'tensorflow') {
       advancedTracking.reset();
-    } else if (state.activeMethod === 'mediapipe') {
+    } else if (state.activeMethod === 'provider') {
       unifiedTracking.reset();
     }
   }, [state.activeMethod, advancedTracking, unifiedTracking]);
@@ -138,7 +140,7 @@ export function useAdaptiveTracking() {
         saccades: advancedTracking.saccades,
         metrics: advancedTracking.getMetrics(),
       };
-    } else if (state.activeMethod === 'mediapipe') {
+    } else if (state.activeMethod === 'provider') {
       return {
         currentGaze: unifiedTracking.currentGaze,
         gazeHistory: unifiedTracking.gazeData,
@@ -173,6 +175,7 @@ export function useAdaptiveTracking() {
     getData,
     // Expose raw tracking hooks for direct access if needed
     advancedTracking: state.activeMethod === 'tensorflow' ? advancedTracking : null,
-    unifiedTracking: state.activeMethod === 'mediapipe' ? unifiedTracking : null,
+    unifiedTracking: state.activeMethod === 'provider' ? unifiedTracking : null,
+    activeProvider: state.activeMethod === 'provider' ? unifiedTracking.activeBackend : null,
   };
 }
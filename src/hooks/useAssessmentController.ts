@@ -4,6 +4,8 @@ import { useSpeechRecognition } from './useSpeechRecognition';
 import { useCognitiveLoad } from './useCognitiveLoad';
 import { useHandwritingAnalysis } from './useHandwritingAnalysis';
 import { useDiagnosticEngine } from './useDiagnosticEngine';
+import { useGazeRecording } from './useGazeRecording';
+import { useReadingAudio } from './useReadingAudio';
 import { useAuth } from '@/contexts/AuthContext';
 import { getSpeechLocale, type SupportedLanguage } from '@/data/phoneticPatterns';
 import logger from '@/lib/logger';
@@ -18,6 +20,20 @@ import type {
   EyeTrackingDebugInfo,
   TrackingBackend
 } from '@/types/diagnostic';
+import {
+  analyzeMiscues,
+  computeEyeTrackingMetrics,
+  computeWordReading,
+  correctGazeDrift,
+  correctLineDrift,
+  validateDeviceCalibration,
+  type CalibrationValidationResult,
+  type DriftCorrectionAlgorithm,
+  type PassageLayout,
+  type SessionAnnotationType,
+  type SyntheticReaderConfig,
+} from '@/lib/analytics';
+import type { EyeTrackerPreference } from '@/lib/eyeTrackers';
 
 export type AssessmentStep = 
   | 'intro' 
@@ -48,19 +64,55 @@ interface UseAssessmentControllerOptions {
   studentAge?: number;
   studentGrade?: string;
   language?: SupportedLanguage;
-  onComplete?: (result: DiagnosticResult) => void;
+  // Text of the passage read aloud, for miscue analysis of the transcript
+  passageText?: string;
+  // Library passage version read, when one was picked instead of a built-in passage
+  passageVersionId?: string | null;
+  // Snap webcam fixations onto passage lines before scoring
+  driftCorrection?: DriftCorrectionAlgorithm | 'none';
+  // Eye-tracker provider id, kind or 'auto'
+  eyeTrackingProvider?: EyeTrackerPreference;
+  // Read the passage with a synthetic reader instead of the camera (demo mode)
+  syntheticReader?: boolean | Partial<SyntheticReaderConfig>;
+  // savedResultId is the diagnostic_results row, or null when nothing was saved
+  onComplete?: (result: DiagnosticResult, savedResultId: string | null) => void;
 }
 
 export function useAssessmentController(options: UseAssessmentControllerOptions = {}) {
-  const { studentId, studentGrade = 'default', language = 'en', onComplete } = options;
+  const {
+    studentId,
+    studentGrade = 'default',
+    language = 'en',
+    passageText,
+    passageVersionId = null,
+    driftCorrection = 'warp',
+    eyeTrackingProvider = 'auto',
+    syntheticReader = false,
+    onComplete,
+  } = options;
   
   // Auth hook for self-assessments
   const { user } = useAuth();
   
-  // All the hooks - using unified MediaPipe eye tracking
-  const eyeTracking = useUnifiedEyeTracking();
+  // Raw gaze and pupil samples from every backend, kept for replay and re-analysis
+  const gazeRecording = useGazeRecording();
+  // Microphone audio of the voice step, re-transcribed server-side after saving
+  const readingAudio = useReadingAudio();
+
+  // Measured passage, also what the synthetic reader reads once the text renders
+  const passageLayoutRef = useRef<PassageLayout | null>(null);
+  // Measured accuracy/precision from the validation step after calibration
+  const calibrationValidationRef = useRef<CalibrationValidationResult | null>(null);
+
+  // All the hooks - eye tracking through the provider registry
+  const eyeTracking = useUnifiedEyeTracking({
+    recorder: gazeRecording.recorder,
+    provider: syntheticReader ? 'synthetic' : eyeTrackingProvider,
+    providerSettings: typeof syntheticReader === 'object' ? { synthetic: syntheticReader } : undefined,
+    getLayout: () => passageLayoutRef.current,
+  });
   const speechRecognition = useSpeechRecognition({ language, grade: studentGrade });
-  const cognitiveLoad = useCognitiveLoad();
+  const cognitiveLoad = useCognitiveLoad({ recorder: gazeRecording.recorder });
   const handwritingAnalysis = useHandwritingAnalysis({ language });
   const diagnosticEngine = useDiagnosticEngine();
   
@@ -82,6 +134,7 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
   const [stallPosition, setStallPosition] = useState<{ x: number; y: number } | null>(null);
   const [stallDuration, setStallDuration] = useState(0);
   const wordPositionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
+  const voiceStartedAtRef = useRef<number | null>(null);
   
   // Update language dynamically
   const updateLanguage = useCallback((lang: SupportedLanguage, grade?: string) => {
@@ -98,21 +151,45 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     setStep('calibration');
   }, []);
   
+  // Start tracking for the validation targets shown after calibration
+  const beginCalibrationValidation = useCallback(async () => {
+    const started = await eyeTracking.initialize();
+    if (!started) return false;
+    await eyeTracking.startTracking();
+    return true;
+  }, [eyeTracking]);
+  
   // Calibration complete - start reading test with tracking
-  const handleCalibrationComplete = useCallback(async () => {
+  const handleCalibrationComplete = useCallback(async (validation: CalibrationValidationResult | null = null) => {
+    calibrationValidationRef.current = validation;
+    // Validation targets are not reading, so drop their gaze before the passage
+    eyeTracking.reset();
     eyeTracking.setIsCalibrated(true);
+    gazeRecording.start({ calibrated: true, language: currentLanguage, calibrationValidation: validation });
     await eyeTracking.initialize();
     await eyeTracking.startTracking(); // Actually start the tracking loop
     cognitiveLoad.startMonitoring();
     setStep('reading');
-  }, [eyeTracking, cognitiveLoad]);
+  }, [eyeTracking, cognitiveLoad, gazeRecording, currentLanguage]);
   
+  // Trackers that calibrate themselves (the synthetic reader, clinical hardware)
+  // skip the app's targets; their reported accuracy stands in for the validation
+  const handleDeviceCalibration = useCallback(async () => {
+    const calibration = (await eyeTracking.initialize()) ? await eyeTracking.calibrate() : null;
+    const validation = calibration
+      ? validateDeviceCalibration(calibration, { synthetic: !!syntheticReader })
+      : null;
+    await handleCalibrationComplete(validation);
+  }, [eyeTracking, syntheticReader, handleCalibrationComplete]);
+
   // Skip calibration
   const handleSkipCalibration = useCallback(async () => {
+    calibrationValidationRef.current = null;
+    gazeRecording.start({ calibrated: false, language: currentLanguage });
     await eyeTracking.initialize();
     cognitiveLoad.startMonitoring();
     setStep('reading');
-  }, [eyeTracking, cognitiveLoad]);
+  }, [eyeTracking, cognitiveLoad, gazeRecording, currentLanguage]);
   
   // Move to voice test
   const startVoiceTest = useCallback(() => {
@@ -123,18 +200,21 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     eyeTracking.stop();
     // Start speech recognition with correct locale
     const locale = getSpeechLocale(currentLanguage);
+    voiceStartedAtRef.current = Date.now();
     speechRecognition.start(locale);
+    void readingAudio.start();
     setStep('voice');
-  }, [eyeTracking, speechRecognition, currentLanguage]);
+  }, [eyeTracking, speechRecognition, readingAudio, currentLanguage]);
   
   // Move to handwriting test (optional)
   const startHandwritingTest = useCallback(() => {
     speechRecognition.stop();
+    void readingAudio.stop();
     const metrics = speechRecognition.getMetrics();
     setVoiceMetrics(metrics);
     
     setStep('handwriting');
-  }, [speechRecognition]);
+  }, [speechRecognition, readingAudio]);
   
   // Skip handwriting test
   const skipHandwritingTest = useCallback(() => {
@@ -159,7 +239,12 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     
     // Get final metrics
     const finalEyeMetrics = eyeMetrics || eyeTracking.getMetrics();
-    const finalVoiceMetrics = voiceMetrics || speechRecognition.getMetrics();
+    // Prosody measured from the voice itself replaces the transcript-timing estimate
+    const acousticProsody = await readingAudio.analyzeProsody();
+    const recognizedVoiceMetrics = voiceMetrics || speechRecognition.getMetrics();
+    const finalVoiceMetrics = acousticProsody
+      ? { ...recognizedVoiceMetrics, prosodyScore: acousticProsody.scores.overall }
+      : recognizedVoiceMetrics;
     const finalCognitiveMetrics = cognitiveLoad.getMetrics();
     const finalHandwritingMetrics = handwritingMetrics || {
       reversalCount: 0,
@@ -170,36 +255,84 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     
     // Stop all monitoring
     speechRecognition.stop();
+    void readingAudio.stop();
     eyeTracking.stop();
     cognitiveLoad.stopMonitoring();
+    if (voiceStartedAtRef.current) {
+      gazeRecording.recorder.setTranscript({
+        text: speechRecognition.transcript,
+        startedAt: voiceStartedAtRef.current,
+        stallEvents: speechRecognition.stallEvents,
+      });
+    }
+    gazeRecording.stop();
+    
+    // Snap drifting fixations onto the passage lines and measure the corrected
+    // trace; return sweeps no longer count as regressions
+    const passageLayout = passageLayoutRef.current;
+    const drift = passageLayout && driftCorrection !== 'none' && eyeTracking.fixations.length > 0
+      ? correctLineDrift(eyeTracking.fixations, passageLayout, { algorithm: driftCorrection })
+      : null;
+    const correctedEyeMetrics = drift
+      ? computeEyeTrackingMetrics(correctGazeDrift(eyeTracking.getGazeTrace(), drift), drift.fixations, drift.saccades)
+      : finalEyeMetrics;
     
     // Store metrics
-    setEyeMetrics(finalEyeMetrics);
+    setEyeMetrics(correctedEyeMetrics);
     setVoiceMetrics(finalVoiceMetrics);
     setCognitiveMetrics(finalCognitiveMetrics);
     
     // Calculate diagnostic result using the engine
     const diagnosticResult = diagnosticEngine.createDiagnosticResult(
-      finalEyeMetrics,
+      correctedEyeMetrics,
       finalVoiceMetrics,
       finalHandwritingMetrics,
       finalCognitiveMetrics
     );
+
+    // Map reading-step fixations onto the passage words
+    if (passageLayout && eyeTracking.fixations.length > 0) {
+      diagnosticResult.wordReading = computeWordReading(drift?.fixations ?? eyeTracking.fixations, passageLayout);
+    }
+    if (drift) {
+      diagnosticResult.driftCorrection = drift.summary;
+    }
+    if (calibrationValidationRef.current) {
+      diagnosticResult.calibrationValidation = calibrationValidationRef.current;
+    }
+    if (acousticProsody) {
+      diagnosticResult.acousticProsody = acousticProsody;
+    }
+    // Align what was read aloud with the passage; timed like words per minute, first to last word
+    if (passageText && speechRecognition.transcript.trim()) {
+      const timings = speechRecognition.wordTimings;
+      const readingMs = timings.length > 1 ? timings[timings.length - 1].timestamp - timings[0].timestamp : 0;
+      diagnosticResult.miscueAnalysis = analyzeMiscues(passageText, speechRecognition.transcript, readingMs);
+    }
     
     setResult(diagnosticResult);
     
     // Save to database for authenticated users
     // Works for both clinician assessments (with studentId) and self-assessments (without studentId)
+    let savedResultId: string | null = null;
     if (user) {
       try {
-        await diagnosticEngine.saveDiagnosticResult(
+        const gazeRecordingUploadId = await gazeRecording.upload(diagnosticResult.sessionId);
+        const readingAudioUploadId = await readingAudio.upload(diagnosticResult.sessionId, currentLanguage);
+        const saved = await diagnosticEngine.saveDiagnosticResult(
           studentId || null,  // null for self-assessments
           diagnosticResult.sessionId,
           diagnosticResult,
           eyeTracking.fixations,
-          eyeTracking.saccades
+          eyeTracking.saccades,
+          { gazeRecordingUploadId, passageLayout, readingAudioUploadId, passageVersionId }
         );
+        savedResultId = saved.assessmentId;
         logger.info('Diagnostic result saved successfully');
+        // Replaces the recogniser's timings and stalls with ones measured from the audio
+        if (readingAudioUploadId) {
+          void readingAudio.transcribe(saved.assessmentId);
+        }
       } catch (error) {
         logger.error('Failed to save diagnostic result', error);
       }
@@ -208,7 +341,7 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     setIsProcessing(false);
     setStep('results');
     
-    onComplete?.(diagnosticResult);
+    onComplete?.(diagnosticResult, savedResultId);
   }, [
     eyeMetrics,
     voiceMetrics,
@@ -217,7 +350,13 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     speechRecognition,
     cognitiveLoad,
     diagnosticEngine,
+    gazeRecording,
+    readingAudio,
+    currentLanguage,
     studentId,
+    passageText,
+    passageVersionId,
+    driftCorrection,
     user,
     onComplete
   ]);
@@ -228,6 +367,11 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     speechRecognition.reset();
     cognitiveLoad.reset();
     handwritingAnalysis.reset();
+    gazeRecording.reset();
+    readingAudio.reset();
+    voiceStartedAtRef.current = null;
+    passageLayoutRef.current = null;
+    calibrationValidationRef.current = null;
     
     setStep('intro');
     setEyeMetrics(null);
@@ -238,7 +382,18 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     setStallWord(null);
     setStallPosition(null);
     setStallDuration(0);
-  }, [eyeTracking, speechRecognition, cognitiveLoad, handwritingAnalysis]);
+  }, [eyeTracking, speechRecognition, cognitiveLoad, handwritingAnalysis, gazeRecording, readingAudio]);
+  
+  // Keep the passage layout for word-level measures and in the session recording for replay
+  const recordPassageLayout = useCallback((layout: PassageLayout) => {
+    passageLayoutRef.current = layout;
+    gazeRecording.recorder.setLayout(layout);
+  }, [gazeRecording.recorder]);
+
+  // Timestamped clinician note, stored with the session recording
+  const addSessionNote = useCallback((content: string, type: SessionAnnotationType = 'observation') => {
+    gazeRecording.annotate(content, type);
+  }, [gazeRecording]);
   
   // Register word position for gaze tutor
   const registerWordPosition = useCallback((word: string, position: { x: number; y: number }) => {
@@ -310,7 +465,8 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
       saccades: eyeTracking.saccades,
       getMetrics: eyeTracking.getMetrics,
       activeBackend: eyeTracking.activeBackend,
-      debugInfo: eyeTracking.debugInfo
+      debugInfo: eyeTracking.debugInfo,
+      subscribe: eyeTracking.subscribe
     },
     
     // Speech recognition passthrough
@@ -348,7 +504,9 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     
     // Actions
     startAssessment,
+    beginCalibrationValidation,
     handleCalibrationComplete,
+    handleDeviceCalibration,
     handleSkipCalibration,
     startVoiceTest,
     startHandwritingTest,
@@ -356,6 +514,8 @@ export function useAssessmentController(options: UseAssessmentControllerOptions
     handleHandwritingComplete,
     finishAssessment,
     resetAssessment,
-    registerWordPosition
+    registerWordPosition,
+    recordPassageLayout,
+    addSessionNote
   };
 }
@@ -248,11 +248,35 @@ export function useChunkedUpload(options: ChunkedUploadOptions = {}) {
     return data.uploads || [];
   }, []);
 
+  // Download a completed upload, reassembled from its chunks
+  const retrieveFile = useCallback(async (uploadId: string): Promise<ArrayBuffer> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chunked-upload?action=retrieve&uploadId=${encodeURIComponent(uploadId)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    return response.arrayBuffer();
+  }, []);
+
   return {
     uploadFile,
     uploadFiles,
     cancelUpload,
     getUploadsList,
+    retrieveFile,
     uploads,
     isUploading
   };
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useFaceMeshPupilTracking } from './useFaceMeshPupilTracking';
 import type { CognitiveLoadMetrics } from '@/types/diagnostic';
+import type { GazeRecorder } from '@/lib/analytics';
 
 interface PupilMeasurement {
   timestamp: number;
@@ -9,7 +10,12 @@ interface PupilMeasurement {
   averageSize: number;
 }
 
-export function useCognitiveLoad() {
+interface UseCognitiveLoadOptions {
+  // Forwarded to face-mesh pupil tracking for the session recording
+  recorder?: GazeRecorder;
+}
+
+export function useCognitiveLoad(options: UseCognitiveLoadOptions = {}) {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [currentLoad, setCurrentLoad] = useState<'low' | 'moderate' | 'high'>('low');
   const [localMeasurements, setLocalMeasurements] = useState<PupilMeasurement[]>([]);
@@ -19,7 +25,7 @@ export function useCognitiveLoad() {
   const overloadStartRef = useRef<number | null>(null);
   
   // Use real face-mesh pupil tracking
-  const faceMesh = useFaceMeshPupilTracking();
+  const faceMesh = useFaceMeshPupilTracking({ recorder: options.recorder });
   
   // Thresholds for cognitive load detection based on ETDD70 standards
   const DILATION_MODERATE_THRESHOLD = 1.15; // 15% increase from baseline
@@ -1,9 +1,20 @@
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
 import { useDatasetThresholds } from '@/hooks/useDatasetThresholds';
+import {
+  DEFAULT_DIAGNOSTIC_WEIGHTS,
+  calculateDyslexiaIndex as scoreDyslexiaIndex,
+  calculateADHDIndex as scoreADHDIndex,
+  calculateDysgraphiaIndex as scoreDysgraphiaIndex,
+  determineRiskLevel as scoreRiskLevel,
+  isClinicalGrade,
+  type DiagnosticWeights,
+  type PassageLayout,
+  type ThresholdLookup,
+} from '@/lib/analytics';
 import type { 
   EyeTrackingMetrics, 
   VoiceMetrics, 
@@ -59,118 +70,37 @@ const saccadeSchema = z.array(z.object({
   duration: z.number().optional(),
 })).max(10000); // Limit array size
 
-interface DiagnosticWeights {
-  eyeTracking: number;
-  voice: number;
-  handwriting: number;
-  cognitiveLoad: number;
+// Stored alongside a result when the session produced them
+export interface SaveDiagnosticResultOptions {
+  gazeRecordingUploadId?: string | null;
+  passageLayout?: PassageLayout | null;
+  readingAudioUploadId?: string | null;
+  // Library passage version read; null for built-in passages
+  passageVersionId?: string | null;
 }
 
-const DEFAULT_WEIGHTS: DiagnosticWeights = {
-  eyeTracking: 0.35,
-  voice: 0.30,
-  handwriting: 0.20,
-  cognitiveLoad: 0.15
-};
-
 export function useDiagnosticEngine() {
   const { user } = useAuth();
   const { getThreshold, getWeight, isDataDriven, isLoaded } = useDatasetThresholds();
 
+  const lookup = useMemo<ThresholdLookup>(
+    () => ({ getThreshold, getWeight, isDataDriven }),
+    [getThreshold, getWeight, isDataDriven]
+  );
+
   // Calculate Dyslexia Probability Index using weighted scoring
   const calculateDyslexiaIndex = useCallback((
     eyeMetrics: EyeTrackingMetrics,
     voiceMetrics: VoiceMetrics,
     handwritingMetrics: HandwritingMetrics,
-    weights: DiagnosticWeights = DEFAULT_WEIGHTS
-  ): number => {
-    // Eye tracking indicators (higher chaos/regressions = higher risk)
-    // Use data-driven thresholds when available for normalization
-    const chaosThreshold = getThreshold('dyslexia', 'chaos_index', 1);
-    const regressionNorm = getThreshold('dyslexia', 'regression_rate', 20);
-    const ficThreshold = getThreshold('dyslexia', 'fic_score', 1);
-
-    const eyeScore = (
-      (Math.min(eyeMetrics.chaosIndex / chaosThreshold, 1) * 0.3) +
-      (Math.min(eyeMetrics.regressionCount / regressionNorm, 1) * 0.25) +
-      (Math.min(eyeMetrics.fixationIntersectionCoefficient / ficThreshold, 1) * 0.25) +
-      (Math.min(eyeMetrics.prolongedFixations / 10, 1) * 0.2)
-    );
-
-    // Voice indicators (lower fluency = higher risk)
-    const stallPenalty = voiceMetrics.stallCount ? Math.min(voiceMetrics.stallCount / 5, 1) * 0.3 : 0;
-    const voiceScore = (
-      (1 - voiceMetrics.fluencyScore / 100) * 0.4 +
-      (1 - voiceMetrics.prosodyScore / 100) * 0.15 +
-      (Math.min(voiceMetrics.phonemicErrors / 10, 1) * 0.15) +
-      stallPenalty
-    );
-
-    // Handwriting indicators
-    const handwritingScore = (
-      (Math.min(handwritingMetrics.reversalCount / 5, 1) * 0.4) +
-      (handwritingMetrics.letterCrowding * 0.25) +
-      (handwritingMetrics.graphicInconsistency * 0.2) +
-      ((1 - handwritingMetrics.lineAdherence) * 0.15)
-    );
-
-    // Use data-driven weights if available
-    const dynamicWeights: DiagnosticWeights = isDataDriven.dyslexia ? {
-      eyeTracking: getWeight('dyslexia', 'fixation_duration_avg', weights.eyeTracking),
-      voice: weights.voice,
-      handwriting: weights.handwriting,
-      cognitiveLoad: weights.cognitiveLoad,
-    } : weights;
-
-    // Weighted combination
-    const totalScore = (
-      (eyeScore * dynamicWeights.eyeTracking) +
-      (voiceScore * dynamicWeights.voice) +
-      (handwritingScore * dynamicWeights.handwriting)
-    ) / (dynamicWeights.eyeTracking + dynamicWeights.voice + dynamicWeights.handwriting);
-
-    return Math.min(1, Math.max(0, totalScore));
-  }, [getThreshold, getWeight, isDataDriven]);
-
-  // Calculate ADHD Probability Index
-  const calculateADHDIndex = useCallback((
-    eyeMetrics: EyeTrackingMetrics,
-    cognitiveMetrics: CognitiveLoadMetrics
+    weights: DiagnosticWeights = DEFAULT_DIAGNOSTIC_WEIGHTS
   ): number => {
-    // ADHD indicators: chaotic scanpaths, stress, overload events
-    const attentionScore = (
-      (eyeMetrics.chaosIndex * 0.4) +
-      (Math.min(cognitiveMetrics.overloadEvents / 5, 1) * 0.3) +
-      (Math.min(cognitiveMetrics.stressIndicators / 10, 1) * 0.3)
-    );
+    return scoreDyslexiaIndex(eyeMetrics, voiceMetrics, handwritingMetrics, lookup, weights);
+  }, [lookup]);
 
-    return Math.min(1, Math.max(0, attentionScore));
-  }, []);
-
-  // Calculate Dysgraphia Probability Index
-  const calculateDysgraphiaIndex = useCallback((
-    handwritingMetrics: HandwritingMetrics
-  ): number => {
-    return Math.min(1, Math.max(0, (
-      (Math.min(handwritingMetrics.reversalCount / 5, 1) * 0.35) +
-      (handwritingMetrics.letterCrowding * 0.25) +
-      (handwritingMetrics.graphicInconsistency * 0.25) +
-      ((1 - handwritingMetrics.lineAdherence) * 0.15)
-    )));
-  }, []);
-
-  // Determine overall risk level
-  const determineRiskLevel = useCallback((
-    dyslexiaIndex: number,
-    adhdIndex: number,
-    dysgraphiaIndex: number
-  ): 'low' | 'moderate' | 'high' => {
-    const maxIndex = Math.max(dyslexiaIndex, adhdIndex, dysgraphiaIndex);
-    
-    if (maxIndex >= 0.6) return 'high';
-    if (maxIndex >= 0.3) return 'moderate';
-    return 'low';
-  }, []);
+  const calculateADHDIndex = useCallback(scoreADHDIndex, []);
+  const calculateDysgraphiaIndex = useCallback(scoreDysgraphiaIndex, []);
+  const determineRiskLevel = useCallback(scoreRiskLevel, []);
 
   // Create full diagnostic result
   const createDiagnosticResult = useCallback((
@@ -204,7 +134,13 @@ export function useDiagnosticEngine() {
     sessionId: string,
     result: DiagnosticResult,
     fixations: Fixation[],
-    saccades: Saccade[]
+    saccades: Saccade[],
+    {
+      gazeRecordingUploadId = null,
+      passageLayout = null,
+      readingAudioUploadId = null,
+      passageVersionId = null,
+    }: SaveDiagnosticResultOptions = {}
   ) => {
     if (!user) throw new Error('User not authenticated');
 
@@ -277,6 +213,18 @@ export function useDiagnosticEngine() {
         // Raw data
         fixation_data: safeFixations,
         saccade_data: safeSaccades,
+        gaze_recording_upload_id: gazeRecordingUploadId,
+        reading_audio_upload_id: readingAudioUploadId,
+        passage_version_id: passageVersionId,
+        word_reading_data: result.wordReading ? JSON.parse(JSON.stringify(result.wordReading)) : null,
+        passage_layout: passageLayout ? JSON.parse(JSON.stringify(passageLayout)) : null,
+        drift_correction: result.driftCorrection ? JSON.parse(JSON.stringify(result.driftCorrection)) : null,
+        calibration_validation: result.calibrationValidation
+          ? JSON.parse(JSON.stringify(result.calibrationValidation))
+          : null,
+        screening_only: !isClinicalGrade(result.calibrationValidation),
+        miscue_analysis: result.miscueAnalysis ? JSON.parse(JSON.stringify(result.miscueAnalysis)) : null,
+        acoustic_prosody: result.acousticProsody ? JSON.parse(JSON.stringify(result.acousticProsody)) : null,
       }])
       .select()
       .single();
@@ -2,19 +2,27 @@ import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import type { EyeTrackerPreference } from '@/lib/eyeTrackers';
 
-export type EyeTrackingProvider = 'auto' | 'webcam' | 'tobii';
+// 'auto', a tracker kind such as 'webcam', or a registered provider id such as 'tobii'
+export type EyeTrackingProvider = EyeTrackerPreference;
 
 export interface EyeTrackingSettings {
   preferred_provider: EyeTrackingProvider;
   tobii_enabled: boolean;
   calibration_points: number;
+  // Calibration validation: sessions above this accuracy (degrees) fail
+  validation_max_accuracy: number;
+  // Failed validation blocks the session instead of only flagging it
+  block_failed_validation: boolean;
 }
 
 const DEFAULT_SETTINGS: EyeTrackingSettings = {
   preferred_provider: 'auto',
   tobii_enabled: false,
-  calibration_points: 9
+  calibration_points: 9,
+  validation_max_accuracy: 3.5,
+  block_failed_validation: true
 };
 
 export function useEyeTrackingSettings() {
@@ -43,9 +51,17 @@ export function useEyeTrackingSettings() {
         if (data?.eye_tracking_settings && typeof data.eye_tracking_settings === 'object') {
           const rawSettings = data.eye_tracking_settings as Record<string, unknown>;
           setSettings({
-            preferred_provider: (rawSettings.preferred_provider as EyeTrackingProvider) || DEFAULT_SETTINGS.preferred_provider,
+            preferred_provider: typeof rawSettings.preferred_provider === 'string'
+              ? rawSettings.preferred_provider
+              : DEFAULT_SETTINGS.preferred_provider,
             tobii_enabled: typeof rawSettings.tobii_enabled === 'boolean' ? rawSettings.tobii_enabled : DEFAULT_SETTINGS.tobii_enabled,
-            calibration_points: typeof rawSettings.calibration_points === 'number' ? rawSettings.calibration_points : DEFAULT_SETTINGS.calibration_points
+            calibration_points: typeof rawSettings.calibration_points === 'number' ? rawSettings.calibration_points : DEFAULT_SETTINGS.calibration_points,
+            validation_max_accuracy: typeof rawSettings.validation_max_accuracy === 'number'
+              ? rawSettings.validation_max_accuracy
+              : DEFAULT_SETTINGS.validation_max_accuracy,
+            block_failed_validation: typeof rawSettings.block_failed_validation === 'boolean'
+              ? rawSettings.block_failed_validation
+              : DEFAULT_SETTINGS.block_failed_validation
           });
         }
       } catch (error) {
@@ -100,6 +116,11 @@ export function useEyeTrackingSettings() {
     updateSettings({ calibration_points: points });
   }, [updateSettings]);
 
+  // Set calibration validation threshold and policy
+  const setValidationPolicy = useCallback((maxAccuracy: number, blockFailed: boolean) => {
+    updateSettings({ validation_max_accuracy: maxAccuracy, block_failed_validation: blockFailed });
+  }, [updateSettings]);
+
   return {
     settings,
     isLoading,
@@ -107,6 +128,7 @@ export function useEyeTrackingSettings() {
     updateSettings,
     setPreferredProvider,
     setTobiiEnabled,
-    setCalibrationPoints
+    setCalibrationPoints,
+    setValidationPolicy
   };
 }
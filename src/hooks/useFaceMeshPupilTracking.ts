@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type { CognitiveLoadMetrics } from '@/types/diagnostic';
+import type { GazeRecorder } from '@/lib/analytics';
 
 interface PupilMeasurement {
   timestamp: number;
@@ -23,7 +24,13 @@ const RIGHT_IRIS_INDICES = [473, 474, 475, 476, 477];
 const LEFT_EYE_INDICES = [33, 133, 160, 159, 158, 144, 145, 153];
 const RIGHT_EYE_INDICES = [362, 263, 387, 386, 385, 373, 374, 380];
 
-export function useFaceMeshPupilTracking() {
+interface UseFaceMeshPupilTrackingOptions {
+  // Receives every pupil measurement as a pupil-only sample for the session recording
+  recorder?: GazeRecorder;
+}
+
+export function useFaceMeshPupilTracking(options: UseFaceMeshPupilTrackingOptions = {}) {
+  const { recorder } = options;
   const [isInitialized, setIsInitialized] = useState(false);
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [currentLoad, setCurrentLoad] = useState<'low' | 'moderate' | 'high'>('low');
@@ -163,6 +170,18 @@ export function useFaceMeshPupilTracking() {
       rightIrisRatio: rightRatio
     };
     
+    recorder?.push({
+      timestamp: measurement.timestamp,
+      source: 'facemesh-pupil',
+      x: NaN,
+      y: NaN,
+      leftPupil: measurement.leftPupilSize,
+      rightPupil: measurement.rightPupilSize,
+      gazeValid: false,
+      leftEyeValid: leftRatio > 0,
+      rightEyeValid: rightRatio > 0,
+    });
+
     setMeasurements(prev => [...prev.slice(-300), measurement]);
     
     // Establish baseline from first 30 measurements
@@ -221,7 +240,7 @@ export function useFaceMeshPupilTracking() {
     } else {
       checkBiometricConditions(landmarks);
     }
-  }, [measurements, calculatePupilIrisRatio, checkBiometricConditions]);
+  }, [measurements, calculatePupilIrisRatio, checkBiometricConditions, recorder]);
 
   const initialize = useCallback(async (video: HTMLVideoElement, canvas?: HTMLCanvasElement) => {
     videoRef.current = video;
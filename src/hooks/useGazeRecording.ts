@@ -0,0 +1,96 @@
+/**
+ * Gaze Recording Hook
+ * Owns the session's raw gaze recorder, and uploads/downloads .nrxg
+ * recordings through the chunked-upload edge function
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useChunkedUpload } from '@/hooks/useChunkedUpload';
+import { logger } from '@/lib/logger';
+import {
+  createGazeRecorder,
+  encodeGazeRecording,
+  decodeGazeRecording,
+  GAZE_RECORDING_EXTENSION,
+  GAZE_RECORDING_MIME_TYPE,
+  GAZE_RECORDING_VERSION,
+  type GazeRecorder,
+  type GazeRecording,
+  type SessionAnnotationType,
+} from '@/lib/analytics';
+
+export function useGazeRecording() {
+  const recorderRef = useRef<GazeRecorder | null>(null);
+  if (!recorderRef.current) {
+    recorderRef.current = createGazeRecorder();
+  }
+  const recorder = recorderRef.current;
+
+  const [isRecording, setIsRecording] = useState(false);
+  const { uploadFile, retrieveFile, isUploading } = useChunkedUpload();
+
+  const start = useCallback((metadata: Record<string, unknown> = {}) => {
+    recorder.start({
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      metadata,
+    });
+    setIsRecording(true);
+  }, [recorder]);
+
+  const stop = useCallback((): GazeRecording => {
+    const recording = recorder.stop();
+    setIsRecording(false);
+    return recording;
+  }, [recorder]);
+
+  // Encode the finished recording and upload it; returns the chunked upload id
+  const upload = useCallback(async (sessionId: string): Promise<string | null> => {
+    recorder.setSessionId(sessionId);
+    const recording = recorder.stop();
+    setIsRecording(false);
+
+    if (recording.samples.length === 0) return null;
+
+    try {
+      const bytes = await encodeGazeRecording(recording);
+      const file = new File([bytes], `${sessionId}${GAZE_RECORDING_EXTENSION}`, { type: GAZE_RECORDING_MIME_TYPE });
+
+      return await uploadFile(file, {
+        kind: 'gaze_recording',
+        sessionId,
+        formatVersion: GAZE_RECORDING_VERSION,
+        sampleCount: recording.samples.length,
+        sources: [...new Set(recording.samples.map(s => s.source))],
+      });
+    } catch (error) {
+      logger.error('Failed to upload gaze recording', error);
+      return null;
+    }
+  }, [recorder, uploadFile]);
+
+  // Download and decode a stored recording
+  const loadRecording = useCallback(async (uploadId: string): Promise<GazeRecording> => {
+    return decodeGazeRecording(await retrieveFile(uploadId));
+  }, [retrieveFile]);
+
+  const annotate = useCallback((content: string, type: SessionAnnotationType = 'observation') => {
+    recorder.annotate({ content, type });
+  }, [recorder]);
+
+  const reset = useCallback(() => {
+    recorder.reset();
+    setIsRecording(false);
+  }, [recorder]);
+
+  return {
+    recorder,
+    isRecording,
+    isUploading,
+    start,
+    stop,
+    upload,
+    loadRecording,
+    annotate,
+    reset,
+  };
+}
@@ -0,0 +1,177 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  findBaselineResult,
+  type InterventionPlan,
+  type InterventionPlanStatus,
+  type InterventionStrategy,
+} from '@/lib/interventionPlans';
+
+const planSchema = z.object({
+  title: z.string().trim().min(1, 'Give the plan a title').max(200, 'Title must be less than 200 characters'),
+  goals: z.array(z.string().trim().min(1).max(500)).max(10, 'Keep it to 10 goals or fewer'),
+  sessionsPerWeek: z.number().int().min(1, 'At least one session a week').max(14),
+  minutesPerSession: z.number().int().min(5, 'Sessions must be at least 5 minutes').max(240),
+  responsibleStaff: z.string().trim().min(1, 'Name who delivers the sessions').max(200),
+  startedOn: z.string().date('Enter a start date'),
+  followUpOn: z.string().date('Enter a follow-up date'),
+}).refine(p => p.followUpOn > p.startedOn, { message: 'The follow-up must be after the start date' });
+
+const sessionSchema = z.object({
+  planId: z.string().uuid(),
+  heldOn: z.string().date('Enter the session date'),
+  durationMinutes: z.number().int().min(0).max(480),
+  attended: z.boolean(),
+  deliveredBy: z.string().trim().max(200).optional(),
+  notes: z.string().trim().max(2000, 'Notes must be less than 2000 characters').optional(),
+});
+
+export type NewInterventionPlan = z.input<typeof planSchema> & { strategies: InterventionStrategy[] };
+export type NewInterventionSession = z.input<typeof sessionSchema>;
+
+export function useInterventionPlans(studentId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const plansQuery = useQuery({
+    queryKey: ['intervention-plans', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('intervention_plans')
+        .select('*, sessions:intervention_sessions(*)')
+        .eq('student_id', studentId!)
+        .order('started_on', { ascending: false });
+
+      if (error) throw error;
+      return (data as unknown as InterventionPlan[]).map(plan => ({
+        ...plan,
+        sessions: [...plan.sessions].sort((a, b) => b.held_on.localeCompare(a.held_on)),
+      }));
+    },
+    enabled: !!user && !!studentId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['intervention-plans', studentId] });
+
+  const createPlan = useMutation({
+    mutationFn: async ({ strategies, ...plan }: NewInterventionPlan) => {
+      if (!user || !studentId) throw new Error('Not authenticated');
+      const { title, goals, sessionsPerWeek, minutesPerSession, responsibleStaff, startedOn, followUpOn } =
+        planSchema.parse(plan);
+
+      // Outcomes are measured from the last assessment before the plan began
+      const { data: results, error: resultsError } = await supabase
+        .from('diagnostic_results')
+        .select('id, created_at')
+        .eq('student_id', studentId);
+
+      if (resultsError) throw resultsError;
+
+      const { error } = await supabase.from('intervention_plans').insert({
+        student_id: studentId,
+        baseline_result_id: findBaselineResult(results, startedOn)?.id ?? null,
+        title,
+        goals,
+        strategies: strategies as unknown as Json,
+        sessions_per_week: sessionsPerWeek,
+        minutes_per_session: minutesPerSession,
+        responsible_staff: responsibleStaff,
+        started_on: startedOn,
+        follow_up_on: followUpOn,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Intervention plan created');
+    },
+    onError: (error) => {
+      toast.error('Failed to create plan: ' + error.message);
+    },
+  });
+
+  const updatePlan = useMutation({
+    mutationFn: async ({ planId, status, followUpOn }: {
+      planId: string;
+      status?: InterventionPlanStatus;
+      followUpOn?: string;
+    }) => {
+      const { error } = await supabase
+        .from('intervention_plans')
+        .update({ status, follow_up_on: followUpOn })
+        .eq('id', planId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to update plan: ' + error.message);
+    },
+  });
+
+  const deletePlan = useMutation({
+    mutationFn: async (planId: string) => {
+      const { error } = await supabase.from('intervention_plans').delete().eq('id', planId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Plan deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete plan: ' + error.message);
+    },
+  });
+
+  const logSession = useMutation({
+    mutationFn: async (session: NewInterventionSession) => {
+      if (!user) throw new Error('Not authenticated');
+      const { planId, heldOn, durationMinutes, attended, deliveredBy, notes } = sessionSchema.parse(session);
+      const { error } = await supabase.from('intervention_sessions').insert({
+        plan_id: planId,
+        held_on: heldOn,
+        duration_minutes: attended ? durationMinutes : 0,
+        attended,
+        delivered_by: deliveredBy || null,
+        notes: notes || null,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Session logged');
+    },
+    onError: (error) => {
+      toast.error('Failed to log session: ' + error.message);
+    },
+  });
+
+  const removeSession = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase.from('intervention_sessions').delete().eq('id', sessionId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to remove session: ' + error.message);
+    },
+  });
+
+  return {
+    plans: plansQuery.data ?? [],
+    isLoading: plansQuery.isLoading,
+    createPlan,
+    updatePlan,
+    deletePlan,
+    logSession,
+    removeSession,
+  };
+}
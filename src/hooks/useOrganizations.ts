@@ -0,0 +1,259 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import {
+  accessibleStudentsFilter,
+  buildClassroomOptions,
+  type Classroom,
+  type Organization,
+  type OrganizationRole,
+  type School,
+} from '@/lib/organizations';
+
+/** Filter for `.or()` on students: the user's own plus those in classrooms they share */
+export async function fetchAccessibleStudentsFilter(userId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('get_accessible_classroom_ids');
+  if (error) throw error;
+  return accessibleStudentsFilter(userId, data ?? []);
+}
+
+const nameSchema = z.string().trim().min(1, 'Name is required').max(200, 'Name must be less than 200 characters');
+
+export interface OrganizationMember {
+  user_id: string;
+  role: OrganizationRole;
+  email: string | null;
+  display_name: string | null;
+}
+
+export interface ClassroomTeacher {
+  classroom_id: string;
+  user_id: string;
+}
+
+interface OrganizationData {
+  organizations: Organization[];
+  roles: Record<string, OrganizationRole>;
+  schools: School[];
+  classrooms: Classroom[];
+  classroomTeachers: ClassroomTeacher[];
+}
+
+const EMPTY: OrganizationData = { organizations: [], roles: {}, schools: [], classrooms: [], classroomTeachers: [] };
+
+export function useOrganizations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const organizationsQuery = useQuery({
+    queryKey: ['organizations'],
+    queryFn: async (): Promise<OrganizationData> => {
+      // RLS limits every query below to organizations the user belongs to
+      const [orgs, memberships, schools, classrooms, teachers] = await Promise.all([
+        supabase.from('organizations').select('*').order('name'),
+        supabase.from('organization_members').select('organization_id, role').eq('user_id', user!.id),
+        supabase.from('schools').select('*').order('name'),
+        supabase.from('classrooms').select('*').order('name'),
+        supabase.from('classroom_teachers').select('classroom_id, user_id'),
+      ]);
+
+      const error = orgs.error || memberships.error || schools.error || classrooms.error || teachers.error;
+      if (error) throw error;
+
+      return {
+        organizations: orgs.data,
+        roles: Object.fromEntries(memberships.data.map(m => [m.organization_id, m.role])),
+        schools: schools.data,
+        classrooms: classrooms.data,
+        classroomTeachers: teachers.data,
+      };
+    },
+    enabled: !!user,
+  });
+
+  const data = organizationsQuery.data ?? EMPTY;
+  const classroomOptions = useMemo(
+    () => buildClassroomOptions(data.schools, data.classrooms),
+    [data.schools, data.classrooms]
+  );
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['organizations'] });
+
+  const createOrganization = useMutation({
+    mutationFn: async (name: string) => {
+      if (!user) throw new Error('Not authenticated');
+      // The id is generated here because the row is only readable once the
+      // creator's admin membership exists
+      const id = crypto.randomUUID();
+      const { error } = await supabase
+        .from('organizations')
+        .insert({ id, name: nameSchema.parse(name), created_by: user.id });
+
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Organization created');
+    },
+    onError: (error) => {
+      toast.error('Failed to create organization: ' + error.message);
+    },
+  });
+
+  const createSchool = useMutation({
+    mutationFn: async ({ organizationId, name }: { organizationId: string; name: string }) => {
+      const { data: school, error } = await supabase
+        .from('schools')
+        .insert({ organization_id: organizationId, name: nameSchema.parse(name) })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return school;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('School added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add school: ' + error.message);
+    },
+  });
+
+  const createClassroom = useMutation({
+    mutationFn: async ({ schoolId, name, grade }: { schoolId: string; name: string; grade?: string | null }) => {
+      const { data: classroom, error } = await supabase
+        .from('classrooms')
+        .insert({ school_id: schoolId, name: nameSchema.parse(name), grade: grade || null })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return classroom;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Classroom added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add classroom: ' + error.message);
+    },
+  });
+
+  const addMember = useMutation({
+    mutationFn: async ({ organizationId, email, role }: { organizationId: string; email: string; role: OrganizationRole }) => {
+      const { data: userId, error } = await supabase.rpc('add_organization_member', {
+        _organization_id: organizationId,
+        _email: z.string().trim().email('Enter a valid email').parse(email),
+        _role: role,
+      });
+
+      if (error) throw error;
+      return userId;
+    },
+    onSuccess: (_userId, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+      toast.success('Member added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add member: ' + error.message);
+    },
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async ({ organizationId, userId }: { organizationId: string; userId: string }) => {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_result, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+      invalidate();
+      toast.success('Member removed');
+    },
+    onError: (error) => {
+      toast.error('Failed to remove member: ' + error.message);
+    },
+  });
+
+  const setClassroomTeacher = useMutation({
+    mutationFn: async ({ classroomId, userId, assigned }: { classroomId: string; userId: string; assigned: boolean }) => {
+      const { error } = assigned
+        ? await supabase.from('classroom_teachers').insert({ classroom_id: classroomId, user_id: userId })
+        : await supabase.from('classroom_teachers').delete().eq('classroom_id', classroomId).eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to update classroom teachers: ' + error.message);
+    },
+  });
+
+  // Bulk move between classes; null takes students out of any classroom
+  const moveStudents = useMutation({
+    mutationFn: async ({ studentIds, classroomId }: { studentIds: string[]; classroomId: string | null }) => {
+      if (studentIds.length === 0) return 0;
+      const { data: moved, error } = await supabase
+        .from('students')
+        .update({ classroom_id: classroomId })
+        .in('id', studentIds)
+        .select('id');
+
+      if (error) throw error;
+      return moved.length;
+    },
+    onSuccess: (moved, { studentIds }) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      if (moved < studentIds.length) {
+        toast.warning(`Moved ${moved} of ${studentIds.length} students. You can only move students you have access to.`);
+      } else {
+        toast.success(`Moved ${moved} student${moved === 1 ? '' : 's'}`);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to move students: ' + error.message);
+    },
+  });
+
+  return {
+    ...data,
+    classroomOptions,
+    isLoading: organizationsQuery.isLoading,
+    createOrganization,
+    createSchool,
+    createClassroom,
+    addMember,
+    removeMember,
+    setClassroomTeacher,
+    moveStudents,
+  };
+}
+
+export function useOrganizationMembers(organizationId: string | null) {
+  const membersQuery = useQuery({
+    queryKey: ['organization-members', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_organization_members', {
+        _organization_id: organizationId!,
+      });
+
+      if (error) throw error;
+      return data as OrganizationMember[];
+    },
+    enabled: !!organizationId,
+  });
+
+  return {
+    members: membersQuery.data ?? [],
+    isLoading: membersQuery.isLoading,
+  };
+}
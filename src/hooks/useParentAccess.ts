@@ -7,8 +7,9 @@ import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { logger } from '@/lib/logger';
+import type { ParentLinkedChild, ParentPortalData } from '@/lib/parentPortal';
 
-interface ParentStudentLink {
+export interface ParentStudentLink {
   id: string;
   student_id: string;
   parent_id: string | null;
@@ -16,6 +17,8 @@ interface ParentStudentLink {
   linked_by: string;
   linked_at: string;
   expires_at: string;
+  claimed_at: string | null;
+  revoked_at: string | null;
 }
 
 interface CreateLinkParams {
@@ -108,6 +111,8 @@ export function useParentAccess() {
   const validateAccessCode = useCallback(async (code: string): Promise<{
     valid: boolean;
     studentId?: string;
+    expired?: boolean;
+    expiresAt?: string;
   }> => {
     try {
       const { data, error } = await supabase.functions.invoke('parent-portal-access', {
@@ -121,7 +126,7 @@ export function useParentAccess() {
     }
   }, []);
 
-  const getPortalData = useCallback(async (accessCode: string) => {
+  const getPortalData = useCallback(async (accessCode: string): Promise<ParentPortalData | null> => {
     try {
       const { data, error } = await supabase.functions.invoke('parent-portal-access', {
         body: { accessCode, action: 'getData' },
@@ -135,6 +140,57 @@ export function useParentAccess() {
     }
   }, []);
 
+  // Revoke a parent's access; the parent loses the child from their account
+  const revokeLink = useCallback(async (linkId: string): Promise<boolean> => {
+    try {
+      const revokedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('parent_student_links')
+        .update({ revoked_at: revokedAt })
+        .eq('id', linkId);
+
+      if (error) throw error;
+      setLinks(prev => prev.map(link => link.id === linkId ? { ...link, revoked_at: revokedAt } : link));
+      toast({ title: 'Access revoked', description: 'This link no longer gives access to the student.' });
+      return true;
+    } catch (err) {
+      logger.error('Error revoking parent link', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to revoke access',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  // Claim a code into the signed-in user's parent account; returns the student id
+  const claimAccessCode = useCallback(async (accessCode: string): Promise<string | null> => {
+    try {
+      const { data, error } = await supabase.rpc('claim_parent_access_code', { _access_code: accessCode });
+      if (error) throw error;
+      toast({ title: 'Child added', description: 'You can now follow their progress from your account.' });
+      return data;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to claim access code';
+      logger.error('Error claiming access code', err);
+      toast({ title: 'Could not add child', description: message, variant: 'destructive' });
+      return null;
+    }
+  }, [toast]);
+
+  // Children linked to the signed-in parent; each call is audited server-side
+  const fetchLinkedChildren = useCallback(async (): Promise<ParentLinkedChild[]> => {
+    try {
+      const { data, error } = await supabase.rpc('get_parent_children');
+      if (error) throw error;
+      return (data ?? []) as unknown as ParentLinkedChild[];
+    } catch (err) {
+      logger.error('Error fetching linked children', err);
+      return [];
+    }
+  }, []);
+
   const getShareableUrl = useCallback((accessCode: string): string => {
     const baseUrl = window.location.origin;
     return `${baseUrl}/parent-portal?code=${accessCode}`;
@@ -148,6 +204,9 @@ export function useParentAccess() {
     fetchLinksForStudent,
     validateAccessCode,
     getPortalData,
+    revokeLink,
+    claimAccessCode,
+    fetchLinkedChildren,
     getShareableUrl,
     generateAccessCode,
   };
@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import type { Json } from '@/integrations/supabase/types';
+import { GRADE_BANDS } from '@/data/readingPassages';
+import type { LanguageCode } from '@/data/languages';
+import {
+  computeReadability,
+  getAuthoredPassages,
+  type LibraryPassage,
+} from '@/lib/passageLibrary';
+
+const questionSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['literal', 'inferential', 'vocabulary']),
+  prompt: z.string().trim().min(1, 'Every question needs a prompt').max(500, 'Questions must be less than 500 characters'),
+  answer: z.string().trim().max(500, 'Answers must be less than 500 characters'),
+});
+
+const passageDraftSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
+  text: z.string().trim().min(1, 'Passage text is required').max(10000, 'Passage must be less than 10,000 characters'),
+  gradeBand: z.enum(GRADE_BANDS),
+  difficulty: z.enum(['easy', 'medium', 'advanced']),
+  questions: z.array(questionSchema).max(20, 'Up to 20 questions per passage'),
+  changeNote: z.string().trim().max(500).optional(),
+});
+
+export type PassageDraft = z.input<typeof passageDraftSchema>;
+
+// Readability is stored with each version, computed from exactly the text saved
+function versionRow(draft: PassageDraft, language: LanguageCode) {
+  const { title, text, gradeBand, difficulty, questions, changeNote } = passageDraftSchema.parse(draft);
+  const readability = computeReadability(text, language);
+  return {
+    title,
+    text,
+    grade_band: gradeBand,
+    difficulty,
+    questions: questions as unknown as Json,
+    word_count: readability.wordCount,
+    sentence_count: readability.sentenceCount,
+    syllables_per_word: readability.syllablesPerWord,
+    grade_level: readability.gradeLevel,
+    change_note: changeNote || null,
+  };
+}
+
+export function usePassageLibrary() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const libraryQuery = useQuery({
+    queryKey: ['passage-library'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reading_passages')
+        .select('*, versions:reading_passage_versions(*)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as unknown as LibraryPassage[]).map(p => ({
+        ...p,
+        versions: [...p.versions].sort((a, b) => b.version - a.version),
+      }));
+    },
+    enabled: !!user,
+    // An assessment picks its passage from this list; don't swap it mid-test
+    refetchOnWindowFocus: false,
+  });
+
+  const passages = useMemo(() => libraryQuery.data ?? [], [libraryQuery.data]);
+  const authoredPassages = useMemo(() => getAuthoredPassages(passages), [passages]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['passage-library'] });
+
+  const createPassage = useMutation({
+    mutationFn: async ({ language, draft }: { language: LanguageCode; draft: PassageDraft }) => {
+      if (!user) throw new Error('Not authenticated');
+      const row = versionRow(draft, language);
+
+      // The id is generated here so the first version can be inserted without reading the passage back
+      const id = crypto.randomUUID();
+      const { error } = await supabase
+        .from('reading_passages')
+        .insert({ id, language, created_by: user.id });
+
+      if (error) throw error;
+
+      const { error: versionError } = await supabase
+        .from('reading_passage_versions')
+        .insert({ ...row, passage_id: id, version: 1, created_by: user.id });
+
+      if (versionError) throw versionError;
+      return id;
+    },
+    onSuccess: () => {
+      toast.success('Passage saved as a draft');
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to save passage: ' + error.message);
+    },
+  });
+
+  // Edits never overwrite a version; each save adds the next draft
+  const saveVersion = useMutation({
+    mutationFn: async ({ passage, draft }: { passage: LibraryPassage; draft: PassageDraft }) => {
+      if (!user) throw new Error('Not authenticated');
+      const version = Math.max(0, ...passage.versions.map(v => v.version)) + 1;
+
+      const { error } = await supabase
+        .from('reading_passage_versions')
+        .insert({ ...versionRow(draft, passage.language), passage_id: passage.id, version, created_by: user.id });
+
+      if (error) throw error;
+      return version;
+    },
+    onSuccess: (version) => {
+      toast.success(`Saved as version ${version}`);
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to save version: ' + error.message);
+    },
+  });
+
+  const approveVersion = useMutation({
+    mutationFn: async (versionId: string) => {
+      const { error } = await supabase.rpc('approve_reading_passage_version', { _version_id: versionId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Version approved');
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to approve version: ' + error.message);
+    },
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async ({ passageId, archived }: { passageId: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('reading_passages')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', passageId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { archived }) => {
+      toast.success(archived ? 'Passage archived' : 'Passage restored');
+      return invalidate();
+    },
+    onError: (error) => {
+      toast.error('Failed to update passage: ' + error.message);
+    },
+  });
+
+  return {
+    passages,
+    authoredPassages,
+    isLoading: libraryQuery.isLoading,
+    createPassage,
+    saveVersion,
+    approveVersion,
+    setArchived,
+  };
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import type { ProgressAnnotation } from '@/lib/progressAnalytics';
+
+const annotationSchema = z.object({
+  label: z.string().trim().min(1, 'Describe the intervention').max(200, 'Label must be less than 200 characters'),
+  startedOn: z.string().date('Enter a start date'),
+  endedOn: z.string().date().nullable(),
+}).refine(a => !a.endedOn || a.endedOn >= a.startedOn, { message: 'End date is before the start date' });
+
+export type NewProgressAnnotation = z.input<typeof annotationSchema>;
+
+export function useProgressAnnotations(studentId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const annotationsQuery = useQuery({
+    queryKey: ['progress-annotations', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('student_progress_annotations')
+        .select('*')
+        .eq('student_id', studentId!)
+        .order('started_on');
+
+      if (error) throw error;
+      return data as ProgressAnnotation[];
+    },
+    enabled: !!user && !!studentId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['progress-annotations', studentId] });
+
+  const addAnnotation = useMutation({
+    mutationFn: async (annotation: NewProgressAnnotation) => {
+      if (!user || !studentId) throw new Error('Not authenticated');
+      const { label, startedOn, endedOn } = annotationSchema.parse(annotation);
+      const { error } = await supabase.from('student_progress_annotations').insert({
+        student_id: studentId,
+        label,
+        started_on: startedOn,
+        ended_on: endedOn,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Intervention added to the timeline');
+    },
+    onError: (error) => {
+      toast.error('Failed to add intervention: ' + error.message);
+    },
+  });
+
+  const removeAnnotation = useMutation({
+    mutationFn: async (annotationId: string) => {
+      const { error } = await supabase.from('student_progress_annotations').delete().eq('id', annotationId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to remove intervention: ' + error.message);
+    },
+  });
+
+  return {
+    annotations: annotationsQuery.data ?? [],
+    isLoading: annotationsQuery.isLoading,
+    addAnnotation,
+    removeAnnotation,
+  };
+}
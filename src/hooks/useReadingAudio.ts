@@ -0,0 +1,186 @@
+/**
+ * Reading Audio Hook
+ * Records the microphone during the voice step with MediaRecorder, measures
+ * prosody from the recording in a worker, uploads it through the
+ * chunked-upload edge function, and asks the transcribe-reading edge
+ * function to re-transcribe it server-side
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useChunkedUpload } from '@/hooks/useChunkedUpload';
+import { logger } from '@/lib/logger';
+import { READING_AUDIO_EXTENSION, type AcousticProsodyAnalysis } from '@/lib/analytics';
+import type { AcousticProsodyRequest, AcousticProsodyResponse } from '@/workers/acousticProsody.worker';
+
+// Preferred container/codec first; the browser default is used when none are supported
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+// Plenty for pitch up to 500 Hz, and keeps the autocorrelation cheap
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+// Analysis of a few minutes of audio takes seconds, so it runs off the main thread
+function analyzeInWorker(request: AcousticProsodyRequest): Promise<AcousticProsodyAnalysis> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/acousticProsody.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AcousticProsodyResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.analysis);
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Acoustic analysis worker failed'));
+    };
+    worker.postMessage(request, [request.samples.buffer]);
+  });
+}
+
+export interface ReadingTranscriptionSummary {
+  backend: string;
+  model: string | null;
+  wordCount: number;
+  wordsPerMinute: number;
+  stallCount: number;
+  wordsCorrectPerMinute: number | null;
+}
+
+export function useReadingAudio() {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // The finished recording (once the recorder has flushed), kept until reset
+  const recordingRef = useRef<Promise<Blob | null>>(Promise.resolve(null));
+  const [isRecording, setIsRecording] = useState(false);
+  const { uploadFile } = useChunkedUpload();
+
+  const isSupported = typeof window !== 'undefined'
+    && typeof MediaRecorder !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia;
+
+  const start = useCallback(async (): Promise<boolean> => {
+    if (!isSupported || recorderRef.current) return false;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      chunksRef.current = [];
+      recordingRef.current = Promise.resolve(null);
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      // Flush a chunk every second so a crash loses at most the last second
+      recorder.start(1000);
+      recorderRef.current = recorder;
+      setIsRecording(true);
+      return true;
+    } catch (error) {
+      logger.warn('Microphone recording unavailable', error);
+      return false;
+    }
+  }, [isSupported]);
+
+  // Stop recording and release the microphone; resolves with the whole recording
+  const stop = useCallback((): Promise<Blob | null> => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (!recorder) return recordingRef.current;
+
+    recordingRef.current = new Promise(resolve => {
+      const finish = () => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        resolve(chunksRef.current.length > 0
+          ? new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' })
+          : null);
+        chunksRef.current = [];
+      };
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
+    });
+    return recordingRef.current;
+  }, []);
+
+  // Decode the finished recording to mono PCM and measure its prosody; contours come back downsampled
+  const analyzeProsody = useCallback(async (): Promise<AcousticProsodyAnalysis | null> => {
+    const blob = await stop();
+    if (!blob || blob.size === 0 || typeof OfflineAudioContext === 'undefined' || typeof Worker === 'undefined') {
+      return null;
+    }
+
+    try {
+      // An offline context decodes straight to its own sample rate
+      const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+      const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+      const samples = new Float32Array(buffer.length);
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+      }
+      return await analyzeInWorker({ samples, sampleRate: buffer.sampleRate });
+    } catch (error) {
+      logger.warn('Could not analyse reading audio', error);
+      return null;
+    }
+  }, [stop]);
+
+  // Upload the finished recording; returns the chunked upload id
+  const upload = useCallback(async (sessionId: string, language: string): Promise<string | null> => {
+    const blob = await stop();
+    if (!blob || blob.size === 0) return null;
+
+    try {
+      const file = new File([blob], `${sessionId}${READING_AUDIO_EXTENSION}`, { type: blob.type || 'audio/webm' });
+      return await uploadFile(file, { kind: 'reading_audio', sessionId, language });
+    } catch (error) {
+      logger.error('Failed to upload reading audio', error);
+      return null;
+    }
+  }, [stop, uploadFile]);
+
+  // Re-transcribe a saved result's recording and overwrite its audio-derived measures
+  const transcribe = useCallback(async (diagnosticResultId: string): Promise<ReadingTranscriptionSummary | null> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('transcribe-reading', {
+        body: { diagnosticResultId },
+      });
+      if (error) {
+        throw new Error(error.message || 'Failed to transcribe reading audio');
+      }
+      if (!data || !data.success) {
+        throw new Error(data?.error || 'Invalid response from transcription service');
+      }
+      return data.summary;
+    } catch (error) {
+      logger.error('Reading audio transcription failed', error);
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder) {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+    chunksRef.current = [];
+    recordingRef.current = Promise.resolve(null);
+    setIsRecording(false);
+  }, []);
+
+  return {
+    isSupported,
+    isRecording,
+    start,
+    stop,
+    analyzeProsody,
+    upload,
+    transcribe,
+    reset,
+  };
+}
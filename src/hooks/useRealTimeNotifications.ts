@@ -11,6 +11,35 @@ interface AssessmentResult {
   created_at: string;
 }
 
+export interface StudentMessageRow {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string;
+  attachments: unknown;
+  created_at: string;
+}
+
+export interface StudentMessageReadRow {
+  message_id: string;
+  user_id: string;
+  read_at: string;
+}
+
+export type StudentMessageEvent =
+  | { kind: 'message'; message: StudentMessageRow }
+  | { kind: 'read'; read: StudentMessageReadRow };
+
+// Open message views listen here instead of opening their own channels
+const messageListeners = new Set<(event: StudentMessageEvent) => void>();
+
+export function subscribeToMessageEvents(listener: (event: StudentMessageEvent) => void): () => void {
+  messageListeners.add(listener);
+  return () => {
+    messageListeners.delete(listener);
+  };
+}
+
 export function useRealTimeNotifications() {
   const { user } = useAuth();
 
@@ -55,6 +84,37 @@ export function useRealTimeNotifications() {
           showNotification(result);
         }
       )
+      // Student messages and read receipts; RLS limits these to participants
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'student_messages'
+        },
+        (payload) => {
+          const message = payload.new as StudentMessageRow;
+          messageListeners.forEach(listener => listener({ kind: 'message', message }));
+          if (message.sender_id !== user.id && messageListeners.size === 0) {
+            toast.info('New message', {
+              description: message.body.length > 80 ? `${message.body.slice(0, 80)}…` : message.body,
+              duration: 5000,
+            });
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'student_message_reads'
+        },
+        (payload) => {
+          const read = payload.new as StudentMessageReadRow;
+          messageListeners.forEach(listener => listener({ kind: 'read', read }));
+        }
+      )
       .subscribe();
 
     return () => {
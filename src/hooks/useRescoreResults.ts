@@ -0,0 +1,94 @@
+/**
+ * Re-score Results Hook
+ * Calls the rescore-results edge function to replay stored sessions through
+ * the current scoring code and dataset thresholds
+ */
+
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { RiskLevel } from '@/lib/analytics';
+import { logger } from '@/lib/logger';
+
+export interface RescoreChange {
+  diagnosticResultId: string;
+  studentId: string | null;
+  studentName: string | null;
+  previousRiskLevel: RiskLevel;
+  newRiskLevel: RiskLevel;
+  dyslexiaProbabilityIndex: number;
+}
+
+export interface RescoreSummary {
+  runId: string | null;
+  dryRun: boolean;
+  scoringVersion: string;
+  thresholdsComputedAt: string | null;
+  processed: number;
+  written: number;
+  // Scores that could not be written; the run is incomplete when this is above zero
+  failed: number;
+  changes: RescoreChange[];
+}
+
+interface UseRescoreResultsReturn {
+  summary: RescoreSummary | null;
+  isLoading: boolean;
+  error: string | null;
+  rescore: (options?: { dryRun?: boolean; diagnosticResultIds?: string[] }) => Promise<RescoreSummary | null>;
+  clearSummary: () => void;
+}
+
+export function useRescoreResults(): UseRescoreResultsReturn {
+  const [summary, setSummary] = useState<RescoreSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rescore = useCallback(async (
+    options: { dryRun?: boolean; diagnosticResultIds?: string[] } = {}
+  ): Promise<RescoreSummary | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('rescore-results', {
+        body: {
+          dryRun: options.dryRun ?? true,
+          diagnosticResultIds: options.diagnosticResultIds,
+        },
+      });
+
+      if (fnError) {
+        throw new Error(fnError.message || 'Failed to re-score results');
+      }
+
+      if (!data || !data.success) {
+        // A partly written run still shows what it wrote
+        if (data?.failed > 0) setSummary(data);
+        throw new Error(data?.error || 'Invalid response from re-score service');
+      }
+
+      setSummary(data);
+      return data;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(message);
+      logger.error('Re-scoring stored results failed', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const clearSummary = useCallback(() => {
+    setSummary(null);
+    setError(null);
+  }, []);
+
+  return {
+    summary,
+    isLoading,
+    error,
+    rescore,
+    clearSummary,
+  };
+}
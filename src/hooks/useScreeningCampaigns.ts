@@ -0,0 +1,210 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import type { DiagnosticResult } from '@/types/diagnostic';
+import {
+  buildCampaignQueue,
+  getScreeningOutcome,
+  type CampaignEntry,
+  type ScreeningCampaign,
+} from '@/lib/screeningCampaigns';
+
+const campaignSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name must be less than 200 characters'),
+  classroomId: z.string().uuid('Select a class'),
+  passageLanguage: z.string().min(2).max(10),
+  // Library versions to read instead of the built-in passage, one per grade band
+  passageVersionIds: z.array(z.string().uuid()).default([]),
+});
+
+export type NewCampaignData = z.input<typeof campaignSchema>;
+
+export function useScreeningCampaigns() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const campaignsQuery = useQuery({
+    queryKey: ['screening-campaigns'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('screening_campaigns')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ScreeningCampaign[];
+    },
+    enabled: !!user,
+  });
+
+  const createCampaign = useMutation({
+    mutationFn: async (campaign: NewCampaignData) => {
+      if (!user) throw new Error('Not authenticated');
+      const { name, classroomId, passageLanguage, passageVersionIds } = campaignSchema.parse(campaign);
+
+      const { data: students, error: studentsError } = await supabase
+        .from('students')
+        .select('id, name')
+        .eq('classroom_id', classroomId);
+
+      if (studentsError) throw studentsError;
+      if (students.length === 0) throw new Error('This class has no students yet');
+
+      // As with organizations, the id is generated here so the insert does not
+      // depend on reading the row back before the queue exists
+      const id = crypto.randomUUID();
+      const { error } = await supabase
+        .from('screening_campaigns')
+        .insert({
+          id,
+          name,
+          classroom_id: classroomId,
+          passage_language: passageLanguage,
+          passage_version_ids: passageVersionIds,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+
+      const { error: queueError } = await supabase
+        .from('screening_campaign_students')
+        .insert(buildCampaignQueue(students).map(entry => ({ ...entry, campaign_id: id })));
+
+      if (queueError) throw queueError;
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['screening-campaigns'] });
+      toast.success('Screening campaign created');
+    },
+    onError: (error) => {
+      toast.error('Failed to create campaign: ' + error.message);
+    },
+  });
+
+  const deleteCampaign = useMutation({
+    mutationFn: async (campaignId: string) => {
+      const { error } = await supabase.from('screening_campaigns').delete().eq('id', campaignId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['screening-campaigns'] });
+      toast.success('Campaign deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete campaign: ' + error.message);
+    },
+  });
+
+  return {
+    campaigns: campaignsQuery.data ?? [],
+    isLoading: campaignsQuery.isLoading,
+    createCampaign,
+    deleteCampaign,
+  };
+}
+
+export function useScreeningCampaign(campaignId: string | null) {
+  const queryClient = useQueryClient();
+
+  const campaignQuery = useQuery({
+    queryKey: ['screening-campaign', campaignId],
+    queryFn: async () => {
+      const [campaign, entries] = await Promise.all([
+        supabase.from('screening_campaigns').select('*').eq('id', campaignId!).single(),
+        supabase
+          .from('screening_campaign_students')
+          .select('*, student:students(id, name, age, grade)')
+          .eq('campaign_id', campaignId!)
+          .order('position'),
+      ]);
+
+      if (campaign.error) throw campaign.error;
+      if (entries.error) throw entries.error;
+
+      return {
+        campaign: campaign.data as ScreeningCampaign,
+        entries: entries.data as CampaignEntry[],
+      };
+    },
+    enabled: !!campaignId,
+  });
+
+  // Returned so mutations stay pending until the queue has been refetched
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['screening-campaign', campaignId] });
+
+  // Poor-quality runs go back into the queue as retests; the latest run always wins
+  const recordOutcome = useMutation({
+    mutationFn: async ({ entry, result, diagnosticResultId }: {
+      entry: CampaignEntry;
+      result: DiagnosticResult;
+      diagnosticResultId: string | null;
+    }) => {
+      const outcome = getScreeningOutcome(result, diagnosticResultId);
+      const { error } = await supabase
+        .from('screening_campaign_students')
+        .update({
+          status: outcome.status,
+          attempts: entry.attempts + 1,
+          risk_level: outcome.riskLevel,
+          quality_issues: outcome.qualityIssues,
+          diagnostic_result_id: diagnosticResultId,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      return outcome;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to record screening outcome: ' + error.message);
+    },
+  });
+
+  // Absent students can be put back in the queue when they return
+  const setEntryStatus = useMutation({
+    mutationFn: async ({ entryId, status }: { entryId: string; status: 'absent' | 'pending' }) => {
+      const { error } = await supabase
+        .from('screening_campaign_students')
+        .update({ status })
+        .eq('id', entryId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error('Failed to update queue: ' + error.message);
+    },
+  });
+
+  const setCampaignClosed = useMutation({
+    mutationFn: async (closed: boolean) => {
+      const { error } = await supabase
+        .from('screening_campaigns')
+        .update({ status: closed ? 'closed' : 'active', closed_at: closed ? new Date().toISOString() : null })
+        .eq('id', campaignId!);
+
+      if (error) throw error;
+    },
+    onSuccess: (_result, closed) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['screening-campaigns'] });
+      toast.success(closed ? 'Campaign closed' : 'Campaign reopened');
+    },
+    onError: (error) => {
+      toast.error('Failed to update campaign: ' + error.message);
+    },
+  });
+
+  return {
+    campaign: campaignQuery.data?.campaign ?? null,
+    entries: campaignQuery.data?.entries ?? [],
+    isLoading: campaignQuery.isLoading,
+    recordOutcome,
+    setEntryStatus,
+    setCampaignClosed,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Session Replay Hook
+ * Loads a diagnostic result and its raw gaze recording, and prepares the
+ * gaze track, movement events and jump markers for playback. When the voice
+ * step's audio was stored it is loaded too, with its timed transcript.
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useChunkedUpload } from '@/hooks/useChunkedUpload';
+import { logger } from '@/lib/logger';
+import {
+  decodeGazeRecording,
+  buildSessionReplay,
+  parseAudioTranscript,
+  type AudioTranscript,
+  type GazeRecording,
+  type SessionReplay,
+} from '@/lib/analytics';
+
+export interface ReplayResultInfo {
+  id: string;
+  sessionId: string;
+  studentId: string | null;
+  studentName: string | null;
+  createdAt: string;
+  overallRiskLevel: string | null;
+}
+
+export function useSessionReplay(diagnosticResultId: string | undefined) {
+  const [result, setResult] = useState<ReplayResultInfo | null>(null);
+  const [recording, setRecording] = useState<GazeRecording | null>(null);
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  // Object URL of the reading audio, revoked when the result changes
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioTranscript, setAudioTranscript] = useState<AudioTranscript | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { retrieveFile } = useChunkedUpload();
+
+  useEffect(() => {
+    if (!diagnosticResultId) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const loadAudio = async (uploadId: string) => {
+      try {
+        const audio = await retrieveFile(uploadId);
+        if (cancelled) return;
+        // The recorder's container varies by browser; leave it to the media element to sniff
+        objectUrl = URL.createObjectURL(new Blob([audio]));
+        setAudioUrl(objectUrl);
+      } catch (err) {
+        // The gaze replay stays usable without its audio
+        logger.warn('Reading audio could not be loaded for replay', err);
+      }
+    };
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setAudioUrl(null);
+      setAudioTranscript(null);
+
+      try {
+        const { data: row, error: rowError } = await supabase
+          .from('diagnostic_results')
+          .select('id, session_id, student_id, created_at, overall_risk_level, gaze_recording_upload_id, reading_audio_upload_id, reading_transcript, students(name)')
+          .eq('id', diagnosticResultId)
+          .single();
+
+        if (rowError || !row) throw new Error('Assessment not found');
+        if (cancelled) return;
+
+        setResult({
+          id: row.id,
+          sessionId: row.session_id,
+          studentId: row.student_id,
+          studentName: row.students?.name ?? null,
+          createdAt: row.created_at,
+          overallRiskLevel: row.overall_risk_level,
+        });
+
+        if (!row.gaze_recording_upload_id) {
+          throw new Error('No gaze recording was stored for this assessment');
+        }
+
+        const decoded = await decodeGazeRecording(await retrieveFile(row.gaze_recording_upload_id));
+        if (cancelled) return;
+
+        setRecording(decoded);
+        setReplay(buildSessionReplay(decoded));
+        setAudioTranscript(parseAudioTranscript(row.reading_transcript));
+        if (row.reading_audio_upload_id) await loadAudio(row.reading_audio_upload_id);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load session replay';
+        logger.error('Session replay load failed', err);
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [diagnosticResultId, retrieveFile]);
+
+  return { result, recording, replay, audioUrl, audioTranscript, isLoading, error };
+}
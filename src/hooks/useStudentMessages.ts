@@ -0,0 +1,265 @@
+/**
+ * Student Messages Hook
+ * Threads and messages between a student's clinician and linked parents.
+ * Live updates arrive through useRealTimeNotifications' channel.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeToMessageEvents } from '@/hooks/useRealTimeNotifications';
+import { logger } from '@/lib/logger';
+import {
+  countUnreadByThread,
+  getUnreadMessageIds,
+  parseMessageAttachments,
+  type MessageAttachment,
+  type StudentMessage,
+  type StudentMessageRead,
+  type StudentMessageThread,
+} from '@/lib/studentMessages';
+
+function toMessage(row: { id: string; thread_id: string; sender_id: string; body: string; attachments: unknown; created_at: string }): StudentMessage {
+  return { ...row, attachments: parseMessageAttachments(row.attachments) };
+}
+
+export function useStudentMessages(studentId: string | null) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [threads, setThreads] = useState<StudentMessageThread[]>([]);
+  const [clinicianId, setClinicianId] = useState<string | null>(null);
+  const [unreadByThread, setUnreadByThread] = useState<Record<string, number>>({});
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<StudentMessage[]>([]);
+  const [reads, setReads] = useState<StudentMessageRead[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  // Realtime events are matched against the latest state without resubscribing
+  const activeThreadRef = useRef<string | null>(null);
+  const threadIdsRef = useRef<Set<string>>(new Set());
+  activeThreadRef.current = activeThreadId;
+  threadIdsRef.current = new Set(threads.map(t => t.id));
+
+  const fetchThreads = useCallback(async () => {
+    if (!studentId || !user) return;
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('student_message_threads')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('last_message_at', { ascending: false });
+
+      if (error) throw error;
+      const loaded = (data || []) as StudentMessageThread[];
+      setThreads(loaded);
+
+      if (loaded.length > 0) {
+        const { data: messageRows, error: messageError } = await supabase
+          .from('student_messages')
+          .select('id, thread_id, sender_id, student_message_reads(message_id, user_id)')
+          .in('thread_id', loaded.map(t => t.id));
+
+        if (messageError) throw messageError;
+        const rows = messageRows || [];
+        setUnreadByThread(countUnreadByThread(
+          rows,
+          rows.flatMap(r => r.student_message_reads ?? []),
+          user.id
+        ));
+      } else {
+        setUnreadByThread({});
+      }
+    } catch (err) {
+      logger.error('Error fetching message threads', err);
+      setThreads([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studentId, user]);
+
+  const markRead = useCallback(async (messageIds: string[]) => {
+    if (!user || messageIds.length === 0) return;
+    const { error } = await supabase
+      .from('student_message_reads')
+      .upsert(
+        messageIds.map(id => ({ message_id: id, user_id: user.id })),
+        { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+      );
+    if (error) logger.error('Error marking messages read', error);
+  }, [user]);
+
+  const openThread = useCallback(async (threadId: string | null) => {
+    setActiveThreadId(threadId);
+    setMessages([]);
+    setReads([]);
+    if (!threadId || !user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('student_messages')
+        .select('*, student_message_reads(*)')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const rows = data || [];
+      const loadedMessages = rows.map(toMessage);
+      const loadedReads = rows.flatMap(r => r.student_message_reads ?? []) as StudentMessageRead[];
+      setMessages(loadedMessages);
+      setReads(loadedReads);
+
+      await markRead(getUnreadMessageIds(loadedMessages, loadedReads, user.id));
+      setUnreadByThread(prev => ({ ...prev, [threadId]: 0 }));
+    } catch (err) {
+      logger.error('Error fetching messages', err);
+    }
+  }, [user, markRead]);
+
+  const notifyRecipients = useCallback(async (messageId: string) => {
+    // Email is best effort; the message itself is already delivered
+    const { error } = await supabase.functions.invoke('send-email', {
+      body: { type: 'message_notification', messageId },
+    });
+    if (error) logger.error('Error sending message notification', error);
+  }, []);
+
+  const sendMessage = useCallback(async (
+    threadId: string,
+    body: string,
+    attachments: MessageAttachment[] = []
+  ): Promise<StudentMessage | null> => {
+    if (!user || !body.trim()) return null;
+    setIsSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('student_messages')
+        .insert({
+          thread_id: threadId,
+          sender_id: user.id,
+          body: body.trim(),
+          attachments: JSON.parse(JSON.stringify(attachments)),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const message = toMessage(data);
+      if (activeThreadRef.current === threadId) {
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      }
+      notifyRecipients(message.id);
+      return message;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to send message';
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsSending(false);
+    }
+  }, [user, toast, notifyRecipients]);
+
+  const startThread = useCallback(async (
+    subject: string,
+    body: string,
+    attachments: MessageAttachment[] = []
+  ): Promise<string | null> => {
+    if (!user || !studentId || !subject.trim() || !body.trim()) return null;
+    setIsSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('student_message_threads')
+        .insert({
+          student_id: studentId,
+          subject: subject.trim(),
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const thread = data as StudentMessageThread;
+      setThreads(prev => [thread, ...prev]);
+      await openThread(thread.id);
+      const message = await sendMessage(thread.id, body, attachments);
+      return message ? thread.id : null;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to start conversation';
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsSending(false);
+    }
+  }, [user, studentId, toast, openThread, sendMessage]);
+
+  useEffect(() => {
+    setActiveThreadId(null);
+    setMessages([]);
+    setReads([]);
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Lets the thread view tell the clinician's messages apart from parents'.
+  // Parents can't read the student row, so this goes through an RPC.
+  useEffect(() => {
+    if (!studentId || !user) return;
+    supabase
+      .rpc('get_student_clinician_id', { _student_id: studentId })
+      .then(({ data }) => setClinicianId(data ?? null));
+  }, [studentId, user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToMessageEvents(event => {
+      if (event.kind === 'read') {
+        setReads(prev => prev.some(r => r.message_id === event.read.message_id && r.user_id === event.read.user_id)
+          ? prev
+          : [...prev, event.read]);
+        return;
+      }
+
+      const message = toMessage(event.message);
+      if (message.thread_id === activeThreadRef.current) {
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+        if (message.sender_id !== user.id) markRead([message.id]);
+      } else if (threadIdsRef.current.has(message.thread_id) && message.sender_id !== user.id) {
+        setUnreadByThread(prev => ({ ...prev, [message.thread_id]: (prev[message.thread_id] ?? 0) + 1 }));
+      }
+
+      // New threads and reordering by latest message
+      if (threadIdsRef.current.has(message.thread_id)) {
+        setThreads(prev => [...prev]
+          .map(t => t.id === message.thread_id ? { ...t, last_message_at: message.created_at } : t)
+          .sort((a, b) => b.last_message_at.localeCompare(a.last_message_at)));
+      } else {
+        fetchThreads();
+      }
+    });
+  }, [user, markRead, fetchThreads]);
+
+  return {
+    threads,
+    clinicianId,
+    unreadByThread,
+    activeThreadId,
+    messages,
+    reads,
+    isLoading,
+    isSending,
+    fetchThreads,
+    openThread,
+    sendMessage,
+    startThread,
+  };
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ProgressResultRow } from '@/lib/progressAnalytics';
+
+/** The columns of a student's assessment history that progress analytics reads */
+export function useStudentProgressResults(studentId: string | null | undefined, enabled = true) {
+  const { user } = useAuth();
+
+  const resultsQuery = useQuery({
+    queryKey: ['progress-results', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('diagnostic_results')
+        .select(
+          'id, created_at, voice_words_per_minute, voice_fluency_score, eye_regression_count, ' +
+            'eye_avg_fixation_duration, eye_chaos_index, dyslexia_probability_index'
+        )
+        .eq('student_id', studentId!)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as unknown as ProgressResultRow[];
+    },
+    enabled: !!user && !!studentId && enabled,
+  });
+
+  return {
+    results: resultsQuery.data ?? [],
+    isLoading: resultsQuery.isLoading,
+  };
+}
@@ -0,0 +1,126 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchAccessibleStudentsFilter } from '@/hooks/useOrganizations';
+import { toast } from 'sonner';
+import {
+  buildRosterExport,
+  parseCsv,
+  toCsv,
+  type ExportStudent,
+  type RosterPreviewRow,
+} from '@/lib/studentRoster';
+
+const INSERT_BATCH_SIZE = 100;
+const UPDATE_CONCURRENCY = 10;
+
+/** Rows of a CSV or XLSX file as text; XLSX dates become ISO dates */
+export async function readRosterFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    // Loaded on demand so the spreadsheet parser stays out of the main bundle
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const rows = await readXlsxFile(file);
+    return rows
+      .map(row => row.map(cell => {
+        if (cell === null || cell === undefined) return '';
+        if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+        return String(cell);
+      }))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+  return parseCsv(await file.text());
+}
+
+export interface RosterImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+export function useStudentRoster() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const importRoster = useMutation({
+    mutationFn: async (rows: RosterPreviewRow[]): Promise<RosterImportResult> => {
+      if (!user) throw new Error('Not authenticated');
+      const creates = rows.filter(r => r.action === 'create' && r.student);
+      const updates = rows.filter(r => r.action === 'update' && r.student && r.existingId);
+      const result: RosterImportResult = { created: 0, updated: 0, failed: 0 };
+
+      for (let i = 0; i < creates.length; i += INSERT_BATCH_SIZE) {
+        const batch = creates.slice(i, i + INSERT_BATCH_SIZE);
+        const { error } = await supabase
+          .from('students')
+          .insert(batch.map(r => ({ ...r.student!, clinician_id: user.id })));
+        if (error) result.failed += batch.length;
+        else result.created += batch.length;
+      }
+
+      // Only the changed fields are written, so shared students keep their owner
+      for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+        const outcomes = await Promise.all(updates.slice(i, i + UPDATE_CONCURRENCY).map(async row => {
+          const student = row.student!;
+          const { data, error } = await supabase
+            .from('students')
+            .update({
+              age: student.age,
+              grade: student.grade,
+              date_of_birth: student.date_of_birth,
+              ...(row.changes.includes('notes') && { notes: student.notes }),
+              ...(row.changes.includes('classroom') && { classroom_id: student.classroom_id }),
+            })
+            .eq('id', row.existingId!)
+            .select('id');
+          return !error && data.length > 0;
+        }));
+        result.updated += outcomes.filter(Boolean).length;
+        result.failed += outcomes.filter(ok => !ok).length;
+      }
+
+      return result;
+    },
+    onSuccess: ({ created, updated, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      const summary = `${created} added, ${updated} updated`;
+      if (failed > 0) {
+        toast.warning(`Roster imported with problems: ${summary}, ${failed} failed`);
+      } else {
+        toast.success(`Roster imported: ${summary}`);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to import roster: ' + error.message);
+    },
+  });
+
+  const exportRoster = useMutation({
+    mutationFn: async (classroomLabels: Map<string, string>) => {
+      if (!user) throw new Error('Not authenticated');
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, name, age, grade, date_of_birth, notes, classroom_id, risk_level, assessments:diagnostic_results(overall_risk_level, created_at)')
+        .or(await fetchAccessibleStudentsFilter(user.id));
+
+      if (error) throw error;
+
+      const csv = toCsv(buildRosterExport(data as ExportStudent[], classroomLabels));
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `student-roster-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+      return data.length;
+    },
+    onSuccess: (count) => {
+      toast.success(`Exported ${count} student${count === 1 ? '' : 's'}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to export roster: ' + error.message);
+    },
+  });
+
+  return { importRoster, exportRoster };
+}
@@ -4,6 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { z } from 'zod';
 import type { Tables } from '@/integrations/supabase/types';
+import { fetchAccessibleStudentsFilter } from '@/hooks/useOrganizations';
 
 // Zod schemas for input validation - matches actual database schema
 const studentInsertSchema = z.object({
@@ -42,7 +43,8 @@ export function useStudents() {
       const { data, error } = await supabase
         .from('students')
         .select('*')
-        .eq('clinician_id', user!.id)
+        // Own students plus classroom students shared through an organization
+        .or(await fetchAccessibleStudentsFilter(user!.id))
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -5,6 +5,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { logger } from '@/lib/logger';
+import { findLanguage } from '@/data/languages';
 
 export interface TTSConfig {
   rate: number; // 0.5 to 2
@@ -31,17 +32,6 @@ const DEFAULT_CONFIG: TTSConfig = {
   language: 'en-US',
 };
 
-const LANGUAGE_CODES: Record<string, string[]> = {
-  english: ['en-US', 'en-GB', 'en-IN', 'en-AU'],
-  hindi: ['hi-IN'],
-  tamil: ['ta-IN'],
-  telugu: ['te-IN'],
-  kannada: ['kn-IN'],
-  malayalam: ['ml-IN'],
-  bengali: ['bn-IN'],
-  marathi: ['mr-IN'],
-};
-
 export function useTextToSpeech(config: Partial<TTSConfig> = {}) {
   const cfg = { ...DEFAULT_CONFIG, ...config };
   
@@ -218,8 +208,9 @@ export function useTextToSpeech(config: Partial<TTSConfig> = {}) {
     window.speechSynthesis.speak(utterance);
   }, [cfg, state.selectedVoice]);
 
+  // Accepts a language code, English name or locale ('hi', 'Hindi', 'hi-IN')
   const getVoicesForLanguage = useCallback((language: string): SpeechSynthesisVoice[] => {
-    const codes = LANGUAGE_CODES[language.toLowerCase()] || [language];
+    const codes = findLanguage(language)?.ttsLocales || [language];
     return state.voices.filter(v => 
       codes.some(code => v.lang.startsWith(code.split('-')[0]))
     );
@@ -13,6 +13,7 @@ import {
   TobiiCalibrationResult,
   createTobiiAdapter
 } from '@/lib/tobiiAdapter';
+import { createFixationDetector, computeEyeTrackingMetrics, type FixationDetector, type GazeRecorder } from '@/lib/analytics';
 import type { GazePoint, Fixation, Saccade, EyeTrackingMetrics } from '@/types/diagnostic';
 
 interface TobiiEyeTrackingState {
@@ -43,7 +44,13 @@ interface UseTobiiEyeTrackingReturn extends TobiiEyeTrackingState {
   reset: () => void;
 }
 
-export function useTobiiEyeTracking(): UseTobiiEyeTrackingReturn {
+interface UseTobiiEyeTrackingOptions {
+  // Receives every sample, including invalid ones, for the session recording
+  recorder?: GazeRecorder;
+}
+
+export function useTobiiEyeTracking(options: UseTobiiEyeTrackingOptions = {}): UseTobiiEyeTrackingReturn {
+  const { recorder } = options;
   const [state, setState] = useState<TobiiEyeTrackingState>({
     isConnected: false,
     isTracking: false,
@@ -64,17 +71,29 @@ export function useTobiiEyeTracking(): UseTobiiEyeTrackingReturn {
   } | null>(null);
 
   const adapterRef = useRef<TobiiAdapter | null>(null);
-  const lastGazeRef = useRef<GazePoint | null>(null);
-  const fixationStartRef = useRef<{ x: number; y: number; timestamp: number } | null>(null);
-
-  // Fixation detection thresholds (tighter for clinical-grade hardware)
-  const FIXATION_THRESHOLD = 15; // pixels - more precise with Tobii
-  const FIXATION_MIN_DURATION = 80; // ms - lower threshold due to higher accuracy
+  // Fixation detection thresholds are tighter for clinical-grade hardware
+  const detectorRef = useRef<FixationDetector>(createFixationDetector({
+    fixationThreshold: 15, // pixels - more precise with Tobii
+    minFixationDuration: 80, // ms - lower threshold due to higher accuracy
+    smoothingWindow: 1, // hardware output is already filtered
+  }));
 
   // Process incoming gaze data from Tobii
   const processGazeData = useCallback((data: TobiiGazeData) => {
     const { x, y, timestamp, leftPupilDiameter, rightPupilDiameter, validity } = data;
 
+    recorder?.push({
+      timestamp,
+      source: 'tobii',
+      x,
+      y,
+      leftPupil: leftPupilDiameter,
+      rightPupil: rightPupilDiameter,
+      gazeValid: validity.leftEye || validity.rightEye,
+      leftEyeValid: validity.leftEye,
+      rightEyeValid: validity.rightEye,
+    });
+
     // Skip invalid samples
     if (!validity.leftEye && !validity.rightEye) return;
 
@@ -90,45 +109,10 @@ export function useTobiiEyeTracking(): UseTobiiEyeTrackingReturn {
     setGazeData(prev => [...prev.slice(-1000), point]); // Keep more data for clinical analysis
 
     // Fixation and saccade detection
-    const lastGaze = lastGazeRef.current;
-    if (lastGaze) {
-      const distance = Math.sqrt(
-        Math.pow(x - lastGaze.x, 2) + Math.pow(y - lastGaze.y, 2)
-      );
-
-      if (distance < FIXATION_THRESHOLD) {
-        if (!fixationStartRef.current) {
-          fixationStartRef.current = { x, y, timestamp };
-        }
-      } else {
-        const fixationStart = fixationStartRef.current;
-        if (fixationStart) {
-          const duration = timestamp - fixationStart.timestamp;
-          if (duration >= FIXATION_MIN_DURATION) {
-            setFixations(prev => [...prev, {
-              x: fixationStart.x,
-              y: fixationStart.y,
-              duration,
-              timestamp: fixationStart.timestamp,
-            }]);
-          }
-
-          const isRegression = x < lastGaze.x;
-          setSaccades(prev => [...prev, {
-            startX: lastGaze.x,
-            startY: lastGaze.y,
-            endX: x,
-            endY: y,
-            duration: timestamp - lastGaze.timestamp,
-            isRegression,
-          }]);
-        }
-        fixationStartRef.current = null;
-      }
-    }
-
-    lastGazeRef.current = point;
-  }, []);
+    const { fixation, saccade } = detectorRef.current.push(x, y, timestamp);
+    if (fixation) setFixations(prev => [...prev, fixation]);
+    if (saccade) setSaccades(prev => [...prev, saccade]);
+  }, [recorder]);
 
   // Initialize Tobii connection
   const initialize = useCallback(async (): Promise<boolean> => {
@@ -246,60 +230,12 @@ export function useTobiiEyeTracking(): UseTobiiEyeTrackingReturn {
     setFixations([]);
     setSaccades([]);
     setCurrentGaze(null);
-    lastGazeRef.current = null;
-    fixationStartRef.current = null;
+    detectorRef.current.reset();
   }, []);
 
   // Calculate metrics
   const getMetrics = useCallback((): EyeTrackingMetrics => {
-    const prolongedFixations = fixations.filter(f => f.duration > 400).length;
-    const regressionCount = saccades.filter(s => s.isRegression).length;
-    const avgFixationDuration = fixations.length > 0
-      ? fixations.reduce((sum, f) => sum + f.duration, 0) / fixations.length
-      : 0;
-
-    // Calculate fixation intersection coefficient (FIC)
-    let intersections = 0;
-    for (let i = 0; i < saccades.length - 1; i++) {
-      for (let j = i + 1; j < saccades.length; j++) {
-        const s1 = saccades[i];
-        const s2 = saccades[j];
-        const dx1 = s1.endX - s1.startX;
-        const dy1 = s1.endY - s1.startY;
-        const dx2 = s2.endX - s2.startX;
-        const dy2 = s2.endY - s2.startY;
-        const cross = dx1 * dy2 - dy1 * dx2;
-        if (Math.abs(cross) > 0.001) intersections++;
-      }
-    }
-    const fic = saccades.length > 1 ? intersections / (saccades.length * (saccades.length - 1) / 2) : 0;
-
-    // Calculate chaos index
-    let chaosIndex = 0;
-    if (gazeData.length > 2) {
-      let totalVariance = 0;
-      for (let i = 2; i < gazeData.length; i++) {
-        const angle1 = Math.atan2(
-          gazeData[i - 1].y - gazeData[i - 2].y,
-          gazeData[i - 1].x - gazeData[i - 2].x
-        );
-        const angle2 = Math.atan2(
-          gazeData[i].y - gazeData[i - 1].y,
-          gazeData[i].x - gazeData[i - 1].x
-        );
-        totalVariance += Math.abs(angle2 - angle1);
-      }
-      chaosIndex = totalVariance / (gazeData.length - 2);
-    }
-
-    return {
-      totalFixations: fixations.length,
-      averageFixationDuration: avgFixationDuration,
-      regressionCount,
-      prolongedFixations,
-      chaosIndex,
-      fixationIntersectionCoefficient: fic,
-    };
+    return computeEyeTrackingMetrics(gazeData, fixations, saccades);
   }, [fixations, saccades, gazeData]);
 
   // Cleanup on unmount
@@ -327,12 +263,4 @@ export function useTobiiEyeTracking(): UseTobiiEyeTrackingReturn {
   };
 }
 
-// Feature detection for Tobii availability
-export function isTobiiAvailable(): boolean {
-  // Check if running in a context where Tobii Pro SDK server might be available
-  // This would typically check for a local WebSocket server or SDK presence
-  if (typeof window === 'undefined') return false;
-  
-  // Check for Tobii Pro SDK indicator (set by local SDK installation)
-  return Boolean((window as any).__TOBII_PRO_SDK_AVAILABLE__);
-}
+export { isTobiiAvailable } from '@/lib/tobiiAdapter';
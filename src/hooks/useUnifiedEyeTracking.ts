@@ -1,17 +1,37 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { GazePoint, Fixation, Saccade, EyeTrackingMetrics, TrackingBackend, EyeTrackingDebugInfo } from '@/types/diagnostic';
 import { logger } from '@/lib/logger';
-
-// MediaPipe Face Mesh indices for iris tracking
-const LEFT_IRIS_INDICES = [468, 469, 470, 471, 472];
-const RIGHT_IRIS_INDICES = [473, 474, 475, 476, 477];
-const LEFT_EYE_INDICES = [33, 133, 160, 159, 158, 144, 145, 153];
-const RIGHT_EYE_INDICES = [362, 263, 387, 386, 385, 373, 374, 380];
-
-// CDN URL for MediaPipe assets (production-safe)
-const MEDIAPIPE_CDN = 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619';
-
-export function useUnifiedEyeTracking() {
+import {
+  createFixationDetector,
+  computeEyeTrackingMetrics,
+  type FixationDetector,
+  type GazeRecorder,
+  type PassageLayout,
+  type RawGazeSample,
+} from '@/lib/analytics';
+import {
+  eyeTrackerRegistry,
+  type EyeTrackerCalibrationResult,
+  type EyeTrackerPreference,
+  type EyeTrackerProvider,
+  type EyeTrackerQuality,
+  type EyeTrackerRegistry,
+} from '@/lib/eyeTrackers';
+
+interface UseUnifiedEyeTrackingOptions {
+  // Receives every raw sample, before smoothing, for the session recording
+  recorder?: GazeRecorder;
+  // Provider id, kind or 'auto'; unavailable providers fall back by priority
+  provider?: EyeTrackerPreference;
+  // Settings for individual providers, keyed by provider id
+  providerSettings?: Record<string, unknown>;
+  // Measured passage, for providers that synthesise or replay reading
+  getLayout?: () => PassageLayout | null;
+  registry?: EyeTrackerRegistry;
+}
+
+export function useUnifiedEyeTracking(options: UseUnifiedEyeTrackingOptions = {}) {
+  const { recorder, registry = eyeTrackerRegistry } = options;
   const [isInitialized, setIsInitialized] = useState(false);
   const [isTracking, setIsTracking] = useState(false);
   const [isCalibrated, setIsCalibrated] = useState(false);
@@ -21,7 +41,7 @@ export function useUnifiedEyeTracking() {
   const [fixations, setFixations] = useState<Fixation[]>([]);
   const [saccades, setSaccades] = useState<Saccade[]>([]);
   const [currentGaze, setCurrentGaze] = useState<{ x: number; y: number } | null>(null);
-  
+
   // New state for backend and debug info
   const [activeBackend, setActiveBackend] = useState<TrackingBackend>('none');
   const [debugInfo, setDebugInfo] = useState<EyeTrackingDebugInfo>({
@@ -33,23 +53,19 @@ export function useUnifiedEyeTracking() {
     isProcessing: false
   });
 
-  const faceMeshRef = useRef<any>(null);
-  const webgazerRef = useRef<any>(null);
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const lastGazeRef = useRef<GazePoint | null>(null);
-  const fixationStartRef = useRef<{ x: number; y: number; timestamp: number } | null>(null);
-  const gazeBufferRef = useRef<{ x: number; y: number }[]>([]);
-  const calibrationOffsetRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  
+  const providerRef = useRef<EyeTrackerProvider | null>(null);
+  const sampleListenersRef = useRef(new Set<(sample: RawGazeSample) => void>());
+  // Latest options, read when connecting so callers can pass them inline
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const detectorRef = useRef<FixationDetector>(createFixationDetector());
+  // Full session trace for scoring; gazeData state only keeps a render window
+  const sessionGazeRef = useRef<GazePoint[]>([]);
+
   // FPS tracking
   const fpsRef = useRef({ frames: 0, lastCheck: Date.now() });
   const initStartTimeRef = useRef<number>(0);
 
-  const FIXATION_THRESHOLD = 30;
-  const FIXATION_MIN_DURATION = 100;
-  const SMOOTHING_WINDOW = 5;
-
   // Update FPS counter
   const updateFps = useCallback(() => {
     fpsRef.current.frames++;
@@ -64,385 +80,97 @@ export function useUnifiedEyeTracking() {
     }
   }, []);
 
-  // Calculate gaze position from iris landmarks
-  const calculateGazeFromIris = useCallback((landmarks: any[]): { x: number; y: number; confidence: number } | null => {
-    if (!landmarks || landmarks.length < 478) return null;
-
-    try {
-      const leftIrisPoints = LEFT_IRIS_INDICES.map(i => landmarks[i]).filter(Boolean);
-      const rightIrisPoints = RIGHT_IRIS_INDICES.map(i => landmarks[i]).filter(Boolean);
-
-      if (leftIrisPoints.length < 4 || rightIrisPoints.length < 4) return null;
-
-      const leftCenter = {
-        x: leftIrisPoints.reduce((sum, p) => sum + p.x, 0) / leftIrisPoints.length,
-        y: leftIrisPoints.reduce((sum, p) => sum + p.y, 0) / leftIrisPoints.length
-      };
-
-      const rightCenter = {
-        x: rightIrisPoints.reduce((sum, p) => sum + p.x, 0) / rightIrisPoints.length,
-        y: rightIrisPoints.reduce((sum, p) => sum + p.y, 0) / rightIrisPoints.length
-      };
-
-      const leftEyeOuter = landmarks[LEFT_EYE_INDICES[0]];
-      const leftEyeInner = landmarks[LEFT_EYE_INDICES[1]];
-      const rightEyeOuter = landmarks[RIGHT_EYE_INDICES[0]];
-      const rightEyeInner = landmarks[RIGHT_EYE_INDICES[1]];
-
-      if (!leftEyeOuter || !leftEyeInner || !rightEyeOuter || !rightEyeInner) return null;
-
-      const leftEyeWidth = Math.abs(leftEyeInner.x - leftEyeOuter.x);
-      const rightEyeWidth = Math.abs(rightEyeInner.x - rightEyeOuter.x);
-
-      const leftRelX = leftEyeWidth > 0 ? (leftCenter.x - leftEyeOuter.x) / leftEyeWidth : 0.5;
-      const rightRelX = rightEyeWidth > 0 ? (rightCenter.x - rightEyeOuter.x) / rightEyeWidth : 0.5;
-
-      const avgRelX = (leftRelX + rightRelX) / 2;
-      const avgRelY = (leftCenter.y + rightCenter.y) / 2;
-
-      // Calculate confidence based on eye visibility
-      const eyeWidthRatio = Math.min(leftEyeWidth, rightEyeWidth) / Math.max(leftEyeWidth, rightEyeWidth);
-      const confidence = Math.min(eyeWidthRatio, 0.95);
-
-      const screenX = avgRelX * window.innerWidth + calibrationOffsetRef.current.x;
-      const screenY = avgRelY * window.innerHeight + calibrationOffsetRef.current.y;
-
-      return { x: screenX, y: screenY, confidence };
-    } catch {
-      return null;
-    }
-  }, []);
-
-  const processLandmarks = useCallback((landmarks: any[]) => {
-    const result = calculateGazeFromIris(landmarks);
-    if (!result) return;
-
-    const { x: rawX, y: rawY, confidence } = result;
-    const timestamp = Date.now();
-
+  // Record a provider sample, then smooth it and record any completed fixation or saccade
+  const processSample = useCallback((sample: RawGazeSample) => {
+    recorder?.push(sample);
+    sampleListenersRef.current.forEach(listener => listener(sample));
     updateFps();
 
-    // Update debug info
-    setDebugInfo(prev => ({
-      ...prev,
-      landmarkCount: landmarks.length,
-      gazeX: rawX,
-      gazeY: rawY,
-      confidence,
-      isProcessing: true
-    }));
-
-    // Apply smoothing
-    gazeBufferRef.current.push({ x: rawX, y: rawY });
-    if (gazeBufferRef.current.length > SMOOTHING_WINDOW) {
-      gazeBufferRef.current.shift();
-    }
-
-    const bufferLength = gazeBufferRef.current.length;
-    if (bufferLength === 0) return;
-
-    const smoothedX = gazeBufferRef.current.reduce((sum, p) => sum + p.x, 0) / bufferLength;
-    const smoothedY = gazeBufferRef.current.reduce((sum, p) => sum + p.y, 0) / bufferLength;
-
-    const point: GazePoint = { x: smoothedX, y: smoothedY, timestamp };
-
-    setCurrentGaze({ x: smoothedX, y: smoothedY });
-    setGazeData(prev => [...prev.slice(-500), point]);
-
-    // Detect fixations
-    const lastGaze = lastGazeRef.current;
-    if (lastGaze) {
-      const distance = Math.sqrt(
-        Math.pow(smoothedX - lastGaze.x, 2) + Math.pow(smoothedY - lastGaze.y, 2)
-      );
-
-      if (distance < FIXATION_THRESHOLD) {
-        if (!fixationStartRef.current) {
-          fixationStartRef.current = { x: smoothedX, y: smoothedY, timestamp };
-        }
-      } else {
-        const fixationStart = fixationStartRef.current;
-        if (fixationStart) {
-          const duration = timestamp - fixationStart.timestamp;
-          if (duration >= FIXATION_MIN_DURATION) {
-            setFixations(prev => [...prev, {
-              x: fixationStart.x,
-              y: fixationStart.y,
-              duration,
-              timestamp: fixationStart.timestamp
-            }]);
-          }
-
-          const isRegression = smoothedX < lastGaze.x;
-          setSaccades(prev => [...prev, {
-            startX: lastGaze.x,
-            startY: lastGaze.y,
-            endX: smoothedX,
-            endY: smoothedY,
-            duration: timestamp - lastGaze.timestamp,
-            isRegression
-          }]);
-        }
-        fixationStartRef.current = null;
-      }
-    }
-
-    lastGazeRef.current = point;
-  }, [calculateGazeFromIris, updateFps]);
-
-  // Process WebGazer gaze data
-  const processWebGazerGaze = useCallback((x: number, y: number) => {
-    const timestamp = Date.now();
-
-    updateFps();
+    // Blinks and tracking loss are kept in the recording but not tracked
+    if (sample.gazeValid === false) return;
 
+    const confidence = sample.confidence ?? 1;
     setDebugInfo(prev => ({
       ...prev,
-      landmarkCount: 0, // WebGazer doesn't provide landmarks
-      gazeX: x,
-      gazeY: y,
-      confidence: 0.6, // Lower confidence for WebGazer
+      landmarkCount: sample.source === 'mediapipe' ? 478 : 0,
+      gazeX: sample.x,
+      gazeY: sample.y,
+      confidence,
       isProcessing: true
     }));
 
-    // Apply smoothing
-    gazeBufferRef.current.push({ x, y });
-    if (gazeBufferRef.current.length > SMOOTHING_WINDOW) {
-      gazeBufferRef.current.shift();
-    }
-
-    const bufferLength = gazeBufferRef.current.length;
-    if (bufferLength === 0) return;
-
-    const smoothedX = gazeBufferRef.current.reduce((sum, p) => sum + p.x, 0) / bufferLength;
-    const smoothedY = gazeBufferRef.current.reduce((sum, p) => sum + p.y, 0) / bufferLength;
+    const { point, fixation, saccade } = detectorRef.current.push(sample.x, sample.y, sample.timestamp);
 
-    const point: GazePoint = { x: smoothedX, y: smoothedY, timestamp };
-
-    setCurrentGaze({ x: smoothedX, y: smoothedY });
+    sessionGazeRef.current.push(point);
+    setCurrentGaze({ x: point.x, y: point.y });
     setGazeData(prev => [...prev.slice(-500), point]);
+    if (fixation) setFixations(prev => [...prev, fixation]);
+    if (saccade) setSaccades(prev => [...prev, saccade]);
+  }, [recorder, updateFps]);
 
-    // Same fixation/saccade detection
-    const lastGaze = lastGazeRef.current;
-    if (lastGaze) {
-      const distance = Math.sqrt(
-        Math.pow(smoothedX - lastGaze.x, 2) + Math.pow(smoothedY - lastGaze.y, 2)
-      );
-
-      if (distance < FIXATION_THRESHOLD) {
-        if (!fixationStartRef.current) {
-          fixationStartRef.current = { x: smoothedX, y: smoothedY, timestamp };
-        }
-      } else {
-        const fixationStart = fixationStartRef.current;
-        if (fixationStart) {
-          const duration = timestamp - fixationStart.timestamp;
-          if (duration >= FIXATION_MIN_DURATION) {
-            setFixations(prev => [...prev, {
-              x: fixationStart.x,
-              y: fixationStart.y,
-              duration,
-              timestamp: fixationStart.timestamp
-            }]);
-          }
-
-          const isRegression = smoothedX < lastGaze.x;
-          setSaccades(prev => [...prev, {
-            startX: lastGaze.x,
-            startY: lastGaze.y,
-            endX: smoothedX,
-            endY: smoothedY,
-            duration: timestamp - lastGaze.timestamp,
-            isRegression
-          }]);
-        }
-        fixationStartRef.current = null;
-      }
-    }
-
-    lastGazeRef.current = point;
-  }, [updateFps]);
-
-  // Initialize MediaPipe FaceMesh
-  const initializeMediaPipe = useCallback(async (): Promise<boolean> => {
-    try {
-      if (!navigator.mediaDevices?.getUserMedia) {
-        throw new Error('Camera not supported');
-      }
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'user', width: 640, height: 480 }
-      });
-
-      const video = document.createElement('video');
-      video.srcObject = stream;
-      video.autoplay = true;
-      video.playsInline = true;
-      await video.play();
-      videoRef.current = video;
-
-      const FaceMeshModule = await import('@mediapipe/face_mesh');
-      const FaceMesh = FaceMeshModule.FaceMesh;
-
-      const faceMesh = new FaceMesh({
-        locateFile: (file: string) => `${MEDIAPIPE_CDN}/${file}`
-      });
-
-      faceMesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      faceMesh.onResults((results: { multiFaceLandmarks?: unknown[][] }) => {
-        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-          processLandmarks(results.multiFaceLandmarks[0] as any[]);
-        }
-      });
-
-      faceMeshRef.current = faceMesh;
-      return true;
-    } catch (error) {
-      logger.warn('MediaPipe initialization failed', error);
-      throw error;
-    }
-  }, [processLandmarks]);
-
-  // Initialize WebGazer as fallback
-  const initializeWebGazer = useCallback(async (): Promise<boolean> => {
-    try {
-      const webgazer = (await import('webgazer')).default;
-
-      // Configure WebGazer
-      webgazer.setRegression('ridge');
-      webgazer.showVideo(false);
-      webgazer.showFaceOverlay(false);
-      webgazer.showFaceFeedbackBox(false);
-      webgazer.showPredictionPoints(false);
-
-      // Set gaze listener
-      webgazer.setGazeListener((data: { x: number; y: number } | null) => {
-        if (data && data.x !== null && data.y !== null) {
-          processWebGazerGaze(data.x, data.y);
-        }
-      });
-
-      await webgazer.begin();
-      webgazerRef.current = webgazer;
-      return true;
-    } catch (error) {
-      logger.warn('WebGazer initialization failed', error);
-      throw error;
-    }
-  }, [processWebGazerGaze]);
-
-  // Main initialize function with fallback
+  // Connect the preferred provider, falling back through the registry
   const initialize = useCallback(async () => {
-    if (faceMeshRef.current || webgazerRef.current) return true;
+    if (providerRef.current) return true;
 
     initStartTimeRef.current = Date.now();
+    const { provider: preference = 'auto', providerSettings, getLayout } = optionsRef.current;
 
-    // Try MediaPipe first
-    try {
-      logger.debug('Attempting MediaPipe FaceMesh initialization...');
-      const success = await initializeMediaPipe();
-      if (success) {
-        const initTime = Date.now() - initStartTimeRef.current;
-        setActiveBackend('mediapipe');
-        setDebugInfo(prev => ({
-          ...prev,
-          backend: 'mediapipe',
-          initializationTime: initTime
-        }));
-        setIsInitialized(true);
-        setInitError(null);
-        logger.info('MediaPipe initialized successfully', { initTime });
-        return true;
-      }
-    } catch (error) {
-      logger.warn('MediaPipe failed, falling back to WebGazer', error);
-    }
-
-    // Fallback to WebGazer
-    try {
-      logger.debug('Attempting WebGazer initialization...');
-      const success = await initializeWebGazer();
-      if (success) {
-        const initTime = Date.now() - initStartTimeRef.current;
-        setActiveBackend('webgazer');
-        setDebugInfo(prev => ({
-          ...prev,
-          backend: 'webgazer',
-          initializationTime: initTime,
-          errorMessage: 'Using WebGazer fallback (lower precision)'
-        }));
-        setIsInitialized(true);
-        setInitError('Using WebGazer fallback (lower precision)');
-        logger.info('WebGazer initialized successfully', { initTime });
-        return true;
-      }
-    } catch (error) {
-      logger.error('WebGazer also failed', error);
-      const message = 'Both MediaPipe and WebGazer initialization failed';
+    const connection = await registry.connect(preference, { getLayout, settings: providerSettings });
+    if (!connection) {
+      const message = 'No eye tracker could be started on this device';
       setInitError(message);
       setDebugInfo(prev => ({
         ...prev,
         backend: 'none',
         errorMessage: message
       }));
+      setActiveBackend('none');
+      setIsSupported(false);
+      return false;
     }
 
-    setActiveBackend('none');
-    setIsSupported(false);
-    return false;
-  }, [initializeMediaPipe, initializeWebGazer]);
+    const { definition, provider, skipped } = connection;
+    provider.onSample(processSample);
+    provider.onError(error => logger.warn('Eye tracker error', { id: definition.id, error }));
+    providerRef.current = provider;
+    detectorRef.current = createFixationDetector(definition.detector);
+
+    const initTime = Date.now() - initStartTimeRef.current;
+    const fallbackMessage = skipped.length > 0
+      ? `Using ${definition.label} (${skipped.map(s => s.id).join(', ')} unavailable)`
+      : null;
+
+    setActiveBackend(definition.id);
+    setDebugInfo(prev => ({
+      ...prev,
+      backend: definition.id,
+      initializationTime: initTime,
+      errorMessage: fallbackMessage ?? undefined
+    }));
+    setIsInitialized(true);
+    setInitError(fallbackMessage);
+    logger.info('Eye tracker initialized', { id: definition.id, initTime });
+    return true;
+  }, [registry, processSample]);
 
   const startTracking = useCallback(async () => {
-    if (!faceMeshRef.current && !webgazerRef.current) {
+    if (!providerRef.current) {
       const success = await initialize();
       if (!success) return;
     }
 
     setIsTracking(true);
-
-    // Only need frame loop for MediaPipe
-    if (faceMeshRef.current && videoRef.current) {
-      const processFrame = async () => {
-        if (!faceMeshRef.current || !videoRef.current) return;
-
-        if (videoRef.current.readyState >= 2) {
-          await faceMeshRef.current.send({ image: videoRef.current });
-        }
-
-        animationFrameRef.current = requestAnimationFrame(processFrame);
-      };
-
-      processFrame();
-    }
-    // WebGazer handles its own frame loop internally
+    await providerRef.current?.startTracking();
   }, [initialize]);
 
   const stop = useCallback(() => {
     setIsTracking(false);
     setDebugInfo(prev => ({ ...prev, isProcessing: false }));
-    
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-
-    // Pause WebGazer if active
-    if (webgazerRef.current) {
-      webgazerRef.current.pause();
-    }
+    providerRef.current?.stopTracking();
   }, []);
 
   const resume = useCallback(() => {
     if (isInitialized) {
-      if (webgazerRef.current) {
-        webgazerRef.current.resume();
-      }
       startTracking();
     }
   }, [isInitialized, startTracking]);
@@ -451,79 +179,44 @@ export function useUnifiedEyeTracking() {
     setGazeData([]);
     setFixations([]);
     setSaccades([]);
-    lastGazeRef.current = null;
-    fixationStartRef.current = null;
-    gazeBufferRef.current = [];
+    detectorRef.current.reset();
+    sessionGazeRef.current = [];
   }, []);
 
   const applyCalibrationOffset = useCallback((offsetX: number, offsetY: number) => {
-    calibrationOffsetRef.current = { x: offsetX, y: offsetY };
+    providerRef.current?.applyCalibrationOffset?.(offsetX, offsetY);
     setIsCalibrated(true);
   }, []);
 
   const getMetrics = useCallback((): EyeTrackingMetrics => {
-    const prolongedFixations = fixations.filter(f => f.duration > 400).length;
-    const regressionCount = saccades.filter(s => s.isRegression).length;
-    const avgFixationDuration = fixations.length > 0
-      ? fixations.reduce((sum, f) => sum + f.duration, 0) / fixations.length
-      : 0;
+    return computeEyeTrackingMetrics(sessionGazeRef.current, fixations, saccades);
+  }, [fixations, saccades]);
 
-    let intersections = 0;
-    for (let i = 0; i < saccades.length - 1; i++) {
-      for (let j = i + 1; j < saccades.length; j++) {
-        const s1 = saccades[i];
-        const s2 = saccades[j];
-        const dx1 = s1.endX - s1.startX;
-        const dy1 = s1.endY - s1.startY;
-        const dx2 = s2.endX - s2.startX;
-        const dy2 = s2.endY - s2.startY;
-        const cross = dx1 * dy2 - dy1 * dx2;
-        if (Math.abs(cross) > 0.001) intersections++;
-      }
-    }
+  // Smoothed gaze of the whole session, e.g. to measure it again after drift correction
+  const getGazeTrace = useCallback((): GazePoint[] => sessionGazeRef.current, []);
 
-    const fic = saccades.length > 1 ? intersections / (saccades.length * (saccades.length - 1) / 2) : 0;
+  // The connected tracker's own calibration report; webcam trackers report no accuracy
+  const calibrate = useCallback(async (): Promise<EyeTrackerCalibrationResult | null> => {
+    return providerRef.current?.calibrate() ?? null;
+  }, []);
 
-    let chaosIndex = 0;
-    if (gazeData.length > 2) {
-      let totalVariance = 0;
-      for (let i = 2; i < gazeData.length; i++) {
-        const angle1 = Math.atan2(
-          gazeData[i - 1].y - gazeData[i - 2].y,
-          gazeData[i - 1].x - gazeData[i - 2].x
-        );
-        const angle2 = Math.atan2(
-          gazeData[i].y - gazeData[i - 1].y,
-          gazeData[i].x - gazeData[i - 1].x
-        );
-        totalVariance += Math.abs(angle2 - angle1);
-      }
-      chaosIndex = totalVariance / (gazeData.length - 2);
-    }
+  const getQuality = useCallback((): EyeTrackerQuality | null => {
+    return providerRef.current?.getQuality() ?? null;
+  }, []);
 
-    return {
-      totalFixations: fixations.length,
-      averageFixationDuration: avgFixationDuration,
-      regressionCount,
-      prolongedFixations,
-      chaosIndex: Math.min(chaosIndex, 1),
-      fixationIntersectionCoefficient: Math.min(fic, 1)
+  // Raw samples as they arrive, e.g. for calibration validation; returns an unsubscribe
+  const subscribe = useCallback((listener: (sample: RawGazeSample) => void) => {
+    sampleListenersRef.current.add(listener);
+    return () => {
+      sampleListenersRef.current.delete(listener);
     };
-  }, [fixations, saccades, gazeData]);
+  }, []);
 
   useEffect(() => {
     return () => {
       stop();
-      if (faceMeshRef.current) {
-        faceMeshRef.current.close?.();
-      }
-      if (webgazerRef.current) {
-        webgazerRef.current.end?.();
-      }
-      if (videoRef.current?.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
-      }
+      providerRef.current?.disconnect();
+      providerRef.current = null;
     };
   }, [stop]);
 
@@ -545,7 +238,11 @@ export function useUnifiedEyeTracking() {
     resume,
     reset,
     getMetrics,
+    getGazeTrace,
+    calibrate,
+    getQuality,
+    subscribe,
     setIsCalibrated,
     applyCalibrationOffset
   };
-}
\ No newline at end of file
+}
@@ -14,6 +14,71 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_insight_versions: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          diagnostic_result_id: string
+          edited_at: string | null
+          edited_by: string | null
+          edited_insights: Json | null
+          generated_by: string
+          id: string
+          input_hash: string
+          insights: Json
+          model: string
+          prompt_version: string
+          source: string
+          status: string
+          version: number
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          diagnostic_result_id: string
+          edited_at?: string | null
+          edited_by?: string | null
+          edited_insights?: Json | null
+          generated_by: string
+          id?: string
+          input_hash: string
+          insights: Json
+          model: string
+          prompt_version: string
+          source: string
+          status?: string
+          version: number
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          diagnostic_result_id?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          edited_insights?: Json | null
+          generated_by?: string
+          id?: string
+          input_hash?: string
+          insights?: Json
+          model?: string
+          prompt_version?: string
+          source?: string
+          status?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_insight_versions_diagnostic_result_id_fkey"
+            columns: ["diagnostic_result_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       anonymized_assessment_metrics: {
         Row: {
           age_group: string
@@ -113,6 +178,64 @@ export type Database = {
         }
         Relationships: []
       }
+      classroom_teachers: {
+        Row: {
+          classroom_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          classroom_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          classroom_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classroom_teachers_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classrooms: {
+        Row: {
+          created_at: string
+          grade: string | null
+          id: string
+          name: string
+          school_id: string
+        }
+        Insert: {
+          created_at?: string
+          grade?: string | null
+          id?: string
+          name: string
+          school_id: string
+        }
+        Update: {
+          created_at?: string
+          grade?: string | null
+          id?: string
+          name?: string
+          school_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classrooms_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       competitor_benchmarks: {
         Row: {
           auc_roc: number | null
@@ -241,14 +364,79 @@ export type Database = {
           },
         ]
       }
+      diagnostic_result_scores: {
+        Row: {
+          adhd_probability_index: number
+          created_at: string
+          diagnostic_result_id: string
+          dysgraphia_probability_index: number
+          dyslexia_probability_index: number
+          etdd70_probability: number | null
+          etdd70_risk_level: string | null
+          id: string
+          overall_risk_level: string
+          previous_risk_level: string | null
+          rescored_by: string
+          risk_level_changed: boolean
+          run_id: string
+          scoring_version: string
+          thresholds_computed_at: string | null
+        }
+        Insert: {
+          adhd_probability_index: number
+          created_at?: string
+          diagnostic_result_id: string
+          dysgraphia_probability_index: number
+          dyslexia_probability_index: number
+          etdd70_probability?: number | null
+          etdd70_risk_level?: string | null
+          id?: string
+          overall_risk_level: string
+          previous_risk_level?: string | null
+          rescored_by: string
+          risk_level_changed?: boolean
+          run_id: string
+          scoring_version: string
+          thresholds_computed_at?: string | null
+        }
+        Update: {
+          adhd_probability_index?: number
+          created_at?: string
+          diagnostic_result_id?: string
+          dysgraphia_probability_index?: number
+          dyslexia_probability_index?: number
+          etdd70_probability?: number | null
+          etdd70_risk_level?: string | null
+          id?: string
+          overall_risk_level?: string
+          previous_risk_level?: string | null
+          rescored_by?: string
+          risk_level_changed?: boolean
+          run_id?: string
+          scoring_version?: string
+          thresholds_computed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diagnostic_result_scores_diagnostic_result_id_fkey"
+            columns: ["diagnostic_result_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       diagnostic_results: {
         Row: {
+          acoustic_prosody: Json | null
           adhd_probability_index: number | null
+          calibration_validation: Json | null
           clinician_id: string
           cognitive_avg_pupil_dilation: number | null
           cognitive_overload_events: number | null
           cognitive_stress_indicators: number | null
           created_at: string
+          drift_correction: Json | null
           dysgraphia_probability_index: number | null
           dyslexia_probability_index: number | null
           eye_avg_fixation_duration: number | null
@@ -258,13 +446,20 @@ export type Database = {
           eye_regression_count: number | null
           eye_total_fixations: number | null
           fixation_data: Json | null
+          gaze_recording_upload_id: string | null
           handwriting_graphic_inconsistency: number | null
           handwriting_letter_crowding: number | null
           handwriting_line_adherence: number | null
           handwriting_reversal_count: number | null
           id: string
+          miscue_analysis: Json | null
           overall_risk_level: string | null
+          passage_layout: Json | null
+          passage_version_id: string | null
+          reading_audio_upload_id: string | null
+          reading_transcript: Json | null
           saccade_data: Json | null
+          screening_only: boolean | null
           session_id: string
           student_id: string | null
           user_id: string | null
@@ -277,14 +472,18 @@ export type Database = {
           voice_stall_count: number | null
           voice_stall_events: Json | null
           voice_words_per_minute: number | null
+          word_reading_data: Json | null
         }
         Insert: {
+          acoustic_prosody?: Json | null
           adhd_probability_index?: number | null
+          calibration_validation?: Json | null
           clinician_id: string
           cognitive_avg_pupil_dilation?: number | null
           cognitive_overload_events?: number | null
           cognitive_stress_indicators?: number | null
           created_at?: string
+          drift_correction?: Json | null
           dysgraphia_probability_index?: number | null
           dyslexia_probability_index?: number | null
           eye_avg_fixation_duration?: number | null
@@ -294,13 +493,20 @@ export type Database = {
           eye_regression_count?: number | null
           eye_total_fixations?: number | null
           fixation_data?: Json | null
+          gaze_recording_upload_id?: string | null
           handwriting_graphic_inconsistency?: number | null
           handwriting_letter_crowding?: number | null
           handwriting_line_adherence?: number | null
           handwriting_reversal_count?: number | null
           id?: string
+          miscue_analysis?: Json | null
           overall_risk_level?: string | null
+          passage_layout?: Json | null
+          passage_version_id?: string | null
+          reading_audio_upload_id?: string | null
+          reading_transcript?: Json | null
           saccade_data?: Json | null
+          screening_only?: boolean | null
           session_id: string
           student_id?: string | null
           user_id?: string | null
@@ -313,14 +519,18 @@ export type Database = {
           voice_stall_count?: number | null
           voice_stall_events?: Json | null
           voice_words_per_minute?: number | null
+          word_reading_data?: Json | null
         }
         Update: {
+          acoustic_prosody?: Json | null
           adhd_probability_index?: number | null
+          calibration_validation?: Json | null
           clinician_id?: string
           cognitive_avg_pupil_dilation?: number | null
           cognitive_overload_events?: number | null
           cognitive_stress_indicators?: number | null
           created_at?: string
+          drift_correction?: Json | null
           dysgraphia_probability_index?: number | null
           dyslexia_probability_index?: number | null
           eye_avg_fixation_duration?: number | null
@@ -330,13 +540,20 @@ export type Database = {
           eye_regression_count?: number | null
           eye_total_fixations?: number | null
           fixation_data?: Json | null
+          gaze_recording_upload_id?: string | null
           handwriting_graphic_inconsistency?: number | null
           handwriting_letter_crowding?: number | null
           handwriting_line_adherence?: number | null
           handwriting_reversal_count?: number | null
           id?: string
+          miscue_analysis?: Json | null
           overall_risk_level?: string | null
+          passage_layout?: Json | null
+          passage_version_id?: string | null
+          reading_audio_upload_id?: string | null
+          reading_transcript?: Json | null
           saccade_data?: Json | null
+          screening_only?: boolean | null
           session_id?: string
           student_id?: string | null
           user_id?: string | null
@@ -349,8 +566,30 @@ export type Database = {
           voice_stall_count?: number | null
           voice_stall_events?: Json | null
           voice_words_per_minute?: number | null
+          word_reading_data?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "diagnostic_results_gaze_recording_upload_id_fkey"
+            columns: ["gaze_recording_upload_id"]
+            isOneToOne: false
+            referencedRelation: "chunked_uploads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "diagnostic_results_passage_version_id_fkey"
+            columns: ["passage_version_id"]
+            isOneToOne: false
+            referencedRelation: "reading_passage_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "diagnostic_results_reading_audio_upload_id_fkey"
+            columns: ["reading_audio_upload_id"]
+            isOneToOne: false
+            referencedRelation: "chunked_uploads"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "diagnostic_results_student_id_fkey"
             columns: ["student_id"]
@@ -437,6 +676,119 @@ export type Database = {
           },
         ]
       }
+      intervention_plans: {
+        Row: {
+          baseline_result_id: string | null
+          created_at: string
+          created_by: string
+          follow_up_on: string
+          goals: string[]
+          id: string
+          minutes_per_session: number
+          responsible_staff: string
+          sessions_per_week: number
+          started_on: string
+          status: string
+          strategies: Json
+          student_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          baseline_result_id?: string | null
+          created_at?: string
+          created_by: string
+          follow_up_on: string
+          goals?: string[]
+          id?: string
+          minutes_per_session: number
+          responsible_staff: string
+          sessions_per_week: number
+          started_on: string
+          status?: string
+          strategies?: Json
+          student_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          baseline_result_id?: string | null
+          created_at?: string
+          created_by?: string
+          follow_up_on?: string
+          goals?: string[]
+          id?: string
+          minutes_per_session?: number
+          responsible_staff?: string
+          sessions_per_week?: number
+          started_on?: string
+          status?: string
+          strategies?: Json
+          student_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "intervention_plans_baseline_result_id_fkey"
+            columns: ["baseline_result_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "intervention_plans_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      intervention_sessions: {
+        Row: {
+          attended: boolean
+          created_at: string
+          created_by: string
+          delivered_by: string | null
+          duration_minutes: number
+          held_on: string
+          id: string
+          notes: string | null
+          plan_id: string
+        }
+        Insert: {
+          attended?: boolean
+          created_at?: string
+          created_by: string
+          delivered_by?: string | null
+          duration_minutes: number
+          held_on: string
+          id?: string
+          notes?: string | null
+          plan_id: string
+        }
+        Update: {
+          attended?: boolean
+          created_at?: string
+          created_by?: string
+          delivered_by?: string | null
+          duration_minutes?: number
+          held_on?: string
+          id?: string
+          notes?: string | null
+          plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "intervention_sessions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "intervention_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       normative_baselines: {
         Row: {
           age_group: string
@@ -491,6 +843,56 @@ export type Database = {
         }
         Relationships: []
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       parent_accounts: {
         Row: {
           created_at: string
@@ -521,29 +923,35 @@ export type Database = {
       parent_student_links: {
         Row: {
           access_code: string
+          claimed_at: string | null
           expires_at: string
           id: string
           linked_at: string
           linked_by: string
           parent_id: string | null
+          revoked_at: string | null
           student_id: string
         }
         Insert: {
           access_code: string
+          claimed_at?: string | null
           expires_at?: string
           id?: string
           linked_at?: string
           linked_by: string
           parent_id?: string | null
+          revoked_at?: string | null
           student_id: string
         }
         Update: {
           access_code?: string
+          claimed_at?: string | null
           expires_at?: string
           id?: string
           linked_at?: string
           linked_by?: string
           parent_id?: string | null
+          revoked_at?: string | null
           student_id?: string
         }
         Relationships: [
@@ -614,6 +1022,238 @@ export type Database = {
         }
         Relationships: []
       }
+      reading_passage_versions: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          change_note: string | null
+          created_at: string
+          created_by: string
+          difficulty: string
+          grade_band: string
+          grade_level: number | null
+          id: string
+          passage_id: string
+          questions: Json
+          sentence_count: number
+          status: string
+          syllables_per_word: number
+          text: string
+          title: string
+          version: number
+          word_count: number
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          change_note?: string | null
+          created_at?: string
+          created_by: string
+          difficulty: string
+          grade_band: string
+          grade_level?: number | null
+          id?: string
+          passage_id: string
+          questions?: Json
+          sentence_count: number
+          status?: string
+          syllables_per_word: number
+          text: string
+          title: string
+          version: number
+          word_count: number
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          change_note?: string | null
+          created_at?: string
+          created_by?: string
+          difficulty?: string
+          grade_band?: string
+          grade_level?: number | null
+          id?: string
+          passage_id?: string
+          questions?: Json
+          sentence_count?: number
+          status?: string
+          syllables_per_word?: number
+          text?: string
+          title?: string
+          version?: number
+          word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_passage_versions_passage_id_fkey"
+            columns: ["passage_id"]
+            isOneToOne: false
+            referencedRelation: "reading_passages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_passages: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          created_by: string
+          id: string
+          language: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          language: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          language?: string
+        }
+        Relationships: []
+      }
+      schools: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schools_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      screening_campaign_students: {
+        Row: {
+          attempts: number
+          campaign_id: string
+          completed_at: string | null
+          diagnostic_result_id: string | null
+          id: string
+          position: number
+          quality_issues: string[]
+          risk_level: string | null
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          campaign_id: string
+          completed_at?: string | null
+          diagnostic_result_id?: string | null
+          id?: string
+          position: number
+          quality_issues?: string[]
+          risk_level?: string | null
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          campaign_id?: string
+          completed_at?: string | null
+          diagnostic_result_id?: string | null
+          id?: string
+          position?: number
+          quality_issues?: string[]
+          risk_level?: string | null
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_campaign_students_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "screening_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "screening_campaign_students_diagnostic_result_id_fkey"
+            columns: ["diagnostic_result_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "screening_campaign_students_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      screening_campaigns: {
+        Row: {
+          classroom_id: string | null
+          closed_at: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          passage_language: string
+          passage_version_ids: string[]
+          status: string
+        }
+        Insert: {
+          classroom_id?: string | null
+          closed_at?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          passage_language?: string
+          passage_version_ids?: string[]
+          status?: string
+        }
+        Update: {
+          classroom_id?: string | null
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          passage_language?: string
+          passage_version_ids?: string[]
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_campaigns_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sensitive_data_access_log: {
         Row: {
           action: string
@@ -641,11 +1281,150 @@ export type Database = {
         }
         Relationships: []
       }
+      student_message_reads: {
+        Row: {
+          message_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          message_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          message_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_message_reads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "student_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_message_threads: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          last_message_at: string
+          student_id: string
+          subject: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          last_message_at?: string
+          student_id: string
+          subject: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_message_at?: string
+          student_id?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_message_threads_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_messages: {
+        Row: {
+          attachments: Json
+          body: string
+          created_at: string
+          id: string
+          notified_at: string | null
+          sender_id: string
+          thread_id: string
+        }
+        Insert: {
+          attachments?: Json
+          body: string
+          created_at?: string
+          id?: string
+          notified_at?: string | null
+          sender_id: string
+          thread_id: string
+        }
+        Update: {
+          attachments?: Json
+          body?: string
+          created_at?: string
+          id?: string
+          notified_at?: string | null
+          sender_id?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "student_message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_progress_annotations: {
+        Row: {
+          created_at: string
+          created_by: string
+          ended_on: string | null
+          id: string
+          label: string
+          started_on: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          ended_on?: string | null
+          id?: string
+          label: string
+          started_on: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          ended_on?: string | null
+          id?: string
+          label?: string
+          started_on?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_progress_annotations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           age: number
+          classroom_id: string | null
           clinician_id: string
           created_at: string
+          date_of_birth: string | null
           grade: string
           id: string
           name: string
@@ -655,8 +1434,10 @@ export type Database = {
         }
         Insert: {
           age: number
+          classroom_id?: string | null
           clinician_id: string
           created_at?: string
+          date_of_birth?: string | null
           grade: string
           id?: string
           name: string
@@ -666,8 +1447,10 @@ export type Database = {
         }
         Update: {
           age?: number
+          classroom_id?: string | null
           clinician_id?: string
           created_at?: string
+          date_of_birth?: string | null
           grade?: string
           id?: string
           name?: string
@@ -675,7 +1458,15 @@ export type Database = {
           risk_level?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "students_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       teacher_feedback: {
         Row: {
@@ -828,7 +1619,82 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_organization_member: {
+        Args: {
+          _email: string
+          _organization_id: string
+          _role: Database["public"]["Enums"]["organization_role"]
+        }
+        Returns: string
+      }
+      approve_ai_insight_version: {
+        Args: { _version_id: string }
+        Returns: undefined
+      }
+      approve_reading_passage_version: {
+        Args: { _version_id: string }
+        Returns: undefined
+      }
+      can_access_campaign: {
+        Args: { _campaign_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_classroom: {
+        Args: { _classroom_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_diagnostic_result: {
+        Args: { _result_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_intervention_plan: {
+        Args: { _plan_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_message_thread: {
+        Args: { _thread_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_student: {
+        Args: { _student_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_upload: {
+        Args: { _upload_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_author_passages: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      can_message_about_student: {
+        Args: { _student_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_parent_access_code: {
+        Args: { _access_code: string }
+        Returns: string
+      }
+      classroom_organization: {
+        Args: { _classroom_id: string }
+        Returns: string
+      }
+      get_accessible_classroom_ids: { Args: never; Returns: string[] }
       get_assessment_count: { Args: never; Returns: number }
+      get_organization_members: {
+        Args: { _organization_id: string }
+        Returns: {
+          display_name: string
+          email: string
+          role: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }[]
+      }
+      get_parent_children: { Args: never; Returns: Json }
+      get_student_clinician_id: {
+        Args: { _student_id: string }
+        Returns: string
+      }
       get_user_roles: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"][]
@@ -840,6 +1706,14 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_parent_of: {
+        Args: { _student_id: string; _user_id: string }
+        Returns: boolean
+      }
+      organization_role_of: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: Database["public"]["Enums"]["organization_role"]
+      }
       set_user_role: {
         Args: { _role: Database["public"]["Enums"]["app_role"] }
         Returns: undefined
@@ -847,6 +1721,7 @@ export type Database = {
     }
     Enums: {
       app_role: "clinician" | "educator" | "parent" | "individual"
+      organization_role: "admin" | "specialist" | "teacher"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -975,6 +1850,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["clinician", "educator", "parent", "individual"],
+      organization_role: ["admin", "specialist", "teacher"],
     },
   },
 } as const
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { AIInsights } from '@/hooks/useAIInsights';
+import { diffInsights, getDisplayedVersion, getEffectiveInsights } from './aiInsightVersions';
+
+const base: AIInsights = {
+  summary: 'Slow decoding with frequent regressions.',
+  keyFindings: ['High regression count', 'Low fluency'],
+  interventionStrategies: [
+    { title: 'Phonics', description: 'Systematic phonics', priority: 'high', frequency: '3x per week', duration: '20 minutes' },
+    { title: 'Tracking', description: 'Line guides', priority: 'medium', frequency: '2x per week', duration: '10 minutes' },
+  ],
+  readingRecommendations: { level: 'Grade 2', materials: ['Decodable readers'], focusAreas: ['Phonemic awareness'] },
+  weeklyPlan: [{ day: 'Monday', activity: 'Phonics review', duration: '20 min' }],
+  progressForecast: 'Improvement in 8-12 weeks.',
+  clinicalNotes: 'Reassess in 6 weeks.',
+  confidence: 0.8,
+};
+
+describe('aiInsightVersions', () => {
+  it('shows the approved version, else the newest, with clinician edits applied', () => {
+    const versions = [
+      { version: 1, status: 'superseded' as const },
+      { version: 2, status: 'approved' as const },
+      { version: 3, status: 'draft' as const },
+    ];
+    expect(getDisplayedVersion(versions)?.version).toBe(2);
+    expect(getDisplayedVersion(versions.filter(v => v.status !== 'approved'))?.version).toBe(3);
+    expect(getDisplayedVersion([])).toBeNull();
+
+    const edited = { ...base, clinicalNotes: 'Reassess in 4 weeks.' };
+    expect(getEffectiveInsights({ insights: base, edited_insights: edited }).clinicalNotes).toBe('Reassess in 4 weeks.');
+    expect(getEffectiveInsights({ insights: base, edited_insights: null })).toBe(base);
+  });
+
+  it('diffs insights section by section', () => {
+    const regenerated: AIInsights = {
+      ...base,
+      keyFindings: ['High regression count', 'Long fixations'],
+      interventionStrategies: [
+        { ...base.interventionStrategies[0], frequency: 'Daily' },
+        { title: 'Repeated reading', description: 'Timed rereads', priority: 'medium', frequency: '3x per week', duration: '15 minutes' },
+      ],
+      confidence: 0.8,
+    };
+
+    expect(diffInsights(base, base)).toEqual([]);
+    const changes = diffInsights(base, regenerated);
+    expect(changes.map(c => `${c.section}:${c.kind}`)).toEqual([
+      'Key finding:removed',
+      'Key finding:added',
+      'Strategy:changed',
+      'Strategy:removed',
+      'Strategy:added',
+    ]);
+    expect(changes[2].after).toContain('Daily');
+  });
+});
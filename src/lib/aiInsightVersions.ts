@@ -0,0 +1,96 @@
+/**
+ * AI Insight Versions
+ * Picking the version to show and diffing two versions of the generated
+ * insights section by section. Data access lives in useAIInsightVersions.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { AIInsights } from '@/hooks/useAIInsights';
+
+export type AIInsightVersionStatus = 'draft' | 'approved' | 'superseded';
+
+export interface AIInsightVersion
+  extends Omit<Tables<'ai_insight_versions'>, 'insights' | 'edited_insights' | 'status' | 'source'> {
+  insights: AIInsights;
+  edited_insights: AIInsights | null;
+  status: AIInsightVersionStatus;
+  source: 'model' | 'fallback';
+}
+
+export const INSIGHT_STATUS_LABELS: Record<AIInsightVersionStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  superseded: 'Superseded',
+};
+
+/** What the version says now: the clinician's edit when there is one */
+export function getEffectiveInsights(version: Pick<AIInsightVersion, 'insights' | 'edited_insights'>): AIInsights {
+  return version.edited_insights ?? version.insights;
+}
+
+/** The approved version, or the newest one while nothing has been approved */
+export function getDisplayedVersion<T extends Pick<AIInsightVersion, 'status' | 'version'>>(versions: T[]): T | null {
+  const approved = versions.find(v => v.status === 'approved');
+  if (approved) return approved;
+  return versions.reduce<T | null>((latest, v) => (!latest || v.version > latest.version ? v : latest), null);
+}
+
+export interface InsightChange {
+  section: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+function diffText(section: string, before: string, after: string): InsightChange[] {
+  return before.trim() === after.trim() ? [] : [{ section, kind: 'changed', before, after }];
+}
+
+function diffList(section: string, before: string[], after: string[]): InsightChange[] {
+  return [
+    ...before.filter(item => !after.includes(item)).map(item => ({ section, kind: 'removed' as const, before: item })),
+    ...after.filter(item => !before.includes(item)).map(item => ({ section, kind: 'added' as const, after: item })),
+  ];
+}
+
+// Items matched by a key (strategy title, plan day) and compared by their description
+function diffKeyed<T>(section: string, before: T[], after: T[], key: (item: T) => string, describe: (item: T) => string) {
+  const changes: InsightChange[] = [];
+  const afterByKey = new Map(after.map(item => [key(item), item]));
+  const beforeKeys = new Set(before.map(key));
+
+  for (const item of before) {
+    const match = afterByKey.get(key(item));
+    if (!match) {
+      changes.push({ section, kind: 'removed', before: describe(item) });
+    } else if (describe(item) !== describe(match)) {
+      changes.push({ section, kind: 'changed', before: describe(item), after: describe(match) });
+    }
+  }
+  for (const item of after) {
+    if (!beforeKeys.has(key(item))) changes.push({ section, kind: 'added', after: describe(item) });
+  }
+  return changes;
+}
+
+type Strategy = AIInsights['interventionStrategies'][number];
+type PlanDay = AIInsights['weeklyPlan'][number];
+
+const describeStrategy = (s: Strategy) => `${s.title} (${s.priority}, ${s.frequency}, ${s.duration}): ${s.description}`;
+const describePlanDay = (d: PlanDay) => `${d.day}: ${d.activity} (${d.duration})`;
+
+/** Section-by-section differences going from one version to another */
+export function diffInsights(before: AIInsights, after: AIInsights): InsightChange[] {
+  return [
+    ...diffText('Summary', before.summary, after.summary),
+    ...diffList('Key finding', before.keyFindings, after.keyFindings),
+    ...diffKeyed('Strategy', before.interventionStrategies, after.interventionStrategies, s => s.title, describeStrategy),
+    ...diffText('Reading level', before.readingRecommendations.level, after.readingRecommendations.level),
+    ...diffList('Reading material', before.readingRecommendations.materials, after.readingRecommendations.materials),
+    ...diffList('Focus area', before.readingRecommendations.focusAreas, after.readingRecommendations.focusAreas),
+    ...diffKeyed('Weekly plan', before.weeklyPlan, after.weeklyPlan, d => d.day, describePlanDay),
+    ...diffText('Progress forecast', before.progressForecast, after.progressForecast),
+    ...diffText('Clinical notes', before.clinicalNotes, after.clinicalNotes),
+    ...diffText('Confidence', `${Math.round(before.confidence * 100)}%`, `${Math.round(after.confidence * 100)}%`),
+  ];
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAcousticProsody, downsampleAcousticFeatures, extractAcousticFeatures } from './acousticProsody.ts';
+
+const SAMPLE_RATE = 8000;
+
+// A voiced "syllable": a tone under a raised-cosine envelope
+const syllable = (hz: number, ms = 150) => {
+  const n = Math.round((ms / 1000) * SAMPLE_RATE);
+  return Array.from({ length: n }, (_, i) =>
+    0.5 * (1 - Math.cos((2 * Math.PI * i) / n)) * 0.5 * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE)
+  );
+};
+const silence = (ms: number) => new Array(Math.round((ms / 1000) * SAMPLE_RATE)).fill(0);
+const signal = (...parts: number[][]) => Float32Array.from(parts.flat());
+
+describe('acoustic prosody', () => {
+  it('tracks the pitch of a voiced tone', () => {
+    const { pitchHz } = extractAcousticFeatures(signal(silence(100), syllable(200, 600), silence(100)), SAMPLE_RATE);
+    const voiced = pitchHz.filter((hz): hz is number => hz !== null);
+
+    expect(voiced.length).toBeGreaterThan(30);
+    const sorted = [...voiced].sort((a, b) => a - b);
+    expect(sorted[Math.floor(sorted.length / 2)]).toBeCloseTo(200, -1);
+  });
+
+  it('finds syllable nuclei and silent pauses by energy', () => {
+    const run = [syllable(180), silence(50), syllable(180), silence(50), syllable(180), silence(50), syllable(180)];
+    const { features, summary } = analyzeAcousticProsody(
+      signal(silence(200), ...run, silence(600), ...run, silence(200)),
+      SAMPLE_RATE
+    );
+
+    expect(features.syllableNucleiMs).toHaveLength(8);
+    expect(features.pauses).toHaveLength(1);
+    expect(features.pauses[0].endMs - features.pauses[0].startMs).toBeGreaterThanOrEqual(550);
+    expect(summary.meanRunSyllables).toBe(4);
+    expect(summary.articulationRate).toBeGreaterThan(summary.speakingRate);
+  });
+
+  it('downsamples the contours kept with a saved result', () => {
+    const features = extractAcousticFeatures(signal(silence(300), syllable(200, 600), silence(300)), SAMPLE_RATE);
+    const stored = downsampleAcousticFeatures(features);
+
+    expect(stored.hopMs).toBe(100);
+    expect(stored.intensityDb).toHaveLength(Math.ceil(features.intensityDb.length / 10));
+    expect(stored.pitchHz).toHaveLength(stored.intensityDb.length);
+    expect(stored.pitchHz[0]).toBeNull();
+    expect(stored.pitchHz[5]).toBeCloseTo(200, -1);
+    expect(stored.pauses).toBe(features.pauses);
+  });
+
+  it('scores phrased, expressive reading above monotone word-by-word reading', () => {
+    const expressive = analyzeAcousticProsody(
+      signal(...[140, 180, 240, 200, 160, 260, 220, 150].flatMap(hz => [syllable(hz), silence(40)])),
+      SAMPLE_RATE
+    );
+    const halting = analyzeAcousticProsody(
+      signal(...Array.from({ length: 8 }, () => [syllable(200), silence(1200)]).flat()),
+      SAMPLE_RATE
+    );
+
+    expect(expressive.scores.expression).toBeGreaterThan(halting.scores.expression);
+    expect(expressive.scores.phrasing).toBeGreaterThan(halting.scores.phrasing);
+    expect(expressive.scores.smoothness).toBeGreaterThan(halting.scores.smoothness);
+    expect(halting.summary.longPauseCount).toBe(7);
+    expect(analyzeAcousticProsody(new Float32Array(SAMPLE_RATE), SAMPLE_RATE).scores.overall).toBe(0);
+  });
+});
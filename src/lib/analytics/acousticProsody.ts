@@ -0,0 +1,312 @@
+/**
+ * Acoustic prosody analysis
+ * Measures the voice itself from the reading recording (mono PCM):
+ *   - pitch contour by normalised autocorrelation
+ *   - intensity contour (frame RMS in dB)
+ *   - silent pauses where intensity stays below a threshold set relative to
+ *     the loudest speech
+ *   - syllable nuclei as voiced intensity peaks separated by a dip
+ *     (de Jong & Wempe, 2009), giving speaking and articulation rate
+ * and turns them into phrasing, expression and smoothness sub-scores in the
+ * spirit of the Multidimensional Fluency Scale.
+ */
+
+export interface AcousticProsodyConfig {
+  // Analysis window; must hold two periods of the lowest pitch
+  frameMs: number;
+  hopMs: number;
+  minPitchHz: number;
+  maxPitchHz: number;
+  // Normalised autocorrelation a frame needs to count as voiced
+  voicingThreshold: number;
+  // Silence threshold relative to the 99th percentile frame intensity
+  silenceThresholdDb: number;
+  // Frames quieter than this (dB full scale) are silent however quiet the recording
+  minSpeechDb: number;
+  // Shorter silences are part of articulation, not pauses
+  minPauseMs: number;
+  // Pauses at least this long are hesitations for the smoothness score
+  longPauseMs: number;
+  // Intensity must drop this far between two peaks for them to be separate syllables
+  minDipDb: number;
+}
+
+export const DEFAULT_ACOUSTIC_PROSODY_CONFIG: AcousticProsodyConfig = {
+  frameMs: 40,
+  hopMs: 10,
+  minPitchHz: 75,
+  maxPitchHz: 500,
+  voicingThreshold: 0.45,
+  silenceThresholdDb: -25,
+  minSpeechDb: -60,
+  minPauseMs: 250,
+  longPauseMs: 1000,
+  minDipDb: 2,
+};
+
+// Per-frame features; saved results keep them downsampled for research export
+export interface AcousticFeatures {
+  sampleRate: number;
+  durationMs: number;
+  hopMs: number;
+  // Fundamental frequency per frame; null where unvoiced
+  pitchHz: (number | null)[];
+  intensityDb: number[];
+  silenceThresholdDb: number;
+  // First and last sounding frame times
+  speechStartMs: number;
+  speechEndMs: number;
+  pauses: { startMs: number; endMs: number }[];
+  syllableNucleiMs: number[];
+}
+
+export interface AcousticProsodySummary {
+  pitchMeanHz: number | null;
+  // Spread of the pitch contour in semitones (5th to 95th percentile)
+  pitchRangeSemitones: number;
+  pitchSdSemitones: number;
+  intensitySdDb: number;
+  syllableCount: number;
+  // Syllables per second of speech, pauses included
+  speakingRate: number;
+  // Syllables per second of phonation, pauses excluded
+  articulationRate: number;
+  phonationTimeMs: number;
+  pauseCount: number;
+  meanPauseMs: number;
+  longPauseCount: number;
+  // Syllables between pauses
+  meanRunSyllables: number;
+}
+
+// 0-100, higher is more fluent
+export interface ProsodySubScores {
+  phrasing: number;
+  expression: number;
+  smoothness: number;
+  overall: number;
+}
+
+export interface AcousticProsodyAnalysis {
+  features: AcousticFeatures;
+  summary: AcousticProsodySummary;
+  scores: ProsodySubScores;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const sd = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))))];
+};
+// 0 at `low`, 1 at `high`, clamped
+const ramp = (value: number, low: number, high: number) => Math.max(0, Math.min(1, (value - low) / (high - low)));
+
+function framePitch(frame: Float32Array, sampleRate: number, cfg: AcousticProsodyConfig): number | null {
+  const minLag = Math.floor(sampleRate / cfg.maxPitchHz);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / cfg.minPitchHz));
+  if (maxLag <= minLag) return null;
+
+  const correlations = new Float32Array(maxLag + 2);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag + 1 && lag < frame.length; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let n = 0; n + lag < frame.length; n++) {
+      cross += frame[n] * frame[n + lag];
+      energyA += frame[n] * frame[n];
+      energyB += frame[n + lag] * frame[n + lag];
+    }
+    const r = energyA > 0 && energyB > 0 ? cross / Math.sqrt(energyA * energyB) : 0;
+    correlations[lag] = r;
+    if (lag <= maxLag && r > best) best = r;
+  }
+  if (best < cfg.voicingThreshold) return null;
+
+  // The shortest lag that is nearly as good as the best avoids octave-low errors
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    const r = correlations[lag];
+    if (r >= best * 0.9 && r >= correlations[lag - 1] && r >= correlations[lag + 1]) {
+      const a = correlations[lag - 1];
+      const c = correlations[lag + 1];
+      const denominator = a - 2 * r + c;
+      const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+      return sampleRate / (lag + offset);
+    }
+  }
+  return null;
+}
+
+/** Pitch, intensity, pauses and syllable nuclei of a mono recording */
+export function extractAcousticFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<AcousticProsodyConfig> = {}
+): AcousticFeatures {
+  const cfg = { ...DEFAULT_ACOUSTIC_PROSODY_CONFIG, ...config };
+  const frameLength = Math.round((cfg.frameMs / 1000) * sampleRate);
+  const hop = Math.max(1, Math.round((cfg.hopMs / 1000) * sampleRate));
+  const frameCount = samples.length >= frameLength ? Math.floor((samples.length - frameLength) / hop) + 1 : 0;
+
+  const intensityDb: number[] = [];
+  const frames: Float32Array[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const frame = samples.slice(f * hop, f * hop + frameLength);
+    let dc = 0;
+    for (let n = 0; n < frame.length; n++) dc += frame[n];
+    dc /= frame.length;
+    let power = 0;
+    for (let n = 0; n < frame.length; n++) {
+      frame[n] -= dc;
+      power += frame[n] * frame[n];
+    }
+    intensityDb.push(10 * Math.log10(power / frame.length + 1e-10));
+    frames.push(frame);
+  }
+
+  const silenceThresholdDb = Math.max(cfg.minSpeechDb, percentile(intensityDb, 99) + cfg.silenceThresholdDb);
+  const sounding = intensityDb.map(db => db >= silenceThresholdDb);
+  const pitchHz = frames.map((frame, f) => (sounding[f] ? framePitch(frame, sampleRate, cfg) : null));
+
+  // Frame f is reported at its centre
+  const timeOf = (f: number) => Math.round(f * cfg.hopMs + cfg.frameMs / 2);
+  const firstSounding = sounding.indexOf(true);
+  const lastSounding = sounding.lastIndexOf(true);
+
+  const pauses: AcousticFeatures['pauses'] = [];
+  if (firstSounding >= 0) {
+    let silentFrom: number | null = null;
+    for (let f = firstSounding; f <= lastSounding; f++) {
+      if (!sounding[f] && silentFrom === null) silentFrom = f;
+      if (sounding[f] && silentFrom !== null) {
+        if ((f - silentFrom) * cfg.hopMs >= cfg.minPauseMs) {
+          pauses.push({ startMs: timeOf(silentFrom), endMs: timeOf(f) });
+        }
+        silentFrom = null;
+      }
+    }
+  }
+
+  // Syllable nuclei: sounding intensity peaks with a big enough dip between them, kept if voiced
+  const peaks: number[] = [];
+  for (let f = 1; f < intensityDb.length - 1; f++) {
+    if (!sounding[f] || intensityDb[f] <= intensityDb[f - 1] || intensityDb[f] < intensityDb[f + 1]) continue;
+    const previous = peaks[peaks.length - 1];
+    if (previous === undefined) {
+      peaks.push(f);
+      continue;
+    }
+    let dip = Infinity;
+    for (let k = previous; k <= f; k++) dip = Math.min(dip, intensityDb[k]);
+    if (intensityDb[previous] - dip >= cfg.minDipDb && intensityDb[f] - dip >= cfg.minDipDb) {
+      peaks.push(f);
+    } else if (intensityDb[f] > intensityDb[previous]) {
+      peaks[peaks.length - 1] = f;
+    }
+  }
+  const syllableNucleiMs = peaks.filter(f => pitchHz[f] !== null).map(timeOf);
+
+  return {
+    sampleRate,
+    durationMs: Math.round((samples.length / sampleRate) * 1000),
+    hopMs: cfg.hopMs,
+    pitchHz: pitchHz.map(hz => (hz === null ? null : round1(hz))),
+    intensityDb: intensityDb.map(round1),
+    silenceThresholdDb: round1(silenceThresholdDb),
+    speechStartMs: firstSounding >= 0 ? timeOf(firstSounding) : 0,
+    speechEndMs: lastSounding >= 0 ? timeOf(lastSounding) : 0,
+    pauses,
+    syllableNucleiMs,
+  };
+}
+
+/** Summary measures and sub-scores from extracted features */
+export function scoreAcousticProsody(
+  features: AcousticFeatures,
+  config: Partial<AcousticProsodyConfig> = {}
+): { summary: AcousticProsodySummary; scores: ProsodySubScores } {
+  const cfg = { ...DEFAULT_ACOUSTIC_PROSODY_CONFIG, ...config };
+  const voiced = features.pitchHz.filter((hz): hz is number => hz !== null);
+  // Semitones re 100 Hz, so spread is comparable across voices
+  const semitones = voiced.map(hz => 12 * Math.log2(hz / 100));
+  const soundingDb = features.intensityDb.filter(db => db >= features.silenceThresholdDb);
+
+  const speechMs = Math.max(0, features.speechEndMs - features.speechStartMs);
+  const pauseMs = features.pauses.reduce((sum, p) => sum + (p.endMs - p.startMs), 0);
+  const phonationTimeMs = Math.max(0, speechMs - pauseMs);
+  const syllableCount = features.syllableNucleiMs.length;
+  const longPauseCount = features.pauses.filter(p => p.endMs - p.startMs >= cfg.longPauseMs).length;
+
+  const summary: AcousticProsodySummary = {
+    pitchMeanHz: voiced.length > 0 ? round1(mean(voiced)) : null,
+    pitchRangeSemitones: round1(percentile(semitones, 95) - percentile(semitones, 5)),
+    pitchSdSemitones: round1(sd(semitones)),
+    intensitySdDb: round1(sd(soundingDb)),
+    syllableCount,
+    speakingRate: speechMs > 0 ? round1(syllableCount / (speechMs / 1000)) : 0,
+    articulationRate: phonationTimeMs > 0 ? round1(syllableCount / (phonationTimeMs / 1000)) : 0,
+    phonationTimeMs,
+    pauseCount: features.pauses.length,
+    meanPauseMs: Math.round(features.pauses.length > 0 ? pauseMs / features.pauses.length : 0),
+    longPauseCount,
+    meanRunSyllables: round1(syllableCount / (features.pauses.length + 1)),
+  };
+
+  if (speechMs === 0) {
+    return { summary, scores: { phrasing: 0, expression: 0, smoothness: 0, overall: 0 } };
+  }
+
+  // Word-by-word reading runs one or two syllables between pauses; phrased reading runs eight or more
+  const phrasing = ramp(summary.meanRunSyllables, 2, 8);
+  // Monotone reading varies pitch by about a semitone; expressive reading by four or more
+  const expression = 0.75 * ramp(summary.pitchSdSemitones, 1, 4) + 0.25 * ramp(summary.intensitySdDb, 3, 8);
+  // Share of the reading spent silent, and hesitations per minute
+  const smoothness = 0.5 * (1 - ramp(pauseMs / speechMs, 0.1, 0.5))
+    + 0.5 * (1 - ramp(longPauseCount / (speechMs / 60000), 0, 6));
+
+  const scores = {
+    phrasing: Math.round(phrasing * 100),
+    expression: Math.round(expression * 100),
+    smoothness: Math.round(smoothness * 100),
+  };
+  return {
+    summary,
+    scores: { ...scores, overall: Math.round((scores.phrasing + scores.expression + scores.smoothness) / 3) },
+  };
+}
+
+// Contour resolution kept with saved results; a tenth of the analysis frames
+export const STORED_CONTOUR_HOP_MS = 100;
+
+/** Features with the pitch and intensity contours averaged into coarser frames */
+export function downsampleAcousticFeatures(
+  features: AcousticFeatures,
+  hopMs: number = STORED_CONTOUR_HOP_MS
+): AcousticFeatures {
+  const step = Math.max(1, Math.round(hopMs / features.hopMs));
+  if (step === 1) return features;
+
+  const pitchHz: (number | null)[] = [];
+  const intensityDb: number[] = [];
+  for (let f = 0; f < features.intensityDb.length; f += step) {
+    const voiced = features.pitchHz.slice(f, f + step).filter((hz): hz is number => hz !== null);
+    pitchHz.push(voiced.length > 0 ? round1(mean(voiced)) : null);
+    intensityDb.push(round1(mean(features.intensityDb.slice(f, f + step))));
+  }
+  return { ...features, hopMs: features.hopMs * step, pitchHz, intensityDb };
+}
+
+export function analyzeAcousticProsody(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<AcousticProsodyConfig> = {}
+): AcousticProsodyAnalysis {
+  const features = extractAcousticFeatures(samples, sampleRate, config);
+  return { features, ...scoreAcousticProsody(features, config) };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  DEFAULT_BIOMARKER_CONFIG,
+  calculateBiomarkerRiskScore,
+  classifyRisk,
+  emptyBiomarkers,
+  extractBiomarkers,
+} from './biomarkers.ts';
+import { correctLineDrift } from './driftCorrection.ts';
+import { classifyGazeSamples } from './remodnavClassifier.ts';
+import type { DyslexiaBiomarkers, FixationEvent, RiskLevel } from './types.ts';
+import { toReadingFixations } from './wordAoi.ts';
+import {
+  NORMAL_READER,
+  REGRESSIVE_READER,
+  STEP_BY_STEP_DECODER,
+  generateGoldenTrace,
+} from '../../test/gazeTraces.ts';
+
+// Biomarkers as a session with a measured passage layout is scored: the
+// classified fixations are drift-corrected onto the lines, so only line-aware
+// regressions count towards the regression rate
+function biomarkersFor(profile: typeof NORMAL_READER): DyslexiaBiomarkers {
+  const trace = generateGoldenTrace(profile);
+  const metrics = classifyGazeSamples(trace.samples);
+  const fixations = metrics.events.filter((e): e is FixationEvent => e.type === 'fixation');
+  const { summary } = correctLineDrift(toReadingFixations(fixations), trace.layout);
+
+  return extractBiomarkers({
+    ...metrics,
+    regressionCount: summary.regressionCount,
+    regressionRate: metrics.saccadeCount > 0 ? (summary.regressionCount / metrics.saccadeCount) * 100 : 0,
+  });
+}
+
+describe('biomarkers on golden traces', () => {
+  it('rates the normal reader low risk', () => {
+    const b = biomarkersFor(NORMAL_READER);
+
+    expect(b.fixationDwellRisk).toBe('low');
+    expect(b.stepByStepDecoding).toBe(false);
+    expect(b.regressionRateRisk).toBe('low');
+    expect(b.overallRisk).toBe('low');
+  });
+
+  it('flags the regressive reader on regression rate', () => {
+    const b = biomarkersFor(REGRESSIVE_READER);
+
+    expect(b.regressionRate).toBeGreaterThan(DEFAULT_BIOMARKER_CONFIG.regressionRateHighThreshold);
+    expect(b.regressionRateRisk).toBe('high');
+    expect(b.overallRisk).toBe('high');
+  });
+
+  it('detects step-by-step decoding and long dwell in the decoder', () => {
+    const b = biomarkersFor(STEP_BY_STEP_DECODER);
+
+    expect(b.stepByStepDecoding).toBe(true);
+    expect(b.averageSaccadeLength).toBeLessThan(DEFAULT_BIOMARKER_CONFIG.stepByStepAmplitudeMax + 2);
+    expect(b.fixationDwellRisk).toBe('high');
+    expect(b.overallRisk).toBe('high');
+  });
+
+  it('orders the three readers by risk score', () => {
+    const normal = biomarkersFor(NORMAL_READER).dyslexiaRiskScore;
+    const regressive = biomarkersFor(REGRESSIVE_READER).dyslexiaRiskScore;
+    const decoder = biomarkersFor(STEP_BY_STEP_DECODER).dyslexiaRiskScore;
+
+    expect(normal).toBeLessThan(regressive);
+    expect(normal).toBeLessThan(decoder);
+  });
+
+  it('stays low risk with zero confidence before any data', () => {
+    const b = extractBiomarkers(classifyGazeSamples([]));
+
+    expect(b.overallRisk).toBe(emptyBiomarkers().overallRisk);
+    expect(b.confidence).toBe(0);
+  });
+});
+
+describe('biomarker score invariants', () => {
+  const risk = fc.constantFrom<RiskLevel>('low', 'moderate', 'high');
+  const biomarkers = fc.record({
+    regressionRate: fc.double({ min: 0, max: 100, noNaN: true }),
+    regressionRateRisk: risk,
+    fixationDwell: fc.double({ min: 0, max: 2000, noNaN: true }),
+    fixationDwellRisk: risk,
+    stepByStepDecoding: fc.boolean(),
+    averageSaccadeLength: fc.double({ min: 0, max: 40, noNaN: true }),
+    prolongedFixationRate: fc.double({ min: 0, max: 100, noNaN: true }),
+    glissadeRate: fc.double({ min: 0, max: 100, noNaN: true }),
+    motorControlIssue: fc.boolean(),
+  }) satisfies fc.Arbitrary<Partial<DyslexiaBiomarkers>>;
+
+  it('keeps the risk score within 0-100', () => {
+    fc.assert(
+      fc.property(biomarkers, b => {
+        const score = calculateBiomarkerRiskScore(b);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+      })
+    );
+  });
+
+  it('never lowers the score as the regression rate rises', () => {
+    const cfg = DEFAULT_BIOMARKER_CONFIG;
+    const withRate = (b: Partial<DyslexiaBiomarkers>, rate: number) => ({
+      ...b,
+      regressionRate: rate,
+      regressionRateRisk: classifyRisk(rate, cfg.regressionRateHighThreshold, cfg.regressionRateModerateThreshold),
+    });
+
+    fc.assert(
+      fc.property(
+        biomarkers,
+        fc.double({ min: 0, max: 100, noNaN: true }),
+        fc.double({ min: 0, max: 100, noNaN: true }),
+        (b, r1, r2) => {
+          const [low, high] = r1 <= r2 ? [r1, r2] : [r2, r1];
+          expect(calculateBiomarkerRiskScore(withRate(b, high)))
+            .toBeGreaterThanOrEqual(calculateBiomarkerRiskScore(withRate(b, low)));
+        }
+      )
+    );
+  });
+});
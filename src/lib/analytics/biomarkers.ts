@@ -0,0 +1,316 @@
+/**
+ * Dyslexia Biomarker Extraction with Random Forest-style scoring
+ *
+ * Extracts clinical biomarkers:
+ * 1. Regression Rate (backward saccades, >20% = High Risk)
+ * 2. Fixation Dwell (pause duration, >330ms = High Risk)
+ * 3. Saccadic Amplitude (short jumps 2-4 chars = step-by-step decoding)
+ */
+
+import type {
+  RiskLevel,
+  DyslexiaBiomarkers,
+  REMoDNaVMetrics,
+  FixationEvent,
+  SaccadeEvent,
+} from './types.ts';
+
+export interface BiomarkerConfig {
+  regressionRateHighThreshold: number;
+  regressionRateModerateThreshold: number;
+  fixationDwellHighThreshold: number;
+  fixationDwellModerateThreshold: number;
+  stepByStepAmplitudeMax: number; // 2-4 character jumps
+  stepByStepAmplitudeMin: number;
+  psoRateThreshold: number;
+  minSamplesForConfidence: number;
+  characterWidth: number; // pixels per character
+}
+
+export const DEFAULT_BIOMARKER_CONFIG: BiomarkerConfig = {
+  regressionRateHighThreshold: 20, // >20% = high risk
+  regressionRateModerateThreshold: 10, // 10-20% = moderate
+  fixationDwellHighThreshold: 330, // >330ms = high risk
+  fixationDwellModerateThreshold: 250, // 250-330ms = moderate
+  stepByStepAmplitudeMax: 4, // characters
+  stepByStepAmplitudeMin: 2, // characters
+  psoRateThreshold: 30, // >30% PSO after saccades
+  minSamplesForConfidence: 10,
+  characterWidth: 10, // approximate pixels per character
+};
+
+// Random Forest-style decision tree ensemble weights
+export const DECISION_TREE_WEIGHTS = {
+  regressionRate: {
+    high: 0.35,
+    moderate: 0.20,
+    feature: 0.30,
+  },
+  fixationDwell: {
+    high: 0.30,
+    moderate: 0.15,
+    feature: 0.25,
+  },
+  saccadicAmplitude: {
+    stepByStep: 0.25,
+    feature: 0.20,
+  },
+  motorControl: {
+    pso: 0.10,
+    glissade: 0.05,
+    feature: 0.15,
+  },
+  prolongedFixation: {
+    feature: 0.10,
+  },
+};
+
+// 1 degree ≈ 35 pixels at typical viewing distance
+const PIXELS_PER_DEGREE = 35;
+
+// Classify risk level based on threshold
+export function classifyRisk(
+  value: number,
+  highThreshold: number,
+  moderateThreshold: number,
+  higherIsBad: boolean = true
+): RiskLevel {
+  if (higherIsBad) {
+    if (value >= highThreshold) return 'high';
+    if (value >= moderateThreshold) return 'moderate';
+    return 'low';
+  }
+  if (value <= highThreshold) return 'high';
+  if (value <= moderateThreshold) return 'moderate';
+  return 'low';
+}
+
+// Convert amplitude (degrees) to character widths
+function amplitudeToCharacters(amplitudeDegrees: number, cfg: BiomarkerConfig): number {
+  return (amplitudeDegrees * PIXELS_PER_DEGREE) / cfg.characterWidth;
+}
+
+// Detect step-by-step decoding pattern
+function detectStepByStepDecoding(saccades: SaccadeEvent[], cfg: BiomarkerConfig): boolean {
+  if (saccades.length < 3) return false;
+
+  // Check if majority of saccades are small (2-4 character jumps)
+  let smallJumpCount = 0;
+  for (const saccade of saccades) {
+    const charWidth = amplitudeToCharacters(saccade.amplitude, cfg);
+    if (charWidth >= cfg.stepByStepAmplitudeMin && charWidth <= cfg.stepByStepAmplitudeMax) {
+      smallJumpCount++;
+    }
+  }
+
+  // If >60% of saccades are small jumps, detect step-by-step
+  return (smallJumpCount / saccades.length) > 0.6;
+}
+
+function calculateProlongedFixationRate(fixations: FixationEvent[], cfg: BiomarkerConfig): number {
+  if (fixations.length === 0) return 0;
+
+  const prolonged = fixations.filter(f => f.duration > cfg.fixationDwellHighThreshold);
+  return (prolonged.length / fixations.length) * 100;
+}
+
+/**
+ * Random Forest-style weighted scoring, clamped to 0-100
+ */
+export function calculateBiomarkerRiskScore(biomarkers: Partial<DyslexiaBiomarkers>): number {
+  let score = 0;
+  const weights = DECISION_TREE_WEIGHTS;
+
+  // Regression rate contribution
+  if (biomarkers.regressionRateRisk === 'high') {
+    score += weights.regressionRate.high * 100;
+  } else if (biomarkers.regressionRateRisk === 'moderate') {
+    score += weights.regressionRate.moderate * 100;
+  }
+  // Continuous feature contribution
+  if (biomarkers.regressionRate !== undefined) {
+    score += weights.regressionRate.feature * Math.min(biomarkers.regressionRate / 30, 1) * 100;
+  }
+
+  // Fixation dwell contribution
+  if (biomarkers.fixationDwellRisk === 'high') {
+    score += weights.fixationDwell.high * 100;
+  } else if (biomarkers.fixationDwellRisk === 'moderate') {
+    score += weights.fixationDwell.moderate * 100;
+  }
+  if (biomarkers.fixationDwell !== undefined) {
+    score += weights.fixationDwell.feature * Math.min(biomarkers.fixationDwell / 500, 1) * 100;
+  }
+
+  // Saccadic amplitude (step-by-step) contribution
+  if (biomarkers.stepByStepDecoding) {
+    score += weights.saccadicAmplitude.stepByStep * 100;
+  }
+  if (biomarkers.averageSaccadeLength !== undefined) {
+    // Lower amplitude is concerning
+    const amplitudeScore = biomarkers.averageSaccadeLength < 5
+      ? (5 - biomarkers.averageSaccadeLength) / 5
+      : 0;
+    score += weights.saccadicAmplitude.feature * amplitudeScore * 100;
+  }
+
+  // Motor control issues
+  if (biomarkers.motorControlIssue) {
+    score += weights.motorControl.pso * 100;
+  }
+  if (biomarkers.glissadeRate !== undefined && biomarkers.glissadeRate > 20) {
+    score += weights.motorControl.glissade * 100;
+  }
+
+  // Prolonged fixation contribution
+  if (biomarkers.prolongedFixationRate !== undefined) {
+    score += weights.prolongedFixation.feature * Math.min(biomarkers.prolongedFixationRate / 50, 1) * 100;
+  }
+
+  return Math.min(100, Math.max(0, score));
+}
+
+// Generate feature vector for external ML systems
+export function generateFeatureVector(biomarkers: Partial<DyslexiaBiomarkers>): number[] {
+  return [
+    biomarkers.regressionRate || 0,
+    biomarkers.fixationDwell || 0,
+    biomarkers.saccadicAmplitude || 0,
+    biomarkers.averageSaccadeLength || 0,
+    biomarkers.prolongedFixationRate || 0,
+    biomarkers.psoRate || 0,
+    biomarkers.glissadeRate || 0,
+    biomarkers.stepByStepDecoding ? 1 : 0,
+    biomarkers.motorControlIssue ? 1 : 0,
+  ];
+}
+
+/**
+ * Extract the full biomarker set from classified movement events
+ */
+export function extractBiomarkers(
+  metrics: REMoDNaVMetrics,
+  config: Partial<BiomarkerConfig> = {}
+): DyslexiaBiomarkers {
+  const cfg: BiomarkerConfig = { ...DEFAULT_BIOMARKER_CONFIG, ...config };
+  const saccades = metrics.events.filter(e => e.type === 'saccade') as SaccadeEvent[];
+  const fixations = metrics.events.filter(e => e.type === 'fixation') as FixationEvent[];
+
+  // Calculate core biomarkers
+  const regressionRate = metrics.regressionRate;
+  const regressionRateRisk = classifyRisk(
+    regressionRate,
+    cfg.regressionRateHighThreshold,
+    cfg.regressionRateModerateThreshold
+  );
+
+  const fixationDwell = metrics.averageFixationDuration;
+  const fixationDwellRisk = classifyRisk(
+    fixationDwell,
+    cfg.fixationDwellHighThreshold,
+    cfg.fixationDwellModerateThreshold
+  );
+
+  const saccadicAmplitude = metrics.averageSaccadeAmplitude;
+  const averageSaccadeLength = amplitudeToCharacters(saccadicAmplitude, cfg);
+  const saccadicAmplitudeRisk = classifyRisk(
+    averageSaccadeLength,
+    cfg.stepByStepAmplitudeMax,
+    cfg.stepByStepAmplitudeMax + 2,
+    false // Lower is worse (step-by-step)
+  );
+
+  const stepByStepDecoding = detectStepByStepDecoding(saccades, cfg);
+  const prolongedFixationRate = calculateProlongedFixationRate(fixations, cfg);
+
+  // PSO/Glissade analysis
+  const psoRate = saccades.length > 0
+    ? (saccades.filter(s => s.hasPSO).length / saccades.length) * 100
+    : 0;
+  const glissadeRate = saccades.length > 0
+    ? (saccades.filter(s => s.hasGlissade).length / saccades.length) * 100
+    : 0;
+  const motorControlIssue = psoRate > cfg.psoRateThreshold || glissadeRate > 20;
+
+  // Build partial biomarkers for scoring
+  const partialBiomarkers: Partial<DyslexiaBiomarkers> = {
+    regressionRate,
+    regressionRateRisk,
+    fixationDwell,
+    fixationDwellRisk,
+    saccadicAmplitude,
+    saccadicAmplitudeRisk,
+    stepByStepDecoding,
+    averageSaccadeLength,
+    prolongedFixationRate,
+    psoRate,
+    glissadeRate,
+    motorControlIssue,
+  };
+
+  const dyslexiaRiskScore = calculateBiomarkerRiskScore(partialBiomarkers);
+
+  let overallRisk: RiskLevel = 'low';
+  if (dyslexiaRiskScore >= 60) {
+    overallRisk = 'high';
+  } else if (dyslexiaRiskScore >= 35) {
+    overallRisk = 'moderate';
+  }
+
+  // Confidence grows with the number of classified events
+  const confidence = Math.min(1, metrics.events.length / (cfg.minSamplesForConfidence * 5));
+
+  // Estimate reading speed (WPM) from fixation and saccade data
+  const totalReadingTime = metrics.totalReadingTime / 1000; // seconds
+  const estimatedWordsRead = fixations.length * 1.2; // ~1.2 words per fixation on average
+  const estimatedReadingSpeed = totalReadingTime > 0
+    ? Math.round((estimatedWordsRead / totalReadingTime) * 60)
+    : 0;
+
+  return {
+    regressionRate,
+    regressionRateRisk,
+    fixationDwell,
+    fixationDwellRisk,
+    saccadicAmplitude,
+    saccadicAmplitudeRisk,
+    stepByStepDecoding,
+    averageSaccadeLength,
+    prolongedFixationRate,
+    psoRate,
+    glissadeRate,
+    motorControlIssue,
+    dyslexiaRiskScore,
+    overallRisk,
+    riskLevel: overallRisk,
+    featureVector: generateFeatureVector(partialBiomarkers),
+    confidence,
+    estimatedReadingSpeed,
+  };
+}
+
+/**
+ * Biomarkers reported before any gaze data has been classified
+ */
+export function emptyBiomarkers(): DyslexiaBiomarkers {
+  return {
+    regressionRate: 0,
+    regressionRateRisk: 'low',
+    fixationDwell: 0,
+    fixationDwellRisk: 'low',
+    saccadicAmplitude: 0,
+    saccadicAmplitudeRisk: 'low',
+    stepByStepDecoding: false,
+    averageSaccadeLength: 0,
+    prolongedFixationRate: 0,
+    psoRate: 0,
+    glissadeRate: 0,
+    motorControlIssue: false,
+    dyslexiaRiskScore: 0,
+    overallRisk: 'low',
+    riskLevel: 'low',
+    featureVector: [],
+    confidence: 0,
+    estimatedReadingSpeed: 0,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isClinicalGrade,
+  validateCalibration,
+  validateDeviceCalibration,
+  type ValidationTargetRecording,
+} from './calibrationValidation.ts';
+import { seededRandom } from './syntheticReader.ts';
+
+const PPD = 35;
+
+// One second of 60 Hz gaze on a target, offset and jittered in pixels
+function target(x: number, y: number, offset = { x: 0, y: 0 }, noisePx = 0, seed = 1): ValidationTargetRecording {
+  const random = seededRandom(seed);
+  const samples = Array.from({ length: 60 }, (_, i) => ({
+    x: x + offset.x + (random() - 0.5) * 2 * noisePx,
+    y: y + offset.y + (random() - 0.5) * 2 * noisePx,
+    timestamp: 1000 + i * (1000 / 60),
+  }));
+  return { x, y, shownAt: 1000, samples };
+}
+
+const grid = (offset = { x: 0, y: 0 }, noisePx = 0) =>
+  [[300, 200], [700, 200], [500, 400], [300, 600], [700, 600]].map(([x, y], i) => target(x, y, offset, noisePx, i + 1));
+
+describe('calibration validation', () => {
+  it('passes steady gaze on the targets', () => {
+    const result = validateCalibration(grid({ x: 0, y: 0 }, 3), { pixelsPerDegree: PPD });
+
+    expect(result.verdict).toBe('pass');
+    expect(result.accuracy!).toBeLessThan(0.2);
+    expect(result.validPointRatio).toBe(1);
+    expect(isClinicalGrade(result)).toBe(true);
+  });
+
+  it('reports accuracy in degrees and fails a large constant offset', () => {
+    const result = validateCalibration(grid({ x: 4 * PPD, y: 0 }), { pixelsPerDegree: PPD });
+
+    expect(result.accuracy).toBeCloseTo(4, 5);
+    expect(result.points[0].offsetX).toBeCloseTo(4, 5);
+    expect(result.precision).toBeCloseTo(0, 5);
+    expect(result.verdict).toBe('fail');
+    expect(isClinicalGrade(result)).toBe(false);
+  });
+
+  it('warns between the warn and fail thresholds', () => {
+    const result = validateCalibration(grid({ x: 0, y: 2.5 * PPD }), { pixelsPerDegree: PPD });
+
+    expect(result.verdict).toBe('warn');
+    expect(isClinicalGrade(result)).toBe(true);
+  });
+
+  it('treats a skipped validation as screening only', () => {
+    expect(isClinicalGrade(null)).toBe(false);
+    expect(isClinicalGrade(undefined)).toBe(false);
+  });
+
+  it('ignores samples before the eyes settle on the target', () => {
+    const recording = target(500, 400);
+    // Gaze still travelling from the previous target
+    recording.samples.slice(0, 20).forEach(s => { s.x -= 300; });
+
+    const point = validateCalibration([recording], { pixelsPerDegree: PPD, settleMs: 400 }).points[0];
+
+    expect(point.accuracy).toBeCloseTo(0, 5);
+    expect(point.sampleCount).toBe(36);
+  });
+
+  it('fails when too few targets were tracked', () => {
+    const targets = grid();
+    targets.slice(0, 2).forEach(t => { t.samples = t.samples.slice(0, 2); });
+
+    const result = validateCalibration(targets, { pixelsPerDegree: PPD });
+
+    expect(result.validPointRatio).toBeCloseTo(0.6);
+    expect(result.points[0].valid).toBe(false);
+    expect(result.verdict).toBe('fail');
+  });
+
+  it('judges a tracker\'s own calibration on its reported accuracy', () => {
+    const points = [{ x: 100, y: 100, accuracy: 0.3 }, { x: 900, y: 600, accuracy: 0.5 }];
+
+    const tobii = validateDeviceCalibration({ averageAccuracy: 0.4, points });
+    expect(tobii).toMatchObject({ source: 'device', verdict: 'pass', accuracy: 0.4, worstAccuracy: 0.5, precision: null });
+    expect(isClinicalGrade(tobii)).toBe(true);
+
+    expect(validateDeviceCalibration({ averageAccuracy: 4, points: [] }).verdict).toBe('fail');
+    expect(validateDeviceCalibration({ averageAccuracy: null, points: [] }).verdict).toBe('fail');
+  });
+
+  it('keeps synthetic readings out of clinical results without failing them', () => {
+    const synthetic = validateDeviceCalibration({ averageAccuracy: 0.2, points: [] }, { synthetic: true });
+
+    expect(synthetic).toMatchObject({ source: 'synthetic', verdict: 'pass' });
+    expect(isClinicalGrade(synthetic)).toBe(false);
+  });
+});
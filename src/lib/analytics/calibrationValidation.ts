@@ -0,0 +1,240 @@
+/**
+ * Calibration Validation
+ * After calibration the reader fixates a fresh set of targets. For each one
+ * the gaze recorded once the eyes have settled gives:
+ * - accuracy:  mean angular offset between gaze samples and the target
+ * - precision: RMS of sample-to-sample angular distances (RMS-S2S), plus the
+ *              standard deviation around the gaze centroid
+ * Trackers that run their own calibration (clinical hardware, the synthetic
+ * reader) report an accuracy instead, which is judged against the same
+ * thresholds. Sessions whose validation falls below the thresholds should not
+ * be scored as clinical results.
+ */
+
+import type { GazePoint } from '../../types/diagnostic.ts';
+
+export interface CalibrationValidationConfig {
+  pixelsPerDegree: number;
+  // Samples in this window after a target appears are the eyes still landing on it
+  settleMs: number;
+  minSamplesPerPoint: number;
+  // Degrees; above warn the session is flagged, above fail it is not clinical grade
+  warnAccuracy: number;
+  failAccuracy: number;
+  warnPrecision: number;
+  failPrecision: number;
+  // Share of targets that must collect enough samples
+  minValidPointRatio: number;
+}
+
+export const DEFAULT_CALIBRATION_VALIDATION_CONFIG: CalibrationValidationConfig = {
+  pixelsPerDegree: 35,
+  settleMs: 500,
+  minSamplesPerPoint: 5,
+  warnAccuracy: 2.0,
+  failAccuracy: 3.5,
+  warnPrecision: 0.5,
+  failPrecision: 1.5,
+  minValidPointRatio: 0.75,
+};
+
+export type CalibrationVerdict = 'pass' | 'warn' | 'fail';
+
+// Validation targets shown by the app, a tracker's own calibration report, or
+// the synthetic reader (never a student, so never clinical grade)
+export type CalibrationValidationSource = 'targets' | 'device' | 'synthetic';
+
+export interface ValidationTargetRecording {
+  x: number;
+  y: number;
+  shownAt: number;
+  samples: GazePoint[];
+}
+
+export interface CalibrationValidationPoint {
+  x: number;
+  y: number;
+  sampleCount: number;
+  valid: boolean;
+  accuracy: number | null; // degrees
+  precision: number | null; // RMS-S2S, degrees
+  precisionSd: number | null; // degrees
+  // Mean gaze bias from the target, degrees (+x right, +y down)
+  offsetX: number | null;
+  offsetY: number | null;
+}
+
+export interface CalibrationValidationResult {
+  points: CalibrationValidationPoint[];
+  accuracy: number | null;
+  precision: number | null;
+  worstAccuracy: number | null;
+  validPointRatio: number;
+  verdict: CalibrationVerdict;
+  reasons: string[];
+  thresholds: Pick<
+    CalibrationValidationConfig,
+    'warnAccuracy' | 'failAccuracy' | 'warnPrecision' | 'failPrecision' | 'minValidPointRatio'
+  >;
+  pixelsPerDegree: number;
+  validatedAt: number;
+  // Absent on results recorded before trackers could report their own; those are 'targets'
+  source?: CalibrationValidationSource;
+}
+
+// What a tracker reports from its own calibration routine
+export interface DeviceCalibrationReport {
+  averageAccuracy: number | null; // degrees
+  points: Array<{ x: number; y: number; accuracy: number }>;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const thresholdsOf = (cfg: CalibrationValidationConfig): CalibrationValidationResult['thresholds'] => ({
+  warnAccuracy: cfg.warnAccuracy,
+  failAccuracy: cfg.failAccuracy,
+  warnPrecision: cfg.warnPrecision,
+  failPrecision: cfg.failPrecision,
+  minValidPointRatio: cfg.minValidPointRatio,
+});
+
+function measurePoint(target: ValidationTargetRecording, cfg: CalibrationValidationConfig): CalibrationValidationPoint {
+  const samples = target.samples
+    .filter(s => s.timestamp >= target.shownAt + cfg.settleMs)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const base = { x: target.x, y: target.y, sampleCount: samples.length };
+
+  if (samples.length < cfg.minSamplesPerPoint) {
+    return { ...base, valid: false, accuracy: null, precision: null, precisionSd: null, offsetX: null, offsetY: null };
+  }
+
+  const toDegrees = (px: number) => px / cfg.pixelsPerDegree;
+  const accuracy = mean(samples.map(s => toDegrees(Math.hypot(s.x - target.x, s.y - target.y))));
+
+  const steps = samples.slice(1).map((s, i) => toDegrees(Math.hypot(s.x - samples[i].x, s.y - samples[i].y)));
+  const precision = Math.sqrt(mean(steps.map(d => d * d)));
+
+  const centroidX = mean(samples.map(s => s.x));
+  const centroidY = mean(samples.map(s => s.y));
+  const precisionSd = Math.sqrt(mean(samples.map(s => toDegrees(Math.hypot(s.x - centroidX, s.y - centroidY)) ** 2)));
+
+  return {
+    ...base,
+    valid: true,
+    accuracy,
+    precision,
+    precisionSd,
+    offsetX: toDegrees(centroidX - target.x),
+    offsetY: toDegrees(centroidY - target.y),
+  };
+}
+
+export function validateCalibration(
+  targets: ValidationTargetRecording[],
+  config: Partial<CalibrationValidationConfig> = {}
+): CalibrationValidationResult {
+  const cfg = { ...DEFAULT_CALIBRATION_VALIDATION_CONFIG, ...config };
+  const points = targets.map(t => measurePoint(t, cfg));
+  const valid = points.filter(p => p.valid);
+  const validPointRatio = points.length > 0 ? valid.length / points.length : 0;
+
+  const accuracy = valid.length > 0 ? mean(valid.map(p => p.accuracy!)) : null;
+  const precision = valid.length > 0 ? mean(valid.map(p => p.precision!)) : null;
+  const worstAccuracy = valid.length > 0 ? Math.max(...valid.map(p => p.accuracy!)) : null;
+
+  const failures: string[] = [];
+  const warnings: string[] = [];
+
+  if (validPointRatio < cfg.minValidPointRatio) {
+    failures.push(`Gaze was only tracked on ${valid.length} of ${points.length} targets`);
+  }
+  if (accuracy !== null) {
+    if (accuracy > cfg.failAccuracy) {
+      failures.push(`Accuracy ${accuracy.toFixed(2)}° is worse than ${cfg.failAccuracy}°`);
+    } else if (accuracy > cfg.warnAccuracy) {
+      warnings.push(`Accuracy ${accuracy.toFixed(2)}° is worse than ${cfg.warnAccuracy}°`);
+    }
+  }
+  if (precision !== null) {
+    if (precision > cfg.failPrecision) {
+      failures.push(`Precision ${precision.toFixed(2)}° RMS is worse than ${cfg.failPrecision}°`);
+    } else if (precision > cfg.warnPrecision) {
+      warnings.push(`Precision ${precision.toFixed(2)}° RMS is worse than ${cfg.warnPrecision}°`);
+    }
+  }
+
+  return {
+    points,
+    accuracy,
+    precision,
+    worstAccuracy,
+    validPointRatio,
+    verdict: failures.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass',
+    reasons: [...failures, ...warnings],
+    thresholds: thresholdsOf(cfg),
+    pixelsPerDegree: cfg.pixelsPerDegree,
+    validatedAt: Date.now(),
+    source: 'targets',
+  };
+}
+
+/**
+ * Judge a tracker's own calibration report against the accuracy thresholds.
+ * Trackers don't report precision, so only accuracy decides the verdict.
+ */
+export function validateDeviceCalibration(
+  report: DeviceCalibrationReport,
+  options: { synthetic?: boolean } = {},
+  config: Partial<CalibrationValidationConfig> = {}
+): CalibrationValidationResult {
+  const cfg = { ...DEFAULT_CALIBRATION_VALIDATION_CONFIG, ...config };
+  const accuracy = report.averageAccuracy;
+  const points: CalibrationValidationPoint[] = report.points.map(p => ({
+    x: p.x,
+    y: p.y,
+    sampleCount: 0,
+    valid: true,
+    accuracy: p.accuracy,
+    precision: null,
+    precisionSd: null,
+    offsetX: null,
+    offsetY: null,
+  }));
+
+  const reasons: string[] = [];
+  let verdict: CalibrationVerdict = 'pass';
+  if (accuracy === null) {
+    verdict = 'fail';
+    reasons.push('The tracker reported no calibration accuracy');
+  } else if (accuracy > cfg.failAccuracy) {
+    verdict = 'fail';
+    reasons.push(`Accuracy ${accuracy.toFixed(2)}° is worse than ${cfg.failAccuracy}°`);
+  } else if (accuracy > cfg.warnAccuracy) {
+    verdict = 'warn';
+    reasons.push(`Accuracy ${accuracy.toFixed(2)}° is worse than ${cfg.warnAccuracy}°`);
+  }
+  if (options.synthetic) reasons.push('Read by the synthetic reader');
+
+  return {
+    points,
+    accuracy,
+    precision: null,
+    worstAccuracy: points.length > 0 ? Math.max(...points.map(p => p.accuracy!)) : accuracy,
+    validPointRatio: 1,
+    verdict,
+    reasons,
+    thresholds: thresholdsOf(cfg),
+    pixelsPerDegree: cfg.pixelsPerDegree,
+    validatedAt: Date.now(),
+    source: options.synthetic ? 'synthetic' : 'device',
+  };
+}
+
+/**
+ * Whether a session may be reported as a clinical result. Sessions without a
+ * validation (skipped calibration, older sessions) and synthetic readings are
+ * screening only.
+ */
+export function isClinicalGrade(validation: CalibrationValidationResult | null | undefined): boolean {
+  return !!validation && validation.verdict !== 'fail' && validation.source !== 'synthetic';
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateADHDIndex,
+  calculateDysgraphiaIndex,
+  calculateDyslexiaIndex,
+  createThresholdLookup,
+  determineRiskLevel,
+} from './diagnosticScoring.ts';
+
+const unit = fc.double({ min: 0, max: 1, noNaN: true });
+const count = fc.integer({ min: 0, max: 500 });
+
+const eyeMetrics = fc.record({
+  totalFixations: count,
+  averageFixationDuration: fc.double({ min: 0, max: 2000, noNaN: true }),
+  regressionCount: count,
+  prolongedFixations: count,
+  chaosIndex: unit,
+  fixationIntersectionCoefficient: unit,
+});
+const voiceMetrics = fc.record({
+  wordsPerMinute: fc.double({ min: 0, max: 400, noNaN: true }),
+  pauseCount: count,
+  averagePauseDuration: fc.double({ min: 0, max: 10000, noNaN: true }),
+  phonemicErrors: count,
+  fluencyScore: fc.double({ min: 0, max: 100, noNaN: true }),
+  prosodyScore: fc.double({ min: 0, max: 100, noNaN: true }),
+  stallCount: count,
+});
+const handwritingMetrics = fc.record({
+  reversalCount: count,
+  letterCrowding: unit,
+  graphicInconsistency: unit,
+  lineAdherence: unit,
+});
+const cognitiveMetrics = fc.record({
+  averagePupilDilation: fc.double({ min: 0, max: 10, noNaN: true }),
+  overloadEvents: count,
+  stressIndicators: count,
+});
+
+// Dataset-derived thresholds, as loaded from dataset_computed_thresholds
+const DATA_DRIVEN = createThresholdLookup([
+  { dataset_type: 'dyslexia', metric_name: 'regression_rate', optimal_threshold: 12, weight: 0.5 },
+  { dataset_type: 'dyslexia', metric_name: 'chaos_index', optimal_threshold: 0.4, weight: 0.3 },
+  { dataset_type: 'dyslexia', metric_name: 'fixation_duration_avg', optimal_threshold: 280, weight: 0.45 },
+]);
+
+describe('diagnostic index invariants', () => {
+  it('keeps every probability index within 0-1', () => {
+    fc.assert(
+      fc.property(eyeMetrics, voiceMetrics, handwritingMetrics, cognitiveMetrics, (eye, voice, hw, cog) => {
+        for (const value of [
+          calculateDyslexiaIndex(eye, voice, hw),
+          calculateDyslexiaIndex(eye, voice, hw, DATA_DRIVEN),
+          calculateADHDIndex(eye, cog),
+          calculateDysgraphiaIndex(hw),
+        ]) {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(1);
+        }
+      })
+    );
+  });
+
+  it('never lowers the dyslexia index as regressions rise', () => {
+    fc.assert(
+      fc.property(eyeMetrics, voiceMetrics, handwritingMetrics, count, (eye, voice, hw, extra) => {
+        for (const lookup of [undefined, DATA_DRIVEN]) {
+          const before = calculateDyslexiaIndex(eye, voice, hw, lookup);
+          const after = calculateDyslexiaIndex({ ...eye, regressionCount: eye.regressionCount + extra }, voice, hw, lookup);
+          expect(after).toBeGreaterThanOrEqual(before);
+        }
+      })
+    );
+  });
+
+  it('derives the overall risk level from the highest index', () => {
+    fc.assert(
+      fc.property(unit, unit, unit, (a, b, c) => {
+        const max = Math.max(a, b, c);
+        expect(determineRiskLevel(a, b, c)).toBe(max >= 0.6 ? 'high' : max >= 0.3 ? 'moderate' : 'low');
+      })
+    );
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Multimodal Diagnostic Scoring
+ * Combines eye tracking, voice, handwriting and cognitive load metrics into
+ * the dyslexia, ADHD and dysgraphia probability indices stored on
+ * `diagnostic_results`. Dataset-derived thresholds are supplied through a
+ * ThresholdLookup so the browser and the re-score job use the same values.
+ */
+
+import type {
+  EyeTrackingMetrics,
+  VoiceMetrics,
+  HandwritingMetrics,
+  CognitiveLoadMetrics,
+} from '../../types/diagnostic.ts';
+import type { RiskLevel } from './types.ts';
+import type { DynamicThresholds } from './etdd70Engine.ts';
+
+/**
+ * Bump whenever a formula, weight or default threshold in this module or in
+ * the ETDD70 engine changes, so stored re-scores can be told apart.
+ */
+export const SCORING_VERSION = '2026.10-2';
+
+export type DatasetType = 'dyslexia' | 'adhd' | 'dysgraphia';
+
+export interface DiagnosticWeights {
+  eyeTracking: number;
+  voice: number;
+  handwriting: number;
+  cognitiveLoad: number;
+}
+
+export const DEFAULT_DIAGNOSTIC_WEIGHTS: DiagnosticWeights = {
+  eyeTracking: 0.35,
+  voice: 0.30,
+  handwriting: 0.20,
+  cognitiveLoad: 0.15,
+};
+
+export interface ThresholdLookup {
+  getThreshold(datasetType: DatasetType, metricName: string, fallback: number): number;
+  getWeight(datasetType: DatasetType, metricName: string, fallback: number): number;
+  isDataDriven: Record<DatasetType, boolean>;
+}
+
+// Minimal shape of a `dataset_computed_thresholds` row
+export interface DatasetThresholdRow {
+  dataset_type: string;
+  metric_name: string;
+  optimal_threshold: number;
+  weight: number;
+  computed_at?: string;
+}
+
+/**
+ * Build a lookup from `dataset_computed_thresholds` rows
+ */
+export function createThresholdLookup(rows: DatasetThresholdRow[]): ThresholdLookup {
+  const map: Record<DatasetType, Record<string, DatasetThresholdRow>> = {
+    dyslexia: {},
+    adhd: {},
+    dysgraphia: {},
+  };
+  const isDataDriven: Record<DatasetType, boolean> = { dyslexia: false, adhd: false, dysgraphia: false };
+
+  for (const row of rows) {
+    const type = row.dataset_type as DatasetType;
+    if (type === 'dyslexia' || type === 'adhd' || type === 'dysgraphia') {
+      map[type][row.metric_name] = row;
+      isDataDriven[type] = true;
+    }
+  }
+
+  return {
+    getThreshold(datasetType, metricName, fallback) {
+      const row = map[datasetType]?.[metricName];
+      return row ? Number(row.optimal_threshold) : fallback;
+    },
+    getWeight(datasetType, metricName, fallback) {
+      const row = map[datasetType]?.[metricName];
+      return row ? Number(row.weight) : fallback;
+    },
+    isDataDriven,
+  };
+}
+
+// Lookup used when no dataset has been processed yet
+export const DEFAULT_THRESHOLD_LOOKUP: ThresholdLookup = createThresholdLookup([]);
+
+/**
+ * Map dataset-derived dyslexia thresholds onto the ETDD70 engine overrides
+ */
+export function toETDD70Thresholds(lookup: ThresholdLookup): DynamicThresholds | undefined {
+  if (!lookup.isDataDriven.dyslexia) return undefined;
+
+  const pick = (metric: string): number | undefined => {
+    const value = lookup.getThreshold('dyslexia', metric, NaN);
+    return Number.isNaN(value) ? undefined : value;
+  };
+
+  return {
+    fixation_duration_avg: pick('fixation_duration_avg'),
+    regression_rate: pick('regression_rate'),
+    chaos_index: pick('chaos_index'),
+    fic_score: pick('fic_score'),
+    reading_speed_wpm: pick('reading_speed_wpm'),
+    prolonged_fixation_rate: pick('prolonged_fixation_rate'),
+  };
+}
+
+// Calculate Dyslexia Probability Index using weighted scoring
+export function calculateDyslexiaIndex(
+  eyeMetrics: EyeTrackingMetrics,
+  voiceMetrics: VoiceMetrics,
+  handwritingMetrics: HandwritingMetrics,
+  lookup: ThresholdLookup = DEFAULT_THRESHOLD_LOOKUP,
+  weights: DiagnosticWeights = DEFAULT_DIAGNOSTIC_WEIGHTS
+): number {
+  // Eye tracking indicators (higher chaos/regressions = higher risk)
+  // Use data-driven thresholds when available for normalization
+  const chaosThreshold = lookup.getThreshold('dyslexia', 'chaos_index', 1);
+  const regressionNorm = lookup.getThreshold('dyslexia', 'regression_rate', 20);
+  const ficThreshold = lookup.getThreshold('dyslexia', 'fic_score', 1);
+
+  const eyeScore = (
+    (Math.min(eyeMetrics.chaosIndex / chaosThreshold, 1) * 0.3) +
+    (Math.min(eyeMetrics.regressionCount / regressionNorm, 1) * 0.25) +
+    (Math.min(eyeMetrics.fixationIntersectionCoefficient / ficThreshold, 1) * 0.25) +
+    (Math.min(eyeMetrics.prolongedFixations / 10, 1) * 0.2)
+  );
+
+  // Voice indicators (lower fluency = higher risk)
+  const stallPenalty = voiceMetrics.stallCount ? Math.min(voiceMetrics.stallCount / 5, 1) * 0.3 : 0;
+  const voiceScore = (
+    (1 - voiceMetrics.fluencyScore / 100) * 0.4 +
+    (1 - voiceMetrics.prosodyScore / 100) * 0.15 +
+    (Math.min(voiceMetrics.phonemicErrors / 10, 1) * 0.15) +
+    stallPenalty
+  );
+
+  // Handwriting indicators
+  const handwritingScore = (
+    (Math.min(handwritingMetrics.reversalCount / 5, 1) * 0.4) +
+    (handwritingMetrics.letterCrowding * 0.25) +
+    (handwritingMetrics.graphicInconsistency * 0.2) +
+    ((1 - handwritingMetrics.lineAdherence) * 0.15)
+  );
+
+  // Use data-driven weights if available
+  const dynamicWeights: DiagnosticWeights = lookup.isDataDriven.dyslexia ? {
+    eyeTracking: lookup.getWeight('dyslexia', 'fixation_duration_avg', weights.eyeTracking),
+    voice: weights.voice,
+    handwriting: weights.handwriting,
+    cognitiveLoad: weights.cognitiveLoad,
+  } : weights;
+
+  // Weighted combination
+  const totalScore = (
+    (eyeScore * dynamicWeights.eyeTracking) +
+    (voiceScore * dynamicWeights.voice) +
+    (handwritingScore * dynamicWeights.handwriting)
+  ) / (dynamicWeights.eyeTracking + dynamicWeights.voice + dynamicWeights.handwriting);
+
+  return Math.min(1, Math.max(0, totalScore));
+}
+
+// Calculate ADHD Probability Index
+export function calculateADHDIndex(
+  eyeMetrics: EyeTrackingMetrics,
+  cognitiveMetrics: CognitiveLoadMetrics
+): number {
+  // ADHD indicators: chaotic scanpaths, stress, overload events
+  const attentionScore = (
+    (eyeMetrics.chaosIndex * 0.4) +
+    (Math.min(cognitiveMetrics.overloadEvents / 5, 1) * 0.3) +
+    (Math.min(cognitiveMetrics.stressIndicators / 10, 1) * 0.3)
+  );
+
+  return Math.min(1, Math.max(0, attentionScore));
+}
+
+// Calculate Dysgraphia Probability Index
+export function calculateDysgraphiaIndex(handwritingMetrics: HandwritingMetrics): number {
+  return Math.min(1, Math.max(0, (
+    (Math.min(handwritingMetrics.reversalCount / 5, 1) * 0.35) +
+    (handwritingMetrics.letterCrowding * 0.25) +
+    (handwritingMetrics.graphicInconsistency * 0.25) +
+    ((1 - handwritingMetrics.lineAdherence) * 0.15)
+  )));
+}
+
+// Determine overall risk level from the highest index
+export function determineRiskLevel(
+  dyslexiaIndex: number,
+  adhdIndex: number,
+  dysgraphiaIndex: number
+): RiskLevel {
+  const maxIndex = Math.max(dyslexiaIndex, adhdIndex, dysgraphiaIndex);
+
+  if (maxIndex >= 0.6) return 'high';
+  if (maxIndex >= 0.3) return 'moderate';
+  return 'low';
+}
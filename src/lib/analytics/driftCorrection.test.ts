@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { Fixation } from '../../types/diagnostic.ts';
+import { buildGoldenLayout } from '@/test/gazeTraces';
+import {
+  correctGazeDrift,
+  correctLineDrift,
+  recordedDriftAlgorithm,
+  type DriftCorrectionAlgorithm,
+} from './driftCorrection.ts';
+import { computeEyeTrackingMetrics } from './eyeMetrics.ts';
+
+const layout = buildGoldenLayout();
+const ALGORITHMS: DriftCorrectionAlgorithm[] = ['attach', 'chain', 'warp'];
+
+// Word indices of a passage line
+const lineWords = (line: number) => layout.words.filter(w => w.line === line).map(w => w.index);
+
+// One fixation per word, centred on it and shifted down by `drift(i)` px
+function readWords(indices: number[], drift: (i: number) => number = () => 0): Fixation[] {
+  return indices.map((index, i) => {
+    const word = layout.words[index];
+    return { x: word.x + word.width / 2, y: word.y + word.height / 2 + drift(i), duration: 200, timestamp: i * 250 };
+  });
+}
+
+describe('line-drift correction', () => {
+  it('does not count return sweeps as regressions', () => {
+    const fixations = readWords([...lineWords(0), ...lineWords(1), ...lineWords(2)]);
+
+    for (const algorithm of ALGORITHMS) {
+      const { summary, lines } = correctLineDrift(fixations, layout, { algorithm });
+      expect(summary).toMatchObject({ algorithm, regressionCount: 0, rawRegressionCount: 2, fixationsReassigned: 0 });
+      expect(new Set(lines)).toEqual(new Set([0, 1, 2]));
+    }
+  });
+
+  it('warps a slowly drifting trace back onto the lines being read', () => {
+    const words = [...lineWords(0), ...lineWords(1), ...lineWords(2), ...lineWords(3)];
+    // By the last line gaze sits most of a line low
+    const fixations = readWords(words, i => (30 * i) / words.length);
+    const truth = words.map(index => layout.words[index].line);
+
+    const attached = correctLineDrift(fixations, layout, { algorithm: 'attach' });
+    expect(attached.lines).not.toEqual(truth);
+
+    const warped = correctLineDrift(fixations, layout, { algorithm: 'warp' });
+    expect(warped.lines).toEqual(truth);
+    expect(warped.summary.fixationsReassigned).toBeGreaterThan(0);
+    expect(warped.summary.regressionCount).toBe(0);
+  });
+
+  it('finds a regression to an earlier line with every algorithm', () => {
+    const line0 = lineWords(0);
+    const line1 = lineWords(1);
+    const half = Math.floor(line1.length / 2);
+    // Halfway along line 1 the reader goes back to the end of line 0, then carries on
+    const words = [...line0, ...line1.slice(0, half), line0[line0.length - 1], ...line1.slice(half), ...lineWords(2)];
+    const fixations = readWords(words, i => (8 * i) / words.length);
+    const back = line0.length + half;
+
+    for (const algorithm of ALGORITHMS) {
+      const { summary, lines, saccades } = correctLineDrift(fixations, layout, { algorithm });
+      expect(lines[back], algorithm).toBe(0);
+      expect(saccades[back - 1].isRegression).toBe(true);
+      expect(summary.regressionCount).toBe(1);
+    }
+  });
+
+  it('moves gaze samples with their fixations before the trace is measured', () => {
+    const words = [...lineWords(0), ...lineWords(1)];
+    const fixations = readWords(words, () => 12);
+    // Two samples per fixation, the second one a little lower
+    const gaze = fixations.flatMap(f => [
+      { x: f.x, y: f.y, timestamp: f.timestamp },
+      { x: f.x, y: f.y + 2, timestamp: f.timestamp + 100 },
+    ]);
+
+    const drift = correctLineDrift(fixations, layout, { algorithm: 'attach' });
+    const corrected = correctGazeDrift(gaze, drift);
+
+    expect(drift.verticalShifts.every(shift => shift === -12)).toBe(true);
+    expect(corrected.map(p => p.y)).toEqual(gaze.map(p => p.y - 12));
+
+    const metrics = computeEyeTrackingMetrics(corrected, drift.fixations, drift.saccades);
+    expect(metrics.regressionCount).toBe(drift.summary.regressionCount);
+    expect(metrics.totalFixations).toBe(fixations.length);
+  });
+
+  it('falls back to raw leftward saccades without line boxes', () => {
+    const fixations = readWords([...lineWords(0), ...lineWords(1)]);
+    const { summary } = correctLineDrift(fixations, { ...layout, words: [], lines: [] });
+
+    expect(summary.regressionCount).toBe(1);
+    expect(summary.rawRegressionCount).toBe(1);
+  });
+
+  it('reads the algorithm recorded with a session', () => {
+    expect(recordedDriftAlgorithm({ algorithm: 'chain', fixationCount: 10 })).toBe('chain');
+    expect(recordedDriftAlgorithm({ algorithm: 'spline' })).toBe('none');
+    expect(recordedDriftAlgorithm(null)).toBe('none');
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Line-drift Correction
+ * Webcam gaze drifts vertically over a session, so fixations land on the
+ * line above or below the one being read. This post-hoc stage snaps each
+ * fixation to a passage line and rebuilds the saccades between them, so that
+ * return sweeps and line-level regressions can be told apart.
+ *
+ * Algorithms follow Carr et al. (2022), "Algorithms for the automated
+ * correction of vertical drift in eye-tracking data":
+ * - attach: each fixation to its nearest line
+ * - chain:  runs of nearby fixations moved together to the line nearest their mean
+ * - warp:   dynamic time warping of the fixation sequence onto the word sequence
+ *
+ * Warping aligns forwards only, so on its own it can never put a fixation on
+ * an earlier line. Drift moves gaze slowly, while going back to an earlier
+ * line is an abrupt jump upwards. The trace is split where it jumps back and
+ * where it next comes down again, and each forward run is warped separately,
+ * free to start and end anywhere in the text.
+ */
+
+import type { Fixation, GazePoint, Saccade } from '../../types/diagnostic.ts';
+import type { LineBox, PassageLayout } from './types.ts';
+import { buildLineBoxes } from './wordAoi.ts';
+
+export type DriftCorrectionAlgorithm = 'attach' | 'chain' | 'warp';
+
+export interface DriftCorrectionConfig {
+  algorithm: DriftCorrectionAlgorithm;
+  // Chain breaks when consecutive fixations are further apart than this (px)
+  chainXThreshold: number;
+  chainYThreshold: number;
+  // Leftward movement within a line below this (px) is not a regression
+  regressionTolerance: number;
+}
+
+export const DEFAULT_DRIFT_CORRECTION_CONFIG: DriftCorrectionConfig = {
+  algorithm: 'warp',
+  chainXThreshold: 192,
+  chainYThreshold: 32,
+  regressionTolerance: 20,
+};
+
+export interface DriftCorrectionSummary {
+  algorithm: DriftCorrectionAlgorithm;
+  fixationCount: number;
+  // Fixations placed on a different line than the one they geometrically fell on
+  fixationsReassigned: number;
+  meanVerticalShift: number;
+  maxVerticalShift: number;
+  // Line-aware regressions in the corrected trace (return sweeps excluded)
+  regressionCount: number;
+  // Leftward saccades in the uncorrected trace, as counted without a layout
+  rawRegressionCount: number;
+}
+
+export interface DriftCorrectionResult {
+  fixations: Fixation[];
+  saccades: Saccade[];
+  lines: number[];
+  // Signed vertical move of each fixation, px (+ down)
+  verticalShifts: number[];
+  summary: DriftCorrectionSummary;
+}
+
+const lineCenter = (box: LineBox) => box.y + box.height / 2;
+
+const ALGORITHMS: DriftCorrectionAlgorithm[] = ['attach', 'chain', 'warp'];
+
+/** Algorithm a stored session was corrected with; 'none' when it was not corrected */
+export function recordedDriftAlgorithm(summary: unknown): DriftCorrectionAlgorithm | 'none' {
+  const algorithm = (summary as Partial<DriftCorrectionSummary> | null)?.algorithm;
+  return algorithm && ALGORITHMS.includes(algorithm) ? algorithm : 'none';
+}
+
+function attachLines(fixations: Fixation[], lines: LineBox[]): number[] {
+  return fixations.map(f => {
+    let best = 0;
+    for (let i = 1; i < lines.length; i++) {
+      if (Math.abs(f.y - lineCenter(lines[i])) < Math.abs(f.y - lineCenter(lines[best]))) best = i;
+    }
+    return best;
+  });
+}
+
+function chainLines(fixations: Fixation[], lines: LineBox[], cfg: DriftCorrectionConfig): number[] {
+  const assigned: number[] = new Array(fixations.length);
+  let start = 0;
+
+  const closeChain = (end: number) => {
+    const chain = fixations.slice(start, end);
+    const meanY = chain.reduce((sum, f) => sum + f.y, 0) / chain.length;
+    const [line] = attachLines([{ x: 0, y: meanY, duration: 0, timestamp: 0 }], lines);
+    for (let i = start; i < end; i++) assigned[i] = line;
+    start = end;
+  };
+
+  for (let i = 1; i < fixations.length; i++) {
+    const dx = Math.abs(fixations[i].x - fixations[i - 1].x);
+    const dy = Math.abs(fixations[i].y - fixations[i - 1].y);
+    if (dx > cfg.chainXThreshold || dy > cfg.chainYThreshold) closeChain(i);
+  }
+  if (fixations.length > 0) closeChain(fixations.length);
+
+  return assigned;
+}
+
+// Where the trace jumps up by more than half the line spacing, and where it
+// next jumps down again after such a jump
+function forwardRunStarts(fixations: Fixation[], lines: LineBox[]): number[] {
+  const centers = lines.map(lineCenter).sort((a, b) => a - b);
+  const spacings = centers.slice(1).map((c, i) => c - centers[i]).sort((a, b) => a - b);
+  if (spacings.length === 0) return [0];
+  const jump = spacings[Math.floor(spacings.length / 2)] / 2;
+
+  const starts = [0];
+  let lookingBack = false;
+  for (let i = 1; i < fixations.length; i++) {
+    const dy = fixations[i].y - fixations[i - 1].y;
+    if (-dy > jump || (lookingBack && dy > jump)) {
+      starts.push(i);
+      lookingBack = -dy > jump;
+    }
+  }
+  return starts;
+}
+
+function warpLines(fixations: Fixation[], layout: PassageLayout, lines: LineBox[]): number[] {
+  const words = [...layout.words].sort((a, b) => a.index - b.index);
+  if (words.length === 0) return attachLines(fixations, lines);
+
+  const starts = forwardRunStarts(fixations, lines);
+  return starts.flatMap((start, k) =>
+    warpRun(fixations.slice(start, starts[k + 1] ?? fixations.length), words, lines)
+  );
+}
+
+// Subsequence DTW of one forward run onto the words, open at both ends
+function warpRun(fixations: Fixation[], words: PassageLayout['words'], lines: LineBox[]): number[] {
+  const n = fixations.length;
+  const m = words.length;
+  const lineIndex = new Map(lines.map((box, i) => [box.line, i]));
+  const centers = words.map(w => ({ x: w.x + w.width / 2, y: w.y + w.height / 2 }));
+
+  // Cumulative DTW cost; row 0 lets the run start at any word
+  const cost = new Float64Array((n + 1) * (m + 1)).fill(Infinity);
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let j = 0; j <= m; j++) cost[at(0, j)] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    const f = fixations[i - 1];
+    for (let j = 1; j <= m; j++) {
+      const d = Math.hypot(f.x - centers[j - 1].x, f.y - centers[j - 1].y);
+      cost[at(i, j)] = d + Math.min(cost[at(i - 1, j)], cost[at(i, j - 1)], cost[at(i - 1, j - 1)]);
+    }
+  }
+
+  // The run ends at whichever word it fits best
+  let end = 1;
+  for (let j = 2; j <= m; j++) {
+    if (cost[at(n, j)] < cost[at(n, end)]) end = j;
+  }
+
+  // Walk the optimal path back, collecting the words each fixation was aligned to
+  const aligned: number[][] = Array.from({ length: n }, () => []);
+  let i = n;
+  let j = end;
+  while (i > 0 && j > 0) {
+    aligned[i - 1].push(j - 1);
+    const diagonal = cost[at(i - 1, j - 1)];
+    const up = cost[at(i - 1, j)];
+    const left = cost[at(i, j - 1)];
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  // A fixation aligned to several words takes the line most of them sit on
+  return aligned.map((wordIdxs, k) => {
+    if (wordIdxs.length === 0) return attachLines([fixations[k]], lines)[0];
+    const votes = new Map<number, number>();
+    for (const w of wordIdxs) {
+      const line = lineIndex.get(words[w].line) ?? 0;
+      votes.set(line, (votes.get(line) ?? 0) + 1);
+    }
+    let best = -1;
+    let bestVotes = 0;
+    votes.forEach((count, line) => {
+      if (count > bestVotes || (count === bestVotes && line < best)) {
+        best = line;
+        bestVotes = count;
+      }
+    });
+    return best;
+  });
+}
+
+/**
+ * Saccades between consecutive corrected fixations. A move to an earlier line,
+ * or leftwards within a line, is a regression; a move down to a later line is
+ * a return sweep.
+ */
+function rebuildSaccades(fixations: Fixation[], lines: number[], tolerance: number): Saccade[] {
+  const saccades: Saccade[] = [];
+  for (let i = 1; i < fixations.length; i++) {
+    const from = fixations[i - 1];
+    const to = fixations[i];
+    saccades.push({
+      startX: from.x,
+      startY: from.y,
+      endX: to.x,
+      endY: to.y,
+      duration: Math.max(0, to.timestamp - (from.timestamp + from.duration)),
+      isRegression: lines[i] < lines[i - 1] || (lines[i] === lines[i - 1] && to.x < from.x - tolerance),
+    });
+  }
+  return saccades;
+}
+
+export function correctLineDrift(
+  fixations: Fixation[],
+  layout: PassageLayout,
+  config: Partial<DriftCorrectionConfig> = {}
+): DriftCorrectionResult {
+  const cfg = { ...DEFAULT_DRIFT_CORRECTION_CONFIG, ...config };
+  const lineBoxes = layout.lines.length > 0 ? layout.lines : buildLineBoxes(layout.words);
+  const ordered = [...fixations].sort((a, b) => a.timestamp - b.timestamp);
+
+  const rawRegressionCount = ordered.filter(
+    (f, i) => i > 0 && f.x < ordered[i - 1].x - cfg.regressionTolerance
+  ).length;
+
+  if (lineBoxes.length === 0 || ordered.length === 0) {
+    return {
+      fixations: ordered,
+      saccades: rebuildSaccades(ordered, ordered.map(() => 0), cfg.regressionTolerance),
+      lines: ordered.map(() => 0),
+      verticalShifts: ordered.map(() => 0),
+      summary: {
+        algorithm: cfg.algorithm,
+        fixationCount: ordered.length,
+        fixationsReassigned: 0,
+        meanVerticalShift: 0,
+        maxVerticalShift: 0,
+        regressionCount: rawRegressionCount,
+        rawRegressionCount,
+      },
+    };
+  }
+
+  const nearest = attachLines(ordered, lineBoxes);
+  const assigned = cfg.algorithm === 'attach'
+    ? nearest
+    : cfg.algorithm === 'chain'
+      ? chainLines(ordered, lineBoxes, cfg)
+      : warpLines(ordered, layout, lineBoxes);
+
+  const corrected = ordered.map((f, i) => ({ ...f, y: lineCenter(lineBoxes[assigned[i]]) }));
+  const verticalShifts = ordered.map((f, i) => corrected[i].y - f.y);
+  const shifts = verticalShifts.map(Math.abs);
+  const saccades = rebuildSaccades(corrected, assigned, cfg.regressionTolerance);
+
+  return {
+    fixations: corrected,
+    saccades,
+    lines: assigned.map(i => lineBoxes[i].line),
+    verticalShifts,
+    summary: {
+      algorithm: cfg.algorithm,
+      fixationCount: ordered.length,
+      fixationsReassigned: assigned.filter((line, i) => line !== nearest[i]).length,
+      meanVerticalShift: shifts.reduce((sum, s) => sum + s, 0) / shifts.length,
+      maxVerticalShift: Math.max(...shifts),
+      regressionCount: saccades.filter(s => s.isRegression).length,
+      rawRegressionCount,
+    },
+  };
+}
+
+/**
+ * Move raw gaze samples with their fixations: each sample takes the vertical
+ * correction of the latest fixation that started at or before it, so
+ * trace-level metrics such as the chaos index see the corrected lines too.
+ */
+export function correctGazeDrift(gaze: GazePoint[], drift: DriftCorrectionResult): GazePoint[] {
+  const { fixations, verticalShifts } = drift;
+  if (fixations.length === 0) return gaze;
+
+  let current = 0;
+  return [...gaze]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(point => {
+      while (current + 1 < fixations.length && fixations[current + 1].timestamp <= point.timestamp) current++;
+      return { ...point, y: point.y + verticalShifts[current] };
+    });
+}
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { staleFiles } from '../../../scripts/sync-edge-analytics.mjs';
+
+describe('edge function analytics', () => {
+  it('vendors the current analytics core', () => {
+    // Run `npm run sync:edge-analytics` when this fails
+    expect(staleFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateETDD70Score, type ETDD70Metrics } from './etdd70Engine.ts';
+import { classifyGazeSamples } from './remodnavClassifier.ts';
+import { toReadingFixations } from './wordAoi.ts';
+import type { FixationEvent } from './types.ts';
+import {
+  NORMAL_READER,
+  REGRESSIVE_READER,
+  STEP_BY_STEP_DECODER,
+  NOISY_WEBCAM,
+  generateGoldenTrace,
+  type ReaderProfile,
+} from '../../test/gazeTraces.ts';
+
+const scoreGroundTruth = (profile: ReaderProfile) => {
+  const trace = generateGoldenTrace(profile);
+  return calculateETDD70Score({
+    fixations: trace.fixations,
+    saccades: trace.saccades,
+    totalReadingTime: 0,
+    textLength: 0,
+    layout: trace.layout,
+  });
+};
+
+describe('ETDD70 on golden traces', () => {
+  it('rates the normal reader low risk', () => {
+    expect(scoreGroundTruth(NORMAL_READER).riskLevel).toBe('low');
+  });
+
+  it('flags the regressive reader on regressions and chaos', () => {
+    const score = scoreGroundTruth(REGRESSIVE_READER);
+
+    expect(score.riskLevel).toBe('moderate');
+    expect(score.indicators.regressiveSaccades.exceeded).toBe(true);
+    expect(score.indicators.chaosIndex.exceeded).toBe(true);
+  });
+
+  it('rates the step-by-step decoder high risk', () => {
+    const score = scoreGroundTruth(STEP_BY_STEP_DECODER);
+
+    expect(score.riskLevel).toBe('high');
+    expect(score.indicators.fixationDuration.exceeded).toBe(true);
+  });
+
+  it('scores a drifting webcam trace like the clean one once drift-corrected', () => {
+    const trace = generateGoldenTrace(NOISY_WEBCAM);
+    const events = classifyGazeSamples(trace.samples).events;
+    const fixations = toReadingFixations(events.filter((e): e is FixationEvent => e.type === 'fixation'));
+    const base: ETDD70Metrics = { fixations, saccades: [], totalReadingTime: 0, textLength: 0 };
+
+    const corrected = calculateETDD70Score({ ...base, layout: trace.layout });
+
+    expect(corrected.driftCorrection?.fixationsReassigned).toBeGreaterThan(0);
+    expect(corrected.driftCorrection?.regressionCount).toBeLessThan(corrected.driftCorrection?.rawRegressionCount ?? 0);
+    expect(corrected.riskLevel).toBe(scoreGroundTruth(NORMAL_READER).riskLevel);
+  });
+
+  it('skips drift correction when asked to', () => {
+    const trace = generateGoldenTrace(NORMAL_READER);
+    const score = calculateETDD70Score({
+      fixations: trace.fixations,
+      saccades: trace.saccades,
+      totalReadingTime: 0,
+      textLength: 0,
+      layout: trace.layout,
+      driftCorrection: 'none',
+    });
+
+    expect(score.driftCorrection).toBeNull();
+  });
+});
+
+describe('ETDD70 invariants', () => {
+  const fixation = fc.record({
+    x: fc.double({ min: 0, max: 1920, noNaN: true }),
+    y: fc.double({ min: 0, max: 1080, noNaN: true }),
+    duration: fc.double({ min: 0, max: 3000, noNaN: true }),
+    timestamp: fc.double({ min: 0, max: 600000, noNaN: true }),
+  });
+  const saccade = fc.record({
+    startX: fc.double({ min: 0, max: 1920, noNaN: true }),
+    startY: fc.double({ min: 0, max: 1080, noNaN: true }),
+    endX: fc.double({ min: 0, max: 1920, noNaN: true }),
+    endY: fc.double({ min: 0, max: 1080, noNaN: true }),
+  });
+  const metrics = fc.record({
+    fixations: fc.array(fixation, { maxLength: 200 }),
+    saccades: fc.array(saccade, { maxLength: 200 }),
+    totalReadingTime: fc.double({ min: 0, max: 600000, noNaN: true }),
+    textLength: fc.integer({ min: 0, max: 5000 }),
+  });
+
+  it('keeps the probability within 0-1 and consistent with the risk level', () => {
+    fc.assert(
+      fc.property(metrics, m => {
+        const score = calculateETDD70Score(m);
+        expect(score.dyslexiaProbability).toBeGreaterThanOrEqual(0);
+        expect(score.dyslexiaProbability).toBeLessThanOrEqual(1);
+        const expected = score.dyslexiaProbability >= 0.65 ? 'high' : score.dyslexiaProbability >= 0.35 ? 'moderate' : 'low';
+        expect(score.riskLevel).toBe(expected);
+      })
+    );
+  });
+
+  it('never lowers the probability when regressions are added', () => {
+    const regression = saccade.filter(s => s.endX < s.startX - 20);
+
+    fc.assert(
+      fc.property(metrics, fc.array(regression, { minLength: 1, maxLength: 50 }), (m, extra) => {
+        const before = calculateETDD70Score(m).dyslexiaProbability;
+        const after = calculateETDD70Score({ ...m, saccades: [...m.saccades, ...extra] }).dyslexiaProbability;
+        expect(after).toBeGreaterThanOrEqual(before - 1e-12);
+      })
+    );
+  });
+});
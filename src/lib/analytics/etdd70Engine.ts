@@ -6,7 +6,10 @@
  * and clinical research standards
  */
 
-export interface EyeTrackingMetrics {
+import type { PassageLayout } from './types.ts';
+import { correctLineDrift, type DriftCorrectionAlgorithm, type DriftCorrectionSummary } from './driftCorrection.ts';
+
+export interface ETDD70Metrics {
   fixations: Array<{
     x: number;
     y: number;
@@ -22,6 +25,9 @@ export interface EyeTrackingMetrics {
   }>;
   totalReadingTime: number;
   textLength: number;
+  // With a passage layout the trace is drift-corrected onto its lines before scoring
+  layout?: PassageLayout | null;
+  driftCorrection?: DriftCorrectionAlgorithm | 'none';
 }
 
 export interface ETDD70Score {
@@ -36,6 +42,7 @@ export interface ETDD70Score {
     ficScore: { value: number; threshold: number; exceeded: boolean };
   };
   clinicalNotes: string[];
+  driftCorrection: DriftCorrectionSummary | null;
 }
 
 // Default ETDD70 Universal Dataset Thresholds (hardcoded fallbacks)
@@ -97,7 +104,7 @@ function getThresholds(dynamic?: DynamicThresholds) {
  * Calculate the Chaos Index from fixation data
  * Measures irregularity in reading pattern
  */
-function calculateChaosIndex(fixations: EyeTrackingMetrics['fixations']): number {
+function calculateChaosIndex(fixations: ETDD70Metrics['fixations']): number {
   if (fixations.length < 3) return 0;
   
   let totalAngleVariance = 0;
@@ -125,7 +132,7 @@ function calculateChaosIndex(fixations: EyeTrackingMetrics['fixations']): number
  * Calculate Fixation Intersection Coefficient (FIC)
  * Measures how often gaze paths cross over previously read areas
  */
-function calculateFIC(fixations: EyeTrackingMetrics['fixations']): number {
+function calculateFIC(fixations: ETDD70Metrics['fixations']): number {
   if (fixations.length < 4) return 0;
   
   let intersections = 0;
@@ -146,7 +153,7 @@ function calculateFIC(fixations: EyeTrackingMetrics['fixations']): number {
 /**
  * Count regressive saccades (backward eye movements)
  */
-function countRegressions(saccades: EyeTrackingMetrics['saccades']): number {
+function countRegressions(saccades: ETDD70Metrics['saccades']): number {
   return saccades.filter(s => s.endX < s.startX - 20).length; // 20px tolerance
 }
 
@@ -154,9 +161,15 @@ function countRegressions(saccades: EyeTrackingMetrics['saccades']): number {
  * Main ETDD70 scoring function
  * Calculates dyslexia probability based on eye-tracking metrics
  */
-export function calculateETDD70Score(metrics: EyeTrackingMetrics, dynamicThresholds?: DynamicThresholds): ETDD70Score {
-  const { fixations, saccades, totalReadingTime, textLength } = metrics;
+export function calculateETDD70Score(metrics: ETDD70Metrics, dynamicThresholds?: DynamicThresholds): ETDD70Score {
+  const { totalReadingTime, textLength } = metrics;
   const ETDD70_THRESHOLDS = getThresholds(dynamicThresholds);
+
+  const correction = metrics.layout && metrics.driftCorrection !== 'none' && metrics.fixations.length > 0
+    ? correctLineDrift(metrics.fixations, metrics.layout, { algorithm: metrics.driftCorrection ?? 'warp' })
+    : null;
+  const fixations = correction ? correction.fixations : metrics.fixations;
+  const saccades = correction ? correction.saccades : metrics.saccades;
   
   const clinicalNotes: string[] = [];
   
@@ -182,7 +195,7 @@ export function calculateETDD70Score(metrics: EyeTrackingMetrics, dynamicThresho
   }
   
   // 3. Calculate regression rate
-  const regressionCount = countRegressions(saccades);
+  const regressionCount = correction ? correction.summary.regressionCount : countRegressions(saccades);
   const regressionRate = saccades.length > 0 ? (regressionCount / saccades.length) * 100 : 0;
   const regressionExceeded = regressionRate > ETDD70_THRESHOLDS.REGRESSION_RATE_THRESHOLD;
   
@@ -290,7 +303,8 @@ export function calculateETDD70Score(metrics: EyeTrackingMetrics, dynamicThresho
         exceeded: ficExceeded
       }
     },
-    clinicalNotes
+    clinicalNotes,
+    driftCorrection: correction?.summary ?? null
   };
 }
 
@@ -313,6 +327,18 @@ export function generateClinicalReport(score: ETDD70Score): string {
     lines.push(`${key}: ${data.value.toFixed(2)} (threshold: ${data.threshold}) ${status}`);
   });
   
+  if (score.driftCorrection) {
+    const drift = score.driftCorrection;
+    lines.push(
+      '',
+      '--- LINE-DRIFT CORRECTION ---',
+      `Algorithm: ${drift.algorithm}`,
+      `Fixations reassigned to another line: ${drift.fixationsReassigned} of ${drift.fixationCount}`,
+      `Mean vertical shift: ${drift.meanVerticalShift.toFixed(1)}px (max ${drift.maxVerticalShift.toFixed(1)}px)`,
+      `Regressions: ${drift.regressionCount} corrected vs ${drift.rawRegressionCount} uncorrected`
+    );
+  }
+  
   if (score.clinicalNotes.length > 0) {
     lines.push('', '--- CLINICAL NOTES ---');
     score.clinicalNotes.forEach(note => lines.push(`• ${note}`));
@@ -0,0 +1,62 @@
+/**
+ * Session-level eye tracking metrics
+ * Produces the EyeTrackingMetrics block stored on every diagnostic result.
+ */
+
+import type { GazePoint, Fixation, Saccade, EyeTrackingMetrics } from '../../types/diagnostic.ts';
+
+export const PROLONGED_FIXATION_MS = 400;
+
+export function computeEyeTrackingMetrics(
+  gazeData: GazePoint[],
+  fixations: Fixation[],
+  saccades: Saccade[]
+): EyeTrackingMetrics {
+  const prolongedFixations = fixations.filter(f => f.duration > PROLONGED_FIXATION_MS).length;
+  const regressionCount = saccades.filter(s => s.isRegression).length;
+  const avgFixationDuration = fixations.length > 0
+    ? fixations.reduce((sum, f) => sum + f.duration, 0) / fixations.length
+    : 0;
+
+  let intersections = 0;
+  for (let i = 0; i < saccades.length - 1; i++) {
+    for (let j = i + 1; j < saccades.length; j++) {
+      const s1 = saccades[i];
+      const s2 = saccades[j];
+      const dx1 = s1.endX - s1.startX;
+      const dy1 = s1.endY - s1.startY;
+      const dx2 = s2.endX - s2.startX;
+      const dy2 = s2.endY - s2.startY;
+      const cross = dx1 * dy2 - dy1 * dx2;
+      if (Math.abs(cross) > 0.001) intersections++;
+    }
+  }
+
+  const fic = saccades.length > 1 ? intersections / (saccades.length * (saccades.length - 1) / 2) : 0;
+
+  let chaosIndex = 0;
+  if (gazeData.length > 2) {
+    let totalVariance = 0;
+    for (let i = 2; i < gazeData.length; i++) {
+      const angle1 = Math.atan2(
+        gazeData[i - 1].y - gazeData[i - 2].y,
+        gazeData[i - 1].x - gazeData[i - 2].x
+      );
+      const angle2 = Math.atan2(
+        gazeData[i].y - gazeData[i - 1].y,
+        gazeData[i].x - gazeData[i - 1].x
+      );
+      totalVariance += Math.abs(angle2 - angle1);
+    }
+    chaosIndex = totalVariance / (gazeData.length - 2);
+  }
+
+  return {
+    totalFixations: fixations.length,
+    averageFixationDuration: avgFixationDuration,
+    regressionCount,
+    prolongedFixations,
+    chaosIndex: Math.min(chaosIndex, 1),
+    fixationIntersectionCoefficient: Math.min(fic, 1),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Dispersion-based fixation and saccade detection
+ * Smooths raw gaze with a moving average, then opens a fixation while
+ * consecutive points stay within a pixel radius and closes it on the first
+ * jump that leaves it.
+ */
+
+import type { GazePoint, Fixation, Saccade } from '../../types/diagnostic.ts';
+
+export interface FixationDetectorConfig {
+  fixationThreshold: number; // px between consecutive smoothed points
+  minFixationDuration: number; // ms
+  smoothingWindow: number; // samples
+}
+
+export const DEFAULT_FIXATION_DETECTOR_CONFIG: FixationDetectorConfig = {
+  fixationThreshold: 30,
+  minFixationDuration: 100,
+  smoothingWindow: 5,
+};
+
+export interface FixationDetectorStep {
+  point: GazePoint;
+  fixation: Fixation | null;
+  saccade: Saccade | null;
+}
+
+export interface FixationDetector {
+  push(rawX: number, rawY: number, timestamp: number): FixationDetectorStep;
+  reset(): void;
+  readonly config: FixationDetectorConfig;
+}
+
+export function createFixationDetector(config: Partial<FixationDetectorConfig> = {}): FixationDetector {
+  const cfg: FixationDetectorConfig = { ...DEFAULT_FIXATION_DETECTOR_CONFIG, ...config };
+
+  let buffer: Array<{ x: number; y: number }> = [];
+  let lastGaze: GazePoint | null = null;
+  let fixationStart: GazePoint | null = null;
+
+  return {
+    push(rawX, rawY, timestamp) {
+      buffer.push({ x: rawX, y: rawY });
+      if (buffer.length > cfg.smoothingWindow) buffer.shift();
+
+      const smoothedX = buffer.reduce((sum, p) => sum + p.x, 0) / buffer.length;
+      const smoothedY = buffer.reduce((sum, p) => sum + p.y, 0) / buffer.length;
+      const point: GazePoint = { x: smoothedX, y: smoothedY, timestamp };
+
+      let fixation: Fixation | null = null;
+      let saccade: Saccade | null = null;
+
+      if (lastGaze) {
+        const distance = Math.sqrt(
+          Math.pow(smoothedX - lastGaze.x, 2) + Math.pow(smoothedY - lastGaze.y, 2)
+        );
+
+        if (distance < cfg.fixationThreshold) {
+          if (!fixationStart) {
+            fixationStart = point;
+          }
+        } else {
+          if (fixationStart) {
+            const duration = timestamp - fixationStart.timestamp;
+            if (duration >= cfg.minFixationDuration) {
+              fixation = {
+                x: fixationStart.x,
+                y: fixationStart.y,
+                duration,
+                timestamp: fixationStart.timestamp,
+              };
+            }
+
+            saccade = {
+              startX: lastGaze.x,
+              startY: lastGaze.y,
+              endX: smoothedX,
+              endY: smoothedY,
+              duration: timestamp - lastGaze.timestamp,
+              isRegression: smoothedX < lastGaze.x,
+            };
+          }
+          fixationStart = null;
+        }
+      }
+
+      lastGaze = point;
+      return { point, fixation, saccade };
+    },
+    reset() {
+      buffer = [];
+      lastGaze = null;
+      fixationStart = null;
+    },
+    config: cfg,
+  };
+}
+
+/**
+ * Run the detector over a complete raw recording
+ */
+export function detectFixationsAndSaccades(
+  samples: Array<{ x: number; y: number; timestamp: number }>,
+  config: Partial<FixationDetectorConfig> = {}
+): { gazeData: GazePoint[]; fixations: Fixation[]; saccades: Saccade[] } {
+  const detector = createFixationDetector(config);
+  const gazeData: GazePoint[] = [];
+  const fixations: Fixation[] = [];
+  const saccades: Saccade[] = [];
+
+  for (const s of samples) {
+    const step = detector.push(s.x, s.y, s.timestamp);
+    gazeData.push(step.point);
+    if (step.fixation) fixations.push(step.fixation);
+    if (step.saccade) saccades.push(step.saccade);
+  }
+
+  return { gazeData, fixations, saccades };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GAZE_RECORDING_VERSION,
+  decodeGazeRecording,
+  encodeGazeRecording,
+  type GazeRecording,
+} from './gazeRecording.ts';
+
+// Values chosen to survive float32 and the byte-quantized confidence exactly
+const recording: Omit<GazeRecording, 'version'> = {
+  sessionId: 'session-1',
+  startedAt: 1_700_000_000_000,
+  endedAt: 1_700_000_000_050,
+  viewport: { width: 1280, height: 800 },
+  layout: null,
+  transcript: { text: 'the cat sat', startedAt: 1_700_000_000_010, stallEvents: [] },
+  annotations: [{ timestamp: 1_700_000_000_020, type: 'observation', content: 'Finger pointing' }],
+  metadata: { language: 'hi' },
+  samples: [
+    { timestamp: 1_700_000_000_000, source: 'mediapipe', x: 100.5, y: 200.25, confidence: 1, gazeValid: true, leftEyeValid: false, rightEyeValid: false },
+    { timestamp: 1_700_000_000_016.5, source: 'facemesh-pupil', x: NaN, y: NaN, confidence: 0, leftPupil: 3.5, rightPupil: 3.25, gazeValid: false, leftEyeValid: true, rightEyeValid: true },
+    { timestamp: 1_700_000_000_033, source: 'mediapipe', x: 104, y: 201, confidence: 1, gazeValid: true, leftEyeValid: false, rightEyeValid: false },
+  ],
+};
+
+describe('gaze recording format', () => {
+  it.each([true, false])('round-trips a recording (compress: %s)', async compress => {
+    const decoded = await decodeGazeRecording(await encodeGazeRecording(recording, { compress }));
+
+    expect(decoded).toEqual({ ...recording, version: GAZE_RECORDING_VERSION });
+  });
+
+  it('rejects files that are not recordings or are from a newer version', async () => {
+    const bytes = await encodeGazeRecording(recording, { compress: false });
+
+    const wrongMagic = bytes.slice();
+    wrongMagic[0] = 'X'.charCodeAt(0);
+    await expect(decodeGazeRecording(wrongMagic)).rejects.toThrow('bad magic');
+
+    const newer = bytes.slice();
+    new DataView(newer.buffer).setUint16(4, GAZE_RECORDING_VERSION + 1, true);
+    await expect(decodeGazeRecording(newer)).rejects.toThrow('Unsupported gaze recording version');
+
+    await expect(decodeGazeRecording(bytes.subarray(0, bytes.byteLength - 1))).rejects.toThrow('Body too short');
+  });
+});
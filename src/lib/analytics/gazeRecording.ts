@@ -0,0 +1,390 @@
+/**
+ * Raw Gaze Recording Format (.nrxg)
+ * Keeps every gaze and pupil sample of a session, tagged with the backend that
+ * produced it, so sessions can be replayed and re-analysed later.
+ *
+ * Layout (little-endian):
+ *   0   char[4]  magic "NRXG"
+ *   4   u16      format version
+ *   6   u16      flags (bit 0: body is gzip-compressed)
+ *   8   u32      header JSON byte length N
+ *   12  u8[N]    header JSON (UTF-8): session id, start/end time, source table, viewport,
+ *                passage layout, transcript, clinician annotations, metadata
+ *   12+N         body
+ *
+ * Body, stored column by column so deltas and flags compress well:
+ *   u32          sample count S
+ *   i32[S]       time delta from the previous sample in microseconds (the first is relative to startedAt)
+ *   f32[S]       x, then f32[S] y (screen pixels, before smoothing; NaN for pupil-only samples)
+ *   f32[S]       left pupil, then f32[S] right pupil (NaN when not measured)
+ *   u8[S]        confidence * 255
+ *   u8[S]        sample flags (GAZE_SAMPLE_FLAGS)
+ *   u8[S]        index into the header source table
+ */
+
+import type { StallEvent } from '../../types/diagnostic.ts';
+import type { PassageLayout } from './types.ts';
+
+export const GAZE_RECORDING_MAGIC = 'NRXG';
+export const GAZE_RECORDING_VERSION = 1;
+export const GAZE_RECORDING_MIME_TYPE = 'application/vnd.neuroread.gaze';
+export const GAZE_RECORDING_EXTENSION = '.nrxg';
+
+const FLAG_COMPRESSED = 1;
+const FIXED_HEADER_BYTES = 12;
+const MAX_SOURCES = 256;
+const MAX_DELTA_US = 0x7fffffff;
+
+export const GAZE_SAMPLE_FLAGS = {
+  GAZE_VALID: 1,
+  LEFT_EYE_VALID: 2,
+  RIGHT_EYE_VALID: 4,
+} as const;
+
+// Backend that produced a sample, e.g. 'mediapipe', 'webgazer', 'tobii', 'facemesh-pupil'
+export type GazeSampleSource = string;
+
+export interface RawGazeSample {
+  timestamp: number;
+  source: GazeSampleSource;
+  x: number;
+  y: number;
+  confidence?: number;
+  leftPupil?: number;
+  rightPupil?: number;
+  gazeValid?: boolean;
+  leftEyeValid?: boolean;
+  rightEyeValid?: boolean;
+}
+
+export type SessionAnnotationType = 'observation' | 'concern' | 'flag';
+
+// Clinician note taken while observing the session
+export interface SessionAnnotation {
+  timestamp: number;
+  type: SessionAnnotationType;
+  content: string;
+}
+
+// Speech transcript; stall event times are ms since `startedAt`
+export interface RecordedTranscript {
+  text: string;
+  startedAt: number;
+  stallEvents: StallEvent[];
+}
+
+export interface GazeRecordingHeader {
+  sessionId: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  sources: GazeSampleSource[];
+  viewport: { width: number; height: number } | null;
+  layout: PassageLayout | null;
+  transcript: RecordedTranscript | null;
+  annotations: SessionAnnotation[];
+  metadata: Record<string, unknown>;
+}
+
+export interface GazeRecording extends Omit<GazeRecordingHeader, 'sources'> {
+  version: number;
+  samples: RawGazeSample[];
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function encodeBody(samples: RawGazeSample[], startedAt: number, sources: GazeSampleSource[]): Uint8Array {
+  const count = samples.length;
+  const buffer = new ArrayBuffer(4 + count * (4 + 4 * 4 + 3));
+  const view = new DataView(buffer);
+  const sourceIndex = new Map(sources.map((s, i) => [s, i]));
+
+  view.setUint32(0, count, true);
+  let offset = 4;
+
+  // Deltas are taken against the reconstructed time so clamping never accumulates drift
+  let encodedTimeUs = 0;
+  for (const s of samples) {
+    const targetUs = Math.round((s.timestamp - startedAt) * 1000);
+    const delta = Math.max(-MAX_DELTA_US, Math.min(MAX_DELTA_US, targetUs - encodedTimeUs));
+    view.setInt32(offset, delta, true);
+    encodedTimeUs += delta;
+    offset += 4;
+  }
+
+  const writeFloats = (pick: (s: RawGazeSample) => number | undefined) => {
+    for (const s of samples) {
+      const value = pick(s);
+      view.setFloat32(offset, value === undefined || value === null ? NaN : value, true);
+      offset += 4;
+    }
+  };
+  writeFloats(s => s.x);
+  writeFloats(s => s.y);
+  writeFloats(s => s.leftPupil);
+  writeFloats(s => s.rightPupil);
+
+  for (const s of samples) {
+    const confidence = s.confidence ?? 1;
+    view.setUint8(offset++, Math.round(Math.min(1, Math.max(0, confidence)) * 255));
+  }
+  for (const s of samples) {
+    let flags = 0;
+    if (s.gazeValid ?? (Number.isFinite(s.x) && Number.isFinite(s.y))) flags |= GAZE_SAMPLE_FLAGS.GAZE_VALID;
+    if (s.leftEyeValid ?? s.leftPupil !== undefined) flags |= GAZE_SAMPLE_FLAGS.LEFT_EYE_VALID;
+    if (s.rightEyeValid ?? s.rightPupil !== undefined) flags |= GAZE_SAMPLE_FLAGS.RIGHT_EYE_VALID;
+    view.setUint8(offset++, flags);
+  }
+  for (const s of samples) {
+    view.setUint8(offset++, sourceIndex.get(s.source) ?? 0);
+  }
+
+  return new Uint8Array(buffer);
+}
+
+function decodeBody(body: Uint8Array, startedAt: number, sources: GazeSampleSource[]): RawGazeSample[] {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  if (body.byteLength < 4) throw new Error('Truncated sample body');
+
+  const count = view.getUint32(0, true);
+  if (body.byteLength < 4 + count * (4 + 4 * 4 + 3)) {
+    throw new Error(`Body too short for ${count} samples`);
+  }
+
+  let offset = 4;
+  const timestamps = new Array<number>(count);
+  let timeUs = 0;
+  for (let i = 0; i < count; i++) {
+    timeUs += view.getInt32(offset, true);
+    timestamps[i] = startedAt + timeUs / 1000;
+    offset += 4;
+  }
+
+  const readFloats = (): number[] => {
+    const values = new Array<number>(count);
+    for (let i = 0; i < count; i++) {
+      values[i] = view.getFloat32(offset, true);
+      offset += 4;
+    }
+    return values;
+  };
+  const xs = readFloats();
+  const ys = readFloats();
+  const leftPupils = readFloats();
+  const rightPupils = readFloats();
+
+  const confidenceOffset = offset;
+  const flagsOffset = confidenceOffset + count;
+  const sourceOffset = flagsOffset + count;
+
+  const samples: RawGazeSample[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const flags = view.getUint8(flagsOffset + i);
+    const sample: RawGazeSample = {
+      timestamp: timestamps[i],
+      source: sources[view.getUint8(sourceOffset + i)] ?? 'unknown',
+      x: xs[i],
+      y: ys[i],
+      confidence: view.getUint8(confidenceOffset + i) / 255,
+      gazeValid: (flags & GAZE_SAMPLE_FLAGS.GAZE_VALID) !== 0,
+      leftEyeValid: (flags & GAZE_SAMPLE_FLAGS.LEFT_EYE_VALID) !== 0,
+      rightEyeValid: (flags & GAZE_SAMPLE_FLAGS.RIGHT_EYE_VALID) !== 0,
+    };
+    if (!Number.isNaN(leftPupils[i])) sample.leftPupil = leftPupils[i];
+    if (!Number.isNaN(rightPupils[i])) sample.rightPupil = rightPupils[i];
+    samples[i] = sample;
+  }
+
+  return samples;
+}
+
+/**
+ * Serialize a recording to the .nrxg binary format
+ */
+export async function encodeGazeRecording(
+  recording: Omit<GazeRecording, 'version'>,
+  options: { compress?: boolean } = {}
+): Promise<Uint8Array> {
+  const { compress = true } = options;
+
+  const sources = [...new Set(recording.samples.map(s => s.source))];
+  if (sources.length > MAX_SOURCES) {
+    throw new Error(`Too many sample sources (${sources.length})`);
+  }
+
+  const header: GazeRecordingHeader = {
+    sessionId: recording.sessionId,
+    startedAt: recording.startedAt,
+    endedAt: recording.endedAt,
+    sources,
+    viewport: recording.viewport,
+    layout: recording.layout,
+    transcript: recording.transcript,
+    annotations: recording.annotations,
+    metadata: recording.metadata,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  let body = encodeBody(recording.samples, recording.startedAt, sources);
+  if (compress) body = await pipeThrough(body, new CompressionStream('gzip'));
+
+  const out = new Uint8Array(FIXED_HEADER_BYTES + headerBytes.byteLength + body.byteLength);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) out[i] = GAZE_RECORDING_MAGIC.charCodeAt(i);
+  view.setUint16(4, GAZE_RECORDING_VERSION, true);
+  view.setUint16(6, compress ? FLAG_COMPRESSED : 0, true);
+  view.setUint32(8, headerBytes.byteLength, true);
+  out.set(headerBytes, FIXED_HEADER_BYTES);
+  out.set(body, FIXED_HEADER_BYTES + headerBytes.byteLength);
+
+  return out;
+}
+
+/**
+ * Parse a .nrxg file. Throws on malformed input or an unsupported format version.
+ */
+export async function decodeGazeRecording(input: Uint8Array | ArrayBuffer): Promise<GazeRecording> {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (bytes.byteLength < FIXED_HEADER_BYTES) {
+    throw new Error('File too short for a gaze recording');
+  }
+
+  const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+  if (magic !== GAZE_RECORDING_MAGIC) {
+    throw new Error('Not a gaze recording (bad magic)');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint16(4, true);
+  if (version > GAZE_RECORDING_VERSION) {
+    throw new Error(`Unsupported gaze recording version ${version}`);
+  }
+  const flags = view.getUint16(6, true);
+  const headerLength = view.getUint32(8, true);
+  if (FIXED_HEADER_BYTES + headerLength > bytes.byteLength) {
+    throw new Error('Truncated recording header');
+  }
+
+  let header: GazeRecordingHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(FIXED_HEADER_BYTES, FIXED_HEADER_BYTES + headerLength)));
+  } catch {
+    throw new Error('Recording header is not valid JSON');
+  }
+
+  let body = bytes.subarray(FIXED_HEADER_BYTES + headerLength);
+  if (flags & FLAG_COMPRESSED) body = await pipeThrough(body, new DecompressionStream('gzip'));
+
+  return {
+    version,
+    sessionId: header.sessionId ?? null,
+    startedAt: header.startedAt,
+    endedAt: header.endedAt ?? null,
+    viewport: header.viewport ?? null,
+    layout: header.layout ?? null,
+    transcript: header.transcript ?? null,
+    annotations: header.annotations ?? [],
+    metadata: header.metadata ?? {},
+    samples: decodeBody(body, header.startedAt, header.sources ?? []),
+  };
+}
+
+export interface GazeRecorder {
+  start: (options?: { sessionId?: string; viewport?: GazeRecordingHeader['viewport']; metadata?: Record<string, unknown> }) => void;
+  push: (sample: RawGazeSample) => void;
+  setLayout: (layout: PassageLayout) => void;
+  setTranscript: (transcript: RecordedTranscript) => void;
+  annotate: (annotation: Omit<SessionAnnotation, 'timestamp'> & { timestamp?: number }) => void;
+  stop: () => GazeRecording;
+  setSessionId: (sessionId: string) => void;
+  isRecording: () => boolean;
+  getSampleCount: () => number;
+  reset: () => void;
+}
+
+/**
+ * Collects samples from any number of backends into one session recording.
+ * Samples pushed while the recorder is stopped are dropped.
+ */
+export function createGazeRecorder(): GazeRecorder {
+  let samples: RawGazeSample[] = [];
+  let recording = false;
+  let sessionId: string | null = null;
+  let startedAt = 0;
+  let endedAt: number | null = null;
+  let viewport: GazeRecordingHeader['viewport'] = null;
+  let layout: PassageLayout | null = null;
+  let transcript: RecordedTranscript | null = null;
+  let annotations: SessionAnnotation[] = [];
+  let metadata: Record<string, unknown> = {};
+
+  const snapshot = (): GazeRecording => ({
+    version: GAZE_RECORDING_VERSION,
+    sessionId,
+    startedAt,
+    endedAt,
+    viewport,
+    layout,
+    transcript,
+    annotations,
+    metadata,
+    samples,
+  });
+
+  return {
+    start(options = {}) {
+      samples = [];
+      recording = true;
+      sessionId = options.sessionId ?? null;
+      startedAt = Date.now();
+      endedAt = null;
+      viewport = options.viewport ?? null;
+      layout = null;
+      transcript = null;
+      annotations = [];
+      metadata = options.metadata ?? {};
+    },
+    push(sample) {
+      if (!recording) return;
+      samples.push(sample);
+    },
+    setLayout(value) {
+      layout = value;
+    },
+    setTranscript(value) {
+      transcript = value;
+    },
+    annotate({ timestamp = Date.now(), type, content }) {
+      if (!recording) return;
+      annotations.push({ timestamp, type, content });
+    },
+    stop() {
+      if (recording) {
+        recording = false;
+        endedAt = Date.now();
+        // Backends deliver on separate callbacks, so interleave by time
+        samples.sort((a, b) => a.timestamp - b.timestamp);
+      }
+      return snapshot();
+    },
+    setSessionId(id) {
+      sessionId = id;
+    },
+    isRecording: () => recording,
+    getSampleCount: () => samples.length,
+    reset() {
+      samples = [];
+      recording = false;
+      sessionId = null;
+      startedAt = 0;
+      endedAt = null;
+      viewport = null;
+      layout = null;
+      transcript = null;
+      annotations = [];
+      metadata = {};
+    },
+  };
+}
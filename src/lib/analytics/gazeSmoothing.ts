@@ -0,0 +1,297 @@
+/**
+ * ST-GAZE Pipeline: Spatio-Temporal Gated Recurrent Unit-like gaze estimation
+ *
+ * Implements:
+ * 1. Sliding window temporal smoothing (5 frames)
+ * 2. GRU-like gate mechanism for adaptive smoothing
+ * 3. Ridge Regression calibration for sub-degree accuracy
+ * 4. Saccadic jump preservation during rapid eye movements
+ *
+ * Screen dimensions are passed in explicitly so the pipeline can run
+ * outside the browser window.
+ */
+
+interface GazeFrame {
+  x: number;
+  y: number;
+  timestamp: number;
+  velocity: number;
+}
+
+interface GRUState {
+  hidden: { x: number; y: number };
+  resetGate: number;
+  updateGate: number;
+}
+
+interface RidgeCalibration {
+  weights: { wx: number[]; wy: number[] };
+  bias: { bx: number; by: number };
+  lambda: number; // Regularization parameter
+  isCalibrated: boolean;
+  calibrationPoints: Array<{ input: number[]; target: { x: number; y: number } }>;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface STGazeConfig {
+  windowSize: number;
+  saccadeThreshold: number; // degrees per second
+  gruDecay: number;
+  ridgeLambda: number;
+}
+
+export const DEFAULT_STGAZE_CONFIG: STGazeConfig = {
+  windowSize: 5,
+  saccadeThreshold: 30, // 30°/sec threshold for saccade detection
+  gruDecay: 0.15,
+  ridgeLambda: 0.1,
+};
+
+export interface ProcessedGazeFrame {
+  x: number;
+  y: number;
+  velocity: number;
+  isSaccade: boolean;
+}
+
+export interface STGazePipeline {
+  processGazeFrame(rawX: number, rawY: number, timestamp: number, viewport: Viewport): ProcessedGazeFrame;
+  addCalibrationPoint(rawGaze: { x: number; y: number }, targetScreen: { x: number; y: number }, viewport: Viewport): void;
+  finalizeCalibration(): boolean;
+  reset(): void;
+  clearCalibration(): void;
+  isCalibrated(): boolean;
+  readonly config: STGazeConfig;
+}
+
+// Calculate velocity between two points (degrees per second)
+function calculateVelocity(
+  p1: { x: number; y: number; timestamp: number },
+  p2: { x: number; y: number; timestamp: number }
+): number {
+  const dt = (p2.timestamp - p1.timestamp) / 1000; // seconds
+  if (dt <= 0) return 0;
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  // Convert to degrees (approximate: 1 degree ≈ 35 pixels at typical viewing distance)
+  const distanceDegrees = distance / 35;
+  return distanceDegrees / dt;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Solve A·x = b by Gaussian elimination with partial pivoting
+export function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = A.length;
+  const aug: number[][] = A.map((row, i) => [...row, b[i]]);
+
+  // Forward elimination
+  for (let i = 0; i < n; i++) {
+    let maxRow = i;
+    for (let k = i + 1; k < n; k++) {
+      if (Math.abs(aug[k][i]) > Math.abs(aug[maxRow][i])) maxRow = k;
+    }
+    [aug[i], aug[maxRow]] = [aug[maxRow], aug[i]];
+
+    if (Math.abs(aug[i][i]) < 1e-10) continue;
+
+    for (let k = i + 1; k < n; k++) {
+      const factor = aug[k][i] / aug[i][i];
+      for (let j = i; j <= n; j++) {
+        aug[k][j] -= factor * aug[i][j];
+      }
+    }
+  }
+
+  // Back substitution
+  const x = Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    x[i] = aug[i][n];
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= aug[i][j] * x[j];
+    }
+    x[i] /= aug[i][i] || 1;
+  }
+  return x;
+}
+
+function identityCalibration(lambda: number): RidgeCalibration {
+  return {
+    weights: { wx: [1, 0, 0], wy: [0, 1, 0] }, // Default: identity transform
+    bias: { bx: 0, by: 0 },
+    lambda,
+    isCalibrated: false,
+    calibrationPoints: [],
+  };
+}
+
+export function createSTGazePipeline(config: Partial<STGazeConfig> = {}): STGazePipeline {
+  const cfg: STGazeConfig = { ...DEFAULT_STGAZE_CONFIG, ...config };
+
+  let windowBuffer: GazeFrame[] = [];
+  let gruState: GRUState = { hidden: { x: 0, y: 0 }, resetGate: 0, updateGate: 0 };
+  let calibration = identityCalibration(cfg.ridgeLambda);
+
+  // GRU-like gating mechanism
+  // Preserves saccadic sharpness while smoothing fixations
+  const applyGRUGating = (currentInput: { x: number; y: number }, velocity: number) => {
+    // Calculate reset gate: higher velocity = more reset (preserve saccade sharpness)
+    const velocityNormalized = Math.min(velocity / cfg.saccadeThreshold, 3);
+    const resetGate = sigmoid(velocityNormalized * 2 - 1);
+
+    // Calculate update gate: inverse of reset (smooth during fixation)
+    const updateGate = 1 - resetGate * cfg.gruDecay;
+
+    const newHidden = {
+      x: updateGate * gruState.hidden.x + (1 - updateGate) * currentInput.x,
+      y: updateGate * gruState.hidden.y + (1 - updateGate) * currentInput.y,
+    };
+
+    // If saccade detected (high velocity), pass through raw input for sharp saccadic jumps
+    if (velocity > cfg.saccadeThreshold) {
+      newHidden.x = currentInput.x;
+      newHidden.y = currentInput.y;
+    }
+
+    gruState = { hidden: newHidden, resetGate, updateGate };
+    return newHidden;
+  };
+
+  // Ridge Regression training
+  // (X^T * X + λI)^-1 * X^T * y
+  const trainRidgeRegression = (): boolean => {
+    const cal = calibration;
+    if (cal.calibrationPoints.length < 5) return false;
+
+    const n = cal.calibrationPoints.length;
+    const featureDim = 3; // x, y, 1 (bias)
+
+    const X: number[][] = [];
+    const Yx: number[] = [];
+    const Yy: number[] = [];
+
+    for (const point of cal.calibrationPoints) {
+      X.push(point.input);
+      Yx.push(point.target.x);
+      Yy.push(point.target.y);
+    }
+
+    // Compute X^T * X
+    const XTX: number[][] = Array(featureDim).fill(0).map(() => Array(featureDim).fill(0));
+    for (let i = 0; i < featureDim; i++) {
+      for (let j = 0; j < featureDim; j++) {
+        let sum = 0;
+        for (let k = 0; k < n; k++) {
+          sum += X[k][i] * X[k][j];
+        }
+        XTX[i][j] = sum + (i === j ? cal.lambda : 0); // Add regularization
+      }
+    }
+
+    // Compute X^T * Y
+    const XTYx: number[] = Array(featureDim).fill(0);
+    const XTYy: number[] = Array(featureDim).fill(0);
+    for (let i = 0; i < featureDim; i++) {
+      let sumX = 0, sumY = 0;
+      for (let k = 0; k < n; k++) {
+        sumX += X[k][i] * Yx[k];
+        sumY += X[k][i] * Yy[k];
+      }
+      XTYx[i] = sumX;
+      XTYy[i] = sumY;
+    }
+
+    try {
+      cal.weights.wx = solveLinearSystem(XTX.map(r => [...r]), XTYx);
+      cal.weights.wy = solveLinearSystem(XTX.map(r => [...r]), XTYy);
+      cal.bias.bx = cal.weights.wx[2] || 0;
+      cal.bias.by = cal.weights.wy[2] || 0;
+      cal.isCalibrated = true;
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // Apply Ridge Regression to map gaze to screen
+  const applyCalibration = (rawGaze: { x: number; y: number }, viewport: Viewport) => {
+    const cal = calibration;
+    if (!cal.isCalibrated) return rawGaze;
+
+    const input = [rawGaze.x / viewport.width, rawGaze.y / viewport.height, 1];
+
+    const screenX = input[0] * cal.weights.wx[0] + input[1] * cal.weights.wx[1] + cal.weights.wx[2];
+    const screenY = input[0] * cal.weights.wy[0] + input[1] * cal.weights.wy[1] + cal.weights.wy[2];
+
+    return {
+      x: Math.max(0, Math.min(viewport.width, screenX)),
+      y: Math.max(0, Math.min(viewport.height, screenY)),
+    };
+  };
+
+  return {
+    processGazeFrame(rawX, rawY, timestamp, viewport) {
+      let velocity = 0;
+      if (windowBuffer.length > 0) {
+        const lastFrame = windowBuffer[windowBuffer.length - 1];
+        velocity = calculateVelocity(lastFrame, { x: rawX, y: rawY, timestamp });
+      }
+
+      windowBuffer.push({ x: rawX, y: rawY, timestamp, velocity });
+      while (windowBuffer.length > cfg.windowSize) {
+        windowBuffer.shift();
+      }
+
+      let weightedX = 0, weightedY = 0, totalWeight = 0;
+      const isSaccade = velocity > cfg.saccadeThreshold;
+
+      if (!isSaccade) {
+        // Apply temporal smoothing during fixation; more recent frames get higher weight
+        for (let i = 0; i < windowBuffer.length; i++) {
+          const weight = (i + 1) / windowBuffer.length;
+          weightedX += windowBuffer[i].x * weight;
+          weightedY += windowBuffer[i].y * weight;
+          totalWeight += weight;
+        }
+        weightedX /= totalWeight;
+        weightedY /= totalWeight;
+      } else {
+        // During saccade, use raw position
+        weightedX = rawX;
+        weightedY = rawY;
+      }
+
+      const gatedGaze = applyGRUGating({ x: weightedX, y: weightedY }, velocity);
+      const calibratedGaze = applyCalibration(gatedGaze, viewport);
+
+      return { ...calibratedGaze, velocity, isSaccade };
+    },
+    addCalibrationPoint(rawGaze, targetScreen, viewport) {
+      calibration.calibrationPoints.push({
+        input: [rawGaze.x / viewport.width, rawGaze.y / viewport.height, 1],
+        target: targetScreen,
+      });
+    },
+    finalizeCalibration() {
+      return trainRidgeRegression();
+    },
+    reset() {
+      windowBuffer = [];
+      gruState = { hidden: { x: 0, y: 0 }, resetGate: 0, updateGate: 0 };
+    },
+    clearCalibration() {
+      calibration = identityCalibration(cfg.ridgeLambda);
+    },
+    isCalibrated() {
+      return calibration.isCalibrated;
+    },
+    config: cfg,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Gaze Analytics Core
+ *
+ * Framework-agnostic pipeline that turns gaze samples into movement events,
+ * biomarkers and risk scores. Nothing in this directory may import React,
+ * touch `window`, or use the `@/` path alias: the same modules are loaded by
+ * the browser hooks, Web Workers and the Deno edge functions (via
+ * `supabase/functions/_shared/analytics.ts`), so a session scored in the
+ * browser re-scores to identical numbers on the server.
+ *
+ * Internal imports carry explicit `.ts` extensions for Deno.
+ */
+
+export * from './types.ts';
+export * from './remodnavClassifier.ts';
+export * from './biomarkers.ts';
+export * from './gazeSmoothing.ts';
+export * from './fixationDetector.ts';
+export * from './eyeMetrics.ts';
+export * from './etdd70Engine.ts';
+export * from './diagnosticScoring.ts';
+export * from './rescoring.ts';
+export * from './gazeRecording.ts';
+export * from './sessionReplay.ts';
+export * from './wordAoi.ts';
+export * from './driftCorrection.ts';
+export * from './syntheticReader.ts';
+export * from './calibrationValidation.ts';
+export * from './insightNarrativeStrings.ts';
+export * from './insightNarratives.ts';
+export * from './miscueAnalysis.ts';
+export * from './speechTranscription.ts';
+export * from './acousticProsody.ts';
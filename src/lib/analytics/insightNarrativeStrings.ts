@@ -0,0 +1,419 @@
+/**
+ * Narrative templates for the rule-based insight generator, one table per
+ * language. Every language must fill every key so a narrative never mixes
+ * languages.
+ */
+
+import type { RiskLevel } from './types.ts';
+
+export const NARRATIVE_LANGUAGES = ['en', 'hi', 'ta', 'te'] as const;
+export type NarrativeLanguage = (typeof NARRATIVE_LANGUAGES)[number];
+
+export type ConcernKey =
+  | 'slowReading'
+  | 'longFixations'
+  | 'frequentRegressions'
+  | 'disorganizedScanning'
+  | 'stepByStepDecoding'
+  | 'motorControl'
+  | 'lowFluency'
+  | 'phonemicErrors'
+  | 'attention'
+  | 'handwriting';
+
+export type StrengthKey = 'readingSpeed' | 'efficientFixations' | 'forwardFlow' | 'organizedScanning' | 'fluentReading';
+
+export type StrategyKey = 'phonics' | 'fluency' | 'tracking' | 'oculomotor' | 'attention' | 'handwriting' | 'monitoring';
+
+export interface NarrativeStrings {
+  concerns: Record<ConcernKey, string>;
+  strengths: Record<StrengthKey, string>;
+  focusAreas: Record<ConcernKey, string>;
+  strategies: Record<StrategyKey, { title: string; description: string }>;
+  materials: Partial<Record<StrategyKey, string>>;
+  riskLevels: Record<RiskLevel, string>;
+  weekdays: [string, string, string, string, string];
+  percentile: (p: number) => string;
+  perWeek: (n: number) => string;
+  daily: string;
+  once: string;
+  minutes: (n: number) => string;
+  gradeBand: (band: string) => string;
+  levelAt: (label: string) => string;
+  levelBelow: (label: string) => string;
+  summary: (name: string, risk: string, concerns: number, strengths: number) => string;
+  forecast: Record<RiskLevel, string>;
+  clinicalNote: string;
+}
+
+function englishOrdinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+export const NARRATIVE_STRINGS: Record<NarrativeLanguage, NarrativeStrings> = {
+  en: {
+    concerns: {
+      slowReading: 'Reading speed is below what is expected for the grade band',
+      longFixations: 'Fixations on words are longer than expected, a sign of effortful decoding',
+      frequentRegressions: 'The eyes jump back to re-read more often than expected',
+      disorganizedScanning: 'Eye movements across the lines are irregular',
+      stepByStepDecoding: 'Short, closely spaced saccades suggest letter-by-letter decoding',
+      motorControl: 'Unstable landings after saccades suggest an eye-movement control difficulty',
+      lowFluency: 'Oral reading fluency is low',
+      phonemicErrors: 'Frequent phonemic errors while reading aloud',
+      attention: 'Gaze patterns show signs of attention difficulties',
+      handwriting: 'Handwriting shows letter reversals or inconsistent letter formation',
+    },
+    strengths: {
+      readingSpeed: 'Reading speed is above expectations for the grade band',
+      efficientFixations: 'Fixations are short and efficient',
+      forwardFlow: 'Reading flows forward with few regressions',
+      organizedScanning: 'Eye movements across the lines are well organized',
+      fluentReading: 'Reads aloud fluently',
+    },
+    focusAreas: {
+      slowReading: 'Reading rate',
+      longFixations: 'Decoding',
+      frequentRegressions: 'Visual tracking',
+      disorganizedScanning: 'Visual tracking',
+      stepByStepDecoding: 'Phonics',
+      motorControl: 'Eye-movement control',
+      lowFluency: 'Fluency',
+      phonemicErrors: 'Phonemic awareness',
+      attention: 'Sustained attention',
+      handwriting: 'Letter formation',
+    },
+    strategies: {
+      phonics: {
+        title: 'Structured literacy',
+        description: 'Systematic, explicit phonics with multisensory practice of sound–letter links',
+      },
+      fluency: {
+        title: 'Repeated reading',
+        description: 'Re-read short grade-level passages aloud with feedback until the reading is smooth',
+      },
+      tracking: {
+        title: 'Tracking support',
+        description: 'Use a line guide or finger tracking and practise left-to-right scanning exercises',
+      },
+      oculomotor: {
+        title: 'Eye-movement referral',
+        description: 'Refer for an optometric or orthoptic assessment of eye-movement control',
+      },
+      attention: {
+        title: 'Short, structured sessions',
+        description: 'Break reading into short blocks with clear goals and movement breaks',
+      },
+      handwriting: {
+        title: 'Letter formation practice',
+        description: 'Multisensory letter formation with attention to commonly reversed letters',
+      },
+      monitoring: {
+        title: 'Continue monitoring',
+        description: 'Keep the current reading programme and reassess in about six weeks',
+      },
+    },
+    materials: {
+      phonics: 'Decodable readers',
+      fluency: 'Short levelled passages for re-reading',
+      tracking: 'Line reader or reading ruler',
+      attention: 'Visual timers and short texts',
+      handwriting: 'Raised-line paper',
+      monitoring: 'Grade-level texts',
+    },
+    riskLevels: { low: 'low', moderate: 'moderate', high: 'high' },
+    weekdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    percentile: p => `${englishOrdinal(p)} percentile`,
+    perWeek: n => `${n}x per week`,
+    daily: 'Daily',
+    once: 'Once',
+    minutes: n => `${n} minutes`,
+    gradeBand: band => (band === 'adult' ? 'Adult' : `Grades ${band}`),
+    levelAt: label => `${label} texts`,
+    levelBelow: label => `${label} texts with support, starting one band lower`,
+    summary: (name, risk, concerns, strengths) =>
+      `${name} shows a ${risk} risk profile. Compared with grade-level norms, ` +
+      `${plural(concerns, 'area')} of concern and ${plural(strengths, 'strength')} were found.`,
+    forecast: {
+      low: 'Reading is expected to keep developing typically; recheck at the next routine screening.',
+      moderate: 'With consistent targeted support, measurable gains are expected within 8–12 weeks.',
+      high: 'Progress is likely to need intensive, sustained support; reassess after 6–8 weeks to confirm the response.',
+    },
+    clinicalNote:
+      'Generated from rule-based templates without an AI model. Findings compare this session with grade-level norms; review before sharing.',
+  },
+  hi: {
+    concerns: {
+      slowReading: 'पढ़ने की गति कक्षा-स्तर की अपेक्षा से कम है',
+      longFixations: 'शब्दों पर नज़र अपेक्षा से अधिक देर तक रुकती है, जो कठिन डिकोडिंग का संकेत है',
+      frequentRegressions: 'आँखें दोबारा पढ़ने के लिए अपेक्षा से अधिक बार पीछे लौटती हैं',
+      disorganizedScanning: 'पंक्तियों पर आँखों की गति अनियमित है',
+      stepByStepDecoding: 'छोटी और पास-पास की सैकेड अक्षर-दर-अक्षर डिकोडिंग का संकेत देती हैं',
+      motorControl: 'सैकेड के बाद नज़र का अस्थिर ठहराव नेत्र-गति नियंत्रण में कठिनाई का संकेत है',
+      lowFluency: 'मौखिक पठन प्रवाह कम है',
+      phonemicErrors: 'ज़ोर से पढ़ते समय ध्वनि संबंधी त्रुटियाँ बार-बार होती हैं',
+      attention: 'नज़र के पैटर्न में ध्यान संबंधी कठिनाई के संकेत हैं',
+      handwriting: 'लिखावट में अक्षर उलटे हैं या अक्षरों की बनावट असंगत है',
+    },
+    strengths: {
+      readingSpeed: 'पढ़ने की गति कक्षा-स्तर की अपेक्षा से अधिक है',
+      efficientFixations: 'शब्दों पर नज़र का ठहराव छोटा और कुशल है',
+      forwardFlow: 'बहुत कम रिग्रेशन के साथ पढ़ना आगे की ओर सहजता से चलता है',
+      organizedScanning: 'पंक्तियों पर आँखों की गति सुव्यवस्थित है',
+      fluentReading: 'ज़ोर से पढ़ने का प्रवाह अच्छा है',
+    },
+    focusAreas: {
+      slowReading: 'पढ़ने की गति',
+      longFixations: 'डिकोडिंग',
+      frequentRegressions: 'दृश्य ट्रैकिंग',
+      disorganizedScanning: 'दृश्य ट्रैकिंग',
+      stepByStepDecoding: 'फ़ोनिक्स (ध्वनि-अक्षर ज्ञान)',
+      motorControl: 'नेत्र-गति नियंत्रण',
+      lowFluency: 'पठन प्रवाह',
+      phonemicErrors: 'ध्वनि जागरूकता',
+      attention: 'निरंतर ध्यान',
+      handwriting: 'अक्षर बनावट',
+    },
+    strategies: {
+      phonics: {
+        title: 'संरचित साक्षरता',
+        description: 'ध्वनि और अक्षर के संबंध का बहु-इंद्रिय अभ्यास के साथ व्यवस्थित, स्पष्ट फ़ोनिक्स शिक्षण',
+      },
+      fluency: {
+        title: 'बार-बार पढ़ना',
+        description: 'कक्षा-स्तर के छोटे अनुच्छेदों को प्रतिक्रिया के साथ तब तक ज़ोर से दोबारा पढ़ें जब तक पढ़ना सहज न हो जाए',
+      },
+      tracking: {
+        title: 'ट्रैकिंग सहायता',
+        description: 'लाइन गाइड या उंगली से ट्रैकिंग का उपयोग करें और बाएँ से दाएँ देखने के अभ्यास करें',
+      },
+      oculomotor: {
+        title: 'नेत्र-गति जाँच हेतु रेफ़रल',
+        description: 'आँखों की गति के नियंत्रण की जाँच के लिए ऑप्टोमेट्रिस्ट या ऑर्थोप्टिस्ट के पास भेजें',
+      },
+      attention: {
+        title: 'छोटे, संरचित सत्र',
+        description: 'पढ़ाई को स्पष्ट लक्ष्यों और बीच में शारीरिक विराम के साथ छोटे हिस्सों में बाँटें',
+      },
+      handwriting: {
+        title: 'अक्षर बनाने का अभ्यास',
+        description: 'अक्सर उलटे लिखे जाने वाले अक्षरों पर ध्यान देते हुए बहु-इंद्रिय अक्षर लेखन अभ्यास',
+      },
+      monitoring: {
+        title: 'निगरानी जारी रखें',
+        description: 'वर्तमान पठन कार्यक्रम जारी रखें और लगभग छह सप्ताह में दोबारा आकलन करें',
+      },
+    },
+    materials: {
+      phonics: 'डिकोडेबल पुस्तिकाएँ',
+      fluency: 'दोबारा पढ़ने के लिए छोटे स्तरीकृत अनुच्छेद',
+      tracking: 'लाइन रीडर या पठन पट्टी',
+      attention: 'विज़ुअल टाइमर और छोटे पाठ',
+      handwriting: 'उभरी रेखाओं वाला कागज़',
+      monitoring: 'कक्षा-स्तर के पाठ',
+    },
+    riskLevels: { low: 'कम', moderate: 'मध्यम', high: 'उच्च' },
+    weekdays: ['सोमवार', 'मंगलवार', 'बुधवार', 'गुरुवार', 'शुक्रवार'],
+    percentile: p => `${p}वाँ पर्सेंटाइल`,
+    perWeek: n => `सप्ताह में ${n} बार`,
+    daily: 'प्रतिदिन',
+    once: 'एक बार',
+    minutes: n => `${n} मिनट`,
+    gradeBand: band => (band === 'adult' ? 'वयस्क' : `कक्षा ${band}`),
+    levelAt: label => `${label} स्तर के पाठ`,
+    levelBelow: label => `सहायता के साथ ${label} स्तर के पाठ, एक स्तर नीचे से शुरू करें`,
+    summary: (name, risk, concerns, strengths) =>
+      `${name} — जोखिम स्तर: ${risk}। कक्षा-स्तर के मानकों की तुलना में ${concerns} चिंता के क्षेत्र और ${strengths} क्षमताएँ पाई गईं।`,
+    forecast: {
+      low: 'पढ़ना सामान्य रूप से विकसित होता रहेगा, ऐसी अपेक्षा है; अगली नियमित जाँच में दोबारा देखें।',
+      moderate: 'नियमित लक्षित सहायता से 8–12 सप्ताह में मापने योग्य सुधार की अपेक्षा है।',
+      high: 'प्रगति के लिए गहन और निरंतर सहायता की ज़रूरत होगी; असर जाँचने के लिए 6–8 सप्ताह बाद दोबारा आकलन करें।',
+    },
+    clinicalNote:
+      'यह AI मॉडल के बिना, नियम-आधारित टेम्पलेट से तैयार किया गया है। निष्कर्ष इस सत्र की तुलना कक्षा-स्तर के मानकों से करते हैं; साझा करने से पहले समीक्षा करें।',
+  },
+  ta: {
+    concerns: {
+      slowReading: 'வாசிப்பு வேகம் வகுப்பு நிலைக்கு எதிர்பார்க்கப்படுவதை விடக் குறைவாக உள்ளது',
+      longFixations: 'சொற்களின் மீது பார்வை எதிர்பார்த்ததை விட நீண்ட நேரம் நிலைக்கிறது; இது சிரமமான எழுத்துக்கூட்டலைக் காட்டுகிறது',
+      frequentRegressions: 'மீண்டும் படிக்கக் கண்கள் எதிர்பார்த்ததை விட அடிக்கடி பின்னோக்கிச் செல்கின்றன',
+      disorganizedScanning: 'வரிகளின் மீது கண் அசைவுகள் ஒழுங்கற்றவையாக உள்ளன',
+      stepByStepDecoding: 'குறுகிய, நெருக்கமான கண் தாவல்கள் எழுத்து-எழுத்தாகப் படிப்பதைக் காட்டுகின்றன',
+      motorControl: 'கண் தாவலுக்குப் பின் நிலையற்ற பார்வை, கண் இயக்கக் கட்டுப்பாட்டுச் சிரமத்தைக் குறிக்கிறது',
+      lowFluency: 'உரக்க வாசிக்கும் சரளம் குறைவாக உள்ளது',
+      phonemicErrors: 'உரக்க வாசிக்கும்போது ஒலியன் பிழைகள் அடிக்கடி நிகழ்கின்றன',
+      attention: 'பார்வை முறைகளில் கவனச் சிரமத்தின் அறிகுறிகள் உள்ளன',
+      handwriting: 'கையெழுத்தில் எழுத்துகள் தலைகீழாக உள்ளன அல்லது எழுத்து வடிவம் சீரற்றதாக உள்ளது',
+    },
+    strengths: {
+      readingSpeed: 'வாசிப்பு வேகம் வகுப்பு நிலைக்கு எதிர்பார்க்கப்படுவதை விட அதிகமாக உள்ளது',
+      efficientFixations: 'சொற்களின் மீது பார்வை குறுகிய நேரம் திறம்பட நிலைக்கிறது',
+      forwardFlow: 'குறைவான பின்னோக்கிய அசைவுகளுடன் வாசிப்பு முன்னோக்கிச் செல்கிறது',
+      organizedScanning: 'வரிகளின் மீது கண் அசைவுகள் ஒழுங்காக உள்ளன',
+      fluentReading: 'உரக்க வாசிக்கும் சரளம் நன்றாக உள்ளது',
+    },
+    focusAreas: {
+      slowReading: 'வாசிப்பு வேகம்',
+      longFixations: 'எழுத்துக்கூட்டல்',
+      frequentRegressions: 'பார்வைப் பின்தொடர்தல்',
+      disorganizedScanning: 'பார்வைப் பின்தொடர்தல்',
+      stepByStepDecoding: 'ஒலி-எழுத்து அறிவு',
+      motorControl: 'கண் இயக்கக் கட்டுப்பாடு',
+      lowFluency: 'சரளம்',
+      phonemicErrors: 'ஒலியன் விழிப்புணர்வு',
+      attention: 'தொடர் கவனம்',
+      handwriting: 'எழுத்து வடிவமைப்பு',
+    },
+    strategies: {
+      phonics: {
+        title: 'கட்டமைக்கப்பட்ட எழுத்தறிவு',
+        description: 'ஒலி-எழுத்து தொடர்புகளைப் பல புலன் பயிற்சியுடன் முறையாகவும் வெளிப்படையாகவும் கற்பித்தல்',
+      },
+      fluency: {
+        title: 'மீண்டும் மீண்டும் வாசித்தல்',
+        description: 'வகுப்பு நிலைக்கான சிறு பத்திகளை, வாசிப்பு சீராகும் வரை கருத்துரையுடன் உரக்க மீண்டும் வாசிக்கவும்',
+      },
+      tracking: {
+        title: 'பார்வைப் பின்தொடர்தல் உதவி',
+        description: 'வரி வழிகாட்டி அல்லது விரல் பின்தொடர்தலைப் பயன்படுத்தி இடமிருந்து வலமாகப் பார்க்கும் பயிற்சிகள் செய்யவும்',
+      },
+      oculomotor: {
+        title: 'கண் இயக்கப் பரிசோதனைக்குப் பரிந்துரை',
+        description: 'கண் அசைவுக் கட்டுப்பாட்டை மதிப்பிட கண் பரிசோதகரிடம் பரிந்துரைக்கவும்',
+      },
+      attention: {
+        title: 'குறுகிய, கட்டமைந்த அமர்வுகள்',
+        description: 'தெளிவான இலக்குகள் மற்றும் இடைவேளைகளுடன் வாசிப்பைச் சிறு பகுதிகளாகப் பிரிக்கவும்',
+      },
+      handwriting: {
+        title: 'எழுத்து வடிவமைப்புப் பயிற்சி',
+        description: 'அடிக்கடி தலைகீழாக எழுதப்படும் எழுத்துகளில் கவனம் செலுத்தி பல புலன் எழுத்துப் பயிற்சி',
+      },
+      monitoring: {
+        title: 'கண்காணிப்பைத் தொடரவும்',
+        description: 'தற்போதைய வாசிப்புத் திட்டத்தைத் தொடர்ந்து சுமார் ஆறு வாரங்களில் மறுமதிப்பீடு செய்யவும்',
+      },
+    },
+    materials: {
+      phonics: 'எழுத்துக்கூட்டி வாசிக்கக்கூடிய புத்தகங்கள்',
+      fluency: 'மீண்டும் வாசிக்க நிலைப்படுத்தப்பட்ட சிறு பத்திகள்',
+      tracking: 'வரி வாசிப்புக் கருவி அல்லது வாசிப்பு அளவுகோல்',
+      attention: 'காட்சி நேரமானிகள் மற்றும் சிறு உரைகள்',
+      handwriting: 'உயர்த்தப்பட்ட கோடுகள் கொண்ட தாள்',
+      monitoring: 'வகுப்பு நிலை உரைகள்',
+    },
+    riskLevels: { low: 'குறைவு', moderate: 'மிதமானது', high: 'அதிகம்' },
+    weekdays: ['திங்கள்', 'செவ்வாய்', 'புதன்', 'வியாழன்', 'வெள்ளி'],
+    percentile: p => `${p}-வது சதமானம்`,
+    perWeek: n => `வாரத்திற்கு ${n} முறை`,
+    daily: 'தினமும்',
+    once: 'ஒரு முறை',
+    minutes: n => `${n} நிமிடங்கள்`,
+    gradeBand: band => (band === 'adult' ? 'வயது வந்தோர்' : `வகுப்புகள் ${band}`),
+    levelAt: label => `${label} நிலை உரைகள்`,
+    levelBelow: label => `${label} நிலை உரைகள், உதவியுடன், ஒரு நிலை கீழிருந்து தொடங்கவும்`,
+    summary: (name, risk, concerns, strengths) =>
+      `${name} — இடர் நிலை: ${risk}. வகுப்பு நிலை விதிமுறைகளுடன் ஒப்பிடுகையில் ${concerns} கவனிக்க வேண்டிய பகுதிகளும் ${strengths} பலங்களும் கண்டறியப்பட்டன.`,
+    forecast: {
+      low: 'வாசிப்பு இயல்பாக வளர்ச்சியடையும் என எதிர்பார்க்கப்படுகிறது; அடுத்த வழக்கமான பரிசோதனையில் மீண்டும் பார்க்கவும்.',
+      moderate: 'தொடர்ச்சியான இலக்கு உதவியுடன் 8–12 வாரங்களில் அளவிடக்கூடிய முன்னேற்றம் எதிர்பார்க்கப்படுகிறது.',
+      high: 'முன்னேற்றத்திற்குத் தீவிரமான, தொடர்ச்சியான உதவி தேவைப்படும்; பலனை உறுதிப்படுத்த 6–8 வாரங்களுக்குப் பின் மறுமதிப்பீடு செய்யவும்.',
+    },
+    clinicalNote:
+      'இது AI மாதிரி இல்லாமல் விதி அடிப்படையிலான வார்ப்புருக்களிலிருந்து உருவாக்கப்பட்டது. கண்டுபிடிப்புகள் இந்த அமர்வை வகுப்பு நிலை விதிமுறைகளுடன் ஒப்பிடுகின்றன; பகிர்வதற்கு முன் சரிபார்க்கவும்.',
+  },
+  te: {
+    concerns: {
+      slowReading: 'చదివే వేగం తరగతి స్థాయికి ఆశించిన దానికంటే తక్కువగా ఉంది',
+      longFixations: 'పదాలపై చూపు ఆశించిన దానికంటే ఎక్కువసేపు నిలుస్తోంది; ఇది కష్టమైన డీకోడింగ్‌ను సూచిస్తుంది',
+      frequentRegressions: 'మళ్లీ చదవడానికి కళ్ళు ఆశించిన దానికంటే తరచుగా వెనక్కి వెళ్తున్నాయి',
+      disorganizedScanning: 'పంక్తులపై కంటి కదలికలు అస్తవ్యస్తంగా ఉన్నాయి',
+      stepByStepDecoding: 'చిన్న, దగ్గరగా ఉన్న కంటి దూకులు అక్షరం-అక్షరంగా చదవడాన్ని సూచిస్తున్నాయి',
+      motorControl: 'కంటి దూకు తర్వాత అస్థిరమైన చూపు కంటి కదలిక నియంత్రణ సమస్యను సూచిస్తుంది',
+      lowFluency: 'గట్టిగా చదివే ధారాళత తక్కువగా ఉంది',
+      phonemicErrors: 'గట్టిగా చదివేటప్పుడు ధ్వని దోషాలు తరచుగా వస్తున్నాయి',
+      attention: 'చూపు నమూనాలలో శ్రద్ధ సమస్యల సంకేతాలు ఉన్నాయి',
+      handwriting: 'చేతిరాతలో అక్షరాలు తిరగబడ్డాయి లేదా అక్షరాల ఆకృతి అస్థిరంగా ఉంది',
+    },
+    strengths: {
+      readingSpeed: 'చదివే వేగం తరగతి స్థాయికి ఆశించిన దానికంటే ఎక్కువగా ఉంది',
+      efficientFixations: 'పదాలపై చూపు తక్కువసేపు, సమర్థవంతంగా నిలుస్తోంది',
+      forwardFlow: 'తక్కువ వెనుకకు కదలికలతో చదవడం ముందుకు సాగుతోంది',
+      organizedScanning: 'పంక్తులపై కంటి కదలికలు క్రమబద్ధంగా ఉన్నాయి',
+      fluentReading: 'గట్టిగా చదివే ధారాళత బాగుంది',
+    },
+    focusAreas: {
+      slowReading: 'చదివే వేగం',
+      longFixations: 'డీకోడింగ్',
+      frequentRegressions: 'దృశ్య ట్రాకింగ్',
+      disorganizedScanning: 'దృశ్య ట్రాకింగ్',
+      stepByStepDecoding: 'ధ్వని-అక్షర జ్ఞానం',
+      motorControl: 'కంటి కదలిక నియంత్రణ',
+      lowFluency: 'ధారాళత',
+      phonemicErrors: 'ధ్వని అవగాహన',
+      attention: 'నిరంతర శ్రద్ధ',
+      handwriting: 'అక్షర రూపకల్పన',
+    },
+    strategies: {
+      phonics: {
+        title: 'నిర్మాణాత్మక అక్షరాస్యత',
+        description: 'ధ్వని-అక్షర సంబంధాలను బహుళ ఇంద్రియ సాధనతో క్రమబద్ధంగా, స్పష్టంగా బోధించడం',
+      },
+      fluency: {
+        title: 'పునరావృత పఠనం',
+        description: 'తరగతి స్థాయి చిన్న పేరాలను చదవడం సాఫీగా అయ్యే వరకు సూచనలతో మళ్లీ మళ్లీ గట్టిగా చదవండి',
+      },
+      tracking: {
+        title: 'ట్రాకింగ్ సహాయం',
+        description: 'లైన్ గైడ్ లేదా వేలితో అనుసరించడం ఉపయోగించి ఎడమ నుండి కుడికి చూసే అభ్యాసాలు చేయండి',
+      },
+      oculomotor: {
+        title: 'కంటి కదలిక పరీక్షకు సిఫార్సు',
+        description: 'కంటి కదలిక నియంత్రణను అంచనా వేయడానికి ఆప్టోమెట్రిస్ట్ వద్దకు పంపండి',
+      },
+      attention: {
+        title: 'చిన్న, నిర్మాణాత్మక సెషన్లు',
+        description: 'స్పష్టమైన లక్ష్యాలు మరియు విరామాలతో చదవడాన్ని చిన్న భాగాలుగా విభజించండి',
+      },
+      handwriting: {
+        title: 'అక్షర రూపకల్పన సాధన',
+        description: 'తరచుగా తిరగబడే అక్షరాలపై దృష్టి పెడుతూ బహుళ ఇంద్రియ అక్షర రచన సాధన',
+      },
+      monitoring: {
+        title: 'పర్యవేక్షణ కొనసాగించండి',
+        description: 'ప్రస్తుత పఠన కార్యక్రమాన్ని కొనసాగించి సుమారు ఆరు వారాల్లో మళ్లీ అంచనా వేయండి',
+      },
+    },
+    materials: {
+      phonics: 'డీకోడ్ చేయగల పుస్తకాలు',
+      fluency: 'మళ్లీ చదవడానికి స్థాయిల వారీ చిన్న పేరాలు',
+      tracking: 'లైన్ రీడర్ లేదా పఠన స్కేలు',
+      attention: 'దృశ్య టైమర్లు మరియు చిన్న పాఠాలు',
+      handwriting: 'ఉబ్బెత్తు గీతల కాగితం',
+      monitoring: 'తరగతి స్థాయి పాఠాలు',
+    },
+    riskLevels: { low: 'తక్కువ', moderate: 'మధ్యస్థం', high: 'ఎక్కువ' },
+    weekdays: ['సోమవారం', 'మంగళవారం', 'బుధవారం', 'గురువారం', 'శుక్రవారం'],
+    percentile: p => `${p}వ పర్సెంటైల్`,
+    perWeek: n => `వారానికి ${n} సార్లు`,
+    daily: 'ప్రతిరోజూ',
+    once: 'ఒకసారి',
+    minutes: n => `${n} నిమిషాలు`,
+    gradeBand: band => (band === 'adult' ? 'పెద్దలు' : `తరగతులు ${band}`),
+    levelAt: label => `${label} స్థాయి పాఠాలు`,
+    levelBelow: label => `సహాయంతో ${label} స్థాయి పాఠాలు, ఒక స్థాయి కింద నుండి ప్రారంభించండి`,
+    summary: (name, risk, concerns, strengths) =>
+      `${name} — ప్రమాద స్థాయి: ${risk}. తరగతి స్థాయి ప్రమాణాలతో పోలిస్తే ${concerns} ఆందోళన కలిగించే అంశాలు మరియు ${strengths} బలాలు కనిపించాయి.`,
+    forecast: {
+      low: 'చదవడం సాధారణంగా అభివృద్ధి చెందుతుందని ఆశించవచ్చు; తదుపరి సాధారణ పరీక్షలో మళ్లీ చూడండి.',
+      moderate: 'నిరంతర లక్ష్యిత సహాయంతో 8–12 వారాల్లో కొలవదగిన మెరుగుదల ఆశించవచ్చు.',
+      high: 'పురోగతికి తీవ్రమైన, నిరంతర సహాయం అవసరం; ఫలితాన్ని నిర్ధారించడానికి 6–8 వారాల తర్వాత మళ్లీ అంచనా వేయండి.',
+    },
+    clinicalNote:
+      'ఇది AI మోడల్ లేకుండా నియమ ఆధారిత టెంప్లేట్ల నుండి రూపొందించబడింది. ఫలితాలు ఈ సెషన్‌ను తరగతి స్థాయి ప్రమాణాలతో పోల్చుతాయి; పంచుకునే ముందు సమీక్షించండి.',
+  },
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { generateRuleBasedInsights, resolveGradeBand, type NarrativeInput } from './insightNarratives.ts';
+import { NARRATIVE_LANGUAGES, NARRATIVE_STRINGS } from './insightNarrativeStrings.ts';
+
+const struggling: NarrativeInput = {
+  diagnosticResult: {
+    overallRiskLevel: 'high',
+    adhdProbabilityIndex: 0.2,
+    dysgraphiaProbabilityIndex: 0.1,
+    eyeTracking: { averageFixationDuration: 400, regressionCount: 12, chaosIndex: 0.4 },
+    voice: { wordsPerMinute: 30, fluencyScore: 45, phonemicErrors: 2 },
+    handwriting: { reversalCount: 0 },
+  },
+  biomarkers: { stepByStepDecoding: true, motorControlIssue: false },
+  student: { name: 'Asha', grade: '2-3', age: 8 },
+};
+
+const fluent: NarrativeInput = {
+  diagnosticResult: {
+    overallRiskLevel: 'low',
+    adhdProbabilityIndex: 0.1,
+    dysgraphiaProbabilityIndex: 0.1,
+    eyeTracking: { averageFixationDuration: 200, regressionCount: 3, chaosIndex: 0.15 },
+    voice: { wordsPerMinute: 90, fluencyScore: 90, phonemicErrors: 0 },
+  },
+  student: { name: 'Ravi', grade: '2-3' },
+};
+
+describe('rule-based insight narratives', () => {
+  it('turns low percentiles and biomarker flags into concerns and matching strategies', () => {
+    const insights = generateRuleBasedInsights(struggling);
+
+    expect(insights.concerns[0]).toMatch(/^Reading speed is below .* \(\d+(st|nd|rd|th) percentile\)$/);
+    expect(insights.concerns).toContain(NARRATIVE_STRINGS.en.concerns.stepByStepDecoding);
+    expect(insights.strengths).toEqual([]);
+    expect(insights.interventionStrategies.map(s => s.title)).toEqual([
+      'Structured literacy',
+      'Repeated reading',
+      'Tracking support',
+    ]);
+    expect(insights.interventionStrategies.every(s => s.priority === 'high')).toBe(true);
+    expect(insights.weeklyPlan.map(d => d.activity)).toEqual([
+      'Structured literacy',
+      'Repeated reading',
+      'Tracking support',
+      'Structured literacy',
+      'Repeated reading',
+    ]);
+    expect(insights.readingRecommendations.level).toContain('one band lower');
+    expect(generateRuleBasedInsights(struggling)).toEqual(insights);
+  });
+
+  it('reports strengths and falls back to monitoring when nothing is of concern', () => {
+    const insights = generateRuleBasedInsights(fluent);
+
+    expect(insights.concerns).toEqual([]);
+    expect(insights.strengths).toContain('Reads aloud fluently');
+    expect(insights.interventionStrategies).toHaveLength(1);
+    expect(insights.interventionStrategies[0]).toMatchObject({ title: 'Continue monitoring', priority: 'low' });
+    expect(insights.confidence).toBeCloseTo(0.65);
+  });
+
+  it('writes the whole narrative in the requested language', () => {
+    for (const language of NARRATIVE_LANGUAGES) {
+      const strings = NARRATIVE_STRINGS[language];
+      const insights = generateRuleBasedInsights({ ...struggling, language });
+
+      expect(insights.weeklyPlan.map(d => d.day)).toEqual(strings.weekdays);
+      expect(insights.interventionStrategies[0].title).toBe(strings.strategies.phonics.title);
+      expect(insights.progressForecast).toBe(strings.forecast.high);
+      expect(insights.summary).toContain('Asha');
+    }
+  });
+
+  it('uses the student grade band when it has norms, else their age', () => {
+    expect(resolveGradeBand('4-5', 7)).toBe('4-5');
+    expect(resolveGradeBand('Year 3', 7)).toBe('2-3');
+    expect(resolveGradeBand(undefined, undefined)).toBe('adult');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Rule-based insight narratives
+ * Builds the same structure the AI insights model returns, from biomarkers,
+ * REMoDNaV metrics and grade-level percentiles, using fixed templates. Equal
+ * inputs always give the same narrative, with no network or model involved.
+ * It serves as the offline fallback and as an explicit "rules" engine.
+ *
+ * Norms come from ../normativeEngine.ts, which has no imports of its own and
+ * so loads in Deno too.
+ */
+
+import { compareMetricToNorm, getGradeFromAge, CLINICAL_BASELINES } from '../normativeEngine.ts';
+import type { DyslexiaBiomarkers, REMoDNaVMetrics, RiskLevel } from './types.ts';
+import {
+  NARRATIVE_STRINGS,
+  type ConcernKey,
+  type NarrativeLanguage,
+  type StrategyKey,
+  type StrengthKey,
+} from './insightNarrativeStrings.ts';
+
+export const RULE_BASED_MODEL = 'rule-based';
+// Bump whenever the rules or templates change, like the model prompt version
+export const RULE_BASED_PROMPT_VERSION = 'rules-v1';
+
+// Percentile at or below which a metric is a concern, at or above which it is a strength
+const CONCERN_PERCENTILE = 25;
+const STRENGTH_PERCENTILE = 75;
+// Concerns this far down get high-priority strategies
+const SEVERE_PERCENTILE = 10;
+
+const LOW_FLUENCY_SCORE = 60;
+const GOOD_FLUENCY_SCORE = 80;
+const FREQUENT_PHONEMIC_ERRORS = 5;
+const FREQUENT_REVERSALS = 3;
+const INDEX_CONCERN = 0.5;
+
+export interface NarrativeInput {
+  diagnosticResult: {
+    overallRiskLevel: RiskLevel;
+    adhdProbabilityIndex: number;
+    dysgraphiaProbabilityIndex: number;
+    eyeTracking?: Partial<{ averageFixationDuration: number; regressionCount: number; chaosIndex: number }>;
+    voice?: Partial<{ wordsPerMinute: number; fluencyScore: number; phonemicErrors: number }>;
+    handwriting?: Partial<{ reversalCount: number }>;
+  };
+  biomarkers?: Partial<DyslexiaBiomarkers>;
+  remoDNavMetrics?: Partial<REMoDNaVMetrics>;
+  student?: { name?: string; grade?: string; age?: number };
+  language?: NarrativeLanguage;
+}
+
+export interface RuleBasedInsights {
+  summary: string;
+  strengths: string[];
+  concerns: string[];
+  keyFindings: string[];
+  interventionStrategies: {
+    title: string;
+    description: string;
+    priority: 'high' | 'medium' | 'low';
+    frequency: string;
+    duration: string;
+  }[];
+  readingRecommendations: { level: string; materials: string[]; focusAreas: string[] };
+  weeklyPlan: { day: string; activity: string; duration: string }[];
+  progressForecast: string;
+  clinicalNotes: string;
+  confidence: number;
+}
+
+interface Concern {
+  key: ConcernKey;
+  percentile: number | null;
+  severe: boolean;
+}
+
+interface Strength {
+  key: StrengthKey;
+  percentile: number | null;
+}
+
+// Which strategy answers which concern, in the order strategies are listed
+const STRATEGY_FOR_CONCERN: Record<ConcernKey, StrategyKey> = {
+  stepByStepDecoding: 'phonics',
+  longFixations: 'phonics',
+  phonemicErrors: 'phonics',
+  slowReading: 'fluency',
+  lowFluency: 'fluency',
+  frequentRegressions: 'tracking',
+  disorganizedScanning: 'tracking',
+  motorControl: 'oculomotor',
+  attention: 'attention',
+  handwriting: 'handwriting',
+};
+
+const STRATEGY_ORDER: StrategyKey[] = ['phonics', 'fluency', 'tracking', 'attention', 'handwriting', 'oculomotor'];
+
+// Sessions per week (0 = one-off) and minutes per session
+const STRATEGY_SCHEDULE: Record<StrategyKey, { perWeek: number; minutes: number }> = {
+  phonics: { perWeek: 5, minutes: 30 },
+  fluency: { perWeek: 4, minutes: 15 },
+  tracking: { perWeek: 3, minutes: 10 },
+  attention: { perWeek: 5, minutes: 10 },
+  handwriting: { perWeek: 3, minutes: 15 },
+  oculomotor: { perWeek: 0, minutes: 30 },
+  monitoring: { perWeek: 1, minutes: 20 },
+};
+
+/** Grade band with norms for the student: their own band when it has norms, else from age */
+export function resolveGradeBand(grade: string | undefined, age: number | undefined): string {
+  const band = grade?.trim();
+  if (band && CLINICAL_BASELINES[band]) return band;
+  return age ? getGradeFromAge(age) : 'adult';
+}
+
+// Percentile for a measured value; zero means the step was skipped
+function percentileOf(value: number | undefined, metric: string, band: string, isInverted: boolean): number | null {
+  if (value === undefined || !Number.isFinite(value) || value <= 0) return null;
+  return Math.round(compareMetricToNorm(value, metric, band, isInverted).percentile);
+}
+
+function assessFindings(input: NarrativeInput, band: string) {
+  const { diagnosticResult: result, biomarkers, remoDNavMetrics } = input;
+  const concerns: Concern[] = [];
+  const strengths: Strength[] = [];
+
+  const normed: { concern: ConcernKey; strength: StrengthKey; percentile: number | null }[] = [
+    {
+      concern: 'slowReading',
+      strength: 'readingSpeed',
+      percentile: percentileOf(result.voice?.wordsPerMinute, 'wpm', band, false),
+    },
+    {
+      concern: 'longFixations',
+      strength: 'efficientFixations',
+      percentile: percentileOf(
+        result.eyeTracking?.averageFixationDuration || remoDNavMetrics?.averageFixationDuration,
+        'fixation_duration',
+        band,
+        true
+      ),
+    },
+    {
+      concern: 'frequentRegressions',
+      strength: 'forwardFlow',
+      percentile: percentileOf(
+        result.eyeTracking?.regressionCount || remoDNavMetrics?.regressionCount,
+        'regression_count',
+        band,
+        true
+      ),
+    },
+    {
+      concern: 'disorganizedScanning',
+      strength: 'organizedScanning',
+      percentile: percentileOf(result.eyeTracking?.chaosIndex, 'chaos_index', band, true),
+    },
+  ];
+
+  for (const { concern, strength, percentile } of normed) {
+    if (percentile === null) continue;
+    if (percentile <= CONCERN_PERCENTILE) {
+      concerns.push({ key: concern, percentile, severe: percentile <= SEVERE_PERCENTILE });
+    } else if (percentile >= STRENGTH_PERCENTILE) {
+      strengths.push({ key: strength, percentile });
+    }
+  }
+
+  // Biomarker flags and the voice and handwriting steps add concerns the norms alone don't show
+  const flagged = (key: ConcernKey, when: boolean, severe = false) => {
+    if (when && !concerns.some(c => c.key === key)) concerns.push({ key, percentile: null, severe });
+  };
+  flagged('frequentRegressions', biomarkers?.regressionRateRisk === 'high', true);
+  flagged('longFixations', biomarkers?.fixationDwellRisk === 'high', true);
+  flagged('stepByStepDecoding', !!biomarkers?.stepByStepDecoding, true);
+  flagged('motorControl', !!biomarkers?.motorControlIssue);
+
+  const fluency = result.voice?.fluencyScore;
+  if (fluency) {
+    flagged('lowFluency', fluency < LOW_FLUENCY_SCORE);
+    if (fluency >= GOOD_FLUENCY_SCORE) strengths.push({ key: 'fluentReading', percentile: null });
+  }
+  flagged('phonemicErrors', (result.voice?.phonemicErrors ?? 0) >= FREQUENT_PHONEMIC_ERRORS);
+  flagged('attention', result.adhdProbabilityIndex >= INDEX_CONCERN);
+  flagged(
+    'handwriting',
+    result.dysgraphiaProbabilityIndex >= INDEX_CONCERN || (result.handwriting?.reversalCount ?? 0) >= FREQUENT_REVERSALS
+  );
+
+  return { concerns, strengths };
+}
+
+// One point per kind of evidence the narrative could draw on
+function ruleConfidence(input: NarrativeInput): number {
+  const { diagnosticResult: result } = input;
+  const sources = [
+    !!result.eyeTracking?.averageFixationDuration,
+    !!result.voice?.wordsPerMinute,
+    !!input.biomarkers,
+    !!input.remoDNavMetrics,
+  ].filter(Boolean).length;
+  return 0.5 + sources * 0.075;
+}
+
+/** Narrative insights from templates; deterministic for equal inputs */
+export function generateRuleBasedInsights(input: NarrativeInput): RuleBasedInsights {
+  const strings = NARRATIVE_STRINGS[input.language ?? 'en'] ?? NARRATIVE_STRINGS.en;
+  const band = resolveGradeBand(input.student?.grade, input.student?.age);
+  const risk = input.diagnosticResult.overallRiskLevel;
+  const { concerns, strengths } = assessFindings(input, band);
+
+  const withPercentile = (text: string, percentile: number | null) =>
+    percentile === null ? text : `${text} (${strings.percentile(percentile)})`;
+  const concernTexts = concerns.map(c => withPercentile(strings.concerns[c.key], c.percentile));
+  const strengthTexts = strengths.map(s => withPercentile(strings.strengths[s.key], s.percentile));
+
+  const strategyKeys = STRATEGY_ORDER.filter(key => concerns.some(c => STRATEGY_FOR_CONCERN[c.key] === key));
+  const strategies = (strategyKeys.length > 0 ? strategyKeys : ['monitoring' as const]).map(key => {
+    const schedule = STRATEGY_SCHEDULE[key];
+    const severe = concerns.some(c => c.severe && STRATEGY_FOR_CONCERN[c.key] === key);
+    return {
+      key,
+      title: strings.strategies[key].title,
+      description: strings.strategies[key].description,
+      priority: key === 'monitoring' ? ('low' as const) : severe || risk === 'high' ? ('high' as const) : ('medium' as const),
+      frequency:
+        schedule.perWeek === 0 ? strings.once : schedule.perWeek >= 5 ? strings.daily : strings.perWeek(schedule.perWeek),
+      duration: strings.minutes(schedule.minutes),
+    };
+  });
+
+  // Recurring strategies rotate through the school week; referrals aren't lessons
+  const recurring = strategies.filter(s => STRATEGY_SCHEDULE[s.key].perWeek > 0);
+  const weeklyPlan = recurring.length === 0 ? [] : strings.weekdays.map((day, i) => {
+    const strategy = recurring[i % recurring.length];
+    return { day, activity: strategy.title, duration: strategy.duration };
+  });
+
+  const bandLabel = strings.gradeBand(band);
+  const slowReader = concerns.some(c => c.key === 'slowReading' || c.key === 'lowFluency');
+
+  return {
+    summary: strings.summary(input.student?.name || '—', strings.riskLevels[risk], concerns.length, strengths.length),
+    strengths: strengthTexts,
+    concerns: concernTexts,
+    keyFindings: [...concernTexts, ...strengthTexts],
+    interventionStrategies: strategies.map(({ key: _key, ...strategy }) => strategy),
+    readingRecommendations: {
+      level: slowReader ? strings.levelBelow(bandLabel) : strings.levelAt(bandLabel),
+      materials: [...new Set(strategies.flatMap(s => strings.materials[s.key] ?? []))],
+      focusAreas: [...new Set(concerns.map(c => strings.focusAreas[c.key]))],
+    },
+    weeklyPlan,
+    progressForecast: strings.forecast[risk],
+    clinicalNotes: strings.clinicalNote,
+    confidence: ruleConfidence(input),
+  };
+}
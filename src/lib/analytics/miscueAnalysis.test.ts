@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMiscues, normalizeWord } from './miscueAnalysis.ts';
+
+const PASSAGE = 'The cat sat on the mat. It was a sunny day, and the cat was happy.';
+
+const summary = (transcript: string) =>
+  analyzeMiscues(PASSAGE, transcript, 60_000).words.map(w =>
+    w.type === 'correct' ? w.expected : `${w.type}:${w.expected ?? ''}/${w.spoken ?? ''}`
+  );
+
+describe('miscue analysis', () => {
+  it('scores a clean reading as all correct and words correct per minute', () => {
+    const analysis = analyzeMiscues(PASSAGE, 'the cat sat on the mat it was a sunny day and the cat was happy', 30_000);
+
+    expect(analysis.counts.correct).toBe(16);
+    expect(analysis.accuracy).toBe(100);
+    expect(analysis.wordsCorrectPerMinute).toBe(32);
+    expect(analysis.words[5].expected).toBe('mat.');
+  });
+
+  it('classifies substitutions, omissions, insertions, repetitions and self-corrections', () => {
+    expect(summary('the cat sat on the rug it was a sunny sunny day the big cap cat was happy')).toEqual([
+      'The',
+      'cat',
+      'sat',
+      'on',
+      'the',
+      'substitution:mat./rug',
+      'It',
+      'was',
+      'a',
+      'repetition:/sunny',
+      'sunny',
+      'day,',
+      'omission:and/',
+      'the',
+      'insertion:/big',
+      'self_correction:cat/cat',
+      'was',
+      'happy.',
+    ]);
+
+    const analysis = analyzeMiscues(PASSAGE, 'the cat sat on the rug it was a sunny sunny day the big cap cat was happy', 60_000);
+    expect(analysis.words.find(w => w.type === 'self_correction')?.attempts).toEqual(['cap']);
+    // Self-corrections and repetitions count as correct; insertions don't lower accuracy
+    expect(analysis.wordsCorrect).toBe(14);
+    expect(analysis.accuracy).toBe(87.5);
+  });
+
+  it('counts passage words after the reader stopped as not reached, not omitted', () => {
+    const analysis = analyzeMiscues(PASSAGE, 'the cat sat on the mat', 10_000);
+
+    expect(analysis.wordsAttempted).toBe(6);
+    expect(analysis.passageWordCount).toBe(16);
+    expect(analysis.counts.omission).toBe(0);
+    expect(analysis.accuracy).toBe(100);
+  });
+
+  it('aligns non-Latin scripts', () => {
+    expect(normalizeWord('बिल्ली।')).toBe('बिल्ली');
+    const analysis = analyzeMiscues('एक बिल्ली थी। वह दूध पीती थी।', 'एक बिल्ली थी वह पानी पीती थी', 20_000);
+    expect(analysis.words.filter(w => w.type !== 'correct').map(w => [w.expected, w.spoken])).toEqual([['दूध', 'पानी']]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Oral reading miscue analysis
+ * Aligns what the reader said (the speech transcript) with the passage they
+ * were reading and classifies every passage word. Scoring follows curriculum
+ * based measurement: self-corrections and repetitions count as correct,
+ * insertions are listed but don't lower accuracy, and passage words after
+ * the last one the reader reached are "not reached" rather than omitted.
+ */
+
+export type MiscueType = 'correct' | 'substitution' | 'omission' | 'insertion' | 'repetition' | 'self_correction';
+
+export const MISCUE_TYPE_LABELS: Record<MiscueType, string> = {
+  correct: 'Correct',
+  substitution: 'Substitution',
+  omission: 'Omission',
+  insertion: 'Insertion',
+  repetition: 'Repetition',
+  self_correction: 'Self-correction',
+};
+
+export interface AlignedWord {
+  type: MiscueType;
+  // Position in the passage; null for words only in the transcript (insertions, repetitions)
+  passageIndex: number | null;
+  // Passage word as printed, punctuation included
+  expected: string | null;
+  // What was said for it; null for omissions
+  spoken: string | null;
+  // Earlier tries at the word before the reader corrected themselves
+  attempts?: string[];
+}
+
+export interface MiscueAnalysis {
+  // In reading order: passage words interleaved with inserted and repeated words
+  words: AlignedWord[];
+  passageWordCount: number;
+  // Passage words up to the last one the reader reached
+  wordsAttempted: number;
+  wordsCorrect: number;
+  // Words correct as a percentage of words attempted
+  accuracy: number;
+  wordsCorrectPerMinute: number;
+  counts: Record<MiscueType, number>;
+}
+
+interface Token {
+  text: string;
+  norm: string;
+}
+
+// How many passage words back a re-read word may reach and still count as a repetition
+const REPETITION_WINDOW = 3;
+
+/** Comparable form of a word: case, punctuation and apostrophes removed, in any script */
+export function normalizeWord(word: string): string {
+  return word.normalize('NFC').toLocaleLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+}
+
+function tokenize(text: string): Token[] {
+  return text
+    .split(/\s+/)
+    .map(text => ({ text, norm: normalizeWord(text) }))
+    .filter(token => token.norm.length > 0);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// A try at the target word: same first letter, or at most half the letters wrong
+function isAttemptAt(attempt: string, target: string): boolean {
+  if (attempt === target) return false;
+  const a = Array.from(attempt);
+  const t = Array.from(target);
+  return a[0] === t[0] || editDistance(attempt, target) <= Math.max(1, Math.floor(t.length / 2));
+}
+
+// Edit costs. A substitution costs more than an insertion or omission alone
+// but less than both, so among equally short alignments the one that keeps
+// more words matched wins ("and the cat" read as "the big cap cat" is an
+// omission and insertions, not three substitutions).
+const GAP_COST = 2;
+const SUBSTITUTION_COST = 3;
+// Credit per passage word reached when choosing where the reader stopped, so a
+// misread last word is a substitution rather than an insertion plus "not reached"
+const REACH_CREDIT = SUBSTITUTION_COST - GAP_COST;
+
+type Step = { op: 'match' | 'substitute'; spoken: number; passage: number }
+  | { op: 'omit'; passage: number }
+  | { op: 'insert'; spoken: number };
+
+// Minimum-edit alignment; passage words after the reader stopped cost nothing
+function align(spoken: Token[], passage: Token[]): { steps: Step[]; reached: number } {
+  const m = spoken.length;
+  const n = passage.length;
+  const cols = n + 1;
+  const cost = new Int32Array((m + 1) * cols);
+  for (let j = 0; j <= n; j++) cost[j] = j * GAP_COST;
+  for (let i = 1; i <= m; i++) {
+    cost[i * cols] = i * GAP_COST;
+    for (let j = 1; j <= n; j++) {
+      const same = spoken[i - 1].norm === passage[j - 1].norm ? 0 : SUBSTITUTION_COST;
+      cost[i * cols + j] = Math.min(
+        cost[(i - 1) * cols + j - 1] + same,
+        cost[i * cols + j - 1] + GAP_COST,
+        cost[(i - 1) * cols + j] + GAP_COST
+      );
+    }
+  }
+
+  // Where the reader stopped: the cheapest end, the furthest on ties
+  const endCost = (j: number) => cost[m * cols + j] - j * REACH_CREDIT;
+  let reached = 0;
+  for (let j = 1; j <= n; j++) {
+    if (endCost(j) <= endCost(reached)) reached = j;
+  }
+
+  const steps: Step[] = [];
+  let i = m;
+  let j = reached;
+  while (i > 0 || j > 0) {
+    const here = cost[i * cols + j];
+    if (i > 0 && j > 0) {
+      const same = spoken[i - 1].norm === passage[j - 1].norm;
+      if (here === cost[(i - 1) * cols + j - 1] + (same ? 0 : SUBSTITUTION_COST)) {
+        steps.push({ op: same ? 'match' : 'substitute', spoken: i - 1, passage: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (j > 0 && here === cost[i * cols + j - 1] + GAP_COST) {
+      steps.push({ op: 'omit', passage: j - 1 });
+      j--;
+    } else {
+      steps.push({ op: 'insert', spoken: i - 1 });
+      i--;
+    }
+  }
+  return { steps: steps.reverse(), reached };
+}
+
+/**
+ * Classify every passage word the reader reached. `durationMs` is the
+ * reading time used for words correct per minute.
+ */
+export function analyzeMiscues(passageText: string, transcript: string, durationMs: number): MiscueAnalysis {
+  const passage = tokenize(passageText);
+  const spoken = tokenize(transcript);
+  const { steps, reached } = align(spoken, passage);
+
+  const words: AlignedWord[] = [];
+  // Transcript-only words waiting to be classified against the next passage word
+  let pending: Token[] = [];
+  let nextPassage = 0;
+
+  const flushPending = (upcoming: Step | null) => {
+    // Tries at the upcoming word right before reading it correctly are self-corrections
+    const target = upcoming && upcoming.op === 'match' ? passage[upcoming.passage] : null;
+    let k = pending.length;
+    while (target && k > 0 && isAttemptAt(pending[k - 1].norm, target.norm)) {
+      k--;
+    }
+    const attempts = pending.slice(k).map(t => t.text);
+
+    for (const token of pending.slice(0, k)) {
+      const recent = passage.slice(Math.max(0, nextPassage - REPETITION_WINDOW), nextPassage + 1);
+      const repeated = recent.some(p => p.norm === token.norm);
+      words.push({ type: repeated ? 'repetition' : 'insertion', passageIndex: null, expected: null, spoken: token.text });
+    }
+    pending = [];
+    return attempts;
+  };
+
+  for (const step of steps) {
+    if (step.op === 'insert') {
+      pending.push(spoken[step.spoken]);
+      continue;
+    }
+    const attempts = flushPending(step);
+    const expected = passage[step.passage].text;
+    if (step.op === 'omit') {
+      words.push({ type: 'omission', passageIndex: step.passage, expected, spoken: null });
+    } else if (step.op === 'substitute') {
+      words.push({ type: 'substitution', passageIndex: step.passage, expected, spoken: spoken[step.spoken].text });
+    } else if (attempts.length > 0) {
+      words.push({ type: 'self_correction', passageIndex: step.passage, expected, spoken: spoken[step.spoken].text, attempts });
+    } else {
+      words.push({ type: 'correct', passageIndex: step.passage, expected, spoken: spoken[step.spoken].text });
+    }
+    nextPassage = step.passage + 1;
+  }
+  flushPending(null);
+
+  const counts: Record<MiscueType, number> = {
+    correct: 0,
+    substitution: 0,
+    omission: 0,
+    insertion: 0,
+    repetition: 0,
+    self_correction: 0,
+  };
+  for (const word of words) counts[word.type]++;
+
+  const wordsCorrect = counts.correct + counts.self_correction;
+  const minutes = durationMs / 60000;
+
+  return {
+    words,
+    passageWordCount: passage.length,
+    wordsAttempted: reached,
+    wordsCorrect,
+    accuracy: reached > 0 ? Math.round((wordsCorrect / reached) * 1000) / 10 : 0,
+    wordsCorrectPerMinute: minutes > 0 ? Math.round(wordsCorrect / minutes) : 0,
+    counts,
+  };
+}
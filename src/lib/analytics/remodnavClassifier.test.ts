@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { classifyGazeSamples, createREMoDNaVClassifier } from './remodnavClassifier.ts';
+import { correctLineDrift } from './driftCorrection.ts';
+import type { FixationEvent, SaccadeEvent } from './types.ts';
+import { toReadingFixations } from './wordAoi.ts';
+import {
+  NORMAL_READER,
+  REGRESSIVE_READER,
+  STEP_BY_STEP_DECODER,
+  NOISY_WEBCAM,
+  generateGoldenTrace,
+} from '../../test/gazeTraces.ts';
+
+describe('REMoDNaV classifier on golden traces', () => {
+  it.each([NORMAL_READER, REGRESSIVE_READER, STEP_BY_STEP_DECODER])(
+    'recovers every fixation and regression of the $name',
+    profile => {
+      const trace = generateGoldenTrace(profile);
+      const metrics = classifyGazeSamples(trace.samples);
+      const fixations = metrics.events.filter((e): e is FixationEvent => e.type === 'fixation');
+      const { summary } = correctLineDrift(toReadingFixations(fixations), trace.layout);
+
+      expect(metrics.fixationCount).toBe(trace.fixations.length);
+      expect(metrics.saccadeCount).toBe(trace.saccades.length);
+      expect(summary.regressionCount).toBe(trace.regressionCount);
+      expect(metrics.averageFixationDuration).toBeCloseTo(profile.fixationMs, -1);
+    }
+  );
+
+  it('leaves no return sweep counted as a regression once fixations are placed on the passage lines', () => {
+    const trace = generateGoldenTrace(NORMAL_READER);
+    const metrics = classifyGazeSamples(trace.samples);
+    const fixations = metrics.events.filter((e): e is FixationEvent => e.type === 'fixation');
+    const { lines, summary } = correctLineDrift(toReadingFixations(fixations), trace.layout);
+    const lineChanges = lines.filter((line, i) => i > 0 && line > lines[i - 1]).length;
+
+    expect(lineChanges).toBe(trace.layout.lines.length - 1);
+    expect(summary.regressionCount).toBe(trace.regressionCount);
+  });
+
+  it('measures shorter saccades for the step-by-step decoder', () => {
+    const normal = classifyGazeSamples(generateGoldenTrace(NORMAL_READER).samples);
+    const decoder = classifyGazeSamples(generateGoldenTrace(STEP_BY_STEP_DECODER).samples);
+
+    expect(decoder.averageSaccadeAmplitude).toBeLessThan(normal.averageSaccadeAmplitude * 0.6);
+  });
+
+  it('still segments fixations from a noisy 30 Hz webcam stream', () => {
+    const trace = generateGoldenTrace(NOISY_WEBCAM);
+    const metrics = classifyGazeSamples(trace.samples);
+
+    expect(metrics.fixationCount).toBeGreaterThanOrEqual(trace.fixations.length * 0.8);
+    expect(metrics.fixationCount).toBeLessThanOrEqual(trace.fixations.length * 1.2);
+  });
+
+  it('produces identical events when fed sample by sample', () => {
+    const trace = generateGoldenTrace(REGRESSIVE_READER, 7);
+    const classifier = createREMoDNaVClassifier();
+    for (const s of trace.samples) classifier.processSample(s.x, s.y, s.timestamp);
+
+    expect(classifier.getMetrics().events).toEqual(classifyGazeSamples(trace.samples).events);
+  });
+
+  it('keeps post-saccadic oscillations and glissades out of the saccades', () => {
+    const trace = generateGoldenTrace(NOISY_WEBCAM);
+    const metrics = classifyGazeSamples(trace.samples);
+
+    expect(metrics.events.some(e => e.type === 'pso')).toBe(true);
+    const saccades = metrics.events.filter((e): e is SaccadeEvent => e.type === 'saccade');
+    expect(saccades.every(s => !s.hasPSO && !s.hasGlissade)).toBe(true);
+  });
+
+  it('summarises only the most recent events when given a window', () => {
+    const trace = generateGoldenTrace(NORMAL_READER);
+    const all = classifyGazeSamples(trace.samples).events;
+    const classifier = createREMoDNaVClassifier({ maxEvents: 50 });
+    for (const s of trace.samples) classifier.processSample(s.x, s.y, s.timestamp);
+    const windowed = classifier.getMetrics();
+
+    expect(windowed.events).toEqual(all.slice(-50));
+    expect(windowed.fixationCount).toBe(windowed.events.filter(e => e.type === 'fixation').length);
+  });
+});
+
+describe('REMoDNaV classifier invariants', () => {
+  const gazeStream = fc
+    .array(
+      fc.record({
+        x: fc.double({ min: 0, max: 1920, noNaN: true }),
+        y: fc.double({ min: 0, max: 1080, noNaN: true }),
+        dt: fc.integer({ min: 1, max: 50 }),
+      }),
+      { minLength: 2, maxLength: 300 }
+    )
+    .map(points => {
+      let t = 0;
+      return points.map(p => ({ x: p.x, y: p.y, timestamp: (t += p.dt) }));
+    });
+
+  it('emits ordered, non-overlapping events with rates in range', () => {
+    fc.assert(
+      fc.property(gazeStream, samples => {
+        const metrics = classifyGazeSamples(samples);
+
+        for (let i = 1; i < metrics.events.length; i++) {
+          expect(metrics.events[i].startTime).toBeGreaterThan(metrics.events[i - 1].endTime - 1e-9);
+        }
+        expect(metrics.events.every(e => e.duration >= 10)).toBe(true);
+        expect(metrics.regressionCount).toBeLessThanOrEqual(metrics.saccadeCount);
+        expect(metrics.regressionRate).toBeGreaterThanOrEqual(0);
+        expect(metrics.regressionRate).toBeLessThanOrEqual(100);
+      })
+    );
+  });
+});
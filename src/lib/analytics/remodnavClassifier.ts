@@ -0,0 +1,279 @@
+/**
+ * REMoDNaV-style Event Classifier
+ * Velocity-based classification of saccades, PSOs, glissades and fixations.
+ *
+ * The classifier is a plain state machine: feed it samples one at a time
+ * (live tracking) or hand it a whole recording (batch re-scoring). Both paths
+ * produce identical events for identical input.
+ */
+
+import type {
+  MovementType,
+  MovementEvent,
+  FixationEvent,
+  SaccadeEvent,
+  REMoDNaVMetrics,
+} from './types.ts';
+
+export interface REMoDNaVConfig {
+  saccadeVelocityThreshold: number;
+  psoVelocityThreshold: number;
+  fixationDispersionThreshold: number;
+  fixationDurationThreshold: number;
+  microsaccadeAmplitudeThreshold: number;
+  pixelsPerDegree: number;
+  // Only the most recent events are kept, and summarised by getMetrics, past this many
+  maxEvents: number;
+}
+
+export const DEFAULT_REMODNAV_CONFIG: REMoDNaVConfig = {
+  saccadeVelocityThreshold: 30,
+  psoVelocityThreshold: 15,
+  fixationDispersionThreshold: 1,
+  fixationDurationThreshold: 200,
+  microsaccadeAmplitudeThreshold: 1,
+  pixelsPerDegree: 35,
+  maxEvents: Infinity,
+};
+
+export interface ClassifiedSample {
+  x: number;
+  y: number;
+  timestamp: number;
+  velocity: number;
+}
+
+export interface REMoDNaVClassifier {
+  processSample(x: number, y: number, timestamp: number): { type: MovementType; velocity: number; sample: ClassifiedSample };
+  flush(): void;
+  getEvents(): MovementEvent[];
+  getMetrics(): REMoDNaVMetrics;
+  reset(): void;
+  readonly config: REMoDNaVConfig;
+}
+
+interface CurrentEvent {
+  type: MovementType;
+  startTime: number;
+  startX: number;
+  startY: number;
+  samples: ClassifiedSample[];
+  peakVelocity: number;
+}
+
+interface PostSaccadeState {
+  active: boolean;
+  saccadeEndTime: number;
+  reversalCount: number;
+  lastDirection: number;
+}
+
+const SAMPLE_BUFFER_SIZE = 100;
+
+function idlePostSaccadeState(): PostSaccadeState {
+  return { active: false, saccadeEndTime: 0, reversalCount: 0, lastDirection: 0 };
+}
+
+/**
+ * Summarise a list of classified events into session metrics
+ */
+export function computeREMoDNaVMetrics(events: MovementEvent[]): REMoDNaVMetrics {
+  const saccades = events.filter(e => e.type === 'saccade');
+  const fixations = events.filter(e => e.type === 'fixation');
+  const regressions = saccades.filter(s => s.isRegression);
+
+  return {
+    saccadeCount: saccades.length,
+    regressionCount: regressions.length,
+    regressionRate: saccades.length > 0 ? (regressions.length / saccades.length) * 100 : 0,
+    psoCount: events.filter(e => e.type === 'pso').length,
+    glissadeCount: events.filter(e => e.type === 'glissade').length,
+    fixationCount: fixations.length,
+    averageFixationDuration: fixations.length > 0 ? fixations.reduce((s, f) => s + f.duration, 0) / fixations.length : 0,
+    averageSaccadeAmplitude: saccades.length > 0 ? saccades.reduce((s, sc) => s + sc.amplitude, 0) / saccades.length : 0,
+    totalReadingTime: events.length > 0 ? events[events.length - 1].endTime - events[0].startTime : 0,
+    events,
+  };
+}
+
+/**
+ * Create a streaming classifier instance
+ */
+export function createREMoDNaVClassifier(config: Partial<REMoDNaVConfig> = {}): REMoDNaVClassifier {
+  const cfg: REMoDNaVConfig = { ...DEFAULT_REMODNAV_CONFIG, ...config };
+
+  let events: MovementEvent[] = [];
+  let sampleBuffer: ClassifiedSample[] = [];
+  let current: CurrentEvent | null = null;
+  let postSaccade: PostSaccadeState = idlePostSaccadeState();
+
+  const pixelsToDegrees = (pixels: number): number => pixels / cfg.pixelsPerDegree;
+
+  const calculateVelocity = (p1: ClassifiedSample, p2: ClassifiedSample): number => {
+    const dt = (p2.timestamp - p1.timestamp) / 1000;
+    if (dt <= 0) return 0;
+    const distance = Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+    return pixelsToDegrees(distance) / dt;
+  };
+
+  const calculateDirection = (startX: number, startY: number, endX: number, endY: number): number => {
+    return Math.atan2(endY - startY, endX - startX);
+  };
+
+  const finalizeEvent = () => {
+    const active = current;
+    current = null;
+    if (!active || active.samples.length < 2) return;
+
+    const lastSample = active.samples[active.samples.length - 1];
+    const duration = lastSample.timestamp - active.startTime;
+    if (duration < 10) return;
+
+    const amplitude = pixelsToDegrees(Math.sqrt(
+      Math.pow(lastSample.x - active.startX, 2) + Math.pow(lastSample.y - active.startY, 2)
+    ));
+    const isRegression = lastSample.x < active.startX;
+
+    const base: MovementEvent = {
+      type: active.type,
+      startTime: active.startTime,
+      endTime: lastSample.timestamp,
+      duration,
+      startX: active.startX,
+      startY: active.startY,
+      endX: lastSample.x,
+      endY: lastSample.y,
+      peakVelocity: active.peakVelocity,
+      amplitude,
+      isRegression,
+    };
+
+    let event: MovementEvent = base;
+
+    if (active.type === 'fixation') {
+      const n = active.samples.length;
+      const centroidX = active.samples.reduce((s, p) => s + p.x, 0) / n;
+      const centroidY = active.samples.reduce((s, p) => s + p.y, 0) / n;
+      const xs = active.samples.map(p => p.x);
+      const ys = active.samples.map(p => p.y);
+      const dispersion = pixelsToDegrees(
+        (Math.max(...xs) - Math.min(...xs)) + (Math.max(...ys) - Math.min(...ys))
+      );
+      let microsaccadeCount = 0;
+      for (let i = 1; i < n; i++) {
+        const step = pixelsToDegrees(Math.sqrt(
+          Math.pow(active.samples[i].x - active.samples[i - 1].x, 2) +
+          Math.pow(active.samples[i].y - active.samples[i - 1].y, 2)
+        ));
+        if (step > cfg.microsaccadeAmplitudeThreshold) microsaccadeCount++;
+      }
+      const fixation: FixationEvent = {
+        ...base,
+        type: 'fixation',
+        centroidX,
+        centroidY,
+        dispersion,
+        microsaccadeCount,
+        drift: amplitude,
+      };
+      event = fixation;
+    } else if (active.type === 'saccade') {
+      const direction = calculateDirection(active.startX, active.startY, lastSample.x, lastSample.y);
+      // PSOs and glissades are counted as events of their own; the saccades
+      // they follow are not flagged, so they add nothing to the PSO rate
+      const saccade: SaccadeEvent = {
+        ...base,
+        type: 'saccade',
+        direction,
+        hasPSO: false,
+        hasGlissade: false,
+      };
+      event = saccade;
+      postSaccade = {
+        active: true,
+        saccadeEndTime: lastSample.timestamp,
+        reversalCount: 0,
+        lastDirection: direction,
+      };
+    }
+
+    events.push(event);
+    if (events.length > cfg.maxEvents) events.shift();
+  };
+
+  const processSample = (x: number, y: number, timestamp: number) => {
+    let velocity = 0;
+    if (sampleBuffer.length > 0) {
+      velocity = calculateVelocity(sampleBuffer[sampleBuffer.length - 1], { x, y, timestamp, velocity: 0 });
+    }
+
+    const sample: ClassifiedSample = { x, y, timestamp, velocity };
+    sampleBuffer.push(sample);
+    if (sampleBuffer.length > SAMPLE_BUFFER_SIZE) sampleBuffer.shift();
+
+    let detectedType: MovementType = 'unknown';
+
+    if (velocity > cfg.saccadeVelocityThreshold) {
+      detectedType = 'saccade';
+    } else if (postSaccade.active) {
+      const timeSince = timestamp - postSaccade.saccadeEndTime;
+      if (timeSince < 80 && velocity > cfg.psoVelocityThreshold) {
+        detectedType = 'pso';
+      } else if (timeSince >= 80 && timeSince < 120 && velocity > cfg.psoVelocityThreshold) {
+        detectedType = 'glissade';
+      } else if (timeSince >= 120) {
+        postSaccade.active = false;
+        detectedType = 'fixation';
+      }
+    } else if (velocity < cfg.psoVelocityThreshold) {
+      detectedType = 'fixation';
+    }
+
+    if (!current) {
+      current = { type: detectedType, startTime: timestamp, startX: x, startY: y, samples: [sample], peakVelocity: velocity };
+    } else if (current.type !== detectedType && detectedType !== 'unknown') {
+      finalizeEvent();
+      current = { type: detectedType, startTime: timestamp, startX: x, startY: y, samples: [sample], peakVelocity: velocity };
+    } else {
+      current.samples.push(sample);
+      current.peakVelocity = Math.max(current.peakVelocity, velocity);
+    }
+
+    return { type: detectedType, velocity, sample };
+  };
+
+  return {
+    processSample,
+    flush() {
+      if (current) finalizeEvent();
+    },
+    getEvents() {
+      return events;
+    },
+    getMetrics() {
+      if (current) finalizeEvent();
+      return computeREMoDNaVMetrics([...events]);
+    },
+    reset() {
+      events = [];
+      sampleBuffer = [];
+      current = null;
+      postSaccade = idlePostSaccadeState();
+    },
+    config: cfg,
+  };
+}
+
+/**
+ * Classify a complete recording in one pass
+ */
+export function classifyGazeSamples(
+  samples: Array<{ x: number; y: number; timestamp: number }>,
+  config: Partial<REMoDNaVConfig> = {}
+): REMoDNaVMetrics {
+  const classifier = createREMoDNaVClassifier(config);
+  for (const s of samples) {
+    classifier.processSample(s.x, s.y, s.timestamp);
+  }
+  return classifier.getMetrics();
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { NORMAL_READER, REGRESSIVE_READER, generateGoldenTrace } from '@/test/gazeTraces';
+import { correctLineDrift } from './driftCorrection.ts';
+import { DEFAULT_THRESHOLD_LOOKUP, createThresholdLookup } from './diagnosticScoring.ts';
+import {
+  latestThresholdsComputedAt,
+  rebuildEyeMetrics,
+  rescoreStoredResult,
+  toScoreVersionRow,
+  type StoredDiagnosticRow,
+} from './rescoring.ts';
+
+const storedRow = (overrides: Partial<StoredDiagnosticRow> = {}): StoredDiagnosticRow => ({
+  id: 'r1',
+  student_id: 's1',
+  overall_risk_level: 'low',
+  dyslexia_probability_index: 0.1,
+  adhd_probability_index: 0.1,
+  dysgraphia_probability_index: 0.1,
+  eye_total_fixations: 120,
+  eye_avg_fixation_duration: 230,
+  eye_regression_count: 6,
+  eye_prolonged_fixations: 2,
+  eye_chaos_index: 0.2,
+  eye_fixation_intersection_coefficient: 0.1,
+  voice_words_per_minute: 110,
+  voice_pause_count: 4,
+  voice_avg_pause_duration: 400,
+  voice_phonemic_errors: 1,
+  voice_fluency_score: 85,
+  voice_prosody_score: 80,
+  voice_stall_count: 0,
+  handwriting_reversal_count: 0,
+  handwriting_letter_crowding: 0.1,
+  handwriting_graphic_inconsistency: 0.1,
+  handwriting_line_adherence: 0.9,
+  cognitive_overload_events: 0,
+  cognitive_stress_indicators: 0,
+  cognitive_avg_pupil_dilation: 0,
+  fixation_data: null,
+  saccade_data: null,
+  passage_layout: null,
+  ...overrides,
+});
+
+describe('re-scoring stored results', () => {
+  it('keeps the stored eye metrics of sessions without a gaze trace', () => {
+    const row = storedRow();
+    expect(rebuildEyeMetrics(row)).toEqual({
+      totalFixations: 120,
+      averageFixationDuration: 230,
+      regressionCount: 6,
+      prolongedFixations: 2,
+      chaosIndex: 0.2,
+      fixationIntersectionCoefficient: 0.1,
+    });
+
+    const result = rescoreStoredResult(row);
+    expect(result).toMatchObject({ diagnosticResultId: 'r1', studentId: 's1', etdd70Probability: null });
+    expect(result.riskLevelChanged).toBe(result.overallRiskLevel !== 'low');
+  });
+
+  it('flags a changed risk level, but not a missing one', () => {
+    const { overallRiskLevel } = rescoreStoredResult(storedRow());
+    const other = overallRiskLevel === 'high' ? 'low' : 'high';
+
+    expect(rescoreStoredResult(storedRow({ overall_risk_level: other }))).toMatchObject({
+      previousRiskLevel: other,
+      riskLevelChanged: true,
+    });
+    expect(rescoreStoredResult(storedRow({ overall_risk_level: null }))).toMatchObject({
+      previousRiskLevel: null,
+      riskLevelChanged: false,
+    });
+  });
+
+  it('recounts regressions with the drift correction recorded with the session', () => {
+    const trace = generateGoldenTrace(REGRESSIVE_READER);
+    // Stored rows drop the regression flag; re-scoring re-derives it
+    const saccades = trace.saccades.map(({ isRegression: _isRegression, ...s }) => s);
+    const row = storedRow({ fixation_data: trace.fixations, saccade_data: saccades });
+
+    const withoutLayout = rebuildEyeMetrics(row);
+    expect(withoutLayout.totalFixations).toBe(trace.fixations.length);
+    expect(withoutLayout.chaosIndex).toBe(0.2);
+
+    // Not corrected live, so not corrected now
+    expect(rebuildEyeMetrics({ ...row, passage_layout: trace.layout }).regressionCount)
+      .toBe(withoutLayout.regressionCount);
+
+    const chained = { ...row, passage_layout: trace.layout, drift_correction: { algorithm: 'chain' } };
+    expect(rebuildEyeMetrics(chained).regressionCount)
+      .toBe(correctLineDrift(trace.fixations, trace.layout, { algorithm: 'chain' }).summary.regressionCount);
+    expect(rescoreStoredResult(chained).etdd70Probability).not.toBeNull();
+  });
+
+  it('scores against the thresholds it is given', () => {
+    const trace = generateGoldenTrace(NORMAL_READER);
+    const row = storedRow({ fixation_data: trace.fixations, saccade_data: trace.saccades, passage_layout: trace.layout });
+    const strict = createThresholdLookup([
+      { dataset_type: 'dyslexia', metric_name: 'regression_rate', optimal_threshold: 1, weight: 1 },
+    ]);
+
+    expect(rescoreStoredResult(row, DEFAULT_THRESHOLD_LOOKUP).dyslexiaProbabilityIndex)
+      .not.toBe(rescoreStoredResult(row, strict).dyslexiaProbabilityIndex);
+  });
+
+  it('stores a re-score as a version next to the original scores', () => {
+    const result = rescoreStoredResult(storedRow({ overall_risk_level: 'high' }));
+    const row = toScoreVersionRow(result, {
+      runId: 'run-1',
+      thresholdsComputedAt: latestThresholdsComputedAt([
+        { computed_at: '2026-10-01T00:00:00Z' },
+        { computed_at: null },
+        { computed_at: '2026-10-02T00:00:00Z' },
+      ]),
+      rescoredBy: 'u1',
+    });
+
+    expect(row).toMatchObject({
+      diagnostic_result_id: 'r1',
+      run_id: 'run-1',
+      thresholds_computed_at: '2026-10-02T00:00:00Z',
+      overall_risk_level: result.overallRiskLevel,
+      previous_risk_level: 'high',
+      risk_level_changed: result.riskLevelChanged,
+      rescored_by: 'u1',
+    });
+    expect(latestThresholdsComputedAt([])).toBeNull();
+  });
+});
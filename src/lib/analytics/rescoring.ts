@@ -0,0 +1,261 @@
+/**
+ * Offline Re-scoring of Stored Sessions
+ * Replays the persisted columns and gaze arrays of a `diagnostic_results` row
+ * through the current scoring code and thresholds.
+ */
+
+import type {
+  EyeTrackingMetrics,
+  VoiceMetrics,
+  HandwritingMetrics,
+  CognitiveLoadMetrics,
+  Fixation,
+  Saccade,
+} from '../../types/diagnostic.ts';
+import type { RiskLevel } from './types.ts';
+import { computeEyeTrackingMetrics } from './eyeMetrics.ts';
+import { calculateETDD70Score } from './etdd70Engine.ts';
+import { correctLineDrift, recordedDriftAlgorithm } from './driftCorrection.ts';
+import { parsePassageLayout } from './wordAoi.ts';
+import {
+  SCORING_VERSION,
+  DEFAULT_THRESHOLD_LOOKUP,
+  calculateDyslexiaIndex,
+  calculateADHDIndex,
+  calculateDysgraphiaIndex,
+  determineRiskLevel,
+  toETDD70Thresholds,
+  type ThresholdLookup,
+} from './diagnosticScoring.ts';
+
+// Columns of `diagnostic_results` needed for re-scoring
+export interface StoredDiagnosticRow {
+  id: string;
+  student_id: string | null;
+  overall_risk_level: string | null;
+  dyslexia_probability_index: number | null;
+  adhd_probability_index: number | null;
+  dysgraphia_probability_index: number | null;
+  eye_total_fixations: number | null;
+  eye_avg_fixation_duration: number | null;
+  eye_regression_count: number | null;
+  eye_prolonged_fixations: number | null;
+  eye_chaos_index: number | null;
+  eye_fixation_intersection_coefficient: number | null;
+  voice_words_per_minute: number | null;
+  voice_pause_count: number | null;
+  voice_avg_pause_duration: number | null;
+  voice_phonemic_errors: number | null;
+  voice_fluency_score: number | null;
+  voice_prosody_score: number | null;
+  voice_stall_count: number | null;
+  handwriting_reversal_count: number | null;
+  handwriting_letter_crowding: number | null;
+  handwriting_graphic_inconsistency: number | null;
+  handwriting_line_adherence: number | null;
+  cognitive_overload_events: number | null;
+  cognitive_stress_indicators: number | null;
+  cognitive_avg_pupil_dilation: number | null;
+  fixation_data: unknown;
+  saccade_data: unknown;
+  passage_layout?: unknown;
+  drift_correction?: unknown;
+}
+
+// The same columns as a select list, for edge functions reading rows to re-score
+export const STORED_RESULT_COLUMNS = [
+  'id', 'student_id', 'overall_risk_level',
+  'dyslexia_probability_index', 'adhd_probability_index', 'dysgraphia_probability_index',
+  'eye_total_fixations', 'eye_avg_fixation_duration', 'eye_regression_count',
+  'eye_prolonged_fixations', 'eye_chaos_index', 'eye_fixation_intersection_coefficient',
+  'voice_words_per_minute', 'voice_pause_count', 'voice_avg_pause_duration',
+  'voice_phonemic_errors', 'voice_fluency_score', 'voice_prosody_score', 'voice_stall_count',
+  'handwriting_reversal_count', 'handwriting_letter_crowding',
+  'handwriting_graphic_inconsistency', 'handwriting_line_adherence',
+  'cognitive_overload_events', 'cognitive_stress_indicators', 'cognitive_avg_pupil_dilation',
+  'fixation_data', 'saccade_data', 'passage_layout', 'drift_correction',
+].join(', ');
+
+export interface RescoreResult {
+  diagnosticResultId: string;
+  studentId: string | null;
+  scoringVersion: string;
+  dyslexiaProbabilityIndex: number;
+  adhdProbabilityIndex: number;
+  dysgraphiaProbabilityIndex: number;
+  overallRiskLevel: RiskLevel;
+  etdd70Probability: number | null;
+  etdd70RiskLevel: RiskLevel | null;
+  previousRiskLevel: RiskLevel | null;
+  riskLevelChanged: boolean;
+}
+
+const num = (value: number | null | undefined, fallback = 0): number =>
+  value === null || value === undefined || Number.isNaN(Number(value)) ? fallback : Number(value);
+
+function parseFixations(data: unknown): Fixation[] {
+  if (!Array.isArray(data)) return [];
+  return data
+    .filter(f => f && typeof f.x === 'number' && typeof f.y === 'number' && typeof f.timestamp === 'number')
+    .map(f => ({ x: f.x, y: f.y, timestamp: f.timestamp, duration: num(f.duration) }));
+}
+
+function parseSaccades(data: unknown): Saccade[] {
+  if (!Array.isArray(data)) return [];
+  return data
+    .filter(s => s && typeof s.startX === 'number' && typeof s.endX === 'number')
+    .map(s => ({
+      startX: s.startX,
+      startY: num(s.startY),
+      endX: s.endX,
+      endY: num(s.endY),
+      duration: num(s.duration),
+      // Stored rows drop the flag; re-derive it with the detector's rule
+      isRegression: typeof s.isRegression === 'boolean' ? s.isRegression : s.endX < s.startX,
+    }));
+}
+
+function toRiskLevel(value: string | null): RiskLevel | null {
+  return value === 'low' || value === 'moderate' || value === 'high' ? value : null;
+}
+
+/**
+ * Rebuild the eye metrics of a stored session. Raw gaze samples are not
+ * persisted, so the chaos index keeps its originally stored value. Sessions
+ * that were drift-corrected are measured on a trace corrected with the same
+ * algorithm, as the live assessment did.
+ */
+export function rebuildEyeMetrics(row: StoredDiagnosticRow): EyeTrackingMetrics {
+  const fixations = parseFixations(row.fixation_data);
+  const saccades = parseSaccades(row.saccade_data);
+
+  if (fixations.length === 0 && saccades.length === 0) {
+    return {
+      totalFixations: num(row.eye_total_fixations),
+      averageFixationDuration: num(row.eye_avg_fixation_duration),
+      regressionCount: num(row.eye_regression_count),
+      prolongedFixations: num(row.eye_prolonged_fixations),
+      chaosIndex: num(row.eye_chaos_index),
+      fixationIntersectionCoefficient: num(row.eye_fixation_intersection_coefficient),
+    };
+  }
+
+  const layout = parsePassageLayout(row.passage_layout);
+  const algorithm = recordedDriftAlgorithm(row.drift_correction);
+  const drift = layout && algorithm !== 'none' && fixations.length > 0
+    ? correctLineDrift(fixations, layout, { algorithm })
+    : null;
+  const metrics = drift
+    ? computeEyeTrackingMetrics([], drift.fixations, drift.saccades)
+    : computeEyeTrackingMetrics([], fixations, saccades);
+
+  return {
+    ...metrics,
+    chaosIndex: num(row.eye_chaos_index),
+  };
+}
+
+export function rescoreStoredResult(
+  row: StoredDiagnosticRow,
+  lookup: ThresholdLookup = DEFAULT_THRESHOLD_LOOKUP
+): RescoreResult {
+  const eyeMetrics = rebuildEyeMetrics(row);
+
+  const voiceMetrics: VoiceMetrics = {
+    wordsPerMinute: num(row.voice_words_per_minute),
+    pauseCount: num(row.voice_pause_count),
+    averagePauseDuration: num(row.voice_avg_pause_duration),
+    phonemicErrors: num(row.voice_phonemic_errors),
+    fluencyScore: num(row.voice_fluency_score),
+    prosodyScore: num(row.voice_prosody_score),
+    stallCount: num(row.voice_stall_count),
+  };
+
+  const handwritingMetrics: HandwritingMetrics = {
+    reversalCount: num(row.handwriting_reversal_count),
+    letterCrowding: num(row.handwriting_letter_crowding),
+    graphicInconsistency: num(row.handwriting_graphic_inconsistency),
+    lineAdherence: num(row.handwriting_line_adherence, 1),
+  };
+
+  const cognitiveMetrics: CognitiveLoadMetrics = {
+    averagePupilDilation: num(row.cognitive_avg_pupil_dilation),
+    overloadEvents: num(row.cognitive_overload_events),
+    stressIndicators: num(row.cognitive_stress_indicators),
+  };
+
+  const dyslexiaIndex = calculateDyslexiaIndex(eyeMetrics, voiceMetrics, handwritingMetrics, lookup);
+  const adhdIndex = calculateADHDIndex(eyeMetrics, cognitiveMetrics);
+  const dysgraphiaIndex = calculateDysgraphiaIndex(handwritingMetrics);
+  const overallRiskLevel = determineRiskLevel(dyslexiaIndex, adhdIndex, dysgraphiaIndex);
+
+  // ETDD70 probability only needs the fixation/saccade trace; reading speed
+  // does not contribute to it, so the passage length is not required here
+  const fixations = parseFixations(row.fixation_data);
+  let etdd70Probability: number | null = null;
+  let etdd70RiskLevel: RiskLevel | null = null;
+  if (fixations.length > 0) {
+    const first = fixations[0];
+    const last = fixations[fixations.length - 1];
+    const etdd70 = calculateETDD70Score({
+      fixations,
+      saccades: parseSaccades(row.saccade_data),
+      totalReadingTime: last.timestamp + last.duration - first.timestamp,
+      textLength: 0,
+      layout: parsePassageLayout(row.passage_layout),
+      driftCorrection: recordedDriftAlgorithm(row.drift_correction),
+    }, toETDD70Thresholds(lookup));
+    etdd70Probability = etdd70.dyslexiaProbability;
+    etdd70RiskLevel = etdd70.riskLevel;
+  }
+
+  const previousRiskLevel = toRiskLevel(row.overall_risk_level);
+
+  return {
+    diagnosticResultId: row.id,
+    studentId: row.student_id,
+    scoringVersion: SCORING_VERSION,
+    dyslexiaProbabilityIndex: dyslexiaIndex,
+    adhdProbabilityIndex: adhdIndex,
+    dysgraphiaProbabilityIndex: dysgraphiaIndex,
+    overallRiskLevel,
+    etdd70Probability,
+    etdd70RiskLevel,
+    previousRiskLevel,
+    riskLevelChanged: previousRiskLevel !== null && previousRiskLevel !== overallRiskLevel,
+  };
+}
+
+// Who re-scored and against which thresholds, shared by every row of a run
+export interface ScoreVersionRun {
+  runId: string;
+  thresholdsComputedAt: string | null;
+  rescoredBy: string;
+}
+
+/**
+ * A re-score as a `diagnostic_result_scores` row. Re-scores are stored as
+ * versions next to the original scores, which are never overwritten.
+ */
+export function toScoreVersionRow(result: RescoreResult, run: ScoreVersionRun) {
+  return {
+    diagnostic_result_id: result.diagnosticResultId,
+    run_id: run.runId,
+    scoring_version: result.scoringVersion,
+    thresholds_computed_at: run.thresholdsComputedAt,
+    dyslexia_probability_index: result.dyslexiaProbabilityIndex,
+    adhd_probability_index: result.adhdProbabilityIndex,
+    dysgraphia_probability_index: result.dysgraphiaProbabilityIndex,
+    overall_risk_level: result.overallRiskLevel,
+    etdd70_probability: result.etdd70Probability,
+    etdd70_risk_level: result.etdd70RiskLevel,
+    previous_risk_level: result.previousRiskLevel,
+    risk_level_changed: result.riskLevelChanged,
+    rescored_by: run.rescoredBy,
+  };
+}
+
+// When the newest of the thresholds used was computed
+export function latestThresholdsComputedAt(rows: { computed_at?: string | null }[]): string | null {
+  return rows.map(r => r.computed_at).filter(Boolean).sort().pop() || null;
+}
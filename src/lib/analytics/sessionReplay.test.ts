@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildSessionReplay, findTranscriptWordAt } from './sessionReplay.ts';
+import { generateSyntheticReading } from './syntheticReader.ts';
+import type { GazeRecording } from './gazeRecording.ts';
+import { buildGoldenLayout } from '../../test/gazeTraces.ts';
+
+describe('session replay', () => {
+  const layout = buildGoldenLayout();
+  const reading = generateSyntheticReading(layout, { seed: 7, regressionProbability: 0.3 });
+  const recording: GazeRecording = {
+    version: 1,
+    sessionId: 'session-1',
+    startedAt: 0,
+    endedAt: reading.duration,
+    viewport: null,
+    layout,
+    transcript: null,
+    annotations: [{ timestamp: 1500, type: 'concern', content: 'Lost place on line 2' }],
+    metadata: {},
+    samples: reading.samples.map(s => ({ timestamp: s.timestamp, source: 'synthetic', x: s.x, y: s.y, gazeValid: s.valid })),
+  };
+
+  it('marks regressive saccades only, alongside clinician notes', () => {
+    const replay = buildSessionReplay(recording);
+    const regressions = replay.markers.filter(m => m.kind === 'regression');
+    const saccadeStarts = new Set(replay.events.filter(e => e.type === 'saccade' && e.isRegression).map(e => e.startTime));
+
+    expect(regressions.length).toBeGreaterThan(0);
+    expect(regressions.every(m => saccadeStarts.has(m.time))).toBe(true);
+    expect(regressions.length).toBe(saccadeStarts.size);
+    expect(replay.markers).toContainEqual({ time: 1500, endTime: 1500, kind: 'concern', label: 'Lost place on line 2' });
+  });
+
+  it('follows the spoken word through the reading audio, pauses included', () => {
+    const words = [
+      { word: 'The', startMs: 100, endMs: 300 },
+      { word: 'little', startMs: 350, endMs: 700 },
+      { word: 'boat', startMs: 1500, endMs: 1800 },
+    ];
+
+    expect([0, 100, 300, 320, 500, 1000, 1600, 1801].map(t => findTranscriptWordAt(words, t)))
+      .toEqual([-1, 0, 0, -1, 1, -1, 2, -1]);
+    expect(findTranscriptWordAt([], 500)).toBe(-1);
+  });
+});
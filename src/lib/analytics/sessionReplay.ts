@@ -0,0 +1,150 @@
+/**
+ * Session Replay
+ * Turns a decoded gaze recording into a playable gaze track, movement events
+ * and a list of jump targets (regressions, speech stalls, clinician notes).
+ */
+
+import type { FixationEvent, MovementEvent, WordReadingAnalysis } from './types.ts';
+import { createREMoDNaVClassifier, type REMoDNaVConfig } from './remodnavClassifier.ts';
+import { computeWordReading, toReadingFixations } from './wordAoi.ts';
+import type { GazeRecording, GazeSampleSource, RawGazeSample, SessionAnnotationType } from './gazeRecording.ts';
+import type { TranscribedWord } from './speechTranscription.ts';
+
+export type ReplayMarkerKind = 'regression' | 'stall' | SessionAnnotationType;
+
+export interface ReplayMarker {
+  time: number;
+  endTime: number;
+  kind: ReplayMarkerKind;
+  label: string;
+}
+
+export interface SessionReplay {
+  source: GazeSampleSource | null;
+  track: RawGazeSample[];
+  events: MovementEvent[];
+  markers: ReplayMarker[];
+  wordReading: WordReadingAnalysis | null;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Pick the backend with the most valid gaze samples. A session can mix a
+ * pupil-only stream with one gaze stream; replaying two gaze streams at once
+ * would draw a path that jumps between them.
+ */
+export function selectPrimaryGazeSource(samples: RawGazeSample[]): GazeSampleSource | null {
+  const counts = new Map<GazeSampleSource, number>();
+  for (const s of samples) {
+    if (s.gazeValid) counts.set(s.source, (counts.get(s.source) ?? 0) + 1);
+  }
+
+  let best: GazeSampleSource | null = null;
+  let bestCount = 0;
+  counts.forEach((count, source) => {
+    if (count > bestCount) {
+      best = source;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Index of the last sample at or before `time` (binary search), or -1
+ */
+export function findSampleIndexAt(track: RawGazeSample[], time: number): number {
+  let lo = 0;
+  let hi = track.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (track[mid].timestamp <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Index of the word being spoken `offsetMs` into the reading audio, or -1
+ * before the first word and in the pauses between words. `words` must be
+ * sorted by start time.
+ */
+export function findTranscriptWordAt(words: TranscribedWord[], offsetMs: number): number {
+  let lo = 0;
+  let hi = words.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (words[mid].startMs <= offsetMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 && offsetMs <= words[found].endMs ? found : -1;
+}
+
+export function buildSessionReplay(
+  recording: GazeRecording,
+  config: Partial<REMoDNaVConfig> = {}
+): SessionReplay {
+  const source = selectPrimaryGazeSource(recording.samples);
+  const track = recording.samples.filter(s => s.source === source && s.gazeValid);
+
+  const classifier = createREMoDNaVClassifier(config);
+  for (const s of track) classifier.processSample(s.x, s.y, s.timestamp);
+  classifier.flush();
+  const events = classifier.getEvents();
+
+  const markers: ReplayMarker[] = [];
+
+  for (const e of events) {
+    if (e.type === 'saccade' && e.isRegression) {
+      markers.push({ time: e.startTime, endTime: e.endTime, kind: 'regression', label: `Regression (${Math.round(e.amplitude)}°)` });
+    }
+  }
+
+  if (recording.transcript) {
+    const { startedAt, stallEvents } = recording.transcript;
+    for (const stall of stallEvents) {
+      const between = [stall.wordBefore, stall.wordAfter].filter(Boolean).join(' … ');
+      markers.push({
+        time: startedAt + stall.startTime,
+        endTime: startedAt + stall.endTime,
+        kind: 'stall',
+        label: `Stall ${(stall.duration / 1000).toFixed(1)}s${between ? `: ${between}` : ''}`,
+      });
+    }
+  }
+
+  for (const note of recording.annotations) {
+    markers.push({ time: note.timestamp, endTime: note.timestamp, kind: note.type, label: note.content });
+  }
+
+  markers.sort((a, b) => a.time - b.time);
+
+  const fixations = events.filter((e): e is FixationEvent => e.type === 'fixation');
+  const wordReading = recording.layout
+    ? computeWordReading(toReadingFixations(fixations), recording.layout)
+    : null;
+
+  const first = recording.samples[0]?.timestamp ?? recording.startedAt;
+  const last = recording.samples[recording.samples.length - 1]?.timestamp ?? first;
+
+  return {
+    source,
+    track,
+    events,
+    markers,
+    wordReading,
+    startTime: Math.min(first, recording.startedAt),
+    endTime: Math.max(last, recording.endedAt ?? last, ...markers.map(m => m.endTime)),
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeSpeechTiming,
+  createLocalTranscriptionBackend,
+  createWhisperTranscriptionBackend,
+  parseAudioTranscript,
+  reprocessReadingAudio,
+  type TranscribedWord,
+} from './speechTranscription.ts';
+
+const words = (...timed: Array<[string, number, number]>): TranscribedWord[] =>
+  timed.map(([word, startMs, endMs]) => ({ word, startMs, endMs }));
+
+const request = { audio: new Uint8Array([1, 2, 3]), mimeType: 'audio/webm', language: 'en' };
+
+describe('speech transcription', () => {
+  it('measures pauses and stalls from the silence between words', () => {
+    const timing = computeSpeechTiming(words(
+      ['the', 0, 300],
+      ['cat', 400, 700],
+      ['sat', 1400, 1700],
+      ['on', 3500, 3700],
+    ));
+
+    expect(timing.pauseEvents).toEqual([{ start: 700, end: 1400 }, { start: 1700, end: 3500 }]);
+    expect(timing.stallEvents).toEqual([
+      { startTime: 1700, endTime: 3500, duration: 1800, wordBefore: 'sat', wordAfter: 'on' },
+    ]);
+    expect(timing.readingDurationMs).toBe(3700);
+    expect(timing.wordsPerMinute).toBe(65);
+    expect(timing.wordTimings[2]).toEqual({ word: 'sat', timestamp: 1400 });
+  });
+
+  it('reprocesses a recording through the local backend into miscues', async () => {
+    const backend = createLocalTranscriptionBackend(words(
+      ['the', 0, 500],
+      ['cat', 500, 1000],
+      ['sat', 1000, 1500],
+      ['on', 1500, 2000],
+      ['the', 2000, 2500],
+      ['rug', 2500, 3000],
+    ));
+
+    const reading = await reprocessReadingAudio(backend, request, { passageText: 'The cat sat on the mat.' });
+
+    expect(reading.transcript).toMatchObject({ text: 'the cat sat on the rug', backend: 'local' });
+    expect(reading.miscueAnalysis?.counts.substitution).toBe(1);
+    expect(reading.miscueAnalysis?.wordsCorrectPerMinute).toBe(100);
+    expect((await reprocessReadingAudio(backend, request)).miscueAnalysis).toBeNull();
+  });
+
+  it('reads word timestamps from a Whisper-style response', async () => {
+    const calls: Array<{ url: string; body: FormData }> = [];
+    const backend = createWhisperTranscriptionBackend({
+      apiKey: 'test',
+      baseUrl: 'https://stt.example',
+      fetch: async (url, init) => {
+        calls.push({ url: String(url), body: init!.body as FormData });
+        return new Response(JSON.stringify({
+          text: ' The cat.',
+          words: [{ word: ' The', start: 0.12, end: 0.4 }, { word: 'cat.', start: 0.5, end: 0.91, probability: 0.8 }],
+        }));
+      },
+    });
+
+    const transcript = await backend.transcribe({ ...request, language: 'hi' });
+
+    expect(calls[0].url).toBe('https://stt.example/audio/transcriptions');
+    expect(calls[0].body.get('language')).toBe('hi');
+    expect(calls[0].body.get('timestamp_granularities[]')).toBe('word');
+    expect(transcript.text).toBe('The cat.');
+    expect(transcript.words).toEqual([
+      { word: 'The', startMs: 120, endMs: 400 },
+      { word: 'cat.', startMs: 500, endMs: 910, confidence: 0.8 },
+    ]);
+  });
+
+  it('reads a stored transcript back in spoken order, dropping untimed words', () => {
+    const stored = {
+      text: 'The cat sat',
+      words: [...words(['sat', 700, 900], ['The', 100, 300]), { word: 'cat' }],
+      backend: 'whisper',
+      model: 'whisper-1',
+      language: 'en',
+    };
+
+    expect(parseAudioTranscript(stored)).toEqual({
+      text: 'The cat sat',
+      words: words(['The', 100, 300], ['sat', 700, 900]),
+      backend: 'whisper',
+      model: 'whisper-1',
+    });
+    expect(parseAudioTranscript(null)).toBeNull();
+    expect(parseAudioTranscript({ text: 'no words' })).toBeNull();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Reading audio re-transcription
+ * Turns the microphone recording of the voice step into timed words through
+ * a pluggable transcription backend, then recomputes pauses, stalls, words
+ * per minute and miscues from the audio timings instead of the browser
+ * recogniser's callbacks.
+ */
+
+import type { StallEvent } from '../../types/diagnostic.ts';
+import { analyzeMiscues, type MiscueAnalysis } from './miscueAnalysis.ts';
+
+export const READING_AUDIO_EXTENSION = '.webm';
+
+export interface TranscribedWord {
+  word: string;
+  // Offsets from the start of the recording
+  startMs: number;
+  endMs: number;
+  confidence?: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Uint8Array;
+  mimeType: string;
+  // ISO 639-1 code of the reading language
+  language: string;
+}
+
+export interface AudioTranscript {
+  text: string;
+  words: TranscribedWord[];
+  backend: string;
+  model: string | null;
+}
+
+/**
+ * Audio transcript from a stored JSON column, or null when it is missing or
+ * malformed. Words without usable timings are dropped.
+ */
+export function parseAudioTranscript(data: unknown): AudioTranscript | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Partial<AudioTranscript>;
+  if (!Array.isArray(raw.words)) return null;
+
+  const words = raw.words
+    .filter(w =>
+      w && typeof w.word === 'string' &&
+      typeof w.startMs === 'number' && typeof w.endMs === 'number'
+    )
+    .sort((a, b) => a.startMs - b.startMs);
+
+  return {
+    text: typeof raw.text === 'string' ? raw.text : words.map(w => w.word).join(' '),
+    words,
+    backend: typeof raw.backend === 'string' ? raw.backend : 'unknown',
+    model: typeof raw.model === 'string' ? raw.model : null,
+  };
+}
+
+export interface TranscriptionBackend {
+  id: string;
+  transcribe(request: TranscriptionRequest): Promise<AudioTranscript>;
+}
+
+export interface SpeechTimingConfig {
+  // Silence between words longer than this is a pause
+  pauseThresholdMs: number;
+  // Silence at least this long is a stall (hesitation)
+  stallThresholdMs: number;
+}
+
+// Same thresholds as the live recogniser in useSpeechRecognition
+export const DEFAULT_SPEECH_TIMING_CONFIG: SpeechTimingConfig = {
+  pauseThresholdMs: 500,
+  stallThresholdMs: 1500,
+};
+
+export interface SpeechTiming {
+  wordTimings: { word: string; timestamp: number }[];
+  pauseEvents: { start: number; end: number }[];
+  stallEvents: StallEvent[];
+  wordsPerMinute: number;
+  averagePauseDuration: number;
+  averageStallDuration: number;
+  // First word onset to last word offset
+  readingDurationMs: number;
+}
+
+/**
+ * Pauses and stalls are the silences between one word's end and the next
+ * word's start, which the recogniser can only approximate from when its
+ * results arrive.
+ */
+export function computeSpeechTiming(
+  words: TranscribedWord[],
+  config: Partial<SpeechTimingConfig> = {}
+): SpeechTiming {
+  const cfg = { ...DEFAULT_SPEECH_TIMING_CONFIG, ...config };
+  const sorted = [...words].sort((a, b) => a.startMs - b.startMs);
+
+  const pauseEvents: SpeechTiming['pauseEvents'] = [];
+  const stallEvents: StallEvent[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const before = sorted[i - 1];
+    const after = sorted[i];
+    const gap = after.startMs - before.endMs;
+    if (gap > cfg.pauseThresholdMs) {
+      pauseEvents.push({ start: before.endMs, end: after.startMs });
+    }
+    if (gap >= cfg.stallThresholdMs) {
+      stallEvents.push({
+        startTime: before.endMs,
+        endTime: after.startMs,
+        duration: gap,
+        wordBefore: before.word,
+        wordAfter: after.word,
+      });
+    }
+  }
+
+  const readingDurationMs = sorted.length > 0 ? sorted[sorted.length - 1].endMs - sorted[0].startMs : 0;
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  return {
+    wordTimings: sorted.map(w => ({ word: w.word, timestamp: w.startMs })),
+    pauseEvents,
+    stallEvents,
+    wordsPerMinute: readingDurationMs > 0 ? Math.round(sorted.length / (readingDurationMs / 60000)) : 0,
+    averagePauseDuration: Math.round(mean(pauseEvents.map(p => p.end - p.start))),
+    averageStallDuration: Math.round(mean(stallEvents.map(s => s.duration))),
+    readingDurationMs,
+  };
+}
+
+export interface ReprocessedReading {
+  transcript: AudioTranscript;
+  timing: SpeechTiming;
+  // Only when the passage text is known
+  miscueAnalysis: MiscueAnalysis | null;
+}
+
+/** Transcribe a reading recording and derive every audio-based measure from it */
+export async function reprocessReadingAudio(
+  backend: TranscriptionBackend,
+  request: TranscriptionRequest,
+  { passageText, timing }: { passageText?: string | null; timing?: Partial<SpeechTimingConfig> } = {}
+): Promise<ReprocessedReading> {
+  const transcript = await backend.transcribe(request);
+  const speechTiming = computeSpeechTiming(transcript.words, timing);
+
+  return {
+    transcript,
+    timing: speechTiming,
+    miscueAnalysis: passageText && transcript.words.length > 0
+      ? analyzeMiscues(passageText, transcript.text, speechTiming.readingDurationMs)
+      : null,
+  };
+}
+
+/**
+ * Stand-in backend for tests and local development: returns the given words
+ * (or whatever the function makes of the request) without touching the audio.
+ */
+export function createLocalTranscriptionBackend(
+  words: TranscribedWord[] | ((request: TranscriptionRequest) => TranscribedWord[])
+): TranscriptionBackend {
+  return {
+    id: 'local',
+    async transcribe(request) {
+      const result = typeof words === 'function' ? words(request) : words;
+      return {
+        text: result.map(w => w.word).join(' '),
+        words: result,
+        backend: 'local',
+        model: null,
+      };
+    },
+  };
+}
+
+export interface WhisperBackendOptions {
+  apiKey: string;
+  // Any OpenAI-compatible /audio/transcriptions endpoint
+  baseUrl?: string;
+  model?: string;
+  fetch?: typeof fetch;
+}
+
+interface WhisperVerboseResponse {
+  text?: string;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+}
+
+/** Whisper-style speech-to-text with word-level timestamps */
+export function createWhisperTranscriptionBackend({
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model = 'whisper-1',
+  fetch: fetchImpl = fetch,
+}: WhisperBackendOptions): TranscriptionBackend {
+  return {
+    id: 'whisper',
+    async transcribe({ audio, mimeType, language }) {
+      const form = new FormData();
+      form.append('file', new Blob([audio], { type: mimeType }), `reading${READING_AUDIO_EXTENSION}`);
+      form.append('model', model);
+      form.append('language', language);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'word');
+
+      const response = await fetchImpl(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription failed: HTTP ${response.status}`);
+      }
+
+      const body = (await response.json()) as WhisperVerboseResponse;
+      const words = (body.words ?? [])
+        .map(w => ({
+          word: w.word.trim(),
+          startMs: Math.round(w.start * 1000),
+          endMs: Math.round(w.end * 1000),
+          ...(w.probability !== undefined ? { confidence: w.probability } : {}),
+        }))
+        .filter(w => w.word.length > 0);
+
+      return {
+        text: body.text?.trim() ?? words.map(w => w.word).join(' '),
+        words,
+        backend: 'whisper',
+        model,
+      };
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { generateSyntheticReading } from './syntheticReader.ts';
+import { computeWordReading } from './wordAoi.ts';
+import { buildGoldenLayout } from '../../test/gazeTraces.ts';
+
+describe('synthetic reader', () => {
+  const layout = buildGoldenLayout();
+
+  it('is reproducible for a given seed', () => {
+    const a = generateSyntheticReading(layout, { seed: 3 });
+    const b = generateSyntheticReading(layout, { seed: 3 });
+    const c = generateSyntheticReading(layout, { seed: 4 });
+
+    expect(a).toEqual(b);
+    expect(c.samples).not.toEqual(a.samples);
+  });
+
+  it('samples at the configured rate from the start time', () => {
+    const reading = generateSyntheticReading(layout, { sampleRate: 120, startTime: 5000 });
+
+    expect(reading.samples[0].timestamp).toBe(5000);
+    expect(reading.samples[1].timestamp - reading.samples[0].timestamp).toBeCloseTo(1000 / 120, 2);
+    expect(reading.duration).toBeCloseTo(reading.samples.length * (1000 / 120), 0);
+  });
+
+  it('marks blink samples invalid and leaves the rest valid', () => {
+    const blinking = generateSyntheticReading(layout, { blinksPerMinute: 30, blinkMs: 150, sampleRate: 100 });
+    const steady = generateSyntheticReading(layout, { blinksPerMinute: 0 });
+
+    expect(blinking.blinkCount).toBeGreaterThan(0);
+    expect(blinking.samples.filter(s => !s.valid).length).toBe(blinking.blinkCount * 15);
+    expect(steady.blinkCount).toBe(0);
+    expect(steady.samples.every(s => s.valid)).toBe(true);
+  });
+
+  it('reads every line in order and reaches the end of the passage', () => {
+    const reading = generateSyntheticReading(layout, { noisePx: 0, regressionProbability: 0 });
+    const analysis = computeWordReading(reading.fixations, layout);
+
+    expect(reading.regressionCount).toBe(0);
+    expect(analysis.mappedFixationRate).toBe(1);
+    expect(analysis.lines.every(l => l.fixationCount > 0)).toBe(true);
+    expect(analysis.wordsReached).toBeGreaterThan(layout.words.length - 3);
+  });
+
+  it('counts exactly the regressive saccades it generated', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10_000 }),
+        fc.double({ min: 0, max: 0.6, noNaN: true }),
+        (seed, regressionProbability) => {
+          const reading = generateSyntheticReading(layout, { seed, regressionProbability });
+          expect(reading.saccades.filter(s => s.isRegression).length).toBe(reading.regressionCount);
+          expect(reading.saccades.filter(s => s.isRegression).every(s => s.endX < s.startX)).toBe(true);
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
+});
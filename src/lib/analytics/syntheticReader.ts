@@ -0,0 +1,187 @@
+/**
+ * Synthetic Reader
+ * Seeded, scriptable simulation of a reader moving through a measured
+ * passage layout: noisy fixations, main-sequence saccades, word-level
+ * regressions, return sweeps, blinks and slow vertical drift. Produces the
+ * raw gaze stream along with the ground-truth events it was built from, so
+ * the pipeline can be developed, demoed and tested without a camera.
+ */
+
+import type { Fixation, GazePoint, Saccade } from '../../types/diagnostic.ts';
+import type { PassageLayout } from './types.ts';
+import { buildLineBoxes } from './wordAoi.ts';
+
+export interface SyntheticReaderConfig {
+  sampleRate: number; // Hz
+  fixationMs: number;
+  fixationJitterMs: number;
+  minFixationMs: number;
+  // Forward saccade length in characters; each saccade varies by ±25%
+  saccadeChars: number;
+  regressionProbability: number;
+  regressionChars: number;
+  blinksPerMinute: number;
+  blinkMs: number;
+  noisePx: number; // per-sample gaussian noise
+  driftPxPerSecond: number; // slow vertical calibration drift
+  pixelsPerDegree: number;
+  seed: number;
+  startTime: number; // ms timestamp of the first sample
+}
+
+export const DEFAULT_SYNTHETIC_READER_CONFIG: SyntheticReaderConfig = {
+  sampleRate: 60,
+  fixationMs: 230,
+  fixationJitterMs: 50,
+  minFixationMs: 80,
+  saccadeChars: 8,
+  regressionProbability: 0.08,
+  regressionChars: 10,
+  blinksPerMinute: 12,
+  blinkMs: 150,
+  noisePx: 2,
+  driftPxPerSecond: 0,
+  pixelsPerDegree: 35,
+  seed: 1,
+  startTime: 0,
+};
+
+export interface SyntheticGazeSample extends GazePoint {
+  // False while the eyes are closed; x/y then hold the last gaze position
+  valid: boolean;
+}
+
+export interface SyntheticReading {
+  samples: SyntheticGazeSample[];
+  fixations: Fixation[];
+  saccades: Saccade[];
+  regressionCount: number;
+  blinkCount: number;
+  duration: number;
+}
+
+// mulberry32: small, fast and reproducible across platforms
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Average rendered character width, so saccade lengths follow the font size
+function characterWidth(layout: PassageLayout): number {
+  const chars = layout.words.reduce((sum, w) => sum + w.text.length, 0);
+  const width = layout.words.reduce((sum, w) => sum + w.width, 0);
+  return chars > 0 && width > 0 ? width / chars : 10;
+}
+
+/**
+ * One pass over the passage, line by line. Identical config and seed always
+ * give an identical trace.
+ */
+export function generateSyntheticReading(
+  layout: PassageLayout,
+  config: Partial<SyntheticReaderConfig> = {}
+): SyntheticReading {
+  const cfg = { ...DEFAULT_SYNTHETIC_READER_CONFIG, ...config };
+  const random = seededRandom(cfg.seed);
+  const lines = layout.lines.length > 0 ? layout.lines : buildLineBoxes(layout.words);
+  const charWidth = characterWidth(layout);
+  const dt = 1000 / cfg.sampleRate;
+
+  const samples: SyntheticGazeSample[] = [];
+  const fixations: Fixation[] = [];
+  const saccades: Saccade[] = [];
+  let time = cfg.startTime;
+  let regressionCount = 0;
+  let blinkCount = 0;
+
+  const drift = () => ((time - cfg.startTime) / 1000) * cfg.driftPxPerSecond;
+  const emit = (x: number, y: number, valid = true) => {
+    samples.push({
+      x: x + gaussian(random) * cfg.noisePx,
+      y: y + drift() + gaussian(random) * cfg.noisePx,
+      timestamp: Math.round(time * 1000) / 1000,
+      valid,
+    });
+    time += dt;
+  };
+
+  const fixate = (x: number, y: number) => {
+    const duration = Math.max(cfg.minFixationMs, cfg.fixationMs + gaussian(random) * cfg.fixationJitterMs);
+    const n = Math.max(2, Math.round(duration / dt));
+    fixations.push({ x, y, duration: (n - 1) * dt, timestamp: time });
+    for (let i = 0; i < n; i++) emit(x, y);
+
+    // Blinks close out a fixation, before the eyes move on
+    if (cfg.blinksPerMinute > 0 && random() < (cfg.blinksPerMinute / 60) * (duration / 1000)) {
+      const blinkSamples = Math.max(1, Math.round(cfg.blinkMs / dt));
+      for (let i = 0; i < blinkSamples; i++) emit(x, y, false);
+      blinkCount++;
+    }
+  };
+
+  // Constant-velocity saccade; duration follows the main sequence (~20ms + 2.2ms/deg)
+  const saccade = (from: { x: number; y: number }, to: { x: number; y: number }, isRegression: boolean) => {
+    const amplitude = Math.hypot(to.x - from.x, to.y - from.y) / cfg.pixelsPerDegree;
+    const n = Math.max(1, Math.round((20 + 2.2 * amplitude) / dt));
+    const startTimeOfSaccade = time;
+    for (let i = 1; i <= n; i++) {
+      const k = i / n;
+      emit(from.x + (to.x - from.x) * k, from.y + (to.y - from.y) * k);
+    }
+    saccades.push({
+      startX: from.x,
+      startY: from.y,
+      endX: to.x,
+      endY: to.y,
+      duration: time - startTimeOfSaccade,
+      isRegression,
+    });
+    if (isRegression) regressionCount++;
+  };
+
+  for (let line = 0; line < lines.length; line++) {
+    const box = lines[line];
+    const y = box.y + box.height / 2;
+    const lineEnd = box.x + box.width;
+    let x = box.x + charWidth * 2;
+    let furthest = x;
+
+    if (line > 0) {
+      const previous = fixations[fixations.length - 1];
+      saccade({ x: previous.x, y: previous.y }, { x, y }, false);
+    }
+    fixate(x, y);
+
+    while (furthest < lineEnd - cfg.saccadeChars * charWidth) {
+      const regress = x > box.x + cfg.regressionChars * charWidth && random() < cfg.regressionProbability;
+      const chars = regress
+        ? -cfg.regressionChars
+        : cfg.saccadeChars * (0.75 + random() * 0.5);
+      const target = Math.max(box.x, x + chars * charWidth);
+      saccade({ x, y }, { x: target, y }, regress);
+      x = target;
+      furthest = Math.max(furthest, x);
+      fixate(x, y);
+    }
+  }
+
+  return {
+    samples,
+    fixations,
+    saccades,
+    regressionCount,
+    blinkCount,
+    duration: time - cfg.startTime,
+  };
+}
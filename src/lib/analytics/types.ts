@@ -0,0 +1,153 @@
+/**
+ * Shared types for the gaze analytics core
+ * Kept free of React and browser APIs so the same definitions serve hooks,
+ * Web Workers and Deno edge functions.
+ */
+
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+export type MovementType = 'fixation' | 'saccade' | 'pso' | 'glissade' | 'blink' | 'unknown';
+
+export interface MovementEvent {
+  type: MovementType;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  peakVelocity: number;
+  amplitude: number;
+  isRegression: boolean;
+}
+
+export interface FixationEvent extends MovementEvent {
+  type: 'fixation';
+  centroidX: number;
+  centroidY: number;
+  dispersion: number;
+  microsaccadeCount: number;
+  drift: number;
+}
+
+export interface SaccadeEvent extends MovementEvent {
+  type: 'saccade';
+  direction: number;
+  hasPSO: boolean;
+  hasGlissade: boolean;
+}
+
+export interface REMoDNaVMetrics {
+  saccadeCount: number;
+  regressionCount: number;
+  regressionRate: number;
+  psoCount: number;
+  glissadeCount: number;
+  fixationCount: number;
+  averageFixationDuration: number;
+  averageSaccadeAmplitude: number;
+  totalReadingTime: number;
+  events: MovementEvent[];
+}
+
+export interface DyslexiaBiomarkers {
+  // Core biomarkers
+  regressionRate: number; // percentage
+  regressionRateRisk: RiskLevel;
+
+  fixationDwell: number; // ms
+  fixationDwellRisk: RiskLevel;
+
+  saccadicAmplitude: number; // degrees
+  saccadicAmplitudeRisk: RiskLevel;
+
+  // Additional biomarkers
+  stepByStepDecoding: boolean;
+  averageSaccadeLength: number; // in character widths
+  prolongedFixationRate: number; // percentage
+
+  // PSO/Glissade markers (motor control issues)
+  psoRate: number;
+  glissadeRate: number;
+  motorControlIssue: boolean;
+
+  // Composite scores
+  dyslexiaRiskScore: number; // 0-100
+  overallRisk: RiskLevel;
+  riskLevel: RiskLevel; // Alias for overallRisk for compatibility
+
+  // Feature vector for ML
+  featureVector: number[];
+
+  // Confidence
+  confidence: number;
+
+  // Estimated reading speed (WPM)
+  estimatedReadingSpeed: number;
+}
+
+// Screen-space box of one rendered passage word (viewport pixels, same space as gaze)
+export interface WordBox {
+  index: number;
+  text: string;
+  line: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Screen-space box of one rendered passage line, spanning its words
+export interface LineBox {
+  line: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  firstWordIndex: number;
+  lastWordIndex: number;
+}
+
+// Passage exactly as it was laid out on the reader's screen
+export interface PassageLayout {
+  text: string;
+  words: WordBox[];
+  lines: LineBox[];
+  viewport: { width: number; height: number };
+  measuredAt: number;
+}
+
+// Eye-movement reading measures for one passage word (durations in ms)
+export interface WordReadingMeasures {
+  index: number;
+  text: string;
+  line: number;
+  fixationCount: number;
+  // First fixation on the word during first-pass reading
+  firstFixationDuration: number;
+  // Sum of first-pass fixations before the eyes leave the word
+  gazeDuration: number;
+  // Sum of all fixations on the word, including re-reading
+  totalReadingTime: number;
+  // Times the eyes jumped back to this word from a later one
+  regressionsIn: number;
+  // Passed over during first-pass reading
+  skipped: boolean;
+}
+
+export interface LineReadingMeasures {
+  line: number;
+  fixationCount: number;
+  totalReadingTime: number;
+  regressionsIn: number;
+}
+
+export interface WordReadingAnalysis {
+  words: WordReadingMeasures[];
+  lines: LineReadingMeasures[];
+  // Furthest word reached, + 1
+  wordsReached: number;
+  skipRate: number;
+  mappedFixationRate: number;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { Fixation } from '../../types/diagnostic.ts';
+import {
+  NORMAL_READER,
+  REGRESSIVE_READER,
+  STEP_BY_STEP_DECODER,
+  buildGoldenLayout,
+  generateGoldenTrace,
+} from '@/test/gazeTraces';
+import { assignFixationToWord, computeWordReading } from './wordAoi.ts';
+
+const layout = buildGoldenLayout();
+const lastLine = layout.lines[layout.lines.length - 1];
+
+const centreOf = (index: number) => {
+  const word = layout.words[index];
+  return { x: word.x + word.width / 2, y: word.y + word.height / 2 };
+};
+
+// Fixations in reading order on the given words, `duration` ms each
+function readWords(indices: number[], duration = 200): Fixation[] {
+  return indices.map((index, i) => ({ ...centreOf(index), duration, timestamp: i * 250 }));
+}
+
+describe('word AOI assignment', () => {
+  it('snaps webcam gaze near a word onto that word', () => {
+    const word = layout.words[5];
+    expect(assignFixationToWord(centreOf(5), layout)).toBe(5);
+    // Just above the box and just past its right edge, inside the space before the next word
+    expect(assignFixationToWord({ x: word.x + word.width + 4, y: word.y - 5 }, layout)).toBe(5);
+  });
+
+  it('gives a fixation between two lines to the nearer one', () => {
+    const [first, second] = layout.lines;
+    const gap = (first.y + first.height + second.y) / 2;
+    const x = centreOf(first.firstWordIndex).x;
+
+    expect(layout.words[assignFixationToWord({ x, y: gap - 3 }, layout)!].line).toBe(first.line);
+    expect(layout.words[assignFixationToWord({ x, y: gap + 3 }, layout)!].line).toBe(second.line);
+  });
+
+  it('drops fixations outside the passage', () => {
+    const first = layout.lines[0];
+    const x = first.x + 20;
+
+    expect(assignFixationToWord({ x, y: first.y - first.height }, layout)).toBeNull();
+    expect(assignFixationToWord({ x, y: lastLine.y + lastLine.height * 2 }, layout)).toBeNull();
+    expect(assignFixationToWord({ x: first.x - 60, y: first.y + first.height / 2 }, layout)).toBeNull();
+    expect(assignFixationToWord({ x: first.x + first.width + 60, y: first.y + first.height / 2 }, layout)).toBeNull();
+  });
+
+  it('drops fixations between lines when the vertical tolerance does not reach them', () => {
+    const [first, second] = layout.lines;
+    const gap = { x: centreOf(0).x, y: (first.y + first.height + second.y) / 2 };
+
+    expect(assignFixationToWord(gap, layout, { verticalTolerance: 0.1 })).toBeNull();
+  });
+});
+
+describe('word reading measures', () => {
+  it('sums first-pass fixations into gaze duration and re-reading into total time', () => {
+    const fixations = readWords([0, 1, 1, 2, 1, 3]);
+    fixations[1].duration = 150;
+    fixations[2].duration = 120;
+    fixations[4].duration = 90;
+
+    const { words } = computeWordReading(fixations, layout);
+
+    expect(words[1]).toMatchObject({
+      fixationCount: 3,
+      firstFixationDuration: 150,
+      gazeDuration: 270,
+      totalReadingTime: 360,
+      regressionsIn: 1,
+      skipped: false,
+    });
+    expect(words[2]).toMatchObject({ gazeDuration: 200, totalReadingTime: 200, regressionsIn: 0 });
+  });
+
+  it('counts each jump back onto a word as a regression into it', () => {
+    const { words, lines } = computeWordReading(readWords([0, 1, 2, 3, 1, 3, 4, 0, 5]), layout);
+
+    expect(words[1].regressionsIn).toBe(1);
+    expect(words[0].regressionsIn).toBe(1);
+    expect(words[3].regressionsIn).toBe(0);
+    expect(lines[0].regressionsIn).toBe(2);
+  });
+
+  it('only counts words passed over before the furthest one reached as skipped', () => {
+    // Words 2 and 4 are jumped over; 3 is skipped first time and read on a regression
+    const analysis = computeWordReading(readWords([0, 1, 5, 3, 6]), layout);
+
+    expect(analysis.words.filter(m => m.skipped).map(m => m.index)).toEqual([2, 3, 4]);
+    expect(analysis.words[3]).toMatchObject({ fixationCount: 1, firstFixationDuration: 0, gazeDuration: 0, regressionsIn: 1 });
+    expect(analysis.wordsReached).toBe(7);
+    expect(analysis.skipRate).toBeCloseTo(3 / 7);
+  });
+
+  it('ignores fixations outside the passage without breaking first-pass reading', () => {
+    const fixations = readWords([0, 1, 1, 2]);
+    // Tracking drops off the text between the two fixations on word 1
+    fixations.splice(2, 0, { x: 20, y: 20, duration: 100, timestamp: 400 });
+    fixations.sort((a, b) => a.timestamp - b.timestamp);
+
+    const analysis = computeWordReading(fixations, layout);
+
+    expect(analysis.words[1]).toMatchObject({ fixationCount: 2, gazeDuration: 400, regressionsIn: 0 });
+    expect(analysis.mappedFixationRate).toBeCloseTo(4 / 5);
+  });
+
+  it('returns empty measures when nothing was read', () => {
+    const analysis = computeWordReading([], layout);
+    expect(analysis).toMatchObject({ wordsReached: 0, skipRate: 0, mappedFixationRate: 0 });
+    expect(analysis.words).toHaveLength(layout.words.length);
+  });
+});
+
+describe('word reading on golden traces', () => {
+  const analyse = (profile: typeof NORMAL_READER) => {
+    const trace = generateGoldenTrace(profile);
+    return { trace, analysis: computeWordReading(trace.fixations, trace.layout) };
+  };
+  const regressionsIn = (analysis: ReturnType<typeof computeWordReading>) =>
+    analysis.words.reduce((sum, m) => sum + m.regressionsIn, 0);
+
+  it('maps every fixation of a clean trace onto the passage and reaches its end', () => {
+    const { analysis } = analyse(NORMAL_READER);
+    expect(analysis.mappedFixationRate).toBe(1);
+    expect(analysis.wordsReached).toBe(layout.words.length);
+  });
+
+  it('recovers the regressions the reader made, without counting return sweeps', () => {
+    for (const profile of [NORMAL_READER, REGRESSIVE_READER]) {
+      const { trace, analysis } = analyse(profile);
+      expect(regressionsIn(analysis)).toBe(trace.regressionCount);
+    }
+  });
+
+  it('finds more skipping in fluent reading than in word-by-word decoding', () => {
+    const fluent = analyse(NORMAL_READER).analysis;
+    const decoder = analyse(STEP_BY_STEP_DECODER).analysis;
+
+    expect(fluent.skipRate).toBeGreaterThan(0.2);
+    expect(decoder.skipRate).toBeLessThan(fluent.skipRate / 3);
+  });
+});
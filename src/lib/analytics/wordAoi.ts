@@ -0,0 +1,235 @@
+/**
+ * Word-level Areas of Interest
+ * Maps fixations onto the measured passage layout and derives the standard
+ * per-word reading measures: first-fixation duration, gaze duration, total
+ * reading time, regressions-in and skipping.
+ */
+
+import type { Fixation } from '../../types/diagnostic.ts';
+import type {
+  FixationEvent,
+  LineBox,
+  LineReadingMeasures,
+  PassageLayout,
+  WordBox,
+  WordReadingAnalysis,
+  WordReadingMeasures,
+} from './types.ts';
+
+export interface WordAoiConfig {
+  // How far above/below a line a fixation may land, as a fraction of line height
+  verticalTolerance: number;
+  // Max horizontal distance (px) from the nearest word on the line
+  horizontalTolerance: number;
+}
+
+export const DEFAULT_WORD_AOI_CONFIG: WordAoiConfig = {
+  verticalTolerance: 0.5,
+  horizontalTolerance: 40,
+};
+
+export function buildLineBoxes(words: WordBox[]): LineBox[] {
+  const lines = new Map<number, LineBox>();
+
+  for (const word of words) {
+    const box = lines.get(word.line);
+    if (!box) {
+      lines.set(word.line, {
+        line: word.line,
+        x: word.x,
+        y: word.y,
+        width: word.width,
+        height: word.height,
+        firstWordIndex: word.index,
+        lastWordIndex: word.index,
+      });
+      continue;
+    }
+    const right = Math.max(box.x + box.width, word.x + word.width);
+    const bottom = Math.max(box.y + box.height, word.y + word.height);
+    box.x = Math.min(box.x, word.x);
+    box.y = Math.min(box.y, word.y);
+    box.width = right - box.x;
+    box.height = bottom - box.y;
+    box.firstWordIndex = Math.min(box.firstWordIndex, word.index);
+    box.lastWordIndex = Math.max(box.lastWordIndex, word.index);
+  }
+
+  return [...lines.values()].sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Passage layout from a stored JSON column, or null when it is missing or malformed
+ */
+export function parsePassageLayout(data: unknown): PassageLayout | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Partial<PassageLayout>;
+  if (!Array.isArray(raw.words) || raw.words.length === 0) return null;
+
+  const words = raw.words.filter(w =>
+    w && typeof w.index === 'number' && typeof w.line === 'number' &&
+    typeof w.x === 'number' && typeof w.y === 'number' &&
+    typeof w.width === 'number' && typeof w.height === 'number'
+  );
+  if (words.length === 0) return null;
+
+  return {
+    text: typeof raw.text === 'string' ? raw.text : '',
+    words,
+    lines: Array.isArray(raw.lines) && raw.lines.length > 0 ? raw.lines : buildLineBoxes(words),
+    viewport: raw.viewport ?? { width: 0, height: 0 },
+    measuredAt: typeof raw.measuredAt === 'number' ? raw.measuredAt : 0,
+  };
+}
+
+/**
+ * REMoDNaV fixation events in the same shape as detector fixations, so both
+ * pipelines can be mapped onto words
+ */
+export function toReadingFixations(events: FixationEvent[]): Fixation[] {
+  return events.map(e => ({
+    x: e.centroidX,
+    y: e.centroidY,
+    duration: e.duration,
+    timestamp: e.startTime,
+  }));
+}
+
+/**
+ * Word (by `WordBox.index`) a fixation landed on, or null when it fell
+ * outside the passage. Webcam gaze rarely lands inside a word's box, so the
+ * fixation is first snapped to the nearest line within tolerance, then to the
+ * nearest word on that line.
+ */
+export function assignFixationToWord(
+  fixation: Pick<Fixation, 'x' | 'y'>,
+  layout: PassageLayout,
+  config: Partial<WordAoiConfig> = {}
+): number | null {
+  const cfg = { ...DEFAULT_WORD_AOI_CONFIG, ...config };
+  const lines = layout.lines.length > 0 ? layout.lines : buildLineBoxes(layout.words);
+
+  let line: LineBox | null = null;
+  let lineDistance = Infinity;
+  for (const box of lines) {
+    const margin = box.height * cfg.verticalTolerance;
+    if (fixation.y < box.y - margin || fixation.y > box.y + box.height + margin) continue;
+    const distance = Math.abs(fixation.y - (box.y + box.height / 2));
+    if (distance < lineDistance) {
+      line = box;
+      lineDistance = distance;
+    }
+  }
+  if (!line) return null;
+
+  let word: WordBox | null = null;
+  let wordDistance = Infinity;
+  for (const w of layout.words) {
+    if (w.line !== line.line) continue;
+    const distance = fixation.x < w.x
+      ? w.x - fixation.x
+      : Math.max(0, fixation.x - (w.x + w.width));
+    if (distance < wordDistance) {
+      word = w;
+      wordDistance = distance;
+    }
+  }
+
+  return word && wordDistance <= cfg.horizontalTolerance ? word.index : null;
+}
+
+/**
+ * Per-word and per-line reading measures for one pass over the passage.
+ * Fixations outside the passage are ignored rather than treated as leaving
+ * the word, since webcam tracking drops off the text for single samples.
+ * Only words before the furthest one reached can count as skipped.
+ */
+export function computeWordReading(
+  fixations: Fixation[],
+  layout: PassageLayout,
+  config: Partial<WordAoiConfig> = {}
+): WordReadingAnalysis {
+  const words = [...layout.words].sort((a, b) => a.index - b.index);
+  const measures = new Map<number, WordReadingMeasures>();
+  for (const w of words) {
+    measures.set(w.index, {
+      index: w.index,
+      text: w.text,
+      line: w.line,
+      fixationCount: 0,
+      firstFixationDuration: 0,
+      gazeDuration: 0,
+      totalReadingTime: 0,
+      regressionsIn: 0,
+      skipped: false,
+    });
+  }
+
+  const ordered = [...fixations].sort((a, b) => a.timestamp - b.timestamp);
+  let furthest = -1;
+  let previous: number | null = null;
+  let firstPassWord: number | null = null;
+  let mapped = 0;
+
+  for (const fixation of ordered) {
+    const index = assignFixationToWord(fixation, layout, config);
+    if (index === null) continue;
+    const m = measures.get(index);
+    if (!m) continue;
+    mapped++;
+
+    m.fixationCount++;
+    m.totalReadingTime += fixation.duration;
+
+    if (index !== previous) {
+      if (previous !== null && index < previous) m.regressionsIn++;
+
+      if (index > furthest) {
+        // First-pass entry; everything passed over on the way here was skipped
+        for (const w of words) {
+          if (w.index > furthest && w.index < index) measures.get(w.index)!.skipped = true;
+        }
+        m.firstFixationDuration = fixation.duration;
+        m.gazeDuration = fixation.duration;
+        firstPassWord = index;
+        furthest = index;
+      } else {
+        firstPassWord = null;
+      }
+    } else if (firstPassWord === index) {
+      m.gazeDuration += fixation.duration;
+    }
+
+    previous = index;
+  }
+
+  const wordMeasures = words.map(w => measures.get(w.index)!);
+  const reached = wordMeasures.filter(m => m.index <= furthest);
+
+  const lines = new Map<number, LineReadingMeasures>();
+  for (const m of wordMeasures) {
+    const line = lines.get(m.line) ?? { line: m.line, fixationCount: 0, totalReadingTime: 0, regressionsIn: 0 };
+    line.fixationCount += m.fixationCount;
+    line.totalReadingTime += m.totalReadingTime;
+    line.regressionsIn += m.regressionsIn;
+    lines.set(m.line, line);
+  }
+
+  return {
+    words: wordMeasures,
+    lines: [...lines.values()].sort((a, b) => a.line - b.line),
+    wordsReached: reached.length,
+    skipRate: reached.length > 0 ? reached.filter(m => m.skipped).length / reached.length : 0,
+    mappedFixationRate: ordered.length > 0 ? mapped / ordered.length : 0,
+  };
+}
+
+/**
+ * Words that held the eyes longest or drew the most regressions
+ */
+export function rankDifficultWords(analysis: WordReadingAnalysis, limit = 5): WordReadingMeasures[] {
+  return analysis.words
+    .filter(m => m.fixationCount > 0)
+    .sort((a, b) => b.totalReadingTime - a.totalReadingTime || b.regressionsIn - a.regressionsIn)
+    .slice(0, limit);
+}
@@ -0,0 +1,123 @@
+/**
+ * Providers backed by a `TobiiAdapter`: the Tobii Pro SDK bridge and the
+ * synthetic reader, which replays a generated reading through the same
+ * adapter interface
+ */
+
+import {
+  createSyntheticTobiiAdapter,
+  createTobiiAdapter,
+  isTobiiAvailable,
+  type TobiiAdapter,
+  type TobiiConfig,
+} from '@/lib/tobiiAdapter';
+import { DEFAULT_SYNTHETIC_READER_CONFIG, type SyntheticReaderConfig } from '@/lib/analytics';
+import { createQualityMonitor } from './quality';
+import type {
+  EyeTrackerCapabilities,
+  EyeTrackerProvider,
+  EyeTrackerProviderDefinition,
+} from './types';
+
+export function createAdapterProvider(
+  id: string,
+  adapter: TobiiAdapter,
+  capabilities: EyeTrackerCapabilities
+): EyeTrackerProvider {
+  const quality = createQualityMonitor();
+
+  return {
+    id,
+    connect: () => adapter.connect(),
+    disconnect: () => adapter.disconnect(),
+    startTracking: () => adapter.startTracking(),
+    stopTracking: () => adapter.stopTracking(),
+    async calibrate() {
+      const result = await adapter.calibrate();
+      quality.setAccuracy(result.averageAccuracy);
+      return {
+        success: result.success,
+        quality: result.quality,
+        averageAccuracy: result.averageAccuracy,
+        points: result.points.map(p => ({ x: p.x, y: p.y, accuracy: (p.leftAccuracy + p.rightAccuracy) / 2 })),
+      };
+    },
+    getCapabilities: () => capabilities,
+    getQuality: () => quality.get(),
+    onSample(callback) {
+      adapter.onGazeData(data => {
+        const sample = {
+          timestamp: data.timestamp,
+          source: id,
+          x: data.x,
+          y: data.y,
+          leftPupil: data.leftPupilDiameter,
+          rightPupil: data.rightPupilDiameter,
+          gazeValid: data.validity.leftEye || data.validity.rightEye,
+          leftEyeValid: data.validity.leftEye,
+          rightEyeValid: data.validity.rightEye,
+        };
+        quality.push(sample);
+        callback(sample);
+      });
+    },
+    onConnectionChange: callback => adapter.onConnectionChange(callback),
+    onError: callback => adapter.onError(callback),
+    isConnected: () => adapter.isConnected(),
+  };
+}
+
+// Hardware output is already filtered, so fixations can use tight thresholds
+const HARDWARE_DETECTOR = {
+  fixationThreshold: 15,
+  minFixationDuration: 80,
+  smoothingWindow: 1,
+};
+
+export const tobiiProvider: EyeTrackerProviderDefinition = {
+  id: 'tobii',
+  kind: 'hardware',
+  label: 'Tobii Pro SDK',
+  description: 'Professional-grade eye tracking with sub-degree precision (requires Tobii hardware)',
+  priority: 100,
+  capabilities: { sampleRate: 120, pupil: true, binocular: true, calibration: true, requiresCamera: false },
+  detector: HARDWARE_DETECTOR,
+  isAvailable: isTobiiAvailable,
+  create({ settings }) {
+    const config: TobiiConfig = {
+      websocketUrl: 'ws://localhost:8080/tobii', // Local Tobii Pro SDK server
+      autoReconnect: true,
+      samplingRate: 120,
+      ...(settings as Partial<TobiiConfig> | undefined),
+    };
+    return createAdapterProvider('tobii', createTobiiAdapter(config), {
+      ...tobiiProvider.capabilities,
+      sampleRate: config.samplingRate ?? 120,
+    });
+  },
+};
+
+export const syntheticProvider: EyeTrackerProviderDefinition = {
+  id: 'synthetic',
+  kind: 'synthetic',
+  label: 'Synthetic Reader',
+  description: 'Simulated reader that reads the passage on screen, for demos and headless runs',
+  priority: 0,
+  explicitOnly: true,
+  capabilities: {
+    sampleRate: DEFAULT_SYNTHETIC_READER_CONFIG.sampleRate,
+    pupil: true,
+    binocular: true,
+    calibration: false,
+    requiresCamera: false,
+  },
+  detector: HARDWARE_DETECTOR,
+  isAvailable: () => true,
+  create({ getLayout, settings }) {
+    const reader = settings as Partial<SyntheticReaderConfig> | undefined;
+    return createAdapterProvider('synthetic', createSyntheticTobiiAdapter({ getLayout, reader }), {
+      ...syntheticProvider.capabilities,
+      sampleRate: reader?.sampleRate ?? syntheticProvider.capabilities.sampleRate,
+    });
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Eye-tracker providers
+ *
+ * The app-wide registry comes with the built-in trackers registered. New
+ * sources (a WebSocket gaze server, a file replay, ...) only need a
+ * definition passed to `eyeTrackerRegistry.register`; the assessment flow
+ * picks them up through the user's provider preference.
+ */
+
+import { createEyeTrackerRegistry } from './registry';
+import { syntheticProvider, tobiiProvider } from './adapterProviders';
+import { mediaPipeProvider, webGazerProvider } from './webcamProviders';
+
+export * from './types';
+export * from './quality';
+export * from './registry';
+export * from './adapterProviders';
+export * from './webcamProviders';
+
+export const eyeTrackerRegistry = createEyeTrackerRegistry();
+
+for (const definition of [tobiiProvider, mediaPipeProvider, webGazerProvider, syntheticProvider]) {
+  eyeTrackerRegistry.register(definition);
+}
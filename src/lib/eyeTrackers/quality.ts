@@ -0,0 +1,65 @@
+/**
+ * Rolling tracking-quality estimate shared by the providers
+ */
+
+import type { RawGazeSample } from '@/lib/analytics';
+import type { EyeTrackerQuality, EyeTrackerQualityLevel } from './types';
+
+export interface QualityMonitor {
+  push(sample: RawGazeSample): void;
+  setAccuracy(degrees: number | null): void;
+  get(): EyeTrackerQuality;
+  reset(): void;
+}
+
+// Same bands as the Tobii calibration report
+export function accuracyToQuality(degrees: number): EyeTrackerQualityLevel {
+  if (degrees < 0.5) return 'excellent';
+  if (degrees < 0.8) return 'good';
+  if (degrees < 1.2) return 'fair';
+  return 'poor';
+}
+
+export function createQualityMonitor(windowMs = 2000): QualityMonitor {
+  let recent: Array<{ timestamp: number; valid: boolean; confidence: number }> = [];
+  let accuracy: number | null = null;
+
+  return {
+    push(sample) {
+      recent.push({
+        timestamp: sample.timestamp,
+        valid: sample.gazeValid !== false,
+        confidence: sample.confidence ?? (sample.gazeValid === false ? 0 : 1),
+      });
+      const cutoff = sample.timestamp - windowMs;
+      while (recent.length > 0 && recent[0].timestamp < cutoff) recent.shift();
+    },
+    setAccuracy(degrees) {
+      accuracy = degrees;
+    },
+    get() {
+      if (recent.length === 0) {
+        return { level: 'unknown', sampleRate: 0, validRatio: 0, confidence: 0, accuracy };
+      }
+
+      const span = recent[recent.length - 1].timestamp - recent[0].timestamp;
+      const sampleRate = span > 0 ? ((recent.length - 1) * 1000) / span : 0;
+      const validRatio = recent.filter(s => s.valid).length / recent.length;
+      const confidence = recent.reduce((sum, s) => sum + s.confidence, 0) / recent.length;
+
+      let level: EyeTrackerQualityLevel;
+      if (accuracy !== null) {
+        level = accuracyToQuality(accuracy);
+      } else {
+        const score = validRatio * confidence;
+        level = score >= 0.8 ? 'good' : score >= 0.5 ? 'fair' : 'poor';
+      }
+
+      return { level, sampleRate, validRatio, confidence, accuracy };
+    },
+    reset() {
+      recent = [];
+      accuracy = null;
+    },
+  };
+}
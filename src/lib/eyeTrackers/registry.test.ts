@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createEyeTrackerRegistry } from './registry';
+import { createAdapterProvider } from './adapterProviders';
+import { createSimulatedTobiiAdapter } from '@/lib/tobiiAdapter';
+import type { EyeTrackerKind, EyeTrackerProviderDefinition } from './types';
+
+const capabilities = { sampleRate: 60, pupil: false, binocular: true, calibration: false, requiresCamera: false };
+
+function definition(
+  id: string,
+  priority: number,
+  overrides: Partial<EyeTrackerProviderDefinition> & { kind?: EyeTrackerKind; connects?: boolean } = {}
+): EyeTrackerProviderDefinition {
+  const { connects = true, ...rest } = overrides;
+  return {
+    id,
+    kind: 'webcam',
+    label: id,
+    description: id,
+    priority,
+    capabilities,
+    isAvailable: () => true,
+    create() {
+      const provider = createAdapterProvider(id, createSimulatedTobiiAdapter(), capabilities);
+      return { ...provider, connect: async () => connects };
+    },
+    ...rest,
+  };
+}
+
+describe('eye-tracker registry', () => {
+  it('orders automatic candidates by priority and leaves out explicit-only providers', () => {
+    const registry = createEyeTrackerRegistry();
+    registry.register(definition('webgazer', 40));
+    registry.register(definition('tobii', 100, { kind: 'hardware' }));
+    registry.register(definition('mediapipe', 50));
+    registry.register(definition('synthetic', 0, { kind: 'synthetic', explicitOnly: true }));
+
+    expect(registry.candidates('auto').map(d => d.id)).toEqual(['tobii', 'mediapipe', 'webgazer']);
+  });
+
+  it('tries the preferred id or kind first, then falls back automatically', () => {
+    const registry = createEyeTrackerRegistry();
+    registry.register(definition('tobii', 100, { kind: 'hardware' }));
+    registry.register(definition('mediapipe', 50));
+    registry.register(definition('webgazer', 40));
+    registry.register(definition('synthetic', 0, { kind: 'synthetic', explicitOnly: true }));
+
+    expect(registry.candidates('webcam').map(d => d.id)).toEqual(['mediapipe', 'webgazer', 'tobii']);
+    expect(registry.candidates('synthetic').map(d => d.id)).toEqual(['synthetic', 'tobii', 'mediapipe', 'webgazer']);
+  });
+
+  it('skips unavailable providers and falls back past ones that fail to connect', async () => {
+    const registry = createEyeTrackerRegistry();
+    registry.register(definition('tobii', 100, { kind: 'hardware', isAvailable: () => false }));
+    registry.register(definition('mediapipe', 50, { connects: false }));
+    registry.register(definition('webgazer', 40));
+
+    const connection = await registry.connect('auto');
+
+    expect(connection?.definition.id).toBe('webgazer');
+    expect(connection?.skipped.map(s => s.id)).toEqual(['tobii', 'mediapipe']);
+    expect(registry.getHealth('mediapipe').consecutiveFailures).toBe(1);
+  });
+
+  it('treats a hanging availability probe as unavailable', async () => {
+    const registry = createEyeTrackerRegistry({ availabilityTimeoutMs: 20 });
+    registry.register(definition('tobii', 100, { isAvailable: () => new Promise<boolean>(() => {}) }));
+    registry.register(definition('mediapipe', 50));
+
+    expect((await registry.connect('auto'))?.definition.id).toBe('mediapipe');
+  });
+
+  it('moves recently failed providers behind healthy ones until the cooldown passes', () => {
+    const registry = createEyeTrackerRegistry({ failureCooldownMs: 60000 });
+    registry.register(definition('tobii', 100, { kind: 'hardware' }));
+    registry.register(definition('mediapipe', 50));
+
+    registry.reportFailure('tobii', new Error('Connection timeout'));
+    expect(registry.candidates('auto').map(d => d.id)).toEqual(['mediapipe', 'tobii']);
+    expect(registry.getHealth('tobii').lastError).toBe('Connection timeout');
+
+    registry.reportSuccess('tobii');
+    expect(registry.candidates('auto').map(d => d.id)).toEqual(['tobii', 'mediapipe']);
+  });
+
+  it('returns null when nothing can connect', async () => {
+    const registry = createEyeTrackerRegistry();
+    registry.register(definition('mediapipe', 50, { connects: false }));
+
+    expect(await registry.connect('auto')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Eye-tracker provider registry
+ * Picks a tracker for a preference by priority and health: the preferred
+ * providers are tried first, then every auto-selectable provider in priority
+ * order. Providers that failed recently drop to the back of the queue until
+ * their cooldown expires.
+ */
+
+import { logger } from '@/lib/logger';
+import type {
+  EyeTrackerContext,
+  EyeTrackerPreference,
+  EyeTrackerProvider,
+  EyeTrackerProviderDefinition,
+} from './types';
+
+export interface EyeTrackerHealth {
+  consecutiveFailures: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+export interface EyeTrackerConnection {
+  definition: EyeTrackerProviderDefinition;
+  provider: EyeTrackerProvider;
+  // Providers tried before this one, and why they were passed over
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+export interface EyeTrackerConnectOptions {
+  getLayout?: EyeTrackerContext['getLayout'];
+  // Settings for individual providers, keyed by provider id
+  settings?: Record<string, unknown>;
+}
+
+export interface EyeTrackerRegistryConfig {
+  failureCooldownMs: number;
+  availabilityTimeoutMs: number;
+}
+
+export const DEFAULT_EYE_TRACKER_REGISTRY_CONFIG: EyeTrackerRegistryConfig = {
+  failureCooldownMs: 30000,
+  availabilityTimeoutMs: 3000,
+};
+
+export interface EyeTrackerRegistry {
+  // Returns a function that unregisters the provider again
+  register(definition: EyeTrackerProviderDefinition): () => void;
+  get(id: string): EyeTrackerProviderDefinition | undefined;
+  list(): EyeTrackerProviderDefinition[];
+  getHealth(id: string): EyeTrackerHealth;
+  reportFailure(id: string, error: unknown): void;
+  reportSuccess(id: string): void;
+  // Providers in the order they would be tried for a preference
+  candidates(preference: EyeTrackerPreference): EyeTrackerProviderDefinition[];
+  connect(preference: EyeTrackerPreference, options?: EyeTrackerConnectOptions): Promise<EyeTrackerConnection | null>;
+}
+
+const matchesPreference = (definition: EyeTrackerProviderDefinition, preference: EyeTrackerPreference) =>
+  definition.id === preference || definition.kind === preference;
+
+async function probe(definition: EyeTrackerProviderDefinition, timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      Promise.resolve(definition.isAvailable()),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createEyeTrackerRegistry(config: Partial<EyeTrackerRegistryConfig> = {}): EyeTrackerRegistry {
+  const cfg = { ...DEFAULT_EYE_TRACKER_REGISTRY_CONFIG, ...config };
+  const definitions = new Map<string, EyeTrackerProviderDefinition>();
+  const health = new Map<string, EyeTrackerHealth>();
+
+  const getHealth = (id: string): EyeTrackerHealth =>
+    health.get(id) ?? { consecutiveFailures: 0, lastFailureAt: null, lastError: null };
+
+  const isCoolingDown = (id: string) => {
+    const { lastFailureAt, consecutiveFailures } = getHealth(id);
+    return consecutiveFailures > 0 && lastFailureAt !== null && Date.now() - lastFailureAt < cfg.failureCooldownMs;
+  };
+
+  const byPriority = (a: EyeTrackerProviderDefinition, b: EyeTrackerProviderDefinition) =>
+    Number(isCoolingDown(a.id)) - Number(isCoolingDown(b.id)) || b.priority - a.priority;
+
+  const registry: EyeTrackerRegistry = {
+    register(definition) {
+      if (definitions.has(definition.id)) {
+        logger.warn('Replacing registered eye tracker', { id: definition.id });
+      }
+      definitions.set(definition.id, definition);
+      return () => {
+        if (definitions.get(definition.id) === definition) definitions.delete(definition.id);
+      };
+    },
+
+    get(id) {
+      return definitions.get(id);
+    },
+
+    list() {
+      return [...definitions.values()].sort((a, b) => b.priority - a.priority);
+    },
+
+    getHealth,
+
+    reportFailure(id, error) {
+      const previous = getHealth(id);
+      health.set(id, {
+        consecutiveFailures: previous.consecutiveFailures + 1,
+        lastFailureAt: Date.now(),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    },
+
+    reportSuccess(id) {
+      health.delete(id);
+    },
+
+    candidates(preference) {
+      const all = [...definitions.values()];
+      const preferred = preference === 'auto'
+        ? []
+        : all.filter(d => matchesPreference(d, preference)).sort(byPriority);
+      const automatic = all
+        .filter(d => !d.explicitOnly && !preferred.includes(d))
+        .sort(byPriority);
+      return [...preferred, ...automatic];
+    },
+
+    async connect(preference, options = {}) {
+      const skipped: EyeTrackerConnection['skipped'] = [];
+
+      for (const definition of registry.candidates(preference)) {
+        if (!(await probe(definition, cfg.availabilityTimeoutMs))) {
+          skipped.push({ id: definition.id, reason: 'not available' });
+          continue;
+        }
+
+        let provider: EyeTrackerProvider | null = null;
+        try {
+          provider = definition.create({
+            getLayout: options.getLayout ?? (() => null),
+            settings: options.settings?.[definition.id],
+          });
+          if (!(await provider.connect())) throw new Error('Connection refused');
+          registry.reportSuccess(definition.id);
+          if (skipped.length > 0) {
+            logger.info('Eye tracker fallback', { preference, selected: definition.id, skipped });
+          }
+          return { definition, provider, skipped };
+        } catch (error) {
+          provider?.disconnect();
+          registry.reportFailure(definition.id, error);
+          skipped.push({ id: definition.id, reason: getHealth(definition.id).lastError ?? 'failed' });
+          logger.warn('Eye tracker failed to connect', { id: definition.id, error });
+        }
+      }
+
+      logger.error('No eye tracker could be connected', { preference, skipped });
+      return null;
+    },
+  };
+
+  return registry;
+}
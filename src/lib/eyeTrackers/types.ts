@@ -0,0 +1,86 @@
+/**
+ * Eye-tracker provider contract
+ * Every gaze source (webcam models, clinical hardware, synthetic readers,
+ * replays) implements the same connect / calibrate / stream lifecycle as
+ * `TobiiAdapter`, and streams samples in the session recording format so the
+ * assessment flow never needs to know which one is running.
+ */
+
+import type { FixationDetectorConfig, PassageLayout, RawGazeSample } from '@/lib/analytics';
+
+// Families of trackers; a preference may name a kind instead of a single provider
+export type EyeTrackerKind = 'webcam' | 'hardware' | 'synthetic' | 'replay';
+
+// 'auto', a provider kind, or the id of a registered provider
+export type EyeTrackerPreference = 'auto' | EyeTrackerKind | (string & {});
+
+export type EyeTrackerQualityLevel = 'unknown' | 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface EyeTrackerCapabilities {
+  sampleRate: number; // nominal Hz
+  pupil: boolean;
+  binocular: boolean;
+  // Runs its own calibration routine (otherwise the app's point calibration is used)
+  calibration: boolean;
+  requiresCamera: boolean;
+}
+
+export interface EyeTrackerQuality {
+  level: EyeTrackerQualityLevel;
+  sampleRate: number; // measured Hz over the last window
+  validRatio: number; // share of samples with usable gaze
+  confidence: number; // mean per-sample confidence, 0-1
+  accuracy: number | null; // degrees, from the last calibration
+}
+
+export interface EyeTrackerCalibrationResult {
+  success: boolean;
+  quality: EyeTrackerQualityLevel;
+  averageAccuracy: number | null; // degrees
+  points: Array<{ x: number; y: number; accuracy: number }>;
+}
+
+type SampleCallback = (sample: RawGazeSample) => void;
+type ConnectionChangeCallback = (connected: boolean) => void;
+type ErrorCallback = (error: Error) => void;
+
+export interface EyeTrackerProvider {
+  readonly id: string;
+  connect(): Promise<boolean>;
+  disconnect(): void;
+  startTracking(): Promise<void>;
+  stopTracking(): void;
+  calibrate(): Promise<EyeTrackerCalibrationResult>;
+  getCapabilities(): EyeTrackerCapabilities;
+  getQuality(): EyeTrackerQuality;
+  onSample(callback: SampleCallback): void;
+  onConnectionChange(callback: ConnectionChangeCallback): void;
+  onError(callback: ErrorCallback): void;
+  isConnected(): boolean;
+  // Screen-space correction from the app's point calibration (webcam trackers)
+  applyCalibrationOffset?(x: number, y: number): void;
+}
+
+export interface EyeTrackerContext {
+  // Measured passage, for trackers that synthesise or replay reading
+  getLayout: () => PassageLayout | null;
+  // Provider-specific settings, as passed for this provider's id
+  settings?: unknown;
+}
+
+export interface EyeTrackerProviderDefinition {
+  id: string;
+  kind: EyeTrackerKind;
+  label: string;
+  description: string;
+  // Higher is tried first when selecting automatically
+  priority: number;
+  // Excluded from 'auto' selection; only used when asked for by id or kind
+  explicitOnly?: boolean;
+  capabilities: EyeTrackerCapabilities;
+  // Fixation detection tuned to the tracker's noise level
+  detector?: Partial<FixationDetectorConfig>;
+  // Cheap health probe run before connecting
+  isAvailable(): boolean | Promise<boolean>;
+  create(context: EyeTrackerContext): EyeTrackerProvider;
+}
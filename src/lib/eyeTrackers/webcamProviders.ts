@@ -0,0 +1,287 @@
+/**
+ * Webcam eye trackers: MediaPipe FaceMesh iris tracking, with WebGazer's
+ * ridge-regression model as the lower-precision fallback
+ */
+
+import type { RawGazeSample } from '@/lib/analytics';
+import { createQualityMonitor } from './quality';
+import type {
+  EyeTrackerCapabilities,
+  EyeTrackerProvider,
+  EyeTrackerProviderDefinition,
+} from './types';
+
+// MediaPipe Face Mesh indices for iris tracking
+const LEFT_IRIS_INDICES = [468, 469, 470, 471, 472];
+const RIGHT_IRIS_INDICES = [473, 474, 475, 476, 477];
+const LEFT_EYE_INDICES = [33, 133, 160, 159, 158, 144, 145, 153];
+const RIGHT_EYE_INDICES = [362, 263, 387, 386, 385, 373, 374, 380];
+
+// CDN URL for MediaPipe assets (production-safe)
+const MEDIAPIPE_CDN = 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619';
+
+type SampleCallback = (sample: RawGazeSample) => void;
+type ConnectionChangeCallback = (connected: boolean) => void;
+type ErrorCallback = (error: Error) => void;
+
+const hasCamera = () => typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+
+// Webcam trackers rely on the app's point calibration, which has no accuracy figure
+const uncalibrated = async () => ({
+  success: true,
+  quality: 'unknown' as const,
+  averageAccuracy: null,
+  points: [],
+});
+
+// Gaze position from iris landmarks, relative to the eye corners
+function calculateGazeFromIris(landmarks: any[]): { x: number; y: number; confidence: number } | null {
+  if (!landmarks || landmarks.length < 478) return null;
+
+  try {
+    const leftIrisPoints = LEFT_IRIS_INDICES.map(i => landmarks[i]).filter(Boolean);
+    const rightIrisPoints = RIGHT_IRIS_INDICES.map(i => landmarks[i]).filter(Boolean);
+
+    if (leftIrisPoints.length < 4 || rightIrisPoints.length < 4) return null;
+
+    const leftCenter = {
+      x: leftIrisPoints.reduce((sum, p) => sum + p.x, 0) / leftIrisPoints.length,
+      y: leftIrisPoints.reduce((sum, p) => sum + p.y, 0) / leftIrisPoints.length
+    };
+
+    const rightCenter = {
+      x: rightIrisPoints.reduce((sum, p) => sum + p.x, 0) / rightIrisPoints.length,
+      y: rightIrisPoints.reduce((sum, p) => sum + p.y, 0) / rightIrisPoints.length
+    };
+
+    const leftEyeOuter = landmarks[LEFT_EYE_INDICES[0]];
+    const leftEyeInner = landmarks[LEFT_EYE_INDICES[1]];
+    const rightEyeOuter = landmarks[RIGHT_EYE_INDICES[0]];
+    const rightEyeInner = landmarks[RIGHT_EYE_INDICES[1]];
+
+    if (!leftEyeOuter || !leftEyeInner || !rightEyeOuter || !rightEyeInner) return null;
+
+    const leftEyeWidth = Math.abs(leftEyeInner.x - leftEyeOuter.x);
+    const rightEyeWidth = Math.abs(rightEyeInner.x - rightEyeOuter.x);
+
+    const leftRelX = leftEyeWidth > 0 ? (leftCenter.x - leftEyeOuter.x) / leftEyeWidth : 0.5;
+    const rightRelX = rightEyeWidth > 0 ? (rightCenter.x - rightEyeOuter.x) / rightEyeWidth : 0.5;
+
+    const avgRelX = (leftRelX + rightRelX) / 2;
+    const avgRelY = (leftCenter.y + rightCenter.y) / 2;
+
+    // Calculate confidence based on eye visibility
+    const eyeWidthRatio = Math.min(leftEyeWidth, rightEyeWidth) / Math.max(leftEyeWidth, rightEyeWidth);
+    const confidence = Math.min(eyeWidthRatio, 0.95);
+
+    return { x: avgRelX * window.innerWidth, y: avgRelY * window.innerHeight, confidence };
+  } catch {
+    return null;
+  }
+}
+
+function createMediaPipeTracker(capabilities: EyeTrackerCapabilities): EyeTrackerProvider {
+  let connected = false;
+  let faceMesh: any = null;
+  let video: HTMLVideoElement | null = null;
+  let animationFrame: number | null = null;
+  let offset = { x: 0, y: 0 };
+  const quality = createQualityMonitor();
+  const callbacks: { sample: SampleCallback[]; connection: ConnectionChangeCallback[]; error: ErrorCallback[] } = {
+    sample: [],
+    connection: [],
+    error: [],
+  };
+
+  const processLandmarks = (landmarks: any[]) => {
+    const gaze = calculateGazeFromIris(landmarks);
+    if (!gaze) return;
+
+    const sample: RawGazeSample = {
+      timestamp: Date.now(),
+      source: 'mediapipe',
+      x: gaze.x + offset.x,
+      y: gaze.y + offset.y,
+      confidence: gaze.confidence,
+    };
+    quality.push(sample);
+    callbacks.sample.forEach(cb => cb(sample));
+  };
+
+  const stopFrameLoop = () => {
+    if (animationFrame) cancelAnimationFrame(animationFrame);
+    animationFrame = null;
+  };
+
+  return {
+    id: 'mediapipe',
+    async connect() {
+      if (connected) return true;
+      if (!hasCamera()) throw new Error('Camera not supported');
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'user', width: 640, height: 480 }
+      });
+
+      video = document.createElement('video');
+      video.srcObject = stream;
+      video.autoplay = true;
+      video.playsInline = true;
+      await video.play();
+
+      const FaceMeshModule = await import('@mediapipe/face_mesh');
+      faceMesh = new FaceMeshModule.FaceMesh({
+        locateFile: (file: string) => `${MEDIAPIPE_CDN}/${file}`
+      });
+
+      faceMesh.setOptions({
+        maxNumFaces: 1,
+        refineLandmarks: true,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5
+      });
+
+      faceMesh.onResults((results: { multiFaceLandmarks?: unknown[][] }) => {
+        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
+          processLandmarks(results.multiFaceLandmarks[0] as any[]);
+        }
+      });
+
+      connected = true;
+      callbacks.connection.forEach(cb => cb(true));
+      return true;
+    },
+    disconnect() {
+      stopFrameLoop();
+      faceMesh?.close?.();
+      faceMesh = null;
+      if (video?.srcObject) {
+        (video.srcObject as MediaStream).getTracks().forEach(track => track.stop());
+      }
+      video = null;
+      connected = false;
+      callbacks.connection.forEach(cb => cb(false));
+    },
+    async startTracking() {
+      if (!faceMesh || !video) throw new Error('MediaPipe not connected');
+      if (animationFrame) return;
+
+      const processFrame = async () => {
+        if (!faceMesh || !video) return;
+        try {
+          if (video.readyState >= 2) {
+            await faceMesh.send({ image: video });
+          }
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error('FaceMesh frame failed');
+          callbacks.error.forEach(cb => cb(err));
+        }
+        animationFrame = requestAnimationFrame(processFrame);
+      };
+
+      processFrame();
+    },
+    stopTracking: stopFrameLoop,
+    calibrate: uncalibrated,
+    getCapabilities: () => capabilities,
+    getQuality: () => quality.get(),
+    onSample(cb) { callbacks.sample.push(cb); },
+    onConnectionChange(cb) { callbacks.connection.push(cb); },
+    onError(cb) { callbacks.error.push(cb); },
+    isConnected: () => connected,
+    applyCalibrationOffset(x, y) {
+      offset = { x, y };
+    },
+  };
+}
+
+function createWebGazerTracker(capabilities: EyeTrackerCapabilities): EyeTrackerProvider {
+  let connected = false;
+  let tracking = false;
+  let webgazer: any = null;
+  const quality = createQualityMonitor();
+  const callbacks: { sample: SampleCallback[]; connection: ConnectionChangeCallback[]; error: ErrorCallback[] } = {
+    sample: [],
+    connection: [],
+    error: [],
+  };
+
+  return {
+    id: 'webgazer',
+    async connect() {
+      if (connected) return true;
+      webgazer = (await import('webgazer')).default;
+
+      // Configure WebGazer
+      webgazer.setRegression('ridge');
+      webgazer.showVideo(false);
+      webgazer.showFaceOverlay(false);
+      webgazer.showFaceFeedbackBox(false);
+      webgazer.showPredictionPoints(false);
+
+      webgazer.setGazeListener((data: { x: number; y: number } | null) => {
+        if (!tracking || !data || data.x === null || data.y === null) return;
+        const sample: RawGazeSample = {
+          timestamp: Date.now(),
+          source: 'webgazer',
+          x: data.x,
+          y: data.y,
+          confidence: 0.6, // Lower confidence for WebGazer
+        };
+        quality.push(sample);
+        callbacks.sample.forEach(cb => cb(sample));
+      });
+
+      await webgazer.begin();
+      connected = true;
+      callbacks.connection.forEach(cb => cb(true));
+      return true;
+    },
+    disconnect() {
+      tracking = false;
+      webgazer?.end?.();
+      webgazer = null;
+      connected = false;
+      callbacks.connection.forEach(cb => cb(false));
+    },
+    async startTracking() {
+      if (!webgazer) throw new Error('WebGazer not connected');
+      // WebGazer handles its own frame loop internally
+      webgazer.resume();
+      tracking = true;
+    },
+    stopTracking() {
+      tracking = false;
+      webgazer?.pause();
+    },
+    calibrate: uncalibrated,
+    getCapabilities: () => capabilities,
+    getQuality: () => quality.get(),
+    onSample(cb) { callbacks.sample.push(cb); },
+    onConnectionChange(cb) { callbacks.connection.push(cb); },
+    onError(cb) { callbacks.error.push(cb); },
+    isConnected: () => connected,
+  };
+}
+
+export const mediaPipeProvider: EyeTrackerProviderDefinition = {
+  id: 'mediapipe',
+  kind: 'webcam',
+  label: 'MediaPipe FaceMesh',
+  description: 'Iris tracking from the webcam (no external hardware required)',
+  priority: 50,
+  capabilities: { sampleRate: 30, pupil: false, binocular: true, calibration: false, requiresCamera: true },
+  isAvailable: hasCamera,
+  create: () => createMediaPipeTracker(mediaPipeProvider.capabilities),
+};
+
+export const webGazerProvider: EyeTrackerProviderDefinition = {
+  id: 'webgazer',
+  kind: 'webcam',
+  label: 'WebGazer',
+  description: 'Regression-based webcam tracking, used when MediaPipe cannot start (lower precision)',
+  priority: 40,
+  capabilities: { sampleRate: 30, pupil: false, binocular: false, calibration: false, requiresCamera: true },
+  isAvailable: hasCamera,
+  create: () => createWebGazerTracker(webGazerProvider.capabilities),
+};
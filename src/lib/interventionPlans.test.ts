@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { ProgressResultRow } from '@/lib/progressAnalytics';
+import {
+  draftPlanFromStrategies,
+  findBaselineResult,
+  getFollowUpStatus,
+  getPlanOutcome,
+  parseSessionsPerWeek,
+  summarizeAdherence,
+} from './interventionPlans';
+
+function result(id: string, date: string, wpm: number): ProgressResultRow {
+  return {
+    id,
+    created_at: `${date}T09:30:00Z`,
+    voice_words_per_minute: wpm,
+    voice_fluency_score: null,
+    eye_regression_count: null,
+    eye_avg_fixation_duration: null,
+    eye_chaos_index: null,
+    dyslexia_probability_index: null,
+  };
+}
+
+describe('interventionPlans', () => {
+  it('drafts a schedule from free-text recommendations', () => {
+    expect(parseSessionsPerWeek('3x per week')).toBe(3);
+    expect(parseSessionsPerWeek('Twice a week')).toBe(2);
+    expect(parseSessionsPerWeek('Daily practice')).toBe(5);
+    expect(parseSessionsPerWeek('As needed')).toBeNull();
+
+    const draft = draftPlanFromStrategies(
+      [
+        { title: 'Phonics', description: '', priority: 'high', frequency: '3 times per week', duration: '20 minutes' },
+        { title: 'Guided reading', description: '', priority: 'medium', frequency: 'daily', duration: '15-25 min' },
+      ],
+      new Date('2026-03-02T12:00:00Z')
+    );
+    expect(draft).toEqual({
+      title: 'Phonics + Guided reading',
+      sessionsPerWeek: 5,
+      minutesPerSession: 25,
+      startedOn: '2026-03-02',
+      followUpOn: '2026-04-13',
+    });
+  });
+
+  it('tracks adherence and the follow-up reassessment', () => {
+    const plan = { started_on: '2026-03-02', follow_up_on: '2026-04-13', sessions_per_week: 3 };
+    const adherence = summarizeAdherence(
+      plan,
+      [
+        { attended: true, duration_minutes: 30 },
+        { attended: true, duration_minutes: 25 },
+        { attended: false, duration_minutes: 0 },
+      ],
+      new Date('2026-03-16T12:00:00Z')
+    );
+    expect(adherence).toEqual({ held: 2, missed: 1, minutes: 55, expected: 6, rate: 2 / 6 });
+
+    const before = [result('a', '2026-02-20', 60)];
+    expect(getFollowUpStatus(plan, before, new Date('2026-03-16')).state).toBe('scheduled');
+    expect(getFollowUpStatus(plan, before, new Date('2026-04-10')).state).toBe('due');
+    expect(getFollowUpStatus(plan, before, new Date('2026-05-10')).state).toBe('overdue');
+    const done = getFollowUpStatus(plan, [...before, result('b', '2026-04-09', 75)], new Date('2026-05-10'));
+    expect(done).toMatchObject({ state: 'done', result: { id: 'b' } });
+  });
+
+  it('measures outcomes from the pre-intervention assessment', () => {
+    const results = [
+      result('old', '2026-01-05', 90),
+      result('pre', '2026-03-02', 60),
+      result('post', '2026-04-13', 84),
+    ];
+    const baseline = findBaselineResult(results, '2026-03-02');
+    expect(baseline?.id).toBe('pre');
+
+    const outcome = getPlanOutcome({ baseline_result_id: 'pre' }, results, { grade: '2-3', age: 8 })!;
+    const wpm = outcome.find(p => p.metric.key === 'wordsPerMinute')!;
+    expect(wpm).toMatchObject({ change: 24, verdict: 'improved', baseline: { resultId: 'pre' } });
+    expect(getPlanOutcome({ baseline_result_id: null }, results, { grade: '2-3', age: 8 })).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Intervention Plans
+ * Drafting plans from AI recommendations, session adherence, follow-up
+ * scheduling and outcomes measured from the pre-intervention assessment.
+ * Data access lives in useInterventionPlans.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AIInsights } from '@/hooks/useAIInsights';
+import { analyzeProgress, type MetricProgress, type ProgressResultRow } from '@/lib/progressAnalytics';
+
+export type InterventionStrategy = AIInsights['interventionStrategies'][number];
+export type InterventionPlanStatus = 'active' | 'completed' | 'discontinued';
+export type InterventionSession = Tables<'intervention_sessions'>;
+
+export interface InterventionPlan extends Omit<Tables<'intervention_plans'>, 'status' | 'strategies'> {
+  status: InterventionPlanStatus;
+  strategies: InterventionStrategy[];
+  sessions: InterventionSession[];
+}
+
+export const INTERVENTION_STATUS_LABELS: Record<InterventionPlanStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  discontinued: 'Discontinued',
+};
+
+export const DEFAULT_SESSIONS_PER_WEEK = 3;
+export const DEFAULT_MINUTES_PER_SESSION = 30;
+// Reassess after a typical six-week intervention cycle unless told otherwise
+export const DEFAULT_FOLLOW_UP_WEEKS = 6;
+// An assessment this close before the follow-up date still counts as the follow-up
+export const FOLLOW_UP_EARLY_DAYS = 7;
+// After this long past the follow-up date with no assessment, it is overdue
+export const FOLLOW_UP_GRACE_DAYS = 14;
+
+const WORD_COUNTS: Record<string, number> = { once: 1, twice: 2, thrice: 3, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+/** Sessions per week from free-text frequencies like "3x per week" or "daily" */
+export function parseSessionsPerWeek(frequency: string): number | null {
+  const text = frequency.toLowerCase();
+  if (/\b(daily|every day|each day)\b/.test(text)) return 5;
+  if (/\bevery other day\b/.test(text)) return 3;
+
+  const count = text.match(/(\d+)\s*(?:x|times?|sessions?)?\s*(?:a|per|\/|each)?\s*week/);
+  if (count) return Number(count[1]);
+
+  const word = text.match(/\b(once|twice|thrice|one|two|three|four|five)\b(?:\s*(?:times?|sessions?))?\s*(?:a|per|\/|each)?\s*week/);
+  if (word) return WORD_COUNTS[word[1]];
+
+  return /\bweekly\b/.test(text) ? 1 : null;
+}
+
+/** Minutes per session from text like "20 minutes" or "15-20 min"; the upper bound of a range */
+export function parseSessionMinutes(duration: string): number | null {
+  const match = duration.toLowerCase().match(/(\d+)(?:\s*[-–]\s*(\d+))?\s*min/);
+  if (!match) return null;
+  return Number(match[2] ?? match[1]);
+}
+
+export interface InterventionPlanDraft {
+  title: string;
+  sessionsPerWeek: number;
+  minutesPerSession: number;
+  startedOn: string;
+  followUpOn: string;
+}
+
+export function draftPlanFromStrategies(strategies: InterventionStrategy[], today: Date = new Date()): InterventionPlanDraft {
+  const perWeek = strategies.map(s => parseSessionsPerWeek(s.frequency)).filter((n): n is number => n !== null);
+  const minutes = strategies.map(s => parseSessionMinutes(s.duration)).filter((n): n is number => n !== null);
+
+  return {
+    title: strategies.map(s => s.title).join(' + ').slice(0, 200),
+    // Combined strategies usually share sessions, so plan for the most demanding one
+    sessionsPerWeek: perWeek.length > 0 ? Math.min(Math.max(...perWeek), 14) : DEFAULT_SESSIONS_PER_WEEK,
+    minutesPerSession: minutes.length > 0 ? Math.min(Math.max(...minutes), 240) : DEFAULT_MINUTES_PER_SESSION,
+    startedOn: format(today, 'yyyy-MM-dd'),
+    followUpOn: format(addDays(today, DEFAULT_FOLLOW_UP_WEEKS * 7), 'yyyy-MM-dd'),
+  };
+}
+
+/** Last assessment on or before the day the plan starts */
+export function findBaselineResult<T extends Pick<ProgressResultRow, 'id' | 'created_at'>>(
+  results: T[],
+  startedOn: string
+): T | null {
+  return [...results]
+    .filter(r => r.created_at.slice(0, 10) <= startedOn)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .pop() ?? null;
+}
+
+export interface InterventionAdherence {
+  held: number;
+  missed: number;
+  minutes: number;
+  expected: number;
+  // Held sessions as a share of those planned so far, capped at 1
+  rate: number | null;
+}
+
+export function summarizeAdherence(
+  plan: Pick<InterventionPlan, 'started_on' | 'follow_up_on' | 'sessions_per_week'>,
+  sessions: Pick<InterventionSession, 'attended' | 'duration_minutes'>[],
+  today: Date = new Date()
+): InterventionAdherence {
+  const attended = sessions.filter(s => s.attended);
+  const end = Math.min(today.getTime(), parseISO(plan.follow_up_on).getTime());
+  const days = Math.max(0, differenceInCalendarDays(end, parseISO(plan.started_on)));
+  const expected = Math.floor((days / 7) * plan.sessions_per_week);
+
+  return {
+    held: attended.length,
+    missed: sessions.length - attended.length,
+    minutes: attended.reduce((sum, s) => sum + s.duration_minutes, 0),
+    expected,
+    rate: expected > 0 ? Math.min(1, attended.length / expected) : null,
+  };
+}
+
+export type FollowUpState = 'scheduled' | 'due' | 'overdue' | 'done';
+
+export interface FollowUpStatus<T> {
+  state: FollowUpState;
+  daysUntil: number;
+  result: T | null;
+}
+
+export function getFollowUpStatus<T extends Pick<ProgressResultRow, 'id' | 'created_at'>>(
+  plan: Pick<InterventionPlan, 'follow_up_on'>,
+  results: T[],
+  today: Date = new Date()
+): FollowUpStatus<T> {
+  const followUp = parseISO(plan.follow_up_on);
+  const windowStart = format(addDays(followUp, -FOLLOW_UP_EARLY_DAYS), 'yyyy-MM-dd');
+  const result = [...results]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .find(r => r.created_at.slice(0, 10) >= windowStart) ?? null;
+  const daysUntil = differenceInCalendarDays(followUp, today);
+
+  if (result) return { state: 'done', daysUntil, result };
+  if (daysUntil > FOLLOW_UP_EARLY_DAYS) return { state: 'scheduled', daysUntil, result };
+  if (daysUntil >= -FOLLOW_UP_GRACE_DAYS) return { state: 'due', daysUntil, result };
+  return { state: 'overdue', daysUntil, result };
+}
+
+/**
+ * Change from the plan's baseline assessment to the latest one since. Null
+ * when the plan has no baseline to compare against.
+ */
+export function getPlanOutcome(
+  plan: Pick<InterventionPlan, 'baseline_result_id'>,
+  results: ProgressResultRow[],
+  student: { grade: string; age: number }
+): MetricProgress[] | null {
+  const baseline = results.find(r => r.id === plan.baseline_result_id);
+  if (!baseline) return null;
+
+  const window = results.filter(r => r.created_at >= baseline.created_at);
+  return analyzeProgress(window, student);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  CLINICAL_BASELINES,
+  compareMetricToNorm,
+  getAvailableGradeLevels,
+  getComprehensiveComparison,
+  getGradeFromAge,
+} from './normativeEngine';
+
+const grade = fc.constantFrom(...getAvailableGradeLevels());
+const metric = fc.constantFrom('wpm', 'fixation_duration', 'regression_count', 'chaos_index');
+const value = fc.double({ min: 0, max: 1000, noNaN: true });
+
+describe('normative comparison', () => {
+  it('places the baseline mean at the 50th percentile', () => {
+    for (const g of getAvailableGradeLevels()) {
+      for (const [name, baseline] of Object.entries(CLINICAL_BASELINES[g])) {
+        const comparison = compareMetricToNorm(baseline.mean, name, g);
+        expect(comparison.percentile).toBe(50);
+        expect(comparison.classification).toBe('average');
+      }
+    }
+  });
+
+  it('maps ages onto grade bands', () => {
+    expect(getGradeFromAge(6)).toBe('K-1');
+    expect(getGradeFromAge(8)).toBe('2-3');
+    expect(getGradeFromAge(10)).toBe('4-5');
+    expect(getGradeFromAge(13)).toBe('6-8');
+    expect(getGradeFromAge(14)).toBe('adult');
+  });
+
+  it('rates a child with many regressions as critical', () => {
+    const result = getComprehensiveComparison({ regressionCount: 20, wpm: 60 }, 9);
+    expect(result.regressionCount.classification).toBe('critical');
+  });
+
+  it('falls back to a neutral comparison for unknown metrics', () => {
+    expect(compareMetricToNorm(42, 'unknown_metric', 'adult').percentile).toBe(50);
+  });
+});
+
+describe('normative invariants', () => {
+  it('keeps percentiles within 1-99', () => {
+    fc.assert(
+      fc.property(value, metric, grade, fc.boolean(), (v, m, g, inverted) => {
+        const { percentile } = compareMetricToNorm(v, m, g, inverted);
+        expect(percentile).toBeGreaterThanOrEqual(1);
+        expect(percentile).toBeLessThanOrEqual(99);
+      })
+    );
+  });
+
+  it('ranks higher values higher, and lower for inverted metrics', () => {
+    fc.assert(
+      fc.property(value, value, metric, grade, (a, b, m, g) => {
+        const [low, high] = a <= b ? [a, b] : [b, a];
+        expect(compareMetricToNorm(high, m, g).percentile).toBeGreaterThanOrEqual(compareMetricToNorm(low, m, g).percentile);
+        expect(compareMetricToNorm(high, m, g, true).percentile).toBeLessThanOrEqual(compareMetricToNorm(low, m, g, true).percentile);
+      })
+    );
+  });
+});
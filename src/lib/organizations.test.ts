@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { accessibleStudentsFilter, buildClassroomOptions, filterStudentsByPlacement, type Classroom, type School } from './organizations';
+
+const schools: School[] = [
+  { id: 's1', organization_id: 'o1', name: 'Hillside', created_at: '' },
+  { id: 's2', organization_id: 'o2', name: 'Brookfield', created_at: '' },
+];
+const classrooms: Classroom[] = [
+  { id: 'c1', school_id: 's1', name: '3B', grade: '2-3', created_at: '' },
+  { id: 'c2', school_id: 's2', name: 'Year 4', grade: null, created_at: '' },
+  { id: 'c3', school_id: 'missing', name: 'Orphan', grade: null, created_at: '' },
+];
+
+describe('organizations', () => {
+  const options = buildClassroomOptions(schools, classrooms);
+
+  it('labels classrooms with their school and drops orphans', () => {
+    expect(options.map(o => o.label)).toEqual(['Brookfield · Year 4', 'Hillside · 3B']);
+    expect(options[1]).toMatchObject({ id: 'c1', organizationId: 'o1' });
+  });
+
+  it('filters students by organization, classroom or missing placement', () => {
+    const students = [
+      { id: 'a', classroom_id: 'c1' },
+      { id: 'b', classroom_id: 'c2' },
+      { id: 'c', classroom_id: null },
+    ];
+    const ids = (organizationId: string, classroomId: string) =>
+      filterStudentsByPlacement(students, { organizationId, classroomId }, options).map(s => s.id);
+
+    expect(ids('all', 'all')).toEqual(['a', 'b', 'c']);
+    expect(ids('o1', 'all')).toEqual(['a']);
+    expect(ids('all', 'c2')).toEqual(['b']);
+    expect(ids('o2', 'unassigned')).toEqual(['c']);
+  });
+
+  it('limits student lists to own students and shared classrooms', () => {
+    expect(accessibleStudentsFilter('u1', [])).toBe('clinician_id.eq.u1');
+    expect(accessibleStudentsFilter('u1', ['c1', 'c2'])).toBe('clinician_id.eq.u1,classroom_id.in.(c1,c2)');
+  });
+});
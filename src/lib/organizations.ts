@@ -0,0 +1,79 @@
+/**
+ * Organizations
+ * Pure helpers for placing students in organizations, schools and
+ * classrooms. Data access lives in useOrganizations.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Organization = Tables<'organizations'>;
+export type School = Tables<'schools'>;
+export type Classroom = Tables<'classrooms'>;
+export type OrganizationRole = Tables<'organization_members'>['role'];
+
+export interface ClassroomOption {
+  id: string;
+  label: string;
+  schoolId: string;
+  organizationId: string;
+}
+
+/** 'all' matches every student, 'unassigned' those without a classroom */
+export interface PlacementFilter {
+  organizationId: string | 'all';
+  classroomId: string | 'all' | 'unassigned';
+}
+
+export const ALL_PLACEMENTS: PlacementFilter = { organizationId: 'all', classroomId: 'all' };
+
+/** Classrooms labelled "School · Class", sorted for pickers */
+export function buildClassroomOptions(schools: School[], classrooms: Classroom[]): ClassroomOption[] {
+  const schoolById = new Map(schools.map(s => [s.id, s]));
+  return classrooms
+    .flatMap((classroom): ClassroomOption[] => {
+      const school = schoolById.get(classroom.school_id);
+      if (!school) return [];
+      return [{
+        id: classroom.id,
+        label: `${school.name} · ${classroom.name}`,
+        schoolId: school.id,
+        organizationId: school.organization_id,
+      }];
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * PostgREST filter for the students a user works with: their own, plus those in
+ * classrooms they share. Spelled out rather than left to RLS, which also lets
+ * platform admins read every student.
+ */
+export function accessibleStudentsFilter(userId: string, classroomIds: string[]): string {
+  const own = `clinician_id.eq.${userId}`;
+  return classroomIds.length > 0 ? `${own},classroom_id.in.(${classroomIds.join(',')})` : own;
+}
+
+export function filterStudentsByPlacement<T extends { classroom_id: string | null }>(
+  students: T[],
+  filter: PlacementFilter,
+  classrooms: ClassroomOption[]
+): T[] {
+  const organizationByClassroom = new Map(classrooms.map(c => [c.id, c.organizationId]));
+  return students.filter(student => {
+    if (filter.classroomId === 'unassigned') {
+      if (student.classroom_id) return false;
+    } else if (filter.classroomId !== 'all' && student.classroom_id !== filter.classroomId) {
+      return false;
+    }
+
+    if (filter.organizationId === 'all' || filter.classroomId === 'unassigned') return true;
+    return student.classroom_id !== null
+      && organizationByClassroom.get(student.classroom_id) === filter.organizationId;
+  });
+}
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  specialist: 'Specialist',
+  teacher: 'Teacher',
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildProgressTimeline,
+  describeAccessExpiry,
+  getHomePracticeSuggestions,
+  getParentLinkStatus,
+  type ParentPortalAssessment,
+} from './parentPortal';
+
+function assessment(id: string, date: string, index: number, overrides: Partial<ParentPortalAssessment> = {}): ParentPortalAssessment {
+  return {
+    id,
+    created_at: date,
+    overall_risk_level: index >= 0.6 ? 'high' : index >= 0.3 ? 'moderate' : 'low',
+    dyslexia_probability_index: index,
+    adhd_probability_index: 0.1,
+    dysgraphia_probability_index: 0.1,
+    voice_fluency_score: 70,
+    voice_prosody_score: 65,
+    ...overrides,
+  };
+}
+
+describe('parent portal', () => {
+  it('orders the timeline oldest first and compares each check with the previous one', () => {
+    const timeline = buildProgressTimeline([
+      assessment('c', '2026-03-01T10:00:00Z', 0.32),
+      assessment('a', '2026-01-01T10:00:00Z', 0.7),
+      assessment('b', '2026-02-01T10:00:00Z', 0.4),
+    ]);
+
+    expect(timeline.map(e => e.id)).toEqual(['a', 'b', 'c']);
+    expect(timeline.map(e => e.trend)).toEqual(['first', 'improving', 'improving']);
+    expect(timeline[0].riskLevel).toBe('high');
+    expect(timeline[2].details).toContain('Reading fluency: 70 out of 100 (developing)');
+  });
+
+  it('suggests practice for the domains the latest check flagged', () => {
+    const ids = (assessments: ParentPortalAssessment[]) =>
+      getHomePracticeSuggestions(assessments, 9).map(s => s.id);
+
+    expect(ids([])).toEqual(['shared-reading']);
+    expect(ids([
+      assessment('old', '2026-01-01T10:00:00Z', 0.1),
+      assessment('new', '2026-02-01T10:00:00Z', 0.5, { voice_fluency_score: 40, adhd_probability_index: 0.45 }),
+    ])).toEqual(['shared-reading', 'sound-games', 'repeated-reading', 'short-sessions']);
+  });
+
+  it('describes when the access link expires', () => {
+    const now = new Date('2026-05-10T12:00:00Z');
+
+    expect(describeAccessExpiry('2026-05-17T12:00:00Z', now)).toMatchObject({ expired: false, daysLeft: 7, expiringSoon: false });
+    expect(describeAccessExpiry('2026-05-11T08:00:00Z', now)).toMatchObject({ expired: false, expiringSoon: true });
+    expect(describeAccessExpiry('2026-05-09T12:00:00Z', now)).toMatchObject({ expired: true, label: 'This link has expired' });
+  });
+
+  it('keeps claimed links active past the code expiry until revoked', () => {
+    const now = new Date('2026-05-10T12:00:00Z');
+    const link = { parent_id: null, expires_at: '2026-05-12T12:00:00Z', revoked_at: null };
+
+    expect(getParentLinkStatus(link, now)).toBe('pending');
+    expect(getParentLinkStatus({ ...link, expires_at: '2026-05-01T12:00:00Z' }, now)).toBe('expired');
+    expect(getParentLinkStatus({ ...link, parent_id: 'p1', expires_at: '2026-05-01T12:00:00Z' }, now)).toBe('claimed');
+    expect(getParentLinkStatus({ ...link, parent_id: 'p1', revoked_at: '2026-05-09T12:00:00Z' }, now)).toBe('revoked');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Parent Portal
+ * Turns the limited assessment data shared through a parent access code into
+ * plain-language progress and home-practice suggestions
+ */
+
+export type ParentRiskLevel = 'low' | 'moderate' | 'high';
+
+// Assessment fields returned by the parent-portal-access `getData` action
+export interface ParentPortalAssessment {
+  id: string;
+  created_at: string;
+  overall_risk_level: ParentRiskLevel | string | null;
+  dyslexia_probability_index: number | null;
+  adhd_probability_index: number | null;
+  dysgraphia_probability_index: number | null;
+  voice_fluency_score: number | null;
+  voice_prosody_score: number | null;
+}
+
+export interface ParentPortalStudent {
+  id: string;
+  name: string;
+  age: number | null;
+  grade: string | null;
+  riskLevel: string | null;
+}
+
+export interface ParentPortalData {
+  student: ParentPortalStudent;
+  assessments: ParentPortalAssessment[];
+  expiresAt?: string;
+}
+
+// A child claimed into a parent account, as returned by `get_parent_children`
+export interface ParentLinkedChild extends ParentPortalData {
+  linkId: string;
+  linkedAt: string;
+}
+
+export type ParentLinkStatus = 'pending' | 'claimed' | 'expired' | 'revoked';
+
+export type ProgressTrend = 'first' | 'improving' | 'steady' | 'needs_attention';
+
+export interface ProgressTimelineEntry {
+  id: string;
+  date: string;
+  riskLevel: ParentRiskLevel;
+  trend: ProgressTrend;
+  headline: string;
+  details: string[];
+}
+
+export type PracticeFocus = 'reading' | 'fluency' | 'attention' | 'writing';
+
+export interface HomePracticeSuggestion {
+  id: string;
+  focus: PracticeFocus;
+  title: string;
+  description: string;
+  minutesPerDay: number;
+}
+
+export interface AccessExpiry {
+  expired: boolean;
+  daysLeft: number;
+  // Two days or less: prompt the parent to ask for a new link
+  expiringSoon: boolean;
+  label: string;
+}
+
+// Index change between sessions that counts as a real change rather than noise
+const TREND_THRESHOLD = 0.05;
+// Index above which a domain gets its own practice suggestion
+const PRACTICE_THRESHOLD = 0.3;
+
+const HEADLINES: Record<ParentRiskLevel, string> = {
+  low: 'Reading skills are developing as expected',
+  moderate: 'Some reading skills would benefit from extra practice',
+  high: 'Extra support is recommended - the teacher will talk you through next steps',
+};
+
+const TREND_DETAILS: Record<Exclude<ProgressTrend, 'first'>, string> = {
+  improving: 'Better than the previous check',
+  steady: 'About the same as the previous check',
+  needs_attention: 'Harder than the previous check - worth keeping an eye on',
+};
+
+function toRiskLevel(level: string | null): ParentRiskLevel {
+  return level === 'high' || level === 'moderate' ? level : 'low';
+}
+
+// Highest of the three indices, the figure the overall risk level follows
+function concernIndex(assessment: ParentPortalAssessment): number {
+  return Math.max(
+    assessment.dyslexia_probability_index ?? 0,
+    assessment.adhd_probability_index ?? 0,
+    assessment.dysgraphia_probability_index ?? 0
+  );
+}
+
+function describeScore(label: string, score: number | null): string | null {
+  if (score === null || score === undefined) return null;
+  const rounded = Math.round(score);
+  const band = rounded >= 75 ? 'strong' : rounded >= 50 ? 'developing' : 'an area to practise';
+  return `${label}: ${rounded} out of 100 (${band})`;
+}
+
+/**
+ * Oldest-first timeline of assessments, each compared with the one before it
+ */
+export function buildProgressTimeline(assessments: ParentPortalAssessment[]): ProgressTimelineEntry[] {
+  const ordered = [...assessments].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  return ordered.map((assessment, index) => {
+    let trend: ProgressTrend = 'first';
+    if (index > 0) {
+      const change = concernIndex(assessment) - concernIndex(ordered[index - 1]);
+      trend = change <= -TREND_THRESHOLD ? 'improving' : change >= TREND_THRESHOLD ? 'needs_attention' : 'steady';
+    }
+
+    const riskLevel = toRiskLevel(assessment.overall_risk_level);
+    const details = [
+      trend === 'first' ? 'First reading check' : TREND_DETAILS[trend],
+      describeScore('Reading fluency', assessment.voice_fluency_score),
+      describeScore('Reading with expression', assessment.voice_prosody_score),
+    ].filter((detail): detail is string => detail !== null);
+
+    return {
+      id: assessment.id,
+      date: assessment.created_at,
+      riskLevel,
+      trend,
+      headline: HEADLINES[riskLevel],
+      details,
+    };
+  });
+}
+
+/**
+ * Short daily activities matched to the most recent assessment
+ */
+export function getHomePracticeSuggestions(
+  assessments: ParentPortalAssessment[],
+  studentAge: number | null = null
+): HomePracticeSuggestion[] {
+  const latest = [...assessments].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )[0];
+  const young = studentAge !== null && studentAge < 8;
+
+  const suggestions: HomePracticeSuggestion[] = [{
+    id: 'shared-reading',
+    focus: 'reading',
+    title: 'Read together every day',
+    description: young
+      ? 'Take turns reading a picture book aloud and talk about what happens next.'
+      : 'Let your child choose a book, read a page each, and chat about the story afterwards.',
+    minutesPerDay: young ? 10 : 15,
+  }];
+
+  if (!latest) return suggestions;
+
+  if ((latest.dyslexia_probability_index ?? 0) >= PRACTICE_THRESHOLD) {
+    suggestions.push({
+      id: 'sound-games',
+      focus: 'reading',
+      title: 'Play with letter sounds',
+      description: young
+        ? 'Play "I spy" with first sounds, or clap the syllables in family names.'
+        : 'Build words from letter tiles or magnets and swap one letter at a time to make new words.',
+      minutesPerDay: 5,
+    });
+  }
+
+  if ((latest.voice_fluency_score ?? 100) < 60) {
+    suggestions.push({
+      id: 'repeated-reading',
+      focus: 'fluency',
+      title: 'Re-read a favourite passage',
+      description: 'Read a short passage aloud first, then have your child read it back two or three times. Praise smooth reading, not speed.',
+      minutesPerDay: 5,
+    });
+  }
+
+  if ((latest.adhd_probability_index ?? 0) >= PRACTICE_THRESHOLD) {
+    suggestions.push({
+      id: 'short-sessions',
+      focus: 'attention',
+      title: 'Keep practice short and regular',
+      description: 'Several short sessions with a movement break in between work better than one long one. A visible timer helps.',
+      minutesPerDay: 10,
+    });
+  }
+
+  if ((latest.dysgraphia_probability_index ?? 0) >= PRACTICE_THRESHOLD) {
+    suggestions.push({
+      id: 'writing-play',
+      focus: 'writing',
+      title: 'Make writing playful',
+      description: young
+        ? 'Trace letters in sand, shaving foam or on a steamy window before using a pencil.'
+        : 'Write a shopping list or a short note together, focusing on comfortable grip and letter spacing.',
+      minutesPerDay: 5,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * When the access link stops working, in words a parent can act on
+ */
+export function describeAccessExpiry(expiresAt: string, now: Date = new Date()): AccessExpiry {
+  const msLeft = new Date(expiresAt).getTime() - now.getTime();
+  const daysLeft = Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+
+  if (msLeft <= 0) {
+    return { expired: true, daysLeft: 0, expiringSoon: false, label: 'This link has expired' };
+  }
+
+  const label = daysLeft <= 1
+    ? 'This link expires within a day'
+    : `This link expires in ${daysLeft} days`;
+  return { expired: false, daysLeft, expiringSoon: daysLeft <= 2, label };
+}
+
+/**
+ * Where an access link stands: unclaimed codes expire, claimed links last
+ * until revoked
+ */
+export function getParentLinkStatus(
+  link: { parent_id: string | null; expires_at: string; revoked_at?: string | null },
+  now: Date = new Date()
+): ParentLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.parent_id) return 'claimed';
+  return new Date(link.expires_at).getTime() <= now.getTime() ? 'expired' : 'pending';
+}
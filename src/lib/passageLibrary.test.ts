@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { getPassageForLanguage } from '@/data/languages';
+import { regionalPassages } from '@/data/regionalPassages';
+import {
+  computeReadability,
+  countSyllables,
+  getAuthoredPassages,
+  getPassageChoices,
+  suggestDifficulty,
+  type LibraryPassage,
+  type ReadingPassageVersion,
+} from './passageLibrary';
+
+const version = (overrides: Partial<ReadingPassageVersion>): ReadingPassageVersion => ({
+  id: 'v1',
+  passage_id: 'p1',
+  version: 1,
+  title: 'Our Garden',
+  text: 'We grow beans.',
+  grade_band: 'K-1',
+  difficulty: 'easy',
+  questions: [],
+  word_count: 3,
+  sentence_count: 1,
+  syllables_per_word: 1,
+  grade_level: 0,
+  change_note: null,
+  status: 'draft',
+  created_by: 'u1',
+  approved_by: null,
+  approved_at: null,
+  created_at: '2026-10-01T00:00:00Z',
+  ...overrides,
+});
+
+const passage = (overrides: Partial<LibraryPassage>): LibraryPassage => ({
+  id: 'p1',
+  language: 'en',
+  created_by: 'u1',
+  archived_at: null,
+  created_at: '2026-10-01T00:00:00Z',
+  versions: [],
+  ...overrides,
+});
+
+describe('passage library', () => {
+  it('counts syllables in Latin and Brahmic scripts', () => {
+    expect(countSyllables('garden')).toBe(2);
+    expect(countSyllables('little')).toBe(2);
+    expect(countSyllables('stone')).toBe(1);
+    // ब-च्चे: the half consonant joins the next akshara
+    expect(countSyllables('बच्चे')).toBe(2);
+    expect(countSyllables('किताब')).toBe(3);
+  });
+
+  it('estimates grade levels per language', () => {
+    const easy = computeReadability('The cat sat. The dog ran. We had fun.', 'en');
+    expect(easy).toMatchObject({ wordCount: 9, sentenceCount: 3, wordsPerSentence: 3 });
+    expect(suggestDifficulty(easy.gradeLevel, '4-5')).toBe('easy');
+
+    // Built-in Hindi passages calibrate the Hindi estimate onto their own grade bands
+    const hindi = regionalPassages.filter(p => p.language === 'hi');
+    const levels = hindi.map(p => computeReadability(p.text, 'hi').gradeLevel!);
+    expect(levels[0]).toBeLessThan(levels[1]);
+    expect(levels[1]).toBeLessThan(levels[2]);
+
+    // Nothing to calibrate Malayalam against yet
+    expect(computeReadability('ഇത് ഒരു പുസ്തകം ആണ്.', 'ml').gradeLevel).toBeNull();
+    expect(suggestDifficulty(null, '2-3')).toBe('medium');
+  });
+
+  it('offers only approved versions of active passages to assessments', () => {
+    const library = getAuthoredPassages([
+      passage({
+        versions: [
+          version({ id: 'v2', version: 2, title: 'Draft edit' }),
+          version({ id: 'v1', status: 'approved', approved_at: '2026-10-02T00:00:00Z' }),
+        ],
+      }),
+      passage({
+        id: 'p2',
+        archived_at: '2026-10-03T00:00:00Z',
+        versions: [version({ id: 'v3', passage_id: 'p2', status: 'approved', grade_band: '2-3' })],
+      }),
+    ]);
+
+    expect(library.map(p => p.versionId)).toEqual(['v1']);
+    expect(getPassageChoices(library, 'en', '1st').map(p => p.title)).toEqual(['Our Garden']);
+    expect(getPassageChoices(library, 'en', '3rd')).toEqual([]);
+    expect(getPassageChoices(library, 'hi', '1st')).toEqual([]);
+  });
+
+  it('keeps the built-in passage unless a library passage is picked', () => {
+    expect(getPassageForLanguage('en', '1st').id).toBe('passage-k-1');
+    expect(getPassageForLanguage('en', '3rd').id).toBe('passage-2-3');
+    expect(getPassageForLanguage('hi', '1st').id).toBe('hindi-k-1');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Passage Library
+ * Readability metrics, difficulty tagging and version selection for
+ * clinician-authored reading passages. Data access lives in usePassageLibrary.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { getLanguage, type LanguageCode } from '@/data/languages';
+import { getGradeBand, type GradeBand, type ReadingPassage } from '@/data/readingPassages';
+
+export type PassageVersionStatus = 'draft' | 'approved' | 'superseded';
+export type PassageDifficulty = ReadingPassage['difficulty'];
+export type QuestionKind = 'literal' | 'inferential' | 'vocabulary';
+
+export interface ComprehensionQuestion {
+  id: string;
+  kind: QuestionKind;
+  prompt: string;
+  answer: string;
+}
+
+export interface ReadingPassageVersion
+  extends Omit<Tables<'reading_passage_versions'>, 'status' | 'difficulty' | 'grade_band' | 'questions'> {
+  status: PassageVersionStatus;
+  difficulty: PassageDifficulty;
+  grade_band: GradeBand;
+  questions: ComprehensionQuestion[];
+}
+
+export interface LibraryPassage extends Omit<Tables<'reading_passages'>, 'language'> {
+  language: LanguageCode;
+  versions: ReadingPassageVersion[];
+}
+
+// An approved version in the shape the assessment reads
+export interface AuthoredPassage extends ReadingPassage {
+  language: LanguageCode;
+  versionId: string;
+  questions: ComprehensionQuestion[];
+}
+
+export const PASSAGE_STATUS_LABELS: Record<PassageVersionStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  superseded: 'Superseded',
+};
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  literal: 'Literal',
+  inferential: 'Inferential',
+  vocabulary: 'Vocabulary',
+};
+
+export const DIFFICULTY_BY_BAND: Record<GradeBand, PassageDifficulty> = {
+  'K-1': 'easy',
+  '2-3': 'medium',
+  '4-5': 'advanced',
+};
+
+export interface ReadabilityMetrics {
+  wordCount: number;
+  sentenceCount: number;
+  syllableCount: number;
+  wordsPerSentence: number;
+  syllablesPerWord: number;
+  // Estimated grade level; null when the language has nothing to calibrate against
+  gradeLevel: number | null;
+}
+
+// Brahmic scripts from Devanagari to Malayalam share one block layout:
+// independent vowels at 0x05-0x14, consonants at 0x15-0x39 (plus nukta forms
+// at 0x58-0x5F), the nukta at 0x3C and the virama at 0x4D
+const INDIC_START = 0x0900;
+const INDIC_END = 0x0d7f;
+const NUKTA = 0x3c;
+const VIRAMA = 0x4d;
+
+const indicOffset = (char: string | undefined, block: number): number | null => {
+  const code = char?.codePointAt(0);
+  return code !== undefined && (code & ~0x7f) === block ? code & 0x7f : null;
+};
+
+// Aksharas: every independent vowel, and every consonant not joined to the next by a virama
+function countAksharas(word: string): number {
+  const chars = Array.from(word);
+  let count = 0;
+  chars.forEach((char, i) => {
+    const code = char.codePointAt(0)!;
+    if (code < INDIC_START || code > INDIC_END) return;
+    const block = code & ~0x7f;
+    const offset = code & 0x7f;
+    if (offset >= 0x05 && offset <= 0x14) {
+      count++;
+    } else if ((offset >= 0x15 && offset <= 0x39) || (offset >= 0x58 && offset <= 0x5f)) {
+      let next = indicOffset(chars[i + 1], block);
+      if (next === NUKTA) next = indicOffset(chars[i + 2], block);
+      if (next !== VIRAMA) count++;
+    }
+  });
+  return count;
+}
+
+// Vowel groups, ignoring a silent final 'e'
+function countLatinSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  const groups = letters.replace(/(?<!l)e$/, '').match(/[aeiouy]+/g) || [];
+  return Math.max(1, groups.length);
+}
+
+export function countSyllables(word: string): number {
+  return /[ऀ-ൿ]/.test(word) ? countAksharas(word) : countLatinSyllables(word);
+}
+
+const fleschKincaid = (wordsPerSentence: number, syllablesPerWord: number) =>
+  0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
+
+const BAND_MIDPOINTS: Record<GradeBand, number> = { 'K-1': 0.5, '2-3': 2.5, '4-5': 4.5 };
+
+function textStatistics(text: string) {
+  const words = text.split(/\s+/).filter(w => /[\p{L}\p{M}]/u.test(w));
+  const sentences = text.split(/[.!?।॥]+/).filter(s => /[\p{L}\p{M}]/u.test(s));
+  const syllableCount = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const wordsPerSentence = sentences.length > 0 ? words.length / sentences.length : 0;
+  const syllablesPerWord = words.length > 0 ? syllableCount / words.length : 0;
+  return { wordCount: words.length, sentenceCount: sentences.length, syllableCount, wordsPerSentence, syllablesPerWord };
+}
+
+const calibrations = new Map<LanguageCode, { slope: number; intercept: number } | null>();
+
+// Flesch-Kincaid is an English formula; other scripts pack more syllables into
+// a word, so their scores are mapped onto grades by a line fitted through the
+// language's built-in grade-banded passages
+function gradeCalibration(language: LanguageCode) {
+  if (language === 'en') return { slope: 1, intercept: 0 };
+  if (calibrations.has(language)) return calibrations.get(language)!;
+
+  const points = (getLanguage(language)?.passages ?? []).map(p => {
+    const stats = textStatistics(p.text);
+    return { x: fleschKincaid(stats.wordsPerSentence, stats.syllablesPerWord), y: BAND_MIDPOINTS[p.grade as GradeBand] };
+  }).filter(p => p.y !== undefined);
+
+  let calibration: { slope: number; intercept: number } | null = null;
+  if (points.length >= 2) {
+    const meanX = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const meanY = points.reduce((s, p) => s + p.y, 0) / points.length;
+    const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+    const sxy = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0);
+    // Harder text must map to a higher grade for the estimate to mean anything
+    if (sxx > 0 && sxy > 0) {
+      const slope = sxy / sxx;
+      calibration = { slope, intercept: meanY - slope * meanX };
+    }
+  }
+  calibrations.set(language, calibration);
+  return calibration;
+}
+
+export function computeReadability(text: string, language: LanguageCode): ReadabilityMetrics {
+  const stats = textStatistics(text);
+  const calibration = stats.wordCount > 0 ? gradeCalibration(language) : null;
+  const gradeLevel = calibration
+    ? Math.min(12, Math.max(0, calibration.slope * fleschKincaid(stats.wordsPerSentence, stats.syllablesPerWord) + calibration.intercept))
+    : null;
+
+  return {
+    ...stats,
+    wordsPerSentence: Math.round(stats.wordsPerSentence * 10) / 10,
+    syllablesPerWord: Math.round(stats.syllablesPerWord * 100) / 100,
+    gradeLevel: gradeLevel === null ? null : Math.round(gradeLevel * 10) / 10,
+  };
+}
+
+/** Grade band a grade-level estimate falls in, halfway between band midpoints */
+export function gradeBandForLevel(gradeLevel: number): GradeBand {
+  if (gradeLevel < 1.5) return 'K-1';
+  if (gradeLevel < 3.5) return '2-3';
+  return '4-5';
+}
+
+/** Difficulty tag suggested for a passage: from its estimate, else its grade band */
+export function suggestDifficulty(gradeLevel: number | null, gradeBand: GradeBand): PassageDifficulty {
+  return DIFFICULTY_BY_BAND[gradeLevel === null ? gradeBand : gradeBandForLevel(gradeLevel)];
+}
+
+/** The approved version, or the newest one while nothing has been approved */
+export function getCurrentVersion<T extends Pick<ReadingPassageVersion, 'status' | 'version'>>(versions: T[]): T | null {
+  const approved = versions.find(v => v.status === 'approved');
+  if (approved) return approved;
+  return versions.reduce<T | null>((latest, v) => (!latest || v.version > latest.version ? v : latest), null);
+}
+
+const toAuthoredPassage = (passage: LibraryPassage, version: ReadingPassageVersion): AuthoredPassage => ({
+  id: `library-${passage.id}`,
+  grade: version.grade_band,
+  title: version.title,
+  text: version.text,
+  wordCount: version.word_count,
+  difficulty: version.difficulty,
+  language: passage.language,
+  versionId: version.id,
+  questions: version.questions,
+});
+
+/** Approved versions of active passages, most recently approved first, ready for passage selection */
+export function getAuthoredPassages(passages: LibraryPassage[]): AuthoredPassage[] {
+  return passages
+    .filter(p => !p.archived_at)
+    .flatMap(p => p.versions
+      .filter(v => v.status === 'approved')
+      .map(v => ({ passage: p, version: v })))
+    .sort((a, b) => (b.version.approved_at ?? '').localeCompare(a.version.approved_at ?? ''))
+    .map(({ passage, version }) => toAuthoredPassage(passage, version));
+}
+
+/**
+ * Specific versions in the shape the assessment reads, whatever their status:
+ * a version pinned for a campaign stays readable after a newer one is approved
+ */
+export function getPinnedPassages(passages: LibraryPassage[], versionIds: string[]): AuthoredPassage[] {
+  return passages.flatMap(p => p.versions
+    .filter(v => versionIds.includes(v.id))
+    .map(v => toAuthoredPassage(p, v)));
+}
+
+/** Approved passages a clinician can pick for a student's session in place of the built-in one */
+export function getPassageChoices(library: AuthoredPassage[], language: LanguageCode, grade: string): AuthoredPassage[] {
+  const band = getGradeBand(grade);
+  return library.filter(p => p.language === language && p.grade === band);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeProgress,
+  linearSlope,
+  minimalDetectableChange,
+  reliableChangeIndex,
+  type ProgressResultRow,
+} from './progressAnalytics';
+
+function row(id: string, date: string, wpm: number, regressions: number): ProgressResultRow {
+  return {
+    id,
+    created_at: `${date}T10:00:00Z`,
+    voice_words_per_minute: wpm,
+    voice_fluency_score: null,
+    eye_regression_count: regressions,
+    eye_avg_fixation_duration: null,
+    eye_chaos_index: null,
+    dyslexia_probability_index: null,
+  };
+}
+
+describe('progressAnalytics', () => {
+  it('computes the Jacobson-Truax index, detectable change and slope', () => {
+    // SD 15, r 0.9: SEdiff = sqrt(2) * 15 * sqrt(0.1) ≈ 6.71
+    expect(reliableChangeIndex(60, 80, 15, 0.9)).toBeCloseTo(2.98, 2);
+    expect(minimalDetectableChange(15, 0.9)).toBeCloseTo(13.15, 2);
+    expect(linearSlope([{ t: 0, value: 1 }, { t: 1, value: 3 }, { t: 2, value: 5 }])).toBe(2);
+    expect(linearSlope([{ t: 1, value: 1 }])).toBeNull();
+  });
+
+  it('gives verdicts only for changes beyond measurement error', () => {
+    const results = [
+      row('a', '2026-01-10', 60, 6),
+      row('b', '2026-03-01', 64, 5),
+      row('c', '2026-05-01', 82, 5),
+    ];
+    const progress = analyzeProgress(results, { grade: '2-3', age: 8 });
+    const wpm = progress.find(p => p.metric.key === 'wordsPerMinute')!;
+    const regressions = progress.find(p => p.metric.key === 'regressionCount')!;
+
+    expect(wpm).toMatchObject({ verdict: 'improved', change: 22, sessions: 3 });
+    expect(wpm.slopePerMonth).toBeGreaterThan(0);
+    expect(regressions.verdict).toBe('unchanged');
+    expect(progress.find(p => p.metric.key === 'chaosIndex')!.verdict).toBe('insufficient');
+  });
+
+  it('uses the last assessment before an intervention as the baseline', () => {
+    const results = [
+      row('a', '2026-01-10', 90, 6),
+      row('b', '2026-03-01', 60, 6),
+      row('c', '2026-05-01', 80, 6),
+    ];
+    const wpm = analyzeProgress(results, { grade: '2-3', age: 8, since: '2026-03-15' })
+      .find(p => p.metric.key === 'wordsPerMinute')!;
+
+    expect(wpm.baseline?.resultId).toBe('b');
+    expect(wpm.latest?.resultId).toBe('c');
+    expect(wpm.verdict).toBe('improved');
+  });
+});
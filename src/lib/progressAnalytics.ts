@@ -0,0 +1,204 @@
+/**
+ * Progress Analytics
+ * Reliable change across a student's assessments. A change only counts as
+ * improvement or decline when it exceeds what measurement error alone would
+ * produce (Jacobson & Truax reliable change index, RCI > 1.96).
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { getBaselineForGrade, getGradeFromAge } from '@/lib/normativeEngine';
+import { normalizeGrade } from '@/lib/studentRoster';
+
+export type ProgressResultRow = Pick<
+  Tables<'diagnostic_results'>,
+  | 'id'
+  | 'created_at'
+  | 'voice_words_per_minute'
+  | 'voice_fluency_score'
+  | 'eye_regression_count'
+  | 'eye_avg_fixation_duration'
+  | 'eye_chaos_index'
+  | 'dyslexia_probability_index'
+>;
+
+export type ProgressAnnotation = Tables<'student_progress_annotations'>;
+
+export type ProgressMetricKey =
+  | 'wordsPerMinute'
+  | 'fluencyScore'
+  | 'regressionCount'
+  | 'fixationDuration'
+  | 'chaosIndex'
+  | 'dyslexiaIndex';
+
+export interface ProgressMetricDefinition {
+  key: ProgressMetricKey;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  // Assumed test-retest reliability; replace with local estimates once available
+  reliability: number;
+  // Grade-level spread comes from the normative baselines where they exist
+  normKey: string | null;
+  fallbackSd: number;
+  decimals: number;
+  read: (row: ProgressResultRow) => number | null;
+}
+
+const numberOrNull = (value: number | null | undefined) =>
+  value === null || value === undefined || Number.isNaN(Number(value)) ? null : Number(value);
+
+export const PROGRESS_METRICS: ProgressMetricDefinition[] = [
+  {
+    key: 'wordsPerMinute', label: 'Words per minute', unit: 'wpm', higherIsBetter: true,
+    reliability: 0.9, normKey: 'wpm', fallbackSd: 20, decimals: 0,
+    read: row => numberOrNull(row.voice_words_per_minute),
+  },
+  {
+    key: 'fluencyScore', label: 'Fluency score', unit: '', higherIsBetter: true,
+    reliability: 0.85, normKey: null, fallbackSd: 15, decimals: 0,
+    read: row => numberOrNull(row.voice_fluency_score),
+  },
+  {
+    key: 'regressionCount', label: 'Regressions', unit: '', higherIsBetter: false,
+    reliability: 0.7, normKey: 'regression_count', fallbackSd: 2, decimals: 0,
+    read: row => numberOrNull(row.eye_regression_count),
+  },
+  {
+    key: 'fixationDuration', label: 'Mean fixation', unit: 'ms', higherIsBetter: false,
+    reliability: 0.8, normKey: 'fixation_duration', fallbackSd: 50, decimals: 0,
+    read: row => numberOrNull(row.eye_avg_fixation_duration),
+  },
+  {
+    key: 'chaosIndex', label: 'Chaos index', unit: '', higherIsBetter: false,
+    reliability: 0.65, normKey: 'chaos_index', fallbackSd: 0.08, decimals: 2,
+    read: row => numberOrNull(row.eye_chaos_index),
+  },
+  {
+    key: 'dyslexiaIndex', label: 'Dyslexia risk', unit: '%', higherIsBetter: false,
+    reliability: 0.75, normKey: null, fallbackSd: 20, decimals: 0,
+    read: row => {
+      const value = numberOrNull(row.dyslexia_probability_index);
+      return value === null ? null : value * 100;
+    },
+  },
+];
+
+export const RELIABLE_CHANGE_Z = 1.96;
+// A slope needs this many sessions before it says anything useful
+export const MIN_SESSIONS_FOR_SLOPE = 3;
+
+export type ProgressVerdict = 'improved' | 'unchanged' | 'worsened' | 'insufficient';
+
+export const PROGRESS_VERDICT_LABELS: Record<ProgressVerdict, string> = {
+  improved: 'Significantly improved',
+  unchanged: 'Unchanged',
+  worsened: 'Significantly worsened',
+  insufficient: 'Not enough data',
+};
+
+/** Standard error of the difference between two scores */
+function standardErrorOfDifference(sd: number, reliability: number): number {
+  return Math.sqrt(2) * sd * Math.sqrt(1 - reliability);
+}
+
+export function reliableChangeIndex(before: number, after: number, sd: number, reliability: number): number {
+  const sDiff = standardErrorOfDifference(sd, reliability);
+  return sDiff === 0 ? 0 : (after - before) / sDiff;
+}
+
+/** Smallest change distinguishable from measurement error at 95% confidence */
+export function minimalDetectableChange(sd: number, reliability: number): number {
+  return RELIABLE_CHANGE_Z * standardErrorOfDifference(sd, reliability);
+}
+
+/** Ordinary least squares slope of value over time */
+export function linearSlope(points: { t: number; value: number }[]): number | null {
+  if (points.length < 2) return null;
+  const meanT = points.reduce((sum, p) => sum + p.t, 0) / points.length;
+  const meanV = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const p of points) {
+    numerator += (p.t - meanT) * (p.value - meanV);
+    denominator += (p.t - meanT) ** 2;
+  }
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+export interface ProgressPoint {
+  resultId: string;
+  date: string;
+  value: number;
+}
+
+export interface MetricProgress {
+  metric: ProgressMetricDefinition;
+  baseline: ProgressPoint | null;
+  latest: ProgressPoint | null;
+  change: number | null;
+  mdc: number;
+  rci: number | null;
+  // Per 30 days, across every session in the window
+  slopePerMonth: number | null;
+  sessions: number;
+  verdict: ProgressVerdict;
+}
+
+export interface AnalyzeProgressOptions {
+  grade: string;
+  age: number;
+  // Compare from the last assessment before this date, e.g. an intervention start
+  since?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function analyzeProgress(results: ProgressResultRow[], { grade, age, since = null }: AnalyzeProgressOptions): MetricProgress[] {
+  const norms = getBaselineForGrade(normalizeGrade(grade) ?? getGradeFromAge(age));
+  const ordered = [...results].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return PROGRESS_METRICS.map(metric => {
+    const sd = (metric.normKey && norms[metric.normKey]?.stdDev) || metric.fallbackSd;
+    const mdc = minimalDetectableChange(sd, metric.reliability);
+    const points = ordered.flatMap((row): ProgressPoint[] => {
+      const value = metric.read(row);
+      return value === null ? [] : [{ resultId: row.id, date: row.created_at, value }];
+    });
+
+    const before = since ? points.filter(p => p.date < since) : [];
+    const baseline = before.length > 0 ? before[before.length - 1] : points[0] ?? null;
+    const window = baseline ? points.filter(p => p.date >= baseline.date) : [];
+    const latest = window.length > 1 ? window[window.length - 1] : null;
+
+    const slopePerDay = window.length >= MIN_SESSIONS_FOR_SLOPE
+      ? linearSlope(window.map(p => ({ t: Date.parse(p.date) / DAY_MS, value: p.value })))
+      : null;
+
+    if (!baseline || !latest) {
+      return {
+        metric, baseline, latest: null, change: null, mdc, rci: null,
+        slopePerMonth: null, sessions: window.length, verdict: 'insufficient',
+      };
+    }
+
+    const change = latest.value - baseline.value;
+    const rci = reliableChangeIndex(baseline.value, latest.value, sd, metric.reliability);
+    const better = metric.higherIsBetter ? rci : -rci;
+    const verdict: ProgressVerdict = better >= RELIABLE_CHANGE_Z
+      ? 'improved'
+      : better <= -RELIABLE_CHANGE_Z ? 'worsened' : 'unchanged';
+
+    return {
+      metric, baseline, latest, change, mdc, rci,
+      slopePerMonth: slopePerDay === null ? null : slopePerDay * 30,
+      sessions: window.length,
+      verdict,
+    };
+  });
+}
+
+export function formatMetricValue(metric: ProgressMetricDefinition, value: number): string {
+  const text = value.toFixed(metric.decimals);
+  return metric.unit === '%' ? `${text}%` : metric.unit ? `${text} ${metric.unit}` : text;
+}
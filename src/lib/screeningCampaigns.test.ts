@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { DiagnosticResult } from '@/types/diagnostic';
+import type { CalibrationValidationResult, CalibrationVerdict } from '@/lib/analytics';
+import type { LibraryPassage, ReadingPassageVersion } from '@/lib/passageLibrary';
+import {
+  buildCampaignQueue,
+  getCampaignPassage,
+  getNextQueueEntry,
+  getScreeningOutcome,
+  summarizeCampaign,
+} from './screeningCampaigns';
+
+function makeValidation(verdict: CalibrationVerdict): CalibrationValidationResult {
+  return {
+    points: [],
+    accuracy: 1,
+    precision: 0.5,
+    worstAccuracy: 1.5,
+    validPointRatio: 1,
+    verdict,
+    reasons: [],
+    thresholds: { warnAccuracy: 1.5, failAccuracy: 3, warnPrecision: 1, failPrecision: 2, minValidPointRatio: 0.6 },
+    pixelsPerDegree: 35,
+    validatedAt: 0,
+  };
+}
+
+function makeResult(overrides: {
+  totalFixations?: number;
+  wordsPerMinute?: number;
+  verdict?: CalibrationVerdict | null;
+  fixationsReassigned?: number;
+  riskLevel?: DiagnosticResult['overallRiskLevel'];
+}): DiagnosticResult {
+  const verdict = overrides.verdict === undefined ? 'pass' : overrides.verdict;
+  return {
+    eyeTracking: {
+      totalFixations: overrides.totalFixations ?? 120,
+      averageFixationDuration: 250,
+      regressionCount: 8,
+      prolongedFixations: 4,
+      chaosIndex: 0.2,
+      fixationIntersectionCoefficient: 0.1,
+    },
+    voice: {
+      wordsPerMinute: overrides.wordsPerMinute ?? 90,
+      pauseCount: 3,
+      averagePauseDuration: 400,
+      phonemicErrors: 1,
+      fluencyScore: 80,
+      prosodyScore: 70,
+    },
+    handwriting: { reversalCount: 0, letterCrowding: 0.1, graphicInconsistency: 0.1, lineAdherence: 0.9 },
+    cognitiveLoad: { averagePupilDilation: 0.1, overloadEvents: 0, stressIndicators: 0 },
+    dyslexiaProbabilityIndex: 0.2,
+    adhdProbabilityIndex: 0.1,
+    dysgraphiaProbabilityIndex: 0.1,
+    overallRiskLevel: overrides.riskLevel ?? 'low',
+    timestamp: new Date(0),
+    sessionId: 'session-1',
+    calibrationValidation: verdict ? makeValidation(verdict) : undefined,
+    driftCorrection: {
+      algorithm: 'warp',
+      fixationCount: 120,
+      fixationsReassigned: overrides.fixationsReassigned ?? 10,
+      meanVerticalShift: 2,
+      maxVerticalShift: 8,
+      regressionCount: 8,
+      rawRegressionCount: 9,
+    },
+  };
+}
+
+describe('screeningCampaigns', () => {
+  it('keeps clean runs and asks for a retest when the data is poor', () => {
+    expect(getScreeningOutcome(makeResult({ riskLevel: 'high' }), 'r1')).toEqual({
+      status: 'completed',
+      riskLevel: 'high',
+      qualityIssues: [],
+    });
+    // Imprecise calibration is still usable
+    expect(getScreeningOutcome(makeResult({ verdict: 'warn' }), 'r1').status).toBe('completed');
+
+    const poor = getScreeningOutcome(makeResult({ totalFixations: 8, verdict: 'fail', fixationsReassigned: 80 }), 'r1');
+    expect(poor.status).toBe('retest');
+    expect(poor.qualityIssues).toEqual([
+      'Calibration failed validation',
+      'Too few fixations recorded',
+      'Heavy gaze drift during reading',
+    ]);
+
+    expect(getScreeningOutcome(makeResult({ verdict: null }), null)).toMatchObject({
+      status: 'retest',
+      qualityIssues: ['Calibration was not checked', 'Result could not be saved'],
+    });
+
+    const demo = makeResult({});
+    demo.calibrationValidation = { ...demo.calibrationValidation!, source: 'synthetic' };
+    expect(getScreeningOutcome(demo, 'r1').qualityIssues).toEqual(['Read by the synthetic reader, not the student']);
+  });
+
+  it('queues by name, serves pending students before retests and summarizes progress', () => {
+    const queue = buildCampaignQueue([{ id: 'b', name: 'Zoe' }, { id: 'a', name: 'Amir' }]);
+    expect(queue).toEqual([{ student_id: 'a', position: 1 }, { student_id: 'b', position: 2 }]);
+
+    const entries = [
+      { id: '1', position: 1, status: 'retest' as const, risk_level: null },
+      { id: '2', position: 2, status: 'completed' as const, risk_level: 'moderate' },
+      { id: '3', position: 3, status: 'pending' as const, risk_level: null },
+      { id: '4', position: 4, status: 'absent' as const, risk_level: null },
+    ];
+    expect(getNextQueueEntry(entries)?.id).toBe('3');
+    expect(getNextQueueEntry(entries.filter(e => e.status !== 'pending'))?.id).toBe('1');
+    expect(summarizeCampaign(entries)).toEqual({
+      total: 4, completed: 1, pending: 1, retest: 1, absent: 1, flagged: 1,
+    });
+  });
+
+  it('reads the pinned library version for the student\'s grade band, even once superseded', () => {
+    const version = (id: string, gradeBand: ReadingPassageVersion['grade_band'], status: ReadingPassageVersion['status']) => ({
+      id, passage_id: 'p1', version: 1, title: `Passage ${id}`, text: 'We grow beans.', grade_band: gradeBand,
+      difficulty: 'easy', questions: [], word_count: 3, sentence_count: 1, syllables_per_word: 1, grade_level: 0,
+      change_note: null, status, created_by: 'u1', approved_by: null, approved_at: null, created_at: '2026-10-01T00:00:00Z',
+    }) as ReadingPassageVersion;
+    const library: LibraryPassage[] = [{
+      id: 'p1', language: 'en', created_by: 'u1', archived_at: null, created_at: '2026-10-01T00:00:00Z',
+      versions: [version('v2', 'K-1', 'approved'), version('v1', 'K-1', 'superseded'), version('v3', '2-3', 'approved')],
+    }];
+    const campaign = { passage_language: 'en', passage_version_ids: ['v1'] };
+
+    expect(getCampaignPassage(campaign, library, '1st')?.versionId).toBe('v1');
+    // No pinned passage for this band: the built-in one is read
+    expect(getCampaignPassage(campaign, library, '3rd')).toBeNull();
+    expect(getCampaignPassage({ ...campaign, passage_language: 'hi' }, library, '1st')).toBeNull();
+  });
+});
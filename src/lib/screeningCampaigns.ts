@@ -0,0 +1,132 @@
+/**
+ * Screening Campaigns
+ * Queue order, per-run data quality and progress summaries for class-wide
+ * screening. Data access lives in useScreeningCampaigns.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { DiagnosticResult } from '@/types/diagnostic';
+import { isClinicalGrade } from '@/lib/analytics';
+import { getAssessmentLanguage } from '@/data/languages';
+import { getPassageChoices, getPinnedPassages, type AuthoredPassage, type LibraryPassage } from '@/lib/passageLibrary';
+
+export type ScreeningCampaign = Tables<'screening_campaigns'>;
+export type CampaignEntryStatus = 'pending' | 'completed' | 'retest' | 'absent';
+
+export interface CampaignEntry extends Omit<Tables<'screening_campaign_students'>, 'status'> {
+  status: CampaignEntryStatus;
+  student: { id: string; name: string; age: number; grade: string };
+}
+
+export interface ScreeningQualityConfig {
+  minFixations: number;
+  // Reading aloud below this rate means the microphone caught little or nothing
+  minWordsPerMinute: number;
+  // Share of fixations drift correction had to move to another line
+  maxReassignedRatio: number;
+}
+
+export const DEFAULT_SCREENING_QUALITY: ScreeningQualityConfig = {
+  minFixations: 20,
+  minWordsPerMinute: 5,
+  maxReassignedRatio: 0.5,
+};
+
+export interface ScreeningOutcome {
+  status: 'completed' | 'retest';
+  riskLevel: DiagnosticResult['overallRiskLevel'];
+  qualityIssues: string[];
+}
+
+/** Reasons a run's data is too poor to keep as the student's screening */
+export function assessScreeningQuality(
+  result: DiagnosticResult,
+  config: ScreeningQualityConfig = DEFAULT_SCREENING_QUALITY
+): string[] {
+  const issues: string[] = [];
+  if (!result.calibrationValidation) {
+    issues.push('Calibration was not checked');
+  } else if (result.calibrationValidation.source === 'synthetic') {
+    issues.push('Read by the synthetic reader, not the student');
+  } else if (!isClinicalGrade(result.calibrationValidation)) {
+    issues.push('Calibration failed validation');
+  }
+  if (result.eyeTracking.totalFixations < config.minFixations) {
+    issues.push('Too few fixations recorded');
+  }
+  if (result.voice.wordsPerMinute < config.minWordsPerMinute) {
+    issues.push('Little or no reading aloud captured');
+  }
+  const drift = result.driftCorrection;
+  if (drift && drift.fixationCount > 0 && drift.fixationsReassigned / drift.fixationCount > config.maxReassignedRatio) {
+    issues.push('Heavy gaze drift during reading');
+  }
+  return issues;
+}
+
+/** A run whose result wasn't saved has nothing to link to the entry, so it is retested */
+export function getScreeningOutcome(
+  result: DiagnosticResult,
+  diagnosticResultId: string | null,
+  config: ScreeningQualityConfig = DEFAULT_SCREENING_QUALITY
+): ScreeningOutcome {
+  const qualityIssues = assessScreeningQuality(result, config);
+  if (!diagnosticResultId) {
+    qualityIssues.push('Result could not be saved');
+  }
+  return {
+    status: qualityIssues.length > 0 ? 'retest' : 'completed',
+    riskLevel: result.overallRiskLevel,
+    qualityIssues,
+  };
+}
+
+/** Completed screenings at moderate or high risk */
+export function isFlagged(entry: Pick<CampaignEntry, 'status' | 'risk_level'>): boolean {
+  return entry.status === 'completed' && (entry.risk_level === 'high' || entry.risk_level === 'moderate');
+}
+
+/** Students not yet screened go first, then those waiting for a retest */
+export function getNextQueueEntry<T extends Pick<CampaignEntry, 'status' | 'position'>>(entries: T[]): T | null {
+  const byPosition = [...entries].sort((a, b) => a.position - b.position);
+  return byPosition.find(e => e.status === 'pending')
+    ?? byPosition.find(e => e.status === 'retest')
+    ?? null;
+}
+
+/** The campaign's library passage for a student's grade, or null to read the built-in one */
+export function getCampaignPassage(
+  campaign: Pick<ScreeningCampaign, 'passage_language' | 'passage_version_ids'>,
+  library: LibraryPassage[],
+  grade: string
+): AuthoredPassage | null {
+  const pinned = getPinnedPassages(library, campaign.passage_version_ids ?? []);
+  return getPassageChoices(pinned, getAssessmentLanguage(campaign.passage_language), grade)[0] ?? null;
+}
+
+export interface CampaignSummary {
+  total: number;
+  completed: number;
+  pending: number;
+  retest: number;
+  absent: number;
+  flagged: number;
+}
+
+export function summarizeCampaign(entries: Pick<CampaignEntry, 'status' | 'risk_level'>[]): CampaignSummary {
+  return {
+    total: entries.length,
+    completed: entries.filter(e => e.status === 'completed').length,
+    pending: entries.filter(e => e.status === 'pending').length,
+    retest: entries.filter(e => e.status === 'retest').length,
+    absent: entries.filter(e => e.status === 'absent').length,
+    flagged: entries.filter(isFlagged).length,
+  };
+}
+
+/** Queue positions in alphabetical order, so the class can line up by name */
+export function buildCampaignQueue(students: { id: string; name: string }[]): { student_id: string; position: number }[] {
+  return [...students]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((student, index) => ({ student_id: student.id, position: index + 1 }));
+}
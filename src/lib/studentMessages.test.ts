@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countUnreadByThread,
+  getReadReceipt,
+  parseMessageAttachments,
+} from './studentMessages';
+
+describe('student messages', () => {
+  const messages = [
+    { id: 'm1', thread_id: 't1', sender_id: 'clinician' },
+    { id: 'm2', thread_id: 't1', sender_id: 'parent' },
+    { id: 'm3', thread_id: 't2', sender_id: 'clinician' },
+  ];
+  const reads = [
+    { message_id: 'm1', user_id: 'parent', read_at: '2026-05-10T12:00:00Z' },
+    { message_id: 'm2', user_id: 'parent', read_at: '2026-05-10T12:00:00Z' },
+  ];
+
+  it('marks a message read only when someone other than the sender opened it', () => {
+    expect(getReadReceipt(messages[0], reads)).toBe('read');
+    expect(getReadReceipt(messages[1], reads)).toBe('sent');
+    expect(getReadReceipt(messages[2], reads)).toBe('sent');
+  });
+
+  it('counts unread messages from other participants per thread', () => {
+    expect(countUnreadByThread(messages, reads, 'parent')).toEqual({ t2: 1 });
+    expect(countUnreadByThread(messages, reads, 'clinician')).toEqual({ t1: 1 });
+  });
+
+  it('drops malformed attachments', () => {
+    expect(parseMessageAttachments(null)).toEqual([]);
+    expect(parseMessageAttachments([
+      { kind: 'assessment_report', diagnosticResultId: 'r1', createdAt: '2026-05-01T10:00:00Z', riskLevel: 'moderate' },
+      { kind: 'assessment_report' },
+      { kind: 'video', url: 'x' },
+    ])).toEqual([
+      { kind: 'assessment_report', diagnosticResultId: 'r1', createdAt: '2026-05-01T10:00:00Z', riskLevel: 'moderate' },
+    ]);
+  });
+});
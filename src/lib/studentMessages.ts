@@ -0,0 +1,85 @@
+/**
+ * Student Messages
+ * Pure helpers for the clinician–parent message threads: attachment parsing,
+ * read receipts and unread counts. Data access lives in useStudentMessages.
+ */
+
+export interface AssessmentReportAttachment {
+  kind: 'assessment_report';
+  diagnosticResultId: string;
+  createdAt: string;
+  riskLevel: string | null;
+}
+
+export type MessageAttachment = AssessmentReportAttachment;
+
+export interface StudentMessage {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string;
+  attachments: MessageAttachment[];
+  created_at: string;
+}
+
+export interface StudentMessageRead {
+  message_id: string;
+  user_id: string;
+  read_at: string;
+}
+
+export interface StudentMessageThread {
+  id: string;
+  student_id: string;
+  subject: string;
+  created_by: string;
+  created_at: string;
+  last_message_at: string;
+}
+
+export type ReadReceipt = 'sent' | 'read';
+
+/** Keep only well-formed attachments from the stored JSON */
+export function parseMessageAttachments(value: unknown): MessageAttachment[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): MessageAttachment[] => {
+    if (!item || typeof item !== 'object') return [];
+    const raw = item as Record<string, unknown>;
+    if (raw.kind !== 'assessment_report' || typeof raw.diagnosticResultId !== 'string') return [];
+    return [{
+      kind: 'assessment_report',
+      diagnosticResultId: raw.diagnosticResultId,
+      createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+      riskLevel: typeof raw.riskLevel === 'string' ? raw.riskLevel : null,
+    }];
+  });
+}
+
+/** A message counts as read once anyone other than its sender has opened it */
+export function getReadReceipt(message: Pick<StudentMessage, 'id' | 'sender_id'>, reads: StudentMessageRead[]): ReadReceipt {
+  return reads.some(r => r.message_id === message.id && r.user_id !== message.sender_id) ? 'read' : 'sent';
+}
+
+/** Messages from other participants that the user has not opened yet */
+export function getUnreadMessageIds(
+  messages: Pick<StudentMessage, 'id' | 'sender_id'>[],
+  reads: Pick<StudentMessageRead, 'message_id' | 'user_id'>[],
+  userId: string
+): string[] {
+  const readIds = new Set(reads.filter(r => r.user_id === userId).map(r => r.message_id));
+  return messages.filter(m => m.sender_id !== userId && !readIds.has(m.id)).map(m => m.id);
+}
+
+/** Unread counts per thread, for the thread list */
+export function countUnreadByThread(
+  messages: Pick<StudentMessage, 'id' | 'thread_id' | 'sender_id'>[],
+  reads: Pick<StudentMessageRead, 'message_id' | 'user_id'>[],
+  userId: string
+): Record<string, number> {
+  const unread = new Set(getUnreadMessageIds(messages, reads, userId));
+  const counts: Record<string, number> = {};
+  for (const message of messages) {
+    if (unread.has(message.id)) counts[message.thread_id] = (counts[message.thread_id] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRosterExport,
+  guessColumnMapping,
+  parseCsv,
+  toCsv,
+  validateRoster,
+  type ExistingStudent,
+} from './studentRoster';
+
+const today = new Date('2026-10-19T00:00:00Z');
+
+describe('studentRoster', () => {
+  it('parses quoted CSV and escapes exports against formula injection', () => {
+    const rows = parseCsv('\uFEFFName,Notes\r\n"Lee, Ana","said ""hi""\nthen left"\r\n\r\n');
+    expect(rows).toEqual([['Name', 'Notes'], ['Lee, Ana', 'said "hi"\nthen left']]);
+    expect(toCsv([['=HYPERLINK("x")', 7, null]])).toBe(`"'=HYPERLINK(""x"")",7,`);
+  });
+
+  it('previews creates, updates, unchanged rows and validation errors', () => {
+    const [header, ...rows] = parseCsv([
+      'Student Name,DOB,Age,Grade,Class',
+      'Amir Khan,2018-03-02,,Grade 2,3B',
+      'Bea Lopez,02/05/2017,9,3rd,',
+      'Cal Ortiz,2016-01-10,10,4-5,',
+      'amir  khan,2018-03-02,,2,',
+      'Dee,2019-02-30,,1,',
+      'Eli,2010-04-04,,K,',
+    ].join('\n'));
+    const mapping = guessColumnMapping(header);
+    expect(mapping).toMatchObject({ name: 0, date_of_birth: 1, age: 2, grade: 3, classroom: 4, notes: null });
+
+    const existing: ExistingStudent[] = [
+      { id: 'b', name: 'Bea Lopez', age: 9, grade: '2-3', date_of_birth: '2017-05-02', notes: null, classroom_id: null },
+      { id: 'c', name: 'Cal Ortiz', age: 10, grade: '2-3', date_of_birth: '2016-01-10', notes: 'keep', classroom_id: null },
+    ];
+    const classrooms = [{ id: 'c1', label: 'Hillside · 3B', schoolId: 's1', organizationId: 'o1' }];
+    const preview = validateRoster(rows, mapping, { existing, classrooms, dateFormat: 'dmy', today });
+
+    expect(preview.rows.map(r => r.action)).toEqual(['create', 'unchanged', 'update', 'error', 'error', 'error']);
+    expect(preview.rows[0].student).toMatchObject({ age: 8, grade: '2-3', classroom_id: 'c1' });
+    expect(preview.rows[2]).toMatchObject({ existingId: 'c', changes: ['grade'] });
+    expect(preview.rows[3].errors).toEqual(['Duplicate of line 2']);
+    expect(preview.rows[4].errors[0]).toMatch(/not a valid date/);
+    expect(preview.rows[5].errors).toEqual(['Age 16 is implausible for grade K-1']);
+    expect(preview.counts).toEqual({ create: 1, update: 1, unchanged: 1, error: 3 });
+  });
+
+  it('matches students saved without a date of birth by name', () => {
+    const [header, ...rows] = parseCsv([
+      'Name,DOB,Grade',
+      'Fay Moss,2018-06-01,2',
+      'Fay Moss,2017-01-09,3',
+    ].join('\n'));
+    const existing: ExistingStudent[] = [
+      { id: 'f', name: 'Fay Moss', age: 8, grade: '2-3', date_of_birth: null, notes: null, classroom_id: null },
+    ];
+    const preview = validateRoster(rows, guessColumnMapping(header), { existing, today });
+
+    expect(preview.rows[0]).toMatchObject({ action: 'update', existingId: 'f', changes: ['date_of_birth'] });
+    expect(preview.rows[0].warnings[0]).toMatch(/by name only/);
+    expect(preview.rows[1].errors).toEqual(['Matches the same existing student as line 2']);
+  });
+
+  it('exports the latest risk and assessment count under re-importable headers', () => {
+    const [header, row] = buildRosterExport([{
+      id: 'a', name: 'Amir', age: 8, grade: '2-3', date_of_birth: null, notes: null, classroom_id: 'c1',
+      risk_level: null,
+      assessments: [
+        { overall_risk_level: 'high', created_at: '2026-01-01T10:00:00Z' },
+        { overall_risk_level: 'low', created_at: '2026-09-01T10:00:00Z' },
+      ],
+    }], new Map([['c1', 'Hillside · 3B']]));
+
+    expect(guessColumnMapping(header.map(String))).toMatchObject({ name: 0, date_of_birth: 1, classroom: 4 });
+    expect(row).toEqual(['Amir', null, 8, '2-3', 'Hillside · 3B', null, 'low', 2, '2026-09-01']);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * Student Roster
+ * CSV parsing, column mapping, validation and export for bulk roster
+ * import. Rows are matched to existing students by name plus date of birth
+ * so importing the same file twice updates instead of duplicating; students
+ * saved without a date of birth are matched by name alone. Data access lives
+ * in useStudentRoster.
+ */
+
+import { differenceInYears, isValid, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ClassroomOption } from '@/lib/organizations';
+
+export const ROSTER_FIELDS = ['name', 'date_of_birth', 'age', 'grade', 'classroom', 'notes'] as const;
+export type RosterField = typeof ROSTER_FIELDS[number];
+
+/** Column index for each field, or null when the file has no such column */
+export type ColumnMapping = Record<RosterField, number | null>;
+
+export const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  name: 'Name',
+  date_of_birth: 'Date of birth',
+  age: 'Age',
+  grade: 'Grade',
+  classroom: 'Class',
+  notes: 'Notes',
+};
+
+const HEADER_SYNONYMS: Record<RosterField, string[]> = {
+  name: ['name', 'student', 'student name', 'pupil', 'pupil name', 'full name'],
+  date_of_birth: ['date of birth', 'dob', 'birth date', 'birthdate', 'birthday'],
+  age: ['age'],
+  grade: ['grade', 'grade level', 'year', 'year group'],
+  classroom: ['class', 'classroom', 'homeroom', 'form'],
+  notes: ['notes', 'note', 'comments'],
+};
+
+// Grade bands used across the app, with the ages usually found in them
+export const GRADE_BANDS: Record<string, [number, number]> = {
+  'K-1': [5, 7],
+  '2-3': [7, 9],
+  '4-5': [9, 11],
+  '6-8': [11, 14],
+};
+
+export const MIN_STUDENT_AGE = 3;
+export const MAX_STUDENT_AGE = 25;
+
+export type DateFormat = 'ymd' | 'dmy' | 'mdy';
+
+export type ExistingStudent = Pick<
+  Tables<'students'>,
+  'id' | 'name' | 'age' | 'grade' | 'date_of_birth' | 'notes' | 'classroom_id'
+>;
+
+export interface RosterStudent {
+  name: string;
+  age: number;
+  grade: string;
+  date_of_birth: string | null;
+  notes: string | null;
+  classroom_id: string | null;
+}
+
+export type RosterAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface RosterPreviewRow {
+  // 1-based line in the file, header included, so users can find the row
+  line: number;
+  name: string;
+  action: RosterAction;
+  student: RosterStudent | null;
+  existingId: string | null;
+  changes: RosterField[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RosterPreview {
+  rows: RosterPreviewRow[];
+  counts: Record<RosterAction, number>;
+}
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line endings */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows
+    .map(row => row.map(cell => {
+      if (cell === null) return '';
+      if (typeof cell === 'number') return String(cell);
+      const safe = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+      return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    }).join(','))
+    .join('\r\n');
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = Object.fromEntries(ROSTER_FIELDS.map(f => [f, null])) as ColumnMapping;
+  for (const field of ROSTER_FIELDS) {
+    const index = normalized.findIndex(h => HEADER_SYNONYMS[field].includes(h));
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+export function normalizeStudentName(name: string): string {
+  return name.normalize('NFC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function rosterKey(name: string, dateOfBirth: string | null): string {
+  return `${normalizeStudentName(name)}|${dateOfBirth ?? ''}`;
+}
+
+/** ISO date for a cell in the given order, or null when it is not a real date */
+export function parseRosterDate(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(trimmed);
+  const parts = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+
+  let year: string, month: string, day: string;
+  if (iso) {
+    [, year, month, day] = iso;
+  } else if (parts && format !== 'ymd') {
+    [, day, month, year] = parts;
+    if (format === 'mdy') [day, month] = [month, day];
+  } else {
+    return null;
+  }
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = parseISO(date);
+  // parseISO rolls 2015-02-30 over, so compare the round trip
+  return isValid(parsed) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+/** Maps "3", "Grade 3", "3rd", "Year 4" or "K" onto the app's grade bands */
+export function normalizeGrade(value: string): string | null {
+  const trimmed = value.trim();
+  if (GRADE_BANDS[trimmed]) return trimmed;
+  if (/^(k|kg|kindergarten|reception)$/i.test(trimmed)) return 'K-1';
+
+  const match = /^(?:grade|year|gr\.?|y)?\s*(\d{1,2})(?:st|nd|rd|th)?(?:\s*grade)?$/i.exec(trimmed);
+  if (!match) return null;
+  const grade = Number(match[1]);
+  if (grade <= 1) return 'K-1';
+  if (grade <= 3) return '2-3';
+  if (grade <= 5) return '4-5';
+  if (grade <= 8) return '6-8';
+  return null;
+}
+
+function resolveClassroom(value: string, classrooms: ClassroomOption[]): ClassroomOption | null {
+  const wanted = value.trim().toLowerCase();
+  const byLabel = classrooms.find(c => c.label.toLowerCase() === wanted);
+  if (byLabel) return byLabel;
+  // Plain class names are accepted when only one school has that class
+  const byName = classrooms.filter(c => c.label.split(' · ').pop()?.toLowerCase() === wanted);
+  return byName.length === 1 ? byName[0] : null;
+}
+
+interface ValidateRosterOptions {
+  existing: ExistingStudent[];
+  classrooms?: ClassroomOption[];
+  dateFormat?: DateFormat;
+  today?: Date;
+}
+
+/**
+ * Dry run of an import. Nothing is written; each row says whether it would
+ * create a student, update one, leave one as it is, or cannot be imported.
+ * Empty optional cells never clear existing values.
+ */
+export function validateRoster(
+  rows: string[][],
+  mapping: ColumnMapping,
+  { existing, classrooms = [], dateFormat = 'ymd', today = new Date() }: ValidateRosterOptions
+): RosterPreview {
+  const existingByKey = new Map<string, ExistingStudent[]>();
+  for (const student of existing) {
+    const key = rosterKey(student.name, student.date_of_birth);
+    existingByKey.set(key, [...(existingByKey.get(key) ?? []), student]);
+  }
+  const seenKeys = new Map<string, number>();
+  // Line that claimed each student matched by name alone
+  const nameOnlyClaims = new Map<string, number>();
+
+  const previewRows = rows.map((cells, index): RosterPreviewRow => {
+    const line = index + 2;
+    const cell = (field: RosterField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = cell('name').replace(/\s+/g, ' ');
+    if (!name) errors.push('Name is missing');
+    else if (name.length > 200) errors.push('Name is longer than 200 characters');
+
+    let dateOfBirth: string | null = null;
+    if (cell('date_of_birth')) {
+      dateOfBirth = parseRosterDate(cell('date_of_birth'), dateFormat);
+      if (!dateOfBirth) errors.push(`"${cell('date_of_birth')}" is not a valid date of birth`);
+      else if (parseISO(dateOfBirth) > today) errors.push('Date of birth is in the future');
+    }
+
+    const ageFromBirth = dateOfBirth ? differenceInYears(today, parseISO(dateOfBirth)) : null;
+    let age = ageFromBirth;
+    const statedAge = cell('age');
+    if (statedAge) {
+      const stated = Number(statedAge);
+      if (!Number.isInteger(stated)) {
+        errors.push(`"${statedAge}" is not a whole number of years`);
+      } else if (ageFromBirth !== null && Math.abs(stated - ageFromBirth) > 1) {
+        errors.push(`Age ${stated} does not match the date of birth (${ageFromBirth})`);
+      } else {
+        age = age ?? stated;
+      }
+    }
+    if (age === null) {
+      if (!statedAge && !cell('date_of_birth')) errors.push('Age or date of birth is required');
+    } else if (age < MIN_STUDENT_AGE || age > MAX_STUDENT_AGE) {
+      errors.push(`Age ${age} is outside ${MIN_STUDENT_AGE}-${MAX_STUDENT_AGE}`);
+    }
+
+    const rawGrade = cell('grade');
+    let grade: string | null = null;
+    if (!rawGrade) {
+      errors.push('Grade is missing');
+    } else {
+      grade = normalizeGrade(rawGrade);
+      if (!grade) {
+        if (rawGrade.length > 20) errors.push('Grade is longer than 20 characters');
+        else warnings.push(`"${rawGrade}" is not a known grade; kept as written`);
+        grade = rawGrade;
+      }
+    }
+
+    const band = grade ? GRADE_BANDS[grade] : undefined;
+    if (band && age !== null) {
+      const [youngest, oldest] = band;
+      if (age < youngest - 2 || age > oldest + 2) {
+        errors.push(`Age ${age} is implausible for grade ${grade}`);
+      } else if (age < youngest || age > oldest) {
+        warnings.push(`Age ${age} is unusual for grade ${grade}`);
+      }
+    }
+
+    let classroomId: string | null = null;
+    if (cell('classroom')) {
+      const classroom = resolveClassroom(cell('classroom'), classrooms);
+      if (classroom) classroomId = classroom.id;
+      else warnings.push(`Class "${cell('classroom')}" was not found; placement left unchanged`);
+    }
+
+    const notes = cell('notes') || null;
+
+    let existingId: string | null = null;
+    let changes: RosterField[] = [];
+    if (name) {
+      const key = rosterKey(name, dateOfBirth);
+      const firstLine = seenKeys.get(key);
+      if (firstLine !== undefined) {
+        errors.push(`Duplicate of line ${firstLine}`);
+      } else {
+        seenKeys.set(key, line);
+      }
+
+      let matches = existingByKey.get(key) ?? [];
+      // Students added before dates of birth were recorded only have a name to match on
+      const byNameOnly = matches.length === 0 && dateOfBirth !== null;
+      if (byNameOnly) matches = existingByKey.get(rosterKey(name, null)) ?? [];
+
+      if (matches.length > 1) {
+        errors.push('Matches more than one existing student');
+      } else if (matches.length === 1 && byNameOnly && nameOnlyClaims.has(matches[0].id)) {
+        errors.push(`Matches the same existing student as line ${nameOnlyClaims.get(matches[0].id)}`);
+      } else if (matches.length === 1 && errors.length === 0) {
+        const current = matches[0];
+        existingId = current.id;
+        if (byNameOnly) {
+          nameOnlyClaims.set(current.id, line);
+          warnings.push('Matched an existing student by name only; their date of birth will be added');
+        }
+        changes = [
+          byNameOnly && 'date_of_birth',
+          age !== current.age && 'age',
+          grade !== current.grade && 'grade',
+          notes !== null && notes !== current.notes && 'notes',
+          classroomId !== null && classroomId !== current.classroom_id && 'classroom',
+        ].filter(Boolean) as RosterField[];
+      }
+    }
+
+    const action: RosterAction = errors.length > 0
+      ? 'error'
+      : existingId === null ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+
+    return {
+      line,
+      name,
+      action,
+      student: action === 'error'
+        ? null
+        : { name, age: age!, grade: grade!, date_of_birth: dateOfBirth, notes, classroom_id: classroomId },
+      existingId,
+      changes,
+      errors,
+      warnings,
+    };
+  });
+
+  const counts: Record<RosterAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+  for (const row of previewRows) counts[row.action]++;
+  return { rows: previewRows, counts };
+}
+
+export interface ExportStudent extends ExistingStudent {
+  risk_level: string | null;
+  assessments: { overall_risk_level: string; created_at: string }[];
+}
+
+/** Export rows use the import headers, so an exported file can be re-imported */
+export function buildRosterExport(
+  students: ExportStudent[],
+  classroomLabels: Map<string, string>
+): (string | number | null)[][] {
+  const header = [
+    ...ROSTER_FIELDS.map(f => ROSTER_FIELD_LABELS[f]),
+    'Latest risk level',
+    'Assessments',
+    'Last assessed',
+  ];
+
+  const rows = [...students]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(student => {
+      const latest = [...student.assessments].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+      return [
+        student.name,
+        student.date_of_birth,
+        student.age,
+        student.grade,
+        student.classroom_id ? classroomLabels.get(student.classroom_id) ?? null : null,
+        student.notes,
+        latest?.overall_risk_level ?? student.risk_level,
+        student.assessments.length,
+        latest ? latest.created_at.slice(0, 10) : null,
+      ];
+    });
+
+  return [header, ...rows];
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildGoldenLayout } from '@/test/gazeTraces';
+import type { PassageLayout } from '@/lib/analytics';
+import { createSyntheticTobiiAdapter, type TobiiGazeData } from './tobiiAdapter';
+
+// Collects what a synthetic adapter emits over `ms` of fake time
+async function record(getLayout: () => PassageLayout, ms: number) {
+  const adapter = createSyntheticTobiiAdapter({ getLayout });
+  const gaze: TobiiGazeData[] = [];
+  adapter.onGazeData(data => gaze.push(data));
+  await adapter.connect();
+  await adapter.startTracking();
+  vi.advanceTimersByTime(ms);
+  adapter.stopTracking();
+  return gaze;
+}
+
+describe('synthetic Tobii adapter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('replays the same pupil sizes for the same seed', async () => {
+    const layout = buildGoldenLayout();
+    const first = await record(() => layout, 2000);
+    vi.setSystemTime(0);
+    const second = await record(() => layout, 2000);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second.map(g => g.leftPupilDiameter)).toEqual(first.map(g => g.leftPupilDiameter));
+  });
+
+  it('keeps reading the first layout when the layout changes', async () => {
+    const layout = buildGoldenLayout();
+    const unchanged = await record(() => layout, 2000);
+
+    vi.setSystemTime(0);
+    const shifted = { ...layout, words: layout.words.map(w => ({ ...w, y: w.y + 200 })) };
+    let current: PassageLayout = layout;
+    setTimeout(() => (current = shifted), 1000);
+    const resized = await record(() => current, 2000);
+
+    expect(resized).toEqual(unchanged);
+  });
+});
@@ -5,6 +5,14 @@
  */
 
 import { logger } from '@/lib/logger';
+import {
+  DEFAULT_SYNTHETIC_READER_CONFIG,
+  generateSyntheticReading,
+  seededRandom,
+  type PassageLayout,
+  type SyntheticGazeSample,
+  type SyntheticReaderConfig,
+} from '@/lib/analytics';
 
 export interface TobiiConfig {
   websocketUrl: string;
@@ -378,6 +386,16 @@ class TobiiAdapterImpl implements TobiiAdapter {
   }
 }
 
+// Feature detection for Tobii availability
+export function isTobiiAvailable(): boolean {
+  // Check if running in a context where Tobii Pro SDK server might be available
+  // This would typically check for a local WebSocket server or SDK presence
+  if (typeof window === 'undefined') return false;
+  
+  // Check for Tobii Pro SDK indicator (set by local SDK installation)
+  return Boolean((window as any).__TOBII_PRO_SDK_AVAILABLE__);
+}
+
 // Factory function
 export function createTobiiAdapter(config: TobiiConfig): TobiiAdapter {
   return new TobiiAdapterImpl(config);
@@ -455,3 +473,122 @@ export function createSimulatedTobiiAdapter(): TobiiAdapter {
     isConnected() { return connected; },
   };
 }
+
+export interface SyntheticTobiiOptions {
+  // Passage the reader reads; until one is available the adapter emits nothing
+  getLayout: () => PassageLayout | null;
+  reader?: Partial<SyntheticReaderConfig>;
+  // Re-read each new layout (e.g. after a resize) from its first line; by
+  // default the first reading plays out on the layout it started with
+  rereadOnLayoutChange?: boolean;
+}
+
+// Synthetic reader backend: replays a generated reading of the current passage in real time
+export function createSyntheticTobiiAdapter(options: SyntheticTobiiOptions): TobiiAdapter {
+  const reader = { ...DEFAULT_SYNTHETIC_READER_CONFIG, ...options.reader };
+  let connected = false;
+  let intervalId: NodeJS.Timeout | null = null;
+  let layout: PassageLayout | null = null;
+  let samples: SyntheticGazeSample[] = [];
+  let next = 0;
+  let passes = 0;
+  // Pupil sizes draw from their own stream, seeded per pass like the gaze
+  let pupilRandom = seededRandom(reader.seed);
+  const callbacks: {
+    gaze: GazeDataCallback[];
+    connection: ConnectionChangeCallback[];
+    error: ErrorCallback[];
+  } = {
+    gaze: [],
+    connection: [],
+    error: [],
+  };
+
+  const toGazeData = (sample: SyntheticGazeSample): TobiiGazeData => ({
+    x: sample.x,
+    y: sample.y,
+    timestamp: sample.timestamp,
+    leftPupilDiameter: sample.valid ? 3.5 + pupilRandom() * 0.5 : 0,
+    rightPupilDiameter: sample.valid ? 3.5 + pupilRandom() * 0.5 : 0,
+    leftEyePosition: { x: 0, y: 0, z: 600 },
+    rightEyePosition: { x: 65, y: 0, z: 600 },
+    validity: { leftEye: sample.valid, rightEye: sample.valid },
+    gazeAngle: {
+      horizontal: sample.x / reader.pixelsPerDegree,
+      vertical: sample.y / reader.pixelsPerDegree,
+    },
+  });
+
+  // Emit every sample that has fallen due since the last tick, so sampling
+  // rates above the timer resolution still arrive at their own timestamps
+  const tick = () => {
+    const current = options.getLayout();
+    if (current && current !== layout && (layout === null || options.rereadOnLayoutChange)) {
+      layout = current;
+      const reading = generateSyntheticReading(current, {
+        ...reader,
+        seed: reader.seed + passes,
+        startTime: Date.now(),
+      });
+      samples = reading.samples;
+      pupilRandom = seededRandom(reader.seed + passes);
+      next = 0;
+      passes++;
+      logger.debug('Synthetic reader started a pass', {
+        samples: samples.length,
+        regressions: reading.regressionCount,
+        blinks: reading.blinkCount,
+      });
+    }
+
+    const now = Date.now();
+    while (next < samples.length && samples[next].timestamp <= now) {
+      const data = toGazeData(samples[next++]);
+      callbacks.gaze.forEach(cb => cb(data));
+    }
+  };
+
+  return {
+    async connect() {
+      connected = true;
+      callbacks.connection.forEach(cb => cb(true));
+      return true;
+    },
+    disconnect() {
+      if (intervalId) clearInterval(intervalId);
+      intervalId = null;
+      connected = false;
+      callbacks.connection.forEach(cb => cb(false));
+    },
+    async startTracking() {
+      if (!connected) throw new Error('Not connected to Tobii device');
+      if (intervalId) return;
+      intervalId = setInterval(tick, 16);
+    },
+    stopTracking() {
+      if (intervalId) clearInterval(intervalId);
+      intervalId = null;
+    },
+    async calibrate() {
+      return {
+        success: true,
+        quality: 'excellent' as const,
+        points: [],
+        averageAccuracy: reader.noisePx / reader.pixelsPerDegree,
+      };
+    },
+    async getDeviceInfo() {
+      return {
+        model: 'Synthetic Reader',
+        serialNumber: `SYN-${reader.seed}`,
+        firmwareVersion: '1.0.0',
+        samplingRate: reader.sampleRate,
+        capabilities: ['gaze', 'pupil'],
+      };
+    },
+    onGazeData(cb) { callbacks.gaze.push(cb); },
+    onConnectionChange(cb) { callbacks.connection.push(cb); },
+    onError(cb) { callbacks.error.push(cb); },
+    isConnected() { return connected; },
+  };
+}
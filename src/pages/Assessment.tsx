@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { BalloonCalibration } from '@/components/assessment/BalloonCalibration';
+import { CalibrationValidation } from '@/components/assessment/CalibrationValidation';
 import { BiometricPreCheck } from '@/components/assessment/BiometricPreCheck';
 import { GazeVisualizer } from '@/components/assessment/GazeVisualizer';
 import { GazeTutor } from '@/components/assessment/GazeTutor';
@@ -21,12 +22,22 @@ import { StudentIntakeModal, StudentIntakeData } from '@/components/assessment/S
 import { SessionRecoveryModal } from '@/components/session/SessionRecoveryModal';
 import { BrowserCompatibilityAlert } from '@/components/alerts/BrowserCompatibilityAlert';
 import { EyeTrackingDebugOverlay } from '@/components/assessment/EyeTrackingDebugOverlay';
+import { CampaignHandoffScreen } from '@/components/assessment/CampaignHandoffScreen';
+import { AssessmentMonitorPanel } from '@/components/assessment/AssessmentMonitorPanel';
 import { useAssessmentController } from '@/hooks/useAssessmentController';
 import { useSessionPersistence } from '@/hooks/useSessionPersistence';
 import { useRealTimeNotifications } from '@/hooks/useRealTimeNotifications';
+import { useEyeTrackingSettings } from '@/hooks/useEyeTrackingSettings';
+import { useScreeningCampaign } from '@/hooks/useScreeningCampaigns';
+import { useStudentProgressResults } from '@/hooks/useStudentProgressResults';
+import { usePassageLibrary } from '@/hooks/usePassageLibrary';
+import type { AuthoredPassage } from '@/lib/passageLibrary';
 import { getPassageForGrade } from '@/data/readingPassages';
-import { getRegionalPassageForGrade, availableLanguages } from '@/data/regionalPassages';
-import { getSpeechLocale, type SupportedLanguage } from '@/data/phoneticPatterns';
+import { ASSESSMENT_LANGUAGES, getAssessmentLanguage, getPassageForLanguage, resolveLanguage } from '@/data/languages';
+import { getSpeechLocale } from '@/data/phoneticPatterns';
+import type { CalibrationValidationResult } from '@/lib/analytics';
+import { getCampaignPassage, getNextQueueEntry, summarizeCampaign, type CampaignEntry } from '@/lib/screeningCampaigns';
+import { analyzeProgress } from '@/lib/progressAnalytics';
 import { 
   Eye, 
   Mic, 
@@ -42,7 +53,8 @@ import {
   PenTool,
   Loader2,
   SkipForward,
-  Shield
+  Shield,
+  Users
 } from 'lucide-react';
 
 export default function AssessmentPage() {
@@ -51,6 +63,15 @@ export default function AssessmentPage() {
   
   // Get studentId from URL if present
   const urlStudentId = searchParams.get('studentId');
+  // ?demo=1 runs the whole flow with a synthetic reader instead of the webcam
+  const demoMode = searchParams.get('demo') === '1';
+  // ?campaign=<id> screens a class queue back to back on this device
+  const campaignId = searchParams.get('campaign');
+  const screening = useScreeningCampaign(campaignId);
+  const [campaignEntry, setCampaignEntry] = useState<CampaignEntry | null>(null);
+  const assessedStudentId = campaignEntry?.student_id ?? urlStudentId;
+  const campaignSummary = summarizeCampaign(screening.entries);
+  const nextCampaignEntry = screening.campaign?.status === 'active' ? getNextQueueEntry(screening.entries) : null;
   
   // Student intake state
   const [showIntakeModal, setShowIntakeModal] = useState(false);
@@ -59,18 +80,26 @@ export default function AssessmentPage() {
   // Session persistence
   const sessionPersistence = useSessionPersistence();
   const { notifyAssessmentComplete } = useRealTimeNotifications();
+  const { settings: eyeTrackingSettings } = useEyeTrackingSettings();
   
-  // Get grade-appropriate reading passage based on language
-  const readingPassage = studentData 
-    ? studentData.language && studentData.language !== 'en'
-      ? getRegionalPassageForGrade(studentData.language as 'hi' | 'ta' | 'te', studentData.grade)
-      : getPassageForGrade(studentData.grade) 
-    : getPassageForGrade('2nd-3rd Grade');
+  // Languages that aren't assessment-ready yet run in English
+  const assessmentLanguage = getAssessmentLanguage(studentData?.language);
+  const languageFellBack = !!studentData?.language && studentData.language !== assessmentLanguage;
+
+  // Get grade-appropriate reading passage based on language. A picked library
+  // passage is copied when the session starts, so library refetches can't change it.
+  const { passages, authoredPassages, isLoading: isLibraryLoading } = usePassageLibrary();
+  const [libraryPassage, setLibraryPassage] = useState<AuthoredPassage | null>(null);
+  const readingPassage = libraryPassage ?? (studentData
+    ? getPassageForLanguage(assessmentLanguage, studentData.grade)
+    : getPassageForGrade('2nd-3rd Grade'));
   
   const containerRef = useRef<HTMLDivElement>(null);
   const gazeHeatmapRef = useRef<HTMLCanvasElement>(null);
   const [showGazeViz, setShowGazeViz] = useState(false);
+  const [showMonitor, setShowMonitor] = useState(false);
   const [showBalloonCalibration, setShowBalloonCalibration] = useState(false);
+  const [showCalibrationValidation, setShowCalibrationValidation] = useState(false);
   const [showBiometricPreCheck, setShowBiometricPreCheck] = useState(false);
   const [biometricPassed, setBiometricPassed] = useState(false);
   
@@ -80,12 +109,16 @@ export default function AssessmentPage() {
   const MINIMUM_READING_SECONDS = 30;
   
   const controller = useAssessmentController({
-    studentId: urlStudentId || undefined,
+    studentId: assessedStudentId || undefined,
     studentName: studentData?.name || 'Student',
     studentAge: studentData?.age || 10,
     studentGrade: studentData?.grade || '4th Grade',
-    language: (studentData?.language || 'en') as SupportedLanguage,
-    onComplete: (result) => {
+    language: assessmentLanguage,
+    passageText: readingPassage.text,
+    passageVersionId: libraryPassage?.versionId ?? null,
+    eyeTrackingProvider: eyeTrackingSettings.preferred_provider,
+    syntheticReader: demoMode,
+    onComplete: (result, savedResultId) => {
       // Notify via real-time notifications
       notifyAssessmentComplete({
         overallRisk: result.overallRiskLevel === 'high' ? 0.8 : result.overallRiskLevel === 'moderate' ? 0.5 : 0.2,
@@ -93,6 +126,9 @@ export default function AssessmentPage() {
       });
       // Clear session on completion
       sessionPersistence.clearSession();
+      if (campaignEntry) {
+        screening.recordOutcome.mutate({ entry: campaignEntry, result, diagnosticResultId: savedResultId });
+      }
     }
   });
 
@@ -128,6 +164,15 @@ export default function AssessmentPage() {
     return () => sessionPersistence.stopAutoSave();
   }, [controller.step, readingElapsed]);
 
+  // Earlier assessments of a known student, fetched once this one has been saved
+  const { results: historyResults } = useStudentProgressResults(assessedStudentId, controller.step === 'results');
+  const progressItems = historyResults.length >= 2 && studentData
+    ? analyzeProgress(historyResults, { grade: studentData.grade, age: studentData.age })
+    : [];
+  const progressSummary = progressItems.some(p => p.verdict !== 'insufficient')
+    ? { items: progressItems, baselineLabel: 'the first assessment' }
+    : undefined;
+
   // Check if reading requirements are met (only time-based, fixations are informational)
   const readingRequirementsMet = readingElapsed >= MINIMUM_READING_SECONDS;
 
@@ -140,20 +185,61 @@ export default function AssessmentPage() {
   }, []);
 
   // Handle student intake submission
-  const handleIntakeSubmit = useCallback((data: StudentIntakeData & { language?: string }) => {
+  const handleIntakeSubmit = useCallback((
+    data: StudentIntakeData & { language?: string },
+    studentId: string | null = urlStudentId,
+    library: AuthoredPassage[] = authoredPassages
+  ) => {
     setStudentData(data);
+    setLibraryPassage(library.find(p => p.versionId === data.passageVersionId) ?? null);
     setShowIntakeModal(false);
     
     // Create session for persistence
     sessionPersistence.createSession({
-      studentId: urlStudentId,
+      studentId,
       studentName: data.name,
       studentAge: data.age,
       studentGrade: data.grade
     });
     
+    // The synthetic reader needs neither the camera check nor calibration
+    if (demoMode) {
+      setBiometricPassed(true);
+      controller.startAssessment();
+      controller.handleDeviceCalibration();
+      return;
+    }
+
     setShowBiometricPreCheck(true);
-  }, [urlStudentId, sessionPersistence]);
+  }, [urlStudentId, sessionPersistence, demoMode, controller, authoredPassages]);
+
+  // Campaign mode: the queued student stands in for the intake form, and
+  // reads the passage the campaign pinned for their grade band
+  const handleCampaignStart = useCallback((entry: CampaignEntry) => {
+    const passage = screening.campaign ? getCampaignPassage(screening.campaign, passages, entry.student.grade) : null;
+    setCampaignEntry(entry);
+    handleIntakeSubmit({
+      name: entry.student.name,
+      age: entry.student.age,
+      grade: entry.student.grade,
+      language: screening.campaign?.passage_language,
+      passageVersionId: passage?.versionId,
+    }, entry.student_id, passage ? [passage] : []);
+  }, [handleIntakeSubmit, screening.campaign, passages]);
+
+  const handleCampaignAbsent = useCallback((entry: CampaignEntry) => {
+    screening.setEntryStatus.mutate({ entryId: entry.id, status: 'absent' });
+  }, [screening.setEntryStatus]);
+
+  const handleNextCampaignStudent = useCallback(() => {
+    setCampaignEntry(null);
+    setStudentData(null);
+    setLibraryPassage(null);
+    setBiometricPassed(false);
+    setReadingStartTime(null);
+    setReadingElapsed(0);
+    controller.resetAssessment();
+  }, [controller]);
 
   const handleBiometricPass = useCallback((_videoElement: HTMLVideoElement) => {
     setShowBiometricPreCheck(false);
@@ -162,11 +248,22 @@ export default function AssessmentPage() {
     controller.startAssessment();
   }, [controller]);
 
-  const handleCalibrationComplete = useCallback(async () => {
+  // Balloons done - measure how well the calibration holds on fresh targets
+  const handleCalibrationComplete = useCallback(() => {
     setShowBalloonCalibration(false);
-    await controller.handleCalibrationComplete();
+    setShowCalibrationValidation(true);
+  }, []);
+
+  const handleValidationComplete = useCallback(async (validation: CalibrationValidationResult | null) => {
+    setShowCalibrationValidation(false);
+    await controller.handleCalibrationComplete(validation);
   }, [controller]);
 
+  const handleRecalibrate = useCallback(() => {
+    setShowCalibrationValidation(false);
+    setShowBalloonCalibration(true);
+  }, []);
+
   // Handle session recovery
   const handleRecoverSession = useCallback(() => {
     const session = sessionPersistence.recoverSession();
@@ -252,8 +349,27 @@ export default function AssessmentPage() {
           </div>
 
           <AnimatePresence mode="wait">
+            {/* Campaign hand-off replaces the intro between students */}
+            {controller.step === 'intro' && campaignId && (
+              screening.campaign && !isLibraryLoading ? (
+                <CampaignHandoffScreen
+                  campaignName={screening.campaign.name}
+                  summary={campaignSummary}
+                  nextEntry={nextCampaignEntry}
+                  boardPath={`/campaigns/${campaignId}`}
+                  isUpdating={screening.setEntryStatus.isPending || biometricPassed}
+                  onStart={handleCampaignStart}
+                  onMarkAbsent={handleCampaignAbsent}
+                />
+              ) : (
+                <div key="campaign-loading" className="flex justify-center py-16">
+                  <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                </div>
+              )
+            )}
+
             {/* Intro Step */}
-            {controller.step === 'intro' && (
+            {controller.step === 'intro' && !campaignId && (
               <motion.div
                 key="intro"
                 initial={{ opacity: 0, y: 20 }}
@@ -289,10 +405,16 @@ export default function AssessmentPage() {
                   ))}
                 </div>
 
+                {demoMode && (
+                  <div className="p-4 rounded-lg bg-primary/10 border border-primary/30 mb-4 text-sm">
+                    <strong>Demo mode:</strong> a synthetic reader stands in for the webcam during the reading step.
+                  </div>
+                )}
+
                 {/* Language support notice */}
                 <div className="p-4 rounded-lg bg-muted/50 border border-border mb-8 text-sm text-muted-foreground">
                   <p className="mb-2">
-                    <strong>Regional Language Support:</strong> Assessment available in {availableLanguages.map(l => l.nativeName).join(', ')}
+                    <strong>Regional Language Support:</strong> Assessment available in {ASSESSMENT_LANGUAGES.map(l => l.nativeName).join(', ')}
                   </p>
                   <p>
                     Using ETDD70 Universal Dataset thresholds, calibrated for clinical 
@@ -304,7 +426,7 @@ export default function AssessmentPage() {
                   variant="hero" 
                   size="xl" 
                   onClick={handleBeginClick}
-                  disabled={biometricPassed}
+                  disabled={biometricPassed || isLibraryLoading}
                 >
                   Begin Assessment
                   <ArrowRight className="w-5 h-5" />
@@ -357,9 +479,14 @@ export default function AssessmentPage() {
                       <CardTitle className="flex items-center gap-2">
                         <Eye className="w-5 h-5 text-primary" />
                         Reading Assessment
-                        {studentData?.language && studentData.language !== 'en' && (
+                        {assessmentLanguage !== 'en' && (
                           <span className="ml-2 text-sm font-normal text-muted-foreground">
-                            ({availableLanguages.find(l => l.code === studentData.language)?.nativeName})
+                            ({resolveLanguage(assessmentLanguage).nativeName})
+                          </span>
+                        )}
+                        {languageFellBack && (
+                          <span className="ml-2 text-sm font-normal text-muted-foreground">
+                            ({resolveLanguage(studentData?.language).name} is not assessment-ready yet; reading in English)
                           </span>
                         )}
                         {/* Ghost indicator - tracking is active but hidden */}
@@ -391,6 +518,7 @@ export default function AssessmentPage() {
                         <AdaptiveTextDisplay
                           text={readingPassage.text}
                           gazePosition={controller.eyeTracking.currentGaze}
+                          onLayout={controller.recordPassageLayout}
                         />
                       </AdaptiveReadingContainer>
                     </CardContent>
@@ -407,6 +535,15 @@ export default function AssessmentPage() {
                       >
                         {showGazeViz ? 'Hide' : 'Show'} Debug View
                       </Button>
+                      {/* Clinician-only live monitor with timestamped session notes */}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowMonitor(!showMonitor)}
+                        className="text-xs opacity-50 hover:opacity-100"
+                      >
+                        {showMonitor ? 'Hide' : 'Show'} Monitor
+                      </Button>
                     </div>
                     <div className="flex items-center gap-4">
                       {/* Reading completion progress */}
@@ -440,6 +577,19 @@ export default function AssessmentPage() {
                   </div>
                 </div>
 
+                {showMonitor && (
+                  <div className="max-w-4xl mx-auto mt-6">
+                    <AssessmentMonitorPanel
+                      studentName={studentData?.name || 'Student'}
+                      studentGrade={studentData?.grade}
+                      assessmentStep={controller.step}
+                      startedAt={readingStartTime}
+                      subscribe={controller.eyeTracking.subscribe}
+                      onAddNote={controller.addSessionNote}
+                    />
+                  </div>
+                )}
+
                 {/* Debug gaze visualization - hidden by default (Ghost Mode) */}
                 {showGazeViz && (
                   <GazeVisualizer
@@ -643,8 +793,31 @@ export default function AssessmentPage() {
               </motion.div>
             )}
 
+            {/* Campaign results stay off screen while the device changes hands */}
+            {controller.step === 'results' && campaignEntry && (
+              <motion.div
+                key="campaign-done"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="max-w-md mx-auto text-center py-16"
+              >
+                <CheckCircle className="w-16 h-16 text-success mx-auto mb-6" />
+                <h2 className="text-2xl font-bold mb-2">Well done, {campaignEntry.student.name}!</h2>
+                <p className="text-muted-foreground mb-8">Please hand the device back to your teacher.</p>
+                <Button
+                  variant="hero"
+                  onClick={handleNextCampaignStudent}
+                  disabled={screening.recordOutcome.isPending}
+                >
+                  <Users className="w-4 h-4" />
+                  Next student
+                </Button>
+              </motion.div>
+            )}
+
             {/* Results Step */}
-            {controller.step === 'results' && controller.result && (
+            {controller.step === 'results' && controller.result && !campaignEntry && (
               <motion.div
                 key="results"
                 initial={{ opacity: 0, y: 20 }}
@@ -689,6 +862,8 @@ export default function AssessmentPage() {
                     dysgraphiaIndex={controller.result.dysgraphiaProbabilityIndex * 100}
                     overallRisk={controller.result.overallRiskLevel}
                     gazeHeatmapRef={gazeHeatmapRef}
+                    progressSummary={progressSummary}
+                    miscueAnalysis={controller.result.miscueAnalysis}
                   />
                 </div>
                 
@@ -709,6 +884,7 @@ export default function AssessmentPage() {
         isOpen={showIntakeModal}
         onClose={() => setShowIntakeModal(false)}
         onSubmit={handleIntakeSubmit}
+        library={authoredPassages}
       />
 
       {/* Biometric Pre-Check Overlay - No skip option */}
@@ -729,6 +905,20 @@ export default function AssessmentPage() {
         )}
       </AnimatePresence>
 
+      {/* Calibration Validation Overlay - blocks or flags inaccurate calibration */}
+      <AnimatePresence>
+        {showCalibrationValidation && (
+          <CalibrationValidation
+            subscribe={controller.eyeTracking.subscribe}
+            onStart={controller.beginCalibrationValidation}
+            onComplete={handleValidationComplete}
+            onRecalibrate={handleRecalibrate}
+            config={{ failAccuracy: eyeTrackingSettings.validation_max_accuracy }}
+            blockOnFail={eyeTrackingSettings.block_failed_validation}
+          />
+        )}
+      </AnimatePresence>
+
       <Footer />
     </div>
   );
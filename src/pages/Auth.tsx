@@ -79,6 +79,12 @@ export default function AuthPage() {
   const welcomeEmailSentRef = useRef(false);
   const verificationCheckedRef = useRef(false);
 
+  // Where to go after sign-in; only same-site paths (e.g. back to the parent portal)
+  const redirectParam = searchParams.get('redirect');
+  const redirectTo = redirectParam?.startsWith('/') && !redirectParam.startsWith('//') ? redirectParam : '/dashboard';
+  // Parents arriving from the portal skip role selection
+  const isParentSignIn = searchParams.get('role') === 'parent';
+
   // Handle email verification from URL token
   useEffect(() => {
     const verifyTokenParam = searchParams.get('verify');
@@ -138,7 +144,13 @@ export default function AuthPage() {
       // Check if user has a role in the user_roles table (server-side check)
       if (hasAnyRole()) {
         // User has a role, go to dashboard
-        navigate('/dashboard');
+        navigate(redirectTo);
+      } else if (isParentSignIn) {
+        if (!isSettingRole) {
+          setRole('parent').then(() => navigate(redirectTo)).catch((error) => {
+            logger.error('Parent role assignment failed', error);
+          });
+        }
       } else if (user) {
         // User exists but no role - show role selection
         setPendingUser({
@@ -149,7 +161,7 @@ export default function AuthPage() {
         setShowRoleSelection(true);
       }
     }
-  }, [user, loading, isRoleLoading, hasAnyRole, profile, navigate]);
+  }, [user, loading, isRoleLoading, hasAnyRole, profile, navigate, redirectTo, isParentSignIn, isSettingRole, setRole]);
 
   // Send welcome email only after role is selected (not on email confirmation)
   // This is now handled in handleRoleSelect after successful role assignment
@@ -205,7 +217,7 @@ export default function AuthPage() {
       }
       
       toast.success(`Welcome! You're registered as ${roleDisplayMap[role]}`);
-      navigate('/dashboard');
+      navigate(redirectTo);
     } catch (error) {
       // Error is already handled by the mutation
       logger.error('Role selection failed', error);
@@ -11,6 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 // StudentProgressChart removed - this is a one-time assessment platform
 import { GazeHeatmapReport } from '@/components/dashboard/GazeHeatmapReport';
+import { MiscueReport } from '@/components/dashboard/MiscueReport';
 import { AIInsightsPanel } from '@/components/reports/AIInsightsPanel';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDashboardData } from '@/hooks/useDashboardData';
@@ -597,10 +598,16 @@ export default function DashboardPage() {
                   <GazeHeatmapReport 
                     fixations={Array.isArray(selectedAssessment.fixation_data) ? selectedAssessment.fixation_data : []}
                     saccades={Array.isArray(selectedAssessment.saccade_data) ? selectedAssessment.saccade_data : []}
+                    wordReading={selectedAssessment.word_reading_data ?? null}
                   />
+
+                  {selectedAssessment.miscue_analysis && (
+                    <MiscueReport analysis={selectedAssessment.miscue_analysis} />
+                  )}
                   
                   {/* AI Insights Panel with real data from flat diagnostic_results columns */}
                   <AIInsightsPanel 
+                    key={selectedAssessment.id}
                     diagnosticResult={{
                       dyslexiaProbabilityIndex: Number(selectedAssessment.dyslexia_probability_index) ?? 0,
                       adhdProbabilityIndex: Number(selectedAssessment.adhd_probability_index) ?? 0,
@@ -639,6 +646,8 @@ export default function DashboardPage() {
                       timestamp: new Date(selectedAssessment.created_at),
                       sessionId: selectedAssessment.session_id ?? ''
                     }}
+                    studentId={selectedAssessment.student_id ?? undefined}
+                    diagnosticResultId={selectedAssessment.id}
                   />
                   
                   <Card>
@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { MobileLayout, MobileSection } from '@/components/layout/MobileLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AccessCodeForm } from '@/components/parent/AccessCodeForm';
+import { ProgressTimeline } from '@/components/parent/ProgressTimeline';
+import { HomePracticeList } from '@/components/parent/HomePracticeList';
+import { StudentMessagesPanel } from '@/components/parent/StudentMessagesPanel';
+import { useParentAccess } from '@/hooks/useParentAccess';
+import { useRealTimeNotifications } from '@/hooks/useRealTimeNotifications';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDevice } from '@/contexts/DeviceContext';
+import {
+  buildProgressTimeline,
+  describeAccessExpiry,
+  getHomePracticeSuggestions,
+  type ParentLinkedChild,
+  type ParentPortalData,
+} from '@/lib/parentPortal';
+import { CalendarClock, Heart, LineChart, LogIn, LogOut, UserPlus, Users } from 'lucide-react';
+
+interface ChildProgressProps {
+  data: ParentPortalData;
+  actions?: ReactNode;
+}
+
+// Timeline and home practice for one child, shared by code and account access
+function ChildProgress({ data, actions }: ChildProgressProps) {
+  const timeline = useMemo(() => buildProgressTimeline(data.assessments), [data]);
+  const suggestions = useMemo(
+    () => getHomePracticeSuggestions(data.assessments, data.student.age ?? null),
+    [data]
+  );
+  const expiry = data.expiresAt ? describeAccessExpiry(data.expiresAt) : null;
+
+  return (
+    <motion.div
+      key={data.student.id}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{data.student.name}'s reading progress</h1>
+          <p className="text-muted-foreground">
+            {[data.student.grade && `Grade ${data.student.grade}`, data.student.age && `Age ${data.student.age}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        {actions}
+      </div>
+
+      {expiry && (
+        <Alert variant={expiry.expired || expiry.expiringSoon ? 'destructive' : 'default'}>
+          <CalendarClock className="h-4 w-4" />
+          <AlertTitle>{expiry.label}</AlertTitle>
+          <AlertDescription>
+            {expiry.expired
+              ? 'Ask your child\'s teacher or clinician for a new link to keep following their progress.'
+              : expiry.expiringSoon
+                ? 'Sign in to keep access, or ask for a new link.'
+                : `Access ends on ${new Date(data.expiresAt!).toLocaleDateString()}. Sign in to keep access.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChart className="w-5 h-5 text-primary" />
+            Progress over time
+          </CardTitle>
+          <CardDescription>
+            Each reading check compared with the one before it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProgressTimeline entries={timeline} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Heart className="w-5 h-5 text-primary" />
+            Practising at home
+          </CardTitle>
+          <CardDescription>
+            A few minutes a day makes a real difference. Keep it relaxed and fun.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <HomePracticeList suggestions={suggestions} />
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        These are screening results, not a diagnosis. Please talk to your child's teacher or clinician about any questions.
+      </p>
+    </motion.div>
+  );
+}
+
+export default function ParentPortal() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { isMobile } = useDevice();
+  const { user, loading: authLoading } = useAuth();
+  const { validateAccessCode, getPortalData, claimAccessCode, fetchLinkedChildren } = useParentAccess();
+  useRealTimeNotifications();
+
+  const codeFromLink = searchParams.get('code')?.toUpperCase() ?? '';
+  const [portalData, setPortalData] = useState<ParentPortalData | null>(null);
+  const [children, setChildren] = useState<ParentLinkedChild[] | null>(null);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Anonymous access: a single child through the code
+  const loadPortal = useCallback(async (code: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    const validation = await validateAccessCode(code);
+    if (!validation.valid) {
+      setPortalData(null);
+      setError(validation.expired
+        ? 'This link has expired. Please ask your child\'s teacher or clinician for a new one.'
+        : 'We couldn\'t find that access code. Please check it and try again.');
+      setIsLoading(false);
+      return;
+    }
+
+    const data = await getPortalData(code);
+    if (!data) {
+      setError('Progress could not be loaded right now. Please try again in a few minutes.');
+    } else {
+      setPortalData({ ...data, expiresAt: data.expiresAt ?? validation.expiresAt });
+      setSearchParams({ code }, { replace: true });
+    }
+    setIsLoading(false);
+  }, [validateAccessCode, getPortalData, setSearchParams]);
+
+  // Signed-in parents: every child claimed into their account
+  const loadChildren = useCallback(async () => {
+    const linked = await fetchLinkedChildren();
+    setChildren(linked);
+    setSelectedChildId(prev => prev && linked.some(c => c.student.id === prev) ? prev : linked[0]?.student.id ?? null);
+  }, [fetchLinkedChildren]);
+
+  const handleClaim = useCallback(async (code: string) => {
+    setIsLoading(true);
+    setError(null);
+    const studentId = await claimAccessCode(code);
+    if (studentId) {
+      setSearchParams({}, { replace: true });
+      await loadChildren();
+      setSelectedChildId(studentId);
+    } else {
+      setError('That code could not be added. It may have expired or already been used.');
+    }
+    setIsLoading(false);
+  }, [claimAccessCode, loadChildren, setSearchParams]);
+
+  // Links sent to parents carry the code, so open straight into the portal
+  useEffect(() => {
+    if (authLoading) return;
+    if (user) {
+      loadChildren();
+    } else if (codeFromLink) {
+      loadPortal(codeFromLink);
+    }
+    // Only once auth has settled; later codes are submitted through the form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authLoading, user?.id]);
+
+  const handleExit = useCallback(() => {
+    setPortalData(null);
+    setSearchParams({}, { replace: true });
+  }, [setSearchParams]);
+
+  const signInUrl = `/auth?role=parent&redirect=${encodeURIComponent(
+    codeFromLink ? `/parent-portal?code=${codeFromLink}` : '/parent-portal'
+  )}`;
+  const selectedChild = children?.find(c => c.student.id === selectedChildId) ?? null;
+
+  const addChildCard = (
+    <Card className="max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
+          <UserPlus className="w-7 h-7 text-primary" />
+        </div>
+        <CardTitle>Add a child</CardTitle>
+        <CardDescription>
+          Enter an access code to add a child to your account. You'll keep access until the school or clinic removes it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AccessCodeForm
+          initialCode={codeFromLink}
+          isLoading={isLoading}
+          error={error}
+          onSubmit={handleClaim}
+        />
+      </CardContent>
+    </Card>
+  );
+
+  let content: ReactNode;
+  if (authLoading || (user && children === null)) {
+    content = (
+      <div className="max-w-2xl mx-auto space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  } else if (user) {
+    content = (
+      <div className="max-w-2xl mx-auto space-y-6">
+        {children && children.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {children.map(child => (
+              <Button
+                key={child.student.id}
+                variant={child.student.id === selectedChildId ? 'default' : 'outline'}
+                size="sm"
+                className="rounded-full shrink-0"
+                onClick={() => setSelectedChildId(child.student.id)}
+              >
+                {child.student.name}
+              </Button>
+            ))}
+          </div>
+        )}
+        {selectedChild && <ChildProgress data={selectedChild} />}
+        {selectedChild && (
+          <StudentMessagesPanel
+            studentId={selectedChild.student.id}
+            studentName={selectedChild.student.name}
+            reports={selectedChild.assessments}
+          />
+        )}
+        {(codeFromLink || !selectedChild) ? addChildCard : (
+          <details className="rounded-xl border p-4">
+            <summary className="cursor-pointer text-sm font-medium">Add another child</summary>
+            <div className="pt-4">{addChildCard}</div>
+          </details>
+        )}
+      </div>
+    );
+  } else if (portalData) {
+    content = (
+      <div className="max-w-2xl mx-auto space-y-6">
+        <ChildProgress
+          data={portalData}
+          actions={
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" asChild>
+                <Link to={signInUrl}>
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Save to my account
+                </Link>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleExit}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Exit
+              </Button>
+            </div>
+          }
+        />
+      </div>
+    );
+  } else {
+    content = (
+      <Card className="max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
+            <Users className="w-7 h-7 text-primary" />
+          </div>
+          <CardTitle>Parent Portal</CardTitle>
+          <CardDescription>
+            Enter the access code you were given to see your child's reading progress
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AccessCodeForm
+            initialCode={codeFromLink}
+            isLoading={isLoading}
+            error={error}
+            onSubmit={loadPortal}
+          />
+          <p className="text-center text-sm text-muted-foreground">
+            Have more than one child, or want to keep access?{' '}
+            <Link to={signInUrl} className="text-primary underline">Sign in</Link>
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isMobile) {
+    return (
+      <MobileLayout showNav={false}>
+        <MobileSection className="pt-8">{content}</MobileSection>
+      </MobileLayout>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-24 pb-16">
+        <div className="container">{content}</div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PassageEditor } from '@/components/reading/PassageEditor';
+import { usePassageLibrary, type PassageDraft } from '@/hooks/usePassageLibrary';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useAuth } from '@/contexts/AuthContext';
+import { LANGUAGES, resolveLanguage, type LanguageCode } from '@/data/languages';
+import { PASSAGE_STATUS_LABELS, getCurrentVersion } from '@/lib/passageLibrary';
+import { Archive, ArchiveRestore, BookOpen, Plus } from 'lucide-react';
+
+export default function PassageLibrary() {
+  const { user } = useAuth();
+  const { isClinician, hasClinicianAccess } = useUserRole();
+  const { passages, isLoading, createPassage, saveVersion, approveVersion, setArchived } = usePassageLibrary();
+  const [languageFilter, setLanguageFilter] = useState('all');
+  // Passage being edited; 'new' for a blank editor, null for none
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visible = passages.filter(p => languageFilter === 'all' || p.language === languageFilter);
+  const selected = passages.find(p => p.id === selectedId) ?? null;
+
+  const handleCreate = async (language: LanguageCode, draft: PassageDraft) => {
+    const id = await createPassage.mutateAsync({ language, draft }).catch(() => null);
+    if (id) setSelectedId(id);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-24 pb-16">
+        <div className="container">
+          <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <BookOpen className="w-8 h-8 text-primary" />
+                Passage Library
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Reading passages matched to your curriculum. Approved passages can be picked in place of the built-in
+                one when starting an assessment in the same language and grade band.
+              </p>
+            </div>
+            {hasClinicianAccess && (
+              <Button onClick={() => setSelectedId('new')}>
+                <Plus className="w-4 h-4 mr-2" />
+                New passage
+              </Button>
+            )}
+          </div>
+
+          <Card className="mb-8">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Passages</CardTitle>
+                <CardDescription>Each passage shows its approved version, or its latest draft</CardDescription>
+              </div>
+              <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All languages</SelectItem>
+                  {LANGUAGES.map(lang => (
+                    <SelectItem key={lang.code} value={lang.code}>{lang.nativeName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto" />
+                </div>
+              ) : visible.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No passages yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Language</TableHead>
+                      <TableHead>Grades</TableHead>
+                      <TableHead>Words</TableHead>
+                      <TableHead>Grade estimate</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(passage => {
+                      const current = getCurrentVersion(passage.versions);
+                      return (
+                        <TableRow key={passage.id} className={passage.archived_at ? 'opacity-60' : undefined}>
+                          <TableCell className="font-medium">
+                            <button className="hover:underline text-left" onClick={() => setSelectedId(passage.id)}>
+                              {current?.title ?? 'Untitled'}
+                            </button>
+                          </TableCell>
+                          <TableCell>{resolveLanguage(passage.language).nativeName}</TableCell>
+                          <TableCell>{current?.grade_band}</TableCell>
+                          <TableCell>{current?.word_count}</TableCell>
+                          <TableCell>
+                            {current?.grade_level != null ? Number(current.grade_level).toFixed(1) : '—'}
+                          </TableCell>
+                          <TableCell className="space-x-2">
+                            {current && (
+                              <Badge variant={current.status === 'approved' ? 'default' : 'secondary'}>
+                                {PASSAGE_STATUS_LABELS[current.status]} · v{current.version}
+                              </Badge>
+                            )}
+                            {passage.archived_at && <Badge variant="outline">Archived</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(passage.created_by === user?.id || isClinician) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label={passage.archived_at ? 'Restore passage' : 'Archive passage'}
+                                onClick={() => setArchived.mutate({ passageId: passage.id, archived: !passage.archived_at })}
+                                disabled={setArchived.isPending}
+                              >
+                                {passage.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {hasClinicianAccess && (selected || selectedId === 'new') && (
+            <PassageEditor
+              key={selected?.id ?? 'new'}
+              passage={selected}
+              canApprove={isClinician}
+              isSaving={createPassage.isPending || saveVersion.isPending}
+              onCreate={handleCreate}
+              onSaveVersion={(passage, draft) => saveVersion.mutate({ passage, draft })}
+              onApprove={versionId => approveVersion.mutate(versionId)}
+            />
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
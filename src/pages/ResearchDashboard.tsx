@@ -6,7 +6,10 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { supabase } from '@/integrations/supabase/client';
 import { DataQualityBadge, calculateCRAAPScore } from '@/components/dashboard/DataQualityBadge';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Database, FlaskConical, Loader2, TrendingUp } from 'lucide-react';
+import { ArrowLeft, Database, Download, FlaskConical, Loader2, RefreshCw, TrendingUp } from 'lucide-react';
+import { useRescoreResults } from '@/hooks/useRescoreResults';
+import { SCORING_VERSION } from '@/lib/analytics';
+import { toast } from 'sonner';
 
 interface DatasetProfile {
   id: string;
@@ -32,6 +35,8 @@ export default function ResearchDashboard() {
   const [datasets, setDatasets] = useState<DatasetProfile[]>([]);
   const [thresholds, setThresholds] = useState<Threshold[]>([]);
   const [loading, setLoading] = useState(true);
+  const { summary: rescoreSummary, isLoading: isRescoring, error: rescoreError, rescore } = useRescoreResults();
+  const [isExportingProsody, setIsExportingProsody] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -71,6 +76,38 @@ export default function ResearchDashboard() {
       : 0,
   }));
 
+  const handleRescore = async (dryRun: boolean) => {
+    const result = await rescore({ dryRun });
+    if (result && !dryRun) {
+      toast.success(`${result.written} results re-scored with version ${result.scoringVersion}`);
+    }
+  };
+
+  // Pitch/intensity contours, pauses and syllable nuclei of every session with reading audio
+  const handleExportProsody = async () => {
+    setIsExportingProsody(true);
+    try {
+      const { data, error } = await supabase
+        .from('diagnostic_results')
+        .select('id, session_id, created_at, voice_prosody_score, acoustic_prosody')
+        .not('acoustic_prosody', 'is', null)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `acoustic-prosody-features-${new Date().toISOString().split('T')[0]}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported acoustic features for ${data.length} session${data.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error('Failed to export acoustic features: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsExportingProsody(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -188,6 +225,113 @@ export default function ResearchDashboard() {
           </Card>
         </div>
 
+        {/* Re-score Stored Sessions */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Re-score Stored Sessions</CardTitle>
+                <CardDescription>
+                  Replay stored results through scoring version {SCORING_VERSION} and the current thresholds.
+                  Original scores are kept; new scores are written as a versioned run.
+                </CardDescription>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRescore(true)} disabled={isRescoring}>
+                  {isRescoring ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+                  Preview changes
+                </Button>
+                <Button size="sm" onClick={() => handleRescore(false)} disabled={isRescoring || !rescoreSummary}>
+                  Write versioned scores
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {rescoreError && (
+              <p className="text-sm text-destructive mb-4">{rescoreError}</p>
+            )}
+            {!rescoreSummary ? (
+              <p className="text-sm text-muted-foreground">
+                Preview which students would change risk level before writing new scores.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2 mb-4 text-sm">
+                  <Badge variant="outline">{rescoreSummary.processed} results processed</Badge>
+                  <Badge variant={rescoreSummary.changes.length > 0 ? 'destructive' : 'secondary'}>
+                    {rescoreSummary.changes.length} risk level changes
+                  </Badge>
+                  {rescoreSummary.dryRun ? (
+                    <Badge variant="secondary">Preview only</Badge>
+                  ) : (
+                    <Badge>{rescoreSummary.written} scores written</Badge>
+                  )}
+                  {rescoreSummary.failed > 0 && (
+                    <Badge variant="destructive">{rescoreSummary.failed} scores not written</Badge>
+                  )}
+                  {rescoreSummary.thresholdsComputedAt && (
+                    <span className="text-muted-foreground text-xs self-center">
+                      Thresholds from {new Date(rescoreSummary.thresholdsComputedAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                {rescoreSummary.changes.length > 0 && (
+                  <div className="rounded-lg border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50">
+                        <tr>
+                          <th className="text-left p-3 font-medium">Student</th>
+                          <th className="text-center p-3 font-medium">Previous</th>
+                          <th className="text-center p-3 font-medium">New</th>
+                          <th className="text-right p-3 font-medium">Dyslexia Index</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rescoreSummary.changes.map(c => (
+                          <tr key={c.diagnosticResultId} className="border-t">
+                            <td className="p-3">{c.studentName || 'Self-assessment'}</td>
+                            <td className="text-center p-3">
+                              <Badge variant="outline" className="text-xs capitalize">{c.previousRiskLevel}</Badge>
+                            </td>
+                            <td className="text-center p-3">
+                              <Badge variant={c.newRiskLevel === 'high' ? 'destructive' : 'secondary'} className="text-xs capitalize">
+                                {c.newRiskLevel}
+                              </Badge>
+                            </td>
+                            <td className="text-right p-3 font-mono">
+                              {(c.dyslexiaProbabilityIndex * 100).toFixed(1)}%
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Acoustic Prosody Export */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Acoustic Prosody Features</CardTitle>
+                <CardDescription>
+                  Pitch and intensity contours (100 ms frames), silent pauses and syllable nuclei measured from each
+                  session's reading audio, with the phrasing, expression and smoothness sub-scores derived from them.
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" className="shrink-0" onClick={handleExportProsody} disabled={isExportingProsody}>
+                {isExportingProsody ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+                Export JSON
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
         {/* Recent Datasets with CRAAP Scores */}
         <Card>
           <CardHeader>
@@ -0,0 +1,372 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { usePassageLibrary } from '@/hooks/usePassageLibrary';
+import { useScreeningCampaign, useScreeningCampaigns } from '@/hooks/useScreeningCampaigns';
+import { LANGUAGES, isAssessmentReady } from '@/data/languages';
+import { GRADE_BANDS, type GradeBand } from '@/data/readingPassages';
+import { isFlagged, summarizeCampaign, type CampaignEntry } from '@/lib/screeningCampaigns';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  ClipboardList,
+  Clock,
+  Lock,
+  Play,
+  RotateCcw,
+  Trash2,
+  Unlock,
+  UserX,
+} from 'lucide-react';
+
+const BUILT_IN_PASSAGE = 'built-in';
+
+export default function ScreeningCampaigns() {
+  const { campaignId } = useParams<{ campaignId: string }>();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-24 pb-16">
+        <div className="container">
+          {campaignId ? <CampaignBoard campaignId={campaignId} /> : <CampaignList />}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
+
+function CampaignList() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { classroomOptions } = useOrganizations();
+  const { campaigns, isLoading, createCampaign, deleteCampaign } = useScreeningCampaigns();
+  const [name, setName] = useState('');
+  const [classroomId, setClassroomId] = useState('');
+  const [passageLanguage, setPassageLanguage] = useState('en');
+  const { authoredPassages } = usePassageLibrary();
+  // Library version picked per grade band; bands left out read the built-in passage
+  const [passageByBand, setPassageByBand] = useState<Partial<Record<GradeBand, string>>>({});
+
+  const passageChoices = (band: GradeBand) =>
+    authoredPassages.filter(p => p.language === passageLanguage && p.grade === band);
+  const hasLibraryPassages = GRADE_BANDS.some(band => passageChoices(band).length > 0);
+
+  const handleLanguageChange = (language: string) => {
+    setPassageLanguage(language);
+    setPassageByBand({});
+  };
+
+  const classroomLabel = (id: string | null) =>
+    classroomOptions.find(c => c.id === id)?.label ?? 'Class removed';
+
+  const handleCreate = async () => {
+    const passageVersionIds = Object.values(passageByBand).filter(Boolean);
+    const id = await createCampaign
+      .mutateAsync({ name, classroomId, passageLanguage, passageVersionIds })
+      .catch(() => null);
+    if (id) navigate(`/campaigns/${id}`);
+  };
+
+  return (
+    <>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <ClipboardList className="w-8 h-8 text-primary" />
+          Screening Campaigns
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Screen a whole class on one device, one student after another
+        </p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>New campaign</CardTitle>
+          <CardDescription>
+            Every student in the class is queued in alphabetical order. Each reads the grade-levelled passage in
+            the chosen language, or the library passage picked for their grade band.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {classroomOptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Set up an organization with classrooms on the Students page to run a campaign.
+            </p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-[1fr_1fr_180px_auto] items-end">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Name</Label>
+                <Input
+                  id="campaign-name"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="e.g. Autumn screening"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Class</Label>
+                <Select value={classroomId || undefined} onValueChange={setClassroomId}>
+                  <SelectTrigger><SelectValue placeholder="Select class" /></SelectTrigger>
+                  <SelectContent>
+                    {classroomOptions.map(classroom => (
+                      <SelectItem key={classroom.id} value={classroom.id}>{classroom.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Passage language</Label>
+                <Select value={passageLanguage} onValueChange={handleLanguageChange}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map(lang => (
+                      <SelectItem key={lang.code} value={lang.code} disabled={!isAssessmentReady(lang.code)}>
+                        {lang.nativeName}{!isAssessmentReady(lang.code) && ' · not ready'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleCreate} disabled={!name.trim() || !classroomId || createCampaign.isPending}>
+                Create
+              </Button>
+              {hasLibraryPassages && (
+                <div className="md:col-span-4 grid gap-4 md:grid-cols-3">
+                  {GRADE_BANDS.map(band => (
+                    <div key={band} className="space-y-2">
+                      <Label>Passage for grades {band}</Label>
+                      <Select
+                        value={passageByBand[band] ?? BUILT_IN_PASSAGE}
+                        onValueChange={value => setPassageByBand(prev => ({
+                          ...prev,
+                          [band]: value === BUILT_IN_PASSAGE ? undefined : value,
+                        }))}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BUILT_IN_PASSAGE}>Standard passage</SelectItem>
+                          {passageChoices(band).map(p => (
+                            <SelectItem key={p.versionId} value={p.versionId}>{p.title} · library</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No campaigns yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/campaigns/${campaign.id}`} className="hover:underline">{campaign.name}</Link>
+                    </TableCell>
+                    <TableCell>{classroomLabel(campaign.classroom_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant={campaign.status === 'active' ? 'default' : 'secondary'}>
+                        {campaign.status === 'active' ? 'Active' : 'Closed'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(campaign.created_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-right">
+                      {campaign.created_by === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Delete campaign"
+                          onClick={() => deleteCampaign.mutate(campaign.id)}
+                          disabled={deleteCampaign.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+function CampaignBoard({ campaignId }: { campaignId: string }) {
+  const { campaign, entries, isLoading, setEntryStatus, setCampaignClosed } = useScreeningCampaign(campaignId);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto" />
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground mb-4">This campaign could not be found.</p>
+        <Button variant="outline" asChild><Link to="/campaigns">Back to campaigns</Link></Button>
+      </div>
+    );
+  }
+
+  const summary = summarizeCampaign(entries);
+  const isActive = campaign.status === 'active';
+  const columns: { title: string; icon: typeof Clock; entries: CampaignEntry[] }[] = [
+    { title: 'To do', icon: Clock, entries: entries.filter(e => e.status === 'pending' || e.status === 'absent') },
+    { title: 'Done', icon: CheckCircle, entries: entries.filter(e => e.status === 'completed' && !isFlagged(e)) },
+    { title: 'Needs retest', icon: RotateCcw, entries: entries.filter(e => e.status === 'retest') },
+    { title: 'Flagged', icon: AlertTriangle, entries: entries.filter(isFlagged) },
+  ];
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/campaigns">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All campaigns
+        </Link>
+      </Button>
+
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            {campaign.name}
+            {!isActive && <Badge variant="secondary">Closed</Badge>}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {summary.completed + summary.absent} of {summary.total} done · {summary.flagged} flagged
+            {summary.absent > 0 && ` · ${summary.absent} absent`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setCampaignClosed.mutate(isActive)}
+            disabled={setCampaignClosed.isPending}
+          >
+            {isActive ? <Lock className="w-4 h-4 mr-2" /> : <Unlock className="w-4 h-4 mr-2" />}
+            {isActive ? 'Close campaign' : 'Reopen'}
+          </Button>
+          {isActive && (
+            <Button asChild>
+              <Link to={`/assessment?campaign=${campaign.id}`}>
+                <Play className="w-4 h-4 mr-2" />
+                Start screening on this device
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Progress
+        value={summary.total > 0 ? ((summary.completed + summary.absent) / summary.total) * 100 : 0}
+        className="mb-8"
+      />
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {columns.map(column => (
+          <Card key={column.title}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <column.icon className="w-4 h-4 text-primary" />
+                {column.title}
+                <Badge variant="outline" className="ml-auto">{column.entries.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {column.entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nobody here</p>
+              ) : (
+                <ul className="space-y-2">
+                  {column.entries.map(entry => (
+                    <li key={entry.id} className="rounded-md border p-2 text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        {entry.diagnostic_result_id ? (
+                          <Link to={`/student/${entry.student_id}`} className="font-medium hover:underline">
+                            {entry.student.name}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{entry.student.name}</span>
+                        )}
+                        {entry.status === 'absent' ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => setEntryStatus.mutate({ entryId: entry.id, status: 'pending' })}
+                            disabled={setEntryStatus.isPending}
+                          >
+                            <UserX className="w-3 h-3 mr-1" />
+                            Absent · requeue
+                          </Button>
+                        ) : entry.risk_level && entry.status === 'completed' ? (
+                          <Badge variant={entry.risk_level === 'high' ? 'destructive' : 'secondary'} className="capitalize">
+                            {entry.risk_level}
+                          </Badge>
+                        ) : null}
+                      </div>
+                      {entry.status === 'retest' && (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+                          </p>
+                          <ul className="text-xs text-warning list-disc pl-4">
+                            {entry.quality_issues.map(issue => <li key={issue}>{issue}</li>)}
+                          </ul>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </>
+  );
+}
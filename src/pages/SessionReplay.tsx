@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REMoDNaVTimeline } from '@/components/dashboard/REMoDNaVTimeline';
+import { WordReadingTable } from '@/components/dashboard/WordReadingTable';
+import { GazeReplayCanvas } from '@/components/replay/GazeReplayCanvas';
+import { useSessionReplay } from '@/hooks/useSessionReplay';
+import { findTranscriptWordAt, type ReplayMarker, type ReplayMarkerKind } from '@/lib/analytics';
+import { logger } from '@/lib/logger';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Flag,
+  MessageSquare,
+  Pause,
+  Play,
+  RotateCcw,
+  SkipBack,
+  SkipForward,
+  Undo2,
+} from 'lucide-react';
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+// How far the audio may wander from the replay clock before it is re-seeked (s)
+const AUDIO_SYNC_TOLERANCE = 0.3;
+
+const MARKER_STYLES: Record<ReplayMarkerKind, { label: string; className: string }> = {
+  regression: { label: 'Regression', className: 'bg-red-500/10 text-red-600 border-red-500/30' },
+  stall: { label: 'Stall', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-500/30' },
+  observation: { label: 'Note', className: 'bg-blue-500/10 text-blue-600 border-blue-500/30' },
+  concern: { label: 'Concern', className: 'bg-orange-500/10 text-orange-600 border-orange-500/30' },
+  flag: { label: 'Flag', className: 'bg-purple-500/10 text-purple-600 border-purple-500/30' },
+};
+
+const formatClock = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function SessionReplayPage() {
+  const { diagnosticResultId } = useParams<{ diagnosticResultId: string }>();
+  const navigate = useNavigate();
+  const { result, recording, replay, audioUrl, audioTranscript, isLoading, error } = useSessionReplay(diagnosticResultId);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const startTime = replay?.startTime ?? 0;
+  const endTime = replay?.endTime ?? 0;
+
+  useEffect(() => {
+    if (replay) setCurrentTime(replay.startTime);
+  }, [replay]);
+
+  // Advance the playhead in real time, scaled by the playback speed
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+      setCurrentTime(prev => Math.min(endTime, prev + elapsed));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, endTime]);
+
+  useEffect(() => {
+    if (isPlaying && currentTime >= endTime) setIsPlaying(false);
+  }, [isPlaying, currentTime, endTime]);
+
+  // The reading audio starts with the voice step, on the recording's clock
+  const audioStartedAt = recording?.transcript?.startedAt ?? null;
+
+  // Drive the audio from the replay clock: same rate, re-seeked when it drifts
+  // or the playhead jumps, silent outside the voice step
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || audioStartedAt === null) return;
+
+    const target = (currentTime - audioStartedAt) / 1000;
+    const duration = Number.isFinite(audio.duration) ? audio.duration : Infinity;
+    const inRange = target >= 0 && target < duration;
+
+    audio.playbackRate = speed;
+    if (inRange && Math.abs(audio.currentTime - target) > AUDIO_SYNC_TOLERANCE) {
+      audio.currentTime = target;
+    }
+    if (isPlaying && inRange && !audio.ended) {
+      if (audio.paused) {
+        audio.play().catch(err => logger.warn('Reading audio playback was blocked', err));
+      }
+    } else if (!audio.paused) {
+      audio.pause();
+    }
+  }, [currentTime, isPlaying, speed, audioStartedAt, audioUrl]);
+
+  const spokenWordIndex = audioTranscript && audioStartedAt !== null
+    ? findTranscriptWordAt(audioTranscript.words, currentTime - audioStartedAt)
+    : -1;
+
+  const seek = useCallback((time: number) => {
+    setCurrentTime(Math.min(endTime, Math.max(startTime, time)));
+  }, [startTime, endTime]);
+
+  const togglePlay = useCallback(() => {
+    if (!isPlaying && currentTime >= endTime) setCurrentTime(startTime);
+    setIsPlaying(prev => !prev);
+  }, [isPlaying, currentTime, startTime, endTime]);
+
+  // Jump to the previous/next marker of the given kinds; a small lead-in shows what led up to it
+  const jump = useCallback((kinds: ReplayMarkerKind[], direction: 1 | -1) => {
+    if (!replay) return;
+    const candidates = replay.markers.filter(m => kinds.includes(m.kind));
+    const target = direction === 1
+      ? candidates.find(m => m.time - 500 > currentTime + 1)
+      : [...candidates].reverse().find(m => m.time - 500 < currentTime - 1);
+    if (target) seek(target.time - 500);
+  }, [replay, currentTime, seek]);
+
+  const stallMarkers = useMemo(() => replay?.markers.filter(m => m.kind === 'stall') ?? [], [replay]);
+  const noteMarkers = useMemo(
+    () => replay?.markers.filter(m => m.kind === 'observation' || m.kind === 'concern' || m.kind === 'flag') ?? [],
+    [replay]
+  );
+  const regressionCount = useMemo(() => replay?.markers.filter(m => m.kind === 'regression').length ?? 0, [replay]);
+
+  const isActive = (marker: ReplayMarker) =>
+    currentTime >= marker.time && currentTime <= Math.max(marker.endTime, marker.time + 1000);
+
+  const renderMarker = (marker: ReplayMarker, i: number) => (
+    <button
+      key={`${marker.kind}-${marker.time}-${i}`}
+      onClick={() => seek(marker.time - 500)}
+      className={`w-full text-left p-2 rounded border text-sm transition-colors ${MARKER_STYLES[marker.kind].className} ${
+        isActive(marker) ? 'ring-2 ring-primary' : ''
+      }`}
+    >
+      <span className="font-mono text-xs mr-2">{formatClock(marker.time - startTime)}</span>
+      <span className="font-medium mr-1">{MARKER_STYLES[marker.kind].label}:</span>
+      {marker.label}
+    </button>
+  );
+
+  const backPath = result?.studentId ? `/student/${result.studentId}` : '/dashboard';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-24 pb-16">
+        <div className="container max-w-6xl space-y-6">
+          <div>
+            <Button variant="ghost" onClick={() => navigate(backPath)} className="mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-3xl font-bold">Session Replay</h1>
+            {result && (
+              <p className="text-muted-foreground">
+                {result.studentName || 'Self-assessment'} · {format(new Date(result.createdAt), 'PPp')} · {result.sessionId}
+              </p>
+            )}
+          </div>
+
+          {isLoading && (
+            <div className="space-y-4">
+              <Skeleton className="h-96 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          )}
+
+          {!isLoading && error && (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <AlertTriangle className="w-10 h-10 mx-auto mb-3 text-warning" />
+                <p className="text-muted-foreground">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && replay && recording && (
+            <>
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">Gaze Path</CardTitle>
+                    <div className="flex gap-2">
+                      {replay.source && <Badge variant="outline">{replay.source}</Badge>}
+                      {audioUrl && <Badge variant="outline">With reading audio</Badge>}
+                      <Badge variant="secondary">{replay.track.length} samples</Badge>
+                      {!recording.layout && <Badge variant="destructive">No passage layout recorded</Badge>}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="rounded-lg border bg-card overflow-hidden">
+                    <GazeReplayCanvas
+                      track={replay.track}
+                      layout={recording.layout}
+                      viewport={recording.viewport}
+                      currentTime={currentTime}
+                    />
+                  </div>
+
+                  {/* Transport */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button size="sm" onClick={togglePlay}>
+                      {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => seek(startTime)}>
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <span className="font-mono text-sm w-24">
+                      {formatClock(currentTime - startTime)} / {formatClock(endTime - startTime)}
+                    </span>
+                    <Select value={String(speed)} onValueChange={v => setSpeed(Number(v))}>
+                      <SelectTrigger className="w-24 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PLAYBACK_SPEEDS.map(s => (
+                          <SelectItem key={s} value={String(s)}>{s}×</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1 ml-auto">
+                      <Button size="sm" variant="outline" onClick={() => jump(['regression'], -1)} disabled={regressionCount === 0}>
+                        <SkipBack className="w-4 h-4" />
+                      </Button>
+                      <span className="text-xs text-muted-foreground px-1">
+                        <Undo2 className="w-3 h-3 inline mr-1" />Regression
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => jump(['regression'], 1)} disabled={regressionCount === 0}>
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => jump(['stall'], -1)} disabled={stallMarkers.length === 0}>
+                        <SkipBack className="w-4 h-4" />
+                      </Button>
+                      <span className="text-xs text-muted-foreground px-1">
+                        <MessageSquare className="w-3 h-3 inline mr-1" />Stall
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => jump(['stall'], 1)} disabled={stallMarkers.length === 0}>
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Slider
+                    value={[currentTime]}
+                    min={startTime}
+                    max={Math.max(endTime, startTime + 1)}
+                    step={10}
+                    onValueChange={([v]) => seek(v)}
+                  />
+                </CardContent>
+              </Card>
+
+              <REMoDNaVTimeline
+                events={replay.events}
+                totalDuration={endTime - startTime}
+                currentTime={currentTime}
+                onTimeSeek={seek}
+                isPlaying={isPlaying}
+                onPlayPause={togglePlay}
+              />
+
+              {replay.wordReading && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Word-level Reading</CardTitle>
+                    <CardDescription>Fixations mapped onto the passage words they landed on</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <WordReadingTable analysis={replay.wordReading} limit={10} />
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Transcript</CardTitle>
+                    <CardDescription>
+                      {audioTranscript?.words.length
+                        ? 'Words transcribed from the reading audio, following the playhead'
+                        : 'Speech recognised during the voice step, with hesitations'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {audioUrl && <audio ref={audioRef} src={audioUrl} preload="auto" />}
+                    {audioTranscript?.words.length ? (
+                      <p className="p-3 rounded-lg bg-muted/50 leading-relaxed">
+                        {audioTranscript.words.map((w, i) => (
+                          <span
+                            key={`${w.startMs}-${i}`}
+                            className={`rounded px-0.5 transition-colors ${
+                              i === spokenWordIndex ? 'bg-primary text-primary-foreground' : ''
+                            }`}
+                          >
+                            {w.word}{' '}
+                          </span>
+                        ))}
+                      </p>
+                    ) : recording.transcript?.text ? (
+                      <p className="p-3 rounded-lg bg-muted/50 leading-relaxed">{recording.transcript.text}</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No transcript was recorded for this session.</p>
+                    )}
+                    <div className="space-y-2">
+                      {stallMarkers.map(renderMarker)}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <Flag className="w-4 h-4" />
+                      Clinician Notes
+                    </CardTitle>
+                    <CardDescription>Notes and flags taken while observing the assessment</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {noteMarkers.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No notes were taken during this session.</p>
+                    ) : (
+                      noteMarkers.map(renderMarker)
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -11,6 +11,11 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { EmailReportDialog } from '@/components/email/EmailReportDialog';
+import { ParentAccessCard } from '@/components/parent/ParentAccessCard';
+import { StudentMessagesPanel } from '@/components/parent/StudentMessagesPanel';
+import { ProgressAnalysisPanel } from '@/components/dashboard/ProgressAnalysisPanel';
+import { InterventionPlansPanel } from '@/components/interventions/InterventionPlansPanel';
+import { useRealTimeNotifications } from '@/hooks/useRealTimeNotifications';
 import { logger } from '@/lib/logger';
 import {
   AreaChart,
@@ -32,7 +37,8 @@ import {
   AlertTriangle,
   CheckCircle,
   Plus,
-  Mail
+  Mail,
+  PlayCircle
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { Tables } from '@/integrations/supabase/types';
@@ -48,12 +54,14 @@ const getRiskLevelFromResult = (result: DiagnosticResult): string => {
 export default function StudentProfilePage() {
   const { studentId } = useParams<{ studentId: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
+  useRealTimeNotifications();
   
   const [student, setStudent] = useState<Student | null>(null);
   const [diagnosticResults, setDiagnosticResults] = useState<DiagnosticResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState('overview');
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') ?? 'overview');
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
   const [selectedAssessmentId, setSelectedAssessmentId] = useState<string | null>(null);
 
@@ -211,10 +219,12 @@ export default function StudentProfilePage() {
 
           {/* Tabs */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3 max-w-md">
+            <TabsList className="grid w-full grid-cols-5 max-w-2xl">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="assessments">Assessments</TabsTrigger>
               <TabsTrigger value="progress">Progress</TabsTrigger>
+              <TabsTrigger value="interventions">Interventions</TabsTrigger>
+              <TabsTrigger value="messages">Messages</TabsTrigger>
             </TabsList>
 
             {/* Overview Tab */}
@@ -334,6 +344,9 @@ export default function StudentProfilePage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Parent access codes and linked parent accounts */}
+              <ParentAccessCard studentId={student.id} studentName={student.name} />
             </TabsContent>
 
             {/* Assessments Tab */}
@@ -368,6 +381,7 @@ export default function StudentProfilePage() {
                               <div className="flex items-center gap-2">
                                 <Badge variant="outline">{result.id.slice(0, 8)}</Badge>
                                 {getRiskBadge(getRiskLevelFromResult(result))}
+                                {result.screening_only && <Badge variant="outline">Screening only</Badge>}
                               </div>
                               <p className="text-sm text-muted-foreground mt-1">
                                 {format(new Date(result.created_at), 'PPp')}
@@ -382,6 +396,16 @@ export default function StudentProfilePage() {
                                     : 'N/A'}
                                 </p>
                               </div>
+                              {result.gaze_recording_upload_id && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => navigate(`/replay/${result.id}`)}
+                                >
+                                  <PlayCircle className="w-4 h-4 mr-1" />
+                                  Replay
+                                </Button>
+                              )}
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -405,13 +429,13 @@ export default function StudentProfilePage() {
 
             {/* Progress Tab */}
             <TabsContent value="progress">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Progress Analysis</CardTitle>
-                  <CardDescription>Track improvement over time</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {progressData.length < 2 ? (
+              {diagnosticResults.length < 2 ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Progress Analysis</CardTitle>
+                    <CardDescription>Track improvement over time</CardDescription>
+                  </CardHeader>
+                  <CardContent>
                     <div className="text-center py-12 text-muted-foreground">
                       <TrendingUp className="w-12 h-12 mx-auto mb-4 opacity-50" />
                       <p>Need at least 2 assessments to show progress</p>
@@ -423,38 +447,26 @@ export default function StudentProfilePage() {
                         Run New Assessment
                       </Button>
                     </div>
-                  ) : (
-                    <ResponsiveContainer width="100%" height={400}>
-                      <AreaChart data={progressData}>
-                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                        <XAxis dataKey="name" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
-                        <YAxis tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} domain={[0, 100]} />
-                        <Tooltip
-                          contentStyle={{
-                            backgroundColor: 'hsl(var(--card))',
-                            border: '1px solid hsl(var(--border))',
-                            borderRadius: '8px',
-                          }}
-                        />
-                        <Area
-                          type="monotone"
-                          dataKey="fluency"
-                          stroke="hsl(var(--primary))"
-                          fill="hsl(var(--primary) / 0.3)"
-                          name="Fluency Score"
-                        />
-                        <Area
-                          type="monotone"
-                          dataKey="dyslexiaRisk"
-                          stroke="hsl(var(--destructive))"
-                          fill="hsl(var(--destructive) / 0.3)"
-                          name="Dyslexia Risk %"
-                        />
-                      </AreaChart>
-                    </ResponsiveContainer>
-                  )}
-                </CardContent>
-              </Card>
+                  </CardContent>
+                </Card>
+              ) : (
+                <ProgressAnalysisPanel student={student} results={diagnosticResults} />
+              )}
+            </TabsContent>
+
+            {/* Interventions Tab */}
+            <TabsContent value="interventions">
+              <InterventionPlansPanel student={student} results={diagnosticResults} />
+            </TabsContent>
+
+            {/* Messages Tab */}
+            <TabsContent value="messages">
+              <StudentMessagesPanel
+                studentId={student.id}
+                studentName={student.name}
+                reports={diagnosticResults}
+                onOpenReport={() => setActiveTab('assessments')}
+              />
             </TabsContent>
           </Tabs>
         </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -13,10 +13,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { OrganizationManagerDialog } from '@/components/organization/OrganizationManagerDialog';
+import { RosterImportDialog } from '@/components/students/RosterImportDialog';
 import { toast } from 'sonner';
-import { Plus, Pencil, Trash2, UserPlus, Users, Eye } from 'lucide-react';
+import { Plus, Pencil, Trash2, UserPlus, Users, Eye, Building2, ArrowRightLeft, ClipboardList, FileUp, FileDown, BookOpen } from 'lucide-react';
 import type { Tables } from '@/integrations/supabase/types';
 import { useUserRole } from '@/hooks/useUserRole';
+import { fetchAccessibleStudentsFilter, useOrganizations } from '@/hooks/useOrganizations';
+import { useStudentRoster } from '@/hooks/useStudentRoster';
+import { ALL_PLACEMENTS, filterStudentsByPlacement, type PlacementFilter } from '@/lib/organizations';
 
 type Student = Tables<'students'>;
 
@@ -30,12 +37,19 @@ export default function Students() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [isOrganizationsOpen, setIsOrganizationsOpen] = useState(false);
+  const [placementFilter, setPlacementFilter] = useState<PlacementFilter>(ALL_PLACEMENTS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { organizations, classroomOptions, moveStudents } = useOrganizations();
+  const { exportRoster } = useStudentRoster();
 
-  // Form state - aligned with actual database schema (students table has: name, age, grade, notes, clinician_id)
+  // Form state - aligned with actual database schema (students table has: name, age, grade, date_of_birth, notes, clinician_id)
   const [formData, setFormData] = useState({
     name: '',
     age: '',
     grade: '',
+    dateOfBirth: '',
     notes: '',
   });
 
@@ -46,7 +60,8 @@ export default function Students() {
       const { data, error } = await supabase
         .from('students')
         .select('*')
-        .eq('clinician_id', user!.id)
+        // Own students plus classroom students shared through an organization
+        .or(await fetchAccessibleStudentsFilter(user!.id))
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -55,12 +70,43 @@ export default function Students() {
     enabled: !!user
   });
 
+  const classroomLabels = useMemo(
+    () => new Map(classroomOptions.map(c => [c.id, c.label])),
+    [classroomOptions]
+  );
+  const visibleStudents = useMemo(
+    () => filterStudentsByPlacement(students ?? [], placementFilter, classroomOptions),
+    [students, placementFilter, classroomOptions]
+  );
+  const filterClassrooms = placementFilter.organizationId === 'all'
+    ? classroomOptions
+    : classroomOptions.filter(c => c.organizationId === placementFilter.organizationId);
+  const selectedVisible = visibleStudents.filter(s => selectedIds.has(s.id));
+  const allVisibleSelected = visibleStudents.length > 0 && selectedVisible.length === visibleStudents.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleMove = (classroomId: string | null) => {
+    moveStudents.mutate(
+      { studentIds: selectedVisible.map(s => s.id), classroomId },
+      { onSuccess: () => setSelectedIds(new Set()) }
+    );
+  };
+
   // Create mutation
   const createMutation = useMutation({
     mutationFn: async (student: { 
       name: string; 
       age: number;
       grade: string; 
+      date_of_birth: string | null;
       notes: string | null; 
       clinician_id: string 
     }) => {
@@ -70,6 +116,7 @@ export default function Students() {
           name: student.name,
           age: student.age,
           grade: student.grade,
+          date_of_birth: student.date_of_birth,
           notes: student.notes,
           clinician_id: student.clinician_id,
         }])
@@ -92,7 +139,7 @@ export default function Students() {
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<{ name: string; age: number; grade: string; notes: string | null }> }) => {
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<{ name: string; age: number; grade: string; date_of_birth: string | null; notes: string | null }> }) => {
       const { data, error } = await supabase
         .from('students')
         .update(updates)
@@ -139,6 +186,7 @@ export default function Students() {
       name: '',
       age: '',
       grade: '',
+      dateOfBirth: '',
       notes: '',
     });
   };
@@ -160,6 +208,7 @@ export default function Students() {
       name: formData.name,
       age: ageNum,
       grade: formData.grade,
+      date_of_birth: formData.dateOfBirth || null,
       notes: formData.notes || null,
       clinician_id: user.id
     });
@@ -176,6 +225,7 @@ export default function Students() {
         name: formData.name,
         age: ageNum,
         grade: formData.grade,
+        date_of_birth: formData.dateOfBirth || null,
         notes: formData.notes || null,
       }
     });
@@ -187,6 +237,7 @@ export default function Students() {
       name: student.name,
       age: student.age.toString(),
       grade: student.grade,
+      dateOfBirth: student.date_of_birth || '',
       notes: student.notes || '',
     });
   };
@@ -230,84 +281,121 @@ export default function Students() {
               </p>
             </div>
             
-            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-              <DialogTrigger asChild>
-                <Button onClick={() => { resetForm(); setIsCreateOpen(true); }}>
-                  <UserPlus className="w-4 h-4 mr-2" />
-                  Add Student
+            <div className="flex items-center gap-2">
+              {organizations.length > 0 && (
+                <Button variant="outline" onClick={() => navigate('/campaigns')}>
+                  <ClipboardList className="w-4 h-4 mr-2" />
+                  Screening
                 </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Student</DialogTitle>
-                  <DialogDescription>
-                    Enter the student's information to create their profile.
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Full Name *</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      placeholder="Student's full name"
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
+              )}
+              <Button variant="outline" onClick={() => navigate('/passages')}>
+                <BookOpen className="w-4 h-4 mr-2" />
+                Passages
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => exportRoster.mutate(classroomLabels)}
+                disabled={exportRoster.isPending || !students?.length}
+              >
+                <FileDown className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                <FileUp className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" onClick={() => setIsOrganizationsOpen(true)}>
+                <Building2 className="w-4 h-4 mr-2" />
+                Organizations
+              </Button>
+              <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => { resetForm(); setIsCreateOpen(true); }}>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Add Student
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Student</DialogTitle>
+                    <DialogDescription>
+                      Enter the student's information to create their profile.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4 py-4">
                     <div className="space-y-2">
-                      <Label htmlFor="age">Age *</Label>
+                      <Label htmlFor="name">Full Name *</Label>
                       <Input
-                        id="age"
-                        type="number"
-                        min={3}
-                        max={100}
-                        value={formData.age}
-                        onChange={(e) => setFormData({ ...formData, age: e.target.value })}
-                        placeholder="Age in years"
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="Student's full name"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="grade">Grade *</Label>
-                      <Select
-                        value={formData.grade}
-                        onValueChange={(value) => setFormData({ ...formData, grade: value })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select grade" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {GRADES.map((grade) => (
-                            <SelectItem key={grade} value={grade}>
-                              {grade}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <Label htmlFor="date-of-birth">Date of Birth</Label>
+                      <Input
+                        id="date-of-birth"
+                        type="date"
+                        value={formData.dateOfBirth}
+                        onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="age">Age *</Label>
+                        <Input
+                          id="age"
+                          type="number"
+                          min={3}
+                          max={100}
+                          value={formData.age}
+                          onChange={(e) => setFormData({ ...formData, age: e.target.value })}
+                          placeholder="Age in years"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="grade">Grade *</Label>
+                        <Select
+                          value={formData.grade}
+                          onValueChange={(value) => setFormData({ ...formData, grade: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select grade" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GRADES.map((grade) => (
+                              <SelectItem key={grade} value={grade}>
+                                {grade}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="notes">Notes</Label>
+                      <Textarea
+                        id="notes"
+                        value={formData.notes}
+                        onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                        placeholder="Any additional notes..."
+                        rows={3}
+                      />
                     </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="notes">Notes</Label>
-                    <Textarea
-                      id="notes"
-                      value={formData.notes}
-                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                      placeholder="Any additional notes..."
-                      rows={3}
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
-                  <Button 
-                    onClick={handleCreate}
-                    disabled={!formData.name || !formData.age || !formData.grade || createMutation.isPending}
-                  >
-                    {createMutation.isPending ? 'Adding...' : 'Add Student'}
-                  </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                    <Button 
+                      onClick={handleCreate}
+                      disabled={!formData.name || !formData.age || !formData.grade || createMutation.isPending}
+                    >
+                      {createMutation.isPending ? 'Adding...' : 'Add Student'}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           {/* Stats Cards */}
@@ -334,6 +422,53 @@ export default function Students() {
               <CardDescription>View and manage all student profiles</CardDescription>
             </CardHeader>
             <CardContent>
+              {organizations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <Select
+                    value={placementFilter.organizationId}
+                    onValueChange={(organizationId) => setPlacementFilter({ organizationId, classroomId: 'all' })}
+                  >
+                    <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All organizations</SelectItem>
+                      {organizations.map((org) => (
+                        <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={placementFilter.classroomId}
+                    onValueChange={(classroomId) => setPlacementFilter({ ...placementFilter, classroomId })}
+                  >
+                    <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All classes</SelectItem>
+                      <SelectItem value="unassigned">Not in a class</SelectItem>
+                      {filterClassrooms.map((classroom) => (
+                        <SelectItem key={classroom.id} value={classroom.id}>{classroom.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {selectedVisible.length > 0 && (
+                    <div className="flex items-center gap-2 ml-auto">
+                      <span className="text-sm text-muted-foreground">{selectedVisible.length} selected</span>
+                      <Select value="" onValueChange={(classroomId) => handleMove(classroomId === 'none' ? null : classroomId)}>
+                        <SelectTrigger className="w-[200px]" disabled={moveStudents.isPending}>
+                          <ArrowRightLeft className="w-4 h-4 mr-2" />
+                          <SelectValue placeholder="Move to class" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Remove from class</SelectItem>
+                          {classroomOptions.map((classroom) => (
+                            <SelectItem key={classroom.id} value={classroom.id}>{classroom.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              )}
               {isLoading ? (
                 <div className="text-center py-12">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto" />
@@ -342,21 +477,42 @@ export default function Students() {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          aria-label="Select all"
+                          checked={allVisibleSelected}
+                          onCheckedChange={(checked) => setSelectedIds(checked ? new Set(visibleStudents.map(s => s.id)) : new Set())}
+                        />
+                      </TableHead>
                       <TableHead>Name</TableHead>
                       <TableHead>Age</TableHead>
                       <TableHead>Grade</TableHead>
+                      <TableHead>Class</TableHead>
                       <TableHead>Added</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {students.map((student) => (
-                      <TableRow key={student.id}>
+                    {visibleStudents.map((student) => (
+                      <TableRow key={student.id} data-state={selectedIds.has(student.id) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select ${student.name}`}
+                            checked={selectedIds.has(student.id)}
+                            onCheckedChange={() => toggleSelected(student.id)}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium">
                           {student.name}
+                          {student.clinician_id !== user.id && (
+                            <Badge variant="outline" className="ml-2">Shared</Badge>
+                          )}
                         </TableCell>
                         <TableCell>{student.age}</TableCell>
                         <TableCell>{student.grade}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {student.classroom_id ? classroomLabels.get(student.classroom_id) ?? '—' : '—'}
+                        </TableCell>
                         <TableCell>{new Date(student.created_at).toLocaleDateString()}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
@@ -366,13 +522,22 @@ export default function Students() {
                             <Button variant="ghost" size="icon" onClick={() => openEditDialog(student)}>
                               <Pencil className="w-4 h-4" />
                             </Button>
-                            <Button variant="ghost" size="icon" className="text-destructive" onClick={() => setDeleteConfirm(student.id)}>
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            {student.clinician_id === user.id && (
+                              <Button variant="ghost" size="icon" className="text-destructive" onClick={() => setDeleteConfirm(student.id)}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
                     ))}
+                    {visibleStudents.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                          No students match these filters
+                        </TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               ) : (
@@ -388,6 +553,14 @@ export default function Students() {
             </CardContent>
           </Card>
 
+          <OrganizationManagerDialog open={isOrganizationsOpen} onOpenChange={setIsOrganizationsOpen} />
+          <RosterImportDialog
+            open={isImportOpen}
+            onOpenChange={setIsImportOpen}
+            students={students ?? []}
+            classroomOptions={classroomOptions}
+          />
+
           {/* Edit Dialog */}
           <Dialog open={!!editingStudent} onOpenChange={(open) => !open && setEditingStudent(null)}>
             <DialogContent>
@@ -399,6 +572,10 @@ export default function Students() {
                   <Label>Full Name *</Label>
                   <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} />
                 </div>
+                <div className="space-y-2">
+                  <Label>Date of Birth</Label>
+                  <Input type="date" value={formData.dateOfBirth} onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })} />
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label>Age *</Label>
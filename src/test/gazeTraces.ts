@@ -0,0 +1,144 @@
+/**
+ * Golden synthetic gaze traces for the scoring-engine tests
+ *
+ * Each trace is a seeded synthetic reading (see `generateSyntheticReading`)
+ * of a fixed passage, without blinks so every sample is usable. Alongside the
+ * raw samples it carries the ground-truth fixations and saccades it was built
+ * from, so tests can check both event recovery and downstream scores.
+ */
+
+import type { Fixation, GazePoint, Saccade } from '@/types/diagnostic';
+import {
+  buildLineBoxes,
+  generateSyntheticReading,
+  type PassageLayout,
+  type SyntheticReaderConfig,
+  type WordBox,
+} from '@/lib/analytics';
+
+export interface ReaderProfile extends Pick<
+  SyntheticReaderConfig,
+  | 'sampleRate'
+  | 'fixationMs'
+  | 'fixationJitterMs'
+  | 'saccadeChars'
+  | 'regressionProbability'
+  | 'regressionChars'
+  | 'noisePx'
+  | 'driftPxPerSecond'
+> {
+  name: string;
+}
+
+export interface GoldenTrace {
+  profile: ReaderProfile;
+  layout: PassageLayout;
+  samples: GazePoint[];
+  fixations: Fixation[];
+  saccades: Saccade[];
+  regressionCount: number;
+}
+
+export const NORMAL_READER: ReaderProfile = {
+  name: 'normal reader',
+  sampleRate: 250,
+  fixationMs: 220,
+  fixationJitterMs: 40,
+  saccadeChars: 8,
+  regressionProbability: 0.04,
+  regressionChars: 10,
+  noisePx: 0.3,
+  driftPxPerSecond: 0,
+};
+
+export const REGRESSIVE_READER: ReaderProfile = {
+  ...NORMAL_READER,
+  name: 'regressive reader',
+  fixationMs: 300,
+  regressionProbability: 0.35,
+  regressionChars: 14,
+};
+
+export const STEP_BY_STEP_DECODER: ReaderProfile = {
+  ...NORMAL_READER,
+  name: 'step-by-step decoder',
+  fixationMs: 380,
+  fixationJitterMs: 60,
+  saccadeChars: 4,
+  regressionProbability: 0.15,
+  regressionChars: 6,
+};
+
+export const NOISY_WEBCAM: ReaderProfile = {
+  ...NORMAL_READER,
+  name: 'noisy webcam',
+  sampleRate: 30,
+  noisePx: 6,
+  driftPxPerSecond: 2.5,
+};
+
+export const GOLDEN_PROFILES = [NORMAL_READER, REGRESSIVE_READER, STEP_BY_STEP_DECODER, NOISY_WEBCAM];
+
+const PASSAGE =
+  'The little boat rocked gently on the water as the sun rose over the hills. ' +
+  'Maya pulled the oars and watched the shore grow smaller behind her. ' +
+  'Birds called to each other from the tall reeds along the river bank. ' +
+  'She had promised her grandfather that she would bring back three fish before noon. ' +
+  'The river was quiet and the morning air smelled of pine and wet stones.';
+
+const CHAR_WIDTH = 10;
+const CHARS_PER_LINE = 60;
+const LINE_HEIGHT = 40;
+const ORIGIN = { x: 100, y: 200 };
+const PIXELS_PER_DEGREE = 35;
+
+export function buildGoldenLayout(): PassageLayout {
+  const words: WordBox[] = [];
+  let line = 0;
+  let column = 0;
+
+  PASSAGE.split(' ').forEach((text, index) => {
+    if (column > 0 && column + text.length > CHARS_PER_LINE) {
+      line++;
+      column = 0;
+    }
+    words.push({
+      index,
+      text,
+      line,
+      x: ORIGIN.x + column * CHAR_WIDTH,
+      y: ORIGIN.y + line * LINE_HEIGHT,
+      width: text.length * CHAR_WIDTH,
+      height: LINE_HEIGHT * 0.7,
+    });
+    column += text.length + 1;
+  });
+
+  return {
+    text: PASSAGE,
+    words,
+    lines: buildLineBoxes(words),
+    viewport: { width: 1280, height: 720 },
+    measuredAt: 0,
+  };
+}
+
+export function generateGoldenTrace(profile: ReaderProfile, seed = 1): GoldenTrace {
+  const layout = buildGoldenLayout();
+  const reading = generateSyntheticReading(layout, {
+    ...profile,
+    blinksPerMinute: 0,
+    pixelsPerDegree: PIXELS_PER_DEGREE,
+    seed,
+    startTime: 1000,
+  });
+
+  return {
+    profile,
+    layout,
+    samples: reading.samples.map(({ x, y, timestamp }) => ({ x, y, timestamp })),
+    fixations: reading.fixations,
+    saccades: reading.saccades,
+    regressionCount: reading.regressionCount,
+  };
+}
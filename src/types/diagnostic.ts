@@ -1,3 +1,9 @@
+import type { WordReadingAnalysis } from '../lib/analytics/types.ts';
+import type { DriftCorrectionSummary } from '../lib/analytics/driftCorrection.ts';
+import type { CalibrationValidationResult } from '../lib/analytics/calibrationValidation.ts';
+import type { MiscueAnalysis } from '../lib/analytics/miscueAnalysis.ts';
+import type { AcousticProsodyAnalysis } from '../lib/analytics/acousticProsody.ts';
+
 export interface GazePoint {
   x: number;
   y: number;
@@ -73,6 +79,16 @@ export interface DiagnosticResult {
   overallRiskLevel: 'low' | 'moderate' | 'high';
   timestamp: Date;
   sessionId: string;
+  // Per-word reading measures, when the passage layout was captured
+  wordReading?: WordReadingAnalysis;
+  // How far the reading-step fixations were moved onto passage lines
+  driftCorrection?: DriftCorrectionSummary;
+  // Measured gaze accuracy/precision after calibration; absent when calibration was skipped
+  calibrationValidation?: CalibrationValidationResult;
+  // Transcript aligned to the passage text, when the passage and a transcript are both known
+  miscueAnalysis?: MiscueAnalysis;
+  // Pitch, intensity and pause features measured from the reading audio; voice.prosodyScore is its overall score
+  acousticProsody?: AcousticProsodyAnalysis;
 }
 
 export interface CalibrationPoint {
@@ -81,7 +97,8 @@ export interface CalibrationPoint {
   completed: boolean;
 }
 
-export type TrackingBackend = 'mediapipe' | 'webgazer' | 'none';
+// Id of the eye-tracker provider in use, e.g. 'mediapipe', 'tobii' or any registered tracker
+export type TrackingBackend = 'mediapipe' | 'webgazer' | 'tobii' | 'synthetic' | 'none' | (string & {});
 
 export interface EyeTrackingDebugInfo {
   fps: number;
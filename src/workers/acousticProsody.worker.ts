@@ -0,0 +1,27 @@
+/**
+ * Acoustic Prosody Worker
+ * Runs the pitch autocorrelation over a decoded reading off the main thread,
+ * and returns the analysis with its contours downsampled for saving
+ */
+
+import { analyzeAcousticProsody, downsampleAcousticFeatures, type AcousticProsodyAnalysis } from '@/lib/analytics';
+
+export interface AcousticProsodyRequest {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type AcousticProsodyResponse =
+  | { analysis: AcousticProsodyAnalysis }
+  | { error: string };
+
+self.addEventListener('message', (event: MessageEvent<AcousticProsodyRequest>) => {
+  let response: AcousticProsodyResponse;
+  try {
+    const { features, summary, scores } = analyzeAcousticProsody(event.data.samples, event.data.sampleRate);
+    response = { analysis: { features: downsampleAcousticFeatures(features), summary, scores } };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Acoustic analysis failed' };
+  }
+  self.postMessage(response);
+});
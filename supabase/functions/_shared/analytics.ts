@@ -0,0 +1,6 @@
+// Bridge to the framework-agnostic gaze analytics core in src/lib/analytics.
+// Edge functions import from here so browser and server scoring share one
+// implementation. The core is vendored next to this file, since functions are
+// deployed without the rest of the repository; refresh it with
+// `npm run sync:edge-analytics`.
+export * from "./vendor/lib/analytics/index.ts";
@@ -1,4 +1,13 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  generateRuleBasedInsights,
+  NARRATIVE_LANGUAGES,
+  RULE_BASED_MODEL,
+  RULE_BASED_PROMPT_VERSION,
+  type DyslexiaBiomarkers,
+  type NarrativeLanguage,
+  type REMoDNaVMetrics,
+} from "../_shared/analytics.ts";
 
 // Allowed origins for CORS - restrict to production domains
 const ALLOWED_ORIGINS = [
@@ -70,9 +79,46 @@ interface DiagnosticResult {
 
 interface RequestBody {
   diagnosticResult: DiagnosticResult;
-  biomarkers?: Record<string, number>;
-  remoDNavMetrics?: Record<string, number>;
+  biomarkers?: Partial<DyslexiaBiomarkers>;
+  remoDNavMetrics?: Partial<REMoDNaVMetrics>;
   studentInfo?: { name: string; grade: string; age?: number };
+  // Stored diagnostic_results row the insights belong to; enables history
+  diagnosticResultId?: string;
+  // Generate a new version even when one exists for the same inputs
+  regenerate?: boolean;
+  // "rules" skips the model and uses the rule-based narrative templates
+  engine?: "model" | "rules";
+  // Language of the rule-based narrative
+  language?: NarrativeLanguage;
+}
+
+const MODEL = "google/gemini-2.5-flash";
+// Bump whenever buildPrompt or the system message changes, so stored
+// versions record which prompt produced them
+const PROMPT_VERSION = "insights-v1";
+
+// Concurrent generations can pick the same next version number; the loser
+// of the unique constraint takes the following number
+const VERSION_INSERT_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = "23505";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// JSON with object keys sorted, so equal inputs always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 // Validate input structure
@@ -87,6 +133,12 @@ function validateInput(body: unknown): body is RequestBody {
   if (typeof dr.adhdProbabilityIndex !== "number") return false;
   if (typeof dr.dysgraphiaProbabilityIndex !== "number") return false;
   if (!["low", "moderate", "high"].includes(dr.overallRiskLevel as string)) return false;
+
+  if (b.diagnosticResultId !== undefined &&
+    (typeof b.diagnosticResultId !== "string" || !UUID_PATTERN.test(b.diagnosticResultId))) return false;
+  if (b.regenerate !== undefined && typeof b.regenerate !== "boolean") return false;
+  if (b.engine !== undefined && !["model", "rules"].includes(b.engine as string)) return false;
+  if (b.language !== undefined && !NARRATIVE_LANGUAGES.includes(b.language as NarrativeLanguage)) return false;
   
   return true;
 }
@@ -140,7 +192,16 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { diagnosticResult, biomarkers, remoDNavMetrics, studentInfo } = body;
+    const {
+      diagnosticResult,
+      biomarkers,
+      remoDNavMetrics,
+      studentInfo,
+      diagnosticResultId,
+      regenerate,
+      engine = "model",
+      language = "en",
+    } = body;
 
     // Sanitize student info
     const safeName = studentInfo?.name ? sanitizeString(studentInfo.name, 50) : "Student";
@@ -149,28 +210,127 @@ Deno.serve(async (req: Request) => {
       ? studentInfo.age 
       : undefined;
 
-    // Build prompt for AI analysis
-    const prompt = buildPrompt(diagnosticResult, biomarkers, remoDNavMetrics, safeName, safeGrade, safeAge);
+    const inputHash = await sha256Hex(canonicalJson({
+      diagnosticResult,
+      biomarkers,
+      remoDNavMetrics,
+      studentInfo: { name: safeName, grade: safeGrade, age: safeAge },
+      language,
+    }));
+    const promptVersion = engine === "rules" ? RULE_BASED_PROMPT_VERSION : PROMPT_VERSION;
+
+    // Serve the stored version instead of re-billing the model: the approved
+    // one if there is one, otherwise the latest generated from these inputs.
+    // Asking for the rule-based narrative skips the approved version.
+    if (diagnosticResultId && !regenerate) {
+      const { data: versions, error: versionsError } = await supabase
+        .from("ai_insight_versions")
+        .select("*")
+        .eq("diagnostic_result_id", diagnosticResultId)
+        .order("version", { ascending: false });
+
+      if (versionsError) {
+        console.error("Failed to read insight history:", versionsError.code);
+      } else {
+        const stored = (engine === "model" ? versions.find((v) => v.status === "approved") : undefined) ??
+          versions.find((v) => v.input_hash === inputHash && v.prompt_version === promptVersion);
+        if (stored) {
+          return new Response(
+            JSON.stringify({ insights: stored.edited_insights ?? stored.insights, version: stored, cached: true }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
+    }
 
-    // Call Lovable AI Gateway
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-    if (!lovableApiKey) {
-      // Log configuration issue without exposing key names
-      console.error("AI service configuration incomplete");
-      return new Response(
-        JSON.stringify({ error: "AI service temporarily unavailable" }),
-        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Anything short of a usable model answer falls back to the rule-based
+    // narrative, so the caller always gets insights rather than a 503
+    let insights = engine === "rules"
+      ? null
+      : await requestModelInsights(buildPrompt(diagnosticResult, biomarkers, remoDNavMetrics, safeName, safeGrade, safeAge));
+    const source: "model" | "fallback" = insights ? "model" : "fallback";
+    if (!insights) {
+      insights = generateRuleBasedInsights({
+        diagnosticResult,
+        biomarkers,
+        remoDNavMetrics,
+        student: { name: safeName, grade: safeGrade, age: safeAge },
+        language,
+      });
     }
 
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    let version = null;
+    if (diagnosticResultId) {
+      for (let attempt = 1; attempt <= VERSION_INSERT_ATTEMPTS; attempt++) {
+        const { data: latest } = await supabase
+          .from("ai_insight_versions")
+          .select("version")
+          .eq("diagnostic_result_id", diagnosticResultId)
+          .order("version", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        const { data: stored, error: storeError } = await supabase
+          .from("ai_insight_versions")
+          .insert({
+            diagnostic_result_id: diagnosticResultId,
+            version: (latest?.version ?? 0) + 1,
+            insights,
+            source,
+            model: source === "model" ? MODEL : RULE_BASED_MODEL,
+            prompt_version: source === "model" ? PROMPT_VERSION : RULE_BASED_PROMPT_VERSION,
+            input_hash: inputHash,
+            generated_by: user.id,
+          })
+          .select()
+          .single();
+
+        if (!storeError) {
+          version = stored;
+          break;
+        }
+        if (storeError.code === UNIQUE_VIOLATION && attempt < VERSION_INSERT_ATTEMPTS) continue;
+        // Still return the insights; the caller just won't see them in the history
+        console.error("Failed to store insight version:", storeError.code);
+        break;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ insights, version, source, cached: false }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    // Log error type without exposing sensitive details
+    console.error("AI Insights error:", (error as Error)?.name || 'Unknown');
+    return new Response(
+      JSON.stringify({ error: "An unexpected error occurred" }),
+      { status: 500, headers: { ...getCorsHeaders(req), "Content-Type": "application/json" } }
+    );
+  }
+});
+
+// The model's insights, or null when the gateway is not configured, not
+// reachable or returns something that isn't the expected JSON
+async function requestModelInsights(prompt: string): Promise<object | null> {
+  const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
+  if (!lovableApiKey) {
+    // Log configuration issue without exposing key names
+    console.error("AI service configuration incomplete");
+    return null;
+  }
+
+  let aiResponse: Response;
+  try {
+    aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${lovableApiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+        model: MODEL,
         messages: [
           {
             role: "system",
@@ -185,58 +345,75 @@ Deno.serve(async (req: Request) => {
         max_tokens: 2000,
       }),
     });
+  } catch (error) {
+    console.error("AI Gateway unreachable:", (error as Error)?.name || "Unknown");
+    return null;
+  }
 
-    if (!aiResponse.ok) {
-      // Log only status code, not response body which may contain sensitive details
-      console.error("AI Gateway error:", aiResponse.status);
-      return new Response(
-        JSON.stringify({ error: "AI analysis temporarily unavailable" }),
-        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (!aiResponse.ok) {
+    // Log only status code, not response body which may contain sensitive details
+    console.error("AI Gateway error:", aiResponse.status);
+    return null;
+  }
 
+  // Parse AI response - extract JSON from markdown if needed
+  let insights: unknown;
+  try {
     const aiData = await aiResponse.json();
     const content = aiData.choices?.[0]?.message?.content;
-
-    if (!content) {
-      return new Response(
-        JSON.stringify({ error: "Invalid AI response" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (typeof content !== "string" || !content) {
+      console.error("Invalid AI response");
+      return null;
     }
+    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
+    const jsonStr = jsonMatch ? jsonMatch[1] : content;
+    insights = JSON.parse(jsonStr.trim());
+  } catch {
+    // Log parsing failure without exposing AI response content
+    console.error("Failed to parse AI response");
+    return null;
+  }
 
-    // Parse AI response - extract JSON from markdown if needed
-    let insights;
-    try {
-      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
-      const jsonStr = jsonMatch ? jsonMatch[1] : content;
-      insights = JSON.parse(jsonStr.trim());
-    } catch {
-      // Log parsing failure without exposing AI response content
-      console.error("Failed to parse AI response");
-      // Return a structured fallback response
-      insights = generateFallbackInsights(diagnosticResult, safeName, safeGrade);
-    }
-
-    return new Response(
-      JSON.stringify({ insights }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-
-  } catch (error) {
-    // Log error type without exposing sensitive details
-    console.error("AI Insights error:", (error as Error)?.name || 'Unknown');
-    return new Response(
-      JSON.stringify({ error: "An unexpected error occurred" }),
-      { status: 500, headers: { ...getCorsHeaders(req), "Content-Type": "application/json" } }
-    );
+  if (!isInsightsShape(insights)) {
+    console.error("AI response does not match the insights format");
+    return null;
   }
-});
+  return insights;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isObjectArray = (value: unknown, keys: string[]): boolean =>
+  Array.isArray(value) && value.every((item) =>
+    item && typeof item === "object" &&
+    keys.every((key) => typeof (item as Record<string, unknown>)[key] === "string")
+  );
+
+// The AIInsights shape the client renders and stores as a version
+function isInsightsShape(value: unknown): value is object {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  const recommendations = v.readingRecommendations as Record<string, unknown> | undefined;
+
+  return typeof v.summary === "string" &&
+    isStringArray(v.keyFindings) &&
+    isObjectArray(v.interventionStrategies, ["title", "description", "priority", "frequency", "duration"]) &&
+    (v.interventionStrategies as Record<string, unknown>[]).every((s) => ["high", "medium", "low"].includes(s.priority as string)) &&
+    !!recommendations && typeof recommendations === "object" &&
+    typeof recommendations.level === "string" &&
+    isStringArray(recommendations.materials) &&
+    isStringArray(recommendations.focusAreas) &&
+    isObjectArray(v.weeklyPlan, ["day", "activity", "duration"]) &&
+    typeof v.progressForecast === "string" &&
+    typeof v.clinicalNotes === "string" &&
+    typeof v.confidence === "number";
+}
 
 function buildPrompt(
   diagnosticResult: DiagnosticResult,
-  biomarkers: Record<string, number> | undefined,
-  remoDNavMetrics: Record<string, number> | undefined,
+  biomarkers: Partial<DyslexiaBiomarkers> | undefined,
+  remoDNavMetrics: Partial<REMoDNaVMetrics> | undefined,
   studentName: string,
   grade: string,
   age: number | undefined
@@ -311,73 +488,3 @@ Based on these results, provide a comprehensive analysis in the following JSON f
 
 Ensure all recommendations are evidence-based and appropriate for the student's grade level.`;
 }
-
-function generateFallbackInsights(
-  diagnosticResult: DiagnosticResult,
-  studentName: string,
-  grade: string
-) {
-  const riskLevel = diagnosticResult.overallRiskLevel;
-  const dyslexiaRisk = diagnosticResult.dyslexiaProbabilityIndex;
-  
-  const strategies = [];
-  
-  if (dyslexiaRisk > 0.5) {
-    strategies.push({
-      title: "Structured Literacy Program",
-      description: "Implement systematic phonics instruction with multisensory techniques",
-      priority: "high" as const,
-      frequency: "Daily",
-      duration: "30 minutes"
-    });
-  }
-  
-  if (diagnosticResult.voice.fluencyScore < 70) {
-    strategies.push({
-      title: "Fluency Building",
-      description: "Practice repeated reading with grade-appropriate texts",
-      priority: "high" as const,
-      frequency: "4x per week",
-      duration: "15 minutes"
-    });
-  }
-  
-  if (diagnosticResult.eyeTracking.regressionCount > 10) {
-    strategies.push({
-      title: "Tracking Exercises",
-      description: "Use tracking guides and line markers during reading",
-      priority: "medium" as const,
-      frequency: "3x per week",
-      duration: "10 minutes"
-    });
-  }
-
-  return {
-    summary: `${studentName} (Grade ${grade}) shows a ${riskLevel} risk profile. Assessment indicates areas for targeted intervention in reading fluency and comprehension.`,
-    keyFindings: [
-      `Overall risk level: ${riskLevel}`,
-      `Dyslexia probability: ${(dyslexiaRisk * 100).toFixed(0)}%`,
-      `Reading fluency score: ${diagnosticResult.voice.fluencyScore}/100`
-    ],
-    interventionStrategies: strategies.length > 0 ? strategies : [{
-      title: "Continue Monitoring",
-      description: "Maintain current reading program with periodic reassessment",
-      priority: "low" as const,
-      frequency: "Monthly",
-      duration: "Assessment only"
-    }],
-    readingRecommendations: {
-      level: `Grade ${grade} level with scaffolding`,
-      materials: ["Decodable readers", "Leveled texts"],
-      focusAreas: ["Phonemic awareness", "Fluency practice"]
-    },
-    weeklyPlan: [
-      { day: "Monday", activity: "Phonics review", duration: "20 min" },
-      { day: "Wednesday", activity: "Guided reading", duration: "25 min" },
-      { day: "Friday", activity: "Fluency practice", duration: "15 min" }
-    ],
-    progressForecast: "With consistent intervention, improvement expected within 8-12 weeks.",
-    clinicalNotes: "Recommend follow-up assessment in 6 weeks to measure progress.",
-    confidence: 0.7
-  };
-}
\ No newline at end of file
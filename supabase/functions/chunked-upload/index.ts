@@ -77,7 +77,11 @@ serve(async (req: Request) => {
       }
 
       const totalChunks = Math.ceil(fileSize / chunkSize);
-      const storagePrefix = `etdd70_dataset_raw/${user.id}/${Date.now()}_${fileName}`;
+      // Raw gaze recordings (.nrxg) and reading audio are kept apart from dataset uploads
+      const rootFolder = metadata?.kind === 'gaze_recording'
+        ? 'gaze_recordings'
+        : metadata?.kind === 'reading_audio' ? 'reading_audio' : 'etdd70_dataset_raw';
+      const storagePrefix = `${rootFolder}/${user.id}/${Date.now()}_${fileName}`;
 
       console.log(`[chunked-upload] Init: ${fileName}, size: ${fileSize}, chunks: ${totalChunks}, prefix: ${storagePrefix}`);
 
@@ -237,12 +241,19 @@ serve(async (req: Request) => {
         );
       }
 
-      const { data: upload, error } = await supabaseAdmin
-        .from('chunked_uploads')
-        .select('*, upload_chunks(*)')
-        .eq('id', uploadId)
-        .eq('user_id', user.id)
-        .single();
+      // Readable by the uploader and by staff who can access the result's student
+      const { data: canAccess } = await supabaseAdmin.rpc('can_access_upload', {
+        _user_id: user.id,
+        _upload_id: uploadId,
+      });
+
+      const { data: upload, error } = canAccess
+        ? await supabaseAdmin
+          .from('chunked_uploads')
+          .select('*, upload_chunks(*)')
+          .eq('id', uploadId)
+          .single()
+        : { data: null, error: null };
 
       if (error || !upload) {
         return new Response(
@@ -268,13 +279,19 @@ serve(async (req: Request) => {
         );
       }
 
-      const { data: upload, error } = await supabaseAdmin
-        .from('chunked_uploads')
-        .select('*, upload_chunks(*)')
-        .eq('id', uploadId)
-        .eq('user_id', user.id)
-        .eq('status', 'complete')
-        .single();
+      const { data: canAccess } = await supabaseAdmin.rpc('can_access_upload', {
+        _user_id: user.id,
+        _upload_id: uploadId,
+      });
+
+      const { data: upload, error } = canAccess
+        ? await supabaseAdmin
+          .from('chunked_uploads')
+          .select('*, upload_chunks(*)')
+          .eq('id', uploadId)
+          .eq('status', 'complete')
+          .single()
+        : { data: null, error: null };
 
       if (error || !upload) {
         return new Response(
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { calculateETDD70Score, parsePassageLayout, recordedDriftAlgorithm } from "../_shared/analytics.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -67,6 +68,32 @@ Deno.serve(async (req: Request) => {
       studentInfo = student;
     }
 
+    // Re-score the stored gaze trace with the shared ETDD70 engine
+    const storedFixations = Array.isArray(result.fixation_data) ? result.fixation_data : [];
+    const storedSaccades = Array.isArray(result.saccade_data) ? result.saccade_data : [];
+    let etdd70Section = "";
+    if (storedFixations.length > 0) {
+      const first = storedFixations[0];
+      const last = storedFixations[storedFixations.length - 1];
+      const etdd70 = calculateETDD70Score({
+        fixations: storedFixations.map((f: { x: number; y: number; duration?: number; timestamp: number }) => ({
+          x: f.x, y: f.y, duration: f.duration ?? 0, timestamp: f.timestamp,
+        })),
+        saccades: storedSaccades,
+        totalReadingTime: last.timestamp + (last.duration ?? 0) - first.timestamp,
+        textLength: 0,
+        layout: parsePassageLayout(result.passage_layout),
+        driftCorrection: recordedDriftAlgorithm(result.drift_correction),
+      });
+      const { readingSpeed: _readingSpeed, ...indicators } = etdd70.indicators;
+      etdd70Section = `
+**ETDD70 GAZE INDICATORS (re-scored from stored trace):**
+- ETDD70 Dyslexia Probability: ${(etdd70.dyslexiaProbability * 100).toFixed(1)}% (${etdd70.riskLevel})
+${Object.entries(indicators).map(([key, d]) => `- ${key}: ${d.value.toFixed(2)} (threshold ${d.threshold})${d.exceeded ? " EXCEEDED" : ""}`).join("\n")}
+${etdd70.driftCorrection ? `- Line-drift correction (${etdd70.driftCorrection.algorithm}): ${etdd70.driftCorrection.fixationsReassigned}/${etdd70.driftCorrection.fixationCount} fixations moved to another line, mean shift ${etdd70.driftCorrection.meanVerticalShift.toFixed(0)}px; regressions ${etdd70.driftCorrection.regressionCount} corrected vs ${etdd70.driftCorrection.rawRegressionCount} raw` : "- Line-drift correction: not applied (none recorded with the session)"}
+`;
+    }
+
     const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
     if (!lovableApiKey) {
       return new Response(JSON.stringify({ error: "AI service unavailable" }), {
@@ -92,7 +119,7 @@ Deno.serve(async (req: Request) => {
 - Prolonged Fixations (>400ms): ${result.eye_prolonged_fixations}
 - Chaos Index (Scanpath Entropy): ${result.eye_chaos_index}
 - Fixation Intersection Coefficient: ${result.eye_fixation_intersection_coefficient}
-
+${etdd70Section}
 **VOICE/READING METRICS:**
 - Words Per Minute: ${result.voice_words_per_minute}
 - Pause Count: ${result.voice_pause_count}
@@ -102,7 +102,7 @@ Deno.serve(async (req) => {
       // Check if access code exists, is valid, and not expired
       const { data: linkData, error: linkError } = await supabase
         .from('parent_student_links')
-        .select('id, student_id, access_code, parent_id, linked_at, expires_at')
+        .select('id, student_id, access_code, parent_id, linked_at, expires_at, revoked_at')
         .eq('access_code', accessCode)
         .maybeSingle();
 
@@ -115,7 +115,7 @@ Deno.serve(async (req) => {
         );
       }
 
-      if (!linkData) {
+      if (!linkData || linkData.revoked_at) {
         // Log failed attempt without revealing code or client
         console.log('Access code validation failed');
         return new Response(
@@ -129,7 +129,7 @@ Deno.serve(async (req) => {
       if (expiresAt < new Date()) {
         console.log('Expired access code attempted');
         return new Response(
-          JSON.stringify({ valid: false, error: 'Access code has expired' }),
+          JSON.stringify({ valid: false, expired: true, error: 'Access code has expired' }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
@@ -140,7 +140,8 @@ Deno.serve(async (req) => {
           JSON.stringify({ 
             valid: true, 
             studentId: linkData.student_id,
-            claimed: true
+            claimed: true,
+            expiresAt: linkData.expires_at
           }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -152,7 +153,8 @@ Deno.serve(async (req) => {
         JSON.stringify({ 
           valid: true, 
           studentId: linkData.student_id,
-          claimed: false
+          claimed: false,
+          expiresAt: linkData.expires_at
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -162,11 +164,11 @@ Deno.serve(async (req) => {
       // Fetch student and assessment data for parent portal
       const { data: linkData, error: linkError } = await supabase
         .from('parent_student_links')
-        .select('id, student_id, parent_id, expires_at')
+        .select('id, student_id, parent_id, expires_at, revoked_at')
         .eq('access_code', accessCode)
         .maybeSingle();
 
-      if (linkError || !linkData) {
+      if (linkError || !linkData || linkData.revoked_at) {
         return new Response(
           JSON.stringify({ error: 'Invalid access code' }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -178,7 +180,7 @@ Deno.serve(async (req) => {
       if (expiresAt < new Date()) {
         console.log('Expired access code used for getData');
         return new Response(
-          JSON.stringify({ error: 'Access code has expired' }),
+          JSON.stringify({ error: 'Access code has expired', expired: true }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
@@ -227,6 +229,8 @@ Deno.serve(async (req) => {
             riskLevel: studentData.risk_level,
           },
           assessments: resultsData || [],
+          // Shown to parents so they know when the link stops working
+          expiresAt: linkData.expires_at,
           // Never expose access codes in responses
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,175 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createThresholdLookup,
+  latestThresholdsComputedAt,
+  rescoreStoredResult,
+  SCORING_VERSION,
+  STORED_RESULT_COLUMNS,
+  toScoreVersionRow,
+  type StoredDiagnosticRow,
+} from "../_shared/analytics.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const PAGE_SIZE = 200;
+const INSERT_BATCH_SIZE = 50;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnon = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    // Reads go through the caller's client so RLS limits which results are re-scored
+    const userClient = createClient(supabaseUrl, supabaseAnon, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only clinicians manage thresholds, so only clinicians may re-score against them
+    const { data: isClinician } = await serviceClient.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'clinician',
+    });
+    if (!isClinician) {
+      return jsonResponse({ error: 'Only clinicians can re-score results' }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+    const diagnosticResultIds: string[] | undefined = Array.isArray(body.diagnosticResultIds)
+      ? body.diagnosticResultIds.filter((id: unknown) => typeof id === 'string')
+      : undefined;
+
+    const { data: thresholdRows, error: thresholdErr } = await serviceClient
+      .from('dataset_computed_thresholds')
+      .select('dataset_type, metric_name, optimal_threshold, weight, computed_at');
+
+    if (thresholdErr) {
+      console.error('[rescore-results] Failed to load thresholds:', thresholdErr);
+      return jsonResponse({ error: 'Could not load thresholds' }, 500);
+    }
+
+    const lookup = createThresholdLookup(thresholdRows || []);
+    const thresholdsComputedAt = latestThresholdsComputedAt(thresholdRows || []);
+
+    const runId = crypto.randomUUID();
+    const changes: Array<Record<string, unknown>> = [];
+    let processed = 0;
+    let written = 0;
+    let failed = 0;
+
+    console.log(`[rescore-results] Run ${runId} by ${user.id} (dryRun=${dryRun}, version=${SCORING_VERSION})`);
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = userClient
+        .from('diagnostic_results')
+        .select(STORED_RESULT_COLUMNS)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (diagnosticResultIds?.length) {
+        query = query.in('id', diagnosticResultIds);
+      }
+
+      const { data: rows, error: rowsErr } = await query;
+      if (rowsErr) {
+        console.error('[rescore-results] Failed to read results:', rowsErr);
+        return jsonResponse({ error: 'Could not read diagnostic results' }, 500);
+      }
+      if (!rows?.length) break;
+
+      const rescored = (rows as unknown as StoredDiagnosticRow[]).map(row => rescoreStoredResult(row, lookup));
+      processed += rescored.length;
+
+      for (const r of rescored) {
+        if (r.riskLevelChanged) {
+          changes.push({
+            diagnosticResultId: r.diagnosticResultId,
+            studentId: r.studentId,
+            previousRiskLevel: r.previousRiskLevel,
+            newRiskLevel: r.overallRiskLevel,
+            dyslexiaProbabilityIndex: r.dyslexiaProbabilityIndex,
+          });
+        }
+      }
+
+      if (!dryRun) {
+        for (let i = 0; i < rescored.length; i += INSERT_BATCH_SIZE) {
+          const batch = rescored.slice(i, i + INSERT_BATCH_SIZE)
+            .map(r => toScoreVersionRow(r, { runId, thresholdsComputedAt, rescoredBy: user.id }));
+
+          const { error: insertErr } = await serviceClient
+            .from('diagnostic_result_scores')
+            .insert(batch);
+          if (insertErr) {
+            console.error('[rescore-results] Insert error:', insertErr);
+            failed += batch.length;
+          } else {
+            written += batch.length;
+          }
+        }
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    // Attach student names so the report is readable
+    const studentIds = [...new Set(changes.map(c => c.studentId).filter(Boolean))] as string[];
+    if (studentIds.length > 0) {
+      const { data: students } = await userClient
+        .from('students')
+        .select('id, name')
+        .in('id', studentIds);
+      const names = new Map((students || []).map(s => [s.id, s.name]));
+      for (const change of changes) {
+        change.studentName = change.studentId ? names.get(change.studentId as string) ?? null : null;
+      }
+    }
+
+    console.log(`[rescore-results] Run ${runId}: ${processed} processed, ${changes.length} risk changes, ${written} written, ${failed} failed`);
+
+    // 207 so a partly written run still reaches the caller with its counts
+    return jsonResponse({
+      success: failed === 0,
+      ...(failed > 0 && { error: `${failed} of ${processed} scores could not be written` }),
+      runId: dryRun ? null : runId,
+      dryRun,
+      scoringVersion: SCORING_VERSION,
+      thresholdsComputedAt,
+      processed,
+      written,
+      failed,
+      changes,
+    }, failed > 0 ? 207 : 200);
+  } catch (error) {
+    console.error('[rescore-results] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
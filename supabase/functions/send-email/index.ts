@@ -41,11 +41,12 @@ function getCorsHeaders(origin: string | null): Record<string, string> {
 }
 
 interface EmailRequest {
-  to: string;
+  to?: string;
   subject?: string;
   html?: string;
-  type?: 'assessment_report' | 'welcome' | 'weekly_summary' | 'password_change' | 'confirmation';
+  type?: 'assessment_report' | 'welcome' | 'weekly_summary' | 'password_change' | 'confirmation' | 'message_notification';
   assessmentId?: string;
+  messageId?: string;
   studentName?: string;
   userName?: string;
 }
@@ -350,6 +351,192 @@ function getConfirmationTemplate(userName: string): string {
   `;
 }
 
+// Message emails only say that a message is waiting: the body stays behind sign-in
+function getMessageNotificationTemplate(
+  recipientName: string,
+  senderName: string,
+  studentName: string,
+  threadSubject: string,
+  link: string
+): string {
+  const safeRecipient = sanitize(recipientName);
+  const safeSender = sanitize(senderName);
+  const safeStudent = sanitize(studentName);
+  const safeSubject = sanitize(threadSubject);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background: #f4f4f4; margin: 0; padding: 20px; }
+        .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 20px rgba(0,0,0,0.1); }
+        .header { background: linear-gradient(135deg, #6366f1, #8b5cf6); color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .subject-box { background: #f8f9fa; border-left: 4px solid #6366f1; border-radius: 4px; padding: 15px; margin: 20px 0; }
+        .cta-button { display: inline-block; background: #6366f1; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; margin-top: 10px; }
+        .footer { background: #f8f9fa; padding: 20px; text-align: center; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0; font-size: 24px;">💬 New Message</h1>
+        </div>
+        <div class="content">
+          <h2 style="color: #333;">Hello ${safeRecipient},</h2>
+          <p style="color: #666; line-height: 1.6;">
+            ${safeSender} sent you a message about ${safeStudent}.
+          </p>
+          <div class="subject-box">
+            <p style="color: #333; margin: 0;"><strong>${safeSubject}</strong></p>
+          </div>
+          <p style="color: #666; line-height: 1.6;">
+            For privacy, messages can only be read after signing in.
+          </p>
+          <a class="cta-button" href="${sanitize(link)}">Read the message</a>
+          <p style="color: #999; font-size: 12px; margin-top: 20px;">
+            You can turn off message emails in your profile's notification settings.
+          </p>
+        </div>
+        <div class="footer">
+          <p>Neuro-Read X - AI-Powered Learning Assessment Platform</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function displayName(profile: { first_name?: string | null; display_name?: string | null } | undefined, fallback: string): string {
+  return profile?.display_name || profile?.first_name || fallback;
+}
+
+// Email everyone on a student's message thread except the sender, respecting
+// each recipient's own email preferences
+async function sendMessageNotifications(
+  supabaseUrl: string,
+  senderId: string,
+  messageId: string,
+  appUrl: string
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseServiceKey) {
+    console.log('Missing service role key for message notifications');
+    return { status: 500, body: { error: 'Server configuration error' } };
+  }
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+  const { data: message } = await supabaseAdmin
+    .from("student_messages")
+    .select("id, sender_id, thread_id")
+    .eq("id", messageId)
+    .maybeSingle();
+
+  // Only the sender can trigger notifications for their own message
+  if (!message || message.sender_id !== senderId) {
+    return { status: 403, body: { error: 'Message not found or you do not have permission to access it' } };
+  }
+
+  // Claim the message before sending so repeated calls don't email anyone twice
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("student_messages")
+    .update({ notified_at: new Date().toISOString() })
+    .eq("id", messageId)
+    .is("notified_at", null)
+    .select("id");
+
+  if (claimError) {
+    console.error('Failed to mark message as notified:', claimError);
+    return { status: 500, body: { error: 'Failed to send notifications' } };
+  }
+  if (!claimed?.length) {
+    return { status: 200, body: { success: true, sent: 0, alreadyNotified: true } };
+  }
+
+  const { data: thread } = await supabaseAdmin
+    .from("student_message_threads")
+    .select("subject, student_id")
+    .eq("id", message.thread_id)
+    .single();
+
+  const { data: student } = await supabaseAdmin
+    .from("students")
+    .select("id, name, clinician_id")
+    .eq("id", thread?.student_id)
+    .single();
+
+  if (!thread || !student) {
+    return { status: 404, body: { error: 'Conversation not found' } };
+  }
+
+  const { data: links } = await supabaseAdmin
+    .from("parent_student_links")
+    .select("parent_accounts(user_id)")
+    .eq("student_id", student.id)
+    .is("revoked_at", null)
+    .not("parent_id", "is", null);
+
+  const parentIds = ((links ?? []) as { parent_accounts: { user_id: string } | null }[])
+    .map(link => link.parent_accounts?.user_id)
+    .filter((id): id is string => Boolean(id));
+  const recipientIds = [...new Set([student.clinician_id, ...parentIds])].filter(id => id !== senderId);
+
+  const { data: profiles } = await supabaseAdmin
+    .from("profiles")
+    .select("user_id, email, first_name, display_name, email_preferences")
+    .in("user_id", [senderId, ...recipientIds]);
+
+  type RecipientProfile = {
+    user_id: string;
+    email: string | null;
+    first_name: string | null;
+    display_name: string | null;
+    email_preferences: unknown;
+  };
+  const profileByUserId = new Map(((profiles ?? []) as RecipientProfile[]).map(p => [p.user_id, p]));
+  const senderName = displayName(profileByUserId.get(senderId), "Someone");
+
+  let sent = 0;
+  let failed = 0;
+  for (const recipientId of recipientIds) {
+    const profile = profileByUserId.get(recipientId);
+    const prefs = (profile?.email_preferences as Record<string, boolean>) || {};
+    if (!profile?.email || !isValidEmail(profile.email) || prefs.message_notifications === false) continue;
+
+    const link = recipientId === student.clinician_id
+      ? `${appUrl}/student/${student.id}?tab=messages`
+      : `${appUrl}/parent-portal`;
+    // One failed send must not stop the rest of the recipients being emailed
+    try {
+      await sendSmtpEmail(
+        profile.email,
+        `New message about ${student.name} - Neuro-Read X`,
+        getMessageNotificationTemplate(displayName(profile, "there"), senderName, student.name, thread.subject, link)
+      );
+      sent++;
+    } catch (error) {
+      console.error('Message notification failed for', recipientId, error instanceof Error ? error.message : error);
+      failed++;
+    }
+  }
+
+  console.log('Message notifications sent:', sent, 'of', recipientIds.length, 'failed:', failed);
+
+  // Nobody was emailed, so release the claim and let the sender retry;
+  // after a partial send a retry would email the others twice
+  if (failed > 0 && sent === 0) {
+    const { error: releaseError } = await supabaseAdmin
+      .from("student_messages")
+      .update({ notified_at: null })
+      .eq("id", messageId);
+    if (releaseError) console.error('Failed to release message notification claim:', releaseError);
+    return { status: 502, body: { error: 'Failed to send notifications', sent, failed } };
+  }
+
+  return { status: 200, body: { success: failed === 0, sent, failed } };
+}
+
 const handler = async (req: Request): Promise<Response> => {
   const origin = req.headers.get("Origin");
   const corsHeaders = getCorsHeaders(origin);
@@ -416,7 +603,27 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const { to, subject, html, type, assessmentId, studentName, userName }: EmailRequest = await req.json();
+    const { to, subject, html, type, assessmentId, messageId, studentName, userName }: EmailRequest = await req.json();
+
+    // Message notifications resolve their own recipients from the thread
+    if (type === 'message_notification') {
+      if (!messageId) {
+        return new Response(
+          JSON.stringify({ error: 'messageId is required' }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      const result = await sendMessageNotifications(
+        supabaseUrl,
+        user.id,
+        messageId,
+        corsHeaders["Access-Control-Allow-Origin"]
+      );
+      return new Response(
+        JSON.stringify(result.body),
+        { status: result.status, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
 
     // 3. Validate recipient email
     if (!to || !isValidEmail(to)) {
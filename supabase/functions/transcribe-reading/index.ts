@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createThresholdLookup,
+  createWhisperTranscriptionBackend,
+  latestThresholdsComputedAt,
+  reprocessReadingAudio,
+  rescoreStoredResult,
+  STORED_RESULT_COLUMNS,
+  toScoreVersionRow,
+  type StoredDiagnosticRow,
+  type TranscriptionBackend,
+} from "../_shared/analytics.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Transcription backends by id; TRANSCRIPTION_BACKEND picks one (default whisper).
+// Each returns null when it isn't configured.
+const BACKENDS: Record<string, () => TranscriptionBackend | null> = {
+  whisper: () => {
+    const apiKey = Deno.env.get('TRANSCRIPTION_API_KEY');
+    if (!apiKey) return null;
+    return createWhisperTranscriptionBackend({
+      apiKey,
+      baseUrl: Deno.env.get('TRANSCRIPTION_API_URL') || undefined,
+      model: Deno.env.get('TRANSCRIPTION_MODEL') || undefined,
+    });
+  },
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnon = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    // The result is read and updated through the caller's client so RLS decides who may re-transcribe it
+    const userClient = createClient(supabaseUrl, supabaseAnon, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const diagnosticResultId = typeof body.diagnosticResultId === 'string' ? body.diagnosticResultId : null;
+    if (!diagnosticResultId) {
+      return jsonResponse({ error: 'diagnosticResultId is required' }, 400);
+    }
+
+    const backendId = Deno.env.get('TRANSCRIPTION_BACKEND') || 'whisper';
+    const backend = BACKENDS[backendId]?.() ?? null;
+    if (!backend) {
+      return jsonResponse({ error: `Transcription backend "${backendId}" is not configured` }, 503);
+    }
+
+    const { data: result, error: resultErr } = await userClient
+      .from('diagnostic_results')
+      .select(`${STORED_RESULT_COLUMNS}, clinician_id, reading_audio_upload_id`)
+      .eq('id', diagnosticResultId)
+      .maybeSingle();
+
+    if (resultErr) {
+      console.error('[transcribe-reading] Failed to read result:', resultErr);
+      return jsonResponse({ error: 'Could not read diagnostic result' }, 500);
+    }
+    if (!result) {
+      return jsonResponse({ error: 'Diagnostic result not found' }, 404);
+    }
+    // Reading a result (parents, organisation members) is not enough to rewrite its scores
+    if (result.clinician_id !== user.id) {
+      return jsonResponse({ error: 'Only the clinician who ran this assessment can re-transcribe it' }, 403);
+    }
+    if (!result.reading_audio_upload_id) {
+      return jsonResponse({ error: 'No reading audio was recorded for this result' }, 400);
+    }
+
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: upload, error: uploadErr } = await serviceClient
+      .from('chunked_uploads')
+      .select('*, upload_chunks(*)')
+      .eq('id', result.reading_audio_upload_id)
+      .eq('status', 'complete')
+      .single();
+
+    if (uploadErr || !upload) {
+      return jsonResponse({ error: 'Reading audio upload is not complete' }, 409);
+    }
+    if (upload.user_id !== result.clinician_id) {
+      return jsonResponse({ error: 'Reading audio does not belong to this assessment' }, 403);
+    }
+
+    // Reassemble the recording from its chunks, in order
+    const chunks = (upload.upload_chunks as Array<{ chunk_index: number; storage_path: string }>)
+      .sort((a, b) => a.chunk_index - b.chunk_index);
+    const parts: Uint8Array[] = [];
+    for (const chunk of chunks) {
+      const { data: chunkData, error: downloadErr } = await serviceClient.storage
+        .from(upload.bucket_name)
+        .download(chunk.storage_path);
+      if (downloadErr || !chunkData) {
+        console.error(`[transcribe-reading] Failed to download chunk ${chunk.chunk_index}:`, downloadErr);
+        return jsonResponse({ error: 'Could not read reading audio' }, 500);
+      }
+      parts.push(new Uint8Array(await chunkData.arrayBuffer()));
+    }
+    const audio = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      audio.set(part, offset);
+      offset += part.length;
+    }
+
+    const language = typeof upload.metadata?.language === 'string' ? upload.metadata.language : 'en';
+    const passageText = typeof result.passage_layout?.text === 'string' ? result.passage_layout.text : null;
+
+    console.log(`[transcribe-reading] ${diagnosticResultId}: ${audio.length} bytes via ${backend.id} (${language})`);
+
+    const reading = await reprocessReadingAudio(
+      backend,
+      { audio, mimeType: upload.mime_type || 'audio/webm', language },
+      { passageText }
+    );
+    const { timing } = reading;
+
+    const voice = {
+      voice_words_per_minute: timing.wordsPerMinute,
+      voice_pause_count: timing.pauseEvents.length,
+      voice_avg_pause_duration: timing.averagePauseDuration,
+      voice_stall_count: timing.stallEvents.length,
+    };
+
+    // The indices depend on the voice metrics, so they are re-scored with them
+    // and stored as a new score version; the original scores are kept
+    const { data: thresholdRows, error: thresholdErr } = await serviceClient
+      .from('dataset_computed_thresholds')
+      .select('dataset_type, metric_name, optimal_threshold, weight, computed_at');
+
+    if (thresholdErr) {
+      console.error('[transcribe-reading] Failed to load thresholds:', thresholdErr);
+      return jsonResponse({ error: 'Could not load thresholds' }, 500);
+    }
+
+    const rescored = rescoreStoredResult(
+      { ...(result as unknown as StoredDiagnosticRow), ...voice },
+      createThresholdLookup(thresholdRows || [])
+    );
+
+    const update: Record<string, unknown> = {
+      ...voice,
+      reading_transcript: { ...reading.transcript, language, transcribedAt: new Date().toISOString() },
+      voice_avg_stall_duration: timing.averageStallDuration,
+      voice_stall_events: timing.stallEvents,
+    };
+    if (reading.miscueAnalysis) {
+      update.miscue_analysis = reading.miscueAnalysis;
+    }
+
+    const { data: updated, error: updateErr } = await userClient
+      .from('diagnostic_results')
+      .update(update)
+      .eq('id', diagnosticResultId)
+      .select('id');
+
+    if (updateErr) {
+      console.error('[transcribe-reading] Update error:', updateErr);
+      return jsonResponse({ error: 'Could not save transcript' }, 500);
+    }
+    if (!updated?.length) {
+      return jsonResponse({ error: 'Not allowed to update this result' }, 403);
+    }
+
+    const { error: scoreErr } = await serviceClient
+      .from('diagnostic_result_scores')
+      .insert(toScoreVersionRow(rescored, {
+        runId: crypto.randomUUID(),
+        thresholdsComputedAt: latestThresholdsComputedAt(thresholdRows || []),
+        rescoredBy: user.id,
+      }));
+
+    // The transcript is saved either way; report the missing score version
+    if (scoreErr) {
+      console.error('[transcribe-reading] Score insert error:', scoreErr);
+    }
+
+    return jsonResponse({
+      success: true,
+      summary: {
+        backend: reading.transcript.backend,
+        model: reading.transcript.model,
+        wordCount: reading.transcript.words.length,
+        wordsPerMinute: timing.wordsPerMinute,
+        stallCount: timing.stallEvents.length,
+        wordsCorrectPerMinute: reading.miscueAnalysis?.wordsCorrectPerMinute ?? null,
+        overallRiskLevel: rescored.overallRiskLevel,
+        riskLevelChanged: rescored.riskLevelChanged,
+        scoreSaved: !scoreErr,
+      },
+    });
+  } catch (error) {
+    console.error('[transcribe-reading] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,44 @@
+-- Versioned re-scores of stored diagnostic results
+-- Originals in diagnostic_results are never modified; each re-score run
+-- writes one row per result so score history stays auditable.
+CREATE TABLE public.diagnostic_result_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  diagnostic_result_id UUID NOT NULL REFERENCES public.diagnostic_results(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL,
+  scoring_version TEXT NOT NULL,
+  thresholds_computed_at TIMESTAMP WITH TIME ZONE,
+  dyslexia_probability_index NUMERIC NOT NULL,
+  adhd_probability_index NUMERIC NOT NULL,
+  dysgraphia_probability_index NUMERIC NOT NULL,
+  overall_risk_level TEXT NOT NULL CHECK (overall_risk_level IN ('low', 'moderate', 'high')),
+  etdd70_probability NUMERIC,
+  etdd70_risk_level TEXT CHECK (etdd70_risk_level IN ('low', 'moderate', 'high')),
+  previous_risk_level TEXT,
+  risk_level_changed BOOLEAN NOT NULL DEFAULT false,
+  rescored_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.diagnostic_result_scores ENABLE ROW LEVEL SECURITY;
+
+-- Re-scores are visible wherever the original result is visible.
+-- Writes happen only through the rescore-results edge function (service role).
+CREATE POLICY "Users can view re-scores of visible diagnostic results"
+ON public.diagnostic_result_scores
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.diagnostic_results dr
+    WHERE dr.id = diagnostic_result_scores.diagnostic_result_id
+    AND (
+      dr.user_id = auth.uid()
+      OR dr.clinician_id = auth.uid()
+      OR dr.student_id IN (SELECT id FROM public.students WHERE clinician_id = auth.uid())
+    )
+  )
+);
+
+CREATE INDEX idx_result_scores_result_id ON public.diagnostic_result_scores(diagnostic_result_id);
+CREATE INDEX idx_result_scores_run_id ON public.diagnostic_result_scores(run_id);
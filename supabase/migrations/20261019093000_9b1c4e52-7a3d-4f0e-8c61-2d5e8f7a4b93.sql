@@ -0,0 +1,6 @@
+-- Link each diagnostic result to its raw gaze recording (.nrxg) uploaded via chunked-upload
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN gaze_recording_upload_id UUID REFERENCES public.chunked_uploads(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_diagnostic_results_gaze_recording ON public.diagnostic_results(gaze_recording_upload_id)
+  WHERE gaze_recording_upload_id IS NOT NULL;
@@ -0,0 +1,4 @@
+-- Per-word reading measures (first-fixation duration, gaze duration, total reading time,
+-- regressions-in, skips) from mapping reading-step fixations onto the rendered passage words
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN word_reading_data JSONB;
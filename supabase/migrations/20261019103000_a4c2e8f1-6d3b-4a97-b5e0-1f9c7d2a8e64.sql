@@ -0,0 +1,5 @@
+-- Passage layout measured during the reading step, so stored fixations can be
+-- drift-corrected onto text lines when sessions are re-scored or reported
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN passage_layout JSONB,
+  ADD COLUMN drift_correction JSONB;
@@ -0,0 +1,4 @@
+-- Accuracy and precision measured on the validation targets shown after
+-- calibration; sessions that failed validation are screening-only results
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN calibration_validation JSONB;
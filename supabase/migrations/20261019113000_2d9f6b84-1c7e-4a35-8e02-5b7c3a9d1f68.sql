@@ -0,0 +1,191 @@
+-- Parent accounts: a parent claims an access code into their own login and
+-- keeps access to that child until the clinician revokes the link.
+-- Unclaimed codes still expire after expires_at; claimed links do not.
+ALTER TABLE public.parent_student_links
+  ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_parent_student_links_parent
+ON public.parent_student_links (parent_id)
+WHERE parent_id IS NOT NULL AND revoked_at IS NULL;
+
+-- Whether a user holds an active (claimed, unrevoked) link to a student
+CREATE OR REPLACE FUNCTION public.is_parent_of(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.parent_student_links l
+    JOIN public.parent_accounts p ON p.id = l.parent_id
+    WHERE p.user_id = _user_id
+      AND l.student_id = _student_id
+      AND l.revoked_at IS NULL
+  )
+$$;
+
+-- Claim an access code into the caller's parent account, creating the
+-- account (and the parent role for users without one) on first claim
+CREATE OR REPLACE FUNCTION public.claim_parent_access_code(_access_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent_id uuid;
+  _link public.parent_student_links%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _link
+  FROM public.parent_student_links
+  WHERE access_code = upper(_access_code)
+  FOR UPDATE;
+
+  IF NOT FOUND OR _link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid access code';
+  END IF;
+
+  SELECT id INTO _parent_id FROM public.parent_accounts WHERE user_id = auth.uid();
+  IF _parent_id IS NULL THEN
+    INSERT INTO public.parent_accounts (user_id) VALUES (auth.uid())
+    RETURNING id INTO _parent_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid()) THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (auth.uid(), 'parent');
+  END IF;
+
+  -- Claiming the same code again is a no-op
+  IF _link.parent_id = _parent_id THEN
+    RETURN _link.student_id;
+  END IF;
+
+  IF _link.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Access code has already been claimed';
+  END IF;
+
+  IF _link.expires_at < now() THEN
+    RAISE EXCEPTION 'Access code has expired';
+  END IF;
+
+  UPDATE public.parent_student_links
+  SET parent_id = _parent_id, claimed_at = now()
+  WHERE id = _link.id;
+
+  INSERT INTO public.sensitive_data_access_log (user_id, table_name, record_id, action)
+  VALUES (auth.uid(), 'parent_student_links', _link.id, 'PARENT_CLAIM');
+
+  RETURN _link.student_id;
+END;
+$$;
+
+-- Linked children with their recent results for the signed-in parent.
+-- Every call writes one audit entry per child viewed.
+CREATE OR REPLACE FUNCTION public.get_parent_children()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _children jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(child ORDER BY child->'student'->>'name'), '[]'::jsonb) INTO _children
+  FROM (
+    SELECT jsonb_build_object(
+      'linkId', l.id,
+      'linkedAt', COALESCE(l.claimed_at, l.linked_at),
+      'student', jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'age', s.age,
+        'grade', s.grade,
+        'riskLevel', s.risk_level
+      ),
+      'assessments', COALESCE((
+        SELECT jsonb_agg(r ORDER BY r->>'created_at' DESC)
+        FROM (
+          SELECT jsonb_build_object(
+            'id', dr.id,
+            'created_at', dr.created_at,
+            'overall_risk_level', dr.overall_risk_level,
+            'dyslexia_probability_index', dr.dyslexia_probability_index,
+            'adhd_probability_index', dr.adhd_probability_index,
+            'dysgraphia_probability_index', dr.dysgraphia_probability_index,
+            'voice_fluency_score', dr.voice_fluency_score,
+            'voice_prosody_score', dr.voice_prosody_score
+          ) AS r
+          FROM public.diagnostic_results dr
+          WHERE dr.student_id = s.id
+          ORDER BY dr.created_at DESC
+          LIMIT 10
+        ) recent
+      ), '[]'::jsonb)
+    ) AS child
+    FROM public.parent_student_links l
+    JOIN public.parent_accounts p ON p.id = l.parent_id
+    JOIN public.students s ON s.id = l.student_id
+    WHERE p.user_id = auth.uid()
+      AND l.revoked_at IS NULL
+  ) children;
+
+  INSERT INTO public.sensitive_data_access_log (user_id, table_name, record_id, action)
+  SELECT auth.uid(), 'students', l.student_id, 'PARENT_VIEW'
+  FROM public.parent_student_links l
+  JOIN public.parent_accounts p ON p.id = l.parent_id
+  WHERE p.user_id = auth.uid()
+    AND l.revoked_at IS NULL;
+
+  RETURN _children;
+END;
+$$;
+
+-- Parents see only the students they are actively linked to, and their results
+CREATE POLICY "Parents can view linked students"
+ON public.students
+FOR SELECT
+TO authenticated
+USING (public.is_parent_of(auth.uid(), id));
+
+CREATE POLICY "Parents can view linked students' diagnostic results"
+ON public.diagnostic_results
+FOR SELECT
+TO authenticated
+USING (student_id IS NOT NULL AND public.is_parent_of(auth.uid(), student_id));
+
+CREATE POLICY "Parents can view their own links"
+ON public.parent_student_links
+FOR SELECT
+TO authenticated
+USING (
+  parent_id IN (
+    SELECT parent_accounts.id
+    FROM parent_accounts
+    WHERE parent_accounts.user_id = auth.uid()
+  )
+);
+
+-- The clinician who owns the student (or created the code) can revoke it
+CREATE POLICY "Clinicians can revoke links for their students"
+ON public.parent_student_links
+FOR UPDATE
+TO authenticated
+USING (
+  linked_by = auth.uid()
+  OR student_id IN (SELECT id FROM public.students WHERE clinician_id = auth.uid())
+)
+WITH CHECK (
+  linked_by = auth.uid()
+  OR student_id IN (SELECT id FROM public.students WHERE clinician_id = auth.uid())
+);
@@ -0,0 +1,133 @@
+-- Threaded messages between a student's clinician or educator and the
+-- student's linked parents, with read receipts.
+-- Attachments reference stored diagnostic results (generated reports).
+CREATE TABLE public.student_message_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL CHECK (length(subject) BETWEEN 1 AND 200),
+  created_by UUID NOT NULL,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.student_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.student_message_threads(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL,
+  body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 5000),
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.student_message_reads (
+  message_id UUID NOT NULL REFERENCES public.student_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX idx_student_message_threads_student ON public.student_message_threads(student_id, last_message_at DESC);
+CREATE INDEX idx_student_messages_thread ON public.student_messages(thread_id, created_at);
+
+ALTER TABLE public.student_message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_message_reads ENABLE ROW LEVEL SECURITY;
+
+-- Participants: the clinician or educator who owns the student, and linked parents
+CREATE OR REPLACE FUNCTION public.can_message_about_student(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.students WHERE id = _student_id AND clinician_id = _user_id
+  ) OR public.is_parent_of(_user_id, _student_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_message_thread(_user_id uuid, _thread_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.student_message_threads t
+    WHERE t.id = _thread_id
+      AND public.can_message_about_student(_user_id, t.student_id)
+  )
+$$;
+
+CREATE POLICY "Participants can view message threads"
+ON public.student_message_threads
+FOR SELECT
+TO authenticated
+USING (public.can_message_about_student(auth.uid(), student_id));
+
+CREATE POLICY "Participants can start message threads"
+ON public.student_message_threads
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid() AND public.can_message_about_student(auth.uid(), student_id));
+
+CREATE POLICY "Participants can view messages"
+ON public.student_messages
+FOR SELECT
+TO authenticated
+USING (public.can_access_message_thread(auth.uid(), thread_id));
+
+CREATE POLICY "Participants can send messages"
+ON public.student_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (sender_id = auth.uid() AND public.can_access_message_thread(auth.uid(), thread_id));
+
+CREATE POLICY "Participants can view read receipts"
+ON public.student_message_reads
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_messages m
+    WHERE m.id = student_message_reads.message_id
+      AND public.can_access_message_thread(auth.uid(), m.thread_id)
+  )
+);
+
+CREATE POLICY "Participants can mark messages read"
+ON public.student_message_reads
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.student_messages m
+    WHERE m.id = student_message_reads.message_id
+      AND public.can_access_message_thread(auth.uid(), m.thread_id)
+  )
+);
+
+-- Keep threads ordered by their latest message
+CREATE OR REPLACE FUNCTION public.touch_student_message_thread()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.student_message_threads
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_thread_on_message
+  AFTER INSERT ON public.student_messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_student_message_thread();
+
+-- Delivered through the same realtime channel as assessment notifications
+ALTER PUBLICATION supabase_realtime ADD TABLE public.student_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.student_message_reads;
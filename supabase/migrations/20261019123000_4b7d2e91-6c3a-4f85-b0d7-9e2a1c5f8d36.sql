@@ -0,0 +1,349 @@
+-- Organizations, schools and classrooms with shared caseloads.
+-- Students keep their owning clinician_id; assigning a student to a classroom
+-- additionally shares them with the organization's members:
+--   admin      - manages the organization and sees every student in it
+--   specialist - sees every student in the organization (e.g. reading specialists)
+--   teacher    - sees students in the classrooms they are assigned to
+CREATE TYPE public.organization_role AS ENUM ('admin', 'specialist', 'teacher');
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role public.organization_role NOT NULL DEFAULT 'teacher',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE public.schools (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.classrooms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  grade TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.classroom_teachers (
+  classroom_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (classroom_id, user_id)
+);
+
+ALTER TABLE public.students
+  ADD COLUMN classroom_id UUID REFERENCES public.classrooms(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_organization_members_user ON public.organization_members(user_id);
+CREATE INDEX idx_schools_organization ON public.schools(organization_id);
+CREATE INDEX idx_classrooms_school ON public.classrooms(school_id);
+CREATE INDEX idx_classroom_teachers_user ON public.classroom_teachers(user_id);
+CREATE INDEX idx_students_classroom ON public.students(classroom_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classrooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_teachers ENABLE ROW LEVEL SECURITY;
+
+-- The user's role in an organization, or NULL when not a member
+CREATE OR REPLACE FUNCTION public.organization_role_of(_user_id uuid, _organization_id uuid)
+RETURNS public.organization_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE user_id = _user_id AND organization_id = _organization_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.classroom_organization(_classroom_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.organization_id
+  FROM public.classrooms c
+  JOIN public.schools s ON s.id = c.school_id
+  WHERE c.id = _classroom_id
+$$;
+
+-- Owners always have access; organization members through the student's classroom
+CREATE OR REPLACE FUNCTION public.can_access_student(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.students WHERE id = _student_id AND clinician_id = _user_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.students st
+    JOIN public.classrooms c ON c.id = st.classroom_id
+    JOIN public.schools sc ON sc.id = c.school_id
+    JOIN public.organization_members m
+      ON m.organization_id = sc.organization_id AND m.user_id = _user_id
+    WHERE st.id = _student_id
+      AND (
+        m.role IN ('admin', 'specialist')
+        OR EXISTS (
+          SELECT 1 FROM public.classroom_teachers ct
+          WHERE ct.classroom_id = c.id AND ct.user_id = _user_id
+        )
+      )
+  )
+$$;
+
+-- Organizations
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (public.organization_role_of(auth.uid(), id) IS NOT NULL);
+
+CREATE POLICY "Users can create organizations"
+ON public.organizations
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Admins can update their organizations"
+ON public.organizations
+FOR UPDATE
+TO authenticated
+USING (public.organization_role_of(auth.uid(), id) = 'admin');
+
+CREATE POLICY "Admins can delete their organizations"
+ON public.organizations
+FOR DELETE
+TO authenticated
+USING (public.organization_role_of(auth.uid(), id) = 'admin');
+
+-- The creator becomes the first admin
+CREATE OR REPLACE FUNCTION public.add_organization_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'admin');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_organization_creator_as_admin
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.add_organization_creator();
+
+-- Members
+CREATE POLICY "Members can view fellow members"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (public.organization_role_of(auth.uid(), organization_id) IS NOT NULL);
+
+CREATE POLICY "Admins can manage members"
+ON public.organization_members
+FOR ALL
+TO authenticated
+USING (public.organization_role_of(auth.uid(), organization_id) = 'admin')
+WITH CHECK (public.organization_role_of(auth.uid(), organization_id) = 'admin');
+
+-- Schools and classrooms
+CREATE POLICY "Members can view schools"
+ON public.schools
+FOR SELECT
+TO authenticated
+USING (public.organization_role_of(auth.uid(), organization_id) IS NOT NULL);
+
+CREATE POLICY "Admins can manage schools"
+ON public.schools
+FOR ALL
+TO authenticated
+USING (public.organization_role_of(auth.uid(), organization_id) = 'admin')
+WITH CHECK (public.organization_role_of(auth.uid(), organization_id) = 'admin');
+
+CREATE POLICY "Members can view classrooms"
+ON public.classrooms
+FOR SELECT
+TO authenticated
+USING (public.organization_role_of(auth.uid(), public.classroom_organization(id)) IS NOT NULL);
+
+CREATE POLICY "Admins can manage classrooms"
+ON public.classrooms
+FOR ALL
+TO authenticated
+USING (
+  public.organization_role_of(
+    auth.uid(),
+    (SELECT organization_id FROM public.schools WHERE id = school_id)
+  ) = 'admin'
+)
+WITH CHECK (
+  public.organization_role_of(
+    auth.uid(),
+    (SELECT organization_id FROM public.schools WHERE id = school_id)
+  ) = 'admin'
+);
+
+CREATE POLICY "Members can view classroom teachers"
+ON public.classroom_teachers
+FOR SELECT
+TO authenticated
+USING (public.organization_role_of(auth.uid(), public.classroom_organization(classroom_id)) IS NOT NULL);
+
+CREATE POLICY "Admins can manage classroom teachers"
+ON public.classroom_teachers
+FOR ALL
+TO authenticated
+USING (public.organization_role_of(auth.uid(), public.classroom_organization(classroom_id)) = 'admin')
+WITH CHECK (
+  public.organization_role_of(auth.uid(), public.classroom_organization(classroom_id)) = 'admin'
+  AND public.organization_role_of(user_id, public.classroom_organization(classroom_id)) IS NOT NULL
+);
+
+-- Shared caseloads
+CREATE POLICY "Organization members can view shared students"
+ON public.students
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(auth.uid(), id));
+
+CREATE POLICY "Organization members can update shared students"
+ON public.students
+FOR UPDATE
+TO authenticated
+USING (public.can_access_student(auth.uid(), id));
+
+CREATE POLICY "Organization members can view shared diagnostic results"
+ON public.diagnostic_results
+FOR SELECT
+TO authenticated
+USING (student_id IS NOT NULL AND public.can_access_student(auth.uid(), student_id));
+
+-- Students can only be placed in classrooms of organizations the user
+-- belongs to, and only the owning clinician can hand a student over
+CREATE OR REPLACE FUNCTION public.check_student_placement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.clinician_id IS DISTINCT FROM OLD.clinician_id AND OLD.clinician_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the owning clinician can transfer a student';
+    END IF;
+    IF NEW.classroom_id IS NOT DISTINCT FROM OLD.classroom_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.classroom_id IS NOT NULL
+     AND public.organization_role_of(auth.uid(), public.classroom_organization(NEW.classroom_id)) IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of that classroom''s organization';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_student_placement
+  BEFORE INSERT OR UPDATE ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.check_student_placement();
+
+-- Add an existing user to an organization by email (admins only)
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  _organization_id uuid,
+  _email text,
+  _role public.organization_role
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF public.organization_role_of(auth.uid(), _organization_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only organization admins can add members';
+  END IF;
+
+  SELECT user_id INTO _user_id
+  FROM public.profiles
+  WHERE lower(email) = lower(trim(_email))
+  LIMIT 1;
+
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found with that email';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_organization_id, _user_id, _role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  RETURN _user_id;
+END;
+$$;
+
+-- Members with display details, for fellow members only
+CREATE OR REPLACE FUNCTION public.get_organization_members(_organization_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  role public.organization_role,
+  email text,
+  display_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.organization_role_of(auth.uid(), _organization_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, m.role, p.email, COALESCE(p.display_name, p.first_name)
+  FROM public.organization_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id
+  ORDER BY m.role, p.email;
+END;
+$$;
+
+-- Staff who share a student can also join its message threads
+CREATE OR REPLACE FUNCTION public.can_message_about_student(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_access_student(_user_id, _student_id)
+    OR public.is_parent_of(_user_id, _student_id)
+$$;
@@ -0,0 +1,116 @@
+-- Screening campaigns: a whole class screened back to back on one device.
+-- Each campaign holds a queue of students; every run records its outcome so
+-- the progress board can show who is done, who needs a retest because of
+-- poor data quality, and who was flagged.
+CREATE TABLE public.screening_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+  classroom_id UUID REFERENCES public.classrooms(id) ON DELETE SET NULL,
+  -- Language of the grade-levelled passages read during the campaign
+  passage_language TEXT NOT NULL DEFAULT 'en',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.screening_campaign_students (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.screening_campaigns(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'retest', 'absent')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  diagnostic_result_id UUID REFERENCES public.diagnostic_results(id) ON DELETE SET NULL,
+  risk_level TEXT,
+  quality_issues TEXT[] NOT NULL DEFAULT '{}',
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, student_id)
+);
+
+CREATE INDEX idx_screening_campaigns_classroom ON public.screening_campaigns(classroom_id);
+CREATE INDEX idx_screening_campaign_students_campaign ON public.screening_campaign_students(campaign_id, position);
+
+ALTER TABLE public.screening_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.screening_campaign_students ENABLE ROW LEVEL SECURITY;
+
+-- The creator, or any member of the organization the campaign's class belongs to
+CREATE OR REPLACE FUNCTION public.can_access_campaign(_user_id uuid, _campaign_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.screening_campaigns c
+    WHERE c.id = _campaign_id
+      AND (
+        c.created_by = _user_id
+        OR (
+          c.classroom_id IS NOT NULL
+          AND public.organization_role_of(_user_id, public.classroom_organization(c.classroom_id)) IS NOT NULL
+        )
+      )
+  )
+$$;
+
+CREATE POLICY "Participants can view screening campaigns"
+ON public.screening_campaigns
+FOR SELECT
+TO authenticated
+USING (public.can_access_campaign(auth.uid(), id));
+
+CREATE POLICY "Users can create screening campaigns"
+ON public.screening_campaigns
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND (
+    classroom_id IS NULL
+    OR public.organization_role_of(auth.uid(), public.classroom_organization(classroom_id)) IS NOT NULL
+  )
+);
+
+CREATE POLICY "Participants can update screening campaigns"
+ON public.screening_campaigns
+FOR UPDATE
+TO authenticated
+USING (public.can_access_campaign(auth.uid(), id));
+
+CREATE POLICY "Creators can delete screening campaigns"
+ON public.screening_campaigns
+FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
+
+CREATE POLICY "Participants can view campaign queues"
+ON public.screening_campaign_students
+FOR SELECT
+TO authenticated
+USING (public.can_access_campaign(auth.uid(), campaign_id));
+
+-- Only students the user may assess can be queued
+CREATE POLICY "Participants can queue accessible students"
+ON public.screening_campaign_students
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.can_access_campaign(auth.uid(), campaign_id)
+  AND public.can_access_student(auth.uid(), student_id)
+);
+
+CREATE POLICY "Participants can record campaign outcomes"
+ON public.screening_campaign_students
+FOR UPDATE
+TO authenticated
+USING (
+  public.can_access_campaign(auth.uid(), campaign_id)
+  AND public.can_access_student(auth.uid(), student_id)
+);
+
+CREATE TRIGGER update_screening_campaign_students_updated_at
+  BEFORE UPDATE ON public.screening_campaign_students
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
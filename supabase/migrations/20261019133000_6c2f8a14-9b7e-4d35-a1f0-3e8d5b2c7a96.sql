@@ -0,0 +1,7 @@
+-- Roster import: date of birth lets a re-import recognise a student by
+-- name plus date of birth and update the existing row instead of adding a
+-- duplicate.
+ALTER TABLE public.students ADD COLUMN date_of_birth DATE;
+
+CREATE INDEX idx_students_roster_key
+  ON public.students (clinician_id, lower(name), date_of_birth);
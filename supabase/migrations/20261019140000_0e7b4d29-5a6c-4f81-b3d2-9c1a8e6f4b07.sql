@@ -0,0 +1,43 @@
+-- Intervention annotations on a student's progress timeline. A start date
+-- splits the assessments into a pre-intervention baseline and follow-up.
+CREATE TABLE public.student_progress_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (length(label) BETWEEN 1 AND 200),
+  started_on DATE NOT NULL,
+  ended_on DATE CHECK (ended_on IS NULL OR ended_on >= started_on),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_student_progress_annotations_student
+  ON public.student_progress_annotations(student_id, started_on);
+
+ALTER TABLE public.student_progress_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view progress annotations"
+ON public.student_progress_annotations
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(auth.uid(), student_id));
+
+CREATE POLICY "Staff can add progress annotations"
+ON public.student_progress_annotations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.can_access_student(auth.uid(), student_id)
+);
+
+CREATE POLICY "Authors can update progress annotations"
+ON public.student_progress_annotations
+FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid());
+
+CREATE POLICY "Authors can delete progress annotations"
+ON public.student_progress_annotations
+FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
@@ -0,0 +1,103 @@
+-- Intervention plans: what was actually done after an assessment. A plan
+-- keeps the recommendations it was built from, its goals, how often it runs
+-- and who delivers it, and points at the assessment it started from so the
+-- follow-up reassessment can be compared against that baseline.
+CREATE TABLE public.intervention_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  -- Last assessment before the plan started; outcomes are measured from here
+  baseline_result_id UUID REFERENCES public.diagnostic_results(id) ON DELETE SET NULL,
+  title TEXT NOT NULL CHECK (length(title) BETWEEN 1 AND 200),
+  goals TEXT[] NOT NULL DEFAULT '{}',
+  -- Selected AI recommendations, copied so the plan survives regeneration
+  strategies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sessions_per_week INTEGER NOT NULL CHECK (sessions_per_week BETWEEN 1 AND 14),
+  minutes_per_session INTEGER NOT NULL CHECK (minutes_per_session BETWEEN 5 AND 240),
+  responsible_staff TEXT NOT NULL CHECK (length(responsible_staff) BETWEEN 1 AND 200),
+  started_on DATE NOT NULL,
+  follow_up_on DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'discontinued')),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (follow_up_on > started_on)
+);
+
+CREATE TABLE public.intervention_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES public.intervention_plans(id) ON DELETE CASCADE,
+  held_on DATE NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 0 AND 480),
+  attended BOOLEAN NOT NULL DEFAULT true,
+  delivered_by TEXT,
+  notes TEXT CHECK (length(notes) <= 2000),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_intervention_plans_student ON public.intervention_plans(student_id, started_on);
+CREATE INDEX idx_intervention_sessions_plan ON public.intervention_sessions(plan_id, held_on);
+
+ALTER TABLE public.intervention_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.intervention_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Plans are visible to everyone who can see the student
+CREATE OR REPLACE FUNCTION public.can_access_intervention_plan(_user_id uuid, _plan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.intervention_plans p
+    WHERE p.id = _plan_id
+      AND public.can_access_student(_user_id, p.student_id)
+  )
+$$;
+
+CREATE POLICY "Users can view intervention plans of accessible students"
+ON public.intervention_plans
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(auth.uid(), student_id));
+
+CREATE POLICY "Users can create intervention plans for accessible students"
+ON public.intervention_plans
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid() AND public.can_access_student(auth.uid(), student_id));
+
+CREATE POLICY "Users can update intervention plans of accessible students"
+ON public.intervention_plans
+FOR UPDATE
+TO authenticated
+USING (public.can_access_student(auth.uid(), student_id));
+
+CREATE POLICY "Creators can delete intervention plans"
+ON public.intervention_plans
+FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
+
+CREATE POLICY "Users can view sessions of accessible plans"
+ON public.intervention_sessions
+FOR SELECT
+TO authenticated
+USING (public.can_access_intervention_plan(auth.uid(), plan_id));
+
+CREATE POLICY "Users can log sessions on accessible plans"
+ON public.intervention_sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid() AND public.can_access_intervention_plan(auth.uid(), plan_id));
+
+CREATE POLICY "Loggers can delete their sessions"
+ON public.intervention_sessions
+FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
+
+CREATE TRIGGER update_intervention_plans_updated_at
+  BEFORE UPDATE ON public.intervention_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
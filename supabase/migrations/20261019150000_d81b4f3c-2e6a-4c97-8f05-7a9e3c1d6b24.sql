@@ -0,0 +1,132 @@
+-- AI insight history: every generation for a diagnostic result is kept as a
+-- numbered version with the prompt version, model and a hash of the inputs
+-- it was generated from. Clinicians can edit a version and approve one per
+-- result; the approved version is what everyone sees by default.
+CREATE TABLE public.ai_insight_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  diagnostic_result_id UUID NOT NULL REFERENCES public.diagnostic_results(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- Exactly what the model (or the rule-based fallback) returned
+  insights JSONB NOT NULL,
+  -- Clinician's edited copy; the original above is never overwritten
+  edited_insights JSONB,
+  source TEXT NOT NULL CHECK (source IN ('model', 'fallback')),
+  model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  -- SHA-256 of the canonical request inputs; equal hashes mean equal inputs
+  input_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'superseded')),
+  generated_by UUID NOT NULL,
+  edited_by UUID,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (diagnostic_result_id, version)
+);
+
+CREATE UNIQUE INDEX idx_ai_insight_versions_one_approved
+  ON public.ai_insight_versions(diagnostic_result_id)
+  WHERE status = 'approved';
+CREATE INDEX idx_ai_insight_versions_input ON public.ai_insight_versions(diagnostic_result_id, input_hash, prompt_version);
+
+ALTER TABLE public.ai_insight_versions ENABLE ROW LEVEL SECURITY;
+
+-- Whoever ran or owns the assessment, or can access the assessed student.
+-- Parents are deliberately not included: drafts are clinical working notes.
+CREATE OR REPLACE FUNCTION public.can_access_diagnostic_result(_user_id uuid, _result_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.diagnostic_results r
+    WHERE r.id = _result_id
+      AND (
+        r.user_id = _user_id
+        OR r.clinician_id = _user_id
+        OR (r.student_id IS NOT NULL AND public.can_access_student(_user_id, r.student_id))
+      )
+  )
+$$;
+
+CREATE POLICY "Users can view insight versions of accessible results"
+ON public.ai_insight_versions
+FOR SELECT
+TO authenticated
+USING (public.can_access_diagnostic_result(auth.uid(), diagnostic_result_id));
+
+CREATE POLICY "Users can store insight versions for accessible results"
+ON public.ai_insight_versions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  generated_by = auth.uid()
+  AND status = 'draft'
+  AND edited_insights IS NULL
+  AND public.can_access_diagnostic_result(auth.uid(), diagnostic_result_id)
+);
+
+CREATE POLICY "Users can edit insight versions of accessible results"
+ON public.ai_insight_versions
+FOR UPDATE
+TO authenticated
+USING (public.can_access_diagnostic_result(auth.uid(), diagnostic_result_id));
+
+-- The generated output and its provenance are a record; only the edited
+-- copy and the review fields may change after insert
+CREATE OR REPLACE FUNCTION public.protect_ai_insight_provenance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.insights IS DISTINCT FROM OLD.insights
+    OR NEW.diagnostic_result_id IS DISTINCT FROM OLD.diagnostic_result_id
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.model IS DISTINCT FROM OLD.model
+    OR NEW.prompt_version IS DISTINCT FROM OLD.prompt_version
+    OR NEW.input_hash IS DISTINCT FROM OLD.input_hash
+    OR NEW.generated_by IS DISTINCT FROM OLD.generated_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Generated insights and their provenance cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_ai_insight_provenance
+  BEFORE UPDATE ON public.ai_insight_versions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_ai_insight_provenance();
+
+-- Approve one version and supersede the previously approved one in a single
+-- transaction, so a result never has two approved versions
+CREATE OR REPLACE FUNCTION public.approve_ai_insight_version(_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _result_id uuid;
+BEGIN
+  SELECT diagnostic_result_id INTO _result_id
+  FROM public.ai_insight_versions
+  WHERE id = _version_id;
+
+  IF _result_id IS NULL THEN
+    RAISE EXCEPTION 'Insight version not found';
+  END IF;
+
+  UPDATE public.ai_insight_versions
+  SET status = 'superseded'
+  WHERE diagnostic_result_id = _result_id AND status = 'approved' AND id <> _version_id;
+
+  UPDATE public.ai_insight_versions
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _version_id;
+END;
+$$;
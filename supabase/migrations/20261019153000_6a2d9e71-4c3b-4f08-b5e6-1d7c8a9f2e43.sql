@@ -0,0 +1,4 @@
+-- Oral reading miscues: the transcript aligned to the passage word by word,
+-- with words correct per minute and accuracy
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN miscue_analysis JSONB;
@@ -0,0 +1,9 @@
+-- Microphone recording of the voice step (uploaded via chunked-upload) and its
+-- server-side transcript with word timings; transcribe-reading fills the
+-- transcript and recomputes the voice timing columns from it
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN reading_audio_upload_id UUID REFERENCES public.chunked_uploads(id) ON DELETE SET NULL,
+  ADD COLUMN reading_transcript JSONB;
+
+CREATE INDEX idx_diagnostic_results_reading_audio ON public.diagnostic_results(reading_audio_upload_id)
+  WHERE reading_audio_upload_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Acoustic prosody from the reading audio: summary, phrasing/expression/
+-- smoothness sub-scores, and the raw pitch and intensity contours, pauses and
+-- syllable nuclei for research export
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN acoustic_prosody JSONB;
@@ -0,0 +1,157 @@
+-- Passage library: clinician-authored reading passages alongside the built-in
+-- ones. A passage fixes its language; its text, grade band, difficulty tag
+-- and comprehension questions are kept as numbered versions. Every edit is a
+-- new draft version, and a clinician approves one version per passage; only
+-- approved versions of active passages are offered to assessments.
+CREATE TABLE public.reading_passages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  language TEXT NOT NULL,
+  created_by UUID NOT NULL,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.reading_passage_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  passage_id UUID NOT NULL REFERENCES public.reading_passages(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  title TEXT NOT NULL CHECK (length(title) BETWEEN 1 AND 200),
+  text TEXT NOT NULL CHECK (length(text) BETWEEN 1 AND 10000),
+  grade_band TEXT NOT NULL CHECK (grade_band IN ('K-1', '2-3', '4-5')),
+  difficulty TEXT NOT NULL CHECK (difficulty IN ('easy', 'medium', 'advanced')),
+  -- [{ id, kind: literal|inferential|vocabulary, prompt, answer }]
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Readability computed from the text when the version was saved
+  word_count INTEGER NOT NULL,
+  sentence_count INTEGER NOT NULL,
+  syllables_per_word NUMERIC NOT NULL,
+  grade_level NUMERIC,
+  change_note TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'superseded')),
+  created_by UUID NOT NULL,
+  approved_by UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (passage_id, version)
+);
+
+CREATE UNIQUE INDEX idx_reading_passage_versions_one_approved
+  ON public.reading_passage_versions(passage_id)
+  WHERE status = 'approved';
+CREATE INDEX idx_reading_passages_language ON public.reading_passages(language) WHERE archived_at IS NULL;
+
+ALTER TABLE public.reading_passages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reading_passage_versions ENABLE ROW LEVEL SECURITY;
+
+-- Clinicians and educators write passages; only clinicians approve them
+CREATE OR REPLACE FUNCTION public.can_author_passages(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'clinician') OR public.has_role(_user_id, 'educator')
+$$;
+
+CREATE POLICY "Authenticated users can view the passage library"
+ON public.reading_passages
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authors can add passages"
+ON public.reading_passages
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid() AND public.can_author_passages(auth.uid()));
+
+CREATE POLICY "Authors can archive passages"
+ON public.reading_passages
+FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'clinician'));
+
+-- Approved texts are shared with everyone who runs assessments; drafts stay
+-- with the people writing and reviewing them
+CREATE POLICY "Users can view approved passage versions"
+ON public.reading_passage_versions
+FOR SELECT
+TO authenticated
+USING (status = 'approved' OR public.can_author_passages(auth.uid()));
+
+CREATE POLICY "Authors can add passage versions"
+ON public.reading_passage_versions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND status = 'draft'
+  AND approved_by IS NULL
+  AND public.can_author_passages(auth.uid())
+);
+
+CREATE POLICY "Clinicians can review passage versions"
+ON public.reading_passage_versions
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'clinician'));
+
+-- A version is a record of what was read; only its review fields may change
+CREATE OR REPLACE FUNCTION public.protect_reading_passage_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.passage_id IS DISTINCT FROM OLD.passage_id
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.text IS DISTINCT FROM OLD.text
+    OR NEW.grade_band IS DISTINCT FROM OLD.grade_band
+    OR NEW.difficulty IS DISTINCT FROM OLD.difficulty
+    OR NEW.questions IS DISTINCT FROM OLD.questions
+    OR NEW.word_count IS DISTINCT FROM OLD.word_count
+    OR NEW.sentence_count IS DISTINCT FROM OLD.sentence_count
+    OR NEW.syllables_per_word IS DISTINCT FROM OLD.syllables_per_word
+    OR NEW.grade_level IS DISTINCT FROM OLD.grade_level
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Passage versions cannot be edited; save a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_reading_passage_version
+  BEFORE UPDATE ON public.reading_passage_versions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_reading_passage_version();
+
+-- Approve one version and supersede the previously approved one in a single
+-- transaction, so a passage never has two approved versions
+CREATE OR REPLACE FUNCTION public.approve_reading_passage_version(_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _passage_id uuid;
+BEGIN
+  SELECT passage_id INTO _passage_id
+  FROM public.reading_passage_versions
+  WHERE id = _version_id;
+
+  IF _passage_id IS NULL THEN
+    RAISE EXCEPTION 'Passage version not found';
+  END IF;
+
+  UPDATE public.reading_passage_versions
+  SET status = 'superseded'
+  WHERE passage_id = _passage_id AND status = 'approved' AND id <> _version_id;
+
+  UPDATE public.reading_passage_versions
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _version_id;
+END;
+$$;
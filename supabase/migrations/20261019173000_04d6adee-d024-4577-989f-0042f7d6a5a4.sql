@@ -0,0 +1,21 @@
+-- Parents read their children only through get_parent_children, which writes
+-- an audit entry per child viewed; direct SELECTs would bypass the audit log.
+-- Their link rows carry the access code, so those are not readable either.
+DROP POLICY IF EXISTS "Parents can view linked students" ON public.students;
+DROP POLICY IF EXISTS "Parents can view linked students' diagnostic results" ON public.diagnostic_results;
+DROP POLICY IF EXISTS "Parents can view their own links" ON public.parent_student_links;
+
+-- The student's clinician, for telling staff and parent messages apart.
+-- Only message participants get an answer.
+CREATE OR REPLACE FUNCTION public.get_student_clinician_id(_student_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT clinician_id
+  FROM public.students
+  WHERE id = _student_id
+    AND public.can_message_about_student(auth.uid(), _student_id)
+$$;
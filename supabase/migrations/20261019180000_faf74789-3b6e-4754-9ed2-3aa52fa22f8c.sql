@@ -0,0 +1,110 @@
+-- Classroom access on its own, so the student list and update checks can
+-- test a classroom without a student row to look up
+CREATE OR REPLACE FUNCTION public.can_access_classroom(_user_id uuid, _classroom_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.classrooms c
+    JOIN public.schools sc ON sc.id = c.school_id
+    JOIN public.organization_members m
+      ON m.organization_id = sc.organization_id AND m.user_id = _user_id
+    WHERE c.id = _classroom_id
+      AND (
+        m.role IN ('admin', 'specialist')
+        OR EXISTS (
+          SELECT 1 FROM public.classroom_teachers ct
+          WHERE ct.classroom_id = c.id AND ct.user_id = _user_id
+        )
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_student(_user_id uuid, _student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.students st
+    WHERE st.id = _student_id
+      AND (
+        st.clinician_id = _user_id
+        OR (st.classroom_id IS NOT NULL AND public.can_access_classroom(_user_id, st.classroom_id))
+      )
+  )
+$$;
+
+-- Classrooms whose students the caller shares, for filtering student lists
+-- explicitly instead of relying on every SELECT policy on students
+CREATE OR REPLACE FUNCTION public.get_accessible_classroom_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.classrooms c
+  WHERE public.can_access_classroom(auth.uid(), c.id)
+$$;
+
+-- A shared student must stay shared after the update: members can't move it
+-- into a classroom they can't see. clinician_id is pinned by the
+-- check_student_placement trigger.
+DROP POLICY IF EXISTS "Organization members can update shared students" ON public.students;
+
+CREATE POLICY "Organization members can update shared students"
+ON public.students
+FOR UPDATE
+TO authenticated
+USING (public.can_access_student(auth.uid(), id))
+WITH CHECK (
+  clinician_id = auth.uid()
+  OR (classroom_id IS NOT NULL AND public.can_access_classroom(auth.uid(), classroom_id))
+);
+
+-- Uploads attached to a result (gaze recordings, reading audio) are readable
+-- by everyone who can read the result; only the uploader can change them
+CREATE OR REPLACE FUNCTION public.can_access_upload(_user_id uuid, _upload_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chunked_uploads WHERE id = _upload_id AND user_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.diagnostic_results r
+    WHERE (r.gaze_recording_upload_id = _upload_id OR r.reading_audio_upload_id = _upload_id)
+      AND r.student_id IS NOT NULL
+      AND public.can_access_student(_user_id, r.student_id)
+  )
+$$;
+
+CREATE POLICY "Staff can view uploads of shared results"
+ON public.chunked_uploads
+FOR SELECT
+TO authenticated
+USING (public.can_access_upload(auth.uid(), id));
+
+CREATE POLICY "Staff can view chunks of shared uploads"
+ON public.upload_chunks
+FOR SELECT
+TO authenticated
+USING (public.can_access_upload(auth.uid(), upload_id));
+
+-- Handwriting sample rows follow the student; their image files stay in the
+-- uploading clinician's storage folder. Teacher feedback stays private to its author.
+CREATE POLICY "Staff can view handwriting samples of shared students"
+ON public.handwriting_samples
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(auth.uid(), student_id));
@@ -0,0 +1,14 @@
+-- Whether a result is screening only: its calibration failed validation or
+-- was never validated (skipped or synced offline). Only a save with a passing
+-- or imprecise validation clears it. Results recorded before validation
+-- existed are left NULL (unknown) rather than downgraded after the fact.
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN screening_only BOOLEAN;
+
+UPDATE public.diagnostic_results
+SET screening_only = calibration_validation->>'verdict' = 'fail'
+WHERE calibration_validation IS NOT NULL;
+
+-- New results default to screening only until a validation clears them
+ALTER TABLE public.diagnostic_results
+  ALTER COLUMN screening_only SET DEFAULT true;
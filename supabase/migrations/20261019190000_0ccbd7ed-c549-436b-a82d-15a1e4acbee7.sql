@@ -0,0 +1,3 @@
+-- When recipients were emailed about a message, so each message notifies once
+ALTER TABLE public.student_messages
+  ADD COLUMN notified_at TIMESTAMP WITH TIME ZONE;
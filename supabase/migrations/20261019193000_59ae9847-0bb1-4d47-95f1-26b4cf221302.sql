@@ -0,0 +1,65 @@
+-- The library passage version a result was read from; null for built-in passages
+ALTER TABLE public.diagnostic_results
+  ADD COLUMN passage_version_id UUID REFERENCES public.reading_passage_versions(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Authors can archive passages" ON public.reading_passages;
+
+CREATE POLICY "Authors can archive passages"
+ON public.reading_passages
+FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'clinician'))
+WITH CHECK (created_by = auth.uid() OR public.has_role(auth.uid(), 'clinician'));
+
+-- Archiving is the only change a passage takes; its text lives in its versions
+CREATE OR REPLACE FUNCTION public.protect_reading_passage()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.language IS DISTINCT FROM OLD.language
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only archived_at can be changed on a passage';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_reading_passage
+  BEFORE UPDATE ON public.reading_passages
+  FOR EACH ROW EXECUTE FUNCTION public.protect_reading_passage();
+
+-- Refuse outright rather than letting row security skip the updates
+CREATE OR REPLACE FUNCTION public.approve_reading_passage_version(_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _passage_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'clinician') THEN
+    RAISE EXCEPTION 'Only clinicians can approve passage versions';
+  END IF;
+
+  SELECT passage_id INTO _passage_id
+  FROM public.reading_passage_versions
+  WHERE id = _version_id;
+
+  IF _passage_id IS NULL THEN
+    RAISE EXCEPTION 'Passage version not found';
+  END IF;
+
+  UPDATE public.reading_passage_versions
+  SET status = 'superseded'
+  WHERE passage_id = _passage_id AND status = 'approved' AND id <> _version_id;
+
+  UPDATE public.reading_passage_versions
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _version_id;
+END;
+$$;
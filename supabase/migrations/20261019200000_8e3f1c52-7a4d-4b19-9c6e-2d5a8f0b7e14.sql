@@ -0,0 +1,91 @@
+-- Review fields on insight versions are written by approve_ai_insight_version
+-- only, and only for clinicians; a direct update can change nothing but the
+-- caller's own edited copy
+DROP POLICY IF EXISTS "Users can edit insight versions of accessible results" ON public.ai_insight_versions;
+
+CREATE POLICY "Users can edit insight versions of accessible results"
+ON public.ai_insight_versions
+FOR UPDATE
+TO authenticated
+USING (public.can_access_diagnostic_result(auth.uid(), diagnostic_result_id))
+WITH CHECK (
+  edited_by = auth.uid()
+  AND public.can_access_diagnostic_result(auth.uid(), diagnostic_result_id)
+);
+
+CREATE OR REPLACE FUNCTION public.protect_ai_insight_provenance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.insights IS DISTINCT FROM OLD.insights
+    OR NEW.diagnostic_result_id IS DISTINCT FROM OLD.diagnostic_result_id
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.model IS DISTINCT FROM OLD.model
+    OR NEW.prompt_version IS DISTINCT FROM OLD.prompt_version
+    OR NEW.input_hash IS DISTINCT FROM OLD.input_hash
+    OR NEW.generated_by IS DISTINCT FROM OLD.generated_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Generated insights and their provenance cannot be changed';
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.approved_by IS DISTINCT FROM OLD.approved_by
+      OR NEW.approved_at IS DISTINCT FROM OLD.approved_at)
+    AND current_setting('app.approving_insight_version', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Insight versions can only be approved through approve_ai_insight_version';
+  END IF;
+
+  -- Edits are stamped here rather than trusting the client's clock
+  IF NEW.edited_insights IS DISTINCT FROM OLD.edited_insights THEN
+    NEW.edited_at := now();
+  ELSIF NEW.edited_by IS DISTINCT FROM OLD.edited_by
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+  THEN
+    RAISE EXCEPTION 'Edit fields change only with the edited insights';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as definer so approving is not blocked by another user's edit stamp;
+-- access and role are checked here instead
+CREATE OR REPLACE FUNCTION public.approve_ai_insight_version(_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'clinician') THEN
+    RAISE EXCEPTION 'Only clinicians can approve insight versions';
+  END IF;
+
+  SELECT diagnostic_result_id INTO _result_id
+  FROM public.ai_insight_versions
+  WHERE id = _version_id;
+
+  IF _result_id IS NULL OR NOT public.can_access_diagnostic_result(auth.uid(), _result_id) THEN
+    RAISE EXCEPTION 'Insight version not found';
+  END IF;
+
+  PERFORM set_config('app.approving_insight_version', 'on', true);
+
+  UPDATE public.ai_insight_versions
+  SET status = 'superseded'
+  WHERE diagnostic_result_id = _result_id AND status = 'approved' AND id <> _version_id;
+
+  UPDATE public.ai_insight_versions
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _version_id;
+
+  PERFORM set_config('app.approving_insight_version', 'off', true);
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Library passage versions a campaign reads, at most one per grade band.
+-- Students whose grade band has none read the built-in grade-levelled
+-- passage in the campaign's language. Versions are pinned, so approving a
+-- newer one mid-campaign does not change what the rest of the class reads.
+ALTER TABLE public.screening_campaigns
+  ADD COLUMN passage_version_ids UUID[] NOT NULL DEFAULT '{}';